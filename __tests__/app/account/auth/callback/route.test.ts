@@ -0,0 +1,97 @@
+/**
+ * Customer Magic-Link Callback Tests
+ *
+ * Tests for exchanging the sign-in code and creating the account.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/account/auth/callback/route';
+import { upsertCustomer } from '@/lib/db/customers';
+import { createAnonClient } from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createAnonClient: vi.fn(),
+}));
+
+vi.mock('@/lib/db/customers', () => ({
+    upsertCustomer: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const exchangeCodeForSession = vi.fn();
+const signOut = vi.fn();
+
+const callGet = (query: string) =>
+    GET(new NextRequest(`http://localhost:3000/account/auth/callback${query}`));
+
+describe('GET /account/auth/callback', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(createAnonClient).mockResolvedValue({
+            auth: { exchangeCodeForSession, signOut },
+        } as never);
+        exchangeCodeForSession.mockResolvedValue({
+            data: { user: { id: 'auth-1', email: 'jane@example.com' } },
+            error: null,
+        });
+        vi.mocked(upsertCustomer).mockResolvedValue({
+            data: { id: 'customer-1' } as never,
+            error: null,
+        });
+    });
+
+    it('signs the customer in and opens their account', async () => {
+        const response = await callGet('?code=abc123');
+
+        expect(exchangeCodeForSession).toHaveBeenCalledWith('abc123');
+        expect(upsertCustomer).toHaveBeenCalledWith(
+            'auth-1',
+            'jane@example.com'
+        );
+        expect(response.status).toBe(307);
+        expect(response.headers.get('location')).toBe(
+            'http://localhost:3000/account'
+        );
+    });
+
+    it('sends missing codes back to sign in', async () => {
+        const response = await callGet('');
+
+        expect(response.headers.get('location')).toBe(
+            'http://localhost:3000/account/login?error=link'
+        );
+        expect(exchangeCodeForSession).not.toHaveBeenCalled();
+    });
+
+    it('sends expired links back to sign in', async () => {
+        exchangeCodeForSession.mockResolvedValue({
+            data: { user: null },
+            error: { message: 'invalid flow state' },
+        });
+
+        const response = await callGet('?code=expired');
+
+        expect(response.headers.get('location')).toBe(
+            'http://localhost:3000/account/login?error=link'
+        );
+        expect(upsertCustomer).not.toHaveBeenCalled();
+    });
+
+    it('signs back out when the account cannot be created', async () => {
+        vi.mocked(upsertCustomer).mockResolvedValue({
+            data: null,
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+
+        const response = await callGet('?code=abc123');
+
+        expect(signOut).toHaveBeenCalled();
+        expect(response.headers.get('location')).toBe(
+            'http://localhost:3000/account/login?error=link'
+        );
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for the customer magic-link sign-in form
+ */
+
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import CustomerLoginClient from '@/app/account/login/CustomerLoginClient';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+async function requestLink(email: string) {
+    const user = userEvent.setup();
+    render(<CustomerLoginClient />);
+
+    await user.type(screen.getByLabelText('Email'), email);
+    await user.click(
+        screen.getByRole('button', { name: 'Email me a sign-in link' })
+    );
+}
+
+describe('CustomerLoginClient', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('asks the customer to check their email once the link is sent', async () => {
+        mockFetch.mockResolvedValue({
+            ok: true,
+            json: async () => ({ success: true }),
+        });
+
+        await requestLink('jane@example.com');
+
+        expect(mockFetch).toHaveBeenCalledWith('/api/account/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: 'jane@example.com' }),
+        });
+        expect(await screen.findByText('Check your email')).toBeInTheDocument();
+        expect(screen.getByText('jane@example.com')).toBeInTheDocument();
+    });
+
+    it('validates the email before sending', async () => {
+        await requestLink('jane');
+
+        expect(
+            screen.getByText('Please enter a valid email address')
+        ).toBeInTheDocument();
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('explains rate limiting', async () => {
+        mockFetch.mockResolvedValue({ ok: false, status: 429 });
+
+        await requestLink('jane@example.com');
+
+        expect(await screen.findByRole('alert')).toHaveTextContent(
+            'Too many sign-in requests'
+        );
+    });
+
+    it('explains expired links from the callback', () => {
+        render(<CustomerLoginClient linkFailed />);
+
+        expect(screen.getByRole('alert')).toHaveTextContent(
+            'That sign-in link has expired or was already used'
+        );
+    });
+});
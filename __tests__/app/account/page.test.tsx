@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import AccountPage from '@/app/account/page';
+import { getSignedInCustomer } from '@/lib/db/customers';
+import { getOrdersByEmail } from '@/lib/db/orders';
+import type { Order } from '@/types/order';
+
+vi.mock('next/navigation', () => ({
+    useRouter: () => ({ push: vi.fn(), refresh: vi.fn() }),
+    redirect: vi.fn((url: string) => {
+        throw new Error(`Redirect: ${url}`);
+    }),
+}));
+
+vi.mock('@/lib/db/customers', () => ({
+    getSignedInCustomer: vi.fn(),
+}));
+
+vi.mock('@/lib/db/orders', () => ({
+    getOrdersByEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const order = {
+    id: 'order-123',
+    orderNumber: 'YOA-20250112-0374',
+    status: 'shipped',
+    shipments: [
+        {
+            trackingNumber: '1Z999AA10123456784',
+            carrierName: 'UPS',
+            trackingUrl:
+                'https://www.ups.com/track?tracknum=1Z999AA10123456784',
+        },
+    ],
+    items: [
+        {
+            id: 'item-1',
+            artworkId: 'artwork-1',
+            quantity: 2,
+            priceAtPurchase: 50,
+            lineSubtotal: 100,
+            title: 'Blue Dragon',
+            variantName: 'A3 Print',
+        },
+    ],
+    total: 105,
+    createdAt: '2025-01-12T10:00:00Z',
+} as Order;
+
+describe('Account Page', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(getSignedInCustomer).mockResolvedValue({
+            data: { id: 'customer-1', email: 'jane@example.com' } as never,
+            error: null,
+        });
+        vi.mocked(getOrdersByEmail).mockResolvedValue({
+            data: [order],
+            error: null,
+        });
+    });
+
+    it('sends signed-out visitors to the sign-in page', async () => {
+        vi.mocked(getSignedInCustomer).mockResolvedValue({
+            data: null,
+            error: null,
+        });
+
+        await expect(AccountPage()).rejects.toThrow('Redirect: /account/login');
+    });
+
+    it("lists the orders placed with the customer's email", async () => {
+        render(await AccountPage());
+
+        expect(getOrdersByEmail).toHaveBeenCalledWith('jane@example.com');
+        expect(screen.getByText('YOA-20250112-0374')).toBeInTheDocument();
+        expect(screen.getByText('Shipped')).toBeInTheDocument();
+        expect(
+            screen.getByText(/2 × Blue Dragon \(A3 Print\)/)
+        ).toBeInTheDocument();
+        expect(
+            screen.getByRole('link', { name: '1Z999AA10123456784' })
+        ).toHaveAttribute(
+            'href',
+            'https://www.ups.com/track?tracknum=1Z999AA10123456784'
+        );
+        expect(screen.getByText('Total: $105.00')).toBeInTheDocument();
+    });
+
+    it('shows the account navigation', async () => {
+        render(await AccountPage());
+
+        expect(screen.getByText('jane@example.com')).toBeInTheDocument();
+        expect(
+            screen.getByRole('link', { name: 'Order history' })
+        ).toHaveAttribute('aria-current', 'page');
+        expect(
+            screen.getByRole('link', { name: 'Saved address' })
+        ).toHaveAttribute('href', '/account/addresses');
+        expect(
+            screen.getByRole('button', { name: 'Sign out' })
+        ).toBeInTheDocument();
+    });
+
+    it('explains when there are no orders yet', async () => {
+        vi.mocked(getOrdersByEmail).mockResolvedValue({
+            data: [],
+            error: null,
+        });
+
+        render(await AccountPage());
+
+        expect(
+            screen.getByText(/haven't placed any orders/)
+        ).toBeInTheDocument();
+    });
+
+    it('shows an error when the orders cannot be loaded', async () => {
+        vi.mocked(getOrdersByEmail).mockResolvedValue({
+            data: null,
+            error: new Error('connection lost'),
+        });
+
+        render(await AccountPage());
+
+        expect(screen.getByRole('alert')).toHaveTextContent(
+            "We couldn't load your orders"
+        );
+    });
+});
@@ -22,6 +22,20 @@ vi.mock('@/lib/db/admin/artwork', () => ({
     getArtworkById: vi.fn(),
 }));
 
+vi.mock('@/lib/db/admin/variants', () => ({
+    getVariantsByArtworkId: vi.fn().mockResolvedValue({
+        data: [],
+        error: null,
+    }),
+}));
+
+vi.mock('@/lib/db/admin/projects', () => ({
+    getAllProjectsAdmin: vi.fn().mockResolvedValue({
+        data: [],
+        error: null,
+    }),
+}));
+
 // Helper function to create complete mock artwork
 function createMockArtwork(overrides: Partial<ArtworkRow> = {}): ArtworkRow {
     return {
@@ -34,6 +48,11 @@ function createMockArtwork(overrides: Partial<ArtworkRow> = {}): ArtworkRow {
         sku: null,
         inventory_count: 5,
         is_limited_edition: false,
+        edition_size: null,
+        last_edition_number: 0,
+        is_original: false,
+        shipping_class: 'standard',
+        project_id: null,
         medium: null,
         dimensions: null,
         year_created: null,
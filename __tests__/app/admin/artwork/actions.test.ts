@@ -5,6 +5,9 @@ import {
     deleteArtworkAction,
 } from '@/app/admin/artwork/actions';
 import * as artworkDb from '@/lib/db/admin/artwork';
+import * as variantsDb from '@/lib/db/admin/variants';
+import * as waitlistDb from '@/lib/db/waitlist';
+import { sendBackInStockEmail } from '@/lib/email/send';
 import type { ArtworkAdminError } from '@/lib/db/admin/artwork';
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
@@ -33,6 +36,19 @@ vi.mock('@/lib/db/admin/artwork', () => ({
     deleteArtwork: vi.fn(),
 }));
 
+vi.mock('@/lib/db/admin/variants', () => ({
+    saveArtworkVariants: vi.fn(),
+}));
+
+vi.mock('@/lib/db/waitlist', () => ({
+    getPendingWaitlistEntries: vi.fn(),
+    markWaitlistNotified: vi.fn(),
+}));
+
+vi.mock('@/lib/email/send', () => ({
+    sendBackInStockEmail: vi.fn(),
+}));
+
 describe('Artwork Actions', () => {
     beforeEach(() => {
         vi.clearAllMocks();
@@ -268,6 +284,173 @@ describe('Artwork Actions', () => {
                 partialData
             );
         });
+
+        it('should save variants separately from the artwork row', async () => {
+            const variants = [
+                {
+                    name: '11x14 Framed',
+                    size: '11x14',
+                    finish: 'Matte',
+                    is_framed: true,
+                    price: '85.00',
+                    sku: null,
+                    inventory_count: 3,
+                    is_active: true,
+                },
+            ];
+
+            vi.mocked(artworkDb.updateArtwork).mockResolvedValue({
+                data: null,
+                error: null,
+            });
+            vi.mocked(variantsDb.saveArtworkVariants).mockResolvedValue({
+                data: [],
+                error: null,
+            });
+
+            await expect(
+                updateArtworkAction(artworkId, {
+                    ...validArtworkData,
+                    variants,
+                })
+            ).rejects.toThrow('NEXT_REDIRECT');
+
+            expect(artworkDb.updateArtwork).toHaveBeenCalledWith(
+                artworkId,
+                validArtworkData
+            );
+            expect(variantsDb.saveArtworkVariants).toHaveBeenCalledWith(
+                artworkId,
+                variants
+            );
+        });
+
+        it('should throw when saving variants fails', async () => {
+            vi.mocked(artworkDb.updateArtwork).mockResolvedValue({
+                data: null,
+                error: null,
+            });
+            vi.mocked(variantsDb.saveArtworkVariants).mockResolvedValue({
+                data: null,
+                error: { code: '23505', message: 'Duplicate SKU' },
+            });
+
+            await expect(
+                updateArtworkAction(artworkId, {
+                    ...validArtworkData,
+                    variants: [],
+                })
+            ).rejects.toThrow('Duplicate SKU');
+
+            expect(revalidatePath).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('back-in-stock notifications', () => {
+        const artworkId = 'artwork-uuid-123';
+        const restocked = {
+            ...validArtworkData,
+            id: artworkId,
+            inventory_count: 5,
+        } as unknown as artworkDb.ArtworkRow;
+
+        beforeEach(() => {
+            vi.mocked(waitlistDb.getPendingWaitlistEntries).mockResolvedValue({
+                data: [
+                    {
+                        id: 'entry-1',
+                        email: 'fan@example.com',
+                        unsubscribe_token: 'token-1',
+                    },
+                    {
+                        id: 'entry-2',
+                        email: 'collector@example.com',
+                        unsubscribe_token: 'token-2',
+                    },
+                ],
+                error: null,
+            });
+            vi.mocked(waitlistDb.markWaitlistNotified).mockResolvedValue({
+                error: null,
+            });
+            vi.mocked(sendBackInStockEmail).mockResolvedValue({
+                success: true,
+            });
+        });
+
+        it('should email the waitlist when the artwork is restocked', async () => {
+            vi.mocked(artworkDb.updateArtwork).mockResolvedValue({
+                data: restocked,
+                error: null,
+            });
+
+            await expect(
+                updateArtworkAction(artworkId, validArtworkData)
+            ).rejects.toThrow('NEXT_REDIRECT');
+
+            expect(waitlistDb.getPendingWaitlistEntries).toHaveBeenCalledWith(
+                artworkId
+            );
+            expect(sendBackInStockEmail).toHaveBeenCalledTimes(2);
+            expect(sendBackInStockEmail).toHaveBeenCalledWith(
+                { email: 'fan@example.com', unsubscribeToken: 'token-1' },
+                restocked
+            );
+            expect(waitlistDb.markWaitlistNotified).toHaveBeenCalledWith([
+                'entry-1',
+                'entry-2',
+            ]);
+        });
+
+        it('should leave failed sends pending', async () => {
+            vi.mocked(artworkDb.updateArtwork).mockResolvedValue({
+                data: restocked,
+                error: null,
+            });
+            vi.mocked(sendBackInStockEmail)
+                .mockResolvedValueOnce({ success: false })
+                .mockResolvedValueOnce({ success: true });
+
+            await expect(
+                updateArtworkAction(artworkId, validArtworkData)
+            ).rejects.toThrow('NEXT_REDIRECT');
+
+            expect(waitlistDb.markWaitlistNotified).toHaveBeenCalledWith([
+                'entry-2',
+            ]);
+        });
+
+        it('should not notify while the artwork is still sold out', async () => {
+            vi.mocked(artworkDb.updateArtwork).mockResolvedValue({
+                data: { ...restocked, inventory_count: 0 },
+                error: null,
+            });
+
+            await expect(
+                updateArtworkAction(artworkId, validArtworkData)
+            ).rejects.toThrow('NEXT_REDIRECT');
+
+            expect(waitlistDb.getPendingWaitlistEntries).not.toHaveBeenCalled();
+            expect(sendBackInStockEmail).not.toHaveBeenCalled();
+        });
+
+        it('should still save when the waitlist cannot be loaded', async () => {
+            vi.mocked(artworkDb.updateArtwork).mockResolvedValue({
+                data: restocked,
+                error: null,
+            });
+            vi.mocked(waitlistDb.getPendingWaitlistEntries).mockResolvedValue({
+                data: null,
+                error: { code: '500', message: 'Query failed' },
+            });
+
+            await expect(
+                updateArtworkAction(artworkId, validArtworkData)
+            ).rejects.toThrow('NEXT_REDIRECT');
+
+            expect(sendBackInStockEmail).not.toHaveBeenCalled();
+            expect(redirect).toHaveBeenCalledWith('/admin/artwork');
+        });
     });
 
     describe('deleteArtworkAction', () => {
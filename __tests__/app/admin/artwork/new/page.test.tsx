@@ -4,13 +4,39 @@ import CreateArtworkPage from '@/app/admin/artwork/new/page';
 
 // Mock ArtworkForm
 vi.mock('@/components/admin/artwork/ArtworkForm', () => ({
-    default: () => <div data-testid="artwork-form">Artwork Form</div>,
+    default: ({
+        projectOptions = [],
+    }: {
+        projectOptions?: { id: string; title: string }[];
+    }) => (
+        <div data-testid="artwork-form">
+            Artwork Form
+            {projectOptions.map((project) => (
+                <span key={project.id}>{project.title}</span>
+            ))}
+        </div>
+    ),
+}));
+
+// Mock the project list (pre-order project options)
+vi.mock('@/lib/db/admin/projects', () => ({
+    getAllProjectsAdmin: vi.fn().mockResolvedValue({
+        data: [
+            { id: 'project-1', title: 'Sketchbook Vol. 2', status: 'active' },
+        ],
+        error: null,
+    }),
 }));
 
 describe('CreateArtworkPage', () => {
-    it('renders the artwork form', () => {
-        render(<CreateArtworkPage />);
+    it('renders the artwork form', async () => {
+        render(await CreateArtworkPage());
         expect(screen.getByTestId('artwork-form')).toBeDefined();
         expect(screen.getByText('Artwork Form')).toBeDefined();
     });
+
+    it('offers projects to link the artwork to', async () => {
+        render(await CreateArtworkPage());
+        expect(screen.getByText('Sketchbook Vol. 2')).toBeDefined();
+    });
 });
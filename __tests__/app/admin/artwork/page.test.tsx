@@ -44,6 +44,11 @@ describe('ArtworkPage', () => {
                 sku: null,
                 inventory_count: 1,
                 is_limited_edition: false,
+                edition_size: null,
+                last_edition_number: 0,
+                is_original: false,
+                shipping_class: 'standard' as const,
+                project_id: null,
                 medium: null,
                 dimensions: null,
                 year_created: 2023,
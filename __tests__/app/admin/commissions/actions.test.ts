@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    sendCommissionQuoteAction,
+    updateCommissionStatusAction,
+} from '@/app/admin/commissions/actions';
+import * as commissionsDb from '@/lib/db/admin/commissions';
+import type {
+    CommissionRow,
+    CommissionWithPayments,
+} from '@/lib/db/admin/commissions';
+import * as stripe from '@/lib/payments/stripe';
+import { sendCommissionQuoteEmail } from '@/lib/email/send';
+import { revalidatePath } from 'next/cache';
+import type Stripe from 'stripe';
+
+// Mock Next.js modules
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
+// Mock database, payment and email functions
+vi.mock('@/lib/db/admin/commissions', () => ({
+    getCommissionByIdAdmin: vi.fn(),
+    saveCommissionQuote: vi.fn(),
+    updateCommissionStatus: vi.fn(),
+}));
+
+vi.mock('@/lib/payments/stripe', () => ({
+    createPaymentLink: vi.fn(),
+    deactivatePaymentLink: vi.fn(),
+}));
+
+vi.mock('@/lib/email/send', () => ({
+    sendCommissionQuoteEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+describe('Commission Actions', () => {
+    const commission = {
+        id: 'commission-1',
+        customer_name: 'Fan',
+        customer_email: 'fan@example.com',
+        subject: 'Dog portrait',
+        status: 'new',
+        deposit_payment_link_id: null,
+        balance_payment_link_id: null,
+        commission_payments: [],
+    } as unknown as CommissionWithPayments;
+
+    const quote = {
+        quote_amount: '400',
+        deposit_amount: '100',
+        quote_notes: 'Two rounds of revisions included',
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(commissionsDb.getCommissionByIdAdmin).mockResolvedValue({
+            data: commission,
+            error: null,
+        });
+        vi.mocked(stripe.createPaymentLink).mockImplementation(
+            async (_amount, _name, metadata) =>
+                ({
+                    id: `plink_${metadata?.paymentType}`,
+                    url: `https://buy.stripe.com/${metadata?.paymentType}`,
+                }) as Stripe.PaymentLink
+        );
+        vi.mocked(commissionsDb.saveCommissionQuote).mockResolvedValue({
+            data: { id: 'commission-1', status: 'quoted' } as CommissionRow,
+            error: null,
+        });
+        vi.mocked(sendCommissionQuoteEmail).mockResolvedValue({
+            success: true,
+        });
+    });
+
+    describe('updateCommissionStatusAction', () => {
+        it('updates the status and revalidates the commission pages', async () => {
+            vi.mocked(commissionsDb.updateCommissionStatus).mockResolvedValue({
+                data: { id: 'commission-1' } as CommissionRow,
+                error: null,
+            });
+
+            await updateCommissionStatusAction('commission-1', 'in_progress');
+
+            expect(commissionsDb.updateCommissionStatus).toHaveBeenCalledWith(
+                'commission-1',
+                'in_progress'
+            );
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/commissions/commission-1'
+            );
+        });
+
+        it('throws when the update fails', async () => {
+            vi.mocked(commissionsDb.updateCommissionStatus).mockResolvedValue({
+                data: null,
+                error: { code: '500', message: 'db down' },
+            });
+
+            await expect(
+                updateCommissionStatusAction('commission-1', 'delivered')
+            ).rejects.toThrow('db down');
+        });
+    });
+
+    describe('sendCommissionQuoteAction', () => {
+        it('creates deposit and balance links, saves the quote and emails it', async () => {
+            const result = await sendCommissionQuoteAction(
+                'commission-1',
+                quote
+            );
+
+            expect(result).toEqual({ emailSent: true });
+            expect(stripe.createPaymentLink).toHaveBeenCalledWith(
+                100,
+                'Commission deposit: Dog portrait',
+                { commissionId: 'commission-1', paymentType: 'deposit' }
+            );
+            expect(stripe.createPaymentLink).toHaveBeenCalledWith(
+                300,
+                'Commission balance: Dog portrait',
+                { commissionId: 'commission-1', paymentType: 'balance' }
+            );
+            expect(commissionsDb.saveCommissionQuote).toHaveBeenCalledWith(
+                'commission-1',
+                {
+                    quote_amount: '400.00',
+                    deposit_amount: '100.00',
+                    quote_notes: 'Two rounds of revisions included',
+                    deposit_payment_link_id: 'plink_deposit',
+                    deposit_payment_link_url: 'https://buy.stripe.com/deposit',
+                    balance_payment_link_id: 'plink_balance',
+                    balance_payment_link_url: 'https://buy.stripe.com/balance',
+                }
+            );
+            expect(sendCommissionQuoteEmail).toHaveBeenCalledWith({
+                id: 'commission-1',
+                status: 'quoted',
+            });
+            expect(stripe.deactivatePaymentLink).not.toHaveBeenCalled();
+        });
+
+        it('deactivates the previous links when re-quoting', async () => {
+            vi.mocked(commissionsDb.getCommissionByIdAdmin).mockResolvedValue({
+                data: {
+                    ...commission,
+                    status: 'quoted',
+                    deposit_payment_link_id: 'plink_old_deposit',
+                    balance_payment_link_id: 'plink_old_balance',
+                },
+                error: null,
+            });
+
+            await sendCommissionQuoteAction('commission-1', quote);
+
+            expect(stripe.deactivatePaymentLink).toHaveBeenCalledWith(
+                'plink_old_deposit'
+            );
+            expect(stripe.deactivatePaymentLink).toHaveBeenCalledWith(
+                'plink_old_balance'
+            );
+        });
+
+        it('rejects a deposit that is not less than the quote', async () => {
+            await expect(
+                sendCommissionQuoteAction('commission-1', {
+                    ...quote,
+                    deposit_amount: '400',
+                })
+            ).rejects.toThrow('Deposit must be less than the quoted price');
+
+            expect(stripe.createPaymentLink).not.toHaveBeenCalled();
+        });
+
+        it('refuses to quote once the deposit is paid', async () => {
+            vi.mocked(commissionsDb.getCommissionByIdAdmin).mockResolvedValue({
+                data: { ...commission, status: 'deposit_paid' },
+                error: null,
+            });
+
+            await expect(
+                sendCommissionQuoteAction('commission-1', quote)
+            ).rejects.toThrow(
+                'Only new or quoted commissions can be sent a quote'
+            );
+
+            expect(stripe.createPaymentLink).not.toHaveBeenCalled();
+        });
+
+        it('reports when the quote email could not be sent', async () => {
+            vi.mocked(sendCommissionQuoteEmail).mockResolvedValue({
+                success: false,
+            });
+
+            const result = await sendCommissionQuoteAction(
+                'commission-1',
+                quote
+            );
+
+            expect(result).toEqual({ emailSent: false });
+            expect(revalidatePath).toHaveBeenCalledWith('/admin/commissions');
+        });
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    createCouponAction,
+    updateCouponAction,
+    deleteCouponAction,
+} from '@/app/admin/coupons/actions';
+import * as couponsDb from '@/lib/db/admin/coupons';
+import type { CouponAdminError } from '@/lib/db/admin/coupons';
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import type { CouponFormData } from '@/lib/validation/coupons';
+
+// Mock Next.js modules
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
+vi.mock('next/navigation', () => ({
+    redirect: vi.fn(() => {
+        // Next.js redirect throws a NEXT_REDIRECT error
+        const error = new Error('NEXT_REDIRECT') as Error & {
+            digest?: string;
+        };
+        error.digest = 'NEXT_REDIRECT';
+        throw error;
+    }),
+}));
+
+// Mock database functions
+vi.mock('@/lib/db/admin/coupons', () => ({
+    createCoupon: vi.fn(),
+    updateCoupon: vi.fn(),
+    deleteCoupon: vi.fn(),
+}));
+
+describe('Coupon Actions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const validCouponData: CouponFormData = {
+        code: 'SPRING10',
+        description: null,
+        discount_type: 'percentage',
+        discount_value: '10',
+        minimum_subtotal: null,
+        starts_at: null,
+        expires_at: null,
+        usage_limit: null,
+        applies_to_artwork_ids: null,
+        applies_to_tags: null,
+        is_active: true,
+    };
+
+    const dbError: CouponAdminError = {
+        code: '23505',
+        message: 'duplicate key value violates unique constraint',
+    };
+
+    describe('createCouponAction', () => {
+        it('creates the coupon, revalidates and redirects', async () => {
+            vi.mocked(couponsDb.createCoupon).mockResolvedValue({
+                data: { id: 'coupon-1' } as never,
+                error: null,
+            });
+
+            await expect(createCouponAction(validCouponData)).rejects.toThrow(
+                'NEXT_REDIRECT'
+            );
+
+            expect(couponsDb.createCoupon).toHaveBeenCalledWith(
+                validCouponData
+            );
+            expect(revalidatePath).toHaveBeenCalledWith('/admin/coupons');
+            expect(redirect).toHaveBeenCalledWith('/admin/coupons');
+        });
+
+        it('throws the database error message', async () => {
+            vi.mocked(couponsDb.createCoupon).mockResolvedValue({
+                data: null,
+                error: dbError,
+            });
+
+            await expect(createCouponAction(validCouponData)).rejects.toThrow(
+                dbError.message
+            );
+            expect(redirect).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('updateCouponAction', () => {
+        it('updates the coupon and redirects', async () => {
+            vi.mocked(couponsDb.updateCoupon).mockResolvedValue({
+                data: { id: 'coupon-1' } as never,
+                error: null,
+            });
+
+            await expect(
+                updateCouponAction('coupon-1', validCouponData)
+            ).rejects.toThrow('NEXT_REDIRECT');
+
+            expect(couponsDb.updateCoupon).toHaveBeenCalledWith(
+                'coupon-1',
+                validCouponData
+            );
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/coupons/coupon-1'
+            );
+        });
+
+        it('throws the database error message', async () => {
+            vi.mocked(couponsDb.updateCoupon).mockResolvedValue({
+                data: null,
+                error: dbError,
+            });
+
+            await expect(
+                updateCouponAction('coupon-1', validCouponData)
+            ).rejects.toThrow(dbError.message);
+        });
+    });
+
+    describe('deleteCouponAction', () => {
+        it('deletes the coupon and revalidates without redirecting', async () => {
+            vi.mocked(couponsDb.deleteCoupon).mockResolvedValue({
+                data: { id: 'coupon-1' },
+                error: null,
+            });
+
+            await deleteCouponAction('coupon-1');
+
+            expect(couponsDb.deleteCoupon).toHaveBeenCalledWith('coupon-1');
+            expect(revalidatePath).toHaveBeenCalledWith('/admin/coupons');
+            expect(redirect).not.toHaveBeenCalled();
+        });
+
+        it('throws the database error message', async () => {
+            vi.mocked(couponsDb.deleteCoupon).mockResolvedValue({
+                data: null,
+                error: dbError,
+            });
+
+            await expect(deleteCouponAction('coupon-1')).rejects.toThrow(
+                dbError.message
+            );
+        });
+    });
+});
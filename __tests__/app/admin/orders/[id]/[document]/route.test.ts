@@ -0,0 +1,168 @@
+/**
+ * Order Document Route Tests
+ *
+ * Tests for serving a single order's packing slip or invoice PDF.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/admin/orders/[id]/[document]/route';
+import {
+    getOrderById,
+    type OrderWithItemsAndArtwork,
+} from '@/lib/db/admin/orders';
+
+vi.mock('@/lib/db/admin/orders', () => ({
+    getOrderById: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const mockGetOrderById = vi.mocked(getOrderById);
+
+const ORDER_ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+const order: OrderWithItemsAndArtwork = {
+    id: ORDER_ID,
+    order_number: 'ORD-20250101-ABCD',
+    customer_name: 'Jane Collector',
+    customer_email: 'jane@example.com',
+    shipping_address_line1: '1 Ship St',
+    shipping_address_line2: null,
+    shipping_city: 'Portland',
+    shipping_state: 'OR',
+    shipping_zip: '97201',
+    shipping_country: 'US',
+    billing_address_line1: '1 Ship St',
+    billing_address_line2: null,
+    billing_city: 'Portland',
+    billing_state: 'OR',
+    billing_zip: '97201',
+    billing_country: 'US',
+    order_notes: null,
+    subtotal: '50.00',
+    shipping_cost: '8.00',
+    tax_amount: '4.00',
+    total: '62.00',
+    coupon_id: null,
+    coupon_code: null,
+    discount_amount: '0.00',
+    gift_card_amount: '0.00',
+    is_preorder: false,
+    expected_ship_date: null,
+    status: 'paid',
+    payment_intent_id: 'pi_123',
+    payment_status: 'succeeded',
+    shipped_email_sent_at: null,
+    delivered_email_sent_at: null,
+    admin_notes: null,
+    created_at: '2025-01-01T10:00:00Z',
+    updated_at: '2025-01-01T10:00:00Z',
+    order_items: [
+        {
+            id: 'item-1',
+            order_id: ORDER_ID,
+            artwork_id: 'art-1',
+            quantity: 1,
+            price_at_purchase: '50.00',
+            line_subtotal: '50.00',
+            variant_id: null,
+            variant_name: null,
+            preorder_project_id: null,
+            edition_number_start: null,
+            edition_size: null,
+            certificate_token: null,
+            created_at: '2025-01-01T10:00:00Z',
+            artwork: {
+                title: 'Blue Dragon',
+                sku: 'ART-001',
+                image_thumbnail_url: null,
+                slug: 'blue-dragon',
+            },
+        },
+    ],
+};
+
+const callGet = (id: string, document: string) =>
+    GET(
+        new NextRequest(`http://localhost:3000/admin/orders/${id}/${document}`),
+        { params: Promise.resolve({ id, document }) }
+    );
+
+describe('GET /admin/orders/[id]/[document]', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('returns the packing slip PDF', async () => {
+        mockGetOrderById.mockResolvedValue({ data: order, error: null });
+
+        const response = await callGet(ORDER_ID, 'packing-slip');
+        const body = Buffer.from(await response.arrayBuffer()).toString(
+            'latin1'
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('application/pdf');
+        expect(response.headers.get('Content-Disposition')).toBe(
+            'inline; filename="packing-slip-ORD-20250101-ABCD.pdf"'
+        );
+        expect(mockGetOrderById).toHaveBeenCalledWith(ORDER_ID);
+        expect(body.startsWith('%PDF-')).toBe(true);
+        expect(body).toContain('(Packing Slip) Tj');
+    });
+
+    it('returns the invoice PDF', async () => {
+        mockGetOrderById.mockResolvedValue({ data: order, error: null });
+
+        const response = await callGet(ORDER_ID, 'invoice');
+        const body = Buffer.from(await response.arrayBuffer()).toString(
+            'latin1'
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Disposition')).toBe(
+            'inline; filename="invoice-ORD-20250101-ABCD.pdf"'
+        );
+        expect(body).toContain('(Invoice) Tj');
+        expect(body).toContain('($62.00) Tj');
+    });
+
+    it('returns 404 for an unknown document without querying', async () => {
+        const response = await callGet(ORDER_ID, 'receipt');
+
+        expect(response.status).toBe(404);
+        expect(mockGetOrderById).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for a malformed order id without querying', async () => {
+        const response = await callGet('not-an-id', 'invoice');
+
+        expect(response.status).toBe(404);
+        expect(mockGetOrderById).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for an unknown order', async () => {
+        mockGetOrderById.mockResolvedValue({
+            data: null,
+            error: { code: 'PGRST116', message: 'No rows found' },
+        });
+
+        const response = await callGet(ORDER_ID, 'invoice');
+
+        expect(response.status).toBe(404);
+    });
+
+    it('returns 500 when the lookup fails', async () => {
+        mockGetOrderById.mockResolvedValue({
+            data: null,
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+
+        const response = await callGet(ORDER_ID, 'packing-slip');
+
+        expect(response.status).toBe(500);
+    });
+});
@@ -71,10 +71,17 @@ const createMockOrder = (
     shipping_cost: '10.00',
     tax_amount: '12.00',
     total: '172.00',
+    coupon_id: null,
+    coupon_code: null,
+    discount_amount: '0.00',
+    gift_card_amount: '0.00',
+    is_preorder: false,
+    expected_ship_date: null,
     status: 'paid',
     payment_intent_id: 'pi_test123',
     payment_status: 'succeeded',
-    shipping_tracking_number: 'TRACK123456',
+    shipped_email_sent_at: null,
+    delivered_email_sent_at: null,
     admin_notes: '[2024-11-20 10:00] First note',
     created_at: '2024-11-21T10:00:00Z',
     updated_at: '2024-11-21T10:00:00Z',
@@ -86,6 +93,12 @@ const createMockOrder = (
             quantity: 2,
             price_at_purchase: '50.00',
             line_subtotal: '100.00',
+            variant_id: null,
+            variant_name: null,
+            preorder_project_id: null,
+            edition_number_start: null,
+            edition_size: null,
+            certificate_token: null,
             created_at: '2024-11-21T10:00:00Z',
             artwork: {
                 title: 'Beautiful Painting',
@@ -101,6 +114,12 @@ const createMockOrder = (
             quantity: 1,
             price_at_purchase: '50.00',
             line_subtotal: '50.00',
+            variant_id: null,
+            variant_name: null,
+            preorder_project_id: null,
+            edition_number_start: null,
+            edition_size: null,
+            certificate_token: null,
             created_at: '2024-11-21T10:00:00Z',
             artwork: {
                 title: 'Stunning Sculpture',
@@ -251,7 +270,7 @@ describe('Order Detail Page - Integration Tests', () => {
                 screen.getByLabelText(/tracking number/i)
             ).toBeInTheDocument();
             expect(
-                screen.getByRole('button', { name: /save tracking/i })
+                screen.getByRole('button', { name: /add tracking/i })
             ).toBeInTheDocument();
         });
 
@@ -310,6 +329,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 2,
                         price_at_purchase: '50.00',
                         line_subtotal: '100.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Item 1',
@@ -326,6 +351,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 1,
                         price_at_purchase: '30.00',
                         line_subtotal: '30.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Item 2',
@@ -342,6 +373,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 3,
                         price_at_purchase: '20.00',
                         line_subtotal: '60.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Item 3',
@@ -383,6 +420,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 1,
                         price_at_purchase: '100.00',
                         line_subtotal: '100.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'First Artwork',
@@ -398,6 +441,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 2,
                         price_at_purchase: '75.00',
                         line_subtotal: '150.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Second Artwork',
@@ -441,6 +490,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 1,
                         price_at_purchase: '100.00',
                         line_subtotal: '100.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: null, // Artwork was deleted
                     },
@@ -451,6 +506,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 1,
                         price_at_purchase: '50.00',
                         line_subtotal: '50.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Available Item',
@@ -504,6 +565,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 1,
                         price_at_purchase: '150.00',
                         line_subtotal: '150.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Partial Data Item',
@@ -551,6 +618,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 1,
                         price_at_purchase: '50.00',
                         line_subtotal: '50.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Complete Item',
@@ -566,6 +639,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 1,
                         price_at_purchase: '30.00',
                         line_subtotal: '30.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Partial Item',
@@ -581,6 +660,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 1,
                         price_at_purchase: '70.00',
                         line_subtotal: '70.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: null,
                     },
@@ -693,6 +778,12 @@ describe('Order Detail Page - Integration Tests', () => {
                         quantity: 3,
                         price_at_purchase: '99.99',
                         line_subtotal: '299.97',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: {
                             title: 'Consistency Test Item',
@@ -5,12 +5,12 @@
  * - Complete order information (customer, addresses, order items)
  * - Status update form
  * - Admin notes form
- * - Tracking number form
+ * - Shipments list and tracking number form
  * - Back link to orders list
  * - 404 handling for non-existent orders
  */
 
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import OrderDetailPage from '@/app/admin/orders/[id]/page';
 import {
@@ -69,13 +69,36 @@ const mockOrderWithItems: OrderWithItemsAndArtwork = {
     shipping_cost: '10.00',
     tax_amount: '12.00',
     total: '172.00',
+    coupon_id: null,
+    coupon_code: null,
+    discount_amount: '0.00',
+    gift_card_amount: '0.00',
+    is_preorder: false,
+    expected_ship_date: null,
     status: 'paid',
     payment_intent_id: 'pi_test123',
     payment_status: 'succeeded',
-    shipping_tracking_number: 'TRACK123456',
+    shipped_email_sent_at: null,
+    delivered_email_sent_at: null,
     admin_notes: '[2024-11-20 10:00] First note',
     created_at: '2024-11-21T10:00:00Z',
     updated_at: '2024-11-21T10:00:00Z',
+    order_shipments: [
+        {
+            id: 'ship2',
+            order_id: '123',
+            tracking_number: 'TRACK123456',
+            carrier: null,
+            created_at: '2024-11-23T10:00:00Z',
+        },
+        {
+            id: 'ship1',
+            order_id: '123',
+            tracking_number: '1Z999AA10123456784',
+            carrier: null,
+            created_at: '2024-11-22T10:00:00Z',
+        },
+    ],
     order_items: [
         {
             id: 'item1',
@@ -84,6 +107,12 @@ const mockOrderWithItems: OrderWithItemsAndArtwork = {
             quantity: 2,
             price_at_purchase: '50.00',
             line_subtotal: '100.00',
+            variant_id: null,
+            variant_name: null,
+            preorder_project_id: null,
+            edition_number_start: null,
+            edition_size: null,
+            certificate_token: null,
             created_at: '2024-11-21T10:00:00Z',
             artwork: {
                 title: 'Beautiful Painting',
@@ -99,6 +128,12 @@ const mockOrderWithItems: OrderWithItemsAndArtwork = {
             quantity: 1,
             price_at_purchase: '50.00',
             line_subtotal: '50.00',
+            variant_id: null,
+            variant_name: null,
+            preorder_project_id: null,
+            edition_number_start: null,
+            edition_size: null,
+            certificate_token: null,
             created_at: '2024-11-21T10:00:00Z',
             artwork: {
                 title: 'Stunning Sculpture',
@@ -133,6 +168,26 @@ describe('OrderDetailPage', () => {
             expect(screen.getByText('john@example.com')).toBeInTheDocument();
         });
 
+        it('should flag pre-orders with the expected ship date', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: {
+                    ...mockOrderWithItems,
+                    is_preorder: true,
+                    expected_ship_date: '2026-03-01',
+                },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(
+                screen.getByText(/Pre-order · Expected to ship: March 2026/)
+            ).toBeInTheDocument();
+        });
+
         it('should display artwork title for each order item', async () => {
             vi.mocked(getOrderById).mockResolvedValue({
                 data: mockOrderWithItems,
@@ -276,6 +331,12 @@ describe('OrderDetailPage', () => {
                         quantity: 1,
                         price_at_purchase: '50.00',
                         line_subtotal: '50.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: null,
                     },
@@ -441,7 +502,7 @@ describe('OrderDetailPage', () => {
             expect(screen.getByText(/First note/)).toBeInTheDocument();
         });
 
-        it('should display tracking number if present', async () => {
+        it('should list tracking numbers oldest first, linked when the carrier is known', async () => {
             vi.mocked(getOrderById).mockResolvedValue({
                 data: mockOrderWithItems,
                 error: null,
@@ -452,7 +513,39 @@ describe('OrderDetailPage', () => {
             });
             render(result);
 
-            expect(screen.getByDisplayValue('TRACK123456')).toBeInTheDocument();
+            const upsLink = screen.getByRole('link', {
+                name: '1Z999AA10123456784',
+            });
+            expect(upsLink).toHaveAttribute(
+                'href',
+                'https://www.ups.com/track?tracknum=1Z999AA10123456784'
+            );
+            expect(upsLink.closest('li')).toHaveTextContent('UPS');
+
+            // Unrecognised format: shown without a link
+            expect(screen.getByText('TRACK123456').tagName).toBe('SPAN');
+            expect(screen.getByText('Unknown carrier')).toBeInTheDocument();
+
+            const numbers = screen
+                .getAllByText(/^(1Z999AA10123456784|TRACK123456)$/)
+                .map((element) => element.textContent);
+            expect(numbers).toEqual(['1Z999AA10123456784', 'TRACK123456']);
+        });
+
+        it('should say when there are no tracking numbers', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: { ...mockOrderWithItems, order_shipments: [] },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(
+                screen.getByText('No tracking numbers yet.')
+            ).toBeInTheDocument();
         });
     });
 
@@ -472,7 +565,7 @@ describe('OrderDetailPage', () => {
             expect(statusSelect).toHaveValue('paid');
         });
 
-        it('should have all status options in dropdown', async () => {
+        it('should only offer the statuses the order can move to', async () => {
             vi.mocked(getOrderById).mockResolvedValue({
                 data: mockOrderWithItems,
                 error: null,
@@ -483,24 +576,86 @@ describe('OrderDetailPage', () => {
             });
             render(result);
 
+            const options = within(screen.getByLabelText(/order status/i))
+                .getAllByRole('option')
+                .map((option) => option.textContent);
+            expect(options).toEqual([
+                'Paid',
+                'Processing',
+                'Shipped',
+                'Cancelled',
+            ]);
+        });
+
+        it('should not allow changing the status of a delivered order', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: { ...mockOrderWithItems, status: 'delivered' },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(screen.getByLabelText(/order status/i)).toBeDisabled();
             expect(
-                screen.getByRole('option', { name: /pending/i })
+                screen.getByText("Delivered orders can't change status.")
             ).toBeInTheDocument();
             expect(
-                screen.getByRole('option', { name: /^paid$/i })
-            ).toBeInTheDocument();
+                screen.getByRole('button', { name: /update status/i })
+            ).toBeDisabled();
+        });
+
+        it('should offer to email the customer when marking an order shipped', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: mockOrderWithItems,
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
             expect(
-                screen.getByRole('option', { name: /processing/i })
-            ).toBeInTheDocument();
+                screen.queryByLabelText(/shipping email/i)
+            ).not.toBeInTheDocument();
+
+            fireEvent.change(screen.getByLabelText('Order Status'), {
+                target: { value: 'shipped' },
+            });
+
             expect(
-                screen.getByRole('option', { name: /shipped/i })
-            ).toBeInTheDocument();
+                screen.getByLabelText('Send the customer a shipping email')
+            ).toBeChecked();
+        });
+
+        it('should say when the delivery email was already sent', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: {
+                    ...mockOrderWithItems,
+                    status: 'shipped',
+                    delivered_email_sent_at: '2024-11-25T10:00:00Z',
+                },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            fireEvent.change(screen.getByLabelText('Order Status'), {
+                target: { value: 'delivered' },
+            });
+
             expect(
-                screen.getByRole('option', { name: /delivered/i })
+                screen.getByText(/delivery email was already sent/)
             ).toBeInTheDocument();
             expect(
-                screen.getByRole('option', { name: /cancelled/i })
-            ).toBeInTheDocument();
+                screen.queryByRole('checkbox', { name: /email/i })
+            ).toBeNull();
         });
 
         it('should render Update Status button', async () => {
@@ -520,6 +675,55 @@ describe('OrderDetailPage', () => {
         });
     });
 
+    describe('Status History', () => {
+        it('should show each status change with who made it and the note', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: {
+                    ...mockOrderWithItems,
+                    status: 'shipped',
+                    order_status_history: [
+                        {
+                            id: 'h2',
+                            order_id: '123',
+                            from_status: 'paid',
+                            to_status: 'shipped',
+                            admin_id: 'admin-1',
+                            changed_by: 'Ada Admin',
+                            note: 'Sent by post',
+                            created_at: '2024-11-22T10:00:00Z',
+                        },
+                        {
+                            id: 'h1',
+                            order_id: '123',
+                            from_status: null,
+                            to_status: 'paid',
+                            admin_id: null,
+                            changed_by: null,
+                            note: null,
+                            created_at: '2024-11-21T10:00:00Z',
+                        },
+                    ],
+                },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            const entries = screen
+                .getByRole('heading', { name: 'Status History' })
+                .parentElement!.querySelectorAll('li');
+            expect(entries).toHaveLength(2);
+            expect(entries[0]).toHaveTextContent('Placed as Paid');
+            expect(entries[0]).toHaveTextContent('Automatic');
+            expect(entries[1]).toHaveTextContent('Paid → Shipped');
+            expect(entries[1]).toHaveTextContent('Ada Admin');
+            expect(entries[1]).toHaveTextContent('Sent by post');
+        });
+    });
+
     describe('Admin Notes', () => {
         it('should render admin notes textarea', async () => {
             vi.mocked(getOrderById).mockResolvedValue({
@@ -571,7 +775,49 @@ describe('OrderDetailPage', () => {
             ).toBeInTheDocument();
         });
 
-        it('should render Save Tracking button', async () => {
+        it('should render Add Tracking button', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: mockOrderWithItems,
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(
+                screen.getByRole('button', { name: /add tracking/i })
+            ).toBeInTheDocument();
+        });
+
+        it('should show the carrier detected from the number being typed', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: mockOrderWithItems,
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            const carrierSelect = screen.getByLabelText('Carrier');
+            expect(
+                screen.getByRole('option', { name: 'Auto-detect' })
+            ).toBeInTheDocument();
+
+            fireEvent.change(screen.getByLabelText(/tracking number/i), {
+                target: { value: '9400 1000 0000 0000 0000 00' },
+            });
+
+            expect(
+                screen.getByRole('option', { name: 'Auto-detect (USPS)' })
+            ).toBeInTheDocument();
+            expect(carrierSelect).toHaveValue('');
+        });
+
+        it('should render a remove button for each tracking number', async () => {
             vi.mocked(getOrderById).mockResolvedValue({
                 data: mockOrderWithItems,
                 error: null,
@@ -583,11 +829,91 @@ describe('OrderDetailPage', () => {
             render(result);
 
             expect(
-                screen.getByRole('button', { name: /save tracking/i })
+                screen.getByRole('button', {
+                    name: 'Remove TRACK123456',
+                })
+            ).toBeInTheDocument();
+            expect(
+                screen.getByRole('button', {
+                    name: 'Remove 1Z999AA10123456784',
+                })
             ).toBeInTheDocument();
         });
     });
 
+    describe('Certificates of Authenticity', () => {
+        it('should show edition numbers and certificate links for numbered items', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: {
+                    ...mockOrderWithItems,
+                    order_items: [
+                        {
+                            ...mockOrderWithItems.order_items[0],
+                            edition_number_start: 12,
+                            edition_size: 50,
+                            certificate_token:
+                                '0f8fad5b-d9cb-469f-a165-70867728950e',
+                        },
+                        mockOrderWithItems.order_items[1],
+                    ],
+                },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(screen.getByText('Edition 12–13/50')).toBeInTheDocument();
+            expect(
+                screen.getByRole('link', {
+                    name: 'Beautiful Painting (12–13/50)',
+                })
+            ).toHaveAttribute(
+                'href',
+                '/api/certificates/0f8fad5b-d9cb-469f-a165-70867728950e'
+            );
+        });
+
+        it('should not show certificates when no items are numbered', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: mockOrderWithItems,
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(
+                screen.queryByText('Certificates of Authenticity')
+            ).not.toBeInTheDocument();
+        });
+    });
+
+    describe('Documents', () => {
+        it('should link to the packing slip and invoice PDFs', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: mockOrderWithItems,
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(
+                screen.getByRole('link', { name: 'Packing slip (PDF)' })
+            ).toHaveAttribute('href', '/admin/orders/123/packing-slip');
+            expect(
+                screen.getByRole('link', { name: 'Invoice (PDF)' })
+            ).toHaveAttribute('href', '/admin/orders/123/invoice');
+        });
+    });
+
     describe('Navigation', () => {
         it('should render back link to orders list', async () => {
             vi.mocked(getOrderById).mockResolvedValue({
@@ -707,6 +1033,12 @@ describe('OrderDetailPage', () => {
                         quantity: 1,
                         price_at_purchase: '50.00',
                         line_subtotal: '50.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-11-21T10:00:00Z',
                         artwork: null,
                     },
@@ -820,4 +1152,200 @@ describe('OrderDetailPage', () => {
             expect(screen.getByText('Order Items')).toBeInTheDocument();
         });
     });
+
+    describe('Refunds', () => {
+        it('should offer a full refund of a paid order', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: mockOrderWithItems,
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(
+                screen.getByRole('heading', { name: 'Refund' })
+            ).toBeInTheDocument();
+            expect(
+                screen.getByRole('button', { name: 'Refund $172.00' })
+            ).toBeInTheDocument();
+        });
+
+        it('should list past refunds and what is left to refund', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: {
+                    ...mockOrderWithItems,
+                    payment_status: 'partially_refunded',
+                    order_refunds: [
+                        {
+                            id: 'refund-1',
+                            order_id: '123',
+                            stripe_refund_id: 're_test123',
+                            amount: '50.00',
+                            reason: 'Arrived damaged',
+                            restocked: true,
+                            created_at: '2024-11-22T10:00:00Z',
+                            order_refund_items: [
+                                { order_item_id: 'item2', quantity: 1 },
+                            ],
+                        },
+                    ],
+                },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(screen.getByText('Partially refunded')).toBeInTheDocument();
+            expect(screen.getByText('Refunds')).toBeInTheDocument();
+            expect(screen.getByText('-$50.00')).toBeInTheDocument();
+            expect(screen.getByText('Arrived damaged')).toBeInTheDocument();
+            expect(screen.getByText('re_test123')).toBeInTheDocument();
+            expect(
+                screen.getByRole('button', { name: 'Refund $122.00' })
+            ).toBeInTheDocument();
+        });
+
+        it('should not offer refunds once the order is fully refunded', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: { ...mockOrderWithItems, payment_status: 'refunded' },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(
+                screen.queryByRole('heading', { name: 'Refund' })
+            ).not.toBeInTheDocument();
+        });
+    });
+
+    describe('Cancellation stock', () => {
+        it('should ask what happens to each line when cancelling a paid order', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: mockOrderWithItems,
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(screen.queryByText('Stock')).not.toBeInTheDocument();
+
+            fireEvent.change(screen.getByLabelText('Order Status'), {
+                target: { value: 'cancelled' },
+            });
+
+            expect(screen.getByText('Stock')).toBeInTheDocument();
+            expect(
+                screen.getByRole('combobox', { name: 'Beautiful Painting' })
+            ).toHaveValue('restocked');
+            expect(
+                screen.getByRole('combobox', { name: 'Stunning Sculpture' })
+            ).toBeInTheDocument();
+        });
+
+        it('should show what happened to the stock of a cancelled order', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: {
+                    ...mockOrderWithItems,
+                    status: 'cancelled',
+                    order_items: [
+                        {
+                            ...mockOrderWithItems.order_items[0],
+                            restock: {
+                                quantity: 2,
+                                disposition: 'restocked',
+                                created_at: '2024-11-22T10:00:00Z',
+                            },
+                        },
+                        {
+                            ...mockOrderWithItems.order_items[1],
+                            restock: {
+                                quantity: 1,
+                                disposition: 'written_off',
+                                created_at: '2024-11-22T10:00:00Z',
+                            },
+                        },
+                    ],
+                },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(
+                screen.getByText('Returned to stock (2)')
+            ).toBeInTheDocument();
+            expect(
+                screen.getByText('Written off as damaged (1)')
+            ).toBeInTheDocument();
+        });
+    });
+
+    describe('Disputes', () => {
+        const dispute = {
+            id: 'dispute-1',
+            order_id: '123',
+            stripe_dispute_id: 'dp_test123',
+            amount: '172.00',
+            reason: 'product_not_received',
+            status: 'needs_response',
+            evidence_due_by: '2024-12-05T12:00:00Z',
+            created_at: '2024-11-22T10:00:00Z',
+            updated_at: '2024-11-22T10:00:00Z',
+        };
+
+        it('should show a banner for an open dispute', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: { ...mockOrderWithItems, order_disputes: [dispute] },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            const banner = screen.getByRole('alert');
+            expect(banner).toHaveTextContent(
+                'Payment disputed: $172.00 · product not received'
+            );
+            expect(banner).toHaveTextContent('by Dec 5, 2024');
+            expect(banner).toHaveTextContent('dp_test123');
+        });
+
+        it('should show the outcome of a closed dispute without alerting', async () => {
+            vi.mocked(getOrderById).mockResolvedValue({
+                data: {
+                    ...mockOrderWithItems,
+                    order_disputes: [{ ...dispute, status: 'won' }],
+                },
+                error: null,
+            });
+
+            const result = await OrderDetailPage({
+                params: Promise.resolve({ id: '123' }),
+            });
+            render(result);
+
+            expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+            expect(
+                screen.getByText(/Dispute closed \(won\)/)
+            ).toBeInTheDocument();
+        });
+    });
 });
@@ -0,0 +1,710 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    addTrackingAction,
+    bulkAddTrackingAction,
+    bulkSendShippingEmailAction,
+    bulkUpdateStatusAction,
+    cancelOrderAction,
+    refundOrderAction,
+    removeTrackingAction,
+    updateStatusAction,
+} from '@/app/admin/orders/actions';
+import * as ordersDb from '@/lib/db/admin/orders';
+import type { OrderWithItemsAndArtwork } from '@/lib/db/admin/orders';
+import { createRefund } from '@/lib/payments/stripe';
+import { wantsOrderUpdateEmails } from '@/lib/db/customers';
+import {
+    sendDeliveryEmail,
+    sendRefundEmail,
+    sendShippingEmail,
+} from '@/lib/email/send';
+import { logError } from '@/lib/errors/logger';
+import { revalidatePath } from 'next/cache';
+import type Stripe from 'stripe';
+
+// Mock Next.js modules
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
+vi.mock('next/headers', () => ({
+    cookies: vi.fn(async () => ({
+        get: vi.fn(() => ({
+            value: JSON.stringify({
+                adminId: 'admin-1',
+                name: 'Ada Admin',
+                role: 'admin',
+            }),
+        })),
+    })),
+}));
+
+// Mock database, payment and email functions
+vi.mock('@/lib/db/admin/orders', () => ({
+    getOrderById: vi.fn(),
+    recordOrderRefund: vi.fn(),
+    cancelOrder: vi.fn(),
+    updateOrderStatus: vi.fn(),
+    addOrderNote: vi.fn(),
+    addTrackingNumber: vi.fn(),
+    removeTrackingNumber: vi.fn(),
+    claimOrderStatusEmail: vi.fn(),
+    releaseOrderStatusEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/db/customers', () => ({
+    wantsOrderUpdateEmails: vi.fn(),
+}));
+
+vi.mock('@/lib/payments/stripe', () => ({
+    createRefund: vi.fn(),
+}));
+
+vi.mock('@/lib/email/send', () => ({
+    sendRefundEmail: vi.fn(),
+    sendShippingEmail: vi.fn(),
+    sendDeliveryEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const PRINT_ID = '11111111-1111-4111-8111-111111111111';
+const STICKER_ID = '22222222-2222-4222-8222-222222222222';
+
+describe('Order Actions', () => {
+    const order = {
+        id: 'order-1',
+        order_number: 'YOA-20250101-0001',
+        customer_name: 'Jane Fan',
+        customer_email: 'jane@example.com',
+        subtotal: '100.00',
+        discount_amount: '0.00',
+        total: '118.00',
+        payment_intent_id: 'pi_123',
+        payment_status: 'succeeded',
+        order_items: [
+            {
+                id: PRINT_ID,
+                quantity: 1,
+                price_at_purchase: '60.00',
+                variant_name: '8x10',
+                artwork: { title: 'Dragon Print' },
+            },
+            {
+                id: STICKER_ID,
+                quantity: 2,
+                price_at_purchase: '20.00',
+                variant_name: null,
+                artwork: { title: 'Sticker' },
+            },
+        ],
+        order_refunds: [],
+        order_shipments: [
+            {
+                id: 'ship-1',
+                order_id: 'order-1',
+                tracking_number: '1Z999AA10123456784',
+                carrier: 'ups',
+                created_at: '2025-01-02T00:00:00Z',
+            },
+        ],
+    } as unknown as OrderWithItemsAndArtwork;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(ordersDb.getOrderById).mockResolvedValue({
+            data: order,
+            error: null,
+        });
+        vi.mocked(createRefund).mockResolvedValue({
+            id: 're_123',
+        } as Stripe.Refund);
+        vi.mocked(ordersDb.recordOrderRefund).mockResolvedValue({
+            data: 'refund-1',
+            error: null,
+        });
+        vi.mocked(sendRefundEmail).mockResolvedValue({ success: true });
+        vi.mocked(ordersDb.updateOrderStatus).mockResolvedValue({
+            error: null,
+        });
+        vi.mocked(wantsOrderUpdateEmails).mockResolvedValue({
+            data: true,
+            error: null,
+        });
+        vi.mocked(ordersDb.claimOrderStatusEmail).mockResolvedValue({
+            claimed: true,
+            error: null,
+        });
+        vi.mocked(ordersDb.releaseOrderStatusEmail).mockResolvedValue({
+            error: null,
+        });
+        vi.mocked(sendShippingEmail).mockResolvedValue({ success: true });
+        vi.mocked(sendDeliveryEmail).mockResolvedValue({ success: true });
+    });
+
+    describe('refundOrderAction', () => {
+        it('refunds the whole order, records every item and emails the customer', async () => {
+            const result = await refundOrderAction('order-1', {
+                type: 'full',
+                restock: true,
+                reason: 'Customer changed their mind',
+            });
+
+            expect(result).toEqual({ emailSent: true });
+            expect(createRefund).toHaveBeenCalledWith('pi_123', 118, {
+                orderId: 'order-1',
+                orderNumber: 'YOA-20250101-0001',
+            });
+            expect(ordersDb.recordOrderRefund).toHaveBeenCalledWith('order-1', {
+                stripeRefundId: 're_123',
+                amount: 118,
+                reason: 'Customer changed their mind',
+                restock: true,
+                items: [
+                    { orderItemId: PRINT_ID, quantity: 1 },
+                    { orderItemId: STICKER_ID, quantity: 2 },
+                ],
+            });
+            expect(sendRefundEmail).toHaveBeenCalledWith(order, {
+                amount: 118,
+                fullRefund: true,
+                items: [
+                    { title: 'Dragon Print (8x10)', quantity: 1 },
+                    { title: 'Sticker', quantity: 2 },
+                ],
+            });
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/orders/order-1'
+            );
+            expect(revalidatePath).toHaveBeenCalledWith('/shoppe');
+        });
+
+        it('refunds the price of the chosen items', async () => {
+            await refundOrderAction('order-1', {
+                type: 'items',
+                items: [{ orderItemId: STICKER_ID, quantity: 1 }],
+                restock: false,
+            });
+
+            expect(createRefund).toHaveBeenCalledWith(
+                'pi_123',
+                20,
+                expect.any(Object)
+            );
+            expect(ordersDb.recordOrderRefund).toHaveBeenCalledWith(
+                'order-1',
+                expect.objectContaining({
+                    amount: 20,
+                    reason: null,
+                    restock: false,
+                    items: [{ orderItemId: STICKER_ID, quantity: 1 }],
+                })
+            );
+            expect(sendRefundEmail).toHaveBeenCalledWith(
+                order,
+                expect.objectContaining({ amount: 20, fullRefund: false })
+            );
+            expect(revalidatePath).not.toHaveBeenCalledWith('/shoppe');
+        });
+
+        it('only refunds what is left after earlier refunds', async () => {
+            vi.mocked(ordersDb.getOrderById).mockResolvedValue({
+                data: {
+                    ...order,
+                    payment_status: 'partially_refunded',
+                    order_refunds: [
+                        {
+                            id: 'refund-0',
+                            order_id: 'order-1',
+                            stripe_refund_id: 're_0',
+                            amount: '20.00',
+                            reason: null,
+                            restocked: false,
+                            created_at: '2025-01-02T00:00:00Z',
+                            order_refund_items: [
+                                { order_item_id: STICKER_ID, quantity: 1 },
+                            ],
+                        },
+                    ],
+                },
+                error: null,
+            });
+
+            await refundOrderAction('order-1', {
+                type: 'full',
+                restock: false,
+            });
+
+            expect(ordersDb.recordOrderRefund).toHaveBeenCalledWith(
+                'order-1',
+                expect.objectContaining({
+                    amount: 98,
+                    items: [
+                        { orderItemId: PRINT_ID, quantity: 1 },
+                        { orderItemId: STICKER_ID, quantity: 1 },
+                    ],
+                })
+            );
+        });
+
+        it('rejects orders that have not been paid', async () => {
+            vi.mocked(ordersDb.getOrderById).mockResolvedValue({
+                data: { ...order, payment_status: 'pending' },
+                error: null,
+            });
+
+            await expect(
+                refundOrderAction('order-1', { type: 'full', restock: false })
+            ).rejects.toThrow('Only paid orders can be refunded');
+            expect(createRefund).not.toHaveBeenCalled();
+        });
+
+        it('rejects item refunds without items', async () => {
+            await expect(
+                refundOrderAction('order-1', {
+                    type: 'items',
+                    items: [],
+                    restock: false,
+                })
+            ).rejects.toThrow('Choose at least one item to refund');
+            expect(createRefund).not.toHaveBeenCalled();
+        });
+
+        it('names the Stripe refund when it cannot be recorded', async () => {
+            vi.mocked(ordersDb.recordOrderRefund).mockResolvedValue({
+                data: null,
+                error: { code: '500', message: 'db down' },
+            });
+
+            await expect(
+                refundOrderAction('order-1', { type: 'full', restock: false })
+            ).rejects.toThrow(
+                'Stripe refund re_123 was issued but could not be recorded: db down'
+            );
+            expect(logError).toHaveBeenCalled();
+            expect(sendRefundEmail).not.toHaveBeenCalled();
+        });
+
+        it('reports when the refund email fails', async () => {
+            vi.mocked(sendRefundEmail).mockResolvedValue({ success: false });
+
+            const result = await refundOrderAction('order-1', {
+                type: 'full',
+                restock: false,
+            });
+
+            expect(result).toEqual({ emailSent: false });
+            expect(logError).toHaveBeenCalled();
+        });
+    });
+
+    describe('updateStatusAction', () => {
+        it('records the signed-in admin and the note', async () => {
+            await updateStatusAction('order-1', 'shipped', '  Sent by post ');
+
+            expect(ordersDb.updateOrderStatus).toHaveBeenCalledWith(
+                'order-1',
+                'shipped',
+                {
+                    adminId: 'admin-1',
+                    changedBy: 'Ada Admin',
+                    note: 'Sent by post',
+                }
+            );
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/orders/order-1'
+            );
+        });
+
+        it('emails the customer when the order ships', async () => {
+            const result = await updateStatusAction('order-1', 'shipped');
+
+            expect(ordersDb.claimOrderStatusEmail).toHaveBeenCalledWith(
+                'order-1',
+                'shipped'
+            );
+            expect(sendShippingEmail).toHaveBeenCalledWith(
+                order,
+                order.order_shipments
+            );
+            expect(result).toEqual({ email: 'sent' });
+        });
+
+        it('emails the customer when the order is delivered', async () => {
+            const result = await updateStatusAction('order-1', 'delivered');
+
+            expect(sendDeliveryEmail).toHaveBeenCalledWith(order);
+            expect(result).toEqual({ email: 'sent' });
+        });
+
+        it('does not email for other statuses', async () => {
+            const result = await updateStatusAction('order-1', 'processing');
+
+            expect(ordersDb.claimOrderStatusEmail).not.toHaveBeenCalled();
+            expect(result).toEqual({ email: null });
+        });
+
+        it('lets the admin skip the email', async () => {
+            const result = await updateStatusAction(
+                'order-1',
+                'shipped',
+                undefined,
+                false
+            );
+
+            expect(sendShippingEmail).not.toHaveBeenCalled();
+            expect(result).toEqual({ email: 'suppressed' });
+        });
+
+        it('does not email customers who turned order updates off', async () => {
+            vi.mocked(wantsOrderUpdateEmails).mockResolvedValue({
+                data: false,
+                error: null,
+            });
+
+            const result = await updateStatusAction('order-1', 'shipped');
+
+            expect(wantsOrderUpdateEmails).toHaveBeenCalledWith(
+                'jane@example.com'
+            );
+            expect(sendShippingEmail).not.toHaveBeenCalled();
+            expect(result).toEqual({ email: 'opted_out' });
+        });
+
+        it('does not send the same email twice', async () => {
+            vi.mocked(ordersDb.claimOrderStatusEmail).mockResolvedValue({
+                claimed: false,
+                error: null,
+            });
+
+            const result = await updateStatusAction('order-1', 'shipped');
+
+            expect(sendShippingEmail).not.toHaveBeenCalled();
+            expect(result).toEqual({ email: 'already_sent' });
+        });
+
+        it('releases the email for a later save when sending fails', async () => {
+            vi.mocked(sendShippingEmail).mockResolvedValue({ success: false });
+
+            const result = await updateStatusAction('order-1', 'shipped');
+
+            expect(ordersDb.releaseOrderStatusEmail).toHaveBeenCalledWith(
+                'order-1',
+                'shipped'
+            );
+            expect(logError).toHaveBeenCalled();
+            expect(result).toEqual({ email: 'failed' });
+        });
+
+        it('throws when the transition is not allowed', async () => {
+            vi.mocked(ordersDb.updateOrderStatus).mockResolvedValue({
+                error: {
+                    code: 'invalid_transition',
+                    message: "Orders can't move from delivered to pending",
+                },
+            });
+
+            await expect(
+                updateStatusAction('order-1', 'pending')
+            ).rejects.toThrow("Orders can't move from delivered to pending");
+            expect(revalidatePath).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('addTrackingAction', () => {
+        it('adds the tracking number with the chosen carrier', async () => {
+            vi.mocked(ordersDb.addTrackingNumber).mockResolvedValue({
+                data: null,
+                error: null,
+            });
+
+            await addTrackingAction('order-1', '123456789012', 'fedex');
+
+            expect(ordersDb.addTrackingNumber).toHaveBeenCalledWith(
+                'order-1',
+                '123456789012',
+                'fedex'
+            );
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/orders/order-1'
+            );
+        });
+
+        it('leaves the carrier to be detected by default', async () => {
+            vi.mocked(ordersDb.addTrackingNumber).mockResolvedValue({
+                data: null,
+                error: null,
+            });
+
+            await addTrackingAction('order-1', '1Z999AA10123456784');
+
+            expect(ordersDb.addTrackingNumber).toHaveBeenCalledWith(
+                'order-1',
+                '1Z999AA10123456784',
+                null
+            );
+        });
+    });
+
+    describe('removeTrackingAction', () => {
+        it('removes the tracking number', async () => {
+            vi.mocked(ordersDb.removeTrackingNumber).mockResolvedValue({
+                error: null,
+            });
+
+            await removeTrackingAction('order-1', 'ship-1');
+
+            expect(ordersDb.removeTrackingNumber).toHaveBeenCalledWith(
+                'order-1',
+                'ship-1'
+            );
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/orders/order-1'
+            );
+        });
+
+        it('throws when removing fails', async () => {
+            vi.mocked(ordersDb.removeTrackingNumber).mockResolvedValue({
+                error: { code: '500', message: 'db down' },
+            });
+
+            await expect(
+                removeTrackingAction('order-1', 'ship-1')
+            ).rejects.toThrow('db down');
+        });
+    });
+
+    describe('cancelOrderAction', () => {
+        it('cancels the order and revalidates the stock pages', async () => {
+            vi.mocked(ordersDb.cancelOrder).mockResolvedValue({ error: null });
+
+            await cancelOrderAction('order-1', [STICKER_ID]);
+
+            expect(ordersDb.cancelOrder).toHaveBeenCalledWith(
+                'order-1',
+                [STICKER_ID],
+                { adminId: 'admin-1', changedBy: 'Ada Admin', note: null }
+            );
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/orders/order-1'
+            );
+            expect(revalidatePath).toHaveBeenCalledWith('/shoppe');
+        });
+
+        it('throws when the cancellation fails', async () => {
+            vi.mocked(ordersDb.cancelOrder).mockResolvedValue({
+                error: { code: '500', message: 'db down' },
+            });
+
+            await expect(cancelOrderAction('order-1', [])).rejects.toThrow(
+                'db down'
+            );
+        });
+    });
+
+    describe('bulkUpdateStatusAction', () => {
+        it('moves each order and reports how it went', async () => {
+            vi.mocked(ordersDb.updateOrderStatus)
+                .mockResolvedValueOnce({ error: null })
+                .mockResolvedValueOnce({
+                    error: {
+                        code: 'invalid_transition',
+                        message: "Orders can't move from shipped to processing",
+                    },
+                });
+
+            const results = await bulkUpdateStatusAction(
+                ['order-1', 'order-2'],
+                'processing'
+            );
+
+            expect(results).toEqual([
+                {
+                    orderId: 'order-1',
+                    success: true,
+                    message: 'Marked processing',
+                },
+                {
+                    orderId: 'order-2',
+                    success: false,
+                    message: "Orders can't move from shipped to processing",
+                },
+            ]);
+            expect(ordersDb.updateOrderStatus).toHaveBeenCalledWith(
+                'order-2',
+                'processing',
+                { adminId: 'admin-1', changedBy: 'Ada Admin', note: null }
+            );
+            expect(sendShippingEmail).not.toHaveBeenCalled();
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/orders/order-2'
+            );
+            expect(revalidatePath).toHaveBeenCalledWith('/admin/orders');
+        });
+
+        it('emails customers when orders ship', async () => {
+            vi.mocked(ordersDb.claimOrderStatusEmail)
+                .mockResolvedValueOnce({ claimed: true, error: null })
+                .mockResolvedValueOnce({ claimed: false, error: null });
+
+            const results = await bulkUpdateStatusAction(
+                ['order-1', 'order-2'],
+                'shipped'
+            );
+
+            expect(results.map((result) => result.message)).toEqual([
+                'Marked shipped and the customer emailed',
+                'Marked shipped (the customer was already emailed)',
+            ]);
+            expect(sendShippingEmail).toHaveBeenCalledTimes(1);
+        });
+
+        it('lets the admin skip the emails', async () => {
+            const results = await bulkUpdateStatusAction(
+                ['order-1'],
+                'shipped',
+                false
+            );
+
+            expect(results[0]).toEqual({
+                orderId: 'order-1',
+                success: true,
+                message: 'Marked shipped',
+            });
+            expect(sendShippingEmail).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('bulkAddTrackingAction', () => {
+        it('adds each tracking number and names its carrier', async () => {
+            vi.mocked(ordersDb.addTrackingNumber)
+                .mockResolvedValueOnce({
+                    data: {
+                        id: 'ship-2',
+                        order_id: 'order-1',
+                        tracking_number: '1Z999AA10123456784',
+                        carrier: 'ups',
+                        created_at: '2025-01-03T00:00:00Z',
+                    },
+                    error: null,
+                })
+                .mockResolvedValueOnce({
+                    data: {
+                        id: 'ship-3',
+                        order_id: 'order-2',
+                        tracking_number: 'ABC123',
+                        carrier: null,
+                        created_at: '2025-01-03T00:00:00Z',
+                    },
+                    error: null,
+                })
+                .mockResolvedValueOnce({
+                    data: null,
+                    error: { code: '23503', message: 'order not found' },
+                });
+
+            const results = await bulkAddTrackingAction([
+                { orderId: 'order-1', trackingNumber: '1Z999AA10123456784' },
+                { orderId: 'order-2', trackingNumber: 'abc123' },
+                { orderId: 'order-3', trackingNumber: 'xyz789' },
+            ]);
+
+            expect(results).toEqual([
+                {
+                    orderId: 'order-1',
+                    success: true,
+                    message: 'Added 1Z999AA10123456784 (UPS)',
+                },
+                {
+                    orderId: 'order-2',
+                    success: true,
+                    message: 'Added ABC123 (carrier not recognised)',
+                },
+                {
+                    orderId: 'order-3',
+                    success: false,
+                    message: 'XYZ789: order not found',
+                },
+            ]);
+            expect(ordersDb.addTrackingNumber).toHaveBeenCalledWith(
+                'order-2',
+                'abc123'
+            );
+            expect(ordersDb.updateOrderStatus).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('bulkSendShippingEmailAction', () => {
+        it('emails customers of shipped orders', async () => {
+            vi.mocked(ordersDb.getOrderById).mockResolvedValue({
+                data: { ...order, status: 'shipped' },
+                error: null,
+            });
+
+            const results = await bulkSendShippingEmailAction(['order-1']);
+
+            expect(results).toEqual([
+                {
+                    orderId: 'order-1',
+                    success: true,
+                    message: 'Shipping email sent',
+                },
+            ]);
+            expect(sendShippingEmail).toHaveBeenCalledWith(
+                expect.objectContaining({ id: 'order-1' }),
+                order.order_shipments
+            );
+        });
+
+        it('skips orders that have not shipped', async () => {
+            vi.mocked(ordersDb.getOrderById).mockResolvedValue({
+                data: { ...order, status: 'processing' },
+                error: null,
+            });
+
+            const results = await bulkSendShippingEmailAction(['order-1']);
+
+            expect(results[0]).toEqual({
+                orderId: 'order-1',
+                success: false,
+                message: "Order hasn't shipped yet",
+            });
+            expect(ordersDb.claimOrderStatusEmail).not.toHaveBeenCalled();
+            expect(sendShippingEmail).not.toHaveBeenCalled();
+        });
+
+        it('reports orders already emailed or opted out', async () => {
+            vi.mocked(ordersDb.getOrderById).mockResolvedValue({
+                data: { ...order, status: 'delivered' },
+                error: null,
+            });
+            vi.mocked(wantsOrderUpdateEmails)
+                .mockResolvedValueOnce({ data: true, error: null })
+                .mockResolvedValueOnce({ data: false, error: null });
+            vi.mocked(ordersDb.claimOrderStatusEmail).mockResolvedValue({
+                claimed: false,
+                error: null,
+            });
+
+            const results = await bulkSendShippingEmailAction([
+                'order-1',
+                'order-2',
+            ]);
+
+            expect(results).toEqual([
+                {
+                    orderId: 'order-1',
+                    success: false,
+                    message: 'Shipping email was already sent',
+                },
+                {
+                    orderId: 'order-2',
+                    success: false,
+                    message: 'Customer has turned off order update emails',
+                },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,207 @@
+/**
+ * Batch Order Document Route Tests
+ *
+ * Tests for serving packing slips or invoices for every paid or processing
+ * order, or for selected orders, as one PDF.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/admin/orders/batch/[document]/route';
+import {
+    getOrdersByIds,
+    getOrdersToFulfill,
+    type OrderWithItemsAndArtwork,
+} from '@/lib/db/admin/orders';
+
+vi.mock('@/lib/db/admin/orders', () => ({
+    getOrdersByIds: vi.fn(),
+    getOrdersToFulfill: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const mockGetOrdersByIds = vi.mocked(getOrdersByIds);
+const mockGetOrdersToFulfill = vi.mocked(getOrdersToFulfill);
+
+const ORDER_ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+const order: OrderWithItemsAndArtwork = {
+    id: ORDER_ID,
+    order_number: 'ORD-20250101-ABCD',
+    customer_name: 'Jane Collector',
+    customer_email: 'jane@example.com',
+    shipping_address_line1: '1 Ship St',
+    shipping_address_line2: null,
+    shipping_city: 'Portland',
+    shipping_state: 'OR',
+    shipping_zip: '97201',
+    shipping_country: 'US',
+    billing_address_line1: '1 Ship St',
+    billing_address_line2: null,
+    billing_city: 'Portland',
+    billing_state: 'OR',
+    billing_zip: '97201',
+    billing_country: 'US',
+    order_notes: null,
+    subtotal: '50.00',
+    shipping_cost: '8.00',
+    tax_amount: '4.00',
+    total: '62.00',
+    coupon_id: null,
+    coupon_code: null,
+    discount_amount: '0.00',
+    gift_card_amount: '0.00',
+    is_preorder: false,
+    expected_ship_date: null,
+    status: 'paid',
+    payment_intent_id: 'pi_123',
+    payment_status: 'succeeded',
+    shipped_email_sent_at: null,
+    delivered_email_sent_at: null,
+    admin_notes: null,
+    created_at: '2025-01-01T10:00:00Z',
+    updated_at: '2025-01-01T10:00:00Z',
+    order_items: [
+        {
+            id: 'item-1',
+            order_id: ORDER_ID,
+            artwork_id: 'art-1',
+            quantity: 1,
+            price_at_purchase: '50.00',
+            line_subtotal: '50.00',
+            variant_id: null,
+            variant_name: null,
+            preorder_project_id: null,
+            edition_number_start: null,
+            edition_size: null,
+            certificate_token: null,
+            created_at: '2025-01-01T10:00:00Z',
+            artwork: {
+                title: 'Blue Dragon',
+                sku: 'ART-001',
+                image_thumbnail_url: null,
+                slug: 'blue-dragon',
+            },
+        },
+    ],
+};
+
+const callGet = (document: string, query = '') =>
+    GET(
+        new NextRequest(
+            `http://localhost:3000/admin/orders/batch/${document}${query}`
+        ),
+        { params: Promise.resolve({ document }) }
+    );
+
+describe('GET /admin/orders/batch/[document]', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('returns packing slips for every order in one PDF', async () => {
+        mockGetOrdersToFulfill.mockResolvedValue({
+            data: [
+                order,
+                {
+                    ...order,
+                    id: 'order-2',
+                    order_number: 'ORD-20250102-WXYZ',
+                    status: 'processing',
+                },
+            ],
+            error: null,
+        });
+
+        const response = await callGet('packing-slip');
+        const body = Buffer.from(await response.arrayBuffer()).toString(
+            'latin1'
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('application/pdf');
+        expect(response.headers.get('Content-Disposition')).toMatch(
+            /^inline; filename="packing-slips-\d{4}-\d{2}-\d{2}\.pdf"$/
+        );
+        expect(body).toContain('/Count 2');
+        expect(body).toContain('ORD-20250101-ABCD');
+        expect(body).toContain('ORD-20250102-WXYZ');
+    });
+
+    it('returns invoices', async () => {
+        mockGetOrdersToFulfill.mockResolvedValue({
+            data: [order],
+            error: null,
+        });
+
+        const response = await callGet('invoice');
+        const body = Buffer.from(await response.arrayBuffer()).toString(
+            'latin1'
+        );
+
+        expect(response.status).toBe(200);
+        expect(body).toContain('(Invoice) Tj');
+    });
+
+    it('returns a single page when no orders are waiting', async () => {
+        mockGetOrdersToFulfill.mockResolvedValue({ data: [], error: null });
+
+        const response = await callGet('packing-slip');
+        const body = Buffer.from(await response.arrayBuffer()).toString(
+            'latin1'
+        );
+
+        expect(response.status).toBe(200);
+        expect(body).toContain('/Count 1');
+        expect(body).toContain('(No orders to pack.) Tj');
+    });
+
+    it('returns 404 for an unknown document without querying', async () => {
+        const response = await callGet('receipt');
+
+        expect(response.status).toBe(404);
+        expect(mockGetOrdersToFulfill).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when the lookup fails', async () => {
+        mockGetOrdersToFulfill.mockResolvedValue({
+            data: null,
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+
+        const response = await callGet('invoice');
+
+        expect(response.status).toBe(500);
+    });
+
+    it('returns documents for the selected orders', async () => {
+        const otherId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+        mockGetOrdersByIds.mockResolvedValue({
+            data: [order],
+            error: null,
+        });
+
+        const response = await callGet(
+            'packing-slip',
+            `?ids=${ORDER_ID},${otherId}`
+        );
+        const body = Buffer.from(await response.arrayBuffer()).toString(
+            'latin1'
+        );
+
+        expect(response.status).toBe(200);
+        expect(mockGetOrdersByIds).toHaveBeenCalledWith([ORDER_ID, otherId]);
+        expect(mockGetOrdersToFulfill).not.toHaveBeenCalled();
+        expect(body).toContain('ORD-20250101-ABCD');
+    });
+
+    it('returns 400 for malformed order IDs without querying', async () => {
+        const response = await callGet('packing-slip', '?ids=1,2');
+
+        expect(response.status).toBe(400);
+        expect(mockGetOrdersByIds).not.toHaveBeenCalled();
+    });
+});
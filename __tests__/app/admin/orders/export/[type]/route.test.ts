@@ -0,0 +1,255 @@
+/**
+ * Order CSV Export Route Tests
+ *
+ * Tests for streaming the orders matching the admin list's filters as an
+ * orders-level or line-item-level CSV.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/admin/orders/export/[type]/route';
+import { getOrdersForExport, type OrderForExport } from '@/lib/db/admin/orders';
+
+vi.mock('@/lib/db/admin/orders', () => ({
+    ORDER_SORT_COLUMNS: [
+        'created_at',
+        'order_number',
+        'customer_name',
+        'total',
+        'status',
+    ],
+    getOrdersForExport: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const mockGetOrdersForExport = vi.mocked(getOrdersForExport);
+
+const order: OrderForExport = {
+    id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+    order_number: 'ORD-20250101-ABCD',
+    customer_name: 'Jane Collector',
+    customer_email: 'jane@example.com',
+    shipping_address_line1: '1 Ship St',
+    shipping_address_line2: null,
+    shipping_city: 'Portland',
+    shipping_state: 'OR',
+    shipping_zip: '97201',
+    shipping_country: 'US',
+    billing_address_line1: '1 Ship St',
+    billing_address_line2: null,
+    billing_city: 'Portland',
+    billing_state: 'OR',
+    billing_zip: '97201',
+    billing_country: 'US',
+    order_notes: null,
+    subtotal: '50.00',
+    shipping_cost: '8.00',
+    tax_amount: '4.00',
+    total: '62.00',
+    coupon_id: null,
+    coupon_code: null,
+    discount_amount: '0.00',
+    gift_card_amount: '0.00',
+    is_preorder: false,
+    expected_ship_date: null,
+    status: 'shipped',
+    payment_intent_id: 'pi_123',
+    payment_status: 'succeeded',
+    shipped_email_sent_at: null,
+    delivered_email_sent_at: null,
+    admin_notes: null,
+    created_at: '2025-01-01T10:00:00Z',
+    updated_at: '2025-01-01T10:00:00Z',
+    order_items: [
+        {
+            id: 'item-1',
+            quantity: 2,
+            price_at_purchase: '25.00',
+            line_subtotal: '50.00',
+            variant_name: null,
+            artwork: { title: 'Blue Dragon', sku: 'ART-001' },
+            variant: null,
+        },
+    ],
+};
+
+const callGet = (type: string, query = '') =>
+    GET(
+        new NextRequest(
+            `http://localhost:3000/admin/orders/export/${type}${query}`
+        ),
+        { params: Promise.resolve({ type }) }
+    );
+
+describe('GET /admin/orders/export/[type]', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('returns one row per order', async () => {
+        mockGetOrdersForExport.mockResolvedValue({
+            data: [order],
+            error: null,
+        });
+
+        const response = await callGet('orders');
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        const lines = new TextDecoder().decode(bytes).split('\r\n');
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe(
+            'text/csv; charset=utf-8'
+        );
+        expect(response.headers.get('Content-Disposition')).toMatch(
+            /^attachment; filename="orders-\d{4}-\d{2}-\d{2}\.csv"$/
+        );
+        // UTF-8 byte order mark, for Excel
+        expect([...bytes.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+        expect(lines[0]).toBe(
+            'Order Number,Date,Status,Customer Name,Customer Email,Ship-To State,Ship-To Country,Subtotal,Discount,Coupon Code,Shipping,Tax,Gift Card,Total'
+        );
+        expect(lines[1]).toBe(
+            'ORD-20250101-ABCD,2025-01-01,shipped,Jane Collector,jane@example.com,OR,US,50.00,0.00,,8.00,4.00,0.00,62.00'
+        );
+        expect(lines).toHaveLength(3); // Trailing CRLF
+    });
+
+    it('returns one row per line item', async () => {
+        mockGetOrdersForExport.mockResolvedValue({
+            data: [order],
+            error: null,
+        });
+
+        const response = await callGet('line-items');
+        const lines = (await response.text()).split('\r\n');
+
+        expect(response.headers.get('Content-Disposition')).toMatch(
+            /filename="order-line-items-\d{4}-\d{2}-\d{2}\.csv"/
+        );
+        expect(lines[1]).toBe(
+            'ORD-20250101-ABCD,2025-01-01,shipped,Blue Dragon,,ART-001,2,25.00,50.00'
+        );
+    });
+
+    it('passes the list filters, date range and sort to the query', async () => {
+        mockGetOrdersForExport.mockResolvedValue({ data: [], error: null });
+
+        await callGet(
+            'orders',
+            '?status=shipped&search=jane&from=2025-01-01&to=2025-03-31&sort=total&direction=asc'
+        );
+
+        expect(mockGetOrdersForExport).toHaveBeenCalledWith(
+            500,
+            0,
+            {
+                status: 'shipped',
+                search: 'jane',
+                startDate: '2025-01-01',
+                endDate: '2025-03-31T23:59:59.999Z',
+            },
+            { column: 'total', ascending: true }
+        );
+    });
+
+    it('ignores an unknown status', async () => {
+        mockGetOrdersForExport.mockResolvedValue({ data: [], error: null });
+
+        await callGet('orders', '?status=bogus&to=2025-03-31');
+
+        expect(mockGetOrdersForExport).toHaveBeenCalledWith(
+            500,
+            0,
+            { endDate: expect.any(String) },
+            { column: 'created_at', ascending: false }
+        );
+    });
+
+    it('reads page after page until one comes back short', async () => {
+        const fullPage = Array.from({ length: 500 }, (_, i) => ({
+            ...order,
+            order_number: `ORD-${i}`,
+        }));
+        mockGetOrdersForExport
+            .mockResolvedValueOnce({ data: fullPage, error: null })
+            .mockResolvedValueOnce({ data: [order], error: null });
+
+        const response = await callGet('orders');
+        const lines = (await response.text()).trim().split('\r\n');
+
+        expect(lines).toHaveLength(502);
+        expect(mockGetOrdersForExport).toHaveBeenCalledTimes(2);
+        expect(mockGetOrdersForExport).toHaveBeenLastCalledWith(
+            500,
+            500,
+            { endDate: expect.any(String) },
+            { column: 'created_at', ascending: false }
+        );
+    });
+
+    it('leaves out orders placed after the download started', async () => {
+        vi.useFakeTimers({ now: new Date('2025-02-01T12:00:00.000Z') });
+        mockGetOrdersForExport.mockResolvedValue({ data: [], error: null });
+
+        await callGet('orders', '?status=shipped&to=2025-03-31');
+        vi.useRealTimers();
+
+        expect(mockGetOrdersForExport).toHaveBeenCalledWith(
+            500,
+            0,
+            expect.objectContaining({
+                status: 'shipped',
+                endDate: '2025-02-01T12:00:00.000Z',
+            }),
+            { column: 'created_at', ascending: false }
+        );
+    });
+
+    it('returns just the header when nothing matches', async () => {
+        mockGetOrdersForExport.mockResolvedValue({ data: [], error: null });
+
+        const response = await callGet('orders');
+        const lines = (await response.text()).trim().split('\r\n');
+
+        expect(response.status).toBe(200);
+        expect(lines).toHaveLength(1);
+    });
+
+    it('returns 404 for an unknown export without querying', async () => {
+        const response = await callGet('customers');
+
+        expect(response.status).toBe(404);
+        expect(mockGetOrdersForExport).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when the first page fails', async () => {
+        mockGetOrdersForExport.mockResolvedValue({
+            data: null,
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+
+        const response = await callGet('orders');
+
+        expect(response.status).toBe(500);
+    });
+
+    it('aborts the download when a later page fails', async () => {
+        mockGetOrdersForExport
+            .mockResolvedValueOnce({
+                data: Array.from({ length: 500 }, () => order),
+                error: null,
+            })
+            .mockResolvedValueOnce({
+                data: null,
+                error: { code: 'XX000', message: 'connection lost' },
+            });
+
+        const response = await callGet('orders');
+
+        expect(response.status).toBe(200);
+        await expect(response.text()).rejects.toThrow();
+    });
+});
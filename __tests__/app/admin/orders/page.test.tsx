@@ -3,7 +3,9 @@
  *
  * Tests the /admin/orders page which displays all orders with:
  * - Orders list with pagination
- * - Status filter dropdown
+ * - Search, status filter, date range and sorting, kept in the URL
+ * - CSV export links for the matching orders
+ * - Reloading after bulk actions
  * - Loading and error states
  * - Integration with OrdersList component
  */
@@ -12,7 +14,11 @@ import { render, screen, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import userEvent from '@testing-library/user-event';
 import OrdersPage from '@/app/admin/orders/page';
-import type { OrderRow } from '@/lib/db/admin/orders';
+import type {
+    OrderSort,
+    OrderSortColumn,
+    OrderWithShipments,
+} from '@/lib/db/admin/orders';
 
 // Mock next/navigation
 const mockPush = vi.fn();
@@ -32,19 +38,40 @@ vi.mock('@/components/admin/OrdersList', () => ({
         currentPage,
         totalPages,
         onPageChange,
+        totalCount,
+        sort,
+        onSortChange,
+        onBulkActionComplete,
     }: {
-        orders: OrderRow[];
+        orders: OrderWithShipments[];
         currentPage: number;
         totalPages: number;
         onPageChange: (page: number) => void;
+        totalCount?: number;
+        sort?: OrderSort;
+        onSortChange?: (column: OrderSortColumn) => void;
+        onBulkActionComplete?: () => void;
     }) => (
         <div data-testid="orders-list">
             <div>Orders: {orders.length}</div>
             <div>Page: {currentPage}</div>
             <div>Total Pages: {totalPages}</div>
+            <div>Total Orders: {totalCount}</div>
+            <div>
+                Sort: {sort?.column} {sort?.ascending ? 'asc' : 'desc'}
+            </div>
             <button onClick={() => onPageChange(currentPage + 1)}>
                 Next Page
             </button>
+            <button onClick={() => onSortChange?.('total')}>
+                Sort by Total
+            </button>
+            <button onClick={() => onSortChange?.('created_at')}>
+                Sort by Date
+            </button>
+            <button onClick={() => onBulkActionComplete?.()}>
+                Finish Bulk Action
+            </button>
         </div>
     ),
 }));
@@ -52,7 +79,7 @@ vi.mock('@/components/admin/OrdersList', () => ({
 // Mock fetch
 global.fetch = vi.fn();
 
-const mockOrders: OrderRow[] = [
+const mockOrders: OrderWithShipments[] = [
     {
         id: '1',
         order_number: 'ORD-001',
@@ -75,13 +102,21 @@ const mockOrders: OrderRow[] = [
         shipping_cost: '10.00',
         tax_amount: '8.00',
         total: '118.00',
+        coupon_id: null,
+        coupon_code: null,
+        discount_amount: '0.00',
+        gift_card_amount: '0.00',
+        is_preorder: false,
+        expected_ship_date: null,
         status: 'pending',
         payment_intent_id: null,
         payment_status: 'pending',
-        shipping_tracking_number: null,
+        shipped_email_sent_at: null,
+        delivered_email_sent_at: null,
         admin_notes: null,
         created_at: '2024-01-01T10:00:00Z',
         updated_at: '2024-01-01T10:00:00Z',
+        order_shipments: [],
     },
     {
         id: '2',
@@ -105,13 +140,36 @@ const mockOrders: OrderRow[] = [
         shipping_cost: '15.00',
         tax_amount: '20.00',
         total: '285.00',
+        coupon_id: null,
+        coupon_code: null,
+        discount_amount: '0.00',
+        gift_card_amount: '0.00',
+        is_preorder: false,
+        expected_ship_date: null,
         status: 'shipped',
         payment_intent_id: 'pi_test123',
         payment_status: 'succeeded',
-        shipping_tracking_number: 'TRACK123',
+        shipped_email_sent_at: null,
+        delivered_email_sent_at: null,
         admin_notes: 'Priority order',
         created_at: '2024-01-02T14:30:00Z',
         updated_at: '2024-01-02T15:00:00Z',
+        order_shipments: [
+            {
+                id: 'ship-1',
+                order_id: '2',
+                tracking_number: '1Z999AA10123456784',
+                carrier: 'ups',
+                created_at: '2024-01-02T15:00:00Z',
+            },
+            {
+                id: 'ship-2',
+                order_id: '2',
+                tracking_number: 'TRACK123',
+                carrier: null,
+                created_at: '2024-01-02T15:00:00Z',
+            },
+        ],
     },
 ];
 
@@ -120,6 +178,11 @@ describe('OrdersPage', () => {
         vi.clearAllMocks();
         mockSearchParams.delete('page');
         mockSearchParams.delete('status');
+        mockSearchParams.delete('q');
+        mockSearchParams.delete('sort');
+        mockSearchParams.delete('dir');
+        mockSearchParams.delete('from');
+        mockSearchParams.delete('to');
     });
 
     describe('Initial Render', () => {
@@ -434,6 +497,252 @@ describe('OrdersPage', () => {
         });
     });
 
+    describe('Search', () => {
+        function mockOrdersResponse(total = mockOrders.length) {
+            vi.mocked(fetch).mockResolvedValue({
+                ok: true,
+                json: async () => ({ orders: mockOrders, total }),
+            } as Response);
+        }
+
+        it('should put the search in the URL and go back to page 1', async () => {
+            const user = userEvent.setup();
+            mockSearchParams.set('page', '3');
+            mockSearchParams.set('status', 'paid');
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            const input = await screen.findByLabelText(/search orders/i);
+            await user.type(input, ' 1Z999 ');
+            await user.click(screen.getByRole('button', { name: 'Search' }));
+
+            const url = mockPush.mock.calls[0][0] as string;
+            const params = new URLSearchParams(url.split('?')[1]);
+            expect(params.get('q')).toBe('1Z999');
+            expect(params.get('page')).toBe('1');
+            expect(params.get('status')).toBe('paid');
+        });
+
+        it('should fetch orders matching the search in the URL', async () => {
+            mockSearchParams.set('q', 'jane@example.com');
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            await waitFor(() => {
+                expect(fetch).toHaveBeenCalledWith(
+                    expect.stringContaining('search=jane%40example.com')
+                );
+            });
+            expect(await screen.findByLabelText(/search orders/i)).toHaveValue(
+                'jane@example.com'
+            );
+        });
+
+        it('should clear the search', async () => {
+            const user = userEvent.setup();
+            mockSearchParams.set('q', 'jane');
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            await user.click(
+                await screen.findByRole('button', { name: 'Clear' })
+            );
+
+            expect(mockPush).toHaveBeenCalledWith(
+                expect.not.stringContaining('q=')
+            );
+        });
+
+        it('should keep the search when the status filter changes', async () => {
+            const user = userEvent.setup();
+            mockSearchParams.set('q', 'jane');
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            await user.selectOptions(
+                await screen.findByLabelText(/filter by status/i),
+                'shipped'
+            );
+
+            expect(mockPush).toHaveBeenCalledWith(
+                expect.stringContaining('q=jane')
+            );
+        });
+
+        it('should pass the exact total to the list', async () => {
+            mockOrdersResponse(137);
+
+            render(<OrdersPage />);
+
+            expect(
+                await screen.findByText('Total Orders: 137')
+            ).toBeInTheDocument();
+            expect(screen.getByText('Total Pages: 7')).toBeInTheDocument();
+        });
+    });
+
+    describe('Sorting', () => {
+        function mockOrdersResponse() {
+            vi.mocked(fetch).mockResolvedValue({
+                ok: true,
+                json: async () => ({ orders: mockOrders, total: 2 }),
+            } as Response);
+        }
+
+        it('should sort newest first by default', async () => {
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            expect(
+                await screen.findByText('Sort: created_at desc')
+            ).toBeInTheDocument();
+            expect(fetch).toHaveBeenCalledWith(
+                expect.stringContaining('sort=created_at&direction=desc')
+            );
+        });
+
+        it('should fetch with the sort in the URL', async () => {
+            mockSearchParams.set('sort', 'customer_name');
+            mockSearchParams.set('dir', 'asc');
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            await waitFor(() => {
+                expect(fetch).toHaveBeenCalledWith(
+                    expect.stringContaining('sort=customer_name&direction=asc')
+                );
+            });
+        });
+
+        it('should sort a new column largest first', async () => {
+            const user = userEvent.setup();
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            await user.click(
+                await screen.findByRole('button', { name: 'Sort by Total' })
+            );
+
+            expect(mockPush).toHaveBeenCalledWith(
+                expect.stringContaining('sort=total&dir=desc')
+            );
+        });
+
+        it('should reverse the direction of the sorted column', async () => {
+            const user = userEvent.setup();
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            await user.click(
+                await screen.findByRole('button', { name: 'Sort by Date' })
+            );
+
+            expect(mockPush).toHaveBeenCalledWith(
+                expect.stringContaining('sort=created_at&dir=asc')
+            );
+        });
+    });
+
+    describe('Date Range and Export', () => {
+        function mockOrdersResponse() {
+            vi.mocked(fetch).mockResolvedValue({
+                ok: true,
+                json: async () => ({ orders: mockOrders, total: 2 }),
+            } as Response);
+        }
+
+        it('should put the date range in the URL and go back to page 1', async () => {
+            const user = userEvent.setup();
+            mockSearchParams.set('page', '2');
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            await user.type(await screen.findByLabelText('From'), '2025-01-01');
+
+            const url = mockPush.mock.calls.at(-1)?.[0] as string;
+            const params = new URLSearchParams(url.split('?')[1]);
+            expect(params.get('from')).toBe('2025-01-01');
+            expect(params.get('page')).toBe('1');
+        });
+
+        it('should fetch orders in the date range in the URL', async () => {
+            mockSearchParams.set('from', '2025-01-01');
+            mockSearchParams.set('to', '2025-03-31');
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            await waitFor(() => {
+                expect(fetch).toHaveBeenCalledWith(
+                    expect.stringContaining('from=2025-01-01&to=2025-03-31')
+                );
+            });
+        });
+
+        it('should export with the current filters, date range and sort', async () => {
+            mockSearchParams.set('status', 'shipped');
+            mockSearchParams.set('q', 'jane');
+            mockSearchParams.set('from', '2025-01-01');
+            mockSearchParams.set('sort', 'total');
+            mockSearchParams.set('dir', 'asc');
+            mockOrdersResponse();
+
+            render(<OrdersPage />);
+
+            const ordersLink = await screen.findByRole('link', {
+                name: 'Orders CSV',
+            });
+            const lineItemsLink = screen.getByRole('link', {
+                name: 'Line items CSV',
+            });
+            const query =
+                'status=shipped&search=jane&from=2025-01-01&sort=total&direction=asc';
+            expect(ordersLink).toHaveAttribute(
+                'href',
+                `/admin/orders/export/orders?${query}`
+            );
+            expect(lineItemsLink).toHaveAttribute(
+                'href',
+                `/admin/orders/export/line-items?${query}`
+            );
+        });
+    });
+
+    describe('Bulk Actions', () => {
+        it('should reload the orders without the loading screen', async () => {
+            const user = userEvent.setup();
+            vi.mocked(fetch).mockResolvedValue({
+                ok: true,
+                json: async () => ({ orders: mockOrders, total: 2 }),
+            } as Response);
+
+            render(<OrdersPage />);
+
+            await user.click(
+                await screen.findByRole('button', {
+                    name: 'Finish Bulk Action',
+                })
+            );
+
+            expect(
+                screen.queryByText(/loading orders/i)
+            ).not.toBeInTheDocument();
+            expect(screen.getByTestId('orders-list')).toBeInTheDocument();
+            await waitFor(() => {
+                expect(fetch).toHaveBeenCalledTimes(2);
+            });
+        });
+    });
+
     describe('Empty State', () => {
         it('should render orders list even with empty data', async () => {
             vi.mocked(fetch).mockResolvedValueOnce({
@@ -0,0 +1,177 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { notFound } from 'next/navigation';
+import ProjectPreordersPage from '@/app/admin/projects/[id]/preorders/page';
+import { getProjectById } from '@/lib/db/admin/projects';
+import { getPreorderOrdersForProject } from '@/lib/db/admin/orders';
+import type { OrderWithItemsAndArtwork } from '@/lib/db/admin/orders';
+import type { ProjectRow } from '@/lib/db/admin/projects';
+
+vi.mock('next/navigation', () => ({
+    notFound: vi.fn(() => {
+        throw new Error('NEXT_NOT_FOUND');
+    }),
+}));
+
+vi.mock('@/lib/db/admin/projects', () => ({
+    getProjectById: vi.fn(),
+}));
+
+vi.mock('@/lib/db/admin/orders', () => ({
+    getPreorderOrdersForProject: vi.fn(),
+    PREORDER_BATCH_PAYMENT_STATUSES: ['succeeded', 'partially_refunded'],
+}));
+
+vi.mock('@/app/admin/projects/actions', () => ({
+    releasePreordersAction: vi.fn(),
+    shipPreordersAction: vi.fn(),
+}));
+
+const project: ProjectRow = {
+    id: 'project-1',
+    title: 'Sketchbook Vol. 2',
+    slug: 'sketchbook-vol-2',
+    description: 'A second sketchbook collection',
+    status: 'completed',
+    progress_percentage: 100,
+    expected_completion_date: '2026-03-01',
+    image_url: null,
+    is_published: true,
+    display_order: 1,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+};
+
+function createPreorder(
+    id: string,
+    status: OrderWithItemsAndArtwork['status'],
+    paymentStatus: OrderWithItemsAndArtwork['payment_status'] = 'succeeded'
+): OrderWithItemsAndArtwork {
+    return {
+        id,
+        order_number: `ORD-${id}`,
+        customer_name: 'Jane Doe',
+        customer_email: 'jane@example.com',
+        status,
+        payment_status: paymentStatus,
+        order_items: [
+            {
+                id: `item-${id}`,
+                order_id: id,
+                artwork_id: 'art-1',
+                quantity: 2,
+                price_at_purchase: '30.00',
+                line_subtotal: '60.00',
+                variant_id: null,
+                variant_name: null,
+                preorder_project_id: 'project-1',
+                created_at: '2025-01-02T00:00:00Z',
+                artwork: {
+                    title: 'Sketchbook Vol. 2',
+                    sku: null,
+                    image_thumbnail_url: null,
+                    slug: 'sketchbook-vol-2',
+                },
+            },
+        ],
+    } as OrderWithItemsAndArtwork;
+}
+
+describe('ProjectPreordersPage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('lists the pre-orders and offers the batch actions', async () => {
+        vi.mocked(getProjectById).mockResolvedValue({
+            data: project,
+            error: null,
+        });
+        vi.mocked(getPreorderOrdersForProject).mockResolvedValue({
+            data: [
+                createPreorder('1', 'paid'),
+                createPreorder('2', 'processing'),
+                createPreorder('3', 'shipped'),
+            ],
+            error: null,
+        });
+
+        render(
+            await ProjectPreordersPage({
+                params: Promise.resolve({ id: 'project-1' }),
+            })
+        );
+
+        expect(getPreorderOrdersForProject).toHaveBeenCalledWith('project-1');
+        expect(screen.getByText('ORD-1')).toBeInTheDocument();
+        expect(screen.getByText(/6 unit\(s\) pre-ordered/)).toBeInTheDocument();
+        expect(
+            screen.getByRole('button', { name: 'Release 1 Paid' })
+        ).toBeEnabled();
+        expect(
+            screen.getByRole('button', { name: 'Mark 2 Shipped' })
+        ).toBeEnabled();
+    });
+
+    it('leaves refunded pre-orders out of the batch counts', async () => {
+        vi.mocked(getProjectById).mockResolvedValue({
+            data: project,
+            error: null,
+        });
+        vi.mocked(getPreorderOrdersForProject).mockResolvedValue({
+            data: [
+                createPreorder('1', 'paid'),
+                createPreorder('2', 'paid', 'refunded'),
+            ],
+            error: null,
+        });
+
+        render(
+            await ProjectPreordersPage({
+                params: Promise.resolve({ id: 'project-1' }),
+            })
+        );
+
+        expect(
+            screen.getByRole('button', { name: 'Release 1 Paid' })
+        ).toBeEnabled();
+    });
+
+    it('disables the batch actions until the project is completed', async () => {
+        vi.mocked(getProjectById).mockResolvedValue({
+            data: { ...project, status: 'active' },
+            error: null,
+        });
+        vi.mocked(getPreorderOrdersForProject).mockResolvedValue({
+            data: [createPreorder('1', 'paid')],
+            error: null,
+        });
+
+        render(
+            await ProjectPreordersPage({
+                params: Promise.resolve({ id: 'project-1' }),
+            })
+        );
+
+        expect(
+            screen.getByRole('button', { name: 'Release 1 Paid' })
+        ).toBeDisabled();
+        expect(
+            screen.getByText(/once the project is marked as completed/)
+        ).toBeInTheDocument();
+    });
+
+    it('shows not found for unknown projects', async () => {
+        vi.mocked(getProjectById).mockResolvedValue({
+            data: null,
+            error: { code: 'PGRST116', message: 'Not found' },
+        });
+
+        await expect(
+            ProjectPreordersPage({
+                params: Promise.resolve({ id: 'missing' }),
+            })
+        ).rejects.toThrow('NEXT_NOT_FOUND');
+        expect(notFound).toHaveBeenCalled();
+    });
+});
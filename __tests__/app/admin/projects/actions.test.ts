@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    releasePreordersAction,
+    shipPreordersAction,
+} from '@/app/admin/projects/actions';
+import * as ordersDb from '@/lib/db/admin/orders';
+import { bulkSendShippingEmailAction } from '@/app/admin/orders/actions';
+import * as projectsDb from '@/lib/db/admin/projects';
+import type { OrderRow } from '@/lib/db/admin/orders';
+import type { ProjectRow } from '@/lib/db/admin/projects';
+import { revalidatePath } from 'next/cache';
+
+// Mock Next.js modules
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
+vi.mock('next/navigation', () => ({
+    redirect: vi.fn(),
+}));
+
+vi.mock('next/headers', () => ({
+    cookies: vi.fn(async () => ({
+        get: vi.fn(() => ({
+            value: JSON.stringify({
+                adminId: 'admin-1',
+                name: 'Ada Admin',
+                role: 'admin',
+            }),
+        })),
+    })),
+}));
+
+// Mock database functions
+vi.mock('@/lib/db/admin/projects', () => ({
+    createProject: vi.fn(),
+    updateProject: vi.fn(),
+    deleteProject: vi.fn(),
+    getProjectById: vi.fn(),
+}));
+
+vi.mock('@/lib/db/admin/orders', () => ({
+    updatePreorderStatusForProject: vi.fn(),
+}));
+
+vi.mock('@/app/admin/orders/actions', () => ({
+    bulkSendShippingEmailAction: vi.fn(),
+}));
+
+describe('Project Pre-order Actions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const project: ProjectRow = {
+        id: 'project-1',
+        title: 'Sketchbook Vol. 2',
+        slug: 'sketchbook-vol-2',
+        description: 'A second sketchbook collection',
+        status: 'completed',
+        progress_percentage: 100,
+        expected_completion_date: '2026-03-01',
+        image_url: null,
+        is_published: true,
+        display_order: 1,
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+    };
+
+    const updatedOrders = [{ id: 'order-1' }, { id: 'order-2' }] as OrderRow[];
+
+    describe('releasePreordersAction', () => {
+        it('moves paid pre-orders to processing', async () => {
+            vi.mocked(projectsDb.getProjectById).mockResolvedValue({
+                data: project,
+                error: null,
+            });
+            vi.mocked(
+                ordersDb.updatePreorderStatusForProject
+            ).mockResolvedValue({ data: updatedOrders, error: null });
+
+            const result = await releasePreordersAction('project-1');
+
+            expect(
+                ordersDb.updatePreorderStatusForProject
+            ).toHaveBeenCalledWith('project-1', ['paid'], 'processing', {
+                adminId: 'admin-1',
+                changedBy: 'Ada Admin',
+                note: 'Pre-order batch for Sketchbook Vol. 2',
+            });
+            expect(result).toEqual({ updated: 2 });
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/projects/project-1/preorders'
+            );
+            expect(revalidatePath).toHaveBeenCalledWith('/admin/orders');
+        });
+
+        it('refuses to release pre-orders for a project still in progress', async () => {
+            vi.mocked(projectsDb.getProjectById).mockResolvedValue({
+                data: { ...project, status: 'active' },
+                error: null,
+            });
+
+            await expect(releasePreordersAction('project-1')).rejects.toThrow(
+                'Mark the project as completed before releasing its pre-orders'
+            );
+            expect(
+                ordersDb.updatePreorderStatusForProject
+            ).not.toHaveBeenCalled();
+        });
+
+        it('throws when the project cannot be loaded', async () => {
+            vi.mocked(projectsDb.getProjectById).mockResolvedValue({
+                data: null,
+                error: { code: 'PGRST116', message: 'Project not found' },
+            });
+
+            await expect(releasePreordersAction('project-1')).rejects.toThrow(
+                'Project not found'
+            );
+        });
+    });
+
+    describe('shipPreordersAction', () => {
+        it('ships paid and processing pre-orders', async () => {
+            vi.mocked(projectsDb.getProjectById).mockResolvedValue({
+                data: project,
+                error: null,
+            });
+            vi.mocked(
+                ordersDb.updatePreorderStatusForProject
+            ).mockResolvedValue({ data: updatedOrders, error: null });
+
+            vi.mocked(bulkSendShippingEmailAction).mockResolvedValue([
+                {
+                    orderId: 'order-1',
+                    success: true,
+                    message: 'Shipping email sent',
+                },
+                {
+                    orderId: 'order-2',
+                    success: false,
+                    message: 'Customer has turned off order update emails',
+                },
+            ]);
+
+            const result = await shipPreordersAction('project-1');
+
+            expect(
+                ordersDb.updatePreorderStatusForProject
+            ).toHaveBeenCalledWith(
+                'project-1',
+                ['paid', 'processing'],
+                'shipped',
+                expect.objectContaining({ adminId: 'admin-1' })
+            );
+            expect(bulkSendShippingEmailAction).toHaveBeenCalledWith([
+                'order-1',
+                'order-2',
+            ]);
+            expect(result).toEqual({ updated: 2, emailed: 1 });
+        });
+
+        it('throws on database errors', async () => {
+            vi.mocked(projectsDb.getProjectById).mockResolvedValue({
+                data: project,
+                error: null,
+            });
+            vi.mocked(
+                ordersDb.updatePreorderStatusForProject
+            ).mockResolvedValue({
+                data: null,
+                error: { code: '500', message: 'Update failed' },
+            });
+
+            await expect(shipPreordersAction('project-1')).rejects.toThrow(
+                'Update failed'
+            );
+            expect(revalidatePath).not.toHaveBeenCalled();
+            expect(bulkSendShippingEmailAction).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    createShippingZoneAction,
+    updateShippingZoneAction,
+    deleteShippingZoneAction,
+} from '@/app/admin/shipping/actions';
+import * as shippingZonesDb from '@/lib/db/admin/shipping-zones';
+import type { ShippingZoneAdminError } from '@/lib/db/admin/shipping-zones';
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import type { ShippingZoneFormData } from '@/lib/validation/shipping-zones';
+
+// Mock Next.js modules
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
+vi.mock('next/navigation', () => ({
+    redirect: vi.fn(() => {
+        // Next.js redirect throws a NEXT_REDIRECT error
+        const error = new Error('NEXT_REDIRECT') as Error & {
+            digest?: string;
+        };
+        error.digest = 'NEXT_REDIRECT';
+        throw error;
+    }),
+}));
+
+// Mock database functions
+vi.mock('@/lib/db/admin/shipping-zones', () => ({
+    createShippingZone: vi.fn(),
+    updateShippingZone: vi.fn(),
+    deleteShippingZone: vi.fn(),
+}));
+
+describe('Shipping Zone Actions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const validZoneData: ShippingZoneFormData = {
+        name: 'Europe',
+        countries: ['GB', 'FR', 'DE'],
+        standard_rate: '20',
+        express_rate: null,
+        free_shipping_minimum: null,
+        standard_min_days: 7,
+        standard_max_days: 14,
+        express_min_days: null,
+        express_max_days: null,
+        excludes_originals: true,
+        is_active: true,
+        display_order: 1,
+    };
+
+    const dbError: ShippingZoneAdminError = {
+        code: '23514',
+        message: 'violates check constraint "shipping_zones_countries_check"',
+    };
+
+    describe('createShippingZoneAction', () => {
+        it('creates the zone, revalidates and redirects', async () => {
+            vi.mocked(shippingZonesDb.createShippingZone).mockResolvedValue({
+                data: { id: 'zone-1' } as never,
+                error: null,
+            });
+
+            await expect(
+                createShippingZoneAction(validZoneData)
+            ).rejects.toThrow('NEXT_REDIRECT');
+
+            expect(shippingZonesDb.createShippingZone).toHaveBeenCalledWith(
+                validZoneData
+            );
+            expect(revalidatePath).toHaveBeenCalledWith('/admin/shipping');
+            expect(redirect).toHaveBeenCalledWith('/admin/shipping');
+        });
+
+        it('throws the database error message', async () => {
+            vi.mocked(shippingZonesDb.createShippingZone).mockResolvedValue({
+                data: null,
+                error: dbError,
+            });
+
+            await expect(
+                createShippingZoneAction(validZoneData)
+            ).rejects.toThrow(dbError.message);
+            expect(redirect).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('updateShippingZoneAction', () => {
+        it('updates the zone and redirects', async () => {
+            vi.mocked(shippingZonesDb.updateShippingZone).mockResolvedValue({
+                data: { id: 'zone-1' } as never,
+                error: null,
+            });
+
+            await expect(
+                updateShippingZoneAction('zone-1', validZoneData)
+            ).rejects.toThrow('NEXT_REDIRECT');
+
+            expect(shippingZonesDb.updateShippingZone).toHaveBeenCalledWith(
+                'zone-1',
+                validZoneData
+            );
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/shipping/zone-1'
+            );
+        });
+
+        it('throws the database error message', async () => {
+            vi.mocked(shippingZonesDb.updateShippingZone).mockResolvedValue({
+                data: null,
+                error: dbError,
+            });
+
+            await expect(
+                updateShippingZoneAction('zone-1', validZoneData)
+            ).rejects.toThrow(dbError.message);
+        });
+    });
+
+    describe('deleteShippingZoneAction', () => {
+        it('deletes the zone and revalidates without redirecting', async () => {
+            vi.mocked(shippingZonesDb.deleteShippingZone).mockResolvedValue({
+                data: { id: 'zone-1' },
+                error: null,
+            });
+
+            await deleteShippingZoneAction('zone-1');
+
+            expect(shippingZonesDb.deleteShippingZone).toHaveBeenCalledWith(
+                'zone-1'
+            );
+            expect(revalidatePath).toHaveBeenCalledWith('/admin/shipping');
+            expect(redirect).not.toHaveBeenCalled();
+        });
+
+        it('throws the database error message', async () => {
+            vi.mocked(shippingZonesDb.deleteShippingZone).mockResolvedValue({
+                data: null,
+                error: dbError,
+            });
+
+            await expect(deleteShippingZoneAction('zone-1')).rejects.toThrow(
+                dbError.message
+            );
+        });
+    });
+});
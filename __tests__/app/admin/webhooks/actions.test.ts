@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { replayWebhookEventAction } from '@/app/admin/webhooks/actions';
+import { getWebhookEventById } from '@/lib/db/admin/webhook-events';
+import type { WebhookEventRow } from '@/lib/db/webhook-events';
+import {
+    claimWebhookEvent,
+    completeWebhookEvent,
+} from '@/lib/db/webhook-events';
+import { processStripeEvent } from '@/lib/payments/stripe-events';
+import { cookies } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+
+// Mock Next.js modules
+vi.mock('next/headers', () => ({
+    cookies: vi.fn(),
+}));
+
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
+// Mock the event log and event processing
+vi.mock('@/lib/db/admin/webhook-events', () => ({
+    getWebhookEventById: vi.fn(),
+}));
+
+vi.mock('@/lib/db/webhook-events', () => ({
+    claimWebhookEvent: vi.fn(),
+    completeWebhookEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/payments/stripe-events', () => ({
+    processStripeEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+describe('Webhook Actions', () => {
+    const payload = {
+        id: 'evt_123',
+        type: 'checkout.session.completed',
+        data: { object: { id: 'cs_123' } },
+    };
+    const storedEvent = {
+        id: 'event-1',
+        stripe_event_id: 'evt_123',
+        type: 'checkout.session.completed',
+        payload,
+        status: 'failed',
+        error: 'Failed to create order: db down',
+        attempts: 1,
+    } as unknown as WebhookEventRow;
+
+    function signInAs(role: string) {
+        vi.mocked(cookies).mockResolvedValue({
+            get: vi.fn().mockReturnValue({
+                value: JSON.stringify({ adminId: 'admin-1', role }),
+            }),
+        } as never);
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        signInAs('super_admin');
+        vi.mocked(getWebhookEventById).mockResolvedValue({
+            data: storedEvent,
+            error: null,
+        });
+        vi.mocked(claimWebhookEvent).mockResolvedValue({
+            claimed: true,
+            error: null,
+        });
+        vi.mocked(completeWebhookEvent).mockResolvedValue({ error: null });
+        vi.mocked(processStripeEvent).mockResolvedValue(undefined);
+    });
+
+    describe('replayWebhookEventAction', () => {
+        it('processes the stored event again and marks it processed', async () => {
+            await replayWebhookEventAction('event-1');
+
+            expect(claimWebhookEvent).toHaveBeenCalledWith(payload);
+            expect(processStripeEvent).toHaveBeenCalledWith(payload);
+            expect(completeWebhookEvent).toHaveBeenCalledWith('evt_123', null);
+            expect(revalidatePath).toHaveBeenCalledWith('/admin/webhooks');
+        });
+
+        it('records the new error when the event fails again', async () => {
+            vi.mocked(processStripeEvent).mockRejectedValue(
+                new Error('Failed to create order: still down')
+            );
+
+            await expect(replayWebhookEventAction('event-1')).rejects.toThrow(
+                'Processing failed again: Failed to create order: still down'
+            );
+            expect(completeWebhookEvent).toHaveBeenCalledWith(
+                'evt_123',
+                'Failed to create order: still down'
+            );
+        });
+
+        it('only lets super admins replay events', async () => {
+            signInAs('admin');
+
+            await expect(replayWebhookEventAction('event-1')).rejects.toThrow(
+                'Only super admins can replay webhook events'
+            );
+            expect(processStripeEvent).not.toHaveBeenCalled();
+        });
+
+        it('refuses events that are processed or in progress', async () => {
+            vi.mocked(claimWebhookEvent).mockResolvedValue({
+                claimed: false,
+                error: null,
+            });
+
+            await expect(replayWebhookEventAction('event-1')).rejects.toThrow(
+                'This event has already been processed or is being processed'
+            );
+            expect(processStripeEvent).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * Customer Saved Address API Route Tests
+ *
+ * Tests for saving and removing the signed-in customer's address.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DELETE, PUT } from '@/app/api/account/address/route';
+import { getSignedInCustomer, updateCustomer } from '@/lib/db/customers';
+
+vi.mock('@/lib/db/customers', () => ({
+    getSignedInCustomer: vi.fn(),
+    updateCustomer: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const address = {
+    name: 'Jane Collector',
+    line1: '1 Harbor Way',
+    line2: '',
+    city: 'Portland',
+    state: 'OR',
+    zip: '97201',
+    country: 'us',
+};
+
+const callPut = (body: unknown) =>
+    PUT(
+        new NextRequest('http://localhost:3000/api/account/address', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        })
+    );
+
+describe('/api/account/address', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(getSignedInCustomer).mockResolvedValue({
+            data: { id: 'customer-1', email: 'jane@example.com' } as never,
+            error: null,
+        });
+        vi.mocked(updateCustomer).mockResolvedValue({
+            data: {} as never,
+            error: null,
+        });
+    });
+
+    describe('PUT', () => {
+        it('saves the address on the signed-in account', async () => {
+            const response = await callPut(address);
+
+            expect(response.status).toBe(200);
+            expect(updateCustomer).toHaveBeenCalledWith('customer-1', {
+                shipping_name: 'Jane Collector',
+                shipping_address_line1: '1 Harbor Way',
+                shipping_address_line2: null,
+                shipping_city: 'Portland',
+                shipping_state: 'OR',
+                shipping_zip: '97201',
+                shipping_country: 'US',
+            });
+        });
+
+        it('requires a signed-in customer', async () => {
+            vi.mocked(getSignedInCustomer).mockResolvedValue({
+                data: null,
+                error: null,
+            });
+
+            const response = await callPut(address);
+
+            expect(response.status).toBe(401);
+            expect(updateCustomer).not.toHaveBeenCalled();
+        });
+
+        it('rejects invalid addresses', async () => {
+            const response = await callPut({ ...address, zip: '' });
+
+            expect(response.status).toBe(400);
+            expect(updateCustomer).not.toHaveBeenCalled();
+        });
+
+        it('returns 500 when the address cannot be saved', async () => {
+            vi.mocked(updateCustomer).mockResolvedValue({
+                data: null,
+                error: { code: 'XX000', message: 'connection lost' },
+            });
+
+            const response = await callPut(address);
+
+            expect(response.status).toBe(500);
+        });
+    });
+
+    describe('DELETE', () => {
+        it('clears every saved address column', async () => {
+            const response = await DELETE();
+
+            expect(response.status).toBe(200);
+            expect(updateCustomer).toHaveBeenCalledWith('customer-1', {
+                shipping_name: null,
+                shipping_address_line1: null,
+                shipping_address_line2: null,
+                shipping_city: null,
+                shipping_state: null,
+                shipping_zip: null,
+                shipping_country: null,
+            });
+        });
+    });
+});
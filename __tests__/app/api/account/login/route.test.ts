@@ -0,0 +1,134 @@
+/**
+ * Customer Sign-In API Route Tests
+ *
+ * Tests for sending magic links, with rate limiting and administrator
+ * addresses kept out of the customer flow.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/account/login/route';
+import { isAdministratorEmail } from '@/lib/db/customers';
+import { consumeRateLimit } from '@/lib/db/rate-limits';
+import { createAnonClient } from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createAnonClient: vi.fn(),
+}));
+
+vi.mock('@/lib/db/customers', () => ({
+    isAdministratorEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/db/rate-limits', () => ({
+    consumeRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const signInWithOtp = vi.fn();
+
+const callPost = (body: unknown) =>
+    POST(
+        new NextRequest('http://localhost:3000/api/account/login', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-forwarded-for': '203.0.113.7',
+            },
+            body: JSON.stringify(body),
+        })
+    );
+
+describe('POST /api/account/login', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(consumeRateLimit).mockResolvedValue({
+            data: true,
+            error: null,
+        });
+        vi.mocked(isAdministratorEmail).mockResolvedValue({
+            data: false,
+            error: null,
+        });
+        signInWithOtp.mockResolvedValue({ data: {}, error: null });
+        vi.mocked(createAnonClient).mockResolvedValue({
+            auth: { signInWithOtp },
+        } as never);
+    });
+
+    it('emails a magic link that returns to the account callback', async () => {
+        const response = await callPost({ email: ' jane@example.com ' });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ success: true });
+        expect(signInWithOtp).toHaveBeenCalledWith({
+            email: 'jane@example.com',
+            options: {
+                emailRedirectTo: expect.stringMatching(
+                    /\/account\/auth\/callback$/
+                ),
+                shouldCreateUser: true,
+            },
+        });
+    });
+
+    it('rate limits by IP address and by email', async () => {
+        await callPost({ email: 'jane@example.com' });
+
+        expect(consumeRateLimit).toHaveBeenCalledWith(
+            expect.objectContaining({ scope: 'account-login-ip' }),
+            '203.0.113.7'
+        );
+        expect(consumeRateLimit).toHaveBeenCalledWith(
+            expect.objectContaining({ scope: 'account-login-email' }),
+            'jane@example.com'
+        );
+    });
+
+    it('returns 429 without sending when the limit is used up', async () => {
+        vi.mocked(consumeRateLimit).mockResolvedValueOnce({
+            data: false,
+            error: null,
+        });
+
+        const response = await callPost({ email: 'jane@example.com' });
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get('Retry-After')).toBe('900');
+        expect(signInWithOtp).not.toHaveBeenCalled();
+    });
+
+    it('never sends a magic link to an administrator', async () => {
+        vi.mocked(isAdministratorEmail).mockResolvedValue({
+            data: true,
+            error: null,
+        });
+
+        const response = await callPost({ email: 'owner@example.com' });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ success: true });
+        expect(signInWithOtp).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid emails', async () => {
+        const response = await callPost({ email: 'not-an-email' });
+
+        expect(response.status).toBe(400);
+        expect(consumeRateLimit).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when the email cannot be sent', async () => {
+        signInWithOtp.mockResolvedValue({
+            data: {},
+            error: { message: 'smtp down' },
+        });
+
+        const response = await callPost({ email: 'jane@example.com' });
+
+        expect(response.status).toBe(500);
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * Customer Email Preferences API Route Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PUT } from '@/app/api/account/preferences/route';
+import { getSignedInCustomer, updateCustomer } from '@/lib/db/customers';
+
+vi.mock('@/lib/db/customers', () => ({
+    getSignedInCustomer: vi.fn(),
+    updateCustomer: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const callPut = (body: unknown) =>
+    PUT(
+        new NextRequest('http://localhost:3000/api/account/preferences', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        })
+    );
+
+describe('PUT /api/account/preferences', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(getSignedInCustomer).mockResolvedValue({
+            data: { id: 'customer-1', email: 'jane@example.com' } as never,
+            error: null,
+        });
+        vi.mocked(updateCustomer).mockResolvedValue({
+            data: {} as never,
+            error: null,
+        });
+    });
+
+    it('saves the preferences on the signed-in account', async () => {
+        const response = await callPut({ orderUpdateEmails: false });
+
+        expect(response.status).toBe(200);
+        expect(updateCustomer).toHaveBeenCalledWith('customer-1', {
+            order_update_emails: false,
+        });
+    });
+
+    it('requires a signed-in customer', async () => {
+        vi.mocked(getSignedInCustomer).mockResolvedValue({
+            data: null,
+            error: null,
+        });
+
+        const response = await callPut({ orderUpdateEmails: false });
+
+        expect(response.status).toBe(401);
+        expect(updateCustomer).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid preferences', async () => {
+        const response = await callPut({ orderUpdateEmails: 'no' });
+
+        expect(response.status).toBe(400);
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * Customer Waitlist API Route Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DELETE } from '@/app/api/account/waitlist/[artworkId]/route';
+import { getSignedInCustomer } from '@/lib/db/customers';
+import { leaveWaitlist } from '@/lib/db/waitlist';
+
+vi.mock('@/lib/db/customers', () => ({
+    getSignedInCustomer: vi.fn(),
+}));
+
+vi.mock('@/lib/db/waitlist', () => ({
+    leaveWaitlist: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const ARTWORK_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+const callDelete = (artworkId: string) =>
+    DELETE(
+        new NextRequest(
+            `http://localhost:3000/api/account/waitlist/${artworkId}`,
+            { method: 'DELETE' }
+        ),
+        { params: Promise.resolve({ artworkId }) }
+    );
+
+describe('DELETE /api/account/waitlist/[artworkId]', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(getSignedInCustomer).mockResolvedValue({
+            data: { id: 'customer-1', email: 'jane@example.com' } as never,
+            error: null,
+        });
+        vi.mocked(leaveWaitlist).mockResolvedValue({ error: null });
+    });
+
+    it("leaves the artwork's waitlist for the account's email", async () => {
+        const response = await callDelete(ARTWORK_ID);
+
+        expect(response.status).toBe(200);
+        expect(leaveWaitlist).toHaveBeenCalledWith(
+            'jane@example.com',
+            ARTWORK_ID
+        );
+    });
+
+    it('requires a signed-in customer', async () => {
+        vi.mocked(getSignedInCustomer).mockResolvedValue({
+            data: null,
+            error: null,
+        });
+
+        const response = await callDelete(ARTWORK_ID);
+
+        expect(response.status).toBe(401);
+        expect(leaveWaitlist).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid artwork IDs', async () => {
+        const response = await callDelete('not-a-uuid');
+
+        expect(response.status).toBe(400);
+        expect(getSignedInCustomer).not.toHaveBeenCalled();
+    });
+});
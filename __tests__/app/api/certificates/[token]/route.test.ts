@@ -0,0 +1,105 @@
+/**
+ * Certificate of Authenticity API Route Tests
+ *
+ * Tests for serving the certificate PDF of a numbered order line by token.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/certificates/[token]/route';
+import {
+    getCertificateByToken,
+    type CertificateDetails,
+} from '@/lib/db/certificates';
+
+vi.mock('@/lib/db/certificates', () => ({
+    getCertificateByToken: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const mockGetCertificate = vi.mocked(getCertificateByToken);
+
+const TOKEN = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+const certificate: CertificateDetails = {
+    id: 'item-1',
+    quantity: 2,
+    edition_number_start: 12,
+    edition_size: 50,
+    variant_name: '11x14 Print',
+    artwork: {
+        title: 'Blue Dragon',
+        medium: 'Giclée on cotton rag',
+        dimensions: '11" x 14"',
+        year_created: 2025,
+    },
+    order: {
+        order_number: 'ORD-20250101-ABCD',
+        customer_name: 'Jane Doe',
+        created_at: '2025-01-01T12:00:00Z',
+    },
+};
+
+const callGet = (token: string) =>
+    GET(new NextRequest(`http://localhost:3000/api/certificates/${token}`), {
+        params: Promise.resolve({ token }),
+    });
+
+describe('GET /api/certificates/[token]', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('returns the certificate PDF', async () => {
+        mockGetCertificate.mockResolvedValue({
+            data: certificate,
+            error: null,
+        });
+
+        const response = await callGet(TOKEN);
+        const body = Buffer.from(await response.arrayBuffer()).toString(
+            'latin1'
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('application/pdf');
+        expect(response.headers.get('Content-Disposition')).toBe(
+            'inline; filename="certificate-ORD-20250101-ABCD-12.pdf"'
+        );
+        expect(mockGetCertificate).toHaveBeenCalledWith(TOKEN);
+        expect(body.startsWith('%PDF-')).toBe(true);
+        // One page per print on the line
+        expect(body).toContain('/Count 2');
+        expect(body).toContain('(Edition 12 of 50)');
+        expect(body).toContain('(Edition 13 of 50)');
+    });
+
+    it('returns 404 for a malformed token without querying', async () => {
+        const response = await callGet('not-a-token');
+
+        expect(response.status).toBe(404);
+        expect(mockGetCertificate).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for an unknown token', async () => {
+        mockGetCertificate.mockResolvedValue({ data: null, error: null });
+
+        const response = await callGet(TOKEN);
+
+        expect(response.status).toBe(404);
+    });
+
+    it('returns 500 when the lookup fails', async () => {
+        mockGetCertificate.mockResolvedValue({
+            data: null,
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+
+        const response = await callGet(TOKEN);
+
+        expect(response.status).toBe(500);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Checkout Reservation API Route Tests
+ *
+ * Tests for releasing the inventory, coupon use and gift card balances held
+ * by an abandoned Checkout session.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DELETE } from '@/app/api/checkout/reservations/[reservationId]/route';
+import {
+    getReservationCheckoutSession,
+    releaseInventoryHolds,
+} from '@/lib/db/inventory-holds';
+import { releaseCouponHolds } from '@/lib/db/coupons';
+import { releaseGiftCardHolds } from '@/lib/db/gift-cards';
+import { stripe } from '@/lib/payments/stripe';
+import { revalidatePath } from 'next/cache';
+
+vi.mock('@/lib/payments/stripe', () => ({
+    stripe: {
+        checkout: {
+            sessions: {
+                expire: vi.fn(),
+            },
+        },
+    },
+}));
+
+vi.mock('@/lib/db/inventory-holds', () => ({
+    getReservationCheckoutSession: vi.fn(),
+    releaseInventoryHolds: vi.fn(),
+}));
+
+vi.mock('@/lib/db/coupons', () => ({
+    releaseCouponHolds: vi.fn(),
+}));
+
+vi.mock('@/lib/db/gift-cards', () => ({
+    releaseGiftCardHolds: vi.fn(),
+}));
+
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
+const mockGetSession = vi.mocked(getReservationCheckoutSession);
+const mockRelease = vi.mocked(releaseInventoryHolds);
+const mockExpire = vi.mocked(stripe.checkout.sessions.expire);
+const mockReleaseCoupon = vi.mocked(releaseCouponHolds);
+const mockReleaseGiftCards = vi.mocked(releaseGiftCardHolds);
+
+const RESERVATION_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+const callDelete = (reservationId: string) =>
+    DELETE(
+        new NextRequest(
+            `http://localhost:3000/api/checkout/reservations/${reservationId}`,
+            { method: 'DELETE' }
+        ),
+        { params: Promise.resolve({ reservationId }) }
+    );
+
+describe('DELETE /api/checkout/reservations/[reservationId]', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGetSession.mockResolvedValue({ data: 'cs_test_123', error: null });
+        mockRelease.mockResolvedValue({
+            data: { checkoutSessionId: 'cs_test_123' },
+            error: null,
+        });
+        mockReleaseCoupon.mockResolvedValue({ error: null });
+        mockReleaseGiftCards.mockResolvedValue({ error: null });
+        mockExpire.mockResolvedValue(
+            {} as Awaited<ReturnType<typeof mockExpire>>
+        );
+    });
+
+    it('should reject a malformed reservation ID', async () => {
+        const response = await callDelete('not-a-uuid');
+
+        expect(response.status).toBe(400);
+        expect(mockRelease).not.toHaveBeenCalled();
+    });
+
+    it('should expire the session and then release its holds', async () => {
+        const response = await callDelete(RESERVATION_ID);
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data).toEqual({ released: true });
+        expect(mockGetSession).toHaveBeenCalledWith(RESERVATION_ID);
+        expect(mockExpire).toHaveBeenCalledWith('cs_test_123');
+        expect(mockRelease).toHaveBeenCalledWith(RESERVATION_ID);
+        expect(mockReleaseCoupon).toHaveBeenCalledWith(RESERVATION_ID);
+        expect(mockReleaseGiftCards).toHaveBeenCalledWith(RESERVATION_ID);
+        expect(mockExpire.mock.invocationCallOrder[0]).toBeLessThan(
+            mockReleaseGiftCards.mock.invocationCallOrder[0]
+        );
+        expect(revalidatePath).toHaveBeenCalledWith('/shoppe');
+    });
+
+    it('should leave the holds to the webhook when the session can no longer be expired', async () => {
+        mockExpire.mockRejectedValueOnce(
+            new Error('Session already completed')
+        );
+
+        const response = await callDelete(RESERVATION_ID);
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data).toEqual({ released: false });
+        expect(mockRelease).not.toHaveBeenCalled();
+        expect(mockReleaseCoupon).not.toHaveBeenCalled();
+        expect(mockReleaseGiftCards).not.toHaveBeenCalled();
+    });
+
+    it('should skip Stripe when nothing was held', async () => {
+        mockGetSession.mockResolvedValueOnce({ data: null, error: null });
+        mockRelease.mockResolvedValueOnce({
+            data: { checkoutSessionId: null },
+            error: null,
+        });
+
+        const response = await callDelete(RESERVATION_ID);
+
+        expect(response.status).toBe(200);
+        expect(mockExpire).not.toHaveBeenCalled();
+        expect(revalidatePath).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the session cannot be looked up', async () => {
+        mockGetSession.mockResolvedValueOnce({
+            data: null,
+            error: { code: '500', message: 'select failed' },
+        });
+
+        const response = await callDelete(RESERVATION_ID);
+
+        expect(response.status).toBe(500);
+        expect(mockExpire).not.toHaveBeenCalled();
+        expect(mockRelease).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the holds cannot be released', async () => {
+        mockRelease.mockResolvedValueOnce({
+            data: null,
+            error: { code: '500', message: 'delete failed' },
+        });
+
+        const response = await callDelete(RESERVATION_ID);
+
+        expect(response.status).toBe(500);
+        expect(mockReleaseGiftCards).not.toHaveBeenCalled();
+    });
+});
@@ -10,12 +10,15 @@
  * - Session URL response
  * - Invalid cart handling
  * - Metadata storage
+ * - Coupon discounts
+ * - Inventory holds
+ * - Gift card redemptions
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { POST } from '@/app/api/checkout/session/route';
 import { NextRequest } from 'next/server';
-import type { CartItem } from '@/types/cart';
+import type { CartItem, ShippingOption } from '@/types/cart';
 import type Stripe from 'stripe';
 import { siteConfig } from '@/config/site';
 
@@ -27,6 +30,13 @@ vi.mock('@/lib/payments/stripe', () => ({
                 create: vi.fn(),
             },
         },
+        coupons: {
+            create: vi.fn(),
+        },
+        customers: {
+            create: vi.fn(),
+            update: vi.fn(),
+        },
     },
 }));
 
@@ -35,6 +45,36 @@ vi.mock('@/lib/cart/validation', () => ({
     validateCart: vi.fn(),
 }));
 
+// Mock inventory holds
+vi.mock('@/lib/db/inventory-holds', () => ({
+    reserveInventory: vi.fn(),
+    attachCheckoutSession: vi.fn(),
+    releaseInventoryHolds: vi.fn(),
+    saveCheckoutItems: vi.fn(),
+}));
+
+// Mock coupon holds
+vi.mock('@/lib/db/coupons', () => ({
+    reserveCoupon: vi.fn(),
+    releaseCouponHolds: vi.fn(),
+}));
+
+// Mock gift card holds
+vi.mock('@/lib/db/gift-cards', () => ({
+    reserveGiftCards: vi.fn(),
+    releaseGiftCardHolds: vi.fn(),
+}));
+
+// Mock customer accounts (guest checkout unless a test signs in)
+vi.mock('@/lib/db/customers', () => ({
+    getSignedInCustomer: vi.fn(),
+    updateCustomer: vi.fn(),
+}));
+
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
 describe('POST /api/checkout/session', () => {
     const validCartItems: CartItem[] = [
         {
@@ -53,11 +93,56 @@ describe('POST /api/checkout/session', () => {
         },
     ];
 
+    const shippingOptions: ShippingOption[] = [
+        {
+            id: 'standard',
+            displayName: 'Standard Shipping',
+            amount: siteConfig.shipping.flat_rate / 100,
+            deliveryEstimate: { minimum: 5, maximum: 8 },
+        },
+        {
+            id: 'express',
+            displayName: 'Express Shipping',
+            amount: siteConfig.shipping.express_rate / 100,
+            deliveryEstimate: { minimum: 2, maximum: 3 },
+        },
+    ];
+
     beforeEach(async () => {
         vi.clearAllMocks();
 
         const { stripe } = await import('@/lib/payments/stripe');
         const { validateCart } = await import('@/lib/cart/validation');
+        const holds = await import('@/lib/db/inventory-holds');
+        const coupons = await import('@/lib/db/coupons');
+        const giftCards = await import('@/lib/db/gift-cards');
+        const customers = await import('@/lib/db/customers');
+
+        vi.mocked(customers.getSignedInCustomer).mockResolvedValue({
+            data: null,
+            error: null,
+        });
+
+        // Default mocks for successful stock reservation
+        vi.mocked(holds.reserveInventory).mockResolvedValue({ error: null });
+        vi.mocked(holds.attachCheckoutSession).mockResolvedValue({
+            error: null,
+        });
+        vi.mocked(holds.saveCheckoutItems).mockResolvedValue({ error: null });
+        vi.mocked(holds.releaseInventoryHolds).mockResolvedValue({
+            data: { checkoutSessionId: null },
+            error: null,
+        });
+        vi.mocked(coupons.reserveCoupon).mockResolvedValue({ error: null });
+        vi.mocked(coupons.releaseCouponHolds).mockResolvedValue({
+            error: null,
+        });
+        vi.mocked(giftCards.reserveGiftCards).mockResolvedValue({
+            error: null,
+        });
+        vi.mocked(giftCards.releaseGiftCardHolds).mockResolvedValue({
+            error: null,
+        });
 
         // Default mock for successful session creation
         vi.mocked(stripe.checkout.sessions.create).mockResolvedValue({
@@ -76,6 +161,7 @@ describe('POST /api/checkout/session', () => {
             items: validCartItems,
             subtotal: 175.0,
             shippingCost: siteConfig.shipping.flat_rate / 100,
+            shippingOptions,
             taxAmount: 0,
             total: 180.0,
         });
@@ -205,7 +291,12 @@ describe('POST /api/checkout/session', () => {
         await POST(request);
 
         const { validateCart } = await import('@/lib/cart/validation');
-        expect(validateCart).toHaveBeenCalledWith(validCartItems);
+        expect(validateCart).toHaveBeenCalledWith(
+            validCartItems,
+            undefined,
+            undefined,
+            undefined
+        );
     });
 
     it('returns session URL to client', async () => {
@@ -236,6 +327,7 @@ describe('POST /api/checkout/session', () => {
             items: [],
             subtotal: 0,
             shippingCost: siteConfig.shipping.flat_rate / 100,
+            shippingOptions,
             taxAmount: 0,
             total: 0,
             errors: [
@@ -264,7 +356,7 @@ describe('POST /api/checkout/session', () => {
         expect(stripe.checkout.sessions.create).not.toHaveBeenCalled();
     });
 
-    it('stores metadata for order creation', async () => {
+    it('records the cart lines for order creation on the reservation', async () => {
         const request = new NextRequest(
             'http://localhost:3000/api/checkout/session',
             {
@@ -278,26 +370,338 @@ describe('POST /api/checkout/session', () => {
         await POST(request);
 
         const { stripe } = await import('@/lib/payments/stripe');
+        const { reserveInventory, saveCheckoutItems } = await import(
+            '@/lib/db/inventory-holds'
+        );
+        const [reservationId, items] =
+            vi.mocked(reserveInventory).mock.calls[0];
+        expect(saveCheckoutItems).toHaveBeenCalledWith(reservationId, items);
+        // Only the reservation goes in the metadata (values are capped at
+        // 500 characters)
         expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
             expect.objectContaining({
-                metadata: {
-                    cartItems: JSON.stringify([
-                        {
-                            artworkId: '123e4567-e89b-12d3-a456-426614174000',
-                            quantity: 2,
-                            price: 50.0,
-                        },
-                        {
-                            artworkId: '123e4567-e89b-12d3-a456-426614174001',
-                            quantity: 1,
-                            price: 75.0,
-                        },
-                    ]),
-                },
+                metadata: { reservationId },
+            })
+        );
+    });
+
+    it('releases the holds when the cart lines cannot be recorded', async () => {
+        const { stripe } = await import('@/lib/payments/stripe');
+        const holds = await import('@/lib/db/inventory-holds');
+        const { releaseGiftCardHolds } = await import('@/lib/db/gift-cards');
+        vi.mocked(holds.saveCheckoutItems).mockResolvedValue({
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+
+        const request = new NextRequest(
+            'http://localhost:3000/api/checkout/session',
+            {
+                method: 'POST',
+                body: JSON.stringify({
+                    items: validCartItems,
+                }),
+            }
+        );
+
+        const response = await POST(request);
+        const data = await response.json();
+
+        expect(response.status).toBe(500);
+        expect(data.error.code).toBe('DATABASE_ERROR');
+        expect(stripe.checkout.sessions.create).not.toHaveBeenCalled();
+        const [reservationId] = vi.mocked(holds.reserveInventory).mock.calls[0];
+        expect(holds.releaseInventoryHolds).toHaveBeenCalledWith(reservationId);
+        expect(releaseGiftCardHolds).toHaveBeenCalledWith(reservationId);
+    });
+
+    it('names variant line items after the variant', async () => {
+        const { stripe } = await import('@/lib/payments/stripe');
+        const { validateCart } = await import('@/lib/cart/validation');
+
+        const variantItem: CartItem = {
+            artworkId: '123e4567-e89b-12d3-a456-426614174000',
+            title: 'Test Artwork 1',
+            price: 85.0,
+            quantity: 1,
+            slug: 'test-artwork-1',
+            variantId: '123e4567-e89b-12d3-a456-426614174099',
+            variantName: '11x14 Framed',
+        };
+
+        vi.mocked(validateCart).mockResolvedValue({
+            isValid: true,
+            items: [variantItem],
+            subtotal: 85.0,
+            shippingCost: siteConfig.shipping.flat_rate / 100,
+            shippingOptions,
+            taxAmount: 0,
+            total: 93.0,
+        });
+
+        const request = new NextRequest(
+            'http://localhost:3000/api/checkout/session',
+            {
+                method: 'POST',
+                body: JSON.stringify({ items: [variantItem] }),
+            }
+        );
+
+        await POST(request);
+
+        expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+            expect.objectContaining({
+                line_items: [
+                    expect.objectContaining({
+                        price_data: expect.objectContaining({
+                            product_data: expect.objectContaining({
+                                name: 'Test Artwork 1 (11x14 Framed)',
+                            }),
+                            unit_amount: 8500,
+                        }),
+                    }),
+                ],
+            })
+        );
+    });
+
+    it('labels pre-order line items with the expected ship date', async () => {
+        const { stripe } = await import('@/lib/payments/stripe');
+        const { validateCart } = await import('@/lib/cart/validation');
+
+        const preorderItem: CartItem = {
+            artworkId: '123e4567-e89b-12d3-a456-426614174000',
+            title: 'Sketchbook Vol. 2',
+            price: 30.0,
+            quantity: 1,
+            slug: 'sketchbook-vol-2',
+            preorder: {
+                projectId: '123e4567-e89b-12d3-a456-426614174077',
+                projectTitle: 'Sketchbook Vol. 2',
+                expectedShipDate: '2026-03-01',
+            },
+        };
+
+        vi.mocked(validateCart).mockResolvedValue({
+            isValid: true,
+            items: [preorderItem],
+            subtotal: 30.0,
+            shippingCost: siteConfig.shipping.flat_rate / 100,
+            shippingOptions,
+            taxAmount: 0,
+            total: 38.0,
+        });
+
+        const request = new NextRequest(
+            'http://localhost:3000/api/checkout/session',
+            {
+                method: 'POST',
+                body: JSON.stringify({ items: [preorderItem] }),
+            }
+        );
+
+        await POST(request);
+
+        expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+            expect.objectContaining({
+                line_items: [
+                    expect.objectContaining({
+                        price_data: expect.objectContaining({
+                            product_data: expect.objectContaining({
+                                name: 'Sketchbook Vol. 2 (Pre-order)',
+                                description:
+                                    'Pre-order for Sketchbook Vol. 2. Expected to ship: March 2026',
+                            }),
+                        }),
+                    }),
+                ],
+            })
+        );
+    });
+
+    it('applies a validated coupon as a single-use Stripe discount', async () => {
+        const { stripe } = await import('@/lib/payments/stripe');
+        const { validateCart } = await import('@/lib/cart/validation');
+
+        vi.mocked(validateCart).mockResolvedValue({
+            isValid: true,
+            items: validCartItems,
+            subtotal: 175.0,
+            shippingCost: siteConfig.shipping.flat_rate / 100,
+            shippingOptions,
+            taxAmount: 0,
+            total: 165.5,
+            coupon: {
+                id: 'coupon-1',
+                code: 'SPRING10',
+                discountAmount: 17.5,
+            },
+        });
+        vi.mocked(stripe.coupons.create).mockResolvedValue({
+            id: 'stripe_coupon_1',
+        } as unknown as Stripe.Response<Stripe.Coupon>);
+
+        const request = new NextRequest(
+            'http://localhost:3000/api/checkout/session',
+            {
+                method: 'POST',
+                body: JSON.stringify({
+                    items: validCartItems,
+                    couponCode: 'spring10',
+                }),
+            }
+        );
+
+        await POST(request);
+
+        expect(validateCart).toHaveBeenCalledWith(
+            validCartItems,
+            'spring10',
+            undefined,
+            undefined
+        );
+        expect(stripe.coupons.create).toHaveBeenCalledWith({
+            amount_off: 1750,
+            currency: 'usd',
+            duration: 'once',
+            max_redemptions: 1,
+            name: 'SPRING10',
+        });
+        expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+            expect.objectContaining({
+                discounts: [{ coupon: 'stripe_coupon_1' }],
+                metadata: expect.objectContaining({
+                    couponId: 'coupon-1',
+                    couponCode: 'SPRING10',
+                }),
             })
         );
     });
 
+    it('does not create a Stripe coupon without a coupon code', async () => {
+        const { stripe } = await import('@/lib/payments/stripe');
+
+        const request = new NextRequest(
+            'http://localhost:3000/api/checkout/session',
+            {
+                method: 'POST',
+                body: JSON.stringify({ items: validCartItems }),
+            }
+        );
+
+        await POST(request);
+
+        expect(stripe.coupons.create).not.toHaveBeenCalled();
+        expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+            expect.not.objectContaining({ discounts: expect.anything() })
+        );
+    });
+
+    describe('coupon holds', () => {
+        const request = () =>
+            new NextRequest('http://localhost:3000/api/checkout/session', {
+                method: 'POST',
+                body: JSON.stringify({
+                    items: validCartItems,
+                    couponCode: 'once',
+                }),
+            });
+
+        beforeEach(async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { validateCart } = await import('@/lib/cart/validation');
+
+            vi.mocked(validateCart).mockResolvedValue({
+                isValid: true,
+                items: validCartItems,
+                subtotal: 175.0,
+                shippingCost: siteConfig.shipping.flat_rate / 100,
+                shippingOptions,
+                taxAmount: 0,
+                total: 165.5,
+                coupon: {
+                    id: 'coupon-1',
+                    code: 'ONCE',
+                    discountAmount: 17.5,
+                },
+            });
+            vi.mocked(stripe.coupons.create).mockResolvedValue({
+                id: 'stripe_coupon_1',
+            } as unknown as Stripe.Response<Stripe.Coupon>);
+        });
+
+        it('holds a use of the coupon with the reservation', async () => {
+            const { reserveInventory } = await import(
+                '@/lib/db/inventory-holds'
+            );
+            const { reserveCoupon } = await import('@/lib/db/coupons');
+
+            await POST(request());
+
+            const [reservationId, , expiresAt] =
+                vi.mocked(reserveInventory).mock.calls[0];
+            expect(reserveCoupon).toHaveBeenCalledWith(
+                reservationId,
+                'coupon-1',
+                expiresAt
+            );
+        });
+
+        it('lets only one of two concurrent checkouts use a single-use coupon', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { reserveInventory, releaseInventoryHolds } = await import(
+                '@/lib/db/inventory-holds'
+            );
+            const { reserveCoupon } = await import('@/lib/db/coupons');
+            // usage_limit = 1: the database turns away every hold after the
+            // first
+            let held = 0;
+            vi.mocked(reserveCoupon).mockImplementation(async () =>
+                held++ < 1
+                    ? { error: null }
+                    : {
+                          error: {
+                              code: 'coupon_usage_limit_reached',
+                              message:
+                                  'This coupon has reached its usage limit',
+                          },
+                      }
+            );
+
+            const responses = await Promise.all([
+                POST(request()),
+                POST(request()),
+            ]);
+            const statuses = responses.map((response) => response.status);
+
+            expect(statuses.sort()).toEqual([200, 409]);
+            const rejected = await responses
+                .find((response) => response.status === 409)!
+                .json();
+            expect(rejected.error.code).toBe('VALIDATION_ERROR');
+            expect(stripe.checkout.sessions.create).toHaveBeenCalledTimes(1);
+            // The turned-away checkout gives its stock back
+            const [, [secondReservationId]] =
+                vi.mocked(reserveInventory).mock.calls;
+            expect(releaseInventoryHolds).toHaveBeenCalledTimes(1);
+            expect(releaseInventoryHolds).toHaveBeenCalledWith(
+                secondReservationId
+            );
+        });
+
+        it('releases the coupon hold when Stripe fails', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { releaseCouponHolds } = await import('@/lib/db/coupons');
+            vi.mocked(stripe.checkout.sessions.create).mockRejectedValue(
+                new Error('Stripe down')
+            );
+
+            const response = await POST(request());
+
+            expect(response.status).toBe(500);
+            expect(releaseCouponHolds).toHaveBeenCalled();
+        });
+    });
+
     it('handles invalid request body schema', async () => {
         const request = new NextRequest(
             'http://localhost:3000/api/checkout/session',
@@ -367,6 +771,13 @@ describe('POST /api/checkout/session', () => {
         expect(response.status).toBe(500);
         expect(data.error.code).toBe('PAYMENT_ERROR');
         expect(data.error.message).toBeDefined();
+
+        // The holds made for the failed session are released
+        const { reserveInventory, releaseInventoryHolds } = await import(
+            '@/lib/db/inventory-holds'
+        );
+        const [reservationId] = vi.mocked(reserveInventory).mock.calls[0];
+        expect(releaseInventoryHolds).toHaveBeenCalledWith(reservationId);
     });
 
     it('includes shipping options in session', async () => {
@@ -394,6 +805,24 @@ describe('POST /api/checkout/session', () => {
                                 currency: 'usd',
                             },
                             display_name: 'Standard Shipping',
+                            delivery_estimate: {
+                                minimum: { unit: 'business_day', value: 5 },
+                                maximum: { unit: 'business_day', value: 8 },
+                            },
+                        },
+                    },
+                    {
+                        shipping_rate_data: {
+                            type: 'fixed_amount',
+                            fixed_amount: {
+                                amount: siteConfig.shipping.express_rate,
+                                currency: 'usd',
+                            },
+                            display_name: 'Express Shipping',
+                            delivery_estimate: {
+                                minimum: { unit: 'business_day', value: 2 },
+                                maximum: { unit: 'business_day', value: 3 },
+                            },
                         },
                     },
                 ],
@@ -465,4 +894,394 @@ describe('POST /api/checkout/session', () => {
             })
         );
     });
+
+    describe('inventory holds', () => {
+        const request = () =>
+            new NextRequest('http://localhost:3000/api/checkout/session', {
+                method: 'POST',
+                body: JSON.stringify({ items: validCartItems }),
+            });
+
+        it("opens the session for more than Stripe's 30 minute minimum, closing before the holds", async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { reserveInventory } = await import(
+                '@/lib/db/inventory-holds'
+            );
+            const before = Date.now();
+
+            await POST(request());
+
+            const { expires_at } = vi.mocked(stripe.checkout.sessions.create)
+                .mock.calls[0][0] as { expires_at: number };
+            const holdsExpireAt = vi.mocked(reserveInventory).mock.calls[0][2];
+            expect(expires_at * 1000 - before).toBeGreaterThan(30 * 60 * 1000);
+            expect(expires_at * 1000).toBeLessThan(holdsExpireAt.getTime());
+        });
+
+        it('holds the stock until the session expires', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { reserveInventory, attachCheckoutSession } = await import(
+                '@/lib/db/inventory-holds'
+            );
+            const before = Date.now();
+
+            await POST(request());
+
+            const [reservationId, items, expiresAt] =
+                vi.mocked(reserveInventory).mock.calls[0];
+            expect(items).toEqual(validCartItems);
+            expect(expiresAt.getTime()).toBeGreaterThanOrEqual(
+                before + siteConfig.checkout.reservation_minutes * 60 * 1000
+            );
+            expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    cancel_url: expect.stringContaining(
+                        `/shoppe/cart?reservation=${reservationId}`
+                    ),
+                    metadata: expect.objectContaining({ reservationId }),
+                })
+            );
+            expect(attachCheckoutSession).toHaveBeenCalledWith(
+                reservationId,
+                'cs_test_123'
+            );
+        });
+
+        it('returns 409 without a session when stock was just reserved', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { reserveInventory } = await import(
+                '@/lib/db/inventory-holds'
+            );
+            vi.mocked(reserveInventory).mockResolvedValue({
+                error: {
+                    code: 'insufficient_inventory',
+                    message:
+                        'Some items in your cart were just reserved by another customer',
+                },
+            });
+
+            const response = await POST(request());
+            const data = await response.json();
+
+            expect(response.status).toBe(409);
+            expect(data.error.code).toBe('VALIDATION_ERROR');
+            expect(stripe.checkout.sessions.create).not.toHaveBeenCalled();
+        });
+
+        it('returns 500 when the reservation fails', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { reserveInventory } = await import(
+                '@/lib/db/inventory-holds'
+            );
+            vi.mocked(reserveInventory).mockResolvedValue({
+                error: { code: '08006', message: 'connection failure' },
+            });
+
+            const response = await POST(request());
+            const data = await response.json();
+
+            expect(response.status).toBe(500);
+            expect(data.error.code).toBe('DATABASE_ERROR');
+            expect(stripe.checkout.sessions.create).not.toHaveBeenCalled();
+        });
+    });
+    describe('gift cards', () => {
+        const giftCard = {
+            id: 'card-1',
+            code: 'GIFT-AAAA-BBBB-CCCC',
+            availableBalance: 50,
+            redeemedAmount: 50,
+        };
+
+        const request = () =>
+            new NextRequest('http://localhost:3000/api/checkout/session', {
+                method: 'POST',
+                body: JSON.stringify({
+                    items: validCartItems,
+                    couponCode: 'spring10',
+                    giftCardCodes: ['GIFT-AAAA-BBBB-CCCC'],
+                }),
+            });
+
+        beforeEach(async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { validateCart } = await import('@/lib/cart/validation');
+
+            vi.mocked(validateCart).mockResolvedValue({
+                isValid: true,
+                items: validCartItems,
+                subtotal: 175.0,
+                shippingCost: siteConfig.shipping.flat_rate / 100,
+                shippingOptions,
+                taxAmount: 0,
+                total: 115.5,
+                coupon: {
+                    id: 'coupon-1',
+                    code: 'SPRING10',
+                    discountAmount: 17.5,
+                },
+                giftCards: [giftCard],
+                giftCardAmount: 50,
+            });
+            vi.mocked(stripe.coupons.create).mockResolvedValue({
+                id: 'stripe_coupon_1',
+            } as unknown as Stripe.Response<Stripe.Coupon>);
+        });
+
+        it('holds the redeemed balances with the reservation', async () => {
+            const { validateCart } = await import('@/lib/cart/validation');
+            const { reserveInventory } = await import(
+                '@/lib/db/inventory-holds'
+            );
+            const { reserveGiftCards } = await import('@/lib/db/gift-cards');
+
+            await POST(request());
+
+            expect(validateCart).toHaveBeenCalledWith(
+                validCartItems,
+                'spring10',
+                undefined,
+                ['GIFT-AAAA-BBBB-CCCC']
+            );
+            const [reservationId, , expiresAt] =
+                vi.mocked(reserveInventory).mock.calls[0];
+            expect(reserveGiftCards).toHaveBeenCalledWith(
+                reservationId,
+                [giftCard],
+                expiresAt
+            );
+        });
+
+        it('discounts only the coupon and captures the payment later', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+
+            await POST(request());
+
+            expect(stripe.coupons.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    amount_off: 1750,
+                    name: 'SPRING10',
+                })
+            );
+            expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    discounts: [{ coupon: 'stripe_coupon_1' }],
+                    payment_intent_data: { capture_method: 'manual' },
+                    custom_text: {
+                        submit: {
+                            message:
+                                'Your gift card pays $50.00 of this total. Only the rest is charged to your card.',
+                        },
+                    },
+                    metadata: expect.objectContaining({
+                        couponCode: 'SPRING10',
+                        giftCardAmount: '50.00',
+                    }),
+                })
+            );
+        });
+
+        it('leaves the taxable amount unchanged by a gift card', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { validateCart } = await import('@/lib/cart/validation');
+            const withGiftCard = await validateCart(validCartItems);
+            const { giftCards, giftCardAmount, ...withoutGiftCard } =
+                withGiftCard;
+            expect(giftCards).toHaveLength(1);
+            expect(giftCardAmount).toBe(50);
+
+            vi.mocked(validateCart).mockResolvedValueOnce(withoutGiftCard);
+            await POST(request());
+            await POST(request());
+
+            const [withoutParams, withParams] = vi
+                .mocked(stripe.checkout.sessions.create)
+                .mock.calls.map(
+                    ([params]) => params as Stripe.Checkout.SessionCreateParams
+                );
+            // Stripe Tax works from the line items less the discounts
+            for (const key of [
+                'line_items',
+                'discounts',
+                'automatic_tax',
+            ] as const) {
+                expect(withParams[key]).toEqual(withoutParams[key]);
+            }
+            const couponCalls = vi.mocked(stripe.coupons.create).mock.calls;
+            expect(couponCalls[1]).toEqual(couponCalls[0]);
+            expect(withoutParams).not.toHaveProperty('payment_intent_data');
+        });
+
+        it('returns 409 and releases the stock when a balance was just spent', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { releaseInventoryHolds } = await import(
+                '@/lib/db/inventory-holds'
+            );
+            const { reserveGiftCards } = await import('@/lib/db/gift-cards');
+            vi.mocked(reserveGiftCards).mockResolvedValue({
+                error: {
+                    code: 'insufficient_gift_card_balance',
+                    message:
+                        'A gift card in your cart was just used in another checkout',
+                },
+            });
+
+            const response = await POST(request());
+
+            expect(response.status).toBe(409);
+            expect(releaseInventoryHolds).toHaveBeenCalled();
+            expect(stripe.checkout.sessions.create).not.toHaveBeenCalled();
+        });
+
+        it('releases the gift card holds when Stripe fails', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { releaseGiftCardHolds } = await import(
+                '@/lib/db/gift-cards'
+            );
+            vi.mocked(stripe.checkout.sessions.create).mockRejectedValue(
+                new Error('Stripe down')
+            );
+
+            const response = await POST(request());
+
+            expect(response.status).toBe(500);
+            expect(releaseGiftCardHolds).toHaveBeenCalled();
+        });
+    });
+
+    describe('customer accounts', () => {
+        const customer = {
+            id: 'customer-1',
+            auth_id: 'auth-1',
+            email: 'collector@example.com',
+            shipping_name: 'Jane Collector',
+            shipping_address_line1: '1 Harbor Way',
+            shipping_address_line2: null,
+            shipping_city: 'Portland',
+            shipping_state: 'OR',
+            shipping_zip: '97201',
+            shipping_country: 'US',
+            stripe_customer_id: null,
+            order_update_emails: true,
+            created_at: '2025-12-01T00:00:00Z',
+            updated_at: '2025-12-01T00:00:00Z',
+        };
+
+        const createSession = () =>
+            POST(
+                new NextRequest('http://localhost:3000/api/checkout/session', {
+                    method: 'POST',
+                    body: JSON.stringify({
+                        items: validCartItems,
+                        customerEmail: 'typed@example.com',
+                    }),
+                })
+            );
+
+        it('prefills the saved address through a new Stripe customer', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { getSignedInCustomer, updateCustomer } = await import(
+                '@/lib/db/customers'
+            );
+            vi.mocked(getSignedInCustomer).mockResolvedValue({
+                data: customer,
+                error: null,
+            });
+            vi.mocked(updateCustomer).mockResolvedValue({
+                data: customer,
+                error: null,
+            });
+            vi.mocked(stripe.customers.create).mockResolvedValue({
+                id: 'cus_123',
+            } as unknown as Stripe.Response<Stripe.Customer>);
+
+            await createSession();
+
+            expect(stripe.customers.create).toHaveBeenCalledWith({
+                email: 'collector@example.com',
+                name: 'Jane Collector',
+                shipping: {
+                    name: 'Jane Collector',
+                    address: {
+                        line1: '1 Harbor Way',
+                        line2: undefined,
+                        city: 'Portland',
+                        state: 'OR',
+                        postal_code: '97201',
+                        country: 'US',
+                    },
+                },
+            });
+            expect(updateCustomer).toHaveBeenCalledWith('customer-1', {
+                stripe_customer_id: 'cus_123',
+            });
+
+            const params = vi.mocked(stripe.checkout.sessions.create).mock
+                .calls[0][0];
+            expect(params).toMatchObject({
+                customer: 'cus_123',
+                customer_update: { shipping: 'auto', address: 'auto' },
+            });
+            expect(params).not.toHaveProperty('customer_email');
+        });
+
+        it('refreshes an existing Stripe customer', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { getSignedInCustomer } = await import('@/lib/db/customers');
+            vi.mocked(getSignedInCustomer).mockResolvedValue({
+                data: { ...customer, stripe_customer_id: 'cus_existing' },
+                error: null,
+            });
+
+            await createSession();
+
+            expect(stripe.customers.update).toHaveBeenCalledWith(
+                'cus_existing',
+                expect.objectContaining({ email: 'collector@example.com' })
+            );
+            expect(stripe.customers.create).not.toHaveBeenCalled();
+            expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+                expect.objectContaining({ customer: 'cus_existing' })
+            );
+        });
+
+        it("uses the account's email when no address is saved", async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { getSignedInCustomer } = await import('@/lib/db/customers');
+            vi.mocked(getSignedInCustomer).mockResolvedValue({
+                data: { ...customer, shipping_address_line1: null },
+                error: null,
+            });
+
+            await createSession();
+
+            expect(stripe.customers.create).not.toHaveBeenCalled();
+            expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    customer_email: 'collector@example.com',
+                })
+            );
+        });
+
+        it('falls back to a guest checkout when Stripe customer sync fails', async () => {
+            const { stripe } = await import('@/lib/payments/stripe');
+            const { getSignedInCustomer } = await import('@/lib/db/customers');
+            vi.mocked(getSignedInCustomer).mockResolvedValue({
+                data: { ...customer, stripe_customer_id: 'cus_deleted' },
+                error: null,
+            });
+            vi.mocked(stripe.customers.update).mockRejectedValue(
+                new Error('No such customer')
+            );
+
+            const response = await createSession();
+
+            expect(response.status).toBe(200);
+            expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    customer_email: 'typed@example.com',
+                })
+            );
+        });
+    });
 });
@@ -37,6 +37,14 @@ describe('POST /api/checkout/validate', () => {
             ],
             subtotal: 100.0,
             shippingCost: 5.0,
+            shippingOptions: [
+                {
+                    id: 'standard',
+                    displayName: 'Standard Shipping',
+                    amount: 5.0,
+                    deliveryEstimate: { minimum: 5, maximum: 8 },
+                },
+            ],
             taxAmount: 0,
             total: 105.0,
         });
@@ -157,6 +165,7 @@ describe('POST /api/checkout/validate', () => {
             items: [],
             subtotal: 0,
             shippingCost: 0,
+            shippingOptions: [],
             taxAmount: 0,
             total: 0,
             errors: [
@@ -201,6 +210,7 @@ describe('POST /api/checkout/validate', () => {
             items: [],
             subtotal: 0,
             shippingCost: 0,
+            shippingOptions: [],
             taxAmount: 0,
             total: 0,
             errors: [
@@ -244,6 +254,7 @@ describe('POST /api/checkout/validate', () => {
             items: [],
             subtotal: 0,
             shippingCost: 0,
+            shippingOptions: [],
             taxAmount: 0,
             total: 0,
             errors: ['Only 0 of "Out of Stock Item" available'],
@@ -335,6 +346,7 @@ describe('POST /api/checkout/validate', () => {
             items: [],
             subtotal: 0,
             shippingCost: 0,
+            shippingOptions: [],
             taxAmount: 0,
             total: 0,
             errors: ['Cart is empty'],
@@ -23,7 +23,9 @@ vi.mock('@/lib/payments/stripe', () => ({
             data: parsedPayload.data,
         };
     }),
+    capturePayment: vi.fn().mockResolvedValue({ status: 'succeeded' }),
     generateOrderNumber: vi.fn(() => 'YOA-20250112-0001'),
+    listRefunds: vi.fn(),
 }));
 
 vi.mock('@/lib/db/orders', () => ({
@@ -34,6 +36,18 @@ vi.mock('@/lib/db/orders', () => ({
         },
         error: null,
     }),
+    getOrderByPaymentIntent: vi.fn(),
+    updateOrderPaymentStatus: vi.fn(),
+    recordOrderDispute: vi.fn(),
+}));
+
+vi.mock('@/lib/db/webhook-events', () => ({
+    claimWebhookEvent: vi.fn(),
+    completeWebhookEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/db/admin/orders', () => ({
+    recordOrderRefund: vi.fn(),
 }));
 
 vi.mock('@/lib/supabase/server', () => ({
@@ -55,14 +69,105 @@ vi.mock('@/lib/supabase/server', () => ({
     }),
 }));
 
-import { constructWebhookEvent } from '@/lib/payments/stripe';
-import { createOrder } from '@/lib/db/orders';
+vi.mock('@/lib/db/inventory-holds', () => ({
+    getCheckoutItems: vi.fn().mockResolvedValue({
+        data: [
+            {
+                artworkId: '123e4567-e89b-12d3-a456-426614174000',
+                quantity: 1,
+                price: 100,
+            },
+        ],
+        error: null,
+    }),
+    releaseInventoryHolds: vi.fn().mockResolvedValue({
+        data: { checkoutSessionId: 'cs_test_123' },
+        error: null,
+    }),
+}));
+
+vi.mock('@/lib/db/coupons', () => ({
+    releaseCouponHolds: vi.fn().mockResolvedValue({ error: null }),
+}));
+
+vi.mock('@/lib/db/commissions', () => ({
+    getCommissionByPaymentLink: vi.fn(),
+    recordCommissionPayment: vi.fn(),
+}));
+
+vi.mock('@/lib/db/gift-cards', () => ({
+    issueGiftCard: vi.fn(),
+    markGiftCardDelivered: vi.fn().mockResolvedValue({ error: null }),
+    redeemGiftCardHolds: vi.fn().mockResolvedValue({ error: null }),
+    releaseGiftCardHolds: vi.fn().mockResolvedValue({ error: null }),
+}));
+
+vi.mock('@/lib/email/send', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/email/send')>()),
+    sendGiftCardEmail: vi.fn().mockResolvedValue({ success: true }),
+    sendDisputeAlertEmail: vi.fn(),
+}));
+
+vi.mock('next/cache', () => ({
+    revalidatePath: vi.fn(),
+}));
+
+import {
+    capturePayment,
+    constructWebhookEvent,
+    listRefunds,
+} from '@/lib/payments/stripe';
+import {
+    createOrder,
+    getOrderByPaymentIntent,
+    recordOrderDispute,
+    updateOrderPaymentStatus,
+    type OrderPaymentRow,
+} from '@/lib/db/orders';
+import { recordOrderRefund } from '@/lib/db/admin/orders';
+import {
+    claimWebhookEvent,
+    completeWebhookEvent,
+} from '@/lib/db/webhook-events';
+import {
+    getCheckoutItems,
+    releaseInventoryHolds,
+} from '@/lib/db/inventory-holds';
+import { releaseCouponHolds } from '@/lib/db/coupons';
+import {
+    getCommissionByPaymentLink,
+    recordCommissionPayment,
+    type CommissionRow,
+} from '@/lib/db/commissions';
+import {
+    issueGiftCard,
+    markGiftCardDelivered,
+    redeemGiftCardHolds,
+    releaseGiftCardHolds,
+    type GiftCardRow,
+} from '@/lib/db/gift-cards';
+import { sendDisputeAlertEmail, sendGiftCardEmail } from '@/lib/email/send';
+import { getTodayDate } from '@/lib/validation/gift-cards';
+import { revalidatePath } from 'next/cache';
 
 describe('POST /api/checkout/webhook', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         // Set environment variable for tests
         process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test_secret';
+        vi.mocked(getOrderByPaymentIntent).mockResolvedValue({
+            data: null,
+            error: null,
+        });
+        vi.mocked(updateOrderPaymentStatus).mockResolvedValue({
+            updated: false,
+            error: null,
+        });
+        vi.mocked(claimWebhookEvent).mockResolvedValue({
+            claimed: true,
+            error: null,
+        });
+        vi.mocked(completeWebhookEvent).mockResolvedValue({ error: null });
     });
 
     function createMockRequest(
@@ -115,14 +220,7 @@ describe('POST /api/checkout/webhook', () => {
                     currency: 'usd',
                     customer_email: 'test@example.com',
                     metadata: {
-                        cartItems: JSON.stringify([
-                            {
-                                artworkId:
-                                    '123e4567-e89b-12d3-a456-426614174000',
-                                quantity: 1,
-                                price: 100,
-                            },
-                        ]),
+                        reservationId: 'reservation-1',
                     },
                     total_details: {
                         amount_tax: 850, // $8.50 tax
@@ -302,6 +400,78 @@ describe('POST /api/checkout/webhook', () => {
         process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test_secret';
     });
 
+    describe('Event log', () => {
+        const signature = 't=123,v1=valid_signature';
+
+        it('should record the event as processed', async () => {
+            const payload = createPaymentIntentEvent(
+                'payment_intent.succeeded',
+                {}
+            );
+
+            await POST(createMockRequest(payload, signature));
+
+            expect(claimWebhookEvent).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    id: 'evt_test_123',
+                    type: 'payment_intent.succeeded',
+                })
+            );
+            expect(completeWebhookEvent).toHaveBeenCalledWith(
+                'evt_test_123',
+                null
+            );
+        });
+
+        it('should skip events that were already processed', async () => {
+            vi.mocked(claimWebhookEvent).mockResolvedValue({
+                claimed: false,
+                error: null,
+            });
+
+            const response = await POST(
+                createMockRequest(createCheckoutSessionEvent({}), signature)
+            );
+
+            expect(response.status).toBe(200);
+            expect(createOrder).not.toHaveBeenCalled();
+            expect(completeWebhookEvent).not.toHaveBeenCalled();
+        });
+
+        it('should record why processing failed', async () => {
+            vi.mocked(createOrder).mockResolvedValueOnce({
+                data: null,
+                error: new Error('Artwork not found'),
+            });
+
+            const response = await POST(
+                createMockRequest(createCheckoutSessionEvent({}), signature)
+            );
+            const data = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(data.error).toBe('Processing failed');
+            expect(completeWebhookEvent).toHaveBeenCalledWith(
+                'evt_test_123',
+                'Failed to create order: Artwork not found'
+            );
+        });
+
+        it('should ask Stripe to redeliver when the event cannot be logged', async () => {
+            vi.mocked(claimWebhookEvent).mockResolvedValue({
+                claimed: false,
+                error: { code: '500', message: 'db down' },
+            });
+
+            const response = await POST(
+                createMockRequest(createCheckoutSessionEvent({}), signature)
+            );
+
+            expect(response.status).toBe(500);
+            expect(createOrder).not.toHaveBeenCalled();
+        });
+    });
+
     describe('Checkout Session Completed Event', () => {
         it('should handle checkout.session.completed event', async () => {
             const payload = createCheckoutSessionEvent({});
@@ -347,6 +517,36 @@ describe('POST /api/checkout/webhook', () => {
             );
         });
 
+        it('should record the coupon discount from the session', async () => {
+            const payload = createCheckoutSessionEvent({
+                amount_total: 10350, // $113.50 less a $10.00 discount
+                metadata: {
+                    reservationId: 'reservation-1',
+                    couponId: 'coupon-1',
+                    couponCode: 'SPRING10',
+                },
+                total_details: {
+                    amount_discount: 1000,
+                    amount_tax: 850,
+                    amount_shipping: 500,
+                },
+            });
+            const signature = 't=123,v1=valid_signature';
+            const request = createMockRequest(payload, signature);
+
+            await POST(request);
+
+            expect(createOrder).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    subtotal: 100,
+                    discountAmount: 10,
+                    total: 103.5,
+                    couponId: 'coupon-1',
+                    couponCode: 'SPRING10',
+                })
+            );
+        });
+
         it('should extract shipping address from session', async () => {
             const payload = createCheckoutSessionEvent({});
             const signature = 't=123,v1=valid_signature';
@@ -473,23 +673,69 @@ describe('POST /api/checkout/webhook', () => {
             );
         });
 
-        it('should parse cart items from metadata', async () => {
+        it('should create the order from the cart lines recorded for the reservation', async () => {
+            vi.mocked(getCheckoutItems).mockResolvedValueOnce({
+                data: [
+                    {
+                        artworkId: '123e4567-e89b-12d3-a456-426614174000',
+                        quantity: 2,
+                        price: 50,
+                    },
+                    {
+                        artworkId: '123e4567-e89b-12d3-a456-426614174001',
+                        variantId: '123e4567-e89b-12d3-a456-426614174099',
+                        quantity: 1,
+                        price: 100,
+                    },
+                ],
+                error: null,
+            });
+
+            const payload = createCheckoutSessionEvent({});
+            const signature = 't=123,v1=valid_signature';
+            const request = createMockRequest(payload, signature);
+
+            await POST(request);
+
+            expect(getCheckoutItems).toHaveBeenCalledWith('reservation-1');
+            expect(createOrder).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    items: [
+                        {
+                            artworkId: '123e4567-e89b-12d3-a456-426614174000',
+                            quantity: 2,
+                            priceAtPurchase: 50,
+                            lineSubtotal: 100,
+                        },
+                        {
+                            artworkId: '123e4567-e89b-12d3-a456-426614174001',
+                            variantId: '123e4567-e89b-12d3-a456-426614174099',
+                            quantity: 1,
+                            priceAtPurchase: 100,
+                            lineSubtotal: 100,
+                        },
+                    ],
+                })
+            );
+        });
+
+        it('should parse cart items from the metadata of older sessions', async () => {
+            vi.mocked(getCheckoutItems).mockResolvedValueOnce({
+                data: [],
+                error: null,
+            });
             const items = [
                 {
                     artworkId: '123e4567-e89b-12d3-a456-426614174000',
                     quantity: 2,
                     price: 50,
                 },
-                {
-                    artworkId: '123e4567-e89b-12d3-a456-426614174001',
-                    quantity: 1,
-                    price: 100,
-                },
             ];
 
             const payload = createCheckoutSessionEvent({
                 metadata: {
                     cartItems: JSON.stringify(items),
+                    reservationId: 'reservation-1',
                 },
             });
             const signature = 't=123,v1=valid_signature';
@@ -506,15 +752,614 @@ describe('POST /api/checkout/webhook', () => {
                             priceAtPurchase: 50,
                             lineSubtotal: 100,
                         },
-                        {
-                            artworkId: '123e4567-e89b-12d3-a456-426614174001',
-                            quantity: 1,
-                            priceAtPurchase: 100,
-                            lineSubtotal: 100,
-                        },
                     ],
                 })
             );
         });
+
+        it('should fail the event when the cart lines cannot be loaded', async () => {
+            vi.mocked(getCheckoutItems).mockResolvedValueOnce({
+                data: null,
+                error: { code: 'XX000', message: 'connection lost' },
+            });
+
+            const payload = createCheckoutSessionEvent({});
+            const signature = 't=123,v1=valid_signature';
+            const response = await POST(createMockRequest(payload, signature));
+
+            expect(response.status).toBe(200);
+            expect(createOrder).not.toHaveBeenCalled();
+            expect(completeWebhookEvent).toHaveBeenCalledWith(
+                'evt_test_123',
+                'Failed to load checkout items: connection lost'
+            );
+        });
+    });
+
+    describe('Inventory holds', () => {
+        const signature = 't=123,v1=valid_signature';
+        const metadata = {
+            reservationId: 'reservation-1',
+        };
+
+        it('should release the holds once the order is created', async () => {
+            const payload = createCheckoutSessionEvent({ metadata });
+
+            await POST(createMockRequest(payload, signature));
+
+            expect(createOrder).toHaveBeenCalled();
+            expect(releaseInventoryHolds).toHaveBeenCalledWith('reservation-1');
+            expect(revalidatePath).toHaveBeenCalledWith('/shoppe');
+        });
+
+        it('should release the holds when the session expires', async () => {
+            const payload = JSON.stringify({
+                type: 'checkout.session.expired',
+                data: {
+                    object: {
+                        id: 'cs_test_123',
+                        object: 'checkout.session',
+                        status: 'expired',
+                        metadata,
+                    },
+                },
+            });
+
+            const response = await POST(createMockRequest(payload, signature));
+
+            expect(response.status).toBe(200);
+            expect(createOrder).not.toHaveBeenCalled();
+            expect(releaseInventoryHolds).toHaveBeenCalledWith('reservation-1');
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/shoppe/[slug]',
+                'page'
+            );
+        });
+
+        it('should skip sessions created before holds existed', async () => {
+            const payload = JSON.stringify({
+                type: 'checkout.session.expired',
+                data: {
+                    object: {
+                        id: 'cs_test_123',
+                        object: 'checkout.session',
+                        metadata: {},
+                    },
+                },
+            });
+
+            await POST(createMockRequest(payload, signature));
+
+            expect(releaseInventoryHolds).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Coupon holds', () => {
+        const signature = 't=123,v1=valid_signature';
+        const metadata = {
+            reservationId: 'reservation-1',
+            couponId: 'coupon-1',
+            couponCode: 'SPRING10',
+        };
+
+        it('should release the coupon hold once the order has counted the use', async () => {
+            const payload = createCheckoutSessionEvent({ metadata });
+
+            await POST(createMockRequest(payload, signature));
+
+            expect(releaseCouponHolds).toHaveBeenCalledWith('reservation-1');
+            expect(
+                vi.mocked(createOrder).mock.invocationCallOrder[0]
+            ).toBeLessThan(
+                vi.mocked(releaseCouponHolds).mock.invocationCallOrder[0]
+            );
+        });
+
+        it('should release the coupon hold when the session expires', async () => {
+            const payload = JSON.stringify({
+                type: 'checkout.session.expired',
+                data: {
+                    object: {
+                        id: 'cs_test_123',
+                        object: 'checkout.session',
+                        status: 'expired',
+                        metadata,
+                    },
+                },
+            });
+
+            await POST(createMockRequest(payload, signature));
+
+            expect(releaseCouponHolds).toHaveBeenCalledWith('reservation-1');
+        });
+
+        it('should skip sessions without a coupon', async () => {
+            await POST(
+                createMockRequest(createCheckoutSessionEvent({}), signature)
+            );
+
+            expect(releaseCouponHolds).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Commission payments', () => {
+        const signature = 't=123,v1=valid_signature';
+        const commission = { id: 'commission-1' } as CommissionRow;
+
+        const createPaymentLinkSessionEvent = () =>
+            createCheckoutSessionEvent({
+                id: 'cs_test_commission',
+                payment_link: 'plink_deposit',
+                amount_total: 15000,
+                metadata: {},
+            });
+
+        beforeEach(() => {
+            vi.mocked(getCommissionByPaymentLink).mockResolvedValue({
+                data: { commission, paymentType: 'deposit' },
+                error: null,
+            });
+            vi.mocked(recordCommissionPayment).mockResolvedValue({
+                recorded: true,
+                error: null,
+            });
+        });
+
+        it('should record the payment instead of creating an order', async () => {
+            const response = await POST(
+                createMockRequest(createPaymentLinkSessionEvent(), signature)
+            );
+
+            expect(response.status).toBe(200);
+            expect(getCommissionByPaymentLink).toHaveBeenCalledWith(
+                'plink_deposit'
+            );
+            expect(recordCommissionPayment).toHaveBeenCalledWith({
+                commissionId: 'commission-1',
+                paymentType: 'deposit',
+                amount: 150,
+                checkoutSessionId: 'cs_test_commission',
+                paymentIntentId: 'pi_test_session_123',
+            });
+            expect(createOrder).not.toHaveBeenCalled();
+            expect(revalidatePath).toHaveBeenCalledWith(
+                '/admin/commissions/commission-1'
+            );
+        });
+
+        it('should create an order for payment links that are not commission links', async () => {
+            vi.mocked(getCommissionByPaymentLink).mockResolvedValue({
+                data: null,
+                error: null,
+            });
+
+            await POST(
+                createMockRequest(createPaymentLinkSessionEvent(), signature)
+            );
+
+            expect(recordCommissionPayment).not.toHaveBeenCalled();
+            expect(createOrder).toHaveBeenCalled();
+        });
+
+        it('should not look up commissions for shoppe checkouts', async () => {
+            await POST(
+                createMockRequest(createCheckoutSessionEvent({}), signature)
+            );
+
+            expect(getCommissionByPaymentLink).not.toHaveBeenCalled();
+            expect(createOrder).toHaveBeenCalled();
+        });
+    });
+    describe('Gift cards', () => {
+        const signature = 't=123,v1=valid_signature';
+
+        describe('redemptions', () => {
+            const metadata = {
+                reservationId: 'reservation-1',
+                giftCardAmount: '40.00',
+            };
+
+            it('should capture the taxed total less the gift card and redeem the holds', async () => {
+                const payload = createCheckoutSessionEvent({
+                    metadata,
+                    total_details: {
+                        amount_tax: 850,
+                        amount_shipping: 500,
+                        amount_discount: 1000,
+                    },
+                });
+
+                await POST(createMockRequest(payload, signature));
+
+                expect(capturePayment).toHaveBeenCalledWith(
+                    'pi_test_session_123',
+                    73.5
+                );
+                expect(createOrder).toHaveBeenCalledWith(
+                    expect.objectContaining({
+                        subtotal: 110,
+                        discountAmount: 10,
+                        taxAmount: 8.5,
+                        giftCardAmount: 40,
+                        total: 73.5,
+                    })
+                );
+                expect(redeemGiftCardHolds).toHaveBeenCalledWith(
+                    'reservation-1',
+                    'order_123'
+                );
+            });
+
+            it('should fail the event without an order when the payment cannot be captured', async () => {
+                vi.mocked(capturePayment).mockResolvedValueOnce({
+                    status: 'canceled',
+                } as Stripe.PaymentIntent);
+                const payload = createCheckoutSessionEvent({ metadata });
+
+                const response = await POST(
+                    createMockRequest(payload, signature)
+                );
+
+                expect(response.status).toBe(200);
+                expect(createOrder).not.toHaveBeenCalled();
+                expect(redeemGiftCardHolds).not.toHaveBeenCalled();
+                expect(completeWebhookEvent).toHaveBeenCalledWith(
+                    'evt_test_123',
+                    'Failed to capture payment: PaymentIntent is canceled'
+                );
+            });
+
+            it('should release the holds when the session expires', async () => {
+                const payload = JSON.stringify({
+                    type: 'checkout.session.expired',
+                    data: {
+                        object: {
+                            id: 'cs_test_123',
+                            object: 'checkout.session',
+                            status: 'expired',
+                            metadata,
+                        },
+                    },
+                });
+
+                await POST(createMockRequest(payload, signature));
+
+                expect(releaseGiftCardHolds).toHaveBeenCalledWith(
+                    'reservation-1'
+                );
+                expect(redeemGiftCardHolds).not.toHaveBeenCalled();
+            });
+
+            it('should not touch gift cards for checkouts without them', async () => {
+                await POST(
+                    createMockRequest(createCheckoutSessionEvent({}), signature)
+                );
+
+                expect(redeemGiftCardHolds).not.toHaveBeenCalled();
+                expect(capturePayment).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('purchases', () => {
+            const giftCard = {
+                id: 'card-1',
+                code: 'GIFT-AAAA-BBBB-CCCC',
+                deliver_on: getTodayDate(),
+            } as GiftCardRow;
+
+            const createPurchaseEvent = (deliverOn: string) =>
+                createCheckoutSessionEvent({
+                    id: 'cs_test_gift',
+                    customer_email: 'sam@example.com',
+                    metadata: {
+                        purchaseType: 'gift_card',
+                        giftCardAmount: '50.00',
+                        recipientName: 'Alex',
+                        recipientEmail: 'alex@example.com',
+                        senderName: 'Sam',
+                        message: '',
+                        deliverOn,
+                    },
+                });
+
+            beforeEach(() => {
+                vi.mocked(issueGiftCard).mockResolvedValue({
+                    data: giftCard,
+                    error: null,
+                });
+            });
+
+            it('should issue the card and email it when due today', async () => {
+                const response = await POST(
+                    createMockRequest(
+                        createPurchaseEvent(getTodayDate()),
+                        signature
+                    )
+                );
+
+                expect(response.status).toBe(200);
+                expect(issueGiftCard).toHaveBeenCalledWith(
+                    expect.objectContaining({
+                        initial_amount: '50.00',
+                        purchaser_name: 'Sam',
+                        purchaser_email: 'sam@example.com',
+                        recipient_email: 'alex@example.com',
+                        message: null,
+                        stripe_checkout_session_id: 'cs_test_gift',
+                    })
+                );
+                expect(sendGiftCardEmail).toHaveBeenCalledWith(giftCard);
+                expect(markGiftCardDelivered).toHaveBeenCalledWith('card-1');
+                expect(createOrder).not.toHaveBeenCalled();
+            });
+
+            it('should leave later deliveries to the cron', async () => {
+                vi.mocked(issueGiftCard).mockResolvedValue({
+                    data: { ...giftCard, deliver_on: '2999-01-01' },
+                    error: null,
+                });
+
+                await POST(
+                    createMockRequest(
+                        createPurchaseEvent('2999-01-01'),
+                        signature
+                    )
+                );
+
+                expect(issueGiftCard).toHaveBeenCalled();
+                expect(sendGiftCardEmail).not.toHaveBeenCalled();
+            });
+
+            it('should not email again for a retried event', async () => {
+                vi.mocked(issueGiftCard).mockResolvedValue({
+                    data: null,
+                    error: null,
+                });
+
+                await POST(
+                    createMockRequest(
+                        createPurchaseEvent(getTodayDate()),
+                        signature
+                    )
+                );
+
+                expect(sendGiftCardEmail).not.toHaveBeenCalled();
+            });
+        });
+    });
+
+    describe('Payment status', () => {
+        const signature = 't=123,v1=valid_signature';
+        const order: OrderPaymentRow = {
+            id: 'order-1',
+            order_number: 'YOA-20250112-0001',
+            customer_name: 'John Doe',
+            customer_email: 'john@example.com',
+            total: '105.00',
+            status: 'paid',
+            payment_status: 'succeeded',
+            order_refunds: [{ stripe_refund_id: 're_recorded' }],
+        };
+
+        function createEvent(type: string, object: Record<string, unknown>) {
+            return JSON.stringify({ type, data: { object } });
+        }
+
+        beforeEach(() => {
+            vi.mocked(recordOrderRefund).mockResolvedValue({
+                data: 'refund-1',
+                error: null,
+            });
+            vi.mocked(recordOrderDispute).mockResolvedValue({
+                data: null,
+                error: null,
+            });
+            vi.mocked(sendDisputeAlertEmail).mockResolvedValue({
+                success: true,
+            });
+        });
+
+        it('should fail and cancel a pending order when its session expires', async () => {
+            await POST(
+                createMockRequest(
+                    createEvent('checkout.session.expired', {
+                        id: 'cs_test_123',
+                        payment_intent: 'pi_test_123',
+                        metadata: {},
+                    }),
+                    signature
+                )
+            );
+
+            expect(updateOrderPaymentStatus).toHaveBeenCalledWith(
+                'pi_test_123',
+                { paymentStatus: 'failed', status: 'cancelled' },
+                ['pending']
+            );
+        });
+
+        it('should fail a pending order when its payment fails', async () => {
+            await POST(
+                createMockRequest(
+                    createPaymentIntentEvent(
+                        'payment_intent.payment_failed',
+                        {}
+                    ),
+                    signature
+                )
+            );
+
+            expect(updateOrderPaymentStatus).toHaveBeenCalledWith(
+                'pi_test_123',
+                { paymentStatus: 'failed' },
+                ['pending']
+            );
+        });
+
+        describe('charge.refunded', () => {
+            const refundedCharge = createEvent('charge.refunded', {
+                id: 'ch_123',
+                payment_intent: 'pi_test_123',
+            });
+
+            it('should record refunds issued from the Stripe dashboard', async () => {
+                vi.mocked(getOrderByPaymentIntent).mockResolvedValue({
+                    data: order,
+                    error: null,
+                });
+                vi.mocked(listRefunds).mockResolvedValue([
+                    {
+                        id: 're_new',
+                        amount: 2500,
+                        status: 'succeeded',
+                        metadata: {},
+                    },
+                    {
+                        id: 're_recorded',
+                        amount: 1000,
+                        status: 'succeeded',
+                        metadata: {},
+                    },
+                    {
+                        id: 're_admin',
+                        amount: 1000,
+                        status: 'pending',
+                        metadata: { orderId: 'order-1' },
+                    },
+                    {
+                        id: 're_failed',
+                        amount: 1000,
+                        status: 'failed',
+                        metadata: {},
+                    },
+                ] as unknown as Stripe.Refund[]);
+
+                await POST(createMockRequest(refundedCharge, signature));
+
+                expect(listRefunds).toHaveBeenCalledWith('pi_test_123');
+                expect(recordOrderRefund).toHaveBeenCalledTimes(1);
+                expect(recordOrderRefund).toHaveBeenCalledWith('order-1', {
+                    stripeRefundId: 're_new',
+                    amount: 25,
+                    reason: 'Refunded from the Stripe dashboard',
+                    restock: false,
+                    items: [],
+                });
+                expect(revalidatePath).toHaveBeenCalledWith(
+                    '/admin/orders/order-1'
+                );
+            });
+
+            it('should ignore refunds of payments that are not orders', async () => {
+                await POST(createMockRequest(refundedCharge, signature));
+
+                expect(listRefunds).not.toHaveBeenCalled();
+                expect(recordOrderRefund).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('disputes', () => {
+            const dispute = {
+                id: 'dp_123',
+                payment_intent: 'pi_test_123',
+                amount: 10500,
+                reason: 'fraudulent',
+                status: 'needs_response',
+                livemode: false,
+                evidence_details: { due_by: 1767225600 },
+            };
+
+            beforeEach(() => {
+                vi.mocked(getOrderByPaymentIntent).mockResolvedValue({
+                    data: order,
+                    error: null,
+                });
+            });
+
+            it('should record the dispute and alert the admin', async () => {
+                await POST(
+                    createMockRequest(
+                        createEvent('charge.dispute.created', dispute),
+                        signature
+                    )
+                );
+
+                expect(recordOrderDispute).toHaveBeenCalledWith({
+                    orderId: 'order-1',
+                    stripeDisputeId: 'dp_123',
+                    amount: 105,
+                    reason: 'fraudulent',
+                    status: 'needs_response',
+                    evidenceDueBy: '2026-01-01T00:00:00.000Z',
+                });
+                expect(sendDisputeAlertEmail).toHaveBeenCalledWith(order, {
+                    stripeDisputeId: 'dp_123',
+                    amount: 105,
+                    reason: 'fraudulent',
+                    evidenceDueBy: '2026-01-01T00:00:00.000Z',
+                    livemode: false,
+                });
+                expect(updateOrderPaymentStatus).not.toHaveBeenCalled();
+            });
+
+            it('should alert the admin even when no order matches', async () => {
+                vi.mocked(getOrderByPaymentIntent).mockResolvedValue({
+                    data: null,
+                    error: null,
+                });
+
+                await POST(
+                    createMockRequest(
+                        createEvent('charge.dispute.created', dispute),
+                        signature
+                    )
+                );
+
+                expect(recordOrderDispute).not.toHaveBeenCalled();
+                expect(sendDisputeAlertEmail).toHaveBeenCalledWith(
+                    null,
+                    expect.objectContaining({ stripeDisputeId: 'dp_123' })
+                );
+            });
+
+            it('should mark the order refunded when the dispute is lost', async () => {
+                await POST(
+                    createMockRequest(
+                        createEvent('charge.dispute.closed', {
+                            ...dispute,
+                            status: 'lost',
+                        }),
+                        signature
+                    )
+                );
+
+                expect(recordOrderDispute).toHaveBeenCalledWith(
+                    expect.objectContaining({ status: 'lost' })
+                );
+                expect(updateOrderPaymentStatus).toHaveBeenCalledWith(
+                    'pi_test_123',
+                    { paymentStatus: 'refunded' },
+                    ['succeeded', 'partially_refunded']
+                );
+                expect(sendDisputeAlertEmail).not.toHaveBeenCalled();
+            });
+
+            it('should leave the payment alone when the dispute is won', async () => {
+                await POST(
+                    createMockRequest(
+                        createEvent('charge.dispute.closed', {
+                            ...dispute,
+                            status: 'won',
+                        }),
+                        signature
+                    )
+                );
+
+                expect(recordOrderDispute).toHaveBeenCalledWith(
+                    expect.objectContaining({ status: 'won' })
+                );
+                expect(updateOrderPaymentStatus).not.toHaveBeenCalled();
+            });
+        });
     });
 });
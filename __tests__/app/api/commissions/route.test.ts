@@ -0,0 +1,218 @@
+/**
+ * Tests for /api/commissions route
+ *
+ * Tests for commission request validation, reference uploads, the admin
+ * notification and per-IP rate limiting.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/commissions/route';
+import {
+    createCommission,
+    uploadCommissionReferences,
+    type CommissionRow,
+} from '@/lib/db/commissions';
+import { consumeRateLimit } from '@/lib/db/rate-limits';
+import { sendCommissionRequestEmail } from '@/lib/email/send';
+
+vi.mock('@/lib/db/commissions', () => ({
+    createCommission: vi.fn(),
+    uploadCommissionReferences: vi.fn(),
+}));
+
+vi.mock('@/lib/db/rate-limits', () => ({
+    consumeRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/email/send', () => ({
+    sendCommissionRequestEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const mockCreateCommission = vi.mocked(createCommission);
+const mockUpload = vi.mocked(uploadCommissionReferences);
+const mockSendEmail = vi.mocked(sendCommissionRequestEmail);
+const mockConsumeRateLimit = vi.mocked(consumeRateLimit);
+
+const commission = { id: 'commission-1' } as CommissionRow;
+
+const validFields: Record<string, string> = {
+    name: 'Fan',
+    email: 'fan@example.com',
+    subject: 'My dog as a knight',
+    size: '11x14',
+    style: 'Ink and watercolor',
+    budget: '250',
+    deadline: '',
+    details: '',
+};
+
+const postCommission = (
+    fields: Record<string, string>,
+    files: File[] = [],
+    headers: Record<string, string> = {}
+) => {
+    const formData = new FormData();
+    Object.entries(fields).forEach(([name, value]) =>
+        formData.append(name, value)
+    );
+    files.forEach((file) => formData.append('references', file));
+
+    return POST(
+        new NextRequest('http://localhost:3000/api/commissions', {
+            method: 'POST',
+            body: formData,
+            headers,
+        })
+    );
+};
+
+describe('POST /api/commissions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockUpload.mockResolvedValue({ data: [], error: null });
+        mockCreateCommission.mockResolvedValue({
+            data: commission,
+            error: null,
+        });
+        mockSendEmail.mockResolvedValue({ success: true });
+        mockConsumeRateLimit.mockResolvedValue({ data: true, error: null });
+    });
+
+    it('should save the request and notify the admin', async () => {
+        const response = await postCommission(validFields);
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data).toEqual({ success: true });
+        expect(mockCreateCommission).toHaveBeenCalledWith({
+            customer_name: 'Fan',
+            customer_email: 'fan@example.com',
+            subject: 'My dog as a knight',
+            size: '11x14',
+            style: 'Ink and watercolor',
+            budget: '250.00',
+            deadline: null,
+            details: null,
+            reference_image_paths: [],
+        });
+        expect(mockSendEmail).toHaveBeenCalledWith(commission);
+    });
+
+    it('should upload reference images and save their paths', async () => {
+        mockUpload.mockResolvedValue({
+            data: ['folder/reference-1.png'],
+            error: null,
+        });
+        const file = new File(['image'], 'dog.png', { type: 'image/png' });
+
+        const response = await postCommission(validFields, [file]);
+
+        expect(response.status).toBe(200);
+        expect(mockUpload).toHaveBeenCalledWith([expect.any(File)]);
+        expect(mockCreateCommission).toHaveBeenCalledWith(
+            expect.objectContaining({
+                reference_image_paths: ['folder/reference-1.png'],
+            })
+        );
+    });
+
+    it('should reject requests missing required fields', async () => {
+        const response = await postCommission({ ...validFields, size: '' });
+
+        expect(response.status).toBe(400);
+        expect(mockCreateCommission).not.toHaveBeenCalled();
+    });
+
+    it('should reject deadlines in the past', async () => {
+        const response = await postCommission({
+            ...validFields,
+            deadline: '2000-01-01',
+        });
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should reject reference files that are not images', async () => {
+        const file = new File(['%PDF'], 'brief.pdf', {
+            type: 'application/pdf',
+        });
+
+        const response = await postCommission(validFields, [file]);
+
+        expect(response.status).toBe(400);
+        expect(mockUpload).not.toHaveBeenCalled();
+    });
+
+    it('should reject more than three reference images', async () => {
+        const files = Array.from(
+            { length: 4 },
+            (_, i) => new File(['image'], `ref-${i}.png`, { type: 'image/png' })
+        );
+
+        const response = await postCommission(validFields, files);
+
+        expect(response.status).toBe(400);
+        expect(mockUpload).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the request cannot be saved', async () => {
+        mockCreateCommission.mockResolvedValue({
+            data: null,
+            error: { code: '500', message: 'db down' },
+        });
+
+        const response = await postCommission(validFields);
+
+        expect(response.status).toBe(500);
+        expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should still succeed when the admin email fails', async () => {
+        mockSendEmail.mockResolvedValue({ success: false });
+
+        const response = await postCommission(validFields);
+
+        expect(response.status).toBe(200);
+    });
+
+    it('should rate limit by client IP', async () => {
+        await postCommission(validFields, [], {
+            'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+        });
+
+        expect(mockConsumeRateLimit).toHaveBeenCalledWith(
+            expect.objectContaining({ scope: 'commission-request-ip' }),
+            '203.0.113.7'
+        );
+    });
+
+    it('should return 429 without saving the request when rate limited', async () => {
+        mockConsumeRateLimit.mockResolvedValue({ data: false, error: null });
+
+        const response = await postCommission(validFields);
+        const data = await response.json();
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get('Retry-After')).toBe('3600');
+        expect(data.error.code).toBe('RATE_LIMIT_ERROR');
+        expect(mockUpload).not.toHaveBeenCalled();
+        expect(mockCreateCommission).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the rate limit cannot be checked', async () => {
+        mockConsumeRateLimit.mockResolvedValue({
+            data: null,
+            error: { code: 'XX000', message: 'db down' },
+        });
+
+        const response = await postCommission(validFields);
+
+        expect(response.status).toBe(500);
+        expect(mockCreateCommission).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for GET /api/cron/gift-cards
+ *
+ * Tests the daily delivery of scheduled gift card emails.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/cron/gift-cards/route';
+import {
+    getGiftCardsDueForDelivery,
+    markGiftCardDelivered,
+    type GiftCardRow,
+} from '@/lib/db/gift-cards';
+import { sendGiftCardEmail } from '@/lib/email/send';
+
+vi.mock('@/lib/db/gift-cards', () => ({
+    getGiftCardsDueForDelivery: vi.fn(),
+    markGiftCardDelivered: vi.fn(),
+}));
+
+vi.mock('@/lib/email/send', () => ({
+    sendGiftCardEmail: vi.fn(),
+}));
+
+const mockGetDue = vi.mocked(getGiftCardsDueForDelivery);
+const mockMarkDelivered = vi.mocked(markGiftCardDelivered);
+const mockSendEmail = vi.mocked(sendGiftCardEmail);
+
+const giftCards = [{ id: 'card-1' }, { id: 'card-2' }] as GiftCardRow[];
+
+const callCron = (authorization?: string) =>
+    GET(
+        new NextRequest('http://localhost:3000/api/cron/gift-cards', {
+            headers: authorization ? { authorization } : {},
+        })
+    );
+
+describe('GET /api/cron/gift-cards', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubEnv('CRON_SECRET', 'cron_secret');
+        mockGetDue.mockResolvedValue({ data: giftCards, error: null });
+        mockMarkDelivered.mockResolvedValue({ error: null });
+        mockSendEmail.mockResolvedValue({ success: true });
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should reject requests without the cron secret', async () => {
+        const response = await callCron('Bearer wrong');
+
+        expect(response.status).toBe(401);
+        expect(mockGetDue).not.toHaveBeenCalled();
+    });
+
+    it('should email and mark each due gift card', async () => {
+        const response = await callCron('Bearer cron_secret');
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data).toEqual({ delivered: 2, failed: 0 });
+        expect(mockSendEmail).toHaveBeenCalledTimes(2);
+        expect(mockMarkDelivered).toHaveBeenCalledWith('card-1');
+        expect(mockMarkDelivered).toHaveBeenCalledWith('card-2');
+    });
+
+    it('should leave cards whose email failed for the next run', async () => {
+        mockSendEmail.mockResolvedValueOnce({ success: false });
+
+        const response = await callCron('Bearer cron_secret');
+        const data = await response.json();
+
+        expect(data).toEqual({ delivered: 1, failed: 1 });
+        expect(mockMarkDelivered).not.toHaveBeenCalledWith('card-1');
+        expect(mockMarkDelivered).toHaveBeenCalledWith('card-2');
+    });
+
+    it('should return 500 when due cards cannot be loaded', async () => {
+        mockGetDue.mockResolvedValue({
+            data: null,
+            error: { code: '08006', message: 'connection failure' },
+        });
+
+        const response = await callCron('Bearer cron_secret');
+
+        expect(response.status).toBe(500);
+        expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+});
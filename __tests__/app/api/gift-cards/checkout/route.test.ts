@@ -0,0 +1,114 @@
+/**
+ * Tests for POST /api/gift-cards/checkout
+ *
+ * Tests purchase validation and the Stripe Checkout session carrying the
+ * gift card details for the webhook.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import type Stripe from 'stripe';
+import { POST } from '@/app/api/gift-cards/checkout/route';
+import { stripe } from '@/lib/payments/stripe';
+import { getTodayDate } from '@/lib/validation/gift-cards';
+
+vi.mock('@/lib/payments/stripe', () => ({
+    stripe: {
+        checkout: {
+            sessions: {
+                create: vi.fn(),
+            },
+        },
+    },
+}));
+
+const mockCreate = vi.mocked(stripe.checkout.sessions.create);
+
+const validPurchase = {
+    amount: 50,
+    recipientName: 'Alex',
+    recipientEmail: 'alex@example.com',
+    senderName: 'Sam',
+    senderEmail: 'sam@example.com',
+    message: 'Happy birthday!',
+    deliverOn: getTodayDate(),
+};
+
+const postPurchase = (body: unknown) =>
+    POST(
+        new NextRequest('http://localhost:3000/api/gift-cards/checkout', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        })
+    );
+
+describe('POST /api/gift-cards/checkout', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockCreate.mockResolvedValue({
+            id: 'cs_test_gift',
+            url: 'https://checkout.stripe.com/c/pay/cs_test_gift',
+        } as unknown as Stripe.Response<Stripe.Checkout.Session>);
+    });
+
+    it('should create a Checkout session for the gift card', async () => {
+        const response = await postPurchase(validPurchase);
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data).toEqual({
+            url: 'https://checkout.stripe.com/c/pay/cs_test_gift',
+        });
+        expect(mockCreate).toHaveBeenCalledWith(
+            expect.objectContaining({
+                mode: 'payment',
+                customer_email: 'sam@example.com',
+                line_items: [
+                    expect.objectContaining({
+                        price_data: expect.objectContaining({
+                            unit_amount: 5000,
+                        }),
+                        quantity: 1,
+                    }),
+                ],
+                metadata: {
+                    purchaseType: 'gift_card',
+                    giftCardAmount: '50.00',
+                    recipientName: 'Alex',
+                    recipientEmail: 'alex@example.com',
+                    senderName: 'Sam',
+                    message: 'Happy birthday!',
+                    deliverOn: getTodayDate(),
+                },
+            })
+        );
+    });
+
+    it('should reject amounts that are not offered', async () => {
+        const response = await postPurchase({ ...validPurchase, amount: 37 });
+
+        expect(response.status).toBe(400);
+        expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should reject delivery dates in the past', async () => {
+        const response = await postPurchase({
+            ...validPurchase,
+            deliverOn: '2000-01-01',
+        });
+
+        expect(response.status).toBe(400);
+        expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when Stripe fails', async () => {
+        mockCreate.mockRejectedValue(new Error('Stripe down'));
+
+        const response = await postPurchase(validPurchase);
+        const data = await response.json();
+
+        expect(response.status).toBe(500);
+        expect(data.error.code).toBe('PAYMENT_ERROR');
+    });
+});
@@ -0,0 +1,189 @@
+/**
+ * Guest Order Lookup API Route Tests
+ *
+ * Tests for finding an order by order number and email, with rate limiting.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/orders/lookup/route';
+import { getOrderByNumberAndEmail } from '@/lib/db/orders';
+import { consumeRateLimit } from '@/lib/db/rate-limits';
+import type { Order } from '@/types/order';
+
+vi.mock('@/lib/db/orders', () => ({
+    getOrderByNumberAndEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/db/rate-limits', () => ({
+    consumeRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/errors/logger', () => ({
+    logError: vi.fn(),
+}));
+
+const mockGetOrder = vi.mocked(getOrderByNumberAndEmail);
+const mockConsumeRateLimit = vi.mocked(consumeRateLimit);
+
+const order: Order = {
+    id: 'order-123',
+    orderNumber: 'YOA-20250112-0374',
+    customerName: 'Jane Collector',
+    customerEmail: 'jane@example.com',
+    shippingAddress: {
+        line1: '1 Main St',
+        city: 'Portland',
+        state: 'OR',
+        zip: '97201',
+        country: 'US',
+    },
+    billingAddress: {
+        line1: '1 Main St',
+        city: 'Portland',
+        state: 'OR',
+        zip: '97201',
+        country: 'US',
+    },
+    subtotal: 100,
+    shippingCost: 5,
+    taxAmount: 0,
+    total: 105,
+    status: 'shipped',
+    paymentStatus: 'succeeded',
+    paymentIntentId: 'pi_123',
+    shipments: [{ trackingNumber: '1Z999' }],
+    adminNotes: 'Customer is a regular',
+    items: [
+        {
+            id: 'item-1',
+            artworkId: 'artwork-1',
+            quantity: 1,
+            priceAtPurchase: 100,
+            lineSubtotal: 100,
+            title: 'Blue Dragon',
+        },
+    ],
+    createdAt: '2025-01-12T10:00:00Z',
+    updatedAt: '2025-01-14T10:00:00Z',
+};
+
+const callPost = (body: unknown, headers: Record<string, string> = {}) =>
+    POST(
+        new NextRequest('http://localhost:3000/api/orders/lookup', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+        })
+    );
+
+const validBody = {
+    orderNumber: 'yoa-20250112-0374',
+    email: 'Jane@Example.com',
+};
+
+describe('POST /api/orders/lookup', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockConsumeRateLimit.mockResolvedValue({ data: true, error: null });
+    });
+
+    it('returns the order status, items and tracking number', async () => {
+        mockGetOrder.mockResolvedValue({ data: order, error: null });
+
+        const response = await callPost(validBody);
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(mockGetOrder).toHaveBeenCalledWith(
+            'YOA-20250112-0374',
+            'Jane@Example.com'
+        );
+        expect(body.order).toMatchObject({
+            orderNumber: 'YOA-20250112-0374',
+            status: 'shipped',
+            shipments: [{ trackingNumber: '1Z999' }],
+            total: 105,
+        });
+        expect(body.order.items[0].title).toBe('Blue Dragon');
+    });
+
+    it('leaves out addresses, payment details and admin notes', async () => {
+        mockGetOrder.mockResolvedValue({ data: order, error: null });
+
+        const body = await (await callPost(validBody)).json();
+
+        expect(body.order).not.toHaveProperty('shippingAddress');
+        expect(body.order).not.toHaveProperty('billingAddress');
+        expect(body.order).not.toHaveProperty('customerEmail');
+        expect(body.order).not.toHaveProperty('paymentIntentId');
+        expect(body.order).not.toHaveProperty('adminNotes');
+    });
+
+    it('rate limits by client IP and by email', async () => {
+        mockGetOrder.mockResolvedValue({ data: order, error: null });
+
+        await callPost(validBody, {
+            'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+        });
+
+        expect(mockConsumeRateLimit).toHaveBeenCalledWith(
+            expect.objectContaining({ scope: 'order-lookup-ip' }),
+            '203.0.113.7'
+        );
+        expect(mockConsumeRateLimit).toHaveBeenCalledWith(
+            expect.objectContaining({ scope: 'order-lookup-email' }),
+            'Jane@Example.com'
+        );
+    });
+
+    it('returns 429 without looking up the order when rate limited', async () => {
+        mockConsumeRateLimit.mockResolvedValue({ data: false, error: null });
+
+        const response = await callPost(validBody);
+        const body = await response.json();
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get('Retry-After')).toBe('900');
+        expect(body.error.code).toBe('RATE_LIMIT_ERROR');
+        expect(mockGetOrder).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when no order matches', async () => {
+        mockGetOrder.mockResolvedValue({ data: null, error: null });
+
+        const response = await callPost(validBody);
+
+        expect(response.status).toBe(404);
+    });
+
+    it('returns 400 for invalid input without counting an attempt', async () => {
+        const response = await callPost({ orderNumber: '', email: 'nope' });
+
+        expect(response.status).toBe(400);
+        expect(mockConsumeRateLimit).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when the rate limit check fails', async () => {
+        mockConsumeRateLimit.mockResolvedValue({
+            data: null,
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+
+        const response = await callPost(validBody);
+
+        expect(response.status).toBe(500);
+        expect(mockGetOrder).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when the lookup fails', async () => {
+        mockGetOrder.mockResolvedValue({
+            data: null,
+            error: new Error('connection lost'),
+        });
+
+        const response = await callPost(validBody);
+
+        expect(response.status).toBe(500);
+    });
+});
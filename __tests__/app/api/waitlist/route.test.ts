@@ -0,0 +1,82 @@
+/**
+ * Tests for /api/waitlist route
+ *
+ * Tests for back-in-stock sign-up validation and persistence.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/waitlist/route';
+import { joinWaitlist } from '@/lib/db/waitlist';
+
+vi.mock('@/lib/db/waitlist', () => ({
+    joinWaitlist: vi.fn(),
+}));
+
+const mockJoinWaitlist = vi.mocked(joinWaitlist);
+
+const ARTWORK_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+const postWaitlist = (body: unknown) =>
+    POST(
+        new NextRequest('http://localhost:3000/api/waitlist', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        })
+    );
+
+describe('POST /api/waitlist', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockJoinWaitlist.mockResolvedValue({ error: null });
+    });
+
+    it('should add the address to the artwork waitlist', async () => {
+        const response = await postWaitlist({
+            artworkId: ARTWORK_ID,
+            email: ' fan@example.com ',
+        });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data).toEqual({ success: true });
+        expect(mockJoinWaitlist).toHaveBeenCalledWith(
+            ARTWORK_ID,
+            'fan@example.com'
+        );
+    });
+
+    it('should reject invalid email addresses', async () => {
+        const response = await postWaitlist({
+            artworkId: ARTWORK_ID,
+            email: 'not-an-email',
+        });
+
+        expect(response.status).toBe(400);
+        expect(mockJoinWaitlist).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed artwork IDs', async () => {
+        const response = await postWaitlist({
+            artworkId: 'artwork-1',
+            email: 'fan@example.com',
+        });
+
+        expect(response.status).toBe(400);
+        expect(mockJoinWaitlist).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the sign-up cannot be saved', async () => {
+        mockJoinWaitlist.mockResolvedValue({
+            error: { code: '23503', message: 'foreign key violation' },
+        });
+
+        const response = await postWaitlist({
+            artworkId: ARTWORK_ID,
+            email: 'fan@example.com',
+        });
+
+        expect(response.status).toBe(500);
+    });
+});
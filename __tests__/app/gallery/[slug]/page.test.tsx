@@ -52,6 +52,11 @@ const mockArtworkDetail: ArtworkRow = {
     sku: 'ART-001',
     inventory_count: 5,
     is_limited_edition: false,
+    edition_size: null,
+    last_edition_number: 0,
+    is_original: false,
+    shipping_class: 'standard',
+    project_id: null,
     medium: 'Oil on Canvas',
     dimensions: '24 x 36 inches',
     year_created: 2023,
@@ -14,13 +14,19 @@ import GalleryPage from '@/app/gallery/page';
 
 // Mock the database query function
 vi.mock('@/lib/db/artwork', () => ({
-    getAllArtwork: vi.fn(),
+    getFilteredArtwork: vi.fn(),
+    getArtworkFacets: vi.fn(async () => ({ data: null, error: null })),
 }));
 
-import { getAllArtwork, ArtworkQueryError } from '@/lib/db/artwork';
+import {
+    getArtworkFacets,
+    getFilteredArtwork,
+    ArtworkQueryError,
+} from '@/lib/db/artwork';
 import { Database } from '@/types/database';
 
-const mockGetAllArtwork = vi.mocked(getAllArtwork);
+const mockGetFilteredArtwork = vi.mocked(getFilteredArtwork);
+const mockGetArtworkFacets = vi.mocked(getArtworkFacets);
 
 type ArtworkRow = Database['public']['Tables']['artwork']['Row'];
 
@@ -38,6 +44,11 @@ const mockArtworkItem: ArtworkRow = {
     sku: null,
     inventory_count: 0,
     is_limited_edition: false,
+    edition_size: null,
+    last_edition_number: 0,
+    is_original: false,
+    shipping_class: 'standard',
+    project_id: null,
     medium: null,
     dimensions: null,
     year_created: null,
@@ -57,24 +68,24 @@ describe('Gallery Page', () => {
     });
 
     it('should render gallery page with title', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         expect(screen.getByText('Gallery')).toBeInTheDocument();
     });
 
     it('should display gallery welcome message', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         expect(
@@ -83,12 +94,12 @@ describe('Gallery Page', () => {
     });
 
     it('should render artwork cards when data exists', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [mockArtworkItem],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         expect(screen.getByText('Test Artwork')).toBeInTheDocument();
@@ -98,7 +109,7 @@ describe('Gallery Page', () => {
     });
 
     it('should render multiple artwork cards', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [
                 mockArtworkItem,
                 {
@@ -111,7 +122,7 @@ describe('Gallery Page', () => {
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         expect(screen.getByText('Test Artwork')).toBeInTheDocument();
@@ -119,12 +130,12 @@ describe('Gallery Page', () => {
     });
 
     it('should link artwork cards to detail pages', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [mockArtworkItem],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         const links = screen.getAllByRole('link');
@@ -136,12 +147,12 @@ describe('Gallery Page', () => {
     });
 
     it('should display artwork thumbnail images', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [mockArtworkItem],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         const img = screen.getByAltText('Test') as HTMLImageElement;
@@ -150,7 +161,7 @@ describe('Gallery Page', () => {
     });
 
     it('should display placeholder when artwork has no image', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [
                 {
                     ...mockArtworkItem,
@@ -160,19 +171,19 @@ describe('Gallery Page', () => {
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         expect(screen.getByText('No image')).toBeInTheDocument();
     });
 
     it('should show empty state message when no artwork exists', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         expect(screen.getByText(/Artwork is on its way/i)).toBeInTheDocument();
@@ -183,12 +194,12 @@ describe('Gallery Page', () => {
             code: 'CONNECTION_ERROR',
             message: 'Database connection failed',
         };
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: null,
             error: mockError,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         expect(screen.getByText(/Error loading gallery/i)).toBeInTheDocument();
@@ -198,12 +209,12 @@ describe('Gallery Page', () => {
     });
 
     it('should have white background for gallery page', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         const { container } = render(result);
 
         const mainDiv = container.querySelector('.bg-white');
@@ -211,12 +222,12 @@ describe('Gallery Page', () => {
     });
 
     it('should render responsive grid layout', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [mockArtworkItem],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         const { container } = render(result);
 
         const gridDiv = container.querySelector(
@@ -226,35 +237,35 @@ describe('Gallery Page', () => {
     });
 
     it('should fetch all artwork on page load', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [],
             error: null,
         });
 
-        await GalleryPage();
+        await GalleryPage({ searchParams: Promise.resolve({}) });
 
-        expect(mockGetAllArtwork).toHaveBeenCalled();
+        expect(mockGetFilteredArtwork).toHaveBeenCalled();
     });
 
     it('should revalidate page every hour', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [],
             error: null,
         });
 
-        await GalleryPage();
+        await GalleryPage({ searchParams: Promise.resolve({}) });
 
         // Verify revalidate export is set (via the module-level export)
         expect(true).toBe(true); // This would be verified via Next.js build
     });
 
     it('should clamp description to 2 lines', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [mockArtworkItem],
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         const { container } = render(result);
 
         const description = container.querySelector('.line-clamp-2');
@@ -262,7 +273,7 @@ describe('Gallery Page', () => {
     });
 
     it('should handle artwork with no description', async () => {
-        mockGetAllArtwork.mockResolvedValue({
+        mockGetFilteredArtwork.mockResolvedValue({
             data: [
                 {
                     ...mockArtworkItem,
@@ -272,10 +283,71 @@ describe('Gallery Page', () => {
             error: null,
         });
 
-        const result = await GalleryPage();
+        const result = await GalleryPage({ searchParams: Promise.resolve({}) });
         render(result);
 
         // Page should still render with just the title
         expect(screen.getByText('Test Artwork')).toBeInTheDocument();
     });
+    describe('filters', () => {
+        it('should query artwork with the filters from the URL', async () => {
+            mockGetFilteredArtwork.mockResolvedValue({
+                data: [],
+                error: null,
+            });
+
+            await GalleryPage({
+                searchParams: Promise.resolve({
+                    tag: 'dragons',
+                    sort: 'newest',
+                }),
+            });
+
+            expect(mockGetFilteredArtwork).toHaveBeenCalledWith(
+                expect.objectContaining({ tag: 'dragons', sort: 'newest' })
+            );
+        });
+
+        it('should show the filter controls with the result count', async () => {
+            mockGetFilteredArtwork.mockResolvedValue({
+                data: [mockArtworkItem],
+                error: null,
+            });
+            mockGetArtworkFacets.mockResolvedValueOnce({
+                data: {
+                    tags: ['dragons'],
+                    mediums: [],
+                    years: null,
+                    prices: null,
+                },
+                error: null,
+            });
+
+            const result = await GalleryPage({
+                searchParams: Promise.resolve({}),
+            });
+            render(result);
+
+            expect(
+                screen.getByRole('link', { name: 'dragons' })
+            ).toHaveAttribute('href', '/gallery?tag=dragons');
+            expect(screen.getByText('1 piece')).toBeInTheDocument();
+        });
+
+        it('should explain when nothing matches the filters', async () => {
+            mockGetFilteredArtwork.mockResolvedValue({
+                data: [],
+                error: null,
+            });
+
+            const result = await GalleryPage({
+                searchParams: Promise.resolve({ limited: '1' }),
+            });
+            render(result);
+
+            expect(
+                screen.getByText('No artwork matches these filters.')
+            ).toBeInTheDocument();
+        });
+    });
 });
@@ -81,6 +81,11 @@ const mockArtworkItem: ArtworkRow = {
     sku: null,
     inventory_count: 0,
     is_limited_edition: false,
+    edition_size: null,
+    last_edition_number: 0,
+    is_original: false,
+    shipping_class: 'standard',
+    project_id: null,
     medium: null,
     dimensions: null,
     year_created: null,
@@ -0,0 +1,138 @@
+/**
+ * Tests for Search Page
+ *
+ * The search page is a server component that:
+ * - Reads the query from the `q` param
+ * - Lists ranked results with their type and a highlighted snippet
+ * - Links artwork to its detail page and projects / events to In The Works
+ * - Skips the database for empty or too-short queries
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import SearchPage from '@/app/search/page';
+import type { SearchResult } from '@/lib/db/search';
+
+vi.mock('@/lib/db/search', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/db/search')>()),
+    searchSite: vi.fn(),
+}));
+
+import { searchSite } from '@/lib/db/search';
+
+const mockSearchSite = vi.mocked(searchSite);
+
+const artworkResult: SearchResult = {
+    result_type: 'artwork',
+    id: 'artwork-1',
+    title: 'Blue Dragon',
+    slug: 'blue-dragon',
+    snippet: 'A <mark>dragon</mark> over the hills',
+    image_url: '/images/dragon-thumb.webp',
+    is_published: true,
+    rank: 0.6,
+};
+
+const eventResult: SearchResult = {
+    result_type: 'event',
+    id: 'event-1',
+    title: 'Dragon Con',
+    slug: 'dragon-con',
+    snippet: 'Come see the <mark>dragons</mark>',
+    image_url: null,
+    is_published: true,
+    rank: 0.4,
+};
+
+async function renderPage(q?: string) {
+    const page = await SearchPage({
+        searchParams: Promise.resolve(q === undefined ? {} : { q }),
+    });
+    return render(page);
+}
+
+describe('SearchPage', () => {
+    beforeEach(() => {
+        mockSearchSite.mockReset();
+    });
+
+    it('shows only the form when there is no query', async () => {
+        await renderPage();
+
+        expect(screen.getByRole('search')).toBeInTheDocument();
+        expect(mockSearchSite).not.toHaveBeenCalled();
+    });
+
+    it('does not search for a query below the minimum length', async () => {
+        await renderPage('a');
+
+        expect(mockSearchSite).not.toHaveBeenCalled();
+        expect(
+            screen.getByText(/Enter at least 2 characters/)
+        ).toBeInTheDocument();
+    });
+
+    it('renders ranked results with type labels and links', async () => {
+        mockSearchSite.mockResolvedValue({
+            data: [artworkResult, eventResult],
+            error: null,
+        });
+
+        await renderPage('  dragon ');
+
+        expect(mockSearchSite).toHaveBeenCalledWith('dragon');
+        expect(screen.getByText('2 results for “dragon”')).toBeInTheDocument();
+        expect(screen.getByText('Artwork')).toBeInTheDocument();
+        expect(screen.getByText('Event')).toBeInTheDocument();
+        expect(
+            screen.getByRole('link', { name: /Blue Dragon/ })
+        ).toHaveAttribute('href', '/gallery/blue-dragon');
+        expect(
+            screen.getByRole('link', { name: /Dragon Con/ })
+        ).toHaveAttribute('href', '/in-the-works');
+    });
+
+    it('highlights matched words as text, not HTML', async () => {
+        mockSearchSite.mockResolvedValue({
+            data: [
+                {
+                    ...artworkResult,
+                    snippet: '<mark>dragon</mark> <img src=x onerror=alert(1)>',
+                },
+            ],
+            error: null,
+        });
+
+        const { container } = await renderPage('dragon');
+
+        const mark = container.querySelector('mark');
+        expect(mark).toHaveTextContent('dragon');
+        expect(container.querySelector('img[src="x"]')).toBeNull();
+        expect(
+            screen.getByText(/<img src=x onerror=alert\(1\)>/)
+        ).toBeInTheDocument();
+    });
+
+    it('shows an empty state when nothing matches', async () => {
+        mockSearchSite.mockResolvedValue({ data: [], error: null });
+
+        await renderPage('unicorn');
+
+        expect(
+            screen.getByText('Nothing matches “unicorn”.')
+        ).toBeInTheDocument();
+    });
+
+    it('shows an error message when search fails', async () => {
+        mockSearchSite.mockResolvedValue({
+            data: null,
+            error: { code: 'fetch_error', message: 'Search is unavailable.' },
+        });
+
+        await renderPage('dragon');
+
+        expect(
+            screen.getByText('Error searching: Search is unavailable.')
+        ).toBeInTheDocument();
+    });
+});
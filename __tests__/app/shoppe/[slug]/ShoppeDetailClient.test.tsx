@@ -67,6 +67,11 @@ const mockArtwork: ArtworkRow = {
     sku: 'PROD-001',
     inventory_count: 10,
     is_limited_edition: false,
+    edition_size: null,
+    last_edition_number: 0,
+    is_original: false,
+    shipping_class: 'standard',
+    project_id: null,
     medium: 'Canvas Print',
     dimensions: '16 x 20 inches',
     year_created: 2024,
@@ -646,4 +651,22 @@ describe('ShoppeDetailClient', () => {
             expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
         });
     });
+
+    describe('Back-in-stock sign-up', () => {
+        it('should show the notify-me form when sold out', () => {
+            render(<ShoppeDetailClient artwork={mockArtwork} soldOut />);
+
+            expect(
+                screen.getByLabelText(/notify me when this is back in stock/i)
+            ).toBeInTheDocument();
+        });
+
+        it('should not show the notify-me form by default', () => {
+            render(<ShoppeDetailClient artwork={mockArtwork} />);
+
+            expect(
+                screen.queryByLabelText(/notify me when this is back in stock/i)
+            ).not.toBeInTheDocument();
+        });
+    });
 });
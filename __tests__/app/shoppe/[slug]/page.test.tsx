@@ -24,6 +24,22 @@ vi.mock('@/lib/db/artwork', () => ({
     getAllArtworkSlugs: vi.fn(),
 }));
 
+// Mock the variant query functions (listings without print options)
+vi.mock('@/lib/db/variants', () => ({
+    getVariantsByArtworkId: vi.fn(async () => ({ data: [], error: null })),
+    getVariantsForArtworkIds: vi.fn(async () => ({ data: [], error: null })),
+}));
+
+// Mock the checkout hold query (no open checkouts by default)
+vi.mock('@/lib/db/inventory-holds', () => ({
+    getHeldInventory: vi.fn(async () => ({ data: [], error: null })),
+}));
+
+// Mock the project lookup (for pre-order artwork)
+vi.mock('@/lib/db/projects', () => ({
+    getProjectById: vi.fn(),
+}));
+
 // Mock next/navigation (extends the global mock to add notFound)
 vi.mock('next/navigation', async () => {
     const actual = await vi.importActual('next/navigation');
@@ -65,10 +81,14 @@ vi.mock('@/components/seo/StructuredData', () => {
 });
 
 import { getArtworkBySlug, getAllArtworkSlugs } from '@/lib/db/artwork';
+import { getHeldInventory } from '@/lib/db/inventory-holds';
+import { getProjectById } from '@/lib/db/projects';
 import { Database } from '@/types/database';
 
 const mockGetArtworkBySlug = vi.mocked(getArtworkBySlug);
 const mockGetAllArtworkSlugs = vi.mocked(getAllArtworkSlugs);
+const mockGetHeldInventory = vi.mocked(getHeldInventory);
+const mockGetProjectById = vi.mocked(getProjectById);
 const mockNotFound = vi.mocked(notFound);
 
 type ArtworkRow = Database['public']['Tables']['artwork']['Row'];
@@ -89,6 +109,11 @@ const mockProductDetail: ArtworkRow = {
     sku: 'PRINT-001',
     inventory_count: 10,
     is_limited_edition: false,
+    edition_size: null,
+    last_edition_number: 0,
+    is_original: false,
+    shipping_class: 'standard',
+    project_id: null,
     medium: 'Giclée Print',
     dimensions: '16 x 20 inches',
     year_created: 2024,
@@ -426,6 +451,26 @@ describe('Shoppe Detail Page ([slug])', () => {
             ).toBeInTheDocument();
         });
 
+        it('should subtract stock held by open checkouts', async () => {
+            mockGetArtworkBySlug.mockResolvedValue({
+                data: mockProductDetail, // inventory_count: 10
+                error: null,
+            });
+            mockGetHeldInventory.mockResolvedValueOnce({
+                data: [{ artwork_id: '1', variant_id: null, held_quantity: 8 }],
+                error: null,
+            });
+
+            const result = await ShoppeDetailPage({
+                params: Promise.resolve({ slug: 'mountain-sunset-print' }),
+            });
+            render(result);
+
+            expect(
+                screen.getByText(/Only 2 left in stock/i)
+            ).toBeInTheDocument();
+        });
+
         it('should not display inventory count when stock is sufficient (>= 5)', async () => {
             mockGetArtworkBySlug.mockResolvedValue({
                 data: mockProductDetail, // inventory_count: 10
@@ -456,6 +501,37 @@ describe('Shoppe Detail Page ([slug])', () => {
             expect(screen.getByText(/Out of Stock/i)).toBeInTheDocument();
         });
 
+        it('should offer the back-in-stock sign-up only when sold out', async () => {
+            mockGetArtworkBySlug.mockResolvedValue({
+                data: mockOutOfStockProduct,
+                error: null,
+            });
+
+            const soldOut = await ShoppeDetailPage({
+                params: Promise.resolve({ slug: 'mountain-sunset-print' }),
+            });
+            const { unmount } = render(soldOut);
+
+            expect(
+                screen.getByLabelText(/notify me when this is back in stock/i)
+            ).toBeInTheDocument();
+            unmount();
+
+            mockGetArtworkBySlug.mockResolvedValue({
+                data: mockProductDetail,
+                error: null,
+            });
+
+            const inStock = await ShoppeDetailPage({
+                params: Promise.resolve({ slug: 'mountain-sunset-print' }),
+            });
+            render(inStock);
+
+            expect(
+                screen.queryByLabelText(/notify me when this is back in stock/i)
+            ).not.toBeInTheDocument();
+        });
+
         it('should display SKU when available', async () => {
             mockGetArtworkBySlug.mockResolvedValue({
                 data: mockProductDetail,
@@ -507,6 +583,77 @@ describe('Shoppe Detail Page ([slug])', () => {
         });
     });
 
+    describe('Pre-orders', () => {
+        const mockProject: Database['public']['Tables']['projects']['Row'] = {
+            id: 'project-1',
+            title: 'Sketchbook Vol. 2',
+            slug: 'sketchbook-vol-2',
+            description: 'A second sketchbook collection',
+            status: 'active',
+            progress_percentage: 60,
+            expected_completion_date: '2026-03-01',
+            image_url: null,
+            is_published: true,
+            display_order: 1,
+            created_at: '2025-01-01',
+            updated_at: '2025-01-01',
+        };
+
+        it('should show the pre-order notice with the expected ship date', async () => {
+            mockGetArtworkBySlug.mockResolvedValue({
+                data: { ...mockProductDetail, project_id: 'project-1' },
+                error: null,
+            });
+            mockGetProjectById.mockResolvedValue({
+                data: mockProject,
+                error: null,
+            });
+
+            const result = await ShoppeDetailPage({
+                params: Promise.resolve({ slug: 'mountain-sunset-print' }),
+            });
+            render(result);
+
+            expect(mockGetProjectById).toHaveBeenCalledWith('project-1');
+            expect(screen.getByText('Pre-order')).toBeInTheDocument();
+            expect(
+                screen.getByText(/Expected to ship: March 2026/)
+            ).toBeInTheDocument();
+        });
+
+        it('should sell artwork from a completed project as regular stock', async () => {
+            mockGetArtworkBySlug.mockResolvedValue({
+                data: { ...mockProductDetail, project_id: 'project-1' },
+                error: null,
+            });
+            mockGetProjectById.mockResolvedValue({
+                data: { ...mockProject, status: 'completed' },
+                error: null,
+            });
+
+            const result = await ShoppeDetailPage({
+                params: Promise.resolve({ slug: 'mountain-sunset-print' }),
+            });
+            render(result);
+
+            expect(screen.queryByText('Pre-order')).not.toBeInTheDocument();
+        });
+
+        it('should not look up a project for unlinked artwork', async () => {
+            mockGetArtworkBySlug.mockResolvedValue({
+                data: mockProductDetail,
+                error: null,
+            });
+
+            const result = await ShoppeDetailPage({
+                params: Promise.resolve({ slug: 'mountain-sunset-print' }),
+            });
+            render(result);
+
+            expect(mockGetProjectById).not.toHaveBeenCalled();
+        });
+    });
+
     // Artwork Metadata Tests
     describe('Artwork Metadata Display', () => {
         it('should display medium when available', async () => {
@@ -0,0 +1,131 @@
+/**
+ * Tests for the guest order status lookup form
+ */
+
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import OrderStatusClient from '@/app/shoppe/order-status/OrderStatusClient';
+import type { OrderStatusSummary } from '@/types/order';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const order: OrderStatusSummary = {
+    orderNumber: 'YOA-20250112-0374',
+    status: 'shipped',
+    shipments: [
+        {
+            trackingNumber: '1Z999AA10123456784',
+            carrierName: 'UPS',
+            trackingUrl:
+                'https://www.ups.com/track?tracknum=1Z999AA10123456784',
+        },
+        { trackingNumber: 'TRACK123' },
+    ],
+    isPreorder: false,
+    items: [
+        {
+            id: 'item-1',
+            artworkId: 'artwork-1',
+            quantity: 1,
+            priceAtPurchase: 45,
+            lineSubtotal: 45,
+            title: 'Blue Dragon',
+            variantName: '11x14 Print',
+            editionNumberStart: 12,
+            editionSize: 50,
+        },
+    ],
+    subtotal: 45,
+    shippingCost: 8,
+    taxAmount: 3.6,
+    total: 56.6,
+    createdAt: '2025-01-12T10:00:00Z',
+};
+
+async function submitLookup() {
+    const user = userEvent.setup();
+    render(<OrderStatusClient />);
+
+    await user.type(screen.getByLabelText('Order number'), 'yoa-20250112-0374');
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com');
+    await user.click(screen.getByRole('button', { name: 'Find my order' }));
+}
+
+describe('OrderStatusClient', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('shows the order status, tracking number and items', async () => {
+        mockFetch.mockResolvedValue({
+            ok: true,
+            json: async () => ({ order }),
+        });
+
+        await submitLookup();
+
+        expect(mockFetch).toHaveBeenCalledWith(
+            '/api/orders/lookup',
+            expect.objectContaining({
+                method: 'POST',
+                body: JSON.stringify({
+                    orderNumber: 'YOA-20250112-0374',
+                    email: 'jane@example.com',
+                }),
+            })
+        );
+        expect(
+            await screen.findByRole('heading', { name: 'YOA-20250112-0374' })
+        ).toBeInTheDocument();
+        expect(screen.getByText('Shipped')).toBeInTheDocument();
+        expect(screen.getByText('Tracking numbers:')).toBeInTheDocument();
+        expect(
+            screen.getByRole('link', { name: '1Z999AA10123456784' })
+        ).toHaveAttribute(
+            'href',
+            'https://www.ups.com/track?tracknum=1Z999AA10123456784'
+        );
+        expect(screen.getByText('TRACK123')).toBeInTheDocument();
+        expect(screen.getByText('Blue Dragon')).toBeInTheDocument();
+        expect(screen.getByText('11x14 Print')).toBeInTheDocument();
+        expect(screen.getByText('Edition 12/50')).toBeInTheDocument();
+        expect(screen.getByText('$56.60')).toBeInTheDocument();
+    });
+
+    it('shows a not found message', async () => {
+        mockFetch.mockResolvedValue({ ok: false, status: 404 });
+
+        await submitLookup();
+
+        expect(await screen.findByRole('alert')).toHaveTextContent(
+            "We couldn't find an order with that order number and email"
+        );
+    });
+
+    it('shows a wait message when rate limited', async () => {
+        mockFetch.mockResolvedValue({ ok: false, status: 429 });
+
+        await submitLookup();
+
+        expect(await screen.findByRole('alert')).toHaveTextContent(
+            'Too many lookups'
+        );
+    });
+
+    it('validates the form before looking up', async () => {
+        const user = userEvent.setup();
+        render(<OrderStatusClient />);
+
+        await user.click(screen.getByRole('button', { name: 'Find my order' }));
+
+        expect(
+            screen.getByText('Order number is required')
+        ).toBeInTheDocument();
+        expect(
+            screen.getByText('Please enter a valid email address')
+        ).toBeInTheDocument();
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+});
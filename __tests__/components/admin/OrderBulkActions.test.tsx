@@ -0,0 +1,229 @@
+/**
+ * Tests for OrderBulkActions Component
+ *
+ * The toolbar shown above the orders list when orders are selected:
+ * - Mark processing / shipped (optionally without emailing customers)
+ * - Add tracking numbers from a pasted two-column list
+ * - Send shipping emails
+ * - Print packing slips for the selection
+ * - Per-order success or failure for each action
+ */
+
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import userEvent from '@testing-library/user-event';
+import OrderBulkActions from '@/components/admin/OrderBulkActions';
+import {
+    bulkAddTrackingAction,
+    bulkSendShippingEmailAction,
+    bulkUpdateStatusAction,
+} from '@/app/admin/orders/actions';
+import type { OrderWithShipments } from '@/lib/db/admin/orders';
+
+vi.mock('@/app/admin/orders/actions', () => ({
+    bulkAddTrackingAction: vi.fn(),
+    bulkSendShippingEmailAction: vi.fn(),
+    bulkUpdateStatusAction: vi.fn(),
+}));
+
+// Mock window.confirm
+const mockConfirm = vi.fn();
+
+const orders = [
+    { id: 'order-1', order_number: 'YOA-20250101-0001' },
+    { id: 'order-2', order_number: 'YOA-20250101-0002' },
+] as OrderWithShipments[];
+
+describe('OrderBulkActions Component', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockConfirm.mockReturnValue(true);
+        global.confirm = mockConfirm;
+    });
+
+    it('should count the selected orders', () => {
+        render(<OrderBulkActions orders={orders} onComplete={vi.fn()} />);
+
+        expect(screen.getByText('2 selected')).toBeInTheDocument();
+    });
+
+    it('should link to packing slips for the selected orders', () => {
+        render(<OrderBulkActions orders={orders} onComplete={vi.fn()} />);
+
+        expect(
+            screen.getByRole('link', { name: 'Print packing slips' })
+        ).toHaveAttribute(
+            'href',
+            '/admin/orders/batch/packing-slip?ids=order-1,order-2'
+        );
+    });
+
+    describe('Status Changes', () => {
+        it('should mark the orders shipped and report each one', async () => {
+            const user = userEvent.setup();
+            const onComplete = vi.fn();
+            vi.mocked(bulkUpdateStatusAction).mockResolvedValue([
+                {
+                    orderId: 'order-1',
+                    success: true,
+                    message: 'Marked shipped and the customer emailed',
+                },
+                {
+                    orderId: 'order-2',
+                    success: false,
+                    message: "Orders can't move from pending to shipped",
+                },
+            ]);
+
+            render(
+                <OrderBulkActions orders={orders} onComplete={onComplete} />
+            );
+            await user.click(
+                screen.getByRole('button', { name: 'Mark Shipped' })
+            );
+
+            expect(mockConfirm).toHaveBeenCalledWith(
+                'Mark 2 order(s) as shipped and email their customers?'
+            );
+            expect(bulkUpdateStatusAction).toHaveBeenCalledWith(
+                ['order-1', 'order-2'],
+                'shipped',
+                true
+            );
+            const status = await screen.findByRole('status');
+            expect(status).toHaveTextContent('1 succeeded, 1 failed');
+            expect(status).toHaveTextContent(
+                'YOA-20250101-0001: Marked shipped and the customer emailed'
+            );
+            expect(status).toHaveTextContent(
+                "YOA-20250101-0002: Orders can't move from pending to shipped"
+            );
+            expect(onComplete).toHaveBeenCalled();
+        });
+
+        it('should mark orders shipped without emailing when unticked', async () => {
+            const user = userEvent.setup();
+            vi.mocked(bulkUpdateStatusAction).mockResolvedValue([]);
+
+            render(<OrderBulkActions orders={orders} onComplete={vi.fn()} />);
+            await user.click(
+                screen.getByLabelText(
+                    'Email customers when marking orders shipped'
+                )
+            );
+            await user.click(
+                screen.getByRole('button', { name: 'Mark Shipped' })
+            );
+
+            expect(bulkUpdateStatusAction).toHaveBeenCalledWith(
+                ['order-1', 'order-2'],
+                'shipped',
+                false
+            );
+        });
+
+        it('should do nothing when the confirmation is cancelled', async () => {
+            const user = userEvent.setup();
+            mockConfirm.mockReturnValue(false);
+
+            render(<OrderBulkActions orders={orders} onComplete={vi.fn()} />);
+            await user.click(
+                screen.getByRole('button', { name: 'Mark Processing' })
+            );
+
+            expect(bulkUpdateStatusAction).not.toHaveBeenCalled();
+        });
+
+        it('should show an error when the action fails outright', async () => {
+            const user = userEvent.setup();
+            vi.mocked(bulkUpdateStatusAction).mockRejectedValue(
+                new Error('Network error')
+            );
+
+            render(<OrderBulkActions orders={orders} onComplete={vi.fn()} />);
+            await user.click(
+                screen.getByRole('button', { name: 'Mark Processing' })
+            );
+
+            expect(
+                await screen.findByText('Network error')
+            ).toBeInTheDocument();
+        });
+    });
+
+    describe('Tracking Numbers', () => {
+        it('should add pasted tracking numbers to the matching selected orders', async () => {
+            const user = userEvent.setup();
+            vi.mocked(bulkAddTrackingAction).mockResolvedValue([
+                {
+                    orderId: 'order-2',
+                    success: true,
+                    message: 'Added 1Z999AA10123456784 (UPS)',
+                },
+            ]);
+
+            render(<OrderBulkActions orders={orders} onComplete={vi.fn()} />);
+            await user.click(
+                screen.getByRole('button', { name: 'Add Tracking Numbers' })
+            );
+            await user.type(
+                screen.getByLabelText('Tracking Numbers'),
+                'yoa-20250101-0002, 1Z999AA10123456784{enter}YOA-20250101-0009, 9400100000000000000000{enter}YOA-20250101-0001'
+            );
+            await user.click(
+                screen.getByRole('button', { name: 'Add Tracking' })
+            );
+
+            expect(bulkAddTrackingAction).toHaveBeenCalledWith([
+                {
+                    orderId: 'order-2',
+                    trackingNumber: '1Z999AA10123456784',
+                },
+            ]);
+            const status = await screen.findByRole('status');
+            expect(status).toHaveTextContent('1 succeeded, 2 failed');
+            expect(status).toHaveTextContent(
+                'YOA-20250101-0002: Added 1Z999AA10123456784 (UPS)'
+            );
+            expect(status).toHaveTextContent(
+                'YOA-20250101-0009: 9400100000000000000000: not one of the selected orders'
+            );
+            expect(status).toHaveTextContent(
+                'YOA-20250101-0001: Expected an order number and a tracking number'
+            );
+            expect(screen.getByLabelText('Tracking Numbers')).toHaveValue('');
+        });
+    });
+
+    describe('Shipping Emails', () => {
+        it('should send shipping emails and report each order', async () => {
+            const user = userEvent.setup();
+            vi.mocked(bulkSendShippingEmailAction).mockResolvedValue([
+                {
+                    orderId: 'order-1',
+                    success: true,
+                    message: 'Shipping email sent',
+                },
+                {
+                    orderId: 'order-2',
+                    success: false,
+                    message: "Order hasn't shipped yet",
+                },
+            ]);
+
+            render(<OrderBulkActions orders={orders} onComplete={vi.fn()} />);
+            await user.click(
+                screen.getByRole('button', { name: 'Send Shipping Emails' })
+            );
+
+            expect(bulkSendShippingEmailAction).toHaveBeenCalledWith([
+                'order-1',
+                'order-2',
+            ]);
+            const status = await screen.findByRole('status');
+            expect(status).toHaveTextContent(
+                "YOA-20250101-0002: Order hasn't shipped yet"
+            );
+        });
+    });
+});
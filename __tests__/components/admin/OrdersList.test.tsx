@@ -2,9 +2,11 @@
  * Tests for OrdersList Component
  *
  * The OrdersList component displays orders in a table format with:
- * - Order number, customer name, date, total, and status
+ * - Order number, customer name, date, total, status and tracking numbers
  * - Color-coded status badges
  * - View Details button for each order
+ * - Sortable column headers
+ * - Order selection for bulk actions
  * - Pagination controls when there are multiple pages
  * - Empty state when no orders exist
  */
@@ -13,10 +15,28 @@ import { render, screen } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import userEvent from '@testing-library/user-event';
 import OrdersList from '@/components/admin/OrdersList';
-import type { OrderRow } from '@/lib/db/admin/orders';
+import type { OrderWithShipments } from '@/lib/db/admin/orders';
+
+// Mock the bulk actions toolbar (tested on its own)
+vi.mock('@/components/admin/OrderBulkActions', () => ({
+    default: ({
+        orders,
+        onComplete,
+    }: {
+        orders: OrderWithShipments[];
+        onComplete: () => void;
+    }) => (
+        <div data-testid="bulk-actions">
+            <div>
+                Selected: {orders.map((order) => order.order_number).join(', ')}
+            </div>
+            <button onClick={onComplete}>Finish Bulk Action</button>
+        </div>
+    ),
+}));
 
 // Sample orders data for testing
-const mockOrders: OrderRow[] = [
+const mockOrders: OrderWithShipments[] = [
     {
         id: '1',
         order_number: 'ORD-001',
@@ -39,13 +59,21 @@ const mockOrders: OrderRow[] = [
         shipping_cost: '10.00',
         tax_amount: '8.00',
         total: '118.00',
+        coupon_id: null,
+        coupon_code: null,
+        discount_amount: '0.00',
+        gift_card_amount: '0.00',
+        is_preorder: false,
+        expected_ship_date: null,
         status: 'pending',
         payment_intent_id: null,
         payment_status: 'pending',
-        shipping_tracking_number: null,
+        shipped_email_sent_at: null,
+        delivered_email_sent_at: null,
         admin_notes: null,
         created_at: '2024-01-01T10:00:00Z',
         updated_at: '2024-01-01T10:00:00Z',
+        order_shipments: [],
     },
     {
         id: '2',
@@ -69,13 +97,36 @@ const mockOrders: OrderRow[] = [
         shipping_cost: '15.00',
         tax_amount: '20.00',
         total: '285.00',
+        coupon_id: null,
+        coupon_code: null,
+        discount_amount: '0.00',
+        gift_card_amount: '0.00',
+        is_preorder: false,
+        expected_ship_date: null,
         status: 'shipped',
         payment_intent_id: 'pi_test123',
         payment_status: 'succeeded',
-        shipping_tracking_number: 'TRACK123',
+        shipped_email_sent_at: null,
+        delivered_email_sent_at: null,
         admin_notes: 'Priority order',
         created_at: '2024-01-02T14:30:00Z',
         updated_at: '2024-01-02T15:00:00Z',
+        order_shipments: [
+            {
+                id: 'ship-1',
+                order_id: '2',
+                tracking_number: '1Z999AA10123456784',
+                carrier: 'ups',
+                created_at: '2024-01-02T15:00:00Z',
+            },
+            {
+                id: 'ship-2',
+                order_id: '2',
+                tracking_number: 'TRACK123',
+                carrier: null,
+                created_at: '2024-01-02T15:00:00Z',
+            },
+        ],
     },
 ];
 
@@ -113,9 +164,32 @@ describe('OrdersList Component', () => {
             expect(screen.getByText('Date')).toBeInTheDocument();
             expect(screen.getByText('Total')).toBeInTheDocument();
             expect(screen.getByText('Status')).toBeInTheDocument();
+            expect(screen.getByText('Tracking')).toBeInTheDocument();
             expect(screen.getByText('Actions')).toBeInTheDocument();
         });
 
+        it('should link tracking numbers to the carrier when it is known', () => {
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={1}
+                    totalPages={1}
+                    onPageChange={vi.fn()}
+                />
+            );
+
+            expect(
+                screen.getByRole('link', { name: '1Z999AA10123456784' })
+            ).toHaveAttribute(
+                'href',
+                'https://www.ups.com/track?tracknum=1Z999AA10123456784'
+            );
+            expect(
+                screen.queryByRole('link', { name: 'TRACK123' })
+            ).not.toBeInTheDocument();
+            expect(screen.getByText('TRACK123')).toBeInTheDocument();
+        });
+
         it('should display order data for all orders', () => {
             render(
                 <OrdersList
@@ -196,7 +270,7 @@ describe('OrdersList Component', () => {
         });
 
         it('should handle all status types with correct colors', () => {
-            const statusOrders: OrderRow[] = [
+            const statusOrders: OrderWithShipments[] = [
                 { ...mockOrders[0], id: '1', status: 'pending' },
                 { ...mockOrders[0], id: '2', status: 'paid' },
                 { ...mockOrders[0], id: '3', status: 'processing' },
@@ -270,6 +344,26 @@ describe('OrdersList Component', () => {
         });
     });
 
+    describe('Batch Documents', () => {
+        it('should link to packing slips and invoices for orders to fulfill', () => {
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={1}
+                    totalPages={1}
+                    onPageChange={vi.fn()}
+                />
+            );
+
+            expect(
+                screen.getByRole('link', { name: 'Print packing slips' })
+            ).toHaveAttribute('href', '/admin/orders/batch/packing-slip');
+            expect(
+                screen.getByRole('link', { name: 'Print invoices' })
+            ).toHaveAttribute('href', '/admin/orders/batch/invoice');
+        });
+    });
+
     describe('Pagination', () => {
         it('should show pagination when totalPages > 1', () => {
             render(
@@ -375,6 +469,202 @@ describe('OrdersList Component', () => {
         });
     });
 
+    describe('Sorting', () => {
+        it('should not make headers sortable without onSortChange', () => {
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={1}
+                    totalPages={1}
+                    onPageChange={vi.fn()}
+                />
+            );
+
+            expect(
+                screen.queryByRole('button', { name: /order number/i })
+            ).not.toBeInTheDocument();
+        });
+
+        it('should call onSortChange with the clicked column', async () => {
+            const user = userEvent.setup();
+            const onSortChange = vi.fn();
+
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={1}
+                    totalPages={1}
+                    onPageChange={vi.fn()}
+                    sort={{ column: 'created_at', ascending: false }}
+                    onSortChange={onSortChange}
+                />
+            );
+
+            await user.click(screen.getByRole('button', { name: /total/i }));
+
+            expect(onSortChange).toHaveBeenCalledWith('total');
+        });
+
+        it('should mark the sorted column and its direction', () => {
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={1}
+                    totalPages={1}
+                    onPageChange={vi.fn()}
+                    sort={{ column: 'customer_name', ascending: true }}
+                    onSortChange={vi.fn()}
+                />
+            );
+
+            expect(
+                screen.getByRole('columnheader', { name: /customer/i })
+            ).toHaveAttribute('aria-sort', 'ascending');
+            expect(
+                screen.getByRole('columnheader', { name: /date/i })
+            ).not.toHaveAttribute('aria-sort');
+        });
+    });
+
+    describe('Page Controls', () => {
+        it('should show which orders of the total are on the page', () => {
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={3}
+                    totalPages={3}
+                    onPageChange={vi.fn()}
+                    totalCount={45}
+                    pageSize={20}
+                />
+            );
+
+            expect(
+                screen.getByText(/Showing 41.+45 of 45 orders/)
+            ).toBeInTheDocument();
+        });
+
+        it('should jump to the first and last pages', async () => {
+            const user = userEvent.setup();
+            const onPageChange = vi.fn();
+
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={2}
+                    totalPages={5}
+                    onPageChange={onPageChange}
+                />
+            );
+
+            await user.click(screen.getByRole('button', { name: 'First' }));
+            await user.click(screen.getByRole('button', { name: 'Last' }));
+
+            expect(onPageChange).toHaveBeenNthCalledWith(1, 1);
+            expect(onPageChange).toHaveBeenNthCalledWith(2, 5);
+        });
+    });
+
+    describe('Bulk Selection', () => {
+        it('should not offer selection without a bulk action handler', () => {
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={1}
+                    totalPages={1}
+                    onPageChange={vi.fn()}
+                />
+            );
+
+            expect(screen.queryByRole('checkbox')).not.toBeInTheDocument();
+        });
+
+        it('should show bulk actions for the selected orders', async () => {
+            const user = userEvent.setup();
+            const onBulkActionComplete = vi.fn();
+
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={1}
+                    totalPages={1}
+                    onPageChange={vi.fn()}
+                    onBulkActionComplete={onBulkActionComplete}
+                />
+            );
+
+            expect(
+                screen.queryByTestId('bulk-actions')
+            ).not.toBeInTheDocument();
+
+            await user.click(
+                screen.getByRole('checkbox', { name: 'Select order ORD-002' })
+            );
+
+            expect(screen.getByText('Selected: ORD-002')).toBeInTheDocument();
+
+            await user.click(
+                screen.getByRole('button', { name: 'Finish Bulk Action' })
+            );
+            expect(onBulkActionComplete).toHaveBeenCalled();
+        });
+
+        it('should select and clear every order on the page', async () => {
+            const user = userEvent.setup();
+
+            render(
+                <OrdersList
+                    orders={mockOrders}
+                    currentPage={1}
+                    totalPages={1}
+                    onPageChange={vi.fn()}
+                    onBulkActionComplete={vi.fn()}
+                />
+            );
+
+            const selectAll = screen.getByRole('checkbox', {
+                name: 'Select all orders on this page',
+            });
+            await user.click(selectAll);
+
+            expect(
+                screen.getByText(
+                    `Selected: ${mockOrders.map((o) => o.order_number).join(', ')}`
+                )
+            ).toBeInTheDocument();
+            expect(selectAll).toBeChecked();
+
+            await user.click(selectAll);
+
+            expect(
+                screen.queryByTestId('bulk-actions')
+            ).not.toBeInTheDocument();
+        });
+
+        it('should only count selected orders still on the page', async () => {
+            const user = userEvent.setup();
+            const props = {
+                currentPage: 1,
+                totalPages: 2,
+                onPageChange: vi.fn(),
+                onBulkActionComplete: vi.fn(),
+            };
+
+            const { rerender } = render(
+                <OrdersList orders={mockOrders} {...props} />
+            );
+            await user.click(
+                screen.getByRole('checkbox', { name: 'Select order ORD-001' })
+            );
+
+            rerender(<OrdersList orders={mockOrders.slice(1)} {...props} />);
+
+            expect(
+                screen.queryByTestId('bulk-actions')
+            ).not.toBeInTheDocument();
+        });
+    });
+
     describe('Date Formatting', () => {
         it('should format dates correctly', () => {
             render(
@@ -245,6 +245,58 @@ describe('ArtworkForm', () => {
         });
     });
 
+    it('links the artwork to a pre-order project', async () => {
+        const user = userEvent.setup();
+        const mockSubmit = vi.fn();
+        const projectId = '123e4567-e89b-12d3-a456-426614174077';
+        render(
+            <ArtworkForm
+                projectOptions={[
+                    {
+                        id: projectId,
+                        title: 'Sketchbook Vol. 2',
+                        status: 'active',
+                    },
+                ]}
+                onSubmit={mockSubmit}
+            />
+        );
+
+        await user.type(screen.getByLabelText(/^title$/i), 'Test Art');
+        await user.type(screen.getByLabelText(/^slug$/i), 'test-art');
+        await user.type(screen.getByLabelText(/^price$/i), '100');
+        await user.selectOptions(
+            screen.getByLabelText(/project/i),
+            'Sketchbook Vol. 2 (active)'
+        );
+
+        fireEvent.click(screen.getByRole('button', { name: /save/i }));
+
+        await waitFor(() => {
+            expect(mockSubmit).toHaveBeenCalledWith(
+                expect.objectContaining({ project_id: projectId })
+            );
+        });
+    });
+
+    it('submits no project when none is selected', async () => {
+        const user = userEvent.setup();
+        const mockSubmit = vi.fn();
+        render(<ArtworkForm onSubmit={mockSubmit} />);
+
+        await user.type(screen.getByLabelText(/^title$/i), 'Test Art');
+        await user.type(screen.getByLabelText(/^slug$/i), 'test-art');
+        await user.type(screen.getByLabelText(/^price$/i), '100');
+
+        fireEvent.click(screen.getByRole('button', { name: /save/i }));
+
+        await waitFor(() => {
+            expect(mockSubmit).toHaveBeenCalledWith(
+                expect.objectContaining({ project_id: null })
+            );
+        });
+    });
+
     it('renders Cancel button', () => {
         render(<ArtworkForm />);
         expect(
@@ -43,6 +43,11 @@ const mockArtwork: ArtworkRow[] = [
         sku: 'ART-001',
         inventory_count: 1,
         is_limited_edition: false,
+        edition_size: null,
+        last_edition_number: 0,
+        is_original: false,
+        shipping_class: 'standard',
+        project_id: null,
         medium: 'Oil on Canvas',
         dimensions: '10x10',
         year_created: 2023,
@@ -69,6 +74,11 @@ const mockArtwork: ArtworkRow[] = [
         sku: 'ART-002',
         inventory_count: 0,
         is_limited_edition: true,
+        edition_size: null,
+        last_edition_number: 0,
+        is_original: false,
+        shipping_class: 'standard',
+        project_id: null,
         medium: 'Acrylic',
         dimensions: '20x20',
         year_created: 2023,
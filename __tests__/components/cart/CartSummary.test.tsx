@@ -1,5 +1,6 @@
-import { render, screen } from '@testing-library/react';
-import { describe, it, expect } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
 import { CartSummary } from '@/components/cart/CartSummary';
 import { CartProvider } from '@/context/CartContext';
 import { ToastProvider } from '@/context/ToastContext';
@@ -122,4 +123,310 @@ describe('CartSummary', () => {
             );
         });
     });
+
+    describe('Coupons', () => {
+        beforeEach(() => {
+            localStorage.setItem(
+                'cart',
+                JSON.stringify({
+                    items: [
+                        {
+                            artworkId: 'art-1',
+                            title: 'Art 1',
+                            price: 50,
+                            quantity: 2,
+                            slug: 'art-1',
+                        },
+                    ],
+                    lastUpdated: Date.now(),
+                })
+            );
+        });
+
+        afterEach(() => {
+            localStorage.clear();
+            vi.mocked(global.fetch).mockReset();
+        });
+
+        it('applies a valid coupon and subtracts the discount', async () => {
+            const user = userEvent.setup();
+            vi.mocked(global.fetch).mockResolvedValue({
+                json: () =>
+                    Promise.resolve({
+                        cart: {
+                            coupon: {
+                                id: 'coupon-1',
+                                code: 'SPRING10',
+                                discountAmount: 10,
+                            },
+                        },
+                    }),
+            } as Response);
+
+            renderWithCart(<CartSummary />);
+
+            await user.type(screen.getByLabelText('Coupon code'), 'spring10');
+            await user.click(screen.getByRole('button', { name: 'Apply' }));
+
+            await waitFor(() => {
+                expect(screen.getByTestId('cart-discount')).toHaveTextContent(
+                    '-$10.00'
+                );
+            });
+            expect(global.fetch).toHaveBeenCalledWith(
+                '/api/checkout/validate',
+                expect.objectContaining({
+                    body: expect.stringContaining('"couponCode":"SPRING10"'),
+                })
+            );
+            expect(screen.getByTestId('cart-total')).toHaveTextContent(
+                '$' +
+                    (100 - 10 + siteConfig.shipping.flat_rate / 100).toFixed(2)
+            );
+        });
+
+        it('shows the reason when a coupon is rejected', async () => {
+            const user = userEvent.setup();
+            vi.mocked(global.fetch).mockResolvedValue({
+                json: () =>
+                    Promise.resolve({
+                        error: 'Cart validation failed',
+                        cart: { couponError: 'This coupon has expired' },
+                    }),
+            } as Response);
+
+            renderWithCart(<CartSummary />);
+
+            await user.type(screen.getByLabelText('Coupon code'), 'OLD');
+            await user.click(screen.getByRole('button', { name: 'Apply' }));
+
+            expect(await screen.findByTestId('coupon-error')).toHaveTextContent(
+                'This coupon has expired'
+            );
+            expect(
+                screen.queryByTestId('cart-discount')
+            ).not.toBeInTheDocument();
+            // Rejected coupons are removed so the form is available again
+            expect(screen.getByLabelText('Coupon code')).toBeInTheDocument();
+        });
+    });
+
+    describe('Gift cards', () => {
+        beforeEach(() => {
+            localStorage.setItem(
+                'cart',
+                JSON.stringify({
+                    items: [
+                        {
+                            artworkId: 'art-1',
+                            title: 'Art 1',
+                            price: 50,
+                            quantity: 2,
+                            slug: 'art-1',
+                        },
+                    ],
+                    lastUpdated: Date.now(),
+                })
+            );
+        });
+
+        afterEach(() => {
+            localStorage.clear();
+            vi.mocked(global.fetch).mockReset();
+        });
+
+        it('redeems a gift card and subtracts it from the total', async () => {
+            const user = userEvent.setup();
+            vi.mocked(global.fetch).mockResolvedValue({
+                json: () =>
+                    Promise.resolve({
+                        cart: {
+                            giftCards: [
+                                {
+                                    id: 'card-1',
+                                    code: 'GIFT-AAAA-BBBB-CCCC',
+                                    availableBalance: 25,
+                                    redeemedAmount: 25,
+                                },
+                            ],
+                            giftCardAmount: 25,
+                        },
+                    }),
+            } as Response);
+
+            renderWithCart(<CartSummary />);
+
+            await user.type(
+                screen.getByLabelText('Gift card code'),
+                'gift-aaaa-bbbb-cccc'
+            );
+            await user.click(screen.getByRole('button', { name: 'Redeem' }));
+
+            await waitFor(() => {
+                expect(screen.getByTestId('cart-gift-card')).toHaveTextContent(
+                    '-$25.00'
+                );
+            });
+            expect(global.fetch).toHaveBeenCalledWith(
+                '/api/checkout/validate',
+                expect.objectContaining({
+                    body: expect.stringContaining(
+                        '"giftCardCodes":["GIFT-AAAA-BBBB-CCCC"]'
+                    ),
+                })
+            );
+            // Gift cards pay for the order, so free shipping still applies
+            expect(screen.getByTestId('cart-total')).toHaveTextContent(
+                '$75.00'
+            );
+        });
+
+        it('shows the reason when a gift card is rejected', async () => {
+            const user = userEvent.setup();
+            vi.mocked(global.fetch).mockResolvedValue({
+                json: () =>
+                    Promise.resolve({
+                        error: 'Cart validation failed',
+                        cart: {
+                            giftCardError: 'This gift card has no balance left',
+                        },
+                    }),
+            } as Response);
+
+            renderWithCart(<CartSummary />);
+
+            await user.type(
+                screen.getByLabelText('Gift card code'),
+                'GIFT-AAAA-BBBB-CCCC'
+            );
+            await user.click(screen.getByRole('button', { name: 'Redeem' }));
+
+            expect(
+                await screen.findByTestId('gift-card-error')
+            ).toHaveTextContent('This gift card has no balance left');
+            expect(
+                screen.queryByTestId('cart-gift-card')
+            ).not.toBeInTheDocument();
+        });
+    });
+
+    describe('Shipping', () => {
+        beforeEach(() => {
+            localStorage.setItem(
+                'cart',
+                JSON.stringify({
+                    items: [
+                        {
+                            artworkId: 'art-1',
+                            title: 'Art 1',
+                            price: 30,
+                            quantity: 1,
+                            slug: 'art-1',
+                        },
+                    ],
+                    lastUpdated: Date.now(),
+                })
+            );
+        });
+
+        afterEach(() => {
+            localStorage.clear();
+            vi.mocked(global.fetch).mockReset();
+        });
+
+        it('shows how much more is needed for free shipping', () => {
+            renderWithCart(<CartSummary />);
+
+            const remaining =
+                siteConfig.shipping.free_shipping_minimum / 100 - 30;
+            expect(screen.getByTestId('shipping-hints')).toHaveTextContent(
+                `Add $${remaining.toFixed(2)} more for free standard shipping`
+            );
+        });
+
+        it('uses the shipping options priced by the server', async () => {
+            vi.mocked(global.fetch).mockResolvedValue({
+                json: () =>
+                    Promise.resolve({
+                        cart: {
+                            shippingOptions: [
+                                {
+                                    id: 'standard',
+                                    displayName: 'Standard Shipping',
+                                    amount: 15,
+                                    deliveryEstimate: {
+                                        minimum: 5,
+                                        maximum: 8,
+                                    },
+                                },
+                                {
+                                    id: 'express',
+                                    displayName: 'Express Shipping',
+                                    amount: 40,
+                                    deliveryEstimate: {
+                                        minimum: 2,
+                                        maximum: 3,
+                                    },
+                                },
+                            ],
+                        },
+                    }),
+            } as Response);
+
+            renderWithCart(<CartSummary />);
+
+            await waitFor(() => {
+                expect(screen.getByTestId('cart-shipping')).toHaveTextContent(
+                    '$15.00'
+                );
+            });
+            expect(screen.getByTestId('shipping-hints')).toHaveTextContent(
+                'Express shipping ($40.00) available at checkout'
+            );
+            expect(screen.getByTestId('cart-total')).toHaveTextContent(
+                '$45.00'
+            );
+        });
+
+        it('re-prices the cart for the selected destination', async () => {
+            const user = userEvent.setup();
+            vi.mocked(global.fetch).mockImplementation((input, init) => {
+                if (input === '/api/shipping/countries') {
+                    return Promise.resolve({
+                        json: () =>
+                            Promise.resolve({ countries: ['CA', 'US'] }),
+                    } as Response);
+                }
+
+                const { shippingCountry } = JSON.parse(String(init?.body));
+                return Promise.resolve({
+                    json: () =>
+                        Promise.resolve({
+                            cart:
+                                shippingCountry === 'CA'
+                                    ? {
+                                          shippingOptions: [],
+                                          shippingError:
+                                              "We don't ship to Canada yet",
+                                      }
+                                    : { shippingOptions: [] },
+                        }),
+                } as Response);
+            });
+
+            renderWithCart(<CartSummary />);
+
+            await screen.findByRole('option', { name: 'Canada' });
+            await user.selectOptions(screen.getByLabelText('Ship to'), 'CA');
+
+            await waitFor(() => {
+                expect(screen.getByTestId('shipping-error')).toHaveTextContent(
+                    "We don't ship to Canada yet"
+                );
+            });
+            expect(screen.getByTestId('cart-shipping')).toHaveTextContent(
+                'Unavailable'
+            );
+        });
+    });
 });
@@ -75,6 +75,13 @@ describe('Footer Component', () => {
         expect(homeLink).toHaveAttribute('href', '/');
     });
 
+    it('should link to the customer account', () => {
+        render(<Footer />);
+        expect(
+            screen.getByRole('link', { name: 'My Account' })
+        ).toHaveAttribute('href', '/account');
+    });
+
     it('should display social links section', () => {
         render(<Footer />);
         expect(screen.getByText('Follow Us')).toBeInTheDocument();
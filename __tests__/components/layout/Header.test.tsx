@@ -52,4 +52,15 @@ describe('Header Component', () => {
         );
         expect(flexContainer).toBeInTheDocument();
     });
+
+    it('should have a search form that submits to the search page', () => {
+        render(<Header />);
+        const form = screen.getByRole('search');
+        expect(form).toHaveAttribute('action', '/search');
+        expect(form).toHaveAttribute('method', 'get');
+        expect(screen.getByRole('searchbox')).toHaveAttribute('name', 'q');
+        expect(
+            screen.getByRole('button', { name: 'Search' })
+        ).toBeInTheDocument();
+    });
 });
@@ -66,6 +66,14 @@ describe('AddToCartButton', () => {
         expect(button).not.toBeDisabled();
     });
 
+    it('labels the button Pre-order for pre-order artwork', () => {
+        renderWithProviders(<AddToCartButton {...defaultProps} isPreorder />);
+
+        expect(
+            screen.getByRole('button', { name: 'Pre-order' })
+        ).toBeInTheDocument();
+    });
+
     it('shows quantity options up to maxQuantity or 10, whichever is lower', () => {
         renderWithProviders(
             <AddToCartButton {...defaultProps} maxQuantity={5} />
@@ -191,4 +199,74 @@ describe('AddToCartButton', () => {
         const button = screen.getByRole('button', { name: /add to cart/i });
         expect(button).toHaveAttribute('type', 'button');
     });
+
+    describe('with variants', () => {
+        const variants = [
+            {
+                id: 'variant-small',
+                name: '8x10 Print',
+                price: '25.00',
+                inventoryCount: 0,
+            },
+            {
+                id: 'variant-framed',
+                name: '11x14 Framed',
+                price: '85.00',
+                inventoryCount: 3,
+            },
+            {
+                id: 'variant-large',
+                name: '16x20 Print',
+                price: '45.00',
+                inventoryCount: 8,
+            },
+        ];
+
+        it('preselects the first in-stock option and caps quantity by its stock', () => {
+            renderWithProviders(
+                <AddToCartButton {...defaultProps} variants={variants} />
+            );
+
+            expect(screen.getByLabelText(/option/i)).toHaveValue(
+                'variant-framed'
+            );
+            expect(
+                screen.getByRole('option', { name: /8x10 Print.*sold out/i })
+            ).toBeDisabled();
+            expect(
+                screen.getByLabelText(/quantity/i).querySelectorAll('option')
+            ).toHaveLength(3);
+        });
+
+        it('adds the selected option with its own price', async () => {
+            const user = userEvent.setup();
+            renderWithProviders(
+                <AddToCartButton {...defaultProps} variants={variants} />
+            );
+
+            await user.selectOptions(
+                screen.getByLabelText(/option/i),
+                'variant-large'
+            );
+            await user.click(
+                screen.getByRole('button', { name: /add to cart/i })
+            );
+
+            expect(mockAddItem).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    artworkId: 'artwork-123',
+                    price: 45.0,
+                    maxQuantity: 8,
+                    variantId: 'variant-large',
+                    variantName: '16x20 Print',
+                })
+            );
+        });
+
+        it('does not render an option selector without variants', () => {
+            renderWithProviders(<AddToCartButton {...defaultProps} />);
+
+            expect(screen.queryByLabelText(/option/i)).not.toBeInTheDocument();
+        });
+    });
 });
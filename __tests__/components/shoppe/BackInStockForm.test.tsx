@@ -0,0 +1,79 @@
+/**
+ * BackInStockForm Component Tests
+ *
+ * Tests for the "notify me" waitlist sign-up shown on sold-out products.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BackInStockForm } from '@/components/shoppe/BackInStockForm';
+
+const mockFetch = vi.mocked(global.fetch);
+
+describe('BackInStockForm', () => {
+    beforeEach(() => {
+        mockFetch.mockClear();
+    });
+
+    it('should submit the email for the artwork', async () => {
+        const user = userEvent.setup();
+        mockFetch.mockResolvedValueOnce({ ok: true } as Response);
+
+        render(<BackInStockForm artworkId="artwork-1" />);
+
+        await user.type(
+            screen.getByLabelText(/notify me when this is back in stock/i),
+            'fan@example.com'
+        );
+        await user.click(screen.getByRole('button', { name: /notify me/i }));
+
+        expect(mockFetch).toHaveBeenCalledWith('/api/waitlist', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                artworkId: 'artwork-1',
+                email: 'fan@example.com',
+            }),
+        });
+        expect(
+            await screen.findByText(/we'll email you when this item is back/i)
+        ).toBeInTheDocument();
+    });
+
+    it('should validate the email before submitting', async () => {
+        const user = userEvent.setup();
+
+        render(<BackInStockForm artworkId="artwork-1" />);
+
+        await user.type(
+            screen.getByLabelText(/notify me when this is back in stock/i),
+            'not-an-email'
+        );
+        await user.click(screen.getByRole('button', { name: /notify me/i }));
+
+        expect(
+            screen.getByText('Please enter a valid email address')
+        ).toBeInTheDocument();
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should show an error when the sign-up fails', async () => {
+        const user = userEvent.setup();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        render(<BackInStockForm artworkId="artwork-1" />);
+
+        await user.type(
+            screen.getByLabelText(/notify me when this is back in stock/i),
+            'fan@example.com'
+        );
+        await user.click(screen.getByRole('button', { name: /notify me/i }));
+
+        await waitFor(() => {
+            expect(
+                screen.getByText(/couldn't save your email/i)
+            ).toBeInTheDocument();
+        });
+    });
+});
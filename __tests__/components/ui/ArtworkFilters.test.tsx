@@ -0,0 +1,118 @@
+/**
+ * Tests for ArtworkFilters
+ *
+ * Filter and sort controls shared by the Gallery and Shoppe grids.
+ */
+
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ArtworkFilters } from '@/components/ui/ArtworkFilters';
+import type { ArtworkFacets } from '@/lib/db/artwork';
+import { parseArtworkFilters } from '@/lib/validation/artwork-filters';
+
+const { mockPush } = vi.hoisted(() => ({ mockPush: vi.fn() }));
+
+vi.mock('next/navigation', () => ({
+    useRouter: () => ({ push: mockPush }),
+}));
+
+const facets: ArtworkFacets = {
+    tags: ['dragons', 'knights'],
+    mediums: ['Acrylic', 'Ink'],
+    years: { min: 2019, max: 2024 },
+    prices: { min: 15, max: 120 },
+};
+
+describe('ArtworkFilters', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('links each tag, keeping the other filters', () => {
+        render(
+            <ArtworkFilters
+                basePath="/gallery"
+                filters={parseArtworkFilters({ sort: 'newest' })}
+                facets={facets}
+                resultCount={3}
+            />
+        );
+
+        expect(screen.getByRole('link', { name: 'dragons' })).toHaveAttribute(
+            'href',
+            '/gallery?tag=dragons&sort=newest'
+        );
+    });
+
+    it('unlinks the active tag', () => {
+        render(
+            <ArtworkFilters
+                basePath="/gallery"
+                filters={parseArtworkFilters({ tag: 'dragons' })}
+                facets={facets}
+                resultCount={1}
+            />
+        );
+
+        const link = screen.getByRole('link', { name: 'dragons' });
+        expect(link).toHaveAttribute('href', '/gallery');
+        expect(link).toHaveAttribute('aria-current', 'page');
+    });
+
+    it('navigates to the canonical URL for the chosen filters', async () => {
+        const user = userEvent.setup();
+        render(
+            <ArtworkFilters
+                basePath="/shoppe"
+                filters={parseArtworkFilters({ tag: 'dragons' })}
+                facets={facets}
+                resultCount={2}
+                showStockFilter={false}
+            />
+        );
+
+        await user.selectOptions(screen.getByLabelText('Medium'), 'Ink');
+        await user.type(screen.getByLabelText('Maximum price'), '50');
+        await user.selectOptions(screen.getByLabelText('Sort by'), 'price_asc');
+        await user.click(screen.getByRole('button', { name: 'Apply' }));
+
+        expect(mockPush).toHaveBeenCalledWith(
+            '/shoppe?tag=dragons&medium=Ink&max_price=50&sort=price_asc'
+        );
+    });
+
+    it('hides the stock filter when asked', () => {
+        render(
+            <ArtworkFilters
+                basePath="/shoppe"
+                filters={parseArtworkFilters({})}
+                facets={facets}
+                resultCount={2}
+                showStockFilter={false}
+            />
+        );
+
+        expect(screen.queryByLabelText('In stock')).not.toBeInTheDocument();
+        expect(screen.getByLabelText('Limited edition')).toBeInTheDocument();
+    });
+
+    it('offers to clear filters but keeps the sort order', () => {
+        render(
+            <ArtworkFilters
+                basePath="/gallery"
+                filters={parseArtworkFilters({
+                    limited: '1',
+                    sort: 'newest',
+                })}
+                facets={facets}
+                resultCount={1}
+            />
+        );
+
+        expect(screen.getByRole('status')).toHaveTextContent('1 piece');
+        expect(
+            screen.getByRole('link', { name: 'Clear filters' })
+        ).toHaveAttribute('href', '/gallery?sort=newest');
+    });
+});
@@ -538,6 +538,180 @@ describe('CartContext', () => {
         });
     });
 
+    describe('Variants', () => {
+        const VariantComponent = () => {
+            const cart = useCart();
+
+            return (
+                <div>
+                    <button
+                        onClick={() =>
+                            cart.addItem({
+                                artworkId: 'art-1',
+                                title: 'Art 1',
+                                price: 25,
+                                quantity: 1,
+                                slug: 'art-1',
+                                variantId: 'variant-small',
+                                variantName: '8x10 Print',
+                            })
+                        }
+                    >
+                        Add Small
+                    </button>
+                    <button
+                        onClick={() =>
+                            cart.addItem({
+                                artworkId: 'art-1',
+                                title: 'Art 1',
+                                price: 85,
+                                quantity: 1,
+                                slug: 'art-1',
+                                variantId: 'variant-framed',
+                                variantName: '11x14 Framed',
+                            })
+                        }
+                    >
+                        Add Framed
+                    </button>
+                    <button
+                        onClick={() =>
+                            cart.updateQuantity('art-1', 3, 'variant-framed')
+                        }
+                    >
+                        Three Framed
+                    </button>
+                    <button
+                        onClick={() =>
+                            cart.removeItem('art-1', 'variant-small')
+                        }
+                    >
+                        Remove Small
+                    </button>
+                    <div data-testid="lines">{cart.cart.items.length}</div>
+                    <div data-testid="count">{cart.getItemCount()}</div>
+                    <div data-testid="total">{cart.getTotal()}</div>
+                </div>
+            );
+        };
+
+        it('should keep different variants of one artwork as separate lines', async () => {
+            renderWithProviders(<VariantComponent />);
+
+            act(() => {
+                screen.getByText('Add Small').click();
+            });
+            act(() => {
+                screen.getByText('Add Framed').click();
+            });
+            act(() => {
+                screen.getByText('Add Framed').click();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId('lines')).toHaveTextContent('2');
+                expect(screen.getByTestId('count')).toHaveTextContent('3');
+                expect(screen.getByTestId('total')).toHaveTextContent('195');
+            });
+        });
+
+        it('should update and remove a single variant line', async () => {
+            renderWithProviders(<VariantComponent />);
+
+            act(() => {
+                screen.getByText('Add Small').click();
+            });
+            act(() => {
+                screen.getByText('Add Framed').click();
+            });
+            act(() => {
+                screen.getByText('Three Framed').click();
+            });
+            act(() => {
+                screen.getByText('Remove Small').click();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId('lines')).toHaveTextContent('1');
+                expect(screen.getByTestId('count')).toHaveTextContent('3');
+                expect(screen.getByTestId('total')).toHaveTextContent('255');
+            });
+        });
+    });
+
+    describe('Coupons', () => {
+        const CouponComponent = () => {
+            const cart = useCart();
+
+            return (
+                <div>
+                    <button onClick={() => cart.applyCoupon(' spring10 ')}>
+                        Apply
+                    </button>
+                    <button onClick={() => cart.removeCoupon()}>Remove</button>
+                    <button
+                        onClick={() =>
+                            cart.addItem({
+                                artworkId: 'art-1',
+                                title: 'Art 1',
+                                price: 25,
+                                quantity: 1,
+                                slug: 'art-1',
+                            })
+                        }
+                    >
+                        Add
+                    </button>
+                    <button onClick={() => cart.clearCart()}>Clear</button>
+                    <div data-testid="coupon">{cart.cart.couponCode ?? ''}</div>
+                </div>
+            );
+        };
+
+        it('should store the normalized coupon code across item changes', async () => {
+            renderWithProviders(<CouponComponent />);
+
+            act(() => {
+                screen.getByText('Apply').click();
+            });
+            act(() => {
+                screen.getByText('Add').click();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId('coupon')).toHaveTextContent(
+                    'SPRING10'
+                );
+            });
+        });
+
+        it('should drop the coupon on remove and when clearing the cart', async () => {
+            renderWithProviders(<CouponComponent />);
+
+            act(() => {
+                screen.getByText('Apply').click();
+            });
+            act(() => {
+                screen.getByText('Remove').click();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId('coupon')).toBeEmptyDOMElement();
+            });
+
+            act(() => {
+                screen.getByText('Apply').click();
+            });
+            act(() => {
+                screen.getByText('Clear').click();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId('coupon')).toBeEmptyDOMElement();
+            });
+        });
+    });
+
     describe('Cart Calculations', () => {
         it('should calculate total correctly for single item', async () => {
             renderWithProviders(<CartConsumer />);
@@ -21,11 +21,18 @@ import type { Database } from '@/types/database';
 
 // Mock database query functions
 vi.mock('@/lib/db/artwork', () => ({
-    getAllArtwork: vi.fn(),
+    getFilteredArtwork: vi.fn(),
+    getArtworkFacets: vi.fn(async () => ({ data: null, error: null })),
     getArtworkBySlug: vi.fn(),
     getAllArtworkSlugs: vi.fn(),
 }));
 
+// Mock the variant query functions (listings without print options)
+vi.mock('@/lib/db/variants', () => ({
+    getVariantsByArtworkId: vi.fn(async () => ({ data: [], error: null })),
+    getVariantsForArtworkIds: vi.fn(async () => ({ data: [], error: null })),
+}));
+
 // Mock next/navigation
 vi.mock('next/navigation', async () => {
     const actual = await vi.importActual('next/navigation');
@@ -68,9 +75,9 @@ vi.mock('@/components/ui/ImageLightbox', () => ({
     },
 }));
 
-import { getAllArtwork, getArtworkBySlug } from '@/lib/db/artwork';
+import { getFilteredArtwork, getArtworkBySlug } from '@/lib/db/artwork';
 
-const mockGetAllArtwork = vi.mocked(getAllArtwork);
+const mockGetFilteredArtwork = vi.mocked(getFilteredArtwork);
 const mockGetArtworkBySlug = vi.mocked(getArtworkBySlug);
 
 type ArtworkRow = Database['public']['Tables']['artwork']['Row'];
@@ -90,6 +97,11 @@ const mockProductListItem: ArtworkRow = {
     sku: 'PRINT-001',
     inventory_count: 10,
     is_limited_edition: false,
+    edition_size: null,
+    last_edition_number: 0,
+    is_original: false,
+    shipping_class: 'standard',
+    project_id: null,
     medium: 'Digital Print',
     dimensions: '11 x 14 inches',
     year_created: 2024,
@@ -125,12 +137,14 @@ describe('Shoppe Detail Page Integration', () => {
     describe('Navigation from Shoppe List to Detail Page', () => {
         it('should navigate from Shoppe list to detail page when image clicked', async () => {
             // Step 1: Render Shoppe list page with products
-            mockGetAllArtwork.mockResolvedValue({
+            mockGetFilteredArtwork.mockResolvedValue({
                 data: [mockProductListItem],
                 error: null,
             });
 
-            const shoppePageResult = await ShoppePage();
+            const shoppePageResult = await ShoppePage({
+                searchParams: Promise.resolve({}),
+            });
             const { unmount: unmountList } =
                 renderWithProviders(shoppePageResult);
 
@@ -188,12 +202,14 @@ describe('Shoppe Detail Page Integration', () => {
 
         it('should navigate from Shoppe list to detail page when title clicked', async () => {
             // Step 1: Render Shoppe list page
-            mockGetAllArtwork.mockResolvedValue({
+            mockGetFilteredArtwork.mockResolvedValue({
                 data: [mockProductListItem],
                 error: null,
             });
 
-            const shoppePageResult = await ShoppePage();
+            const shoppePageResult = await ShoppePage({
+                searchParams: Promise.resolve({}),
+            });
             const { unmount: unmountList } =
                 renderWithProviders(shoppePageResult);
 
@@ -232,12 +248,14 @@ describe('Shoppe Detail Page Integration', () => {
 
         it('should navigate from Shoppe list to detail page when View Details clicked', async () => {
             // Step 1: Render Shoppe list page
-            mockGetAllArtwork.mockResolvedValue({
+            mockGetFilteredArtwork.mockResolvedValue({
                 data: [mockProductListItem],
                 error: null,
             });
 
-            const shoppePageResult = await ShoppePage();
+            const shoppePageResult = await ShoppePage({
+                searchParams: Promise.resolve({}),
+            });
             const { unmount: unmountList } =
                 renderWithProviders(shoppePageResult);
 
@@ -617,12 +635,14 @@ describe('Shoppe Detail Page Integration', () => {
 
             // Step 2: Simulate navigation back to list page
             unmountDetail();
-            mockGetAllArtwork.mockResolvedValue({
+            mockGetFilteredArtwork.mockResolvedValue({
                 data: [mockProductListItem],
                 error: null,
             });
 
-            const shoppePageResult = await ShoppePage();
+            const shoppePageResult = await ShoppePage({
+                searchParams: Promise.resolve({}),
+            });
             renderWithProviders(shoppePageResult);
 
             // Verify we're back on list page
@@ -647,12 +667,14 @@ describe('Shoppe Detail Page Integration', () => {
             const user = userEvent.setup();
 
             // Step 1: View product on Shoppe list page
-            mockGetAllArtwork.mockResolvedValue({
+            mockGetFilteredArtwork.mockResolvedValue({
                 data: [mockProductListItem],
                 error: null,
             });
 
-            const shoppePageResult = await ShoppePage();
+            const shoppePageResult = await ShoppePage({
+                searchParams: Promise.resolve({}),
+            });
             const { unmount: unmountShoppePage } =
                 renderWithProviders(shoppePageResult);
 
@@ -733,7 +755,9 @@ describe('Shoppe Detail Page Integration', () => {
             expect(backLink).toHaveAttribute('href', '/shoppe');
 
             unmountDetailPage();
-            const shoppePageResult2 = await ShoppePage();
+            const shoppePageResult2 = await ShoppePage({
+                searchParams: Promise.resolve({}),
+            });
             renderWithProviders(shoppePageResult2);
 
             expect(
@@ -0,0 +1,166 @@
+/**
+ * Coupon Rules Tests
+ *
+ * Tests for coupon eligibility checks and discount calculation.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    calculateCouponDiscount,
+    getCouponError,
+    getEligibleSubtotal,
+    normalizeCouponCode,
+    type CouponLine,
+    type CouponRecord,
+} from '@/lib/cart/coupons';
+
+const baseCoupon: CouponRecord = {
+    id: 'coupon-1',
+    code: 'SPRING10',
+    description: null,
+    discount_type: 'percentage',
+    discount_value: '10',
+    minimum_subtotal: null,
+    starts_at: null,
+    expires_at: null,
+    usage_limit: null,
+    usage_count: 0,
+    applies_to_artwork_ids: null,
+    applies_to_tags: null,
+    is_active: true,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+};
+
+const lines: CouponLine[] = [
+    { artworkId: 'artwork-1', price: 50, quantity: 2, tags: ['prints'] },
+    { artworkId: 'artwork-2', price: 30, quantity: 1, tags: ['stickers'] },
+];
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+describe('normalizeCouponCode', () => {
+    it('trims and uppercases codes', () => {
+        expect(normalizeCouponCode('  spring10 ')).toBe('SPRING10');
+    });
+});
+
+describe('getCouponError', () => {
+    it('accepts an active, unscoped coupon', () => {
+        expect(getCouponError(baseCoupon, lines, now)).toBeNull();
+    });
+
+    it('rejects missing and inactive coupons', () => {
+        expect(getCouponError(null, lines, now)).toBe(
+            'This coupon code is not valid'
+        );
+        expect(
+            getCouponError({ ...baseCoupon, is_active: false }, lines, now)
+        ).toBe('This coupon code is not valid');
+    });
+
+    it('rejects coupons outside their date window', () => {
+        expect(
+            getCouponError(
+                { ...baseCoupon, starts_at: '2025-07-01T00:00:00Z' },
+                lines,
+                now
+            )
+        ).toBe('This coupon is not active yet');
+        expect(
+            getCouponError(
+                { ...baseCoupon, expires_at: '2025-05-31T00:00:00Z' },
+                lines,
+                now
+            )
+        ).toBe('This coupon has expired');
+    });
+
+    it('rejects coupons that reached their usage limit', () => {
+        expect(
+            getCouponError(
+                { ...baseCoupon, usage_limit: 5, usage_count: 5 },
+                lines,
+                now
+            )
+        ).toBe('This coupon has reached its usage limit');
+    });
+
+    it('enforces the minimum subtotal', () => {
+        expect(
+            getCouponError(
+                { ...baseCoupon, minimum_subtotal: '150.00' },
+                lines,
+                now
+            )
+        ).toBe('This coupon requires a subtotal of at least $150.00');
+    });
+
+    it('rejects scoped coupons with no matching items', () => {
+        expect(
+            getCouponError(
+                { ...baseCoupon, applies_to_tags: ['originals'] },
+                lines,
+                now
+            )
+        ).toBe('This coupon does not apply to any items in your cart');
+    });
+});
+
+describe('getEligibleSubtotal', () => {
+    it('includes every line for unscoped coupons', () => {
+        expect(getEligibleSubtotal(baseCoupon, lines)).toBe(130);
+    });
+
+    it('limits to matching artwork ids or tags', () => {
+        expect(
+            getEligibleSubtotal(
+                { ...baseCoupon, applies_to_artwork_ids: ['artwork-2'] },
+                lines
+            )
+        ).toBe(30);
+        expect(
+            getEligibleSubtotal(
+                { ...baseCoupon, applies_to_tags: ['prints'] },
+                lines
+            )
+        ).toBe(100);
+    });
+});
+
+describe('calculateCouponDiscount', () => {
+    it('applies percentage discounts to the eligible subtotal', () => {
+        expect(calculateCouponDiscount(baseCoupon, lines)).toBe(13);
+        expect(
+            calculateCouponDiscount(
+                { ...baseCoupon, applies_to_tags: ['stickers'] },
+                lines
+            )
+        ).toBe(3);
+    });
+
+    it('caps fixed discounts at the eligible subtotal', () => {
+        const fixed: CouponRecord = {
+            ...baseCoupon,
+            discount_type: 'fixed',
+            discount_value: '50.00',
+            applies_to_artwork_ids: ['artwork-2'],
+        };
+
+        expect(calculateCouponDiscount(fixed, lines)).toBe(30);
+        expect(
+            calculateCouponDiscount(
+                { ...fixed, applies_to_artwork_ids: null },
+                lines
+            )
+        ).toBe(50);
+    });
+
+    it('rounds to cents', () => {
+        expect(
+            calculateCouponDiscount({ ...baseCoupon, discount_value: '15' }, [
+                { artworkId: 'artwork-1', price: 19.99, quantity: 1 },
+            ])
+        ).toBe(3);
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Gift Card Rules Tests
+ *
+ * Tests for gift card codes, available balances and redemption allocation.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    allocateGiftCardRedemptions,
+    generateGiftCardCode,
+    getAvailableGiftCardBalance,
+    getGiftCardError,
+    getRedeemableAmount,
+    normalizeGiftCardCode,
+    type GiftCardRecord,
+} from '@/lib/cart/gift-cards';
+
+const baseCard: GiftCardRecord = {
+    id: 'card-1',
+    code: 'GIFT-AAAA-BBBB-CCCC',
+    initial_amount: '50.00',
+    balance: '50.00',
+    purchaser_name: 'Sam',
+    purchaser_email: 'sam@example.com',
+    recipient_name: 'Alex',
+    recipient_email: 'alex@example.com',
+    message: null,
+    deliver_on: '2025-06-01',
+    delivered_at: '2025-06-01T14:00:00Z',
+    is_active: true,
+    stripe_checkout_session_id: 'cs_test_1',
+    payment_intent_id: 'pi_test_1',
+    created_at: '2025-06-01T12:00:00Z',
+    updated_at: '2025-06-01T12:00:00Z',
+};
+
+describe('normalizeGiftCardCode', () => {
+    it('trims and uppercases codes', () => {
+        expect(normalizeGiftCardCode('  gift-aaaa-bbbb-cccc ')).toBe(
+            'GIFT-AAAA-BBBB-CCCC'
+        );
+    });
+});
+
+describe('generateGiftCardCode', () => {
+    it('generates grouped codes without ambiguous characters', () => {
+        const code = generateGiftCardCode();
+
+        expect(code).toMatch(/^GIFT-[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+        expect(code.slice(5)).not.toMatch(/[01IO]/);
+    });
+
+    it('generates different codes', () => {
+        expect(generateGiftCardCode()).not.toBe(generateGiftCardCode());
+    });
+});
+
+describe('getAvailableGiftCardBalance', () => {
+    it('subtracts amounts held for this card only', () => {
+        expect(
+            getAvailableGiftCardBalance(baseCard, [
+                { gift_card_id: 'card-1', amount: '20.00' },
+                { gift_card_id: 'card-2', amount: '30.00' },
+            ])
+        ).toBe(30);
+    });
+
+    it('never goes below zero', () => {
+        expect(
+            getAvailableGiftCardBalance(baseCard, [
+                { gift_card_id: 'card-1', amount: '60.00' },
+            ])
+        ).toBe(0);
+    });
+});
+
+describe('getGiftCardError', () => {
+    it('accepts an active card with balance', () => {
+        expect(getGiftCardError(baseCard, 50)).toBeNull();
+    });
+
+    it('rejects unknown and disabled cards', () => {
+        expect(getGiftCardError(null, 0)).toBe(
+            'This gift card code is not valid'
+        );
+        expect(getGiftCardError({ ...baseCard, is_active: false }, 50)).toBe(
+            'This gift card code is not valid'
+        );
+    });
+
+    it('rejects cards with nothing left to spend', () => {
+        expect(getGiftCardError(baseCard, 0)).toBe(
+            'This gift card has no balance left'
+        );
+    });
+});
+
+describe('getRedeemableAmount', () => {
+    it('covers the whole items total when shipping meets the minimum charge', () => {
+        expect(getRedeemableAmount(80, 10)).toBe(80);
+    });
+
+    it('leaves the minimum charge when shipping is free', () => {
+        expect(getRedeemableAmount(80, 0)).toBe(79.5);
+    });
+
+    it('never returns a negative amount', () => {
+        expect(getRedeemableAmount(0.25, 0)).toBe(0);
+    });
+});
+
+describe('allocateGiftCardRedemptions', () => {
+    it('uses each card in order until the amount is covered', () => {
+        const result = allocateGiftCardRedemptions(
+            [
+                { id: 'card-1', code: 'A', availableBalance: 25 },
+                { id: 'card-2', code: 'B', availableBalance: 50 },
+                { id: 'card-3', code: 'C', availableBalance: 10 },
+            ],
+            60
+        );
+
+        expect(result.map((card) => card.redeemedAmount)).toEqual([25, 35, 0]);
+    });
+});
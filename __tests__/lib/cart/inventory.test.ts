@@ -0,0 +1,74 @@
+/**
+ * Inventory Availability Tests
+ *
+ * Tests for subtracting checkout holds from artwork and variant stock.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    getAvailableQuantity,
+    getCheckoutSessionExpiry,
+    getHeldQuantity,
+    getReservationExpiry,
+    type HeldInventory,
+} from '@/lib/cart/inventory';
+import { siteConfig } from '@/config/site';
+
+const holds: HeldInventory[] = [
+    { artwork_id: 'artwork-1', variant_id: null, held_quantity: 2 },
+    { artwork_id: 'artwork-1', variant_id: 'variant-1', held_quantity: 3 },
+    { artwork_id: 'artwork-2', variant_id: null, held_quantity: 1 },
+];
+
+describe('getHeldQuantity', () => {
+    it('should count artwork holds separately from variant holds', () => {
+        expect(getHeldQuantity(holds, 'artwork-1')).toBe(2);
+        expect(getHeldQuantity(holds, 'artwork-1', 'variant-1')).toBe(3);
+    });
+
+    it('should return 0 when nothing is held', () => {
+        expect(getHeldQuantity(holds, 'artwork-3')).toBe(0);
+        expect(getHeldQuantity(holds, 'artwork-2', 'variant-9')).toBe(0);
+    });
+});
+
+describe('getAvailableQuantity', () => {
+    it('should subtract held stock from the inventory count', () => {
+        expect(getAvailableQuantity(10, holds, 'artwork-1')).toBe(8);
+        expect(getAvailableQuantity(5, holds, 'artwork-1', 'variant-1')).toBe(
+            2
+        );
+    });
+
+    it('should never return a negative quantity', () => {
+        expect(getAvailableQuantity(1, holds, 'artwork-1')).toBe(0);
+    });
+});
+
+describe('getReservationExpiry', () => {
+    it('should expire after the configured reservation window', () => {
+        const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+        expect(getReservationExpiry(now).getTime()).toBe(
+            now + siteConfig.checkout.reservation_minutes * 60 * 1000
+        );
+    });
+});
+
+describe('getCheckoutSessionExpiry', () => {
+    it("should leave headroom over Stripe's 30 minute minimum", () => {
+        const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+        expect(getCheckoutSessionExpiry(now).getTime() - now).toBeGreaterThan(
+            30 * 60 * 1000
+        );
+    });
+
+    it('should expire before the holds it checks out', () => {
+        const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+        expect(getCheckoutSessionExpiry(now).getTime()).toBeLessThan(
+            getReservationExpiry(now).getTime()
+        );
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Pre-order Tests
+ *
+ * Tests for the pre-order helpers: which projects take pre-orders, the
+ * expected ship date of an order and its customer-facing format.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    formatExpectedShipDate,
+    getCartPreorder,
+    getLatestShipDate,
+    isPreorderProject,
+} from '@/lib/cart/preorders';
+
+describe('isPreorderProject', () => {
+    it('should take pre-orders while a project is planning or active', () => {
+        expect(isPreorderProject({ status: 'planning' })).toBe(true);
+        expect(isPreorderProject({ status: 'active' })).toBe(true);
+    });
+
+    it('should not take pre-orders for completed projects or unlinked artwork', () => {
+        expect(isPreorderProject({ status: 'completed' })).toBe(false);
+        expect(isPreorderProject(null)).toBe(false);
+    });
+});
+
+describe('getCartPreorder', () => {
+    it('should describe the pre-order from the project', () => {
+        expect(
+            getCartPreorder({
+                id: 'project-1',
+                title: 'Sketchbook Vol. 2',
+                status: 'active',
+                expected_completion_date: null,
+            })
+        ).toEqual({
+            projectId: 'project-1',
+            projectTitle: 'Sketchbook Vol. 2',
+            expectedShipDate: null,
+        });
+    });
+
+    it('should return undefined for projects no longer taking pre-orders', () => {
+        expect(
+            getCartPreorder({
+                id: 'project-1',
+                title: 'Sketchbook Vol. 2',
+                status: 'completed',
+                expected_completion_date: '2026-03-01',
+            })
+        ).toBeUndefined();
+    });
+});
+
+describe('getLatestShipDate', () => {
+    it('should ship when the last pre-ordered project is ready', () => {
+        expect(getLatestShipDate(['2026-03-01', '2026-05-15'])).toBe(
+            '2026-05-15'
+        );
+    });
+
+    it('should be unknown when any project has no date or there are none', () => {
+        expect(getLatestShipDate(['2026-03-01', null])).toBeNull();
+        expect(getLatestShipDate([])).toBeNull();
+    });
+});
+
+describe('formatExpectedShipDate', () => {
+    it('should format the date as month and year', () => {
+        expect(formatExpectedShipDate('2026-03-01')).toBe('March 2026');
+    });
+
+    it('should show TBA without a date', () => {
+        expect(formatExpectedShipDate(null)).toBe('Ship date TBA');
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * Shipping Rules Tests
+ *
+ * Tests for the free-shipping threshold, per-item surcharges, shipping zone
+ * rates and the standard/express options computed from cart contents.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    calculateShippingOptions,
+    findShippingZone,
+    getFreeShippingRemaining,
+    getShippingZoneRates,
+    qualifiesForFreeShipping,
+    type ShippingZoneRecord,
+} from '@/lib/cart/shipping';
+import { siteConfig } from '@/config/site';
+
+const { flat_rate, express_rate, free_shipping_minimum } = siteConfig.shipping;
+const threshold = free_shipping_minimum / 100;
+
+const europeZone: ShippingZoneRecord = {
+    id: 'zone-eu',
+    name: 'Europe',
+    countries: ['GB', 'FR', 'DE'],
+    standard_rate: '20.00',
+    express_rate: null,
+    free_shipping_minimum: null,
+    standard_min_days: 7,
+    standard_max_days: 14,
+    express_min_days: null,
+    express_max_days: null,
+    excludes_originals: true,
+    is_active: true,
+    display_order: 1,
+    created_at: '2025-01-01',
+    updated_at: '2025-01-01',
+};
+
+describe('qualifiesForFreeShipping', () => {
+    it('applies at or above the free-shipping minimum', () => {
+        expect(qualifiesForFreeShipping(threshold - 0.01)).toBe(false);
+        expect(qualifiesForFreeShipping(threshold)).toBe(true);
+    });
+});
+
+describe('getFreeShippingRemaining', () => {
+    it('returns the amount left to reach the minimum', () => {
+        expect(getFreeShippingRemaining(threshold - 25.5)).toBe(25.5);
+        expect(getFreeShippingRemaining(threshold + 10)).toBe(0);
+    });
+
+    it('returns null when the destination never ships free', () => {
+        expect(
+            getFreeShippingRemaining(1000, getShippingZoneRates(europeZone))
+        ).toBeNull();
+    });
+});
+
+describe('findShippingZone', () => {
+    const canadaZone: ShippingZoneRecord = {
+        ...europeZone,
+        id: 'zone-ca',
+        name: 'Canada',
+        countries: ['CA'],
+        display_order: 0,
+    };
+
+    it('matches country codes case-insensitively', () => {
+        expect(findShippingZone([canadaZone, europeZone], ' fr ')).toBe(
+            europeZone
+        );
+    });
+
+    it('uses the first zone listing the country', () => {
+        const ukZone = { ...europeZone, id: 'zone-uk', countries: ['GB'] };
+
+        expect(findShippingZone([ukZone, europeZone], 'GB')).toBe(ukZone);
+    });
+
+    it('ignores inactive zones', () => {
+        expect(
+            findShippingZone([{ ...canadaZone, is_active: false }], 'CA')
+        ).toBeNull();
+        expect(findShippingZone([europeZone], 'JP')).toBeNull();
+    });
+});
+
+describe('calculateShippingOptions', () => {
+    it('charges the flat rate below the minimum', () => {
+        const [standard, express] = calculateShippingOptions(
+            [{ quantity: 1 }],
+            threshold - 1
+        );
+
+        expect(standard).toEqual({
+            id: 'standard',
+            displayName: 'Standard Shipping',
+            amount: flat_rate / 100,
+            deliveryEstimate: siteConfig.shipping.delivery_estimates.standard,
+        });
+        expect(express.id).toBe('express');
+        expect(express.amount).toBe(express_rate / 100);
+    });
+
+    it('waives the standard base rate at the minimum but not express', () => {
+        const [standard, express] = calculateShippingOptions(
+            [{ quantity: 1 }],
+            threshold
+        );
+
+        expect(standard.displayName).toBe('Free Standard Shipping');
+        expect(standard.amount).toBe(0);
+        expect(express.amount).toBe(express_rate / 100);
+    });
+
+    it('adds size class and original surcharges per item', () => {
+        const { class_surcharges, original_surcharge } = siteConfig.shipping;
+        const [standard, express] = calculateShippingOptions(
+            [
+                { quantity: 2, shippingClass: 'oversized' },
+                { quantity: 1, shippingClass: 'small', isOriginal: true },
+            ],
+            threshold
+        );
+        const surcharge =
+            (2 * class_surcharges.oversized +
+                class_surcharges.small +
+                original_surcharge) /
+            100;
+
+        expect(standard.amount).toBe(surcharge);
+        expect(express.amount).toBe(express_rate / 100 + surcharge);
+    });
+
+    it('uses zone rates and omits express when the zone has none', () => {
+        const options = calculateShippingOptions(
+            [{ quantity: 1 }],
+            1000,
+            getShippingZoneRates(europeZone)
+        );
+
+        expect(options).toEqual([
+            {
+                id: 'standard',
+                displayName: 'Standard Shipping',
+                amount: 20,
+                deliveryEstimate: { minimum: 7, maximum: 14 },
+            },
+        ]);
+    });
+
+    it('applies the zone free-shipping minimum and express estimates', () => {
+        const [standard, express] = calculateShippingOptions(
+            [{ quantity: 1 }],
+            300,
+            getShippingZoneRates({
+                ...europeZone,
+                express_rate: '45.00',
+                free_shipping_minimum: '300.00',
+                express_min_days: 3,
+                express_max_days: 5,
+            })
+        );
+
+        expect(standard.amount).toBe(0);
+        expect(express.amount).toBe(45);
+        expect(express.deliveryEstimate).toEqual({ minimum: 3, maximum: 5 });
+    });
+});
@@ -420,7 +420,7 @@ describe('validateCart', () => {
             );
 
             const expectedSubtotal = 100.0;
-            const expectedShipping = siteConfig.shipping.flat_rate / 100;
+            const expectedShipping = 0; // Subtotal meets the free-shipping minimum
             const expectedTax = 0; // Assuming tax is handled by Stripe
             const expectedTotal =
                 expectedSubtotal + expectedShipping + expectedTax;
@@ -581,4 +581,781 @@ describe('validateCart', () => {
             expect(result.errors).toContain('Item "Missing" not found');
         });
     });
+
+    describe('variant validation', () => {
+        const artworkRecord = {
+            id: 'artwork-1',
+            title: 'Test Artwork',
+            price: '50.00',
+            inventory_count: 0,
+            is_published: true,
+            slug: 'test-artwork',
+        };
+
+        async function mockTables(variants: unknown[]) {
+            const { createServiceRoleClient } = await import(
+                '@/lib/supabase/server'
+            );
+
+            const mockSupabase = {
+                from: vi.fn((table: string) => ({
+                    select: vi.fn().mockReturnValue({
+                        in: vi.fn().mockResolvedValue({
+                            data:
+                                table === 'artwork_variants'
+                                    ? variants
+                                    : [artworkRecord],
+                            error: null,
+                        }),
+                    }),
+                })),
+            };
+
+            vi.mocked(createServiceRoleClient).mockResolvedValue(
+                mockSupabase as never
+            );
+
+            return mockSupabase;
+        }
+
+        const variantItem: CartItem = {
+            artworkId: 'artwork-1',
+            title: 'Test Artwork',
+            price: 85.0,
+            quantity: 2,
+            slug: 'test-artwork',
+            variantId: 'variant-1',
+            variantName: '11x14 Framed',
+        };
+
+        it('should price and stock variant items from the variant', async () => {
+            const mockSupabase = await mockTables([
+                {
+                    id: 'variant-1',
+                    artwork_id: 'artwork-1',
+                    name: '11x14 Framed',
+                    price: '85.00',
+                    inventory_count: 5,
+                    is_active: true,
+                },
+            ]);
+
+            const result = await validateCart([variantItem]);
+
+            expect(mockSupabase.from).toHaveBeenCalledWith('artwork_variants');
+            expect(result.isValid).toBe(true);
+            expect(result.subtotal).toBe(170.0);
+            expect(result.items[0]).toEqual(
+                expect.objectContaining({
+                    variantId: 'variant-1',
+                    variantName: '11x14 Framed',
+                    price: 85.0,
+                })
+            );
+        });
+
+        it('should not query variants for carts without variant items', async () => {
+            const mockSupabase = await mockTables([]);
+
+            await validateCart([
+                {
+                    artworkId: 'artwork-1',
+                    title: 'Test Artwork',
+                    price: 50.0,
+                    quantity: 1,
+                    slug: 'test-artwork',
+                },
+            ]);
+
+            expect(mockSupabase.from).not.toHaveBeenCalledWith(
+                'artwork_variants'
+            );
+        });
+
+        it('should detect variant price tampering', async () => {
+            await mockTables([
+                {
+                    id: 'variant-1',
+                    artwork_id: 'artwork-1',
+                    name: '11x14 Framed',
+                    price: '120.00',
+                    inventory_count: 5,
+                    is_active: true,
+                },
+            ]);
+
+            const result = await validateCart([variantItem]);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain(
+                'Price for "Test Artwork (11x14 Framed)" has changed. Please refresh your cart.'
+            );
+        });
+
+        it('should reject variants with insufficient inventory', async () => {
+            await mockTables([
+                {
+                    id: 'variant-1',
+                    artwork_id: 'artwork-1',
+                    name: '11x14 Framed',
+                    price: '85.00',
+                    inventory_count: 1,
+                    is_active: true,
+                },
+            ]);
+
+            const result = await validateCart([variantItem]);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain(
+                'Only 1 of "Test Artwork (11x14 Framed)" available'
+            );
+        });
+
+        it('should reject inactive or mismatched variants', async () => {
+            await mockTables([
+                {
+                    id: 'variant-1',
+                    artwork_id: 'other-artwork',
+                    name: '11x14 Framed',
+                    price: '85.00',
+                    inventory_count: 5,
+                    is_active: true,
+                },
+            ]);
+
+            const result = await validateCart([variantItem]);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain(
+                'Selected option for "Test Artwork" is no longer available'
+            );
+        });
+    });
+
+    describe('checkout holds', () => {
+        const artworkRecord = {
+            id: 'artwork-1',
+            title: 'Test Artwork',
+            price: '50.00',
+            inventory_count: 10,
+            is_published: true,
+            slug: 'test-artwork',
+        };
+
+        async function mockTables(
+            holds: unknown[],
+            holdsError: unknown = null
+        ) {
+            const { createServiceRoleClient } = await import(
+                '@/lib/supabase/server'
+            );
+
+            vi.mocked(createServiceRoleClient).mockResolvedValue({
+                from: vi.fn((table: string) => ({
+                    select: vi.fn().mockReturnValue({
+                        in: vi
+                            .fn()
+                            .mockResolvedValue(
+                                table === 'held_inventory'
+                                    ? { data: holds, error: holdsError }
+                                    : { data: [artworkRecord], error: null }
+                            ),
+                    }),
+                })),
+            } as never);
+        }
+
+        const item: CartItem = {
+            artworkId: 'artwork-1',
+            title: 'Test Artwork',
+            price: 50.0,
+            quantity: 2,
+            slug: 'test-artwork',
+        };
+
+        it('should not count stock held by open checkouts as available', async () => {
+            await mockTables([
+                { artwork_id: 'artwork-1', variant_id: null, held_quantity: 9 },
+            ]);
+
+            const result = await validateCart([item]);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain(
+                'Only 1 of "Test Artwork" available'
+            );
+        });
+
+        it('should ignore holds on other variants of the artwork', async () => {
+            await mockTables([
+                {
+                    artwork_id: 'artwork-1',
+                    variant_id: 'variant-1',
+                    held_quantity: 10,
+                },
+            ]);
+
+            const result = await validateCart([item]);
+
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should fail validation when holds cannot be loaded', async () => {
+            await mockTables([], { message: 'view missing' });
+
+            const result = await validateCart([item]);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain('Failed to validate cart items');
+        });
+    });
+
+    describe('pre-orders', () => {
+        async function mockArtwork(project: unknown) {
+            const { createServiceRoleClient } = await import(
+                '@/lib/supabase/server'
+            );
+
+            vi.mocked(createServiceRoleClient).mockResolvedValue({
+                from: vi.fn((table: string) => ({
+                    select: vi.fn().mockReturnValue({
+                        in: vi.fn().mockResolvedValue({
+                            data:
+                                table === 'artwork'
+                                    ? [
+                                          {
+                                              id: 'artwork-1',
+                                              title: 'Sketchbook Vol. 2',
+                                              price: '30.00',
+                                              inventory_count: 100,
+                                              is_published: true,
+                                              slug: 'sketchbook-vol-2',
+                                              project,
+                                          },
+                                      ]
+                                    : [],
+                            error: null,
+                        }),
+                    }),
+                })),
+            } as never);
+        }
+
+        const item: CartItem = {
+            artworkId: 'artwork-1',
+            title: 'Sketchbook Vol. 2',
+            price: 30.0,
+            quantity: 1,
+            slug: 'sketchbook-vol-2',
+        };
+
+        it('should mark artwork from an active project as a pre-order', async () => {
+            await mockArtwork({
+                id: 'project-1',
+                title: 'Sketchbook Vol. 2',
+                status: 'active',
+                expected_completion_date: '2026-03-01',
+            });
+
+            const result = await validateCart([item]);
+
+            expect(result.isValid).toBe(true);
+            expect(result.items[0].preorder).toEqual({
+                projectId: 'project-1',
+                projectTitle: 'Sketchbook Vol. 2',
+                expectedShipDate: '2026-03-01',
+            });
+        });
+
+        it('should sell artwork from a completed project as regular stock', async () => {
+            await mockArtwork({
+                id: 'project-1',
+                title: 'Sketchbook Vol. 2',
+                status: 'completed',
+                expected_completion_date: '2026-03-01',
+            });
+
+            const result = await validateCart([item]);
+
+            expect(result.isValid).toBe(true);
+            expect(result.items[0].preorder).toBeUndefined();
+        });
+    });
+
+    describe('coupon validation', () => {
+        const artworkRecord = {
+            id: 'artwork-1',
+            title: 'Test Artwork',
+            price: '50.00',
+            inventory_count: 10,
+            is_published: true,
+            slug: 'test-artwork',
+            tags: ['prints'],
+        };
+
+        const couponRecord = {
+            id: 'coupon-1',
+            code: 'SPRING10',
+            description: 'Spring sale',
+            discount_type: 'percentage',
+            discount_value: '10',
+            minimum_subtotal: null,
+            starts_at: null,
+            expires_at: null,
+            usage_limit: null,
+            usage_count: 0,
+            applies_to_artwork_ids: null,
+            applies_to_tags: null,
+            is_active: true,
+        };
+
+        async function mockTables(coupon: unknown) {
+            const { createServiceRoleClient } = await import(
+                '@/lib/supabase/server'
+            );
+
+            const mockEq = vi.fn().mockReturnValue({
+                maybeSingle: vi
+                    .fn()
+                    .mockResolvedValue({ data: coupon, error: null }),
+            });
+
+            const mockSupabase = {
+                from: vi.fn((table: string) => ({
+                    select: vi.fn().mockReturnValue(
+                        table === 'coupons'
+                            ? { eq: mockEq }
+                            : {
+                                  in: vi.fn().mockResolvedValue({
+                                      data: [artworkRecord],
+                                      error: null,
+                                  }),
+                              }
+                    ),
+                })),
+            };
+
+            vi.mocked(createServiceRoleClient).mockResolvedValue(
+                mockSupabase as never
+            );
+
+            return { mockSupabase, mockEq };
+        }
+
+        const items: CartItem[] = [
+            {
+                artworkId: 'artwork-1',
+                title: 'Test Artwork',
+                price: 50.0,
+                quantity: 2,
+                slug: 'test-artwork',
+            },
+        ];
+
+        it('should apply a valid coupon to the total', async () => {
+            const { mockEq } = await mockTables(couponRecord);
+
+            const result = await validateCart(items, ' spring10 ');
+
+            expect(mockEq).toHaveBeenCalledWith('code', 'SPRING10');
+            expect(result.isValid).toBe(true);
+            expect(result.coupon).toEqual({
+                id: 'coupon-1',
+                code: 'SPRING10',
+                description: 'Spring sale',
+                discountAmount: 10,
+            });
+            expect(result.subtotal).toBe(100);
+            expect(result.total).toBe(
+                100 - 10 + siteConfig.shipping.flat_rate / 100
+            );
+        });
+
+        it('should not look up coupons when no code is given', async () => {
+            const { mockSupabase } = await mockTables(couponRecord);
+
+            const result = await validateCart(items);
+
+            expect(mockSupabase.from).not.toHaveBeenCalledWith('coupons');
+            expect(result.coupon).toBeUndefined();
+        });
+
+        it('should reject unknown coupon codes', async () => {
+            await mockTables(null);
+
+            const result = await validateCart(items, 'NOPE');
+
+            expect(result.isValid).toBe(false);
+            expect(result.couponError).toBe('This coupon code is not valid');
+            expect(result.errors).toContain('This coupon code is not valid');
+            expect(result.total).toBe(100); // Free standard shipping at $100
+        });
+
+        it('should enforce coupon scope against artwork tags', async () => {
+            await mockTables({
+                ...couponRecord,
+                applies_to_tags: ['originals'],
+            });
+
+            const result = await validateCart(items, 'SPRING10');
+
+            expect(result.isValid).toBe(false);
+            expect(result.couponError).toBe(
+                'This coupon does not apply to any items in your cart'
+            );
+        });
+    });
+
+    describe('gift cards', () => {
+        const artworkRecord = {
+            id: 'artwork-1',
+            title: 'Test Artwork',
+            price: '50.00',
+            inventory_count: 10,
+            is_published: true,
+            slug: 'test-artwork',
+            tags: ['prints'],
+        };
+
+        const cardRecord = {
+            id: 'card-1',
+            code: 'GIFT-AAAA-BBBB-CCCC',
+            initial_amount: '150.00',
+            balance: '150.00',
+            is_active: true,
+        };
+
+        async function mockTables(cards: unknown[], holds: unknown[] = []) {
+            const { createServiceRoleClient } = await import(
+                '@/lib/supabase/server'
+            );
+
+            const mockCardsIn = vi
+                .fn()
+                .mockResolvedValue({ data: cards, error: null });
+
+            const mockSupabase = {
+                from: vi.fn((table: string) => ({
+                    select: vi.fn().mockReturnValue(
+                        table === 'gift_cards'
+                            ? { in: mockCardsIn }
+                            : table === 'gift_card_holds'
+                              ? {
+                                    in: vi.fn().mockReturnValue({
+                                        gt: vi.fn().mockResolvedValue({
+                                            data: holds,
+                                            error: null,
+                                        }),
+                                    }),
+                                }
+                              : {
+                                    in: vi.fn().mockResolvedValue({
+                                        data: [artworkRecord],
+                                        error: null,
+                                    }),
+                                }
+                    ),
+                })),
+            };
+
+            vi.mocked(createServiceRoleClient).mockResolvedValue(
+                mockSupabase as never
+            );
+
+            return { mockSupabase, mockCardsIn };
+        }
+
+        const items: CartItem[] = [
+            {
+                artworkId: 'artwork-1',
+                title: 'Test Artwork',
+                price: 50.0,
+                quantity: 2,
+                slug: 'test-artwork',
+            },
+        ];
+
+        it('should redeem a gift card up to the minimum charge', async () => {
+            const { mockCardsIn } = await mockTables([cardRecord]);
+
+            const result = await validateCart(items, undefined, undefined, [
+                ' gift-aaaa-bbbb-cccc ',
+            ]);
+
+            expect(mockCardsIn).toHaveBeenCalledWith('code', [
+                'GIFT-AAAA-BBBB-CCCC',
+            ]);
+            expect(result.isValid).toBe(true);
+            // Free standard shipping at $100, so $0.50 is left to pay
+            expect(result.giftCards).toEqual([
+                {
+                    id: 'card-1',
+                    code: 'GIFT-AAAA-BBBB-CCCC',
+                    availableBalance: 150,
+                    redeemedAmount: 99.5,
+                },
+            ]);
+            expect(result.giftCardAmount).toBe(99.5);
+            expect(result.total).toBe(0.5);
+        });
+
+        it('should only redeem the balance not held by other checkouts', async () => {
+            await mockTables(
+                [{ ...cardRecord, balance: '30.00' }],
+                [{ gift_card_id: 'card-1', amount: '10.00' }]
+            );
+
+            const result = await validateCart(items, undefined, undefined, [
+                'GIFT-AAAA-BBBB-CCCC',
+            ]);
+
+            expect(result.giftCardAmount).toBe(20);
+            expect(result.total).toBe(80);
+        });
+
+        it('should not look up gift cards when no code is given', async () => {
+            const { mockSupabase } = await mockTables([cardRecord]);
+
+            const result = await validateCart(items);
+
+            expect(mockSupabase.from).not.toHaveBeenCalledWith('gift_cards');
+            expect(result.giftCards).toBeUndefined();
+        });
+
+        it('should reject unknown and spent gift cards', async () => {
+            await mockTables([{ ...cardRecord, balance: '0.00' }]);
+
+            const result = await validateCart(items, undefined, undefined, [
+                'GIFT-AAAA-BBBB-CCCC',
+                'GIFT-NOPE-NOPE-NOPE',
+            ]);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain(
+                'This gift card has no balance left (GIFT-AAAA-BBBB-CCCC)'
+            );
+            expect(result.errors).toContain(
+                'This gift card code is not valid (GIFT-NOPE-NOPE-NOPE)'
+            );
+            expect(result.giftCards).toBeUndefined();
+        });
+    });
+
+    describe('shipping rules', () => {
+        async function mockArtwork(record: Record<string, unknown>) {
+            const { createServiceRoleClient } = await import(
+                '@/lib/supabase/server'
+            );
+
+            const mockSelect = vi.fn().mockReturnValue({
+                in: vi.fn().mockResolvedValue({
+                    data: [
+                        {
+                            id: 'artwork-1',
+                            title: 'Test Artwork',
+                            price: '250.00',
+                            inventory_count: 10,
+                            is_published: true,
+                            slug: 'test-artwork',
+                            tags: [],
+                            shipping_class: 'standard',
+                            is_original: false,
+                            ...record,
+                        },
+                    ],
+                    error: null,
+                }),
+            });
+
+            vi.mocked(createServiceRoleClient).mockResolvedValue({
+                from: vi.fn().mockReturnValue({ select: mockSelect }),
+            } as never);
+
+            return mockSelect;
+        }
+
+        const items: CartItem[] = [
+            {
+                artworkId: 'artwork-1',
+                title: 'Test Artwork',
+                price: 250.0,
+                quantity: 1,
+                slug: 'test-artwork',
+            },
+        ];
+
+        it('should offer free standard and paid express shipping over the minimum', async () => {
+            const mockSelect = await mockArtwork({});
+
+            const result = await validateCart(items);
+
+            expect(mockSelect).toHaveBeenCalledWith(
+                expect.stringContaining('shipping_class, is_original')
+            );
+            expect(result.shippingCost).toBe(0);
+            expect(result.total).toBe(250);
+            expect(
+                result.shippingOptions.map(({ id, amount }) => ({ id, amount }))
+            ).toEqual([
+                { id: 'standard', amount: 0 },
+                {
+                    id: 'express',
+                    amount: siteConfig.shipping.express_rate / 100,
+                },
+            ]);
+        });
+
+        it('should add class and original surcharges to every option', async () => {
+            await mockArtwork({ shipping_class: 'large', is_original: true });
+
+            const result = await validateCart(items);
+            const surcharge =
+                (siteConfig.shipping.class_surcharges.large +
+                    siteConfig.shipping.original_surcharge) /
+                100;
+
+            expect(result.shippingCost).toBe(surcharge);
+            expect(result.shippingOptions[1].amount).toBe(
+                siteConfig.shipping.express_rate / 100 + surcharge
+            );
+            expect(result.total).toBe(250 + surcharge);
+        });
+    });
+
+    describe('shipping zones', () => {
+        const europeZone = {
+            id: 'zone-eu',
+            name: 'Europe',
+            countries: ['GB', 'FR', 'DE'],
+            standard_rate: '20.00',
+            express_rate: null,
+            free_shipping_minimum: null,
+            standard_min_days: 7,
+            standard_max_days: 14,
+            express_min_days: null,
+            express_max_days: null,
+            excludes_originals: true,
+            is_active: true,
+            display_order: 1,
+            created_at: '2025-01-01',
+            updated_at: '2025-01-01',
+        };
+
+        async function mockZoneQuery(
+            zones: (typeof europeZone)[] | null,
+            artwork: Record<string, unknown> = {},
+            zoneError: { message: string } | null = null
+        ) {
+            const { createServiceRoleClient } = await import(
+                '@/lib/supabase/server'
+            );
+
+            const mockContains = vi.fn().mockReturnValue({
+                order: vi
+                    .fn()
+                    .mockResolvedValue({ data: zones, error: zoneError }),
+            });
+
+            vi.mocked(createServiceRoleClient).mockResolvedValue({
+                from: vi.fn((table: string) =>
+                    table === 'shipping_zones'
+                        ? {
+                              select: vi.fn().mockReturnValue({
+                                  eq: vi.fn().mockReturnValue({
+                                      contains: mockContains,
+                                  }),
+                              }),
+                          }
+                        : {
+                              select: vi.fn().mockReturnValue({
+                                  in: vi.fn().mockResolvedValue({
+                                      data: [
+                                          {
+                                              id: 'artwork-1',
+                                              title: 'Test Artwork',
+                                              price: '250.00',
+                                              inventory_count: 10,
+                                              is_published: true,
+                                              slug: 'test-artwork',
+                                              tags: [],
+                                              shipping_class: 'standard',
+                                              is_original: false,
+                                              ...artwork,
+                                          },
+                                      ],
+                                      error: null,
+                                  }),
+                              }),
+                          }
+                ),
+            } as never);
+
+            return mockContains;
+        }
+
+        const items: CartItem[] = [
+            {
+                artworkId: 'artwork-1',
+                title: 'Test Artwork',
+                price: 250.0,
+                quantity: 1,
+                slug: 'test-artwork',
+            },
+        ];
+
+        it('should price shipping from the destination zone', async () => {
+            const mockContains = await mockZoneQuery([europeZone]);
+
+            const result = await validateCart(items, undefined, 'fr');
+
+            expect(mockContains).toHaveBeenCalledWith('countries', ['FR']);
+            expect(result.isValid).toBe(true);
+            expect(result.shippingCost).toBe(20);
+            expect(result.total).toBe(270);
+            expect(result.shippingOptions.map(({ id }) => id)).toEqual([
+                'standard',
+            ]);
+            expect(result.shippingZone).toEqual({
+                id: 'zone-eu',
+                name: 'Europe',
+                countries: ['GB', 'FR', 'DE'],
+                freeShippingMinimum: null,
+            });
+        });
+
+        it('should reject countries without an active zone', async () => {
+            await mockZoneQuery([]);
+
+            const result = await validateCart(items, undefined, 'JP');
+
+            expect(result.isValid).toBe(false);
+            expect(result.shippingError).toBe("We don't ship to Japan yet");
+            expect(result.errors).toContain("We don't ship to Japan yet");
+            expect(result.shippingOptions).toEqual([]);
+            expect(result.shippingZone).toBeUndefined();
+        });
+
+        it('should reject originals for zones that exclude them', async () => {
+            await mockZoneQuery([europeZone], { is_original: true });
+
+            const result = await validateCart(items, undefined, 'GB');
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain(
+                'Item "Test Artwork" can\'t be shipped to Europe'
+            );
+        });
+
+        it('should report zone lookup failures', async () => {
+            await mockZoneQuery(null, {}, { message: 'connection lost' });
+
+            const result = await validateCart(items, undefined, 'GB');
+
+            expect(result.isValid).toBe(false);
+            expect(result.shippingError).toBe(
+                'Failed to validate shipping destination'
+            );
+        });
+    });
 });
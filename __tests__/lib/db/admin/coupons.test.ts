@@ -0,0 +1,177 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    createCoupon,
+    deleteCoupon,
+    getAllCouponsAdmin,
+    getCouponById,
+    updateCoupon,
+    type CouponInput,
+} from '@/lib/db/admin/coupons';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+// Mock the Supabase client
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+describe('Admin Coupon Queries', () => {
+    const mockSupabase = {
+        from: vi.fn(),
+    } as unknown as Awaited<ReturnType<typeof createServiceRoleClient>>;
+
+    const mockCoupon = {
+        id: 'coupon-1',
+        code: 'SPRING10',
+        description: null,
+        discount_type: 'percentage',
+        discount_value: '10.00',
+        minimum_subtotal: null,
+        starts_at: null,
+        expires_at: null,
+        usage_limit: null,
+        usage_count: 0,
+        applies_to_artwork_ids: null,
+        applies_to_tags: null,
+        is_active: true,
+        created_at: '2025-01-01',
+        updated_at: '2025-01-01',
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(createServiceRoleClient).mockResolvedValue(mockSupabase);
+    });
+
+    describe('getAllCouponsAdmin', () => {
+        it('returns coupons newest first', async () => {
+            const mockOrder = vi
+                .fn()
+                .mockResolvedValue({ data: [mockCoupon], error: null });
+            const mockRange = vi.fn().mockReturnValue({ order: mockOrder });
+            const mockSelect = vi.fn().mockReturnValue({ range: mockRange });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+
+            const result = await getAllCouponsAdmin();
+
+            expect(mockSupabase.from).toHaveBeenCalledWith('coupons');
+            expect(mockRange).toHaveBeenCalledWith(0, 49);
+            expect(mockOrder).toHaveBeenCalledWith('created_at', {
+                ascending: false,
+            });
+            expect(result.data).toEqual([mockCoupon]);
+            expect(result.error).toBeNull();
+        });
+
+        it('throws error when called from client side', async () => {
+            // Simulate browser environment
+            const originalWindow = global.window;
+            // @ts-expect-error Setting window for test
+            global.window = {};
+
+            const result = await getAllCouponsAdmin();
+
+            expect(result.data).toBeNull();
+            expect(result.error?.code).toBe('fetch_error');
+
+            // Restore
+            global.window = originalWindow;
+        });
+    });
+
+    describe('getCouponById', () => {
+        it('returns error when the coupon is not found', async () => {
+            const mockSingle = vi.fn().mockResolvedValue({
+                data: null,
+                error: { code: 'PGRST116', message: 'Not found' },
+            });
+            const mockEq = vi.fn().mockReturnValue({ single: mockSingle });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: vi.fn().mockReturnValue({ eq: mockEq }),
+            });
+
+            const result = await getCouponById('missing');
+
+            expect(mockEq).toHaveBeenCalledWith('id', 'missing');
+            expect(result.data).toBeNull();
+            expect(result.error).toEqual({
+                code: 'PGRST116',
+                message: 'Not found',
+            });
+        });
+    });
+
+    describe('createCoupon', () => {
+        it('inserts the coupon', async () => {
+            const input: CouponInput = {
+                code: 'SPRING10',
+                discount_type: 'percentage',
+                discount_value: '10',
+            };
+            const mockSingle = vi
+                .fn()
+                .mockResolvedValue({ data: mockCoupon, error: null });
+            const mockInsert = vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({ single: mockSingle }),
+            });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                insert: mockInsert,
+            });
+
+            const result = await createCoupon(input);
+
+            expect(mockInsert).toHaveBeenCalledWith(input);
+            expect(result.data).toEqual(mockCoupon);
+        });
+    });
+
+    describe('updateCoupon', () => {
+        it('updates the coupon by id', async () => {
+            const mockSingle = vi.fn().mockResolvedValue({
+                data: { ...mockCoupon, is_active: false },
+                error: null,
+            });
+            const mockEq = vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({ single: mockSingle }),
+            });
+            const mockUpdate = vi.fn().mockReturnValue({ eq: mockEq });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                update: mockUpdate,
+            });
+
+            const result = await updateCoupon('coupon-1', {
+                is_active: false,
+            });
+
+            expect(mockUpdate).toHaveBeenCalledWith({ is_active: false });
+            expect(mockEq).toHaveBeenCalledWith('id', 'coupon-1');
+            expect(result.data?.is_active).toBe(false);
+        });
+    });
+
+    describe('deleteCoupon', () => {
+        it('deletes the coupon by id', async () => {
+            const mockSingle = vi
+                .fn()
+                .mockResolvedValue({ data: mockCoupon, error: null });
+            const mockEq = vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({ single: mockSingle }),
+            });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                delete: vi.fn().mockReturnValue({ eq: mockEq }),
+            });
+
+            const result = await deleteCoupon('coupon-1');
+
+            expect(mockEq).toHaveBeenCalledWith('id', 'coupon-1');
+            expect(result).toEqual({ data: { id: 'coupon-1' }, error: null });
+        });
+    });
+});
@@ -2,10 +2,21 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import {
     getAllOrders,
+    getOrdersForExport,
     getOrderById,
+    getShippingCountryBreakdown,
+    getPreorderOrdersForProject,
+    getOrdersToFulfill,
+    getOrdersByIds,
+    updatePreorderStatusForProject,
     updateOrderStatus,
     addOrderNote,
     addTrackingNumber,
+    removeTrackingNumber,
+    recordOrderRefund,
+    cancelOrder,
+    claimOrderStatusEmail,
+    releaseOrderStatusEmail,
     type OrderStatus,
     type OrderItemWithArtwork,
     type OrderWithItemsAndArtwork,
@@ -20,6 +31,7 @@ vi.mock('@/lib/supabase/server', () => ({
 describe('Admin Order Queries', () => {
     const mockSupabase = {
         from: vi.fn(),
+        rpc: vi.fn(),
     } as unknown as Awaited<ReturnType<typeof createServiceRoleClient>>;
 
     beforeEach(() => {
@@ -59,8 +71,11 @@ describe('Admin Order Queries', () => {
 
             expect(createServiceRoleClient).toHaveBeenCalled();
             expect(mockSupabase.from).toHaveBeenCalledWith('orders');
-            expect(mockSelect).toHaveBeenCalledWith('*', { count: 'exact' });
+            expect(mockSelect).toHaveBeenCalledWith('*, order_shipments (*)', {
+                count: 'exact',
+            });
             expect(result.data).toEqual(mockData);
+            expect(result.count).toBe(1);
             expect(result.error).toBeNull();
         });
 
@@ -152,6 +167,82 @@ describe('Admin Order Queries', () => {
             expect(mockLte).toHaveBeenCalledWith('created_at', '2024-12-31');
         });
 
+        it('searches the order, SKUs and tracking numbers', async () => {
+            const mockSelect = vi.fn().mockReturnThis();
+            const mockIlike = vi.fn().mockReturnThis();
+            const mockRange = vi.fn().mockReturnThis();
+            const mockOrder = vi.fn().mockResolvedValue({
+                data: [],
+                error: null,
+                count: 0,
+            });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+            mockSelect.mockReturnValue({ ilike: mockIlike });
+            mockIlike.mockReturnValue({ range: mockRange });
+            mockRange.mockReturnValue({ order: mockOrder });
+
+            await getAllOrders(20, 0, { search: '  100%_off ' });
+
+            expect(mockIlike).toHaveBeenCalledWith(
+                'search_text',
+                '%100\\%\\_off%'
+            );
+        });
+
+        it('ignores a blank search', async () => {
+            const mockSelect = vi.fn().mockReturnThis();
+            const mockRange = vi.fn().mockReturnThis();
+            const mockOrder = vi.fn().mockResolvedValue({
+                data: [],
+                error: null,
+                count: 0,
+            });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+            mockSelect.mockReturnValue({ range: mockRange });
+            mockRange.mockReturnValue({ order: mockOrder });
+
+            const result = await getAllOrders(20, 0, { search: '   ' });
+
+            expect(result.error).toBeNull();
+        });
+
+        it('sorts by the chosen column, newest first within ties', async () => {
+            const mockSelect = vi.fn().mockReturnThis();
+            const mockRange = vi.fn().mockReturnThis();
+            const mockOrderTiebreak = vi.fn().mockResolvedValue({
+                data: [],
+                error: null,
+                count: 0,
+            });
+            const mockOrder = vi
+                .fn()
+                .mockReturnValue({ order: mockOrderTiebreak });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+            mockSelect.mockReturnValue({ range: mockRange });
+            mockRange.mockReturnValue({ order: mockOrder });
+
+            await getAllOrders(20, 0, undefined, {
+                column: 'total',
+                ascending: true,
+            });
+
+            expect(mockOrder).toHaveBeenCalledWith('total', {
+                ascending: true,
+            });
+            expect(mockOrderTiebreak).toHaveBeenCalledWith('created_at', {
+                ascending: false,
+            });
+        });
+
         it('sorts by created_at DESC by default', async () => {
             const mockSelect = vi.fn().mockReturnThis();
             const mockRange = vi.fn().mockReturnThis();
@@ -226,6 +317,392 @@ describe('Admin Order Queries', () => {
         });
     });
 
+    describe('getOrdersForExport', () => {
+        it('selects orders with their line items, filtered and sorted like the list', async () => {
+            const mockSelect = vi.fn();
+            const mockEq = vi.fn();
+            const mockGte = vi.fn();
+            const mockRange = vi.fn();
+            const mockOrderById = vi.fn().mockResolvedValue({
+                data: [],
+                error: null,
+            });
+            const mockOrderTiebreak = vi
+                .fn()
+                .mockReturnValue({ order: mockOrderById });
+            const mockOrder = vi
+                .fn()
+                .mockReturnValue({ order: mockOrderTiebreak });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+            mockSelect.mockReturnValue({ eq: mockEq });
+            mockEq.mockReturnValue({ gte: mockGte });
+            mockGte.mockReturnValue({ range: mockRange });
+            mockRange.mockReturnValue({ order: mockOrder });
+
+            const result = await getOrdersForExport(
+                500,
+                1000,
+                { status: 'shipped', startDate: '2025-01-01' },
+                { column: 'total', ascending: true }
+            );
+
+            expect(mockSelect).toHaveBeenCalledWith(
+                expect.stringContaining('order_items (')
+            );
+            expect(mockEq).toHaveBeenCalledWith('status', 'shipped');
+            expect(mockGte).toHaveBeenCalledWith('created_at', '2025-01-01');
+            expect(mockRange).toHaveBeenCalledWith(1000, 1499);
+            expect(mockOrder).toHaveBeenCalledWith('total', {
+                ascending: true,
+            });
+            expect(mockOrderTiebreak).toHaveBeenCalledWith('created_at', {
+                ascending: false,
+            });
+            expect(mockOrderById).toHaveBeenCalledWith('id', {
+                ascending: true,
+            });
+            expect(result).toEqual({ data: [], error: null });
+        });
+
+        it('returns error on failure', async () => {
+            const mockSelect = vi.fn();
+            const mockRange = vi.fn();
+            const mockOrderById = vi.fn().mockResolvedValue({
+                data: null,
+                error: { code: '500', message: 'DB Error' },
+            });
+            const mockOrder = vi.fn().mockReturnValue({ order: mockOrderById });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+            mockSelect.mockReturnValue({ range: mockRange });
+            mockRange.mockReturnValue({ order: mockOrder });
+
+            const result = await getOrdersForExport(500, 0);
+
+            expect(result).toEqual({
+                data: null,
+                error: { code: '500', message: 'DB Error' },
+            });
+        });
+    });
+
+    describe('getShippingCountryBreakdown', () => {
+        it('totals non-cancelled orders per country, busiest first', async () => {
+            const mockNeq = vi.fn().mockResolvedValue({
+                data: [
+                    { shipping_country: 'US', total: '50.00' },
+                    { shipping_country: 'CA', total: '120.00' },
+                    { shipping_country: 'CA', total: '30.50' },
+                    { shipping_country: 'GB', total: '200.00' },
+                ],
+                error: null,
+            });
+            const mockSelect = vi.fn().mockReturnValue({ neq: mockNeq });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+
+            const result = await getShippingCountryBreakdown();
+
+            expect(mockSelect).toHaveBeenCalledWith('shipping_country, total');
+            expect(mockNeq).toHaveBeenCalledWith('status', 'cancelled');
+            expect(result.error).toBeNull();
+            expect(result.data).toEqual([
+                { country: 'CA', order_count: 2, revenue: 150.5 },
+                { country: 'GB', order_count: 1, revenue: 200 },
+                { country: 'US', order_count: 1, revenue: 50 },
+            ]);
+        });
+
+        it('returns the database error', async () => {
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    neq: vi.fn().mockResolvedValue({
+                        data: null,
+                        error: { code: '42P01', message: 'relation missing' },
+                    }),
+                }),
+            });
+
+            const result = await getShippingCountryBreakdown();
+
+            expect(result.data).toBeNull();
+            expect(result.error).toEqual({
+                code: '42P01',
+                message: 'relation missing',
+            });
+        });
+    });
+
+    describe('getPreorderOrdersForProject', () => {
+        it("returns orders with the project's pre-order lines, oldest first", async () => {
+            const mockOrder = vi.fn().mockResolvedValue({
+                data: [{ id: 'order-1', order_items: [{ id: 'item-1' }] }],
+                error: null,
+            });
+            const mockEq = vi.fn().mockReturnValue({ order: mockOrder });
+            const mockSelect = vi.fn().mockReturnValue({ eq: mockEq });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+
+            const result = await getPreorderOrdersForProject('project-1');
+
+            expect(mockSelect.mock.calls[0][0]).toContain('order_items!inner');
+            expect(mockEq).toHaveBeenCalledWith(
+                'order_items.preorder_project_id',
+                'project-1'
+            );
+            expect(mockOrder).toHaveBeenCalledWith('created_at', {
+                ascending: true,
+            });
+            expect(result.data).toHaveLength(1);
+            expect(result.error).toBeNull();
+        });
+    });
+
+    describe('getOrdersToFulfill', () => {
+        it('returns paid and processing orders with item details, oldest first', async () => {
+            const mockOrder = vi.fn().mockResolvedValue({
+                data: [{ id: 'order-1', order_items: [{ id: 'item-1' }] }],
+                error: null,
+            });
+            const mockIn = vi.fn().mockReturnValue({ order: mockOrder });
+            const mockSelect = vi.fn().mockReturnValue({ in: mockIn });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+
+            const result = await getOrdersToFulfill();
+
+            expect(mockSelect.mock.calls[0][0]).toContain('artwork (');
+            expect(mockSelect.mock.calls[0][0]).toContain(
+                'variant:artwork_variants (sku)'
+            );
+            expect(mockIn).toHaveBeenCalledWith('status', [
+                'paid',
+                'processing',
+            ]);
+            expect(mockOrder).toHaveBeenCalledWith('created_at', {
+                ascending: true,
+            });
+            expect(result.data).toHaveLength(1);
+            expect(result.error).toBeNull();
+        });
+
+        it('returns the database error', async () => {
+            const mockOrder = vi.fn().mockResolvedValue({
+                data: null,
+                error: { code: 'XX000', message: 'connection lost' },
+            });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    in: vi.fn().mockReturnValue({ order: mockOrder }),
+                }),
+            });
+
+            const result = await getOrdersToFulfill();
+
+            expect(result.data).toBeNull();
+            expect(result.error).toEqual({
+                code: 'XX000',
+                message: 'connection lost',
+            });
+        });
+    });
+
+    describe('getOrdersByIds', () => {
+        it('returns the chosen orders with item details, oldest first', async () => {
+            const mockOrder = vi.fn().mockResolvedValue({
+                data: [{ id: 'order-1', order_items: [{ id: 'item-1' }] }],
+                error: null,
+            });
+            const mockIn = vi.fn().mockReturnValue({ order: mockOrder });
+            const mockSelect = vi.fn().mockReturnValue({ in: mockIn });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+
+            const result = await getOrdersByIds(['order-1', 'order-2']);
+
+            expect(mockSelect.mock.calls[0][0]).toContain('artwork (');
+            expect(mockIn).toHaveBeenCalledWith('id', ['order-1', 'order-2']);
+            expect(mockOrder).toHaveBeenCalledWith('created_at', {
+                ascending: true,
+            });
+            expect(result.data).toHaveLength(1);
+            expect(result.error).toBeNull();
+        });
+
+        it('returns the database error', async () => {
+            const mockOrder = vi.fn().mockResolvedValue({
+                data: null,
+                error: { code: 'XX000', message: 'connection lost' },
+            });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    in: vi.fn().mockReturnValue({ order: mockOrder }),
+                }),
+            });
+
+            const result = await getOrdersByIds(['order-1']);
+
+            expect(result.data).toBeNull();
+            expect(result.error).toEqual({
+                code: 'XX000',
+                message: 'connection lost',
+            });
+        });
+    });
+
+    describe('updatePreorderStatusForProject', () => {
+        const mockRpc = mockSupabase.rpc as ReturnType<typeof vi.fn>;
+        const change = {
+            adminId: 'admin-1',
+            changedBy: 'Ada Admin',
+            note: 'Pre-order batch for Sketchbook Vol. 2',
+        };
+
+        const mockPreorders = (orders: object[]) => {
+            const mockInPayment = vi
+                .fn()
+                .mockResolvedValue({ data: orders, error: null });
+            const mockInStatus = vi.fn().mockReturnValue({ in: mockInPayment });
+            const mockInId = vi.fn().mockReturnValue({ in: mockInStatus });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockImplementation(
+                (table: string) =>
+                    table === 'order_items'
+                        ? {
+                              select: vi.fn().mockReturnValue({
+                                  eq: vi.fn().mockResolvedValue({
+                                      data: [
+                                          { order_id: 'order-1' },
+                                          { order_id: 'order-1' },
+                                          { order_id: 'order-2' },
+                                      ],
+                                      error: null,
+                                  }),
+                              }),
+                          }
+                        : {
+                              select: vi.fn().mockReturnValue({ in: mockInId }),
+                          }
+            );
+
+            return { mockInId, mockInStatus, mockInPayment };
+        };
+
+        it('moves each pre-order through update_order_status, recording the admin', async () => {
+            const { mockInId, mockInStatus, mockInPayment } = mockPreorders([
+                { id: 'order-1', status: 'paid' },
+                { id: 'order-2', status: 'paid' },
+            ]);
+            mockRpc.mockResolvedValue({ data: true, error: null });
+
+            const result = await updatePreorderStatusForProject(
+                'project-1',
+                ['paid'],
+                'processing',
+                change
+            );
+
+            expect(mockInId).toHaveBeenCalledWith('id', ['order-1', 'order-2']);
+            expect(mockInStatus).toHaveBeenCalledWith('status', ['paid']);
+            expect(mockInPayment).toHaveBeenCalledWith('payment_status', [
+                'succeeded',
+                'partially_refunded',
+            ]);
+            expect(mockRpc).toHaveBeenCalledTimes(2);
+            expect(mockRpc).toHaveBeenCalledWith('update_order_status', {
+                p_order_id: 'order-1',
+                p_from_status: 'paid',
+                p_to_status: 'processing',
+                p_admin_id: 'admin-1',
+                p_changed_by: 'Ada Admin',
+                p_note: 'Pre-order batch for Sketchbook Vol. 2',
+            });
+            expect(result.data).toEqual([
+                { id: 'order-1', status: 'processing' },
+                { id: 'order-2', status: 'processing' },
+            ]);
+            expect(result.error).toBeNull();
+        });
+
+        it('leaves out orders whose status changed in the meantime', async () => {
+            mockPreorders([
+                { id: 'order-1', status: 'paid' },
+                { id: 'order-2', status: 'processing' },
+            ]);
+            mockRpc
+                .mockResolvedValueOnce({ data: true, error: null })
+                .mockResolvedValueOnce({ data: false, error: null });
+
+            const result = await updatePreorderStatusForProject(
+                'project-1',
+                ['paid', 'processing'],
+                'shipped',
+                change
+            );
+
+            expect(result.data).toEqual([{ id: 'order-1', status: 'shipped' }]);
+        });
+
+        it('skips the update when the project has no pre-orders', async () => {
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockImplementation(
+                () => ({
+                    select: vi.fn().mockReturnValue({
+                        eq: vi.fn().mockResolvedValue({
+                            data: [],
+                            error: null,
+                        }),
+                    }),
+                })
+            );
+
+            const result = await updatePreorderStatusForProject(
+                'project-1',
+                ['paid'],
+                'processing',
+                change
+            );
+
+            expect(mockRpc).not.toHaveBeenCalled();
+            expect(result).toEqual({ data: [], error: null });
+        });
+
+        it('returns errors from update_order_status', async () => {
+            mockPreorders([{ id: 'order-1', status: 'paid' }]);
+            mockRpc.mockResolvedValue({
+                data: null,
+                error: { code: 'XX000', message: 'connection lost' },
+            });
+
+            const result = await updatePreorderStatusForProject(
+                'project-1',
+                ['paid'],
+                'processing',
+                change
+            );
+
+            expect(result).toEqual({
+                data: null,
+                error: { code: 'XX000', message: 'connection lost' },
+            });
+        });
+    });
+
     describe('getOrderById - Enhanced with Artwork Details (Issue #65)', () => {
         it('should return order with order_items including artwork details', async () => {
             const mockData = {
@@ -240,6 +717,12 @@ describe('Admin Order Queries', () => {
                         quantity: 2,
                         price_at_purchase: '50.00',
                         line_subtotal: '100.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-01-01T00:00:00Z',
                         artwork: {
                             title: 'Beautiful Painting',
@@ -256,6 +739,12 @@ describe('Admin Order Queries', () => {
                         quantity: 1,
                         price_at_purchase: '75.00',
                         line_subtotal: '75.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-01-01T00:00:00Z',
                         artwork: {
                             title: 'Stunning Sculpture',
@@ -327,6 +816,12 @@ describe('Admin Order Queries', () => {
                         quantity: 2,
                         price_at_purchase: '50.00',
                         line_subtotal: '100.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-01-01T00:00:00Z',
                         artwork: {
                             title: 'Available Artwork',
@@ -343,6 +838,12 @@ describe('Admin Order Queries', () => {
                         quantity: 1,
                         price_at_purchase: '75.00',
                         line_subtotal: '75.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-01-01T00:00:00Z',
                         artwork: null, // Deleted/missing artwork
                     },
@@ -440,10 +941,17 @@ describe('Admin Order Queries', () => {
                 shipping_cost: '10.00',
                 tax_amount: '5.00',
                 total: '115.00',
+                coupon_id: null,
+                coupon_code: null,
+                discount_amount: '0.00',
+                gift_card_amount: '0.00',
+                is_preorder: false,
+                expected_ship_date: null,
                 status: 'pending',
                 payment_status: 'pending',
                 payment_intent_id: 'pi_123',
-                shipping_tracking_number: null,
+                shipped_email_sent_at: null,
+                delivered_email_sent_at: null,
                 admin_notes: null,
                 created_at: '2024-01-01T00:00:00Z',
                 updated_at: '2024-01-01T00:00:00Z',
@@ -455,6 +963,12 @@ describe('Admin Order Queries', () => {
                         quantity: 2,
                         price_at_purchase: '50.00',
                         line_subtotal: '100.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-01-01T00:00:00Z',
                         artwork: {
                             title: 'Beautiful Painting',
@@ -515,6 +1029,12 @@ describe('Admin Order Queries', () => {
                     quantity: 1,
                     price_at_purchase: '75.00',
                     line_subtotal: '75.00',
+                    variant_id: null,
+                    variant_name: null,
+                    preorder_project_id: null,
+                    edition_number_start: null,
+                    edition_size: null,
+                    certificate_token: null,
                     created_at: '2024-01-01T00:00:00Z',
                     artwork: null,
                 };
@@ -580,6 +1100,12 @@ describe('Admin Order Queries', () => {
                 quantity: 2,
                 price_at_purchase: '50.00',
                 line_subtotal: '100.00',
+                variant_id: null,
+                variant_name: null,
+                preorder_project_id: null,
+                edition_number_start: null,
+                edition_size: null,
+                certificate_token: null,
                 created_at: '2024-01-01T00:00:00Z',
                 artwork: {
                     title: 'Beautiful Painting',
@@ -608,6 +1134,12 @@ describe('Admin Order Queries', () => {
                 quantity: 1,
                 price_at_purchase: '50.00',
                 line_subtotal: '50.00',
+                variant_id: null,
+                variant_name: null,
+                preorder_project_id: null,
+                edition_number_start: null,
+                edition_size: null,
+                certificate_token: null,
                 created_at: '2024-01-01T00:00:00Z',
                 artwork: null,
             };
@@ -622,6 +1154,12 @@ describe('Admin Order Queries', () => {
                 quantity: 1,
                 price_at_purchase: '50.00',
                 line_subtotal: '50.00',
+                variant_id: null,
+                variant_name: null,
+                preorder_project_id: null,
+                edition_number_start: null,
+                edition_size: null,
+                certificate_token: null,
                 created_at: '2024-01-01T00:00:00Z',
                 artwork: {
                     title: 'Artwork Without SKU or Thumbnail',
@@ -662,10 +1200,17 @@ describe('Admin Order Queries', () => {
                 shipping_cost: '10.00',
                 tax_amount: '5.00',
                 total: '115.00',
+                coupon_id: null,
+                coupon_code: null,
+                discount_amount: '0.00',
+                gift_card_amount: '0.00',
+                is_preorder: false,
+                expected_ship_date: null,
                 status: 'pending',
                 payment_status: 'pending',
                 payment_intent_id: 'pi_123',
-                shipping_tracking_number: null,
+                shipped_email_sent_at: null,
+                delivered_email_sent_at: null,
                 admin_notes: null,
                 created_at: '2024-01-01T00:00:00Z',
                 updated_at: '2024-01-01T00:00:00Z',
@@ -677,6 +1222,12 @@ describe('Admin Order Queries', () => {
                         quantity: 2,
                         price_at_purchase: '50.00',
                         line_subtotal: '100.00',
+                        variant_id: null,
+                        variant_name: null,
+                        preorder_project_id: null,
+                        edition_number_start: null,
+                        edition_size: null,
+                        certificate_token: null,
                         created_at: '2024-01-01T00:00:00Z',
                         artwork: {
                             title: 'Beautiful Painting',
@@ -696,73 +1247,91 @@ describe('Admin Order Queries', () => {
     });
 
     describe('updateOrderStatus', () => {
-        it('updates order status successfully', async () => {
-            const mockData = {
-                id: '1',
-                status: 'shipped' as OrderStatus,
-            };
-            const mockUpdate = vi.fn().mockReturnThis();
-            const mockEq = vi.fn().mockReturnThis();
-            const mockSelect = vi.fn().mockReturnThis();
-            const mockSingle = vi.fn().mockResolvedValue({
-                data: mockData,
-                error: null,
-            });
-
+        const change = {
+            adminId: 'admin-1',
+            changedBy: 'Ada Admin',
+            note: 'Handed to the courier',
+        };
+
+        function mockCurrentStatus(status: OrderStatus | null) {
+            const mockSingle = vi.fn().mockResolvedValue(
+                status
+                    ? { data: { status }, error: null }
+                    : {
+                          data: null,
+                          error: { code: 'PGRST116', message: 'No rows found' },
+                      }
+            );
+            const mockEq = vi.fn().mockReturnValue({ single: mockSingle });
+            const mockSelect = vi.fn().mockReturnValue({ eq: mockEq });
             (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
-                update: mockUpdate,
-            });
-            mockUpdate.mockReturnValue({
-                eq: mockEq,
-            });
-            mockEq.mockReturnValue({
                 select: mockSelect,
             });
-            mockSelect.mockReturnValue({
-                single: mockSingle,
+            return { mockSelect, mockEq };
+        }
+
+        it('moves the order from its current status, recording who and why', async () => {
+            const { mockEq } = mockCurrentStatus('processing');
+            (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+                data: true,
+                error: null,
             });
 
-            const result = await updateOrderStatus('1', 'shipped');
+            const result = await updateOrderStatus('1', 'shipped', change);
 
             expect(mockSupabase.from).toHaveBeenCalledWith('orders');
-            expect(mockUpdate).toHaveBeenCalledWith({ status: 'shipped' });
             expect(mockEq).toHaveBeenCalledWith('id', '1');
-            expect(result.data).toEqual(mockData);
+            expect(mockSupabase.rpc).toHaveBeenCalledWith(
+                'update_order_status',
+                {
+                    p_order_id: '1',
+                    p_from_status: 'processing',
+                    p_to_status: 'shipped',
+                    p_admin_id: 'admin-1',
+                    p_changed_by: 'Ada Admin',
+                    p_note: 'Handed to the courier',
+                }
+            );
             expect(result.error).toBeNull();
         });
 
-        it('returns error if order not found', async () => {
-            const mockError = {
-                code: 'PGRST116',
-                message: 'No rows found',
-            };
-            const mockUpdate = vi.fn().mockReturnThis();
-            const mockEq = vi.fn().mockReturnThis();
-            const mockSelect = vi.fn().mockReturnThis();
-            const mockSingle = vi.fn().mockResolvedValue({
-                data: null,
-                error: mockError,
-            });
+        it('rejects transitions that are not allowed', async () => {
+            mockCurrentStatus('delivered');
 
-            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
-                update: mockUpdate,
-            });
-            mockUpdate.mockReturnValue({
-                eq: mockEq,
-            });
-            mockEq.mockReturnValue({
-                select: mockSelect,
+            const result = await updateOrderStatus('1', 'pending', change);
+
+            expect(mockSupabase.rpc).not.toHaveBeenCalled();
+            expect(result.error).toEqual({
+                code: 'invalid_transition',
+                message: "Orders can't move from delivered to pending",
             });
-            mockSelect.mockReturnValue({
-                single: mockSingle,
+        });
+
+        it('reports a conflict when the order changed in the meantime', async () => {
+            mockCurrentStatus('paid');
+            (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+                data: false,
+                error: null,
             });
 
-            const result = await updateOrderStatus('nonexistent', 'shipped');
+            const result = await updateOrderStatus('1', 'processing', change);
 
-            expect(result.data).toBeNull();
+            expect(result.error?.code).toBe('status_conflict');
+        });
+
+        it('returns error if order not found', async () => {
+            mockCurrentStatus(null);
+
+            const result = await updateOrderStatus(
+                'nonexistent',
+                'shipped',
+                change
+            );
+
+            expect(mockSupabase.rpc).not.toHaveBeenCalled();
             expect(result.error).toEqual({
-                code: mockError.code,
-                message: mockError.message,
+                code: 'PGRST116',
+                message: 'No rows found',
             });
         });
 
@@ -772,9 +1341,9 @@ describe('Admin Order Queries', () => {
                 writable: true,
             });
 
-            await expect(updateOrderStatus('1', 'shipped')).rejects.toThrow(
-                'Admin queries must run server-side only'
-            );
+            await expect(
+                updateOrderStatus('1', 'shipped', change)
+            ).rejects.toThrow('Admin queries must run server-side only');
 
             Object.defineProperty(global, 'window', {
                 value: undefined,
@@ -960,68 +1529,77 @@ describe('Admin Order Queries', () => {
     });
 
     describe('addTrackingNumber', () => {
-        it('adds tracking number to order', async () => {
-            const mockData = {
-                id: '1',
-                shipping_tracking_number: 'TRACK123',
-            };
-            const mockUpdate = vi.fn().mockReturnThis();
-            const mockEq = vi.fn().mockReturnThis();
-            const mockSelect = vi.fn().mockReturnThis();
-            const mockSingle = vi.fn().mockResolvedValue({
-                data: mockData,
-                error: null,
-            });
-
-            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
-                update: mockUpdate,
-            });
-            mockUpdate.mockReturnValue({
-                eq: mockEq,
-            });
-            mockEq.mockReturnValue({
+        function mockUpsert(result: { data: unknown; error: unknown }) {
+            const mockSingle = vi.fn().mockResolvedValue(result);
+            const mockSelect = vi.fn().mockReturnValue({ single: mockSingle });
+            const mockUpsertFn = vi.fn().mockReturnValue({
                 select: mockSelect,
             });
-            mockSelect.mockReturnValue({
-                single: mockSingle,
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                upsert: mockUpsertFn,
             });
+            return mockUpsertFn;
+        }
 
-            const result = await addTrackingNumber('1', 'TRACK123');
+        it('adds a tidied tracking number with the detected carrier', async () => {
+            const mockData = {
+                id: 'ship-1',
+                order_id: '1',
+                tracking_number: '1Z999AA10123456784',
+                carrier: 'ups',
+                created_at: '2024-01-02T00:00:00Z',
+            };
+            const mockUpsertFn = mockUpsert({ data: mockData, error: null });
 
-            expect(mockSupabase.from).toHaveBeenCalledWith('orders');
-            expect(mockUpdate).toHaveBeenCalledWith({
-                shipping_tracking_number: 'TRACK123',
-            });
-            expect(mockEq).toHaveBeenCalledWith('id', '1');
+            const result = await addTrackingNumber(
+                '1',
+                ' 1z999aa1 0123456784 '
+            );
+
+            expect(mockSupabase.from).toHaveBeenCalledWith('order_shipments');
+            expect(mockUpsertFn).toHaveBeenCalledWith(
+                {
+                    order_id: '1',
+                    tracking_number: '1Z999AA10123456784',
+                    carrier: 'ups',
+                },
+                { onConflict: 'order_id,tracking_number' }
+            );
             expect(result.data).toEqual(mockData);
             expect(result.error).toBeNull();
         });
 
-        it('returns error if order not found', async () => {
+        it('stores the carrier the admin chose over the detected one', async () => {
+            const mockUpsertFn = mockUpsert({ data: {}, error: null });
+
+            await addTrackingNumber('1', '123456789012', 'dhl');
+
+            expect(mockUpsertFn).toHaveBeenCalledWith(
+                expect.objectContaining({ carrier: 'dhl' }),
+                expect.anything()
+            );
+        });
+
+        it('stores no carrier when the format is not recognised', async () => {
+            const mockUpsertFn = mockUpsert({ data: {}, error: null });
+
+            await addTrackingNumber('1', 'TRACK123');
+
+            expect(mockUpsertFn).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    tracking_number: 'TRACK123',
+                    carrier: null,
+                }),
+                expect.anything()
+            );
+        });
+
+        it('returns error if the order does not exist', async () => {
             const mockError = {
-                code: 'PGRST116',
-                message: 'No rows found',
+                code: '23503',
+                message: 'violates foreign key constraint',
             };
-            const mockUpdate = vi.fn().mockReturnThis();
-            const mockEq = vi.fn().mockReturnThis();
-            const mockSelect = vi.fn().mockReturnThis();
-            const mockSingle = vi.fn().mockResolvedValue({
-                data: null,
-                error: mockError,
-            });
-
-            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
-                update: mockUpdate,
-            });
-            mockUpdate.mockReturnValue({
-                eq: mockEq,
-            });
-            mockEq.mockReturnValue({
-                select: mockSelect,
-            });
-            mockSelect.mockReturnValue({
-                single: mockSingle,
-            });
+            mockUpsert({ data: null, error: mockError });
 
             const result = await addTrackingNumber('nonexistent', 'TRACK123');
 
@@ -1048,4 +1626,225 @@ describe('Admin Order Queries', () => {
             });
         });
     });
+
+    describe('removeTrackingNumber', () => {
+        it('deletes the shipment from the order', async () => {
+            const mockEqOrder = vi.fn().mockResolvedValue({ error: null });
+            const mockEqId = vi.fn().mockReturnValue({ eq: mockEqOrder });
+            const mockDelete = vi.fn().mockReturnValue({ eq: mockEqId });
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                delete: mockDelete,
+            });
+
+            const result = await removeTrackingNumber('1', 'ship-1');
+
+            expect(mockSupabase.from).toHaveBeenCalledWith('order_shipments');
+            expect(mockEqId).toHaveBeenCalledWith('id', 'ship-1');
+            expect(mockEqOrder).toHaveBeenCalledWith('order_id', '1');
+            expect(result.error).toBeNull();
+        });
+
+        it('returns database errors', async () => {
+            const mockEqOrder = vi.fn().mockResolvedValue({
+                error: { code: '500', message: 'Database error' },
+            });
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                delete: vi.fn().mockReturnValue({
+                    eq: vi.fn().mockReturnValue({ eq: mockEqOrder }),
+                }),
+            });
+
+            const result = await removeTrackingNumber('1', 'ship-1');
+
+            expect(result.error).toEqual({
+                code: '500',
+                message: 'Database error',
+            });
+        });
+    });
+
+    describe('recordOrderRefund', () => {
+        const refund = {
+            stripeRefundId: 're_123',
+            amount: 20,
+            reason: 'Damaged in transit',
+            restock: true,
+            items: [{ orderItemId: 'item-1', quantity: 1 }],
+        };
+
+        it('records the refund through record_order_refund', async () => {
+            (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+                data: 'refund-1',
+                error: null,
+            });
+
+            const result = await recordOrderRefund('order-1', refund);
+
+            expect(mockSupabase.rpc).toHaveBeenCalledWith(
+                'record_order_refund',
+                {
+                    p_order_id: 'order-1',
+                    p_stripe_refund_id: 're_123',
+                    p_amount: 20,
+                    p_reason: 'Damaged in transit',
+                    p_restock: true,
+                    p_items: [{ order_item_id: 'item-1', quantity: 1 }],
+                }
+            );
+            expect(result).toEqual({ data: 'refund-1', error: null });
+        });
+
+        it('explains refunds that exceed the order', async () => {
+            (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+                data: null,
+                error: { code: 'P0001', message: 'refund_exceeds_order' },
+            });
+
+            const result = await recordOrderRefund('order-1', refund);
+
+            expect(result.data).toBeNull();
+            expect(result.error?.code).toBe('refund_exceeds_order');
+            expect(result.error?.message).toBe(
+                'The refund is more than is left to refund on this order'
+            );
+        });
+
+        it('returns other database errors', async () => {
+            (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+                data: null,
+                error: { code: '500', message: 'db down' },
+            });
+
+            const result = await recordOrderRefund('order-1', refund);
+
+            expect(result.error).toEqual({ code: '500', message: 'db down' });
+        });
+    });
+
+    describe('cancelOrder', () => {
+        const change = { adminId: 'admin-1', changedBy: 'Ada Admin' };
+
+        function mockCurrentStatus(status: OrderStatus) {
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    eq: vi.fn().mockReturnValue({
+                        single: vi.fn().mockResolvedValue({
+                            data: { status },
+                            error: null,
+                        }),
+                    }),
+                }),
+            });
+        }
+
+        it('cancels through cancel_order with the written-off lines', async () => {
+            mockCurrentStatus('paid');
+            (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+                data: true,
+                error: null,
+            });
+
+            const result = await cancelOrder('order-1', ['item-2'], change);
+
+            expect(mockSupabase.rpc).toHaveBeenCalledWith('cancel_order', {
+                p_order_id: 'order-1',
+                p_written_off_item_ids: ['item-2'],
+                p_from_status: 'paid',
+                p_admin_id: 'admin-1',
+                p_changed_by: 'Ada Admin',
+                p_note: null,
+            });
+            expect(result).toEqual({ error: null });
+        });
+
+        it('does not cancel orders that have shipped', async () => {
+            mockCurrentStatus('shipped');
+
+            const result = await cancelOrder('order-1', [], change);
+
+            expect(mockSupabase.rpc).not.toHaveBeenCalled();
+            expect(result.error?.code).toBe('invalid_transition');
+        });
+
+        it('reports a conflict when the order changed in the meantime', async () => {
+            mockCurrentStatus('processing');
+            (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+                data: false,
+                error: null,
+            });
+
+            const result = await cancelOrder('order-1', [], change);
+
+            expect(result.error?.code).toBe('status_conflict');
+        });
+
+        it('returns database errors', async () => {
+            mockCurrentStatus('paid');
+            (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+                data: null,
+                error: { code: '500', message: 'db down' },
+            });
+
+            const result = await cancelOrder('order-1', [], change);
+
+            expect(result.error).toEqual({ code: '500', message: 'db down' });
+        });
+    });
+
+    describe('claimOrderStatusEmail', () => {
+        function mockClaim(rows: { id: string }[]) {
+            const mockUpdate = vi.fn();
+            const mockIs = vi.fn().mockReturnValue({
+                select: vi.fn().mockResolvedValue({ data: rows, error: null }),
+            });
+            mockUpdate.mockReturnValue({
+                eq: vi.fn().mockReturnValue({ is: mockIs }),
+            });
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                update: mockUpdate,
+            });
+            return { mockUpdate, mockIs };
+        }
+
+        it('records the email as sent if it has not been yet', async () => {
+            const { mockUpdate, mockIs } = mockClaim([{ id: 'order-1' }]);
+
+            const result = await claimOrderStatusEmail('order-1', 'shipped');
+
+            expect(mockUpdate).toHaveBeenCalledWith({
+                shipped_email_sent_at: expect.any(String),
+            });
+            expect(mockIs).toHaveBeenCalledWith('shipped_email_sent_at', null);
+            expect(result).toEqual({ claimed: true, error: null });
+        });
+
+        it('does not claim an email that was already sent', async () => {
+            mockClaim([]);
+
+            const result = await claimOrderStatusEmail('order-1', 'delivered');
+
+            expect(result).toEqual({ claimed: false, error: null });
+        });
+    });
+
+    describe('releaseOrderStatusEmail', () => {
+        it('clears the sent time so the email can be sent again', async () => {
+            const mockEq = vi.fn().mockResolvedValue({ error: null });
+            const mockUpdate = vi.fn().mockReturnValue({ eq: mockEq });
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                update: mockUpdate,
+            });
+
+            const result = await releaseOrderStatusEmail(
+                'order-1',
+                'delivered'
+            );
+
+            expect(mockUpdate).toHaveBeenCalledWith({
+                delivered_email_sent_at: null,
+            });
+            expect(mockEq).toHaveBeenCalledWith('id', 'order-1');
+            expect(result).toEqual({ error: null });
+        });
+    });
 });
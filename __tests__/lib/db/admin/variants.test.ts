@@ -0,0 +1,154 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    getVariantsByArtworkId,
+    saveArtworkVariants,
+} from '@/lib/db/admin/variants';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+// Mock the Supabase client
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+describe('Admin Artwork Variant Queries', () => {
+    const mockSupabase = {
+        from: vi.fn(),
+    } as unknown as Awaited<ReturnType<typeof createServiceRoleClient>>;
+
+    const mockVariant = {
+        id: 'variant-1',
+        artwork_id: 'artwork-1',
+        name: '8x10 Print',
+        size: '8x10',
+        finish: 'Matte',
+        is_framed: false,
+        price: '25.00',
+        sku: 'ART-1-8X10',
+        inventory_count: 5,
+        is_active: true,
+        display_order: 0,
+        created_at: '2025-01-01',
+        updated_at: '2025-01-01',
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(createServiceRoleClient).mockResolvedValue(mockSupabase);
+    });
+
+    describe('getVariantsByArtworkId', () => {
+        it('returns variants ordered by display_order', async () => {
+            const mockOrder = vi
+                .fn()
+                .mockResolvedValue({ data: [mockVariant], error: null });
+            const mockEq = vi.fn().mockReturnValue({ order: mockOrder });
+            const mockSelect = vi.fn().mockReturnValue({ eq: mockEq });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+
+            const result = await getVariantsByArtworkId('artwork-1');
+
+            expect(mockSupabase.from).toHaveBeenCalledWith('artwork_variants');
+            expect(mockEq).toHaveBeenCalledWith('artwork_id', 'artwork-1');
+            expect(mockOrder).toHaveBeenCalledWith('display_order', {
+                ascending: true,
+            });
+            expect(result.data).toEqual([mockVariant]);
+            expect(result.error).toBeNull();
+        });
+
+        it('handles database errors', async () => {
+            const mockOrder = vi.fn().mockResolvedValue({
+                data: null,
+                error: { code: 'PGRST116', message: 'Database error' },
+            });
+            const mockEq = vi.fn().mockReturnValue({ order: mockOrder });
+            const mockSelect = vi.fn().mockReturnValue({ eq: mockEq });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: mockSelect,
+            });
+
+            const result = await getVariantsByArtworkId('artwork-1');
+
+            expect(result.data).toBeNull();
+            expect(result.error?.message).toBe('Database error');
+        });
+    });
+
+    describe('saveArtworkVariants', () => {
+        function mockTable(existingIds: string[]) {
+            const mockFetchEq = vi.fn().mockResolvedValue({
+                data: existingIds.map((id) => ({ id })),
+                error: null,
+            });
+            const mockDeleteIn = vi
+                .fn()
+                .mockResolvedValue({ data: null, error: null });
+            const mockUpsertSelect = vi
+                .fn()
+                .mockResolvedValue({ data: [mockVariant], error: null });
+            const mockUpsert = vi
+                .fn()
+                .mockReturnValue({ select: mockUpsertSelect });
+
+            (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+                select: vi.fn().mockReturnValue({ eq: mockFetchEq }),
+                delete: vi.fn().mockReturnValue({ in: mockDeleteIn }),
+                upsert: mockUpsert,
+            });
+
+            return { mockDeleteIn, mockUpsert };
+        }
+
+        it('upserts submitted variants with artwork_id and display_order', async () => {
+            const { mockDeleteIn, mockUpsert } = mockTable(['variant-1']);
+
+            const result = await saveArtworkVariants('artwork-1', [
+                { id: 'variant-1', name: '8x10 Print', price: '25.00' },
+                { name: '11x14 Framed', price: '85.00', is_framed: true },
+            ]);
+
+            expect(mockDeleteIn).not.toHaveBeenCalled();
+            expect(mockUpsert).toHaveBeenCalledWith(
+                [
+                    expect.objectContaining({
+                        id: 'variant-1',
+                        artwork_id: 'artwork-1',
+                        display_order: 0,
+                    }),
+                    expect.objectContaining({
+                        name: '11x14 Framed',
+                        artwork_id: 'artwork-1',
+                        display_order: 1,
+                    }),
+                ],
+                { defaultToNull: false }
+            );
+            expect(result.error).toBeNull();
+        });
+
+        it('deletes variants missing from the submitted list', async () => {
+            const { mockDeleteIn } = mockTable(['variant-1', 'variant-2']);
+
+            await saveArtworkVariants('artwork-1', [
+                { id: 'variant-1', name: '8x10 Print', price: '25.00' },
+            ]);
+
+            expect(mockDeleteIn).toHaveBeenCalledWith('id', ['variant-2']);
+        });
+
+        it('removes all variants when given an empty list', async () => {
+            const { mockDeleteIn, mockUpsert } = mockTable(['variant-1']);
+
+            const result = await saveArtworkVariants('artwork-1', []);
+
+            expect(mockDeleteIn).toHaveBeenCalledWith('id', ['variant-1']);
+            expect(mockUpsert).not.toHaveBeenCalled();
+            expect(result.data).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getFailedWebhookEvents } from '@/lib/db/admin/webhook-events';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+describe('Admin Webhook Event Queries', () => {
+    const mockQuery = (result: object) => {
+        const query = {
+            select: vi.fn().mockReturnThis(),
+            or: vi.fn().mockReturnThis(),
+            order: vi.fn().mockReturnThis(),
+            limit: vi.fn().mockResolvedValue(result),
+        };
+        vi.mocked(createServiceRoleClient).mockResolvedValue({
+            from: vi.fn().mockReturnValue(query),
+        } as unknown as Awaited<ReturnType<typeof createServiceRoleClient>>);
+        return query;
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useRealTimers();
+    });
+
+    describe('getFailedWebhookEvents', () => {
+        it('lists failed events and events stuck processing', async () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date('2025-01-01T12:00:00Z'));
+            const events = [{ id: 'event-1', status: 'processing' }];
+            const query = mockQuery({ data: events, error: null });
+
+            const result = await getFailedWebhookEvents();
+
+            expect(query.or).toHaveBeenCalledWith(
+                'status.eq.failed,and(status.eq.processing,updated_at.lt.2025-01-01T11:50:00.000Z)'
+            );
+            expect(query.order).toHaveBeenCalledWith('updated_at', {
+                ascending: false,
+            });
+            expect(query.limit).toHaveBeenCalledWith(50);
+            expect(result).toEqual({ data: events, error: null });
+        });
+
+        it('returns database errors', async () => {
+            mockQuery({
+                data: null,
+                error: { code: '42P01', message: 'relation missing' },
+            });
+
+            const result = await getFailedWebhookEvents();
+
+            expect(result).toEqual({
+                data: null,
+                error: { code: '42P01', message: 'relation missing' },
+            });
+        });
+    });
+});
@@ -0,0 +1,183 @@
+/**
+ * Artwork Filter Query Tests
+ *
+ * Tests that Gallery / Shoppe filters and sort orders become server-side
+ * Supabase queries, and that filter options are collected from published
+ * artwork.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseArtworkFilters } from '@/lib/validation/artwork-filters';
+
+const { mockFrom } = vi.hoisted(() => ({ mockFrom: vi.fn() }));
+
+vi.mock('@supabase/supabase-js', () => ({
+    createClient: () => ({ from: mockFrom }),
+}));
+
+vi.mock('next/cache', () => ({
+    unstable_cache: (fn: unknown) => fn,
+}));
+
+import { getArtworkFacets, getFilteredArtwork } from '@/lib/db/artwork';
+
+/**
+ * Chainable query builder that records each call and resolves to result
+ */
+function mockQuery(result: { data: unknown; error: unknown }) {
+    const calls: Array<[string, ...unknown[]]> = [];
+    const builder: Record<string, unknown> = {};
+
+    for (const method of [
+        'select',
+        'eq',
+        'gt',
+        'gte',
+        'lte',
+        'contains',
+        'order',
+        'range',
+    ]) {
+        builder[method] = (...args: unknown[]) => {
+            calls.push([method, ...args]);
+            return builder;
+        };
+    }
+    builder.then = (resolve: (value: unknown) => unknown) => resolve(result);
+
+    mockFrom.mockReturnValue(builder);
+    return calls;
+}
+
+describe('getFilteredArtwork', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('lists published artwork with featured pieces first by default', async () => {
+        const calls = mockQuery({ data: [], error: null });
+
+        await getFilteredArtwork(parseArtworkFilters({}));
+
+        expect(calls).toEqual([
+            ['select', '*'],
+            ['eq', 'is_published', true],
+            ['order', 'is_featured', { ascending: false }],
+            ['order', 'display_order', { ascending: true }],
+            ['range', 0, 49],
+        ]);
+    });
+
+    it('turns every filter into a query condition', async () => {
+        const calls = mockQuery({ data: [], error: null });
+
+        await getFilteredArtwork(
+            parseArtworkFilters({
+                tag: 'dragons',
+                medium: 'Ink',
+                min_year: '2020',
+                max_year: '2024',
+                min_price: '10',
+                max_price: '100',
+                in_stock: '1',
+                limited: '1',
+            })
+        );
+
+        expect(calls).toEqual(
+            expect.arrayContaining([
+                ['contains', 'tags', ['dragons']],
+                ['eq', 'medium', 'Ink'],
+                ['gte', 'year_created', 2020],
+                ['lte', 'year_created', 2024],
+                ['gte', 'price', 10],
+                ['lte', 'price', 100],
+                ['gt', 'inventory_count', 0],
+                ['eq', 'is_limited_edition', true],
+            ])
+        );
+    });
+
+    it.each([
+        ['newest', 'created_at', false],
+        ['price_asc', 'price', true],
+        ['price_desc', 'price', false],
+    ])('sorts by %s', async (sort, column, ascending) => {
+        const calls = mockQuery({ data: [], error: null });
+
+        await getFilteredArtwork(parseArtworkFilters({ sort }));
+
+        expect(calls).toContainEqual(['order', column, { ascending }]);
+    });
+
+    it('returns query errors', async () => {
+        mockQuery({
+            data: null,
+            error: { code: '42P01', message: 'relation missing' },
+        });
+
+        const result = await getFilteredArtwork(parseArtworkFilters({}));
+
+        expect(result).toEqual({
+            data: null,
+            error: { code: '42P01', message: 'relation missing' },
+        });
+    });
+});
+
+describe('getArtworkFacets', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('collects distinct tags and mediums and the year and price ranges', async () => {
+        mockQuery({
+            data: [
+                {
+                    tags: ['knights', 'dragons'],
+                    medium: 'Ink',
+                    year_created: 2022,
+                    price: '45.00',
+                },
+                {
+                    tags: ['dragons'],
+                    medium: null,
+                    year_created: null,
+                    price: '120.00',
+                },
+                {
+                    tags: null,
+                    medium: 'Acrylic',
+                    year_created: 2019,
+                    price: '15.00',
+                },
+            ],
+            error: null,
+        });
+
+        const result = await getArtworkFacets();
+
+        expect(result).toEqual({
+            data: {
+                tags: ['dragons', 'knights'],
+                mediums: ['Acrylic', 'Ink'],
+                years: { min: 2019, max: 2022 },
+                prices: { min: 15, max: 120 },
+            },
+            error: null,
+        });
+    });
+
+    it('has no ranges when there is no artwork', async () => {
+        mockQuery({ data: [], error: null });
+
+        const result = await getArtworkFacets();
+
+        expect(result.data).toEqual({
+            tags: [],
+            mediums: [],
+            years: null,
+            prices: null,
+        });
+    });
+});
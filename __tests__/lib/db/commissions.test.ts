@@ -0,0 +1,222 @@
+/**
+ * Commission Database Tests
+ *
+ * Tests for new requests, payment link lookups and quote payment recording.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    createCommission,
+    getCommissionByPaymentLink,
+    recordCommissionPayment,
+    uploadCommissionReferences,
+} from '@/lib/db/commissions';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+const mockClient = (client: object) =>
+    vi
+        .mocked(createServiceRoleClient)
+        .mockResolvedValue(
+            client as unknown as Awaited<
+                ReturnType<typeof createServiceRoleClient>
+            >
+        );
+
+const commission = {
+    id: 'commission-1',
+    customer_email: 'fan@example.com',
+    deposit_payment_link_id: 'plink_deposit',
+    balance_payment_link_id: 'plink_balance',
+};
+
+describe('Commission Database Functions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('createCommission', () => {
+        it('should insert the request with a lowercase email', async () => {
+            const insert = vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    single: vi
+                        .fn()
+                        .mockResolvedValue({ data: commission, error: null }),
+                }),
+            });
+            mockClient({ from: vi.fn().mockReturnValue({ insert }) });
+
+            const result = await createCommission({
+                customer_name: 'Fan',
+                customer_email: 'Fan@Example.com',
+                subject: 'Dog portrait',
+                size: '11x14',
+                style: 'Ink',
+            });
+
+            expect(result).toEqual({ data: commission, error: null });
+            expect(insert).toHaveBeenCalledWith(
+                expect.objectContaining({ customer_email: 'fan@example.com' })
+            );
+        });
+    });
+
+    describe('uploadCommissionReferences', () => {
+        it('should upload each file under one folder and return the paths', async () => {
+            const upload = vi.fn().mockResolvedValue({ error: null });
+            mockClient({
+                storage: { from: vi.fn().mockReturnValue({ upload }) },
+            });
+
+            const files = [
+                new File(['a'], 'dog.PNG', { type: 'image/png' }),
+                new File(['b'], 'cat.jpg', { type: 'image/jpeg' }),
+            ];
+            const result = await uploadCommissionReferences(files);
+
+            expect(result.error).toBeNull();
+            expect(result.data).toHaveLength(2);
+            expect(result.data?.[0]).toMatch(/^[\w-]+\/reference-1\.png$/);
+            expect(result.data?.[1]).toMatch(/^[\w-]+\/reference-2\.jpg$/);
+            expect(result.data?.[0].split('/')[0]).toBe(
+                result.data?.[1].split('/')[0]
+            );
+            expect(upload).toHaveBeenCalledTimes(2);
+        });
+
+        it('should skip storage when there are no files', async () => {
+            const result = await uploadCommissionReferences([]);
+
+            expect(result).toEqual({ data: [], error: null });
+            expect(createServiceRoleClient).not.toHaveBeenCalled();
+        });
+
+        it('should return upload errors', async () => {
+            mockClient({
+                storage: {
+                    from: vi.fn().mockReturnValue({
+                        upload: vi.fn().mockResolvedValue({
+                            error: { message: 'Payload too large' },
+                        }),
+                    }),
+                },
+            });
+
+            const result = await uploadCommissionReferences([
+                new File(['a'], 'dog.png', { type: 'image/png' }),
+            ]);
+
+            expect(result.data).toBeNull();
+            expect(result.error?.message).toBe('Payload too large');
+        });
+    });
+
+    describe('getCommissionByPaymentLink', () => {
+        const mockLookup = (data: unknown) => {
+            const or = vi.fn().mockReturnValue({
+                maybeSingle: vi.fn().mockResolvedValue({ data, error: null }),
+            });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({ or }),
+                }),
+            });
+            return or;
+        };
+
+        it('should identify deposit links', async () => {
+            const or = mockLookup(commission);
+
+            const result = await getCommissionByPaymentLink('plink_deposit');
+
+            expect(result.data?.paymentType).toBe('deposit');
+            expect(or).toHaveBeenCalledWith(
+                'deposit_payment_link_id.eq.plink_deposit,balance_payment_link_id.eq.plink_deposit'
+            );
+        });
+
+        it('should identify balance links', async () => {
+            mockLookup(commission);
+
+            const result = await getCommissionByPaymentLink('plink_balance');
+
+            expect(result.data?.paymentType).toBe('balance');
+        });
+
+        it('should return null for links that are not commission links', async () => {
+            mockLookup(null);
+
+            const result = await getCommissionByPaymentLink('plink_other');
+
+            expect(result).toEqual({ data: null, error: null });
+        });
+    });
+
+    describe('recordCommissionPayment', () => {
+        const payment = {
+            commissionId: 'commission-1',
+            paymentType: 'deposit' as const,
+            amount: 150,
+            checkoutSessionId: 'cs_test_1',
+            paymentIntentId: 'pi_test_1',
+        };
+
+        const mockPaymentClient = (insertError: unknown = null) => {
+            const insert = vi.fn().mockResolvedValue({ error: insertError });
+            const statusIn = vi.fn().mockResolvedValue({ error: null });
+            const update = vi.fn().mockReturnValue({
+                eq: vi.fn().mockReturnValue({ in: statusIn }),
+            });
+            mockClient({
+                from: vi.fn((table: string) =>
+                    table === 'commission_payments' ? { insert } : { update }
+                ),
+            });
+            return { insert, update, statusIn };
+        };
+
+        it('should record a deposit and mark the commission deposit paid', async () => {
+            const { insert, update, statusIn } = mockPaymentClient();
+
+            const result = await recordCommissionPayment(payment);
+
+            expect(result).toEqual({ recorded: true, error: null });
+            expect(insert).toHaveBeenCalledWith({
+                commission_id: 'commission-1',
+                payment_type: 'deposit',
+                amount: '150.00',
+                stripe_checkout_session_id: 'cs_test_1',
+                payment_intent_id: 'pi_test_1',
+            });
+            expect(update).toHaveBeenCalledWith({ status: 'deposit_paid' });
+            expect(statusIn).toHaveBeenCalledWith('status', ['new', 'quoted']);
+        });
+
+        it('should not change the status for balance payments', async () => {
+            const { update } = mockPaymentClient();
+
+            const result = await recordCommissionPayment({
+                ...payment,
+                paymentType: 'balance',
+            });
+
+            expect(result.recorded).toBe(true);
+            expect(update).not.toHaveBeenCalled();
+        });
+
+        it('should treat an already recorded session as a no-op', async () => {
+            const { update } = mockPaymentClient({
+                code: '23505',
+                message: 'duplicate key value',
+            });
+
+            const result = await recordCommissionPayment(payment);
+
+            expect(result).toEqual({ recorded: false, error: null });
+            expect(update).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Coupon Hold Database Tests
+ *
+ * Tests for holding and releasing a coupon use for an open checkout.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { releaseCouponHolds, reserveCoupon } from '@/lib/db/coupons';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+const mockCreateServiceRoleClient = vi.mocked(createServiceRoleClient);
+
+const mockClient = (client: object) =>
+    mockCreateServiceRoleClient.mockResolvedValue(
+        client as unknown as Awaited<ReturnType<typeof createServiceRoleClient>>
+    );
+
+describe('Coupon Hold Database Functions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('reserveCoupon', () => {
+        it('should hold a use of the coupon for the reservation', async () => {
+            const rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+            mockClient({ rpc });
+
+            const result = await reserveCoupon(
+                'reservation-1',
+                'coupon-1',
+                new Date('2025-01-01T12:33:00.000Z')
+            );
+
+            expect(result.error).toBeNull();
+            expect(rpc).toHaveBeenCalledWith('reserve_coupon', {
+                p_reservation_id: 'reservation-1',
+                p_coupon_id: 'coupon-1',
+                p_expires_at: '2025-01-01T12:33:00.000Z',
+            });
+        });
+
+        it('should report a coupon used up by other checkouts', async () => {
+            mockClient({
+                rpc: vi.fn().mockResolvedValue({
+                    data: null,
+                    error: {
+                        code: 'P0001',
+                        message: 'coupon_usage_limit_reached',
+                        details: 'coupon coupon-1',
+                    },
+                }),
+            });
+
+            const result = await reserveCoupon(
+                'reservation-1',
+                'coupon-1',
+                new Date()
+            );
+
+            expect(result.error).toEqual({
+                code: 'coupon_usage_limit_reached',
+                message: 'This coupon has reached its usage limit',
+                details: 'coupon coupon-1',
+            });
+        });
+
+        it('should pass through other database errors', async () => {
+            mockClient({
+                rpc: vi.fn().mockResolvedValue({
+                    data: null,
+                    error: { code: 'XX000', message: 'connection lost' },
+                }),
+            });
+
+            const result = await reserveCoupon(
+                'reservation-1',
+                'coupon-1',
+                new Date()
+            );
+
+            expect(result.error).toEqual({
+                code: 'XX000',
+                message: 'connection lost',
+            });
+        });
+    });
+
+    describe('releaseCouponHolds', () => {
+        it("should delete the reservation's hold", async () => {
+            const eq = vi.fn().mockResolvedValue({ error: null });
+            const from = vi.fn().mockReturnValue({
+                delete: vi.fn().mockReturnValue({ eq }),
+            });
+            mockClient({ from });
+
+            const result = await releaseCouponHolds('reservation-1');
+
+            expect(result.error).toBeNull();
+            expect(from).toHaveBeenCalledWith('coupon_holds');
+            expect(eq).toHaveBeenCalledWith('reservation_id', 'reservation-1');
+        });
+
+        it('should return database errors', async () => {
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    delete: vi.fn().mockReturnValue({
+                        eq: vi.fn().mockResolvedValue({
+                            error: { code: '500', message: 'delete failed' },
+                        }),
+                    }),
+                }),
+            });
+
+            const result = await releaseCouponHolds('reservation-1');
+
+            expect(result.error?.message).toBe('delete failed');
+        });
+    });
+});
@@ -0,0 +1,270 @@
+/**
+ * Customer Account Database Tests
+ *
+ * Tests for looking up the signed-in customer, creating accounts on first
+ * sign-in, saving account details, spotting administrator addresses and
+ * checking email preferences.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    getSignedInCustomer,
+    isAdministratorEmail,
+    updateCustomer,
+    upsertCustomer,
+    wantsOrderUpdateEmails,
+} from '@/lib/db/customers';
+import {
+    createAnonClient,
+    createServiceRoleClient,
+} from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createAnonClient: vi.fn(),
+    createServiceRoleClient: vi.fn(),
+}));
+
+const mockClient = (client: object) =>
+    vi.mocked(createServiceRoleClient).mockResolvedValue(client as never);
+
+const mockUser = (user: { id: string; email?: string } | null) =>
+    vi.mocked(createAnonClient).mockResolvedValue({
+        auth: {
+            getUser: vi.fn().mockResolvedValue({ data: { user } }),
+        },
+    } as never);
+
+const customerRow = {
+    id: 'customer-1',
+    auth_id: 'auth-1',
+    email: 'collector@example.com',
+    order_update_emails: true,
+};
+
+describe('Customer Database Functions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('getSignedInCustomer', () => {
+        it('should return null when nobody is signed in', async () => {
+            mockUser(null);
+
+            const result = await getSignedInCustomer();
+
+            expect(result).toEqual({ data: null, error: null });
+            expect(createServiceRoleClient).not.toHaveBeenCalled();
+        });
+
+        it('should load the account of the signed-in user', async () => {
+            mockUser({ id: 'auth-1', email: 'collector@example.com' });
+            const eq = vi.fn().mockReturnValue({
+                maybeSingle: vi
+                    .fn()
+                    .mockResolvedValue({ data: customerRow, error: null }),
+            });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({ eq }),
+                }),
+            });
+
+            const result = await getSignedInCustomer();
+
+            expect(eq).toHaveBeenCalledWith('auth_id', 'auth-1');
+            expect(result).toEqual({ data: customerRow, error: null });
+        });
+
+        it('should use the verified auth email rather than the stored one', async () => {
+            mockUser({ id: 'auth-1', email: 'Collector@Example.com' });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({
+                        eq: vi.fn().mockReturnValue({
+                            maybeSingle: vi.fn().mockResolvedValue({
+                                data: {
+                                    ...customerRow,
+                                    email: 'victim@example.com',
+                                },
+                                error: null,
+                            }),
+                        }),
+                    }),
+                }),
+            });
+
+            const result = await getSignedInCustomer();
+
+            expect(result.data?.email).toBe('collector@example.com');
+        });
+
+        it('should return null for users without an email', async () => {
+            mockUser({ id: 'auth-1' });
+
+            const result = await getSignedInCustomer();
+
+            expect(result).toEqual({ data: null, error: null });
+            expect(createServiceRoleClient).not.toHaveBeenCalled();
+        });
+
+        it('should return null for users without an account (administrators)', async () => {
+            mockUser({ id: 'admin-auth', email: 'admin@example.com' });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({
+                        eq: vi.fn().mockReturnValue({
+                            maybeSingle: vi
+                                .fn()
+                                .mockResolvedValue({ data: null, error: null }),
+                        }),
+                    }),
+                }),
+            });
+
+            const result = await getSignedInCustomer();
+
+            expect(result).toEqual({ data: null, error: null });
+        });
+    });
+
+    describe('upsertCustomer', () => {
+        it('should create or update the account keyed by auth user', async () => {
+            const upsert = vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    single: vi
+                        .fn()
+                        .mockResolvedValue({ data: customerRow, error: null }),
+                }),
+            });
+            mockClient({ from: vi.fn().mockReturnValue({ upsert }) });
+
+            const result = await upsertCustomer(
+                'auth-1',
+                ' Collector@Example.com '
+            );
+
+            expect(upsert).toHaveBeenCalledWith(
+                { auth_id: 'auth-1', email: 'collector@example.com' },
+                { onConflict: 'auth_id' }
+            );
+            expect(result).toEqual({ data: customerRow, error: null });
+        });
+
+        it('should return database errors', async () => {
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    upsert: vi.fn().mockReturnValue({
+                        select: vi.fn().mockReturnValue({
+                            single: vi.fn().mockResolvedValue({
+                                data: null,
+                                error: {
+                                    code: '23505',
+                                    message: 'duplicate key',
+                                },
+                            }),
+                        }),
+                    }),
+                }),
+            });
+
+            const result = await upsertCustomer(
+                'auth-1',
+                'collector@example.com'
+            );
+
+            expect(result).toEqual({
+                data: null,
+                error: { code: '23505', message: 'duplicate key' },
+            });
+        });
+    });
+
+    describe('updateCustomer', () => {
+        it('should update the given columns', async () => {
+            const eq = vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    single: vi
+                        .fn()
+                        .mockResolvedValue({ data: customerRow, error: null }),
+                }),
+            });
+            const update = vi.fn().mockReturnValue({ eq });
+            mockClient({ from: vi.fn().mockReturnValue({ update }) });
+
+            const result = await updateCustomer('customer-1', {
+                order_update_emails: false,
+            });
+
+            expect(update).toHaveBeenCalledWith({ order_update_emails: false });
+            expect(eq).toHaveBeenCalledWith('id', 'customer-1');
+            expect(result.error).toBeNull();
+        });
+    });
+
+    describe('isAdministratorEmail', () => {
+        const mockAdministrators = (data: unknown[] | null, error = null) => {
+            const ilike = vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data, error }),
+            });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({ ilike }),
+                }),
+            });
+            return ilike;
+        };
+
+        it('should match administrator emails case-insensitively', async () => {
+            const ilike = mockAdministrators([{ id: 'admin-1' }]);
+
+            const result = await isAdministratorEmail('Owner_1@Example.com');
+
+            expect(ilike).toHaveBeenCalledWith(
+                'email',
+                'Owner\\_1@Example.com'
+            );
+            expect(result).toEqual({ data: true, error: null });
+        });
+
+        it('should report customer emails as not administrators', async () => {
+            mockAdministrators([]);
+
+            const result = await isAdministratorEmail('collector@example.com');
+
+            expect(result).toEqual({ data: false, error: null });
+        });
+    });
+
+    describe('wantsOrderUpdateEmails', () => {
+        const mockPreference = (data: unknown) => {
+            const eq = vi.fn().mockReturnValue({
+                maybeSingle: vi.fn().mockResolvedValue({ data, error: null }),
+            });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({ eq }),
+                }),
+            });
+            return eq;
+        };
+
+        it("should follow the customer's preference", async () => {
+            const eq = mockPreference({ order_update_emails: false });
+
+            const result = await wantsOrderUpdateEmails(
+                ' Collector@Example.com'
+            );
+
+            expect(eq).toHaveBeenCalledWith('email', 'collector@example.com');
+            expect(result).toEqual({ data: false, error: null });
+        });
+
+        it('should email guests without an account', async () => {
+            mockPreference(null);
+
+            const result = await wantsOrderUpdateEmails('guest@example.com');
+
+            expect(result).toEqual({ data: true, error: null });
+        });
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * Gift Card Database Tests
+ *
+ * Tests for issuing gift cards and holding, releasing and redeeming their
+ * balances during checkout.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    issueGiftCard,
+    redeemGiftCardHolds,
+    releaseGiftCardHolds,
+    reserveGiftCards,
+    type GiftCardInsert,
+} from '@/lib/db/gift-cards';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { AppliedGiftCard } from '@/types/cart';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+const mockCreateServiceRoleClient = vi.mocked(createServiceRoleClient);
+
+const mockClient = (client: object) =>
+    mockCreateServiceRoleClient.mockResolvedValue(
+        client as unknown as Awaited<ReturnType<typeof createServiceRoleClient>>
+    );
+
+const purchase: GiftCardInsert = {
+    initial_amount: '50.00',
+    purchaser_name: 'Sam',
+    purchaser_email: 'Sam@Example.com',
+    recipient_name: 'Alex',
+    recipient_email: 'Alex@Example.com',
+    message: null,
+    deliver_on: '2025-06-01',
+    stripe_checkout_session_id: 'cs_test_1',
+    payment_intent_id: 'pi_test_1',
+};
+
+const giftCards: AppliedGiftCard[] = [
+    { id: 'card-1', code: 'A', availableBalance: 25, redeemedAmount: 25 },
+    { id: 'card-2', code: 'B', availableBalance: 50, redeemedAmount: 0 },
+];
+
+/**
+ * Mock of supabase.from('gift_cards').insert().select().single()
+ */
+const mockInsert = (...results: Array<{ data: unknown; error: unknown }>) => {
+    const single = vi.fn();
+    results.forEach((result) => single.mockResolvedValueOnce(result));
+    const insert = vi.fn(() => ({ select: () => ({ single }) }));
+    mockClient({ from: vi.fn(() => ({ insert })) });
+    return insert;
+};
+
+describe('Gift Card Database Functions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('issueGiftCard', () => {
+        it('should issue a card with a code and its full balance', async () => {
+            const insert = mockInsert({
+                data: { id: 'card-1' },
+                error: null,
+            });
+
+            const result = await issueGiftCard(purchase);
+
+            expect(result).toEqual({ data: { id: 'card-1' }, error: null });
+            expect(insert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    code: expect.stringMatching(/^GIFT-/),
+                    balance: '50.00',
+                    purchaser_email: 'sam@example.com',
+                    recipient_email: 'alex@example.com',
+                })
+            );
+        });
+
+        it('should retry when the generated code is taken', async () => {
+            const insert = mockInsert(
+                {
+                    data: null,
+                    error: {
+                        code: '23505',
+                        message:
+                            'duplicate key value violates "gift_cards_code_key"',
+                    },
+                },
+                { data: { id: 'card-1' }, error: null }
+            );
+
+            const result = await issueGiftCard(purchase);
+
+            expect(result.data).toEqual({ id: 'card-1' });
+            expect(insert).toHaveBeenCalledTimes(2);
+        });
+
+        it('should do nothing when the session already issued a card', async () => {
+            const insert = mockInsert({
+                data: null,
+                error: {
+                    code: '23505',
+                    message:
+                        'duplicate key value violates "gift_cards_stripe_checkout_session_id_key"',
+                },
+            });
+
+            const result = await issueGiftCard(purchase);
+
+            expect(result).toEqual({ data: null, error: null });
+            expect(insert).toHaveBeenCalledTimes(1);
+        });
+
+        it('should pass through other database errors', async () => {
+            mockInsert({
+                data: null,
+                error: { code: '42P01', message: 'relation missing' },
+            });
+
+            const result = await issueGiftCard(purchase);
+
+            expect(result.error).toEqual({
+                code: '42P01',
+                message: 'relation missing',
+            });
+        });
+    });
+
+    describe('reserveGiftCards', () => {
+        it('should hold only the cards that redeem something', async () => {
+            const rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+            mockClient({ rpc });
+
+            const result = await reserveGiftCards(
+                'reservation-1',
+                giftCards,
+                new Date('2025-01-01T12:30:00.000Z')
+            );
+
+            expect(result.error).toBeNull();
+            expect(rpc).toHaveBeenCalledWith('reserve_gift_cards', {
+                p_reservation_id: 'reservation-1',
+                p_redemptions: [{ gift_card_id: 'card-1', amount: 25 }],
+                p_expires_at: '2025-01-01T12:30:00.000Z',
+            });
+        });
+
+        it('should skip the database when nothing is redeemed', async () => {
+            const result = await reserveGiftCards(
+                'reservation-1',
+                [],
+                new Date()
+            );
+
+            expect(result.error).toBeNull();
+            expect(mockCreateServiceRoleClient).not.toHaveBeenCalled();
+        });
+
+        it('should report a balance spent by another checkout', async () => {
+            mockClient({
+                rpc: vi.fn().mockResolvedValue({
+                    data: null,
+                    error: {
+                        code: 'P0001',
+                        message: 'insufficient_gift_card_balance',
+                        details: 'gift card card-1',
+                    },
+                }),
+            });
+
+            const result = await reserveGiftCards(
+                'reservation-1',
+                giftCards,
+                new Date()
+            );
+
+            expect(result.error?.code).toBe('insufficient_gift_card_balance');
+            expect(result.error?.message).toMatch(/another checkout/);
+        });
+    });
+
+    describe('releaseGiftCardHolds', () => {
+        it('should delete the reservation holds', async () => {
+            const eq = vi.fn().mockResolvedValue({ error: null });
+            const from = vi.fn(() => ({ delete: () => ({ eq }) }));
+            mockClient({ from });
+
+            const result = await releaseGiftCardHolds('reservation-1');
+
+            expect(result.error).toBeNull();
+            expect(from).toHaveBeenCalledWith('gift_card_holds');
+            expect(eq).toHaveBeenCalledWith('reservation_id', 'reservation-1');
+        });
+    });
+
+    describe('redeemGiftCardHolds', () => {
+        it('should redeem the holds against the order', async () => {
+            const rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+            mockClient({ rpc });
+
+            const result = await redeemGiftCardHolds(
+                'reservation-1',
+                'order-1'
+            );
+
+            expect(result.error).toBeNull();
+            expect(rpc).toHaveBeenCalledWith('redeem_gift_card_holds', {
+                p_reservation_id: 'reservation-1',
+                p_order_id: 'order-1',
+            });
+        });
+    });
+});
@@ -0,0 +1,362 @@
+/**
+ * Inventory Hold Database Tests
+ *
+ * Tests for reserving, attaching, looking up and releasing checkout
+ * inventory holds, and for the cart lines recorded with them.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    attachCheckoutSession,
+    getCheckoutItems,
+    getReservationCheckoutSession,
+    releaseInventoryHolds,
+    reserveInventory,
+    saveCheckoutItems,
+} from '@/lib/db/inventory-holds';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { CartItem } from '@/types/cart';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+const mockCreateServiceRoleClient = vi.mocked(createServiceRoleClient);
+
+const items: CartItem[] = [
+    {
+        artworkId: 'artwork-1',
+        title: 'Print',
+        price: 50,
+        quantity: 2,
+        slug: 'print',
+    },
+    {
+        artworkId: 'artwork-2',
+        title: 'Framed Print',
+        price: 120,
+        quantity: 1,
+        slug: 'framed-print',
+        variantId: 'variant-1',
+        variantName: '11x14, Black frame',
+    },
+];
+
+const mockClient = (client: object) =>
+    mockCreateServiceRoleClient.mockResolvedValue(
+        client as unknown as Awaited<ReturnType<typeof createServiceRoleClient>>
+    );
+
+describe('Inventory Hold Database Functions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('reserveInventory', () => {
+        it('should reserve every cart line in one call', async () => {
+            const rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+            mockClient({ rpc });
+
+            const expiresAt = new Date('2025-01-01T12:30:00.000Z');
+            const result = await reserveInventory(
+                'reservation-1',
+                items,
+                expiresAt
+            );
+
+            expect(result.error).toBeNull();
+            expect(rpc).toHaveBeenCalledWith('reserve_inventory', {
+                p_reservation_id: 'reservation-1',
+                p_items: [
+                    { artwork_id: 'artwork-1', variant_id: null, quantity: 2 },
+                    {
+                        artwork_id: 'artwork-2',
+                        variant_id: 'variant-1',
+                        quantity: 1,
+                    },
+                ],
+                p_expires_at: '2025-01-01T12:30:00.000Z',
+            });
+        });
+
+        it('should report stock taken by another checkout', async () => {
+            mockClient({
+                rpc: vi.fn().mockResolvedValue({
+                    data: null,
+                    error: {
+                        code: 'P0001',
+                        message: 'insufficient_inventory',
+                        details: 'artwork-1',
+                    },
+                }),
+            });
+
+            const result = await reserveInventory(
+                'reservation-1',
+                items,
+                new Date()
+            );
+
+            expect(result.error?.code).toBe('insufficient_inventory');
+            expect(result.error?.message).toMatch(/reserved by another/);
+        });
+
+        it('should pass through other database errors', async () => {
+            mockClient({
+                rpc: vi.fn().mockResolvedValue({
+                    data: null,
+                    error: { code: '42P01', message: 'relation missing' },
+                }),
+            });
+
+            const result = await reserveInventory(
+                'reservation-1',
+                items,
+                new Date()
+            );
+
+            expect(result.error).toEqual({
+                code: '42P01',
+                message: 'relation missing',
+            });
+        });
+    });
+
+    describe('attachCheckoutSession', () => {
+        it('should record the session on the reservation holds', async () => {
+            const eq = vi.fn().mockResolvedValue({ error: null });
+            const update = vi.fn().mockReturnValue({ eq });
+            mockClient({ from: vi.fn().mockReturnValue({ update }) });
+
+            const result = await attachCheckoutSession(
+                'reservation-1',
+                'cs_test_123'
+            );
+
+            expect(result.error).toBeNull();
+            expect(update).toHaveBeenCalledWith({
+                checkout_session_id: 'cs_test_123',
+            });
+            expect(eq).toHaveBeenCalledWith('reservation_id', 'reservation-1');
+        });
+    });
+
+    describe('getReservationCheckoutSession', () => {
+        const mockSelect = (result: object) => {
+            const eq = vi.fn().mockReturnValue({
+                not: vi.fn().mockReturnValue({
+                    limit: vi.fn().mockReturnValue({
+                        maybeSingle: vi.fn().mockResolvedValue(result),
+                    }),
+                }),
+            });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({ eq }),
+                }),
+            });
+            return eq;
+        };
+
+        it('should return the session holding the reservation', async () => {
+            const eq = mockSelect({
+                data: { checkout_session_id: 'cs_test_123' },
+                error: null,
+            });
+
+            const result = await getReservationCheckoutSession('reservation-1');
+
+            expect(eq).toHaveBeenCalledWith('reservation_id', 'reservation-1');
+            expect(result).toEqual({ data: 'cs_test_123', error: null });
+        });
+
+        it('should return null when nothing is held', async () => {
+            mockSelect({ data: null, error: null });
+
+            const result = await getReservationCheckoutSession('reservation-1');
+
+            expect(result).toEqual({ data: null, error: null });
+        });
+
+        it('should return database errors', async () => {
+            mockSelect({
+                data: null,
+                error: { code: '500', message: 'select failed' },
+            });
+
+            const result = await getReservationCheckoutSession('reservation-1');
+
+            expect(result.error?.message).toBe('select failed');
+        });
+    });
+
+    describe('releaseInventoryHolds', () => {
+        const mockDelete = (result: object) => {
+            const select = vi.fn().mockResolvedValue(result);
+            const eq = vi.fn().mockReturnValue({ select });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    delete: vi.fn().mockReturnValue({ eq }),
+                }),
+            });
+            return eq;
+        };
+
+        it('should return the session the released holds belonged to', async () => {
+            const eq = mockDelete({
+                data: [
+                    { checkout_session_id: 'cs_test_123' },
+                    { checkout_session_id: 'cs_test_123' },
+                ],
+                error: null,
+            });
+
+            const result = await releaseInventoryHolds('reservation-1');
+
+            expect(eq).toHaveBeenCalledWith('reservation_id', 'reservation-1');
+            expect(result).toEqual({
+                data: { checkoutSessionId: 'cs_test_123' },
+                error: null,
+            });
+        });
+
+        it('should return no session when nothing was held', async () => {
+            mockDelete({ data: [], error: null });
+
+            const result = await releaseInventoryHolds('reservation-1');
+
+            expect(result.data?.checkoutSessionId).toBeNull();
+        });
+
+        it('should return database errors', async () => {
+            mockDelete({
+                data: null,
+                error: { code: '500', message: 'delete failed' },
+            });
+
+            const result = await releaseInventoryHolds('reservation-1');
+
+            expect(result.data).toBeNull();
+            expect(result.error?.message).toBe('delete failed');
+        });
+    });
+
+    describe('saveCheckoutItems', () => {
+        it('should record the cart lines on the reservation', async () => {
+            const upsert = vi.fn().mockResolvedValue({ error: null });
+            const from = vi.fn().mockReturnValue({ upsert });
+            mockClient({ from });
+
+            const result = await saveCheckoutItems('reservation-1', items);
+
+            expect(result.error).toBeNull();
+            expect(from).toHaveBeenCalledWith('checkout_reservations');
+            expect(upsert).toHaveBeenCalledWith(
+                {
+                    reservation_id: 'reservation-1',
+                    items: [
+                        {
+                            artwork_id: 'artwork-1',
+                            variant_id: null,
+                            quantity: 2,
+                            price: 50,
+                        },
+                        {
+                            artwork_id: 'artwork-2',
+                            variant_id: 'variant-1',
+                            quantity: 1,
+                            price: 120,
+                        },
+                    ],
+                },
+                { onConflict: 'reservation_id' }
+            );
+        });
+
+        it('should return database errors', async () => {
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    upsert: vi.fn().mockResolvedValue({
+                        error: { code: '500', message: 'upsert failed' },
+                    }),
+                }),
+            });
+
+            const result = await saveCheckoutItems('reservation-1', items);
+
+            expect(result.error?.message).toBe('upsert failed');
+        });
+    });
+
+    describe('getCheckoutItems', () => {
+        const mockSelect = (result: object) => {
+            const eq = vi.fn().mockReturnValue({
+                maybeSingle: vi.fn().mockResolvedValue(result),
+            });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({ eq }),
+                }),
+            });
+            return eq;
+        };
+
+        it('should return the recorded cart lines', async () => {
+            const eq = mockSelect({
+                data: {
+                    items: [
+                        {
+                            artwork_id: 'artwork-1',
+                            variant_id: null,
+                            quantity: 2,
+                            price: 50,
+                        },
+                        {
+                            artwork_id: 'artwork-2',
+                            variant_id: 'variant-1',
+                            quantity: 1,
+                            price: 120,
+                        },
+                    ],
+                },
+                error: null,
+            });
+
+            const result = await getCheckoutItems('reservation-1');
+
+            expect(eq).toHaveBeenCalledWith('reservation_id', 'reservation-1');
+            expect(result).toEqual({
+                data: [
+                    { artworkId: 'artwork-1', quantity: 2, price: 50 },
+                    {
+                        artworkId: 'artwork-2',
+                        variantId: 'variant-1',
+                        quantity: 1,
+                        price: 120,
+                    },
+                ],
+                error: null,
+            });
+        });
+
+        it('should return no lines for an unknown reservation', async () => {
+            mockSelect({ data: null, error: null });
+
+            const result = await getCheckoutItems('reservation-1');
+
+            expect(result).toEqual({ data: [], error: null });
+        });
+
+        it('should return database errors', async () => {
+            mockSelect({
+                data: null,
+                error: { code: '500', message: 'select failed' },
+            });
+
+            const result = await getCheckoutItems('reservation-1');
+
+            expect(result.data).toBeNull();
+            expect(result.error?.message).toBe('select failed');
+        });
+    });
+});
@@ -11,7 +11,11 @@
  * in integration tests or with a local Supabase instance.
  */
 
-import { getAllProjects, getProjectBySlug } from '@/lib/db/projects';
+import {
+    getAllProjects,
+    getProjectById,
+    getProjectBySlug,
+} from '@/lib/db/projects';
 
 describe('Projects Database Queries', () => {
     describe('function exports', () => {
@@ -22,6 +26,10 @@ describe('Projects Database Queries', () => {
         it('should export getProjectBySlug as a function', () => {
             expect(typeof getProjectBySlug).toBe('function');
         });
+
+        it('should export getProjectById as a function', () => {
+            expect(typeof getProjectById).toBe('function');
+        });
     });
 
     describe('function signatures', () => {
@@ -0,0 +1,65 @@
+/**
+ * Rate Limit Database Tests
+ *
+ * Tests for counting attempts against a rate limit.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { consumeRateLimit } from '@/lib/db/rate-limits';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+const LIMIT = { scope: 'order-lookup-ip', maxAttempts: 10, windowSeconds: 900 };
+
+describe('consumeRateLimit', () => {
+    const rpc = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(createServiceRoleClient).mockResolvedValue({
+            rpc,
+        } as never);
+    });
+
+    it('counts the attempt under a hashed key', async () => {
+        rpc.mockResolvedValue({ data: true, error: null });
+
+        const result = await consumeRateLimit(LIMIT, ' Jane@Example.com ');
+
+        const hash = createHash('sha256')
+            .update('jane@example.com')
+            .digest('hex');
+        expect(rpc).toHaveBeenCalledWith('consume_rate_limit', {
+            p_key: `order-lookup-ip:${hash}`,
+            p_max_attempts: 10,
+            p_window_seconds: 900,
+        });
+        expect(result).toEqual({ data: true, error: null });
+    });
+
+    it('reports when the limit is used up', async () => {
+        rpc.mockResolvedValue({ data: false, error: null });
+
+        const result = await consumeRateLimit(LIMIT, '203.0.113.7');
+
+        expect(result.data).toBe(false);
+    });
+
+    it('returns database errors', async () => {
+        rpc.mockResolvedValue({
+            data: null,
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+
+        const result = await consumeRateLimit(LIMIT, '203.0.113.7');
+
+        expect(result).toEqual({
+            data: null,
+            error: { code: 'XX000', message: 'connection lost' },
+        });
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Site Search Query Tests
+ *
+ * Tests that public search calls the search_site RPC without drafts and
+ * reports errors in the shape the search page expects.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockRpc } = vi.hoisted(() => ({ mockRpc: vi.fn() }));
+
+vi.mock('@supabase/supabase-js', () => ({
+    createClient: () => ({ rpc: mockRpc }),
+}));
+
+import { searchSite, type SearchResult } from '@/lib/db/search';
+
+const result: SearchResult = {
+    result_type: 'artwork',
+    id: 'artwork-1',
+    title: 'Blue Dragon',
+    slug: 'blue-dragon',
+    snippet: 'A <mark>dragon</mark> over the hills',
+    image_url: null,
+    is_published: true,
+    rank: 0.6,
+};
+
+describe('searchSite', () => {
+    beforeEach(() => {
+        mockRpc.mockReset();
+    });
+
+    it('searches published content only', async () => {
+        mockRpc.mockResolvedValue({ data: [result], error: null });
+
+        const { data, error } = await searchSite('dragon');
+
+        expect(mockRpc).toHaveBeenCalledWith('search_site', {
+            p_query: 'dragon',
+            p_limit: 20,
+        });
+        expect(error).toBeNull();
+        expect(data).toEqual([result]);
+    });
+
+    it('returns an empty list when nothing matches', async () => {
+        mockRpc.mockResolvedValue({ data: null, error: null });
+
+        const { data } = await searchSite('nothing');
+
+        expect(data).toEqual([]);
+    });
+
+    it('returns the database error', async () => {
+        mockRpc.mockResolvedValue({
+            data: null,
+            error: { code: '42883', message: 'function does not exist' },
+        });
+
+        const { data, error } = await searchSite('dragon');
+
+        expect(data).toBeNull();
+        expect(error).toEqual({
+            code: '42883',
+            message: 'function does not exist',
+        });
+    });
+
+    it('returns fetch_error when the request throws', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        mockRpc.mockRejectedValue(new Error('network down'));
+
+        const { data, error } = await searchSite('dragon');
+
+        expect(data).toBeNull();
+        expect(error?.code).toBe('fetch_error');
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * Waitlist Database Tests
+ *
+ * Tests for back-in-stock sign-ups, pending lookups, unsubscribes and a
+ * customer's own subscriptions.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    getPendingWaitlistEntries,
+    getWaitlistSubscriptions,
+    joinWaitlist,
+    leaveWaitlist,
+    markWaitlistNotified,
+    unsubscribeFromWaitlist,
+} from '@/lib/db/waitlist';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+const mockClient = (client: object) =>
+    vi
+        .mocked(createServiceRoleClient)
+        .mockResolvedValue(
+            client as unknown as Awaited<
+                ReturnType<typeof createServiceRoleClient>
+            >
+        );
+
+describe('Waitlist Database Functions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('joinWaitlist', () => {
+        it('should upsert one lowercase entry per artwork and address', async () => {
+            const upsert = vi.fn().mockResolvedValue({ error: null });
+            mockClient({ from: vi.fn().mockReturnValue({ upsert }) });
+
+            const result = await joinWaitlist('artwork-1', ' Fan@Example.com ');
+
+            expect(result.error).toBeNull();
+            expect(upsert).toHaveBeenCalledWith(
+                {
+                    artwork_id: 'artwork-1',
+                    email: 'fan@example.com',
+                    notified_at: null,
+                    unsubscribed_at: null,
+                },
+                { onConflict: 'artwork_id,email' }
+            );
+        });
+
+        it('should return database errors', async () => {
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    upsert: vi.fn().mockResolvedValue({
+                        error: { code: '23503', message: 'fk violation' },
+                    }),
+                }),
+            });
+
+            const result = await joinWaitlist('artwork-1', 'fan@example.com');
+
+            expect(result.error?.code).toBe('23503');
+        });
+    });
+
+    describe('getPendingWaitlistEntries', () => {
+        it('should exclude notified and unsubscribed entries', async () => {
+            const entries = [
+                {
+                    id: 'entry-1',
+                    email: 'fan@example.com',
+                    unsubscribe_token: 'token-1',
+                },
+            ];
+            const is = vi.fn().mockReturnValueOnce({
+                is: vi.fn().mockResolvedValue({
+                    data: entries,
+                    error: null,
+                }),
+            });
+            const eq = vi.fn().mockReturnValue({ is });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({ eq }),
+                }),
+            });
+
+            const result = await getPendingWaitlistEntries('artwork-1');
+
+            expect(eq).toHaveBeenCalledWith('artwork_id', 'artwork-1');
+            expect(is).toHaveBeenCalledWith('notified_at', null);
+            expect(result).toEqual({ data: entries, error: null });
+        });
+    });
+
+    describe('markWaitlistNotified', () => {
+        it('should skip the query when nothing was sent', async () => {
+            const result = await markWaitlistNotified([]);
+
+            expect(result.error).toBeNull();
+            expect(createServiceRoleClient).not.toHaveBeenCalled();
+        });
+
+        it('should stamp notified_at on the sent entries', async () => {
+            const inFilter = vi.fn().mockResolvedValue({ error: null });
+            const update = vi.fn().mockReturnValue({ in: inFilter });
+            mockClient({ from: vi.fn().mockReturnValue({ update }) });
+
+            await markWaitlistNotified(['entry-1', 'entry-2']);
+
+            expect(update).toHaveBeenCalledWith({
+                notified_at: expect.any(String),
+            });
+            expect(inFilter).toHaveBeenCalledWith('id', ['entry-1', 'entry-2']);
+        });
+    });
+
+    describe('unsubscribeFromWaitlist', () => {
+        it('should unsubscribe every entry of the token address', async () => {
+            const updateEq = vi.fn().mockReturnValue({
+                is: vi.fn().mockResolvedValue({ error: null }),
+            });
+            const update = vi.fn().mockReturnValue({ eq: updateEq });
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({
+                        eq: vi.fn().mockReturnValue({
+                            maybeSingle: vi.fn().mockResolvedValue({
+                                data: { email: 'fan@example.com' },
+                                error: null,
+                            }),
+                        }),
+                    }),
+                    update,
+                }),
+            });
+
+            const result = await unsubscribeFromWaitlist('token-1');
+
+            expect(update).toHaveBeenCalledWith({
+                unsubscribed_at: expect.any(String),
+            });
+            expect(updateEq).toHaveBeenCalledWith('email', 'fan@example.com');
+            expect(result).toEqual({
+                data: { email: 'fan@example.com' },
+                error: null,
+            });
+        });
+
+        it('should return no address for unknown tokens', async () => {
+            const update = vi.fn();
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({
+                        eq: vi.fn().mockReturnValue({
+                            maybeSingle: vi.fn().mockResolvedValue({
+                                data: null,
+                                error: null,
+                            }),
+                        }),
+                    }),
+                    update,
+                }),
+            });
+
+            const result = await unsubscribeFromWaitlist('unknown');
+
+            expect(result).toEqual({ data: null, error: null });
+            expect(update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getWaitlistSubscriptions', () => {
+        it('should list the address active sign-ups with their artwork', async () => {
+            const eq = vi.fn();
+            const is = vi.fn();
+            const query = {
+                eq,
+                is,
+                order: vi.fn().mockResolvedValue({
+                    data: [
+                        {
+                            artwork_id: 'art-1',
+                            created_at: '2025-12-01T00:00:00Z',
+                            artwork: {
+                                title: 'Moonlit Harbor',
+                                slug: 'moonlit-harbor',
+                            },
+                        },
+                    ],
+                    error: null,
+                }),
+            };
+            eq.mockReturnValue(query);
+            is.mockReturnValue(query);
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue(query),
+                }),
+            });
+
+            const result = await getWaitlistSubscriptions(' Fan@Example.com ');
+
+            expect(eq).toHaveBeenCalledWith('email', 'fan@example.com');
+            expect(is).toHaveBeenCalledWith('notified_at', null);
+            expect(is).toHaveBeenCalledWith('unsubscribed_at', null);
+            expect(result).toEqual({
+                data: [
+                    {
+                        artworkId: 'art-1',
+                        title: 'Moonlit Harbor',
+                        slug: 'moonlit-harbor',
+                        createdAt: '2025-12-01T00:00:00Z',
+                    },
+                ],
+                error: null,
+            });
+        });
+
+        it('should return database errors', async () => {
+            const query = {
+                eq: vi.fn(),
+                is: vi.fn(),
+                order: vi.fn().mockResolvedValue({
+                    data: null,
+                    error: { code: 'XX000', message: 'connection lost' },
+                }),
+            };
+            query.eq.mockReturnValue(query);
+            query.is.mockReturnValue(query);
+            mockClient({
+                from: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue(query),
+                }),
+            });
+
+            const result = await getWaitlistSubscriptions('fan@example.com');
+
+            expect(result).toEqual({
+                data: null,
+                error: { code: 'XX000', message: 'connection lost' },
+            });
+        });
+    });
+
+    describe('leaveWaitlist', () => {
+        it('should unsubscribe the address from one artwork', async () => {
+            const eq = vi.fn();
+            const query = {
+                eq,
+                is: vi.fn().mockResolvedValue({ error: null }),
+            };
+            eq.mockReturnValue(query);
+            const update = vi.fn().mockReturnValue(query);
+            mockClient({ from: vi.fn().mockReturnValue({ update }) });
+
+            const result = await leaveWaitlist('Fan@Example.com', 'art-1');
+
+            expect(update).toHaveBeenCalledWith({
+                unsubscribed_at: expect.any(String),
+            });
+            expect(eq).toHaveBeenCalledWith('email', 'fan@example.com');
+            expect(eq).toHaveBeenCalledWith('artwork_id', 'art-1');
+            expect(result).toEqual({ error: null });
+        });
+    });
+});
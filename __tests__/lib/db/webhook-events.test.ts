@@ -0,0 +1,104 @@
+/**
+ * Webhook Event Log Database Tests
+ *
+ * Tests for claiming Stripe events and recording how processing went.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type Stripe from 'stripe';
+import {
+    claimWebhookEvent,
+    completeWebhookEvent,
+} from '@/lib/db/webhook-events';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+vi.mock('@/lib/supabase/server', () => ({
+    createServiceRoleClient: vi.fn(),
+}));
+
+const event = {
+    id: 'evt_123',
+    type: 'charge.refunded',
+    data: { object: { id: 'ch_123' } },
+} as unknown as Stripe.Event;
+
+describe('claimWebhookEvent', () => {
+    const rpc = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(createServiceRoleClient).mockResolvedValue({
+            rpc,
+        } as never);
+    });
+
+    it('records the event with its payload', async () => {
+        rpc.mockResolvedValue({ data: true, error: null });
+
+        const result = await claimWebhookEvent(event);
+
+        expect(rpc).toHaveBeenCalledWith('claim_stripe_webhook_event', {
+            p_stripe_event_id: 'evt_123',
+            p_type: 'charge.refunded',
+            p_payload: event,
+        });
+        expect(result).toEqual({ claimed: true, error: null });
+    });
+
+    it('reports events that are already processed', async () => {
+        rpc.mockResolvedValue({ data: false, error: null });
+
+        const result = await claimWebhookEvent(event);
+
+        expect(result.claimed).toBe(false);
+    });
+
+    it('returns database errors', async () => {
+        rpc.mockResolvedValue({
+            data: null,
+            error: { code: '500', message: 'db down' },
+        });
+
+        const result = await claimWebhookEvent(event);
+
+        expect(result).toEqual({
+            claimed: false,
+            error: { code: '500', message: 'db down' },
+        });
+    });
+});
+
+describe('completeWebhookEvent', () => {
+    const update = vi.fn();
+    const eq = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        eq.mockResolvedValue({ error: null });
+        update.mockReturnValue({ eq });
+        vi.mocked(createServiceRoleClient).mockResolvedValue({
+            from: vi.fn().mockReturnValue({ update }),
+        } as never);
+    });
+
+    it('marks the event processed', async () => {
+        const result = await completeWebhookEvent('evt_123', null);
+
+        expect(update).toHaveBeenCalledWith({
+            status: 'processed',
+            error: null,
+            processed_at: expect.any(String),
+        });
+        expect(eq).toHaveBeenCalledWith('stripe_event_id', 'evt_123');
+        expect(result.error).toBeNull();
+    });
+
+    it('records why the event failed', async () => {
+        await completeWebhookEvent('evt_123', 'Failed to create order');
+
+        expect(update).toHaveBeenCalledWith({
+            status: 'failed',
+            error: 'Failed to create order',
+        });
+    });
+});
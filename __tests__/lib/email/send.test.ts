@@ -12,14 +12,33 @@
 import {
     EmailSendError,
     sendAdminNotificationEmail,
+    sendBackInStockEmail,
+    sendCommissionQuoteEmail,
+    sendCommissionRequestEmail,
     sendContactFormEmail,
+    sendDeliveryEmail,
+    sendDisputeAlertEmail,
+    sendGiftCardEmail,
     sendOrderConfirmationEmail,
     sendOrderEmails,
+    sendRefundEmail,
+    sendShippingEmail,
 } from '@/lib/email/send';
 import { render } from '@react-email/render';
 import { OrderConfirmation } from '@/lib/email/templates/OrderConfirmation';
 import { AdminNotification } from '@/lib/email/templates/AdminNotification';
 import { ContactFormSubmission } from '@/lib/email/templates/ContactFormSubmission';
+import { BackInStockNotification } from '@/lib/email/templates/BackInStockNotification';
+import { CommissionQuote } from '@/lib/email/templates/CommissionQuote';
+import { CommissionRequestNotification } from '@/lib/email/templates/CommissionRequestNotification';
+import { DeliveryNotification } from '@/lib/email/templates/DeliveryNotification';
+import { DisputeAlert } from '@/lib/email/templates/DisputeAlert';
+import { GiftCardDelivery } from '@/lib/email/templates/GiftCardDelivery';
+import { RefundNotice } from '@/lib/email/templates/RefundNotice';
+import { ShippingNotification } from '@/lib/email/templates/ShippingNotification';
+import type { CommissionRow } from '@/lib/db/commissions';
+import type { OrderRow } from '@/lib/db/admin/orders';
+import type { GiftCardRow } from '@/lib/db/gift-cards';
 import type { Order } from '@/types/order';
 
 // Mock order data for testing
@@ -688,4 +707,552 @@ describe('Email Service', () => {
             });
         });
     });
+
+    describe('sendBackInStockEmail', () => {
+        const recipient = {
+            email: 'fan@example.com',
+            unsubscribeToken: '123e4567-e89b-12d3-a456-426614174000',
+        };
+        const artwork = {
+            title: 'Dragon & Knight',
+            slug: 'dragon-and-knight',
+            image_thumbnail_url: 'https://example.com/thumb.jpg',
+        };
+
+        describe('configuration validation', () => {
+            const originalEnv = process.env;
+
+            beforeEach(() => {
+                process.env = { ...originalEnv };
+            });
+
+            afterAll(() => {
+                process.env = originalEnv;
+            });
+
+            it('should handle missing RESEND_API_KEY gracefully', async () => {
+                delete process.env.RESEND_API_KEY;
+
+                const result = await sendBackInStockEmail(recipient, artwork);
+
+                expect(result.success).toBe(false);
+                expect(result.error).toBeInstanceOf(EmailSendError);
+                expect(result.error?.message).toContain('RESEND_API_KEY');
+            });
+        });
+
+        describe('template rendering', () => {
+            it('should link to the product and the unsubscribe page', async () => {
+                const html = await render(
+                    BackInStockNotification({
+                        artworkTitle: artwork.title,
+                        artworkSlug: artwork.slug,
+                        imageUrl: artwork.image_thumbnail_url,
+                        unsubscribeUrl: `https://example.com/shoppe/waitlist/unsubscribe?token=${recipient.unsubscribeToken}`,
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).toContain('Dragon &amp; Knight');
+                expect(html).toContain(
+                    'https://example.com/shoppe/dragon-and-knight'
+                );
+                expect(html).toContain(
+                    `/shoppe/waitlist/unsubscribe?token=${recipient.unsubscribeToken}`
+                );
+                expect(html).toContain('Unsubscribe');
+            });
+        });
+    });
+
+    describe('sendGiftCardEmail', () => {
+        const giftCard = {
+            id: 'card-1',
+            code: 'GIFT-AAAA-BBBB-CCCC',
+            initial_amount: '50.00',
+            purchaser_name: 'Sam',
+            purchaser_email: 'sam@example.com',
+            recipient_name: 'Alex',
+            recipient_email: 'alex@example.com',
+            message: 'Happy birthday!',
+        } as GiftCardRow;
+
+        describe('configuration validation', () => {
+            const originalEnv = process.env;
+
+            beforeEach(() => {
+                process.env = { ...originalEnv };
+            });
+
+            afterAll(() => {
+                process.env = originalEnv;
+            });
+
+            it('should handle missing RESEND_API_KEY gracefully', async () => {
+                delete process.env.RESEND_API_KEY;
+
+                const result = await sendGiftCardEmail(giftCard);
+
+                expect(result.success).toBe(false);
+                expect(result.error).toBeInstanceOf(EmailSendError);
+                expect(result.error?.message).toContain('RESEND_API_KEY');
+            });
+        });
+
+        describe('template rendering', () => {
+            it('should show the amount, code and message', async () => {
+                const html = await render(
+                    GiftCardDelivery({
+                        recipientName: 'Alex',
+                        senderName: 'Sam',
+                        amount: 50,
+                        code: giftCard.code,
+                        message: giftCard.message,
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).toContain('$50.00');
+                expect(html).toContain('GIFT-AAAA-BBBB-CCCC');
+                expect(html).toContain('Happy birthday!');
+                expect(html).toContain('https://example.com/shoppe');
+            });
+        });
+    });
+
+    describe('commission emails', () => {
+        const commission: CommissionRow = {
+            id: 'commission-1',
+            customer_name: 'Jane Fan',
+            customer_email: 'jane@example.com',
+            subject: 'Dog as a knight',
+            size: '11x14',
+            style: 'Ink',
+            budget: '250.00',
+            deadline: '2026-12-01',
+            details: 'He is a corgi',
+            reference_image_paths: ['folder/reference-1.png'],
+            status: 'quoted',
+            quote_amount: '400.00',
+            deposit_amount: '100.00',
+            quote_notes: 'Two rounds of revisions',
+            quoted_at: '2026-01-01T00:00:00Z',
+            deposit_payment_link_id: 'plink_deposit',
+            deposit_payment_link_url: 'https://buy.stripe.com/deposit',
+            balance_payment_link_id: 'plink_balance',
+            balance_payment_link_url: 'https://buy.stripe.com/balance',
+            created_at: '2026-01-01T00:00:00Z',
+            updated_at: '2026-01-01T00:00:00Z',
+        };
+
+        describe('configuration validation', () => {
+            const originalEnv = process.env;
+
+            beforeEach(() => {
+                process.env = { ...originalEnv };
+            });
+
+            afterAll(() => {
+                process.env = originalEnv;
+            });
+
+            it('should handle missing RESEND_API_KEY gracefully', async () => {
+                delete process.env.RESEND_API_KEY;
+
+                const request = await sendCommissionRequestEmail(commission);
+                const quote = await sendCommissionQuoteEmail(commission);
+
+                expect(request.success).toBe(false);
+                expect(request.error?.message).toContain('RESEND_API_KEY');
+                expect(quote.success).toBe(false);
+                expect(quote.error?.message).toContain('RESEND_API_KEY');
+            });
+
+            it('should not send a quote for an unquoted commission', async () => {
+                process.env.RESEND_API_KEY = 're_test_key';
+
+                const result = await sendCommissionQuoteEmail({
+                    ...commission,
+                    deposit_payment_link_url: null,
+                });
+
+                expect(result.success).toBe(false);
+                expect(result.error?.message).toContain(
+                    'Commission has not been quoted'
+                );
+            });
+        });
+
+        describe('template rendering', () => {
+            it('should render the request with a link to the admin', async () => {
+                const html = await render(
+                    CommissionRequestNotification({
+                        customerName: commission.customer_name,
+                        customerEmail: commission.customer_email,
+                        subject: commission.subject,
+                        size: commission.size,
+                        style: commission.style,
+                        budget: commission.budget,
+                        deadline: commission.deadline,
+                        details: commission.details,
+                        referenceImageCount: 1,
+                        adminUrl:
+                            'https://example.com/admin/commissions/commission-1',
+                    })
+                );
+
+                expect(html).toContain('Jane Fan');
+                expect(html).toContain('Dog as a knight');
+                expect(html).toContain('$250.00');
+                expect(html).toContain('Dec 1, 2026');
+                expect(html).toContain('He is a corgi');
+                expect(html).toContain(
+                    'https://example.com/admin/commissions/commission-1'
+                );
+            });
+
+            it('should render the quote split into deposit and balance with both payment links', async () => {
+                const html = await render(
+                    CommissionQuote({
+                        customerName: commission.customer_name,
+                        subject: commission.subject,
+                        quoteAmount: 400,
+                        depositAmount: 100,
+                        quoteNotes: commission.quote_notes,
+                        depositPaymentUrl: 'https://buy.stripe.com/deposit',
+                        balancePaymentUrl: 'https://buy.stripe.com/balance',
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).toContain('$400.00');
+                expect(html).toContain('$100.00');
+                expect(html).toContain('$300.00');
+                expect(html).toContain('Two rounds of revisions');
+                expect(html).toContain('https://buy.stripe.com/deposit');
+                expect(html).toContain('https://buy.stripe.com/balance');
+            });
+        });
+    });
+
+    describe('sendRefundEmail', () => {
+        const order = {
+            id: 'order-1',
+            order_number: 'YOA-20250101-0001',
+            customer_name: 'John Doe',
+            customer_email: 'john@example.com',
+        } as OrderRow;
+
+        describe('configuration validation', () => {
+            const originalEnv = process.env;
+
+            beforeEach(() => {
+                process.env = { ...originalEnv };
+            });
+
+            afterAll(() => {
+                process.env = originalEnv;
+            });
+
+            it('should handle missing RESEND_API_KEY gracefully', async () => {
+                delete process.env.RESEND_API_KEY;
+
+                const result = await sendRefundEmail(order, {
+                    amount: 25,
+                    fullRefund: false,
+                    items: [],
+                });
+
+                expect(result.success).toBe(false);
+                expect(result.error).toBeInstanceOf(EmailSendError);
+                expect(result.error?.message).toContain('RESEND_API_KEY');
+            });
+        });
+
+        describe('template rendering', () => {
+            it('should show the amount and refunded items of a partial refund', async () => {
+                const html = await render(
+                    RefundNotice({
+                        customerName: 'John Doe',
+                        orderNumber: order.order_number,
+                        amount: 45,
+                        fullRefund: false,
+                        items: [{ title: 'Test Artwork (8x10)', quantity: 1 }],
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).toContain('Partial Refund');
+                expect(html).toContain('$45.00');
+                expect(html).toContain('YOA-20250101-0001');
+                expect(html).toContain('Test Artwork (8x10)');
+                expect(html).toContain(
+                    'https://example.com/shoppe/order-status'
+                );
+            });
+
+            it('should leave out the item list for a refund without items', async () => {
+                const html = await render(
+                    RefundNotice({
+                        customerName: 'John Doe',
+                        orderNumber: order.order_number,
+                        amount: 118.25,
+                        fullRefund: true,
+                        items: [],
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).toContain('Order Refunded');
+                expect(html).toContain('$118.25');
+                expect(html).not.toContain('Refunded items');
+            });
+        });
+    });
+
+    describe('sendShippingEmail', () => {
+        const order = {
+            id: 'order-1',
+            order_number: 'YOA-20250101-0001',
+            customer_name: 'John Doe',
+            customer_email: 'john@example.com',
+        } as OrderRow;
+        const shippingAddress = {
+            line1: '123 Main St',
+            line2: null,
+            city: 'Springfield',
+            state: 'IL',
+            zip: '62701',
+            country: 'US',
+        };
+
+        describe('configuration validation', () => {
+            const originalEnv = process.env;
+
+            beforeEach(() => {
+                process.env = { ...originalEnv };
+            });
+
+            afterAll(() => {
+                process.env = originalEnv;
+            });
+
+            it('should handle missing RESEND_API_KEY gracefully', async () => {
+                delete process.env.RESEND_API_KEY;
+
+                const result = await sendShippingEmail(order, []);
+
+                expect(result.success).toBe(false);
+                expect(result.error).toBeInstanceOf(EmailSendError);
+                expect(result.error?.message).toContain('RESEND_API_KEY');
+            });
+        });
+
+        describe('template rendering', () => {
+            it('should show the tracking number and link the carrier', async () => {
+                const html = await render(
+                    ShippingNotification({
+                        customerName: 'John Doe',
+                        orderNumber: order.order_number,
+                        packages: [
+                            {
+                                trackingNumber: '1Z999AA10123456784',
+                                carrierName: 'UPS',
+                                trackingUrl:
+                                    'https://www.ups.com/track?tracknum=1Z999AA10123456784',
+                            },
+                        ],
+                        shippingAddress,
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).toContain('Your Order Has Shipped');
+                expect(html).toContain('YOA-20250101-0001');
+                expect(html).toContain('1Z999AA10123456784');
+                expect(html).toContain('UPS tracking number');
+                expect(html).toContain(
+                    'https://www.ups.com/track?tracknum=1Z999AA10123456784'
+                );
+                expect(html).toContain('Track Your Package');
+                expect(html).toContain('123 Main St');
+            });
+
+            it('should list every package and link the order status page', async () => {
+                const html = await render(
+                    ShippingNotification({
+                        customerName: 'John Doe',
+                        orderNumber: order.order_number,
+                        packages: [
+                            {
+                                trackingNumber: '1Z999AA10123456784',
+                                carrierName: 'UPS',
+                                trackingUrl:
+                                    'https://www.ups.com/track?tracknum=1Z999AA10123456784',
+                            },
+                            {
+                                trackingNumber: 'TRACK123',
+                                carrierName: null,
+                                trackingUrl: null,
+                            },
+                        ],
+                        shippingAddress,
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).toMatch(/coming in .*2.*packages/);
+                expect(html).toContain('1Z999AA10123456784');
+                expect(html).toContain('TRACK123');
+                expect(html).not.toContain('Track Your Package');
+                expect(html).toContain(
+                    'https://example.com/shoppe/order-status'
+                );
+            });
+
+            it('should link the order status page without a tracking number', async () => {
+                const html = await render(
+                    ShippingNotification({
+                        customerName: 'John Doe',
+                        orderNumber: order.order_number,
+                        packages: [],
+                        shippingAddress,
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).not.toContain('Tracking number');
+                expect(html).toContain(
+                    'https://example.com/shoppe/order-status'
+                );
+            });
+        });
+    });
+
+    describe('sendDeliveryEmail', () => {
+        const order = {
+            id: 'order-1',
+            order_number: 'YOA-20250101-0001',
+            customer_name: 'John Doe',
+            customer_email: 'john@example.com',
+        } as OrderRow;
+
+        describe('configuration validation', () => {
+            const originalEnv = process.env;
+
+            beforeEach(() => {
+                process.env = { ...originalEnv };
+            });
+
+            afterAll(() => {
+                process.env = originalEnv;
+            });
+
+            it('should handle missing RESEND_API_KEY gracefully', async () => {
+                delete process.env.RESEND_API_KEY;
+
+                const result = await sendDeliveryEmail(order);
+
+                expect(result.success).toBe(false);
+                expect(result.error).toBeInstanceOf(EmailSendError);
+                expect(result.error?.message).toContain('RESEND_API_KEY');
+            });
+        });
+
+        describe('template rendering', () => {
+            it('should tell the customer their order arrived', async () => {
+                const html = await render(
+                    DeliveryNotification({
+                        customerName: 'John Doe',
+                        orderNumber: order.order_number,
+                        siteUrl: 'https://example.com',
+                    })
+                );
+
+                expect(html).toContain('Your Order Has Arrived');
+                expect(html).toContain('YOA-20250101-0001');
+                expect(html).toContain('https://example.com/shoppe');
+            });
+        });
+    });
+
+    describe('sendDisputeAlertEmail', () => {
+        const dispute = {
+            stripeDisputeId: 'dp_123',
+            amount: 105,
+            reason: 'product_not_received',
+            evidenceDueBy: '2026-01-01T00:00:00.000Z',
+            livemode: false,
+        };
+
+        describe('configuration validation', () => {
+            const originalEnv = process.env;
+
+            beforeEach(() => {
+                process.env = { ...originalEnv };
+            });
+
+            afterAll(() => {
+                process.env = originalEnv;
+            });
+
+            it('should handle missing RESEND_API_KEY gracefully', async () => {
+                delete process.env.RESEND_API_KEY;
+
+                const result = await sendDisputeAlertEmail(null, dispute);
+
+                expect(result.success).toBe(false);
+                expect(result.error).toBeInstanceOf(EmailSendError);
+                expect(result.error?.message).toContain('RESEND_API_KEY');
+            });
+        });
+
+        describe('template rendering', () => {
+            it('should show the dispute with links to Stripe and the order', async () => {
+                const html = await render(
+                    DisputeAlert({
+                        orderNumber: 'YOA-20250101-0001',
+                        customerName: 'John Doe',
+                        customerEmail: 'john@example.com',
+                        amount: 105,
+                        reason: 'product_not_received',
+                        evidenceDueBy: '2026-01-01T00:00:00.000Z',
+                        adminUrl: 'https://example.com/admin/orders/order-1',
+                        stripeUrl:
+                            'https://dashboard.stripe.com/test/disputes/dp_123',
+                    })
+                );
+
+                expect(html).toContain('YOA-20250101-0001');
+                expect(html).toContain('$105.00');
+                expect(html).toContain('product not received');
+                expect(html).toContain('Jan 1, 2026');
+                expect(html).toContain(
+                    'https://dashboard.stripe.com/test/disputes/dp_123'
+                );
+                expect(html).toContain(
+                    'https://example.com/admin/orders/order-1'
+                );
+            });
+
+            it('should say when no order matched the payment', async () => {
+                const html = await render(
+                    DisputeAlert({
+                        orderNumber: null,
+                        customerName: null,
+                        customerEmail: null,
+                        amount: 25,
+                        reason: 'fraudulent',
+                        evidenceDueBy: null,
+                        adminUrl: null,
+                        stripeUrl: 'https://dashboard.stripe.com/disputes/dp_1',
+                    })
+                );
+
+                expect(html).toContain('No matching order');
+                expect(html).toContain('No deadline given');
+                expect(html).not.toContain('View the order');
+            });
+        });
+    });
 });
@@ -127,6 +127,28 @@ describe('OrderConfirmation Email Template', () => {
             );
             expect(html).toContain('118.25');
         });
+
+        it('should include the expected ship date for pre-orders', async () => {
+            const html = await render(
+                OrderConfirmation({
+                    order: {
+                        ...mockOrder,
+                        isPreorder: true,
+                        expectedShipDate: '2026-03-01',
+                    },
+                    siteUrl,
+                })
+            );
+            expect(html).toContain('Pre-order:');
+            expect(html).toContain('March 2026');
+        });
+
+        it('should not mention pre-orders for regular orders', async () => {
+            const html = await render(
+                OrderConfirmation({ order: mockOrder, siteUrl })
+            );
+            expect(html).not.toContain('Pre-order:');
+        });
     });
 
     describe('order items', () => {
@@ -178,6 +200,37 @@ describe('OrderConfirmation Email Template', () => {
             );
             expect(html).toContain('Artwork'); // Fallback text
         });
+
+        it('should include edition numbers and a certificate link for numbered prints', async () => {
+            const html = await render(
+                OrderConfirmation({
+                    order: {
+                        ...mockOrder,
+                        items: [
+                            {
+                                ...mockOrder.items[0],
+                                editionNumberStart: 12,
+                                editionSize: 50,
+                                certificateToken:
+                                    '0f8fad5b-d9cb-469f-a165-70867728950e',
+                            },
+                        ],
+                    },
+                    siteUrl,
+                })
+            );
+            expect(html).toContain('12–13/50');
+            expect(html).toContain(
+                `${siteUrl}/api/certificates/0f8fad5b-d9cb-469f-a165-70867728950e`
+            );
+        });
+
+        it('should not mention editions for unnumbered items', async () => {
+            const html = await render(
+                OrderConfirmation({ order: mockOrder, siteUrl })
+            );
+            expect(html).not.toContain('Certificate of');
+        });
     });
 
     describe('pricing breakdown', () => {
@@ -0,0 +1,114 @@
+/**
+ * PDF Writer Tests
+ *
+ * Tests the structure of generated files (header, cross-reference table,
+ * pages) and text measuring, wrapping and escaping.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    PAGE_HEIGHT,
+    PdfDocument,
+    measureText,
+    wrapText,
+} from '@/lib/pdf/document';
+
+const toText = (pdf: PdfDocument) => pdf.toBuffer().toString('latin1');
+
+describe('PdfDocument', () => {
+    it('writes a PDF with a valid cross-reference table', () => {
+        const output = toText(
+            new PdfDocument({ title: 'Test' }).text('Hello', 72, 72)
+        );
+
+        expect(output.startsWith('%PDF-1.4\n')).toBe(true);
+        expect(output.trimEnd().endsWith('%%EOF')).toBe(true);
+
+        // Every xref entry points at the start of its object
+        const xrefStart = Number(output.match(/startxref\n(\d+)/)?.[1]);
+        expect(output.slice(xrefStart, xrefStart + 4)).toBe('xref');
+
+        const entries = output
+            .slice(xrefStart)
+            .split('\n')
+            .filter((line) => / 00000 n $/.test(line));
+        entries.forEach((entry, index) => {
+            const offset = Number(entry.slice(0, 10));
+            expect(output.slice(offset)).toMatch(
+                new RegExp(`^${index + 1} 0 obj`)
+            );
+        });
+    });
+
+    it('adds pages', () => {
+        const pdf = new PdfDocument();
+        pdf.text('One', 72, 72).addPage().text('Two', 72, 72);
+
+        expect(pdf.pageCount).toBe(2);
+        expect(toText(pdf)).toContain('/Count 2');
+    });
+
+    it('places text from the top of the page', () => {
+        const output = toText(new PdfDocument().text('Hi', 72, 100));
+
+        expect(output).toContain(`72 ${PAGE_HEIGHT - 100} Td`);
+    });
+
+    it('centers and right-aligns text on x', () => {
+        const width = measureText('Hi', 'regular', 12);
+        const output = toText(
+            new PdfDocument()
+                .text('Hi', 300, 100, { align: 'center' })
+                .text('Hi', 300, 120, { align: 'right' })
+        );
+
+        expect(output).toContain(
+            `${Math.round((300 - width / 2) * 100) / 100} ${PAGE_HEIGHT - 100} Td`
+        );
+        expect(output).toContain(
+            `${Math.round((300 - width) * 100) / 100} ${PAGE_HEIGHT - 120} Td`
+        );
+    });
+
+    it('escapes string delimiters and replaces unencodable characters', () => {
+        const output = toText(
+            new PdfDocument().text('(a\\b) café 日本 — ok', 72, 72)
+        );
+
+        expect(output).toContain('(\\(a\\\\b\\) caf\xe9 ?? \x97 ok) Tj');
+    });
+});
+
+describe('measureText', () => {
+    it('uses the font metrics', () => {
+        // Helvetica: "i" is 222, "W" is 944 units
+        expect(measureText('iW', 'regular', 10)).toBeCloseTo(11.66);
+        expect(measureText('iW', 'bold', 10)).toBeGreaterThan(
+            measureText('iW', 'regular', 10)
+        );
+    });
+});
+
+describe('wrapText', () => {
+    it('breaks lines on spaces within the width', () => {
+        const lines = wrapText(
+            'the quick brown fox jumps over the lazy dog',
+            measureText('the quick brown', 'regular', 12),
+            'regular',
+            12
+        );
+
+        expect(lines).toEqual([
+            'the quick brown',
+            'fox jumps over',
+            'the lazy dog',
+        ]);
+    });
+
+    it('keeps explicit line breaks and overlong words', () => {
+        expect(wrapText('a\nsupercalifragilistic', 20, 'regular', 12)).toEqual([
+            'a',
+            'supercalifragilistic',
+        ]);
+    });
+});
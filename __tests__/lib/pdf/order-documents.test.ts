@@ -0,0 +1,228 @@
+/**
+ * Packing Slip and Invoice PDF Tests
+ *
+ * Tests what each document prints for an order and how batches and long
+ * orders are split across pages.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    renderInvoicesPdf,
+    renderPackingSlipsPdf,
+} from '@/lib/pdf/order-documents';
+import type {
+    OrderItemWithArtwork,
+    OrderWithItemsAndArtwork,
+} from '@/lib/db/admin/orders';
+
+const item: OrderItemWithArtwork = {
+    id: 'item-1',
+    order_id: 'order-1',
+    artwork_id: 'art-1',
+    quantity: 2,
+    price_at_purchase: '50.00',
+    line_subtotal: '100.00',
+    variant_id: null,
+    variant_name: null,
+    preorder_project_id: null,
+    edition_number_start: null,
+    edition_size: null,
+    certificate_token: null,
+    created_at: '2025-01-01T10:00:00Z',
+    artwork: {
+        title: 'Blue Dragon',
+        sku: 'ART-001',
+        image_thumbnail_url: null,
+        slug: 'blue-dragon',
+    },
+};
+
+const order: OrderWithItemsAndArtwork = {
+    id: 'order-1',
+    order_number: 'ORD-20250101-ABCD',
+    customer_name: 'Jane Collector',
+    customer_email: 'jane@example.com',
+    shipping_address_line1: '1 Ship St',
+    shipping_address_line2: 'Apt 2',
+    shipping_city: 'Portland',
+    shipping_state: 'OR',
+    shipping_zip: '97201',
+    shipping_country: 'US',
+    billing_address_line1: '9 Bill Ave',
+    billing_address_line2: null,
+    billing_city: 'Salem',
+    billing_state: 'OR',
+    billing_zip: '97301',
+    billing_country: 'US',
+    order_notes: 'Happy birthday, Sam!',
+    subtotal: '150.00',
+    shipping_cost: '8.00',
+    tax_amount: '12.00',
+    total: '145.00',
+    coupon_id: 'coupon-1',
+    coupon_code: 'SAVE10',
+    discount_amount: '15.00',
+    gift_card_amount: '10.00',
+    is_preorder: false,
+    expected_ship_date: null,
+    status: 'paid',
+    payment_intent_id: 'pi_123',
+    payment_status: 'succeeded',
+    shipped_email_sent_at: null,
+    delivered_email_sent_at: null,
+    admin_notes: null,
+    created_at: '2025-01-01T10:00:00Z',
+    updated_at: '2025-01-01T10:00:00Z',
+    order_items: [
+        item,
+        {
+            ...item,
+            id: 'item-2',
+            quantity: 1,
+            price_at_purchase: '50.00',
+            line_subtotal: '50.00',
+            variant_id: 'variant-1',
+            variant_name: '11x14 Print',
+            edition_number_start: 7,
+            edition_size: 50,
+            certificate_token: '0f8fad5b-d9cb-469f-a165-70867728950e',
+            artwork: { ...item.artwork!, title: 'Red Dragon' },
+            variant: { sku: 'ART-002-11X14' },
+        },
+    ],
+    gift_card_transactions: [
+        {
+            id: 'txn-1',
+            amount: '-10.00',
+            gift_card: { id: 'card-1', code: 'GIFT-ABCD-EFGH' },
+        },
+    ],
+};
+
+const toText = (pdf: Buffer) => pdf.toString('latin1');
+const pageCount = (pdf: Buffer) =>
+    Number(toText(pdf).match(/\/Count (\d+)/)?.[1]);
+
+describe('renderPackingSlipsPdf', () => {
+    it('prints the ship-to address, items, SKUs and notes', () => {
+        const output = toText(renderPackingSlipsPdf([order]));
+
+        expect(output).toContain('(Packing Slip) Tj');
+        expect(output).toContain('(Jane Collector) Tj');
+        expect(output).toContain('(1 Ship St) Tj');
+        expect(output).toContain('(Apt 2) Tj');
+        expect(output).toContain('(Portland, OR 97201) Tj');
+        expect(output).toContain('(Blue Dragon) Tj');
+        expect(output).toContain('(ART-001) Tj');
+        expect(output).toContain('(NOTES & GIFT MESSAGE) Tj');
+        expect(output).toContain('(Happy birthday, Sam!) Tj');
+    });
+
+    it('prefers the variant SKU and shows edition numbers', () => {
+        const output = toText(renderPackingSlipsPdf([order]));
+
+        expect(output).toContain('(ART-002-11X14) Tj');
+        expect(output).toContain('Edition 7/50');
+    });
+
+    it('leaves prices off', () => {
+        const output = toText(renderPackingSlipsPdf([order]));
+
+        expect(output).not.toContain('$50.00');
+        expect(output).not.toContain('$145.00');
+    });
+
+    it('omits the notes section when the customer left none', () => {
+        const output = toText(
+            renderPackingSlipsPdf([{ ...order, order_notes: null }])
+        );
+
+        expect(output).not.toContain('NOTES & GIFT MESSAGE');
+    });
+
+    it('starts each order in a batch on a new page', () => {
+        const pdf = renderPackingSlipsPdf([
+            order,
+            { ...order, id: 'order-2', order_number: 'ORD-20250102-WXYZ' },
+        ]);
+
+        expect(pageCount(pdf)).toBe(2);
+        expect(toText(pdf)).toContain('ORD-20250102-WXYZ');
+    });
+
+    it('continues long orders onto another page', () => {
+        const items = Array.from({ length: 60 }, (_, index) => ({
+            ...item,
+            id: `item-${index}`,
+        }));
+        const pdf = renderPackingSlipsPdf([{ ...order, order_items: items }]);
+
+        expect(pageCount(pdf)).toBeGreaterThan(1);
+        expect(toText(pdf)).toContain('(Packing Slip \\(continued\\)) Tj');
+    });
+
+    it('prints a single page when there are no orders', () => {
+        const pdf = renderPackingSlipsPdf([]);
+
+        expect(pageCount(pdf)).toBe(1);
+        expect(toText(pdf)).toContain('(No orders to pack.) Tj');
+    });
+});
+
+describe('renderInvoicesPdf', () => {
+    it('prints the billing and shipping addresses', () => {
+        const output = toText(renderInvoicesPdf([order]));
+
+        expect(output).toContain('(Invoice) Tj');
+        expect(output).toContain('(BILL TO) Tj');
+        expect(output).toContain('(9 Bill Ave) Tj');
+        expect(output).toContain('(jane@example.com) Tj');
+        expect(output).toContain('(SHIP TO) Tj');
+        expect(output).toContain('(1 Ship St) Tj');
+    });
+
+    it('prints line items with prices', () => {
+        const output = toText(renderInvoicesPdf([order]));
+
+        expect(output).toContain('(Blue Dragon) Tj');
+        expect(output).toContain('(2) Tj');
+        expect(output).toContain('($50.00) Tj');
+        expect(output).toContain('($100.00) Tj');
+    });
+
+    it('prints the discount, gift card, shipping, tax and total', () => {
+        const output = toText(renderInvoicesPdf([order]));
+
+        expect(output).toContain('($150.00) Tj');
+        expect(output).toContain('(Discount \\(SAVE10\\)) Tj');
+        expect(output).toContain('(-$15.00) Tj');
+        expect(output).toContain('(Gift card \\(GIFT-ABCD-EFGH\\)) Tj');
+        expect(output).toContain('(-$10.00) Tj');
+        expect(output).toContain('($8.00) Tj');
+        expect(output).toContain('($12.00) Tj');
+        expect(output).toContain('($145.00) Tj');
+        expect(output).toContain('(Paid in full. Thank you!) Tj');
+    });
+
+    it('leaves off discount and gift card lines when unused', () => {
+        const output = toText(
+            renderInvoicesPdf([
+                {
+                    ...order,
+                    discount_amount: '0.00',
+                    gift_card_amount: '0.00',
+                    gift_card_transactions: [],
+                },
+            ])
+        );
+
+        expect(output).not.toContain('Discount');
+        expect(output).not.toContain('Gift card');
+    });
+
+    it('starts each order in a batch on a new page', () => {
+        const pdf = renderInvoicesPdf([order, { ...order, id: 'order-2' }]);
+
+        expect(pageCount(pdf)).toBe(2);
+    });
+});
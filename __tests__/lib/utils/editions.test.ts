@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import {
+    formatEditionNumbers,
+    getCertificatePath,
+    getEditionNumbers,
+} from '@/lib/utils/editions';
+
+describe('getEditionNumbers', () => {
+    it('lists consecutive numbers from the start', () => {
+        expect(getEditionNumbers(12, 3)).toEqual([12, 13, 14]);
+    });
+
+    it('lists a single number for one print', () => {
+        expect(getEditionNumbers(1, 1)).toEqual([1]);
+    });
+});
+
+describe('formatEditionNumbers', () => {
+    it('formats a single print', () => {
+        expect(formatEditionNumbers(12, 1, 50)).toBe('12/50');
+    });
+
+    it('formats a range for several prints', () => {
+        expect(formatEditionNumbers(12, 3, 50)).toBe('12–14/50');
+    });
+});
+
+describe('getCertificatePath', () => {
+    it('links to the certificate route', () => {
+        expect(getCertificatePath('abc')).toBe('/api/certificates/abc');
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ORDER_EXPORTS, toCsvLine } from '@/lib/utils/order-export';
+import type { OrderForExport } from '@/lib/db/admin/orders';
+
+describe('toCsvLine', () => {
+    it('joins fields with commas and ends in CRLF', () => {
+        expect(toCsvLine(['ORD-1', 2, '25.00'])).toBe('ORD-1,2,25.00\r\n');
+    });
+
+    it('leaves null fields empty', () => {
+        expect(toCsvLine(['a', null, 'c'])).toBe('a,,c\r\n');
+    });
+
+    it('quotes fields with commas, quotes or line breaks', () => {
+        expect(toCsvLine(['Doe, Jane', 'The "Blue" Dragon', 'a\nb'])).toBe(
+            '"Doe, Jane","The ""Blue"" Dragon","a\nb"\r\n'
+        );
+    });
+
+    it('defuses text a spreadsheet would run as a formula', () => {
+        expect(toCsvLine(['=HYPERLINK("x")', '@SUM(A1)', '+1 555'])).toBe(
+            '"\'=HYPERLINK(""x"")",\'@SUM(A1),\'+1 555\r\n'
+        );
+    });
+
+    it('leaves negative numbers alone', () => {
+        expect(toCsvLine(['-5.00', -2])).toBe('-5.00,-2\r\n');
+    });
+});
+
+describe('ORDER_EXPORTS', () => {
+    const order = {
+        order_number: 'ORD-20250101-ABCD',
+        status: 'paid',
+        created_at: '2025-01-01T23:30:00Z',
+        order_items: [
+            {
+                id: 'item-1',
+                quantity: 1,
+                price_at_purchase: '80.00',
+                line_subtotal: '80.00',
+                variant_name: '11x14 Framed',
+                artwork: { title: 'Blue Dragon', sku: 'ART-001' },
+                variant: { sku: 'ART-001-11X14-F' },
+            },
+            {
+                id: 'item-2',
+                quantity: 3,
+                price_at_purchase: '5.00',
+                line_subtotal: '15.00',
+                variant_name: null,
+                artwork: null,
+                variant: null,
+            },
+        ],
+    } as OrderForExport;
+
+    it('prefers the variant SKU to the artwork SKU', () => {
+        const [row] = ORDER_EXPORTS['line-items'].rows(order);
+
+        expect(row).toEqual([
+            'ORD-20250101-ABCD',
+            '2025-01-01',
+            'paid',
+            'Blue Dragon',
+            '11x14 Framed',
+            'ART-001-11X14-F',
+            1,
+            '80.00',
+            '80.00',
+        ]);
+    });
+
+    it('keeps lines whose artwork was deleted', () => {
+        const [, row] = ORDER_EXPORTS['line-items'].rows(order);
+
+        expect(row.slice(3, 7)).toEqual(['Deleted artwork', null, null, 3]);
+    });
+
+    it('has a header cell for every column', () => {
+        for (const { header, rows } of Object.values(ORDER_EXPORTS)) {
+            expect(rows(order)[0]).toHaveLength(header.length);
+        }
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+    ORDER_STATUS_TRANSITIONS,
+    canTransitionOrderStatus,
+} from '@/lib/utils/order-status';
+
+describe('canTransitionOrderStatus', () => {
+    it('allows orders to move forward through fulfilment', () => {
+        expect(canTransitionOrderStatus('pending', 'paid')).toBe(true);
+        expect(canTransitionOrderStatus('paid', 'processing')).toBe(true);
+        expect(canTransitionOrderStatus('paid', 'shipped')).toBe(true);
+        expect(canTransitionOrderStatus('processing', 'shipped')).toBe(true);
+        expect(canTransitionOrderStatus('shipped', 'delivered')).toBe(true);
+    });
+
+    it('does not allow orders to move backwards', () => {
+        expect(canTransitionOrderStatus('delivered', 'pending')).toBe(false);
+        expect(canTransitionOrderStatus('shipped', 'processing')).toBe(false);
+        expect(canTransitionOrderStatus('paid', 'pending')).toBe(false);
+    });
+
+    it('allows cancelling until the order ships', () => {
+        expect(canTransitionOrderStatus('pending', 'cancelled')).toBe(true);
+        expect(canTransitionOrderStatus('processing', 'cancelled')).toBe(true);
+        expect(canTransitionOrderStatus('shipped', 'cancelled')).toBe(false);
+    });
+
+    it('treats delivered and cancelled orders as final', () => {
+        expect(ORDER_STATUS_TRANSITIONS.delivered).toEqual([]);
+        expect(ORDER_STATUS_TRANSITIONS.cancelled).toEqual([]);
+    });
+
+    it('does not count staying in the same status as a transition', () => {
+        expect(canTransitionOrderStatus('paid', 'paid')).toBe(false);
+    });
+});
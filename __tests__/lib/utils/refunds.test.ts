@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+    calculateItemRefundAmount,
+    getRefundableAmount,
+    getRefundedAmount,
+    getRefundedQuantities,
+} from '@/lib/utils/refunds';
+import type {
+    OrderItemWithArtwork,
+    OrderRefundWithItems,
+} from '@/lib/db/admin/orders';
+
+function makeOrder(
+    overrides: {
+        discount_amount?: string;
+        tax_amount?: string;
+        order_refunds?: OrderRefundWithItems[];
+    } = {}
+) {
+    return {
+        subtotal: '100.00',
+        discount_amount: '0.00',
+        tax_amount: '0.00',
+        total: '118.00',
+        order_items: [
+            {
+                id: 'item-1',
+                quantity: 1,
+                price_at_purchase: '60.00',
+                artwork: { title: 'Dragon Print' },
+            },
+            {
+                id: 'item-2',
+                quantity: 2,
+                price_at_purchase: '20.00',
+                artwork: { title: 'Sticker' },
+            },
+        ] as OrderItemWithArtwork[],
+        order_refunds: [],
+        ...overrides,
+    };
+}
+
+function makeRefund(
+    amount: string,
+    items: { order_item_id: string; quantity: number }[]
+): OrderRefundWithItems {
+    return {
+        id: `refund-${amount}`,
+        order_id: 'order-1',
+        stripe_refund_id: 're_1',
+        amount,
+        reason: null,
+        restocked: false,
+        created_at: '2025-01-02T00:00:00Z',
+        order_refund_items: items,
+    };
+}
+
+describe('getRefundedAmount', () => {
+    it('is zero without refunds', () => {
+        expect(getRefundedAmount(makeOrder())).toBe(0);
+    });
+
+    it('adds up past refunds', () => {
+        const order = makeOrder({
+            order_refunds: [makeRefund('20.00', []), makeRefund('10.50', [])],
+        });
+
+        expect(getRefundedAmount(order)).toBe(30.5);
+    });
+});
+
+describe('getRefundableAmount', () => {
+    it('is the order total less past refunds', () => {
+        const order = makeOrder({ order_refunds: [makeRefund('18.00', [])] });
+
+        expect(getRefundableAmount(order)).toBe(100);
+    });
+});
+
+describe('getRefundedQuantities', () => {
+    it('adds up refunded quantities by item', () => {
+        const order = makeOrder({
+            order_refunds: [
+                makeRefund('20.00', [{ order_item_id: 'item-2', quantity: 1 }]),
+                makeRefund('20.00', [{ order_item_id: 'item-2', quantity: 1 }]),
+            ],
+        });
+
+        expect(getRefundedQuantities(order)).toEqual({ 'item-2': 2 });
+    });
+});
+
+describe('calculateItemRefundAmount', () => {
+    it('refunds the price of each item', () => {
+        expect(
+            calculateItemRefundAmount(makeOrder(), [
+                { orderItemId: 'item-1', quantity: 1 },
+                { orderItemId: 'item-2', quantity: 1 },
+            ])
+        ).toBe(80);
+    });
+
+    it("takes off the item's share of a coupon discount", () => {
+        const order = makeOrder({ discount_amount: '10.00' });
+
+        expect(
+            calculateItemRefundAmount(order, [
+                { orderItemId: 'item-1', quantity: 1 },
+            ])
+        ).toBe(54);
+    });
+
+    it("adds the item's share of the tax on its discounted price", () => {
+        const order = makeOrder({
+            discount_amount: '10.00',
+            tax_amount: '9.00',
+        });
+
+        expect(
+            calculateItemRefundAmount(order, [
+                { orderItemId: 'item-1', quantity: 1 },
+            ])
+        ).toBe(59.4);
+    });
+
+    it("caps the amount at what's left to refund", () => {
+        const order = makeOrder({ order_refunds: [makeRefund('100.00', [])] });
+
+        expect(
+            calculateItemRefundAmount(order, [
+                { orderItemId: 'item-1', quantity: 1 },
+            ])
+        ).toBe(18);
+    });
+
+    it('rejects quantities that were already refunded', () => {
+        const order = makeOrder({
+            order_refunds: [
+                makeRefund('20.00', [{ order_item_id: 'item-2', quantity: 1 }]),
+            ],
+        });
+
+        expect(() =>
+            calculateItemRefundAmount(order, [
+                { orderItemId: 'item-2', quantity: 2 },
+            ])
+        ).toThrow('Only 1 of Sticker can be refunded');
+    });
+
+    it('rejects items from another order', () => {
+        expect(() =>
+            calculateItemRefundAmount(makeOrder(), [
+                { orderItemId: 'other', quantity: 1 },
+            ])
+        ).toThrow('Item is not on this order');
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+    detectCarrier,
+    getCarrierName,
+    getTrackingUrl,
+    normalizeTrackingNumber,
+    parseTrackingList,
+} from '@/lib/utils/tracking';
+
+describe('normalizeTrackingNumber', () => {
+    it('removes spaces and dashes and uppercases', () => {
+        expect(normalizeTrackingNumber(' 1z 999-aa1 0123456784 ')).toBe(
+            '1Z999AA10123456784'
+        );
+    });
+});
+
+describe('detectCarrier', () => {
+    it('recognises UPS numbers', () => {
+        expect(detectCarrier('1Z999AA10123456784')).toBe('ups');
+    });
+
+    it('recognises USPS barcodes, with or without the ZIP prefix', () => {
+        expect(detectCarrier('9400 1000 0000 0000 0000 00')).toBe('usps');
+        expect(detectCarrier('420627019400100000000000000000')).toBe('usps');
+        expect(detectCarrier('EA123456789US')).toBe('usps');
+    });
+
+    it('recognises FedEx numbers', () => {
+        expect(detectCarrier('123456789012')).toBe('fedex');
+        expect(detectCarrier('123456789012345')).toBe('fedex');
+        expect(detectCarrier('9612345678901234567890')).toBe('fedex');
+    });
+
+    it('recognises DHL numbers', () => {
+        expect(detectCarrier('1234567890')).toBe('dhl');
+        expect(detectCarrier('JJD000390007827166123')).toBe('dhl');
+    });
+
+    it('returns null for unrecognised formats', () => {
+        expect(detectCarrier('TRACK123')).toBeNull();
+        expect(detectCarrier('')).toBeNull();
+    });
+});
+
+describe('getTrackingUrl', () => {
+    it('links the detected carrier when none is recorded', () => {
+        expect(getTrackingUrl('1z999aa10123456784', null)).toBe(
+            'https://www.ups.com/track?tracknum=1Z999AA10123456784'
+        );
+    });
+
+    it('prefers the recorded carrier', () => {
+        expect(getTrackingUrl('1234567890', 'usps')).toBe(
+            'https://tools.usps.com/go/TrackConfirmAction?tLabels=1234567890'
+        );
+    });
+
+    it('returns null when the carrier is unknown', () => {
+        expect(getTrackingUrl('TRACK123', null)).toBeNull();
+    });
+});
+
+describe('getCarrierName', () => {
+    it('names the recorded or detected carrier', () => {
+        expect(getCarrierName('123456789012', null)).toBe('FedEx');
+        expect(getCarrierName('TRACK123', 'dhl')).toBe('DHL');
+        expect(getCarrierName('TRACK123', null)).toBeNull();
+    });
+});
+
+describe('parseTrackingList', () => {
+    it('reads tab, comma and space separated columns', () => {
+        const { entries, invalid } = parseTrackingList(
+            [
+                'YOA-20250101-0001\t1Z999AA10123456784',
+                'yoa-20250101-0002, 9400 1000 0000 0000 0000 00',
+                '"YOA-20250101-0003","123456789012"',
+            ].join('\n')
+        );
+
+        expect(entries).toEqual([
+            {
+                orderNumber: 'YOA-20250101-0001',
+                trackingNumber: '1Z999AA10123456784',
+            },
+            {
+                orderNumber: 'YOA-20250101-0002',
+                trackingNumber: '9400100000000000000000',
+            },
+            {
+                orderNumber: 'YOA-20250101-0003',
+                trackingNumber: '123456789012',
+            },
+        ]);
+        expect(invalid).toEqual([]);
+    });
+
+    it('keeps several packages for one order', () => {
+        const { entries } = parseTrackingList(
+            'YOA-1\t1Z999AA10123456784\r\nYOA-1\t1Z999AA10123456785\r\n'
+        );
+
+        expect(entries).toHaveLength(2);
+    });
+
+    it('skips blank lines and a header row', () => {
+        const { entries, invalid } = parseTrackingList(
+            'Order Number,Tracking Number\n\nYOA-1,1Z999AA10123456784\n'
+        );
+
+        expect(entries).toHaveLength(1);
+        expect(invalid).toEqual([]);
+    });
+
+    it('reports lines without a tracking number', () => {
+        const { entries, invalid } = parseTrackingList(
+            'YOA-1\nYOA-2 pending\nYOA-3,1Z999AA10123456784'
+        );
+
+        expect(entries).toHaveLength(1);
+        expect(invalid).toEqual(['YOA-1', 'YOA-2 pending']);
+    });
+});
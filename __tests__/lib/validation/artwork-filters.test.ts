@@ -0,0 +1,133 @@
+/**
+ * Artwork Filter Tests
+ *
+ * Tests for reading Gallery / Shoppe filters from search params and
+ * building their canonical URLs.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    hasActiveArtworkFilters,
+    parseArtworkFilters,
+    toArtworkFilterQuery,
+} from '@/lib/validation/artwork-filters';
+
+describe('parseArtworkFilters', () => {
+    it('defaults to no filters, featured first', () => {
+        expect(parseArtworkFilters({})).toEqual({
+            tag: undefined,
+            medium: undefined,
+            minYear: undefined,
+            maxYear: undefined,
+            minPrice: undefined,
+            maxPrice: undefined,
+            inStock: false,
+            limitedEdition: false,
+            sort: 'featured',
+        });
+    });
+
+    it('reads every filter from its URL param', () => {
+        expect(
+            parseArtworkFilters({
+                tag: 'dragons',
+                medium: ' Ink ',
+                min_year: '2020',
+                max_year: '2024',
+                min_price: '10',
+                max_price: '99.50',
+                in_stock: '1',
+                limited: '1',
+                sort: 'price_desc',
+            })
+        ).toEqual({
+            tag: 'dragons',
+            medium: 'Ink',
+            minYear: 2020,
+            maxYear: 2024,
+            minPrice: 10,
+            maxPrice: 99.5,
+            inStock: true,
+            limitedEdition: true,
+            sort: 'price_desc',
+        });
+    });
+
+    it('ignores empty and invalid values instead of failing', () => {
+        const filters = parseArtworkFilters({
+            tag: '',
+            min_year: 'soon',
+            max_year: '',
+            min_price: '-5',
+            in_stock: 'yes',
+            sort: 'random',
+        });
+
+        expect(filters.tag).toBeUndefined();
+        expect(filters.minYear).toBeUndefined();
+        expect(filters.maxYear).toBeUndefined();
+        expect(filters.minPrice).toBeUndefined();
+        expect(filters.inStock).toBe(false);
+        expect(filters.sort).toBe('featured');
+    });
+
+    it('uses the first value of repeated params', () => {
+        expect(parseArtworkFilters({ tag: ['dragons', 'knights'] }).tag).toBe(
+            'dragons'
+        );
+    });
+});
+
+describe('toArtworkFilterQuery', () => {
+    it('only includes filters in use, in a fixed order', () => {
+        const filters = parseArtworkFilters({
+            sort: 'newest',
+            limited: '1',
+            tag: 'dragons',
+            min_price: '',
+        });
+
+        expect(toArtworkFilterQuery(filters)).toBe(
+            'tag=dragons&limited=1&sort=newest'
+        );
+    });
+
+    it('returns an empty string for the default view', () => {
+        expect(toArtworkFilterQuery(parseArtworkFilters({}))).toBe('');
+    });
+
+    it('applies overrides before building the query', () => {
+        const filters = parseArtworkFilters({ tag: 'dragons', medium: 'Ink' });
+
+        expect(toArtworkFilterQuery(filters, { tag: undefined })).toBe(
+            'medium=Ink'
+        );
+    });
+
+    it('round-trips through parseArtworkFilters', () => {
+        const filters = parseArtworkFilters({
+            tag: 'sea & sky',
+            max_year: '2024',
+            max_price: '99.50',
+            in_stock: '1',
+        });
+        const query = toArtworkFilterQuery(filters);
+
+        expect(
+            parseArtworkFilters(
+                Object.fromEntries(new URLSearchParams(query).entries())
+            )
+        ).toEqual(filters);
+    });
+});
+
+describe('hasActiveArtworkFilters', () => {
+    it('ignores the sort order', () => {
+        expect(
+            hasActiveArtworkFilters(parseArtworkFilters({ sort: 'newest' }))
+        ).toBe(false);
+        expect(
+            hasActiveArtworkFilters(parseArtworkFilters({ in_stock: '1' }))
+        ).toBe(true);
+    });
+});
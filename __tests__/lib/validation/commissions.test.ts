@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+    commissionQuoteSchema,
+    commissionRequestSchema,
+} from '@/lib/validation/commissions';
+
+describe('Commission Request Validation Schema', () => {
+    const validRequest = {
+        name: 'Jane Fan',
+        email: 'jane@example.com',
+        subject: 'My dog as a knight',
+        size: '11x14',
+        style: 'Ink and watercolor',
+    };
+
+    it('validates a request without the optional fields', () => {
+        expect(commissionRequestSchema.safeParse(validRequest).success).toBe(
+            true
+        );
+    });
+
+    it('validates a request with budget, deadline and details', () => {
+        const result = commissionRequestSchema.safeParse({
+            ...validRequest,
+            budget: '250',
+            deadline: '2999-01-01',
+            details: 'He is a corgi',
+        });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('requires subject, size and style', () => {
+        const result = commissionRequestSchema.safeParse({
+            ...validRequest,
+            subject: ' ',
+            size: '',
+            style: '',
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            const paths = result.error.issues.map((issue) => issue.path[0]);
+            expect(paths).toEqual(
+                expect.arrayContaining(['subject', 'size', 'style'])
+            );
+        }
+    });
+
+    it('rejects a budget that is not a positive number', () => {
+        expect(
+            commissionRequestSchema.safeParse({
+                ...validRequest,
+                budget: 'lots',
+            }).success
+        ).toBe(false);
+    });
+
+    it('rejects a deadline in the past', () => {
+        const result = commissionRequestSchema.safeParse({
+            ...validRequest,
+            deadline: '2000-01-01',
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues[0].message).toBe(
+                'Deadline cannot be in the past'
+            );
+        }
+    });
+});
+
+describe('Commission Quote Validation Schema', () => {
+    it('validates a quote with a deposit below the total', () => {
+        const result = commissionQuoteSchema.safeParse({
+            quote_amount: '400',
+            deposit_amount: '100',
+        });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('rejects a deposit equal to or above the total', () => {
+        const result = commissionQuoteSchema.safeParse({
+            quote_amount: '400',
+            deposit_amount: '400',
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues[0].path).toEqual(['deposit_amount']);
+        }
+    });
+
+    it('rejects a zero quote', () => {
+        expect(
+            commissionQuoteSchema.safeParse({
+                quote_amount: '0',
+                deposit_amount: '0',
+            }).success
+        ).toBe(false);
+    });
+});
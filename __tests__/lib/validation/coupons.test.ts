@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { couponSchema } from '@/lib/validation/coupons';
+
+describe('Coupon Validation Schema', () => {
+    const validCoupon = {
+        code: 'spring10',
+        discount_type: 'percentage',
+        discount_value: '10',
+        is_active: true,
+    };
+
+    it('validates a minimal coupon and uppercases the code', () => {
+        const result = couponSchema.safeParse(validCoupon);
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+            expect(result.data.code).toBe('SPRING10');
+        }
+    });
+
+    it('validates a coupon with all optional fields', () => {
+        const result = couponSchema.safeParse({
+            ...validCoupon,
+            discount_type: 'fixed',
+            discount_value: '15.00',
+            description: 'Convention special',
+            minimum_subtotal: '50.00',
+            starts_at: '2025-06-01T00:00:00.000Z',
+            expires_at: '2025-06-30T00:00:00.000Z',
+            usage_limit: 100,
+            applies_to_artwork_ids: ['artwork-1'],
+            applies_to_tags: ['prints'],
+        });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('rejects codes with spaces or symbols', () => {
+        const result = couponSchema.safeParse({
+            ...validCoupon,
+            code: 'SPRING 10!',
+        });
+
+        expect(result.success).toBe(false);
+    });
+
+    it('rejects non-positive discount values', () => {
+        const result = couponSchema.safeParse({
+            ...validCoupon,
+            discount_value: '0',
+        });
+
+        expect(result.success).toBe(false);
+    });
+
+    it('rejects percentage discounts over 100', () => {
+        const result = couponSchema.safeParse({
+            ...validCoupon,
+            discount_value: '150',
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.flatten().fieldErrors.discount_value).toContain(
+                'Percentage discount cannot exceed 100'
+            );
+        }
+    });
+
+    it('rejects an expiry before the start date', () => {
+        const result = couponSchema.safeParse({
+            ...validCoupon,
+            starts_at: '2025-06-30T00:00:00.000Z',
+            expires_at: '2025-06-01T00:00:00.000Z',
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.flatten().fieldErrors.expires_at).toContain(
+                'Expiry must be after the start date'
+            );
+        }
+    });
+
+    it('rejects a usage limit below 1', () => {
+        const result = couponSchema.safeParse({
+            ...validCoupon,
+            usage_limit: 0,
+        });
+
+        expect(result.success).toBe(false);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+    customerAddressSchema,
+    customerLoginSchema,
+    customerPreferencesSchema,
+} from '@/lib/validation/customers';
+
+const address = {
+    name: 'Jane Collector',
+    line1: '1 Harbor Way',
+    line2: '',
+    city: 'Portland',
+    state: 'OR',
+    zip: '97201',
+    country: 'US',
+};
+
+describe('customerLoginSchema', () => {
+    it('trims the email', () => {
+        expect(
+            customerLoginSchema.parse({ email: ' jane@example.com ' })
+        ).toEqual({ email: 'jane@example.com' });
+    });
+
+    it('requires a valid email', () => {
+        const result = customerLoginSchema.safeParse({ email: 'jane' });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].message).toBe(
+            'Please enter a valid email address'
+        );
+    });
+});
+
+describe('customerAddressSchema', () => {
+    it('accepts an address without optional fields', () => {
+        expect(customerAddressSchema.parse({ ...address, state: '' })).toEqual({
+            ...address,
+            state: '',
+        });
+    });
+
+    it('uppercases the country code', () => {
+        expect(
+            customerAddressSchema.parse({ ...address, country: ' ca ' }).country
+        ).toBe('CA');
+    });
+
+    it('rejects country names', () => {
+        const result = customerAddressSchema.safeParse({
+            ...address,
+            country: 'Canada',
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].message).toBe(
+            'Country must be a two-letter code (e.g. US)'
+        );
+    });
+
+    it('requires the street address, city and postal code', () => {
+        const result = customerAddressSchema.safeParse({
+            ...address,
+            line1: ' ',
+            city: '',
+            zip: '',
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues.map((issue) => issue.path[0])).toEqual([
+            'line1',
+            'city',
+            'zip',
+        ]);
+    });
+});
+
+describe('customerPreferencesSchema', () => {
+    it('requires a boolean', () => {
+        expect(
+            customerPreferencesSchema.safeParse({ orderUpdateEmails: 'no' })
+                .success
+        ).toBe(false);
+        expect(
+            customerPreferencesSchema.parse({ orderUpdateEmails: false })
+        ).toEqual({ orderUpdateEmails: false });
+    });
+});
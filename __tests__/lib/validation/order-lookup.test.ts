@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { orderLookupSchema } from '@/lib/validation/order-lookup';
+
+describe('orderLookupSchema', () => {
+    it('trims input and uppercases the order number', () => {
+        const result = orderLookupSchema.parse({
+            orderNumber: '  yoa-20250112-0374 ',
+            email: ' jane@example.com ',
+        });
+
+        expect(result).toEqual({
+            orderNumber: 'YOA-20250112-0374',
+            email: 'jane@example.com',
+        });
+    });
+
+    it('requires an order number', () => {
+        const result = orderLookupSchema.safeParse({
+            orderNumber: '   ',
+            email: 'jane@example.com',
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].message).toBe(
+            'Order number is required'
+        );
+    });
+
+    it('requires a valid email', () => {
+        const result = orderLookupSchema.safeParse({
+            orderNumber: 'YOA-20250112-0374',
+            email: 'not-an-email',
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].path).toEqual(['email']);
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { orderRefundSchema } from '@/lib/validation/refunds';
+
+describe('Order Refund Validation Schema', () => {
+    const itemId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('validates a full refund without items', () => {
+        const result = orderRefundSchema.safeParse({
+            type: 'full',
+            restock: true,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.success && result.data.items).toEqual([]);
+    });
+
+    it('validates an item refund with a reason', () => {
+        const result = orderRefundSchema.safeParse({
+            type: 'items',
+            items: [{ orderItemId: itemId, quantity: 2 }],
+            restock: false,
+            reason: '  Damaged in transit ',
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.success && result.data.reason).toBe('Damaged in transit');
+    });
+
+    it('requires at least one item for an item refund', () => {
+        const result = orderRefundSchema.safeParse({
+            type: 'items',
+            items: [],
+            restock: false,
+        });
+
+        expect(result.success).toBe(false);
+        expect(!result.success && result.error.issues[0].message).toBe(
+            'Choose at least one item to refund'
+        );
+    });
+
+    it('rejects zero or fractional quantities', () => {
+        for (const quantity of [0, 1.5]) {
+            expect(
+                orderRefundSchema.safeParse({
+                    type: 'items',
+                    items: [{ orderItemId: itemId, quantity }],
+                    restock: false,
+                }).success
+            ).toBe(false);
+        }
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import {
+    MAX_SEARCH_QUERY_LENGTH,
+    isSearchableQuery,
+    parseSearchQuery,
+} from '@/lib/validation/search';
+
+describe('parseSearchQuery', () => {
+    it('trims and collapses whitespace', () => {
+        expect(parseSearchQuery('  blue   dragon \n')).toBe('blue dragon');
+    });
+
+    it('returns an empty string for a missing param', () => {
+        expect(parseSearchQuery(undefined)).toBe('');
+    });
+
+    it('uses the first value of a repeated param', () => {
+        expect(parseSearchQuery(['dragon', 'castle'])).toBe('dragon');
+    });
+
+    it('cuts off overly long queries', () => {
+        const query = parseSearchQuery(
+            'a'.repeat(MAX_SEARCH_QUERY_LENGTH + 50)
+        );
+        expect(query).toHaveLength(MAX_SEARCH_QUERY_LENGTH);
+    });
+});
+
+describe('isSearchableQuery', () => {
+    it('rejects queries shorter than the minimum', () => {
+        expect(isSearchableQuery('')).toBe(false);
+        expect(isSearchableQuery('a')).toBe(false);
+    });
+
+    it('accepts queries at the minimum length', () => {
+        expect(isSearchableQuery('ab')).toBe(true);
+    });
+});
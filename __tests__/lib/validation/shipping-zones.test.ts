@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { shippingZoneSchema } from '@/lib/validation/shipping-zones';
+
+describe('Shipping Zone Validation Schema', () => {
+    const validZone = {
+        name: 'Europe',
+        countries: ['gb', ' fr '],
+        standard_rate: '20',
+        standard_min_days: 7,
+        standard_max_days: 14,
+        excludes_originals: false,
+        is_active: true,
+        display_order: 0,
+    };
+
+    it('validates a standard-only zone and normalizes country codes', () => {
+        const result = shippingZoneSchema.safeParse(validZone);
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+            expect(result.data.countries).toEqual(['GB', 'FR']);
+        }
+    });
+
+    it('validates a zone with express and a free-shipping minimum', () => {
+        const result = shippingZoneSchema.safeParse({
+            ...validZone,
+            express_rate: '45.00',
+            free_shipping_minimum: '250.00',
+            express_min_days: 3,
+            express_max_days: 5,
+        });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('rejects zones without countries', () => {
+        const result = shippingZoneSchema.safeParse({
+            ...validZone,
+            countries: [],
+        });
+
+        expect(result.success).toBe(false);
+    });
+
+    it('rejects country names instead of ISO codes', () => {
+        const result = shippingZoneSchema.safeParse({
+            ...validZone,
+            countries: ['France'],
+        });
+
+        expect(result.success).toBe(false);
+    });
+
+    it('rejects negative rates', () => {
+        const result = shippingZoneSchema.safeParse({
+            ...validZone,
+            standard_rate: '-5',
+        });
+
+        expect(result.success).toBe(false);
+    });
+
+    it('rejects a delivery maximum below the minimum', () => {
+        const result = shippingZoneSchema.safeParse({
+            ...validZone,
+            standard_min_days: 10,
+            standard_max_days: 5,
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues[0].path).toEqual(['standard_max_days']);
+        }
+    });
+
+    it('requires express delivery days when express is offered', () => {
+        const result = shippingZoneSchema.safeParse({
+            ...validZone,
+            express_rate: '45.00',
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues[0].path).toEqual(['express_min_days']);
+        }
+    });
+});
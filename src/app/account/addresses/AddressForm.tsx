@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { getCountryName } from '@/lib/cart/shipping';
+import {
+    customerAddressSchema,
+    type CustomerAddressInput,
+} from '@/lib/validation/customers';
+
+/**
+ * AddressForm - edits the customer's saved shipping address
+ *
+ * Features:
+ * - Validates with the same schema as /api/account/address
+ * - Country choices limited to where the shop ships
+ * - "Remove saved address" once one is saved
+ */
+
+type FieldName = keyof CustomerAddressInput;
+type FormErrors = Partial<Record<FieldName, string>>;
+
+export interface AddressFormProps {
+    countries: string[];
+    hasSavedAddress: boolean;
+    initialAddress: CustomerAddressInput;
+}
+
+const TEXT_FIELDS: {
+    name: Exclude<FieldName, 'country'>;
+    label: string;
+    autoComplete: string;
+    optional?: boolean;
+}[] = [
+    { name: 'name', label: 'Full name', autoComplete: 'shipping name' },
+    {
+        name: 'line1',
+        label: 'Address',
+        autoComplete: 'shipping address-line1',
+    },
+    {
+        name: 'line2',
+        label: 'Apartment, suite, etc.',
+        autoComplete: 'shipping address-line2',
+        optional: true,
+    },
+    { name: 'city', label: 'City', autoComplete: 'shipping address-level2' },
+    {
+        name: 'state',
+        label: 'State / region',
+        autoComplete: 'shipping address-level1',
+        optional: true,
+    },
+    { name: 'zip', label: 'Postal code', autoComplete: 'shipping postal-code' },
+];
+
+function inputClassName(hasError: boolean) {
+    return `w-full border-2 rounded px-4 py-2 bg-white text-black placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${hasError ? 'border-red-500 focus:ring-red-500' : 'border-black focus:ring-black'}`;
+}
+
+export default function AddressForm({
+    countries,
+    hasSavedAddress,
+    initialAddress,
+}: AddressFormProps) {
+    const router = useRouter();
+    const [formData, setFormData] = useState(initialAddress);
+    const [errors, setErrors] = useState<FormErrors>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const handleChange = (
+        e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+    ) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+        setMessage(null);
+        if (errors[name as FieldName]) {
+            setErrors((prev) => ({ ...prev, [name]: undefined }));
+        }
+    };
+
+    const send = async (method: 'PUT' | 'DELETE', body?: string) => {
+        setIsSubmitting(true);
+        setError(null);
+        setMessage(null);
+
+        try {
+            const response = await fetch('/api/account/address', {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body,
+            });
+
+            if (response.status === 401) {
+                router.push('/account/login');
+                return false;
+            }
+
+            if (!response.ok) {
+                setError(
+                    'Unable to update your address right now. Please try again.'
+                );
+                return false;
+            }
+
+            router.refresh();
+            return true;
+        } catch (err) {
+            console.error('Saved address error:', err);
+            setError(
+                'Unable to update your address right now. Please try again.'
+            );
+            return false;
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const result = customerAddressSchema.safeParse(formData);
+
+        if (!result.success) {
+            const newErrors: FormErrors = {};
+            result.error.issues.forEach((issue) => {
+                const path = issue.path[0];
+                if (typeof path === 'string') {
+                    newErrors[path as FieldName] = issue.message;
+                }
+            });
+            setErrors(newErrors);
+            return;
+        }
+
+        if (await send('PUT', JSON.stringify(result.data))) {
+            setMessage("Address saved. We'll fill it in for you at checkout.");
+        }
+    };
+
+    const handleRemove = async () => {
+        if (await send('DELETE')) {
+            setFormData({
+                ...initialAddress,
+                name: '',
+                line1: '',
+                line2: '',
+                city: '',
+                state: '',
+                zip: '',
+            });
+            setMessage('Saved address removed.');
+        }
+    };
+
+    return (
+        <div className="border-2 border-black rounded p-8">
+            <h2 className="text-2xl font-bold mb-2">Shipping address</h2>
+            <p className="text-gray-600 mb-6">
+                Saved addresses are filled in for you at checkout. You can still
+                change them there.
+            </p>
+
+            {error && (
+                <div
+                    role="alert"
+                    className="bg-red-100 border-2 border-red-500 text-red-700 px-4 py-3 rounded mb-6"
+                >
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {message && (
+                <div
+                    role="status"
+                    className="bg-green-100 border-2 border-green-500 text-green-700 px-4 py-3 rounded mb-6"
+                >
+                    <p>{message}</p>
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} noValidate className="space-y-4">
+                {TEXT_FIELDS.map((field) => (
+                    <div key={field.name}>
+                        <label
+                            htmlFor={field.name}
+                            className="block text-sm font-semibold mb-2"
+                        >
+                            {field.label}
+                            {field.optional && (
+                                <span className="font-normal text-gray-500">
+                                    {' '}
+                                    (optional)
+                                </span>
+                            )}
+                        </label>
+                        <input
+                            id={field.name}
+                            name={field.name}
+                            type="text"
+                            autoComplete={field.autoComplete}
+                            value={formData[field.name]}
+                            onChange={handleChange}
+                            className={inputClassName(!!errors[field.name])}
+                            aria-invalid={!!errors[field.name]}
+                            aria-describedby={
+                                errors[field.name]
+                                    ? `${field.name}-error`
+                                    : undefined
+                            }
+                        />
+                        {errors[field.name] && (
+                            <p
+                                id={`${field.name}-error`}
+                                className="text-red-600 text-sm mt-1"
+                            >
+                                {errors[field.name]}
+                            </p>
+                        )}
+                    </div>
+                ))}
+
+                <div>
+                    <label
+                        htmlFor="country"
+                        className="block text-sm font-semibold mb-2"
+                    >
+                        Country
+                    </label>
+                    <select
+                        id="country"
+                        name="country"
+                        autoComplete="shipping country"
+                        value={formData.country}
+                        onChange={handleChange}
+                        className={inputClassName(!!errors.country)}
+                    >
+                        {countries.map((country) => (
+                            <option key={country} value={country}>
+                                {getCountryName(country)}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isSubmitting}
+                >
+                    {isSubmitting ? 'Saving...' : 'Save address'}
+                </Button>
+
+                {hasSavedAddress && (
+                    <button
+                        type="button"
+                        onClick={handleRemove}
+                        disabled={isSubmitting}
+                        className="w-full underline hover:no-underline disabled:opacity-50"
+                    >
+                        Remove saved address
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,72 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { AccountNav } from '@/components/account/AccountNav';
+import { siteConfig } from '@/config/site';
+import { getSignedInCustomer } from '@/lib/db/customers';
+import { getShippingCountries } from '@/lib/db/shipping-zones';
+import AddressForm from './AddressForm';
+
+/**
+ * Customer account - saved shipping address
+ *
+ * The saved address is prefilled in Stripe Checkout. The country list is
+ * the countries the shop ships to (plus the saved one, if a zone has since
+ * been removed).
+ */
+
+export const metadata: Metadata = {
+    title: 'Saved Address',
+    robots: { index: false, follow: false },
+};
+
+export default async function AccountAddressesPage() {
+    const { data: customer, error: customerError } =
+        await getSignedInCustomer();
+
+    if (customerError) {
+        throw new Error(customerError.message);
+    }
+
+    if (!customer) {
+        redirect('/account/login');
+    }
+
+    const { data: countries } = await getShippingCountries();
+    const countryOptions =
+        countries && countries.length > 0
+            ? countries
+            : [siteConfig.shipping.default_country];
+
+    if (
+        customer.shipping_country &&
+        !countryOptions.includes(customer.shipping_country)
+    ) {
+        countryOptions.unshift(customer.shipping_country);
+    }
+
+    return (
+        <div className="bg-white text-black">
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <h1 className="text-5xl font-bold mb-8">Your Account</h1>
+                <AccountNav
+                    current="/account/addresses"
+                    email={customer.email}
+                />
+
+                <AddressForm
+                    countries={countryOptions}
+                    hasSavedAddress={!!customer.shipping_address_line1}
+                    initialAddress={{
+                        name: customer.shipping_name ?? '',
+                        line1: customer.shipping_address_line1 ?? '',
+                        line2: customer.shipping_address_line2 ?? '',
+                        city: customer.shipping_city ?? '',
+                        state: customer.shipping_state ?? '',
+                        zip: customer.shipping_zip ?? '',
+                        country: customer.shipping_country ?? countryOptions[0],
+                    }}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,64 @@
+/**
+ * Customer Magic-Link Callback
+ *
+ * GET /account/auth/callback?code=...
+ *
+ * Where the sign-in email's link lands: exchanges the one-time code for a
+ * session cookie, creates the customer account on first sign-in, and sends
+ * the customer to /account. Failed or expired links go back to the sign-in
+ * page with ?error=link.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAnonClient } from '@/lib/supabase/server';
+import { upsertCustomer } from '@/lib/db/customers';
+import { logError } from '@/lib/errors/logger';
+
+export async function GET(request: NextRequest) {
+    const code = request.nextUrl.searchParams.get('code');
+    const failed = NextResponse.redirect(
+        new URL('/account/login?error=link', request.url)
+    );
+
+    if (!code) {
+        return failed;
+    }
+
+    try {
+        const supabase = await createAnonClient();
+        const { data, error } =
+            await supabase.auth.exchangeCodeForSession(code);
+
+        if (error || !data.user?.email) {
+            if (error) {
+                logError(error, {
+                    location: 'account/auth/callback',
+                    action: 'exchangeCodeForSession',
+                });
+            }
+            return failed;
+        }
+
+        const { error: customerError } = await upsertCustomer(
+            data.user.id,
+            data.user.email
+        );
+
+        if (customerError) {
+            logError(customerError, {
+                location: 'account/auth/callback',
+                action: 'upsertCustomer',
+            });
+            await supabase.auth.signOut();
+            return failed;
+        }
+
+        return NextResponse.redirect(new URL('/account', request.url));
+    } catch (error) {
+        logError(error, {
+            location: 'account/auth/callback',
+            action: 'GET',
+        });
+        return failed;
+    }
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { customerLoginSchema } from '@/lib/validation/customers';
+
+/**
+ * Customer sign-in - emails a magic link instead of asking for a password
+ *
+ * Features:
+ * - White background with black text (matches the Shoppe)
+ * - "Check your email" confirmation once the link is sent
+ * - Explains expired / already used links (?error=link from the callback)
+ * - Friendly message when sign-in requests are rate limited
+ */
+
+interface CustomerLoginClientProps {
+    linkFailed?: boolean;
+}
+
+function loginErrorMessage(status: number): string {
+    return status === 429
+        ? 'Too many sign-in requests. Please wait 15 minutes and try again.'
+        : 'Unable to send a sign-in link right now. Please try again.';
+}
+
+export default function CustomerLoginClient({
+    linkFailed = false,
+}: CustomerLoginClientProps) {
+    const [email, setEmail] = useState('');
+    const [fieldError, setFieldError] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(
+        linkFailed
+            ? 'That sign-in link has expired or was already used. Enter your email to get a new one.'
+            : null
+    );
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [sentTo, setSentTo] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const result = customerLoginSchema.safeParse({ email });
+
+        if (!result.success) {
+            setFieldError(result.error.issues[0].message);
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/account/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(result.data),
+            });
+
+            if (!response.ok) {
+                setError(loginErrorMessage(response.status));
+                return;
+            }
+
+            setSentTo(result.data.email);
+        } catch (err) {
+            console.error('Sign-in link error:', err);
+            setError(loginErrorMessage(500));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="bg-white text-black">
+            <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <h1 className="text-5xl font-bold text-center mb-6">Sign In</h1>
+                <p className="text-lg text-gray-600 text-center mb-12">
+                    See your order history, save your shipping address and
+                    manage your emails. No password needed &mdash; we&apos;ll
+                    email you a sign-in link.
+                </p>
+
+                <div className="border-2 border-black rounded p-8 mb-8">
+                    {sentTo ? (
+                        <div role="status">
+                            <h2 className="text-2xl font-bold mb-4">
+                                Check your email
+                            </h2>
+                            <p>
+                                We sent a sign-in link to{' '}
+                                <span className="font-semibold">{sentTo}</span>.
+                                The link works once and expires in an hour.
+                            </p>
+                        </div>
+                    ) : (
+                        <>
+                            {error && (
+                                <div
+                                    role="alert"
+                                    className="bg-red-100 border-2 border-red-500 text-red-700 px-4 py-3 rounded mb-6"
+                                >
+                                    <p>{error}</p>
+                                </div>
+                            )}
+
+                            <form
+                                onSubmit={handleSubmit}
+                                noValidate
+                                className="space-y-4"
+                            >
+                                <div>
+                                    <label
+                                        htmlFor="email"
+                                        className="block text-sm font-semibold mb-2"
+                                    >
+                                        Email
+                                    </label>
+                                    <input
+                                        id="email"
+                                        name="email"
+                                        type="email"
+                                        placeholder="you@example.com"
+                                        autoComplete="email"
+                                        value={email}
+                                        onChange={(e) => {
+                                            setEmail(e.target.value);
+                                            setFieldError(null);
+                                        }}
+                                        aria-invalid={!!fieldError}
+                                        aria-describedby={
+                                            fieldError
+                                                ? 'email-error'
+                                                : undefined
+                                        }
+                                        className={`w-full border-2 rounded px-4 py-2 bg-white text-black placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${fieldError ? 'border-red-500 focus:ring-red-500' : 'border-black focus:ring-black'}`}
+                                    />
+                                    {fieldError && (
+                                        <p
+                                            id="email-error"
+                                            className="text-red-600 text-sm mt-1"
+                                        >
+                                            {fieldError}
+                                        </p>
+                                    )}
+                                </div>
+
+                                <Button
+                                    type="submit"
+                                    className="w-full"
+                                    disabled={isSubmitting}
+                                >
+                                    {isSubmitting
+                                        ? 'Sending...'
+                                        : 'Email me a sign-in link'}
+                                </Button>
+                            </form>
+                        </>
+                    )}
+                </div>
+
+                <p className="text-center text-gray-600">
+                    Checked out as a guest? Sign in with the same email to see
+                    those orders too, or{' '}
+                    <Link href="/shoppe/order-status" className="underline">
+                        look up a single order
+                    </Link>
+                    .
+                </p>
+            </div>
+        </div>
+    );
+}
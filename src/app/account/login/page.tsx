@@ -0,0 +1,34 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getSignedInCustomer } from '@/lib/db/customers';
+import CustomerLoginClient from './CustomerLoginClient';
+
+/**
+ * Customer sign-in page
+ *
+ * Server component wrapper for the magic-link form. Customers who are
+ * already signed in go straight to their account.
+ */
+
+export const metadata: Metadata = {
+    title: 'Sign In',
+    description: 'Sign in with your email to see your orders.',
+    robots: { index: false, follow: true },
+};
+
+interface CustomerLoginPageProps {
+    searchParams: Promise<{ error?: string }>;
+}
+
+export default async function CustomerLoginPage({
+    searchParams,
+}: CustomerLoginPageProps) {
+    const { data: customer } = await getSignedInCustomer();
+    if (customer) {
+        redirect('/account');
+    }
+
+    const { error } = await searchParams;
+
+    return <CustomerLoginClient linkFailed={error === 'link'} />;
+}
@@ -0,0 +1,129 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { AccountNav } from '@/components/account/AccountNav';
+import { TrackingNumbers } from '@/components/shoppe/TrackingNumbers';
+import { getSignedInCustomer } from '@/lib/db/customers';
+import { getOrdersByEmail } from '@/lib/db/orders';
+import { logError } from '@/lib/errors/logger';
+import { formatCurrency } from '@/lib/utils/currency';
+import { ORDER_STATUS_DETAILS } from '@/lib/utils/order-status';
+
+/**
+ * Customer account - order history
+ *
+ * Lists every order placed with the signed-in customer's email, including
+ * guest orders from before the account existed. Signed-out visitors are
+ * sent to /account/login.
+ */
+
+export const metadata: Metadata = {
+    title: 'Your Orders',
+    robots: { index: false, follow: false },
+};
+
+export default async function AccountPage() {
+    const { data: customer, error: customerError } =
+        await getSignedInCustomer();
+
+    if (customerError) {
+        throw new Error(customerError.message);
+    }
+
+    if (!customer) {
+        redirect('/account/login');
+    }
+
+    const { data: orders, error } = await getOrdersByEmail(customer.email);
+
+    if (error) {
+        logError(error, {
+            location: 'account',
+            action: 'getOrdersByEmail',
+        });
+    }
+
+    return (
+        <div className="bg-white text-black">
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <h1 className="text-5xl font-bold mb-8">Your Account</h1>
+                <AccountNav current="/account" email={customer.email} />
+
+                {error ? (
+                    <div
+                        role="alert"
+                        className="bg-red-100 border-2 border-red-500 text-red-700 px-4 py-3 rounded"
+                    >
+                        <p>
+                            We couldn&apos;t load your orders right now. Please
+                            try again later.
+                        </p>
+                    </div>
+                ) : !orders || orders.length === 0 ? (
+                    <div className="border-2 border-black rounded p-8 text-center">
+                        <p className="text-lg mb-4">
+                            You haven&apos;t placed any orders with{' '}
+                            {customer.email} yet.
+                        </p>
+                        <Link href="/shoppe" className="underline">
+                            Visit the Shoppe
+                        </Link>
+                    </div>
+                ) : (
+                    <ul className="space-y-4">
+                        {orders.map((order) => (
+                            <li
+                                key={order.id}
+                                className="border-2 border-black rounded p-6"
+                            >
+                                <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                                    <div>
+                                        <h2 className="text-xl font-bold font-mono">
+                                            {order.orderNumber}
+                                        </h2>
+                                        <p className="text-gray-600">
+                                            Placed{' '}
+                                            {new Date(
+                                                order.createdAt
+                                            ).toLocaleDateString('en-US', {
+                                                year: 'numeric',
+                                                month: 'long',
+                                                day: 'numeric',
+                                            })}
+                                        </p>
+                                    </div>
+                                    <span className="px-3 py-1 rounded-full text-sm font-semibold bg-black text-white">
+                                        {
+                                            ORDER_STATUS_DETAILS[order.status]
+                                                .label
+                                        }
+                                    </span>
+                                </div>
+
+                                <ul className="text-sm text-gray-700 mb-4">
+                                    {order.items.map((item) => (
+                                        <li key={item.id}>
+                                            {item.quantity} &times;{' '}
+                                            {item.title ?? 'Artwork'}
+                                            {item.variantName &&
+                                                ` (${item.variantName})`}
+                                        </li>
+                                    ))}
+                                </ul>
+
+                                <TrackingNumbers
+                                    shipments={order.shipments ?? []}
+                                    className="text-sm mb-4"
+                                />
+
+                                <p className="font-bold">
+                                    Total: {formatCurrency(order.total)}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import type { WaitlistSubscription } from '@/lib/db/waitlist';
+
+/**
+ * PreferencesForm - the customer's email preferences
+ *
+ * Features:
+ * - Order update emails on/off (order confirmations are always sent)
+ * - Back-in-stock sign-ups, each with a "Stop notifying me" button
+ * - Sends signed-out customers back to /account/login
+ */
+
+export interface PreferencesFormProps {
+    orderUpdateEmails: boolean;
+    subscriptions: WaitlistSubscription[] | null; // null when they couldn't be loaded
+}
+
+const SAVE_ERROR =
+    'Unable to update your preferences right now. Please try again.';
+
+export default function PreferencesForm({
+    orderUpdateEmails: initialOrderUpdateEmails,
+    subscriptions: initialSubscriptions,
+}: PreferencesFormProps) {
+    const router = useRouter();
+    const [orderUpdateEmails, setOrderUpdateEmails] = useState(
+        initialOrderUpdateEmails
+    );
+    const [subscriptions, setSubscriptions] = useState(initialSubscriptions);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    /**
+     * Sends a request, handling sign-out and errors
+     *
+     * @returns Whether the request succeeded
+     */
+    const send = async (url: string, init: RequestInit) => {
+        setIsSubmitting(true);
+        setError(null);
+        setMessage(null);
+
+        try {
+            const response = await fetch(url, init);
+
+            if (response.status === 401) {
+                router.push('/account/login');
+                return false;
+            }
+
+            if (!response.ok) {
+                setError(SAVE_ERROR);
+                return false;
+            }
+
+            return true;
+        } catch (err) {
+            console.error('Email preferences error:', err);
+            setError(SAVE_ERROR);
+            return false;
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const saved = await send('/api/account/preferences', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ orderUpdateEmails }),
+        });
+
+        if (saved) {
+            setMessage('Preferences saved.');
+            router.refresh();
+        }
+    };
+
+    const handleLeaveWaitlist = async (subscription: WaitlistSubscription) => {
+        const removed = await send(
+            `/api/account/waitlist/${subscription.artworkId}`,
+            { method: 'DELETE' }
+        );
+
+        if (removed) {
+            setSubscriptions(
+                (prev) =>
+                    prev?.filter(
+                        (entry) => entry.artworkId !== subscription.artworkId
+                    ) ?? null
+            );
+            setMessage(
+                `You won't be emailed when ${subscription.title} is back in stock.`
+            );
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            {error && (
+                <div
+                    role="alert"
+                    className="bg-red-100 border-2 border-red-500 text-red-700 px-4 py-3 rounded"
+                >
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {message && (
+                <div
+                    role="status"
+                    className="bg-green-100 border-2 border-green-500 text-green-700 px-4 py-3 rounded"
+                >
+                    <p>{message}</p>
+                </div>
+            )}
+
+            <form
+                onSubmit={handleSubmit}
+                className="border-2 border-black rounded p-8"
+            >
+                <h2 className="text-2xl font-bold mb-2">Order emails</h2>
+                <p className="text-gray-600 mb-6">
+                    We always send a confirmation when you place an order.
+                </p>
+
+                <label className="flex items-start gap-3 mb-6">
+                    <input
+                        type="checkbox"
+                        name="orderUpdateEmails"
+                        checked={orderUpdateEmails}
+                        onChange={(e) => {
+                            setOrderUpdateEmails(e.target.checked);
+                            setMessage(null);
+                        }}
+                        className="mt-1 w-5 h-5 accent-black"
+                    />
+                    <span>
+                        <span className="font-semibold block">
+                            Shipping updates
+                        </span>
+                        <span className="text-gray-600">
+                            Emails when your order ships and when it&apos;s
+                            delivered.
+                        </span>
+                    </span>
+                </label>
+
+                <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isSubmitting}
+                >
+                    {isSubmitting ? 'Saving...' : 'Save preferences'}
+                </Button>
+            </form>
+
+            <section
+                aria-labelledby="waitlist-heading"
+                className="border-2 border-black rounded p-8"
+            >
+                <h2 id="waitlist-heading" className="text-2xl font-bold mb-2">
+                    Back-in-stock alerts
+                </h2>
+                <p className="text-gray-600 mb-6">
+                    Sold-out pieces you asked us to email you about.
+                </p>
+
+                {subscriptions === null ? (
+                    <p>
+                        We couldn&apos;t load your alerts right now. Please try
+                        again later.
+                    </p>
+                ) : subscriptions.length === 0 ? (
+                    <p>You&apos;re not waiting on any sold-out pieces.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-200 border-t border-b border-gray-200">
+                        {subscriptions.map((subscription) => (
+                            <li
+                                key={subscription.artworkId}
+                                className="flex items-center justify-between gap-4 py-3"
+                            >
+                                <Link
+                                    href={`/shoppe/${subscription.slug}`}
+                                    className="font-semibold underline"
+                                >
+                                    {subscription.title}
+                                </Link>
+                                <button
+                                    type="button"
+                                    onClick={() =>
+                                        handleLeaveWaitlist(subscription)
+                                    }
+                                    disabled={isSubmitting}
+                                    className="text-sm underline hover:no-underline disabled:opacity-50"
+                                    aria-label={`Stop notifying me about ${subscription.title}`}
+                                >
+                                    Stop notifying me
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,60 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { AccountNav } from '@/components/account/AccountNav';
+import { getSignedInCustomer } from '@/lib/db/customers';
+import { getWaitlistSubscriptions } from '@/lib/db/waitlist';
+import { logError } from '@/lib/errors/logger';
+import PreferencesForm from './PreferencesForm';
+
+/**
+ * Customer account - email preferences
+ *
+ * Order update emails can be switched off, and back-in-stock sign-ups made
+ * with the account's email can be cancelled one by one.
+ */
+
+export const metadata: Metadata = {
+    title: 'Email Preferences',
+    robots: { index: false, follow: false },
+};
+
+export default async function AccountPreferencesPage() {
+    const { data: customer, error: customerError } =
+        await getSignedInCustomer();
+
+    if (customerError) {
+        throw new Error(customerError.message);
+    }
+
+    if (!customer) {
+        redirect('/account/login');
+    }
+
+    const { data: subscriptions, error } = await getWaitlistSubscriptions(
+        customer.email
+    );
+
+    if (error) {
+        logError(error, {
+            location: 'account/preferences',
+            action: 'getWaitlistSubscriptions',
+        });
+    }
+
+    return (
+        <div className="bg-white text-black">
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <h1 className="text-5xl font-bold mb-8">Your Account</h1>
+                <AccountNav
+                    current="/account/preferences"
+                    email={customer.email}
+                />
+
+                <PreferencesForm
+                    orderUpdateEmails={customer.order_update_emails}
+                    subscriptions={subscriptions}
+                />
+            </div>
+        </div>
+    );
+}
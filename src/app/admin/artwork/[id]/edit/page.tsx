@@ -1,5 +1,7 @@
 import { notFound } from 'next/navigation';
 import { getArtworkById } from '@/lib/db/admin/artwork';
+import { getVariantsByArtworkId } from '@/lib/db/admin/variants';
+import { getAllProjectsAdmin } from '@/lib/db/admin/projects';
 import ArtworkForm from '@/components/admin/artwork/ArtworkForm';
 import { updateArtworkAction } from '@/app/admin/artwork/actions';
 
@@ -17,6 +19,25 @@ export default async function EditArtworkPage({ params }: PageProps) {
         notFound();
     }
 
+    const [{ data: variants }, { data: projects }] = await Promise.all([
+        getVariantsByArtworkId(id),
+        getAllProjectsAdmin(500),
+    ]);
+    const initialData = {
+        ...artwork,
+        variants: (variants ?? []).map((variant) => ({
+            id: variant.id,
+            name: variant.name,
+            size: variant.size,
+            finish: variant.finish,
+            is_framed: variant.is_framed,
+            price: variant.price,
+            sku: variant.sku,
+            inventory_count: variant.inventory_count,
+            is_active: variant.is_active,
+        })),
+    };
+
     const handleSubmit = async (
         data: Parameters<typeof updateArtworkAction>[1]
     ) => {
@@ -27,7 +48,13 @@ export default async function EditArtworkPage({ params }: PageProps) {
     return (
         <div className="max-w-4xl mx-auto">
             <h1 className="admin-page-header">Edit Artwork</h1>
-            <ArtworkForm initialData={artwork} onSubmit={handleSubmit} />
+            <ArtworkForm
+                initialData={initialData}
+                projectOptions={(projects || []).map(
+                    ({ id, title, status }) => ({ id, title, status })
+                )}
+                onSubmit={handleSubmit}
+            />
         </div>
     );
 }
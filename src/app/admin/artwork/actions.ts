@@ -4,18 +4,83 @@ import {
     createArtwork,
     deleteArtwork,
     updateArtwork,
+    type ArtworkRow,
 } from '@/lib/db/admin/artwork';
+import { saveArtworkVariants } from '@/lib/db/admin/variants';
+import {
+    getPendingWaitlistEntries,
+    markWaitlistNotified,
+} from '@/lib/db/waitlist';
+import { sendBackInStockEmail } from '@/lib/email/send';
+import { logError } from '@/lib/errors/logger';
 import { type ArtworkFormData } from '@/lib/validation/artwork';
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 
+/**
+ * Emails everyone waiting on a restocked artwork. Each entry is one address
+ * (sign-ups are unique per artwork and email) and is marked notified once
+ * sent, so later restocks don't email it again. Failed sends stay pending
+ * for the next in-stock save; they never block the update.
+ */
+async function notifyWaitlist(artwork: ArtworkRow) {
+    const { data: entries, error } = await getPendingWaitlistEntries(
+        artwork.id
+    );
+
+    if (error) {
+        logError(error, {
+            location: 'admin/artwork/actions',
+            action: 'getPendingWaitlistEntries',
+            metadata: { artworkId: artwork.id },
+        });
+        return;
+    }
+
+    const notifiedIds: string[] = [];
+
+    // Sent one at a time to stay under the email provider's rate limit
+    for (const entry of entries ?? []) {
+        const result = await sendBackInStockEmail(
+            { email: entry.email, unsubscribeToken: entry.unsubscribe_token },
+            artwork
+        );
+
+        if (result.success) {
+            notifiedIds.push(entry.id);
+        }
+    }
+
+    const { error: markError } = await markWaitlistNotified(notifiedIds);
+
+    if (markError) {
+        logError(markError, {
+            location: 'admin/artwork/actions',
+            action: 'markWaitlistNotified',
+            metadata: { artworkId: artwork.id },
+        });
+    }
+}
+
 export async function createArtworkAction(data: ArtworkFormData) {
-    const { error } = await createArtwork(data);
+    const { variants, ...artwork } = data;
+    const { data: created, error } = await createArtwork(artwork);
 
     if (error) {
         throw new Error(error.message);
     }
 
+    if (created && variants) {
+        const { error: variantError } = await saveArtworkVariants(
+            created.id,
+            variants
+        );
+
+        if (variantError) {
+            throw new Error(variantError.message);
+        }
+    }
+
     revalidatePath('/admin/artwork');
     revalidatePath('/gallery');
     revalidatePath('/shoppe');
@@ -23,12 +88,26 @@ export async function createArtworkAction(data: ArtworkFormData) {
 }
 
 export async function updateArtworkAction(id: string, data: ArtworkFormData) {
-    const { error } = await updateArtwork(id, data);
+    const { variants, ...artwork } = data;
+    const { data: updated, error } = await updateArtwork(id, artwork);
 
     if (error) {
         throw new Error(error.message);
     }
 
+    // Sign-ups are only taken while sold out, so any stock means a restock
+    if (updated && updated.inventory_count > 0) {
+        await notifyWaitlist(updated);
+    }
+
+    if (variants) {
+        const { error: variantError } = await saveArtworkVariants(id, variants);
+
+        if (variantError) {
+            throw new Error(variantError.message);
+        }
+    }
+
     revalidatePath('/admin/artwork');
     revalidatePath(`/admin/artwork/${id}`);
     revalidatePath('/gallery');
@@ -1,13 +1,23 @@
 import ArtworkForm from '@/components/admin/artwork/ArtworkForm';
+import { getAllProjectsAdmin } from '@/lib/db/admin/projects';
 import { createArtworkAction } from '../actions';
 
-export default function CreateArtworkPage() {
+export const dynamic = 'force-dynamic';
+
+export default async function CreateArtworkPage() {
+    const { data: projects } = await getAllProjectsAdmin(500);
+
     return (
         <div className="space-y-6">
             <h1 className="text-2xl font-bold text-gray-900">
                 Add New Artwork
             </h1>
-            <ArtworkForm onSubmit={createArtworkAction} />
+            <ArtworkForm
+                projectOptions={(projects || []).map(
+                    ({ id, title, status }) => ({ id, title, status })
+                )}
+                onSubmit={createArtworkAction}
+            />
         </div>
     );
 }
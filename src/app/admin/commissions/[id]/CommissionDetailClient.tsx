@@ -0,0 +1,286 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { CommissionWithPayments } from '@/lib/db/admin/commissions';
+import {
+    COMMISSION_STATUSES,
+    COMMISSION_STATUS_LABELS,
+    commissionQuoteSchema,
+    type CommissionStatus,
+} from '@/lib/validation/commissions';
+import {
+    sendCommissionQuoteAction,
+    updateCommissionStatusAction,
+} from '../actions';
+
+interface CommissionDetailClientProps {
+    commission: CommissionWithPayments;
+}
+
+export default function CommissionDetailClient({
+    commission,
+}: CommissionDetailClientProps) {
+    const router = useRouter();
+    const [selectedStatus, setSelectedStatus] = useState<CommissionStatus>(
+        commission.status
+    );
+    const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+    const [statusError, setStatusError] = useState<string | null>(null);
+
+    const [quoteAmount, setQuoteAmount] = useState(
+        commission.quote_amount ?? ''
+    );
+    const [depositAmount, setDepositAmount] = useState(
+        commission.deposit_amount ?? ''
+    );
+    const [quoteNotes, setQuoteNotes] = useState(commission.quote_notes ?? '');
+    const [isSendingQuote, setIsSendingQuote] = useState(false);
+    const [quoteError, setQuoteError] = useState<string | null>(null);
+    const [quoteMessage, setQuoteMessage] = useState<string | null>(null);
+
+    const canQuote =
+        commission.status === 'new' || commission.status === 'quoted';
+
+    const handleStatusUpdate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsUpdatingStatus(true);
+        setStatusError(null);
+
+        try {
+            await updateCommissionStatusAction(commission.id, selectedStatus);
+            router.refresh();
+        } catch (error) {
+            setStatusError(
+                error instanceof Error
+                    ? error.message
+                    : 'Failed to update status'
+            );
+        } finally {
+            setIsUpdatingStatus(false);
+        }
+    };
+
+    const handleSendQuote = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setQuoteError(null);
+        setQuoteMessage(null);
+
+        const result = commissionQuoteSchema.safeParse({
+            quote_amount: quoteAmount,
+            deposit_amount: depositAmount,
+            quote_notes: quoteNotes || null,
+        });
+
+        if (!result.success) {
+            setQuoteError(result.error.issues[0].message);
+            return;
+        }
+
+        if (
+            commission.status === 'quoted' &&
+            !confirm(
+                'Send a new quote? The payment links from the previous quote will stop working.'
+            )
+        ) {
+            return;
+        }
+
+        setIsSendingQuote(true);
+
+        try {
+            const { emailSent } = await sendCommissionQuoteAction(
+                commission.id,
+                result.data
+            );
+            setQuoteMessage(
+                emailSent
+                    ? `Quote sent to ${commission.customer_email}`
+                    : 'Quote saved, but the email could not be sent. Share the payment links below with the customer.'
+            );
+            router.refresh();
+        } catch (error) {
+            setQuoteError(
+                error instanceof Error ? error.message : 'Failed to send quote'
+            );
+        } finally {
+            setIsSendingQuote(false);
+        }
+    };
+
+    return (
+        <>
+            {/* Status Update Form */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                    Update Status
+                </h2>
+                <form onSubmit={handleStatusUpdate} className="space-y-4">
+                    <div>
+                        <label
+                            htmlFor="status"
+                            className="block text-sm font-medium text-gray-700 mb-1"
+                        >
+                            Commission Status
+                        </label>
+                        <select
+                            id="status"
+                            value={selectedStatus}
+                            onChange={(e) =>
+                                setSelectedStatus(
+                                    e.target.value as CommissionStatus
+                                )
+                            }
+                            disabled={isUpdatingStatus}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                        >
+                            {COMMISSION_STATUSES.map((status) => (
+                                <option key={status} value={status}>
+                                    {COMMISSION_STATUS_LABELS[status]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {statusError && (
+                        <div className="text-red-600 text-sm">
+                            {statusError}
+                        </div>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={
+                            isUpdatingStatus ||
+                            selectedStatus === commission.status
+                        }
+                        className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isUpdatingStatus ? 'Updating...' : 'Update Status'}
+                    </button>
+                </form>
+            </div>
+
+            {/* Quote Form */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                    Quote
+                </h2>
+                {canQuote ? (
+                    <form onSubmit={handleSendQuote} className="space-y-4">
+                        <div>
+                            <label
+                                htmlFor="quote_amount"
+                                className="block text-sm font-medium text-gray-700 mb-1"
+                            >
+                                Total Price ($)
+                            </label>
+                            <input
+                                type="number"
+                                id="quote_amount"
+                                min="0"
+                                step="0.01"
+                                value={quoteAmount}
+                                onChange={(e) => setQuoteAmount(e.target.value)}
+                                disabled={isSendingQuote}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                            />
+                        </div>
+                        <div>
+                            <label
+                                htmlFor="deposit_amount"
+                                className="block text-sm font-medium text-gray-700 mb-1"
+                            >
+                                Deposit ($)
+                            </label>
+                            <input
+                                type="number"
+                                id="deposit_amount"
+                                min="0"
+                                step="0.01"
+                                value={depositAmount}
+                                onChange={(e) =>
+                                    setDepositAmount(e.target.value)
+                                }
+                                disabled={isSendingQuote}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                            />
+                        </div>
+                        <div>
+                            <label
+                                htmlFor="quote_notes"
+                                className="block text-sm font-medium text-gray-700 mb-1"
+                            >
+                                Notes for the Customer
+                            </label>
+                            <textarea
+                                id="quote_notes"
+                                value={quoteNotes}
+                                onChange={(e) => setQuoteNotes(e.target.value)}
+                                disabled={isSendingQuote}
+                                placeholder="Timeline, what's included, revisions..."
+                                rows={4}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                            />
+                        </div>
+
+                        {quoteError && (
+                            <div className="text-red-600 text-sm">
+                                {quoteError}
+                            </div>
+                        )}
+                        {quoteMessage && (
+                            <div className="text-green-700 text-sm">
+                                {quoteMessage}
+                            </div>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={isSendingQuote}
+                            className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isSendingQuote
+                                ? 'Sending...'
+                                : commission.status === 'quoted'
+                                  ? 'Send New Quote'
+                                  : 'Send Quote'}
+                        </button>
+                    </form>
+                ) : (
+                    <p className="text-sm text-gray-600">
+                        The deposit has been paid or the commission is closed,
+                        so the quote can no longer change.
+                    </p>
+                )}
+
+                {commission.deposit_payment_link_url && (
+                    <div className="mt-4 space-y-1 text-sm">
+                        <div>
+                            <a
+                                href={commission.deposit_payment_link_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-indigo-600 hover:text-indigo-900"
+                            >
+                                Deposit payment link
+                            </a>
+                        </div>
+                        {commission.balance_payment_link_url && (
+                            <div>
+                                <a
+                                    href={commission.balance_payment_link_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-indigo-600 hover:text-indigo-900"
+                                >
+                                    Balance payment link
+                                </a>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+}
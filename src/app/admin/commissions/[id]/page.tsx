@@ -0,0 +1,252 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import {
+    getCommissionByIdAdmin,
+    getCommissionReferenceUrls,
+} from '@/lib/db/admin/commissions';
+import { CommissionStatusBadge } from '@/components/admin/commissions/CommissionList';
+import CommissionDetailClient from './CommissionDetailClient';
+
+export const dynamic = 'force-dynamic';
+
+function formatAmount(amount: string | null) {
+    return amount ? `$${parseFloat(amount).toFixed(2)}` : '—';
+}
+
+export default async function CommissionDetailPage({
+    params,
+}: {
+    params: Promise<{ id: string }>;
+}) {
+    const { id } = await params;
+    const { data: commission, error } = await getCommissionByIdAdmin(id);
+
+    // Handle not found (specific Postgres error code for no rows)
+    if (!commission && error?.code === 'PGRST116') {
+        notFound();
+    }
+
+    if (error && error.code !== 'PGRST116') {
+        return (
+            <div className="p-6">
+                <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                    Error: {error.message}
+                </div>
+            </div>
+        );
+    }
+
+    if (!commission) {
+        notFound();
+    }
+
+    // Missing previews shouldn't hide the rest of the request
+    const { data: referenceUrls } = await getCommissionReferenceUrls(
+        commission.reference_image_paths
+    );
+
+    const paidTotal = commission.commission_payments.reduce(
+        (sum, payment) => sum + parseFloat(payment.amount),
+        0
+    );
+
+    const requestFields: Array<[string, string]> = [
+        ['Subject', commission.subject],
+        ['Size', commission.size],
+        ['Style', commission.style],
+        ['Budget', formatAmount(commission.budget)],
+        [
+            'Deadline',
+            commission.deadline
+                ? new Date(commission.deadline).toLocaleDateString('en-US', {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      timeZone: 'UTC',
+                  })
+                : 'None',
+        ],
+    ];
+
+    return (
+        <div className="p-6">
+            {/* Header with back link */}
+            <div className="mb-6">
+                <Link
+                    href="/admin/commissions"
+                    className="text-indigo-600 hover:text-indigo-900"
+                >
+                    ← Back to Commissions
+                </Link>
+            </div>
+
+            {/* Commission header */}
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                    {commission.subject}
+                </h1>
+                <div className="flex items-center gap-4">
+                    <span className="text-gray-600">
+                        Requested{' '}
+                        {new Date(commission.created_at).toLocaleDateString(
+                            'en-US',
+                            {
+                                year: 'numeric',
+                                month: 'short',
+                                day: 'numeric',
+                            }
+                        )}
+                    </span>
+                    <CommissionStatusBadge status={commission.status} />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Main content - 2 columns */}
+                <div className="lg:col-span-2 space-y-6">
+                    {/* Customer Information */}
+                    <div className="bg-white rounded-lg border border-gray-200 p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                            Customer Information
+                        </h2>
+                        <div className="space-y-2">
+                            <div>
+                                <span className="text-gray-600">Name:</span>{' '}
+                                <span className="text-gray-900">
+                                    {commission.customer_name}
+                                </span>
+                            </div>
+                            <div>
+                                <span className="text-gray-600">Email:</span>{' '}
+                                <a
+                                    href={`mailto:${commission.customer_email}`}
+                                    className="text-indigo-600 hover:text-indigo-900"
+                                >
+                                    {commission.customer_email}
+                                </a>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Request */}
+                    <div className="bg-white rounded-lg border border-gray-200 p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                            Request
+                        </h2>
+                        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {requestFields.map(([label, value]) => (
+                                <div key={label}>
+                                    <dt className="text-sm text-gray-600">
+                                        {label}
+                                    </dt>
+                                    <dd className="text-gray-900">{value}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                        {commission.details && (
+                            <p className="mt-4 text-gray-700 whitespace-pre-wrap">
+                                {commission.details}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Reference Images */}
+                    {commission.reference_image_paths.length > 0 && (
+                        <div className="bg-white rounded-lg border border-gray-200 p-6">
+                            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                                Reference Images
+                            </h2>
+                            {referenceUrls && referenceUrls.length > 0 ? (
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                                    {referenceUrls.map((url, index) => (
+                                        <a
+                                            key={url}
+                                            href={url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                        >
+                                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                                            <img
+                                                src={url}
+                                                alt={`Reference ${index + 1}`}
+                                                className="w-full h-40 object-cover rounded border border-gray-200"
+                                            />
+                                        </a>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-red-600">
+                                    Reference images could not be loaded.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Payments */}
+                    <div className="bg-white rounded-lg border border-gray-200 p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                            Payments
+                        </h2>
+                        {commission.quote_amount && (
+                            <div className="mb-4 space-y-1 text-gray-900">
+                                <div className="flex justify-between">
+                                    <span>Quote:</span>
+                                    <span>
+                                        {formatAmount(commission.quote_amount)}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Deposit:</span>
+                                    <span>
+                                        {formatAmount(
+                                            commission.deposit_amount
+                                        )}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between font-semibold">
+                                    <span>Paid so far:</span>
+                                    <span>${paidTotal.toFixed(2)}</span>
+                                </div>
+                            </div>
+                        )}
+                        {commission.commission_payments.length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                                No payments recorded yet.
+                            </p>
+                        ) : (
+                            <ul className="divide-y divide-gray-200">
+                                {commission.commission_payments.map(
+                                    (payment) => (
+                                        <li
+                                            key={payment.id}
+                                            className="py-2 flex justify-between text-sm"
+                                        >
+                                            <span className="text-gray-900">
+                                                {payment.payment_type ===
+                                                'deposit'
+                                                    ? 'Deposit'
+                                                    : 'Balance'}{' '}
+                                                ·{' '}
+                                                {new Date(
+                                                    payment.created_at
+                                                ).toLocaleDateString('en-US')}
+                                            </span>
+                                            <span className="text-gray-900">
+                                                {formatAmount(payment.amount)}
+                                            </span>
+                                        </li>
+                                    )
+                                )}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                {/* Sidebar - 1 column */}
+                <div className="space-y-6">
+                    <CommissionDetailClient commission={commission} />
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,128 @@
+'use server';
+
+import {
+    getCommissionByIdAdmin,
+    saveCommissionQuote,
+    updateCommissionStatus,
+} from '@/lib/db/admin/commissions';
+import { sendCommissionQuoteEmail } from '@/lib/email/send';
+import { logError } from '@/lib/errors/logger';
+import {
+    createPaymentLink,
+    deactivatePaymentLink,
+} from '@/lib/payments/stripe';
+import {
+    commissionQuoteSchema,
+    type CommissionQuoteFormData,
+    type CommissionStatus,
+} from '@/lib/validation/commissions';
+import { revalidatePath } from 'next/cache';
+
+export async function updateCommissionStatusAction(
+    id: string,
+    status: CommissionStatus
+) {
+    const result = await updateCommissionStatus(id, status);
+
+    if (result.error) {
+        throw new Error(result.error.message);
+    }
+
+    revalidatePath(`/admin/commissions/${id}`);
+    revalidatePath('/admin/commissions');
+
+    return result;
+}
+
+/**
+ * Quotes a commission: creates Stripe Payment Links for the deposit and the
+ * balance, saves them with the quote and emails them to the customer.
+ *
+ * Only new or quoted commissions can be (re-)quoted; re-quoting deactivates
+ * the previous links so the customer can't pay an outdated amount.
+ *
+ * @returns emailSent: false when the quote was saved but the email failed
+ */
+export async function sendCommissionQuoteAction(
+    id: string,
+    data: CommissionQuoteFormData
+) {
+    const parsed = commissionQuoteSchema.safeParse(data);
+    if (!parsed.success) {
+        throw new Error(parsed.error.issues[0].message);
+    }
+
+    const { data: commission, error: commissionError } =
+        await getCommissionByIdAdmin(id);
+
+    if (commissionError || !commission) {
+        throw new Error(commissionError?.message ?? 'Commission not found');
+    }
+
+    if (commission.status !== 'new' && commission.status !== 'quoted') {
+        throw new Error('Only new or quoted commissions can be sent a quote');
+    }
+
+    const quoteAmount = parseFloat(parsed.data.quote_amount);
+    const depositAmount = parseFloat(parsed.data.deposit_amount);
+    const metadata = { commissionId: id };
+
+    const [depositLink, balanceLink] = await Promise.all([
+        createPaymentLink(
+            depositAmount,
+            `Commission deposit: ${commission.subject}`,
+            { ...metadata, paymentType: 'deposit' }
+        ),
+        createPaymentLink(
+            quoteAmount - depositAmount,
+            `Commission balance: ${commission.subject}`,
+            { ...metadata, paymentType: 'balance' }
+        ),
+    ]);
+
+    const { data: quoted, error } = await saveCommissionQuote(id, {
+        quote_amount: quoteAmount.toFixed(2),
+        deposit_amount: depositAmount.toFixed(2),
+        quote_notes: parsed.data.quote_notes || null,
+        deposit_payment_link_id: depositLink.id,
+        deposit_payment_link_url: depositLink.url,
+        balance_payment_link_id: balanceLink.id,
+        balance_payment_link_url: balanceLink.url,
+    });
+
+    if (error || !quoted) {
+        throw new Error(error?.message ?? 'Failed to save quote');
+    }
+
+    // Links from an earlier quote must not be payable any more
+    const previousLinks = [
+        commission.deposit_payment_link_id,
+        commission.balance_payment_link_id,
+    ].filter((linkId): linkId is string => !!linkId);
+
+    for (const linkId of previousLinks) {
+        try {
+            await deactivatePaymentLink(linkId);
+        } catch (err) {
+            logError(err, {
+                location: 'admin/commissions/actions',
+                action: 'deactivatePaymentLink',
+                metadata: { commissionId: id, paymentLinkId: linkId },
+            });
+        }
+    }
+
+    const emailResult = await sendCommissionQuoteEmail(quoted);
+    if (!emailResult.success) {
+        logError(emailResult.error || new Error('Failed to send quote email'), {
+            location: 'admin/commissions/actions',
+            action: 'sendCommissionQuoteEmail',
+            metadata: { commissionId: id },
+        });
+    }
+
+    revalidatePath(`/admin/commissions/${id}`);
+    revalidatePath('/admin/commissions');
+
+    return { emailSent: emailResult.success };
+}
@@ -0,0 +1,28 @@
+import { getAllCommissionsAdmin } from '@/lib/db/admin/commissions';
+import CommissionList from '@/components/admin/commissions/CommissionList';
+
+export const dynamic = 'force-dynamic';
+
+export default async function CommissionsPage() {
+    const { data: commissions, error } = await getAllCommissionsAdmin();
+
+    if (error) {
+        return (
+            <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                Error: {error.message}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Commissions
+                </h1>
+            </div>
+
+            <CommissionList commissions={commissions || []} />
+        </div>
+    );
+}
@@ -0,0 +1,57 @@
+import CouponForm from '@/components/admin/CouponForm';
+import { getCouponById } from '@/lib/db/admin/coupons';
+import { getAllArtworkAdmin } from '@/lib/db/admin/artwork';
+import { updateCouponAction } from '@/app/admin/coupons/actions';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+export const dynamic = 'force-dynamic';
+
+interface EditCouponPageProps {
+    params: Promise<{ id: string }>;
+}
+
+export default async function EditCouponPage({ params }: EditCouponPageProps) {
+    const { id } = await params;
+    const [{ data: coupon, error }, { data: artwork }] = await Promise.all([
+        getCouponById(id),
+        getAllArtworkAdmin(500),
+    ]);
+
+    if (error || !coupon) {
+        notFound();
+    }
+
+    // Bind the id to the action using .bind()
+    const boundUpdateAction = updateCouponAction.bind(null, id);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Edit Coupon
+                </h1>
+                <Link
+                    href="/admin/coupons"
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                    Back to Coupons
+                </Link>
+            </div>
+
+            <p className="text-sm text-gray-600">
+                Used {coupon.usage_count}
+                {coupon.usage_limit ? ` of ${coupon.usage_limit}` : ''} times
+            </p>
+
+            <CouponForm
+                initialData={coupon}
+                artworkOptions={(artwork || []).map(({ id, title }) => ({
+                    id,
+                    title,
+                }))}
+                onSubmit={boundUpdateAction}
+            />
+        </div>
+    );
+}
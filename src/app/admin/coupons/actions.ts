@@ -0,0 +1,43 @@
+'use server';
+
+import {
+    createCoupon,
+    deleteCoupon,
+    updateCoupon,
+} from '@/lib/db/admin/coupons';
+import { type CouponFormData } from '@/lib/validation/coupons';
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+
+export async function createCouponAction(data: CouponFormData) {
+    const { error } = await createCoupon(data);
+
+    if (error) {
+        throw new Error(error.message);
+    }
+
+    revalidatePath('/admin/coupons');
+    redirect('/admin/coupons');
+}
+
+export async function updateCouponAction(id: string, data: CouponFormData) {
+    const { error } = await updateCoupon(id, data);
+
+    if (error) {
+        throw new Error(error.message);
+    }
+
+    revalidatePath('/admin/coupons');
+    revalidatePath(`/admin/coupons/${id}`);
+    redirect('/admin/coupons');
+}
+
+export async function deleteCouponAction(id: string) {
+    const { error } = await deleteCoupon(id);
+
+    if (error) {
+        throw new Error(error.message);
+    }
+
+    revalidatePath('/admin/coupons');
+}
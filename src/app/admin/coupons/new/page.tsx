@@ -0,0 +1,34 @@
+import CouponForm from '@/components/admin/CouponForm';
+import { createCouponAction } from '@/app/admin/coupons/actions';
+import { getAllArtworkAdmin } from '@/lib/db/admin/artwork';
+import Link from 'next/link';
+
+export const dynamic = 'force-dynamic';
+
+export default async function NewCouponPage() {
+    const { data: artwork } = await getAllArtworkAdmin(500);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Create New Coupon
+                </h1>
+                <Link
+                    href="/admin/coupons"
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                    Back to Coupons
+                </Link>
+            </div>
+
+            <CouponForm
+                artworkOptions={(artwork || []).map(({ id, title }) => ({
+                    id,
+                    title,
+                }))}
+                onSubmit={createCouponAction}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,35 @@
+import Link from 'next/link';
+import { getAllCouponsAdmin } from '@/lib/db/admin/coupons';
+import CouponList from '@/components/admin/coupons/CouponList';
+
+export const dynamic = 'force-dynamic';
+
+export default async function CouponsPage() {
+    const { data: coupons, error } = await getAllCouponsAdmin();
+
+    if (error) {
+        return (
+            <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                Error: {error.message}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Coupons Management
+                </h1>
+                <Link
+                    href="/admin/coupons/new"
+                    className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                    Add New Coupon
+                </Link>
+            </div>
+
+            <CouponList coupons={coupons || []} />
+        </div>
+    );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { GiftCardRow } from '@/lib/db/admin/gift-cards';
+import { setGiftCardActiveAction } from '../actions';
+
+interface GiftCardDetailClientProps {
+    giftCard: GiftCardRow;
+}
+
+export default function GiftCardDetailClient({
+    giftCard,
+}: GiftCardDetailClientProps) {
+    const router = useRouter();
+    const [isUpdating, setIsUpdating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleToggle = async () => {
+        setIsUpdating(true);
+        setError(null);
+
+        try {
+            await setGiftCardActiveAction(giftCard.id, !giftCard.is_active);
+            router.refresh();
+        } catch (err) {
+            setError(
+                err instanceof Error
+                    ? err.message
+                    : 'Failed to update gift card'
+            );
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Availability
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+                {giftCard.is_active
+                    ? 'This card can be redeemed at checkout.'
+                    : 'This card is disabled and cannot be redeemed. Its balance is kept.'}
+            </p>
+            {error && (
+                <div className="mb-4 p-3 text-sm text-red-700 bg-red-50 rounded">
+                    {error}
+                </div>
+            )}
+            <button
+                type="button"
+                onClick={handleToggle}
+                disabled={isUpdating}
+                className={`w-full px-4 py-2 text-white rounded-md disabled:opacity-50 ${
+                    giftCard.is_active
+                        ? 'bg-red-600 hover:bg-red-700'
+                        : 'bg-indigo-600 hover:bg-indigo-700'
+                }`}
+            >
+                {isUpdating
+                    ? 'Saving...'
+                    : giftCard.is_active
+                      ? 'Disable Gift Card'
+                      : 'Enable Gift Card'}
+            </button>
+        </div>
+    );
+}
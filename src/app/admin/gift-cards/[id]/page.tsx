@@ -0,0 +1,230 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { getGiftCardByIdAdmin } from '@/lib/db/admin/gift-cards';
+import { GiftCardStatusBadge } from '@/components/admin/gift-cards/GiftCardList';
+import GiftCardDetailClient from './GiftCardDetailClient';
+
+export const dynamic = 'force-dynamic';
+
+function formatAmount(amount: string | number) {
+    return `$${Math.abs(
+        typeof amount === 'string' ? parseFloat(amount) : amount
+    ).toFixed(2)}`;
+}
+
+export default async function GiftCardDetailPage({
+    params,
+}: {
+    params: Promise<{ id: string }>;
+}) {
+    const { id } = await params;
+    const { data: giftCard, error } = await getGiftCardByIdAdmin(id);
+
+    // Handle not found (specific Postgres error code for no rows)
+    if (!giftCard && error?.code === 'PGRST116') {
+        notFound();
+    }
+
+    if (error && error.code !== 'PGRST116') {
+        return (
+            <div className="p-6">
+                <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                    Error: {error.message}
+                </div>
+            </div>
+        );
+    }
+
+    if (!giftCard) {
+        notFound();
+    }
+
+    const details: Array<[string, string]> = [
+        ['Amount', formatAmount(giftCard.initial_amount)],
+        ['Balance', formatAmount(giftCard.balance)],
+        [
+            'Delivery date',
+            new Date(giftCard.deliver_on).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+                timeZone: 'UTC',
+            }),
+        ],
+        [
+            'Emailed',
+            giftCard.delivered_at
+                ? new Date(giftCard.delivered_at).toLocaleString('en-US')
+                : 'Not yet',
+        ],
+    ];
+
+    return (
+        <div className="p-6">
+            {/* Header with back link */}
+            <div className="mb-6">
+                <Link
+                    href="/admin/gift-cards"
+                    className="text-indigo-600 hover:text-indigo-900"
+                >
+                    ← Back to Gift Cards
+                </Link>
+            </div>
+
+            {/* Gift card header */}
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900 mb-2 font-mono">
+                    {giftCard.code}
+                </h1>
+                <div className="flex items-center gap-4">
+                    <span className="text-gray-600">
+                        Purchased{' '}
+                        {new Date(giftCard.created_at).toLocaleDateString(
+                            'en-US',
+                            {
+                                year: 'numeric',
+                                month: 'short',
+                                day: 'numeric',
+                            }
+                        )}
+                    </span>
+                    <GiftCardStatusBadge giftCard={giftCard} />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Main content - 2 columns */}
+                <div className="lg:col-span-2 space-y-6">
+                    {/* Card */}
+                    <div className="bg-white rounded-lg border border-gray-200 p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                            Gift Card
+                        </h2>
+                        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {details.map(([label, value]) => (
+                                <div key={label}>
+                                    <dt className="text-sm text-gray-600">
+                                        {label}
+                                    </dt>
+                                    <dd className="text-gray-900">{value}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                        {giftCard.message && (
+                            <p className="mt-4 text-gray-700 whitespace-pre-wrap">
+                                {giftCard.message}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* People */}
+                    <div className="bg-white rounded-lg border border-gray-200 p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                            Purchaser &amp; Recipient
+                        </h2>
+                        <div className="space-y-2">
+                            <div>
+                                <span className="text-gray-600">From:</span>{' '}
+                                <span className="text-gray-900">
+                                    {giftCard.purchaser_name}
+                                </span>{' '}
+                                <a
+                                    href={`mailto:${giftCard.purchaser_email}`}
+                                    className="text-indigo-600 hover:text-indigo-900"
+                                >
+                                    {giftCard.purchaser_email}
+                                </a>
+                            </div>
+                            <div>
+                                <span className="text-gray-600">To:</span>{' '}
+                                <span className="text-gray-900">
+                                    {giftCard.recipient_name}
+                                </span>{' '}
+                                <a
+                                    href={`mailto:${giftCard.recipient_email}`}
+                                    className="text-indigo-600 hover:text-indigo-900"
+                                >
+                                    {giftCard.recipient_email}
+                                </a>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Ledger */}
+                    <div className="bg-white rounded-lg border border-gray-200 p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                            Balance History
+                        </h2>
+                        {giftCard.gift_card_transactions.length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                                No transactions recorded yet.
+                            </p>
+                        ) : (
+                            <ul className="divide-y divide-gray-200">
+                                {giftCard.gift_card_transactions.map(
+                                    (transaction) => (
+                                        <li
+                                            key={transaction.id}
+                                            className="py-2 flex justify-between text-sm"
+                                        >
+                                            <span className="text-gray-900">
+                                                {transaction.transaction_type ===
+                                                'purchase'
+                                                    ? 'Purchased'
+                                                    : 'Redeemed'}{' '}
+                                                ·{' '}
+                                                {new Date(
+                                                    transaction.created_at
+                                                ).toLocaleDateString('en-US')}
+                                                {transaction.order && (
+                                                    <>
+                                                        {' '}
+                                                        ·{' '}
+                                                        <Link
+                                                            href={`/admin/orders/${transaction.order.id}`}
+                                                            className="text-indigo-600 hover:text-indigo-900"
+                                                        >
+                                                            Order{' '}
+                                                            {
+                                                                transaction
+                                                                    .order
+                                                                    .order_number
+                                                            }
+                                                        </Link>
+                                                    </>
+                                                )}
+                                            </span>
+                                            <span
+                                                className={
+                                                    parseFloat(
+                                                        transaction.amount
+                                                    ) < 0
+                                                        ? 'text-red-600'
+                                                        : 'text-green-600'
+                                                }
+                                            >
+                                                {parseFloat(
+                                                    transaction.amount
+                                                ) < 0
+                                                    ? '−'
+                                                    : '+'}
+                                                {formatAmount(
+                                                    transaction.amount
+                                                )}
+                                            </span>
+                                        </li>
+                                    )
+                                )}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                {/* Sidebar - 1 column */}
+                <div className="space-y-6">
+                    <GiftCardDetailClient giftCard={giftCard} />
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,17 @@
+'use server';
+
+import { setGiftCardActive } from '@/lib/db/admin/gift-cards';
+import { revalidatePath } from 'next/cache';
+
+export async function setGiftCardActiveAction(id: string, isActive: boolean) {
+    const result = await setGiftCardActive(id, isActive);
+
+    if (result.error) {
+        throw new Error(result.error.message);
+    }
+
+    revalidatePath(`/admin/gift-cards/${id}`);
+    revalidatePath('/admin/gift-cards');
+
+    return result;
+}
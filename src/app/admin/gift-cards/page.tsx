@@ -0,0 +1,26 @@
+import { getAllGiftCardsAdmin } from '@/lib/db/admin/gift-cards';
+import GiftCardList from '@/components/admin/gift-cards/GiftCardList';
+
+export const dynamic = 'force-dynamic';
+
+export default async function GiftCardsPage() {
+    const { data: giftCards, error } = await getAllGiftCardsAdmin();
+
+    if (error) {
+        return (
+            <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                Error: {error.message}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">Gift Cards</h1>
+            </div>
+
+            <GiftCardList giftCards={giftCards || []} />
+        </div>
+    );
+}
@@ -6,41 +6,181 @@ import {
     type OrderWithItemsAndArtwork,
     type OrderStatus,
 } from '@/lib/db/admin/orders';
+import { formatEditionNumbers, getCertificatePath } from '@/lib/utils/editions';
+import { ORDER_STATUS_TRANSITIONS } from '@/lib/utils/order-status';
+import {
+    CARRIERS,
+    detectCarrier,
+    getCarrierName,
+    getTrackingUrl,
+    type Carrier,
+} from '@/lib/utils/tracking';
+import {
+    calculateItemRefundAmount,
+    getRefundableAmount,
+    getRefundedQuantities,
+} from '@/lib/utils/refunds';
 import {
     updateStatusAction,
     addNoteAction,
     addTrackingAction,
+    removeTrackingAction,
+    cancelOrderAction,
+    refundOrderAction,
+    type StatusEmailOutcome,
 } from '../actions';
 
 interface OrderDetailClientProps {
     order: OrderWithItemsAndArtwork;
 }
 
+const STATUS_LABELS: Record<OrderStatus, string> = {
+    pending: 'Pending',
+    paid: 'Paid',
+    processing: 'Processing',
+    shipped: 'Shipped',
+    delivered: 'Delivered',
+    cancelled: 'Cancelled',
+};
+
+const STATUS_EMAIL_MESSAGES: Partial<Record<StatusEmailOutcome, string>> = {
+    sent: 'Status updated and the customer emailed',
+    failed: 'Status updated, but the customer email could not be sent',
+    opted_out:
+        'Status updated. The customer has turned off order update emails.',
+};
+
+// History rows store statuses as plain text
+function statusLabel(status: string): string {
+    return STATUS_LABELS[status as OrderStatus] ?? status;
+}
+
 export default function OrderDetailClient({ order }: OrderDetailClientProps) {
     const router = useRouter();
     const [selectedStatus, setSelectedStatus] = useState<OrderStatus>(
         order.status
     );
     const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+    const [statusNote, setStatusNote] = useState('');
+    const [notifyCustomer, setNotifyCustomer] = useState(true);
     const [statusError, setStatusError] = useState<string | null>(null);
+    const [statusMessage, setStatusMessage] = useState<string | null>(null);
+    const [writtenOffItemIds, setWrittenOffItemIds] = useState<string[]>([]);
 
     const [newNote, setNewNote] = useState('');
     const [isAddingNote, setIsAddingNote] = useState(false);
     const [noteError, setNoteError] = useState<string | null>(null);
 
-    const [trackingNumber, setTrackingNumber] = useState(
-        order.shipping_tracking_number || ''
-    );
+    const [trackingNumber, setTrackingNumber] = useState('');
+    // '' = detect from the number
+    const [carrier, setCarrier] = useState<Carrier | ''>('');
     const [isSavingTracking, setIsSavingTracking] = useState(false);
     const [trackingError, setTrackingError] = useState<string | null>(null);
 
+    const [refundType, setRefundType] = useState<'full' | 'items'>('full');
+    const [refundQuantities, setRefundQuantities] = useState<
+        Record<string, number>
+    >({});
+    const [restock, setRestock] = useState(false);
+    const [refundReason, setRefundReason] = useState('');
+    const [isRefunding, setIsRefunding] = useState(false);
+    const [refundError, setRefundError] = useState<string | null>(null);
+    const [refundMessage, setRefundMessage] = useState<string | null>(null);
+
+    const refundableAmount = getRefundableAmount(order);
+    const refundedQuantities = getRefundedQuantities(order);
+    const canRefund =
+        !!order.payment_intent_id &&
+        (order.payment_status === 'succeeded' ||
+            order.payment_status === 'partially_refunded') &&
+        refundableAmount > 0;
+
+    const refundItems = Object.entries(refundQuantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+    const refundAmount =
+        refundType === 'full'
+            ? refundableAmount
+            : calculateItemRefundAmount(order, refundItems);
+
+    // Lines whose stock a cancellation would release: paid for, not yet
+    // released by an earlier cancellation and not fully refunded
+    const stockWasTaken =
+        order.payment_status === 'succeeded' ||
+        order.payment_status === 'partially_refunded' ||
+        order.payment_status === 'refunded';
+    const releasableItems = stockWasTaken
+        ? order.order_items.filter(
+              (item) =>
+                  !item.restock &&
+                  item.quantity - (refundedQuantities[item.id] ?? 0) > 0
+          )
+        : [];
+
+    const shipments = [...(order.order_shipments ?? [])].sort((a, b) =>
+        a.created_at.localeCompare(b.created_at)
+    );
+    const detectedCarrier = trackingNumber.trim()
+        ? detectCarrier(trackingNumber)
+        : null;
+
+    // The current status plus the ones the order can move to
+    const statusOptions: OrderStatus[] = [
+        order.status,
+        ...ORDER_STATUS_TRANSITIONS[order.status],
+    ];
+    const statusIsFinal = ORDER_STATUS_TRANSITIONS[order.status].length === 0;
+
+    // Moving to shipped or delivered emails the customer, once per order
+    const statusEmail =
+        selectedStatus !== order.status &&
+        (selectedStatus === 'shipped' || selectedStatus === 'delivered')
+            ? {
+                  name: selectedStatus === 'shipped' ? 'shipping' : 'delivery',
+                  sentAt:
+                      selectedStatus === 'shipped'
+                          ? order.shipped_email_sent_at
+                          : order.delivered_email_sent_at,
+              }
+            : null;
+
+    const statusHistory = [...(order.order_status_history ?? [])].sort(
+        (a, b) =>
+            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+    const numberedItems = order.order_items.filter(
+        (item) =>
+            item.certificate_token &&
+            item.edition_number_start !== null &&
+            item.edition_size
+    );
+
     const handleStatusUpdate = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsUpdatingStatus(true);
         setStatusError(null);
+        setStatusMessage(null);
 
         try {
-            await updateStatusAction(order.id, selectedStatus);
+            if (selectedStatus === 'cancelled') {
+                await cancelOrderAction(
+                    order.id,
+                    writtenOffItemIds,
+                    statusNote
+                );
+            } else {
+                const { email } = await updateStatusAction(
+                    order.id,
+                    selectedStatus,
+                    statusNote,
+                    notifyCustomer
+                );
+                setStatusMessage(
+                    (email && STATUS_EMAIL_MESSAGES[email]) ?? null
+                );
+            }
+            setStatusNote('');
             router.refresh();
         } catch (error) {
             setStatusError(
@@ -81,7 +221,13 @@ export default function OrderDetailClient({ order }: OrderDetailClientProps) {
         setTrackingError(null);
 
         try {
-            await addTrackingAction(order.id, trackingNumber.trim());
+            await addTrackingAction(
+                order.id,
+                trackingNumber.trim(),
+                carrier || null
+            );
+            setTrackingNumber('');
+            setCarrier('');
             router.refresh();
         } catch (error) {
             setTrackingError(
@@ -94,6 +240,66 @@ export default function OrderDetailClient({ order }: OrderDetailClientProps) {
         }
     };
 
+    const handleRemoveTracking = async (shipmentId: string) => {
+        setIsSavingTracking(true);
+        setTrackingError(null);
+
+        try {
+            await removeTrackingAction(order.id, shipmentId);
+            router.refresh();
+        } catch (error) {
+            setTrackingError(
+                error instanceof Error
+                    ? error.message
+                    : 'Failed to remove tracking number'
+            );
+        } finally {
+            setIsSavingTracking(false);
+        }
+    };
+
+    const handleRefund = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (refundAmount <= 0) return;
+
+        if (
+            !confirm(
+                `Refund $${refundAmount.toFixed(2)} to ${order.customer_email}? This cannot be undone.`
+            )
+        ) {
+            return;
+        }
+
+        setIsRefunding(true);
+        setRefundError(null);
+        setRefundMessage(null);
+
+        try {
+            const { emailSent } = await refundOrderAction(order.id, {
+                type: refundType,
+                items: refundType === 'items' ? refundItems : [],
+                restock,
+                reason: refundReason.trim() || undefined,
+            });
+            setRefundMessage(
+                emailSent
+                    ? `Refunded $${refundAmount.toFixed(2)} and emailed ${order.customer_email}`
+                    : `Refunded $${refundAmount.toFixed(2)}, but the refund email could not be sent`
+            );
+            setRefundQuantities({});
+            setRefundReason('');
+            router.refresh();
+        } catch (error) {
+            setRefundError(
+                error instanceof Error
+                    ? error.message
+                    : 'Failed to refund order'
+            );
+        } finally {
+            setIsRefunding(false);
+        }
+    };
+
     return (
         <>
             {/* Status Update Form */}
@@ -115,24 +321,132 @@ export default function OrderDetailClient({ order }: OrderDetailClientProps) {
                             onChange={(e) =>
                                 setSelectedStatus(e.target.value as OrderStatus)
                             }
-                            disabled={isUpdatingStatus}
+                            disabled={isUpdatingStatus || statusIsFinal}
                             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
                         >
-                            <option value="pending">Pending</option>
-                            <option value="paid">Paid</option>
-                            <option value="processing">Processing</option>
-                            <option value="shipped">Shipped</option>
-                            <option value="delivered">Delivered</option>
-                            <option value="cancelled">Cancelled</option>
+                            {statusOptions.map((status) => (
+                                <option key={status} value={status}>
+                                    {STATUS_LABELS[status]}
+                                </option>
+                            ))}
                         </select>
+                        {statusIsFinal && (
+                            <p className="mt-1 text-sm text-gray-500">
+                                {STATUS_LABELS[order.status]} orders can&apos;t
+                                change status.
+                            </p>
+                        )}
                     </div>
 
+                    {selectedStatus === 'cancelled' &&
+                        order.status !== 'cancelled' &&
+                        releasableItems.length > 0 && (
+                            <fieldset className="space-y-2">
+                                <legend className="block text-sm font-medium text-gray-700 mb-1">
+                                    Stock
+                                </legend>
+                                {releasableItems.map((item) => (
+                                    <div key={item.id}>
+                                        <label
+                                            htmlFor={`stock-${item.id}`}
+                                            className="block text-sm text-gray-700"
+                                        >
+                                            {item.artwork?.title ?? 'Artwork'}
+                                            {item.variant_name &&
+                                                ` (${item.variant_name})`}
+                                        </label>
+                                        <select
+                                            id={`stock-${item.id}`}
+                                            value={
+                                                writtenOffItemIds.includes(
+                                                    item.id
+                                                )
+                                                    ? 'written_off'
+                                                    : 'restocked'
+                                            }
+                                            onChange={(e) =>
+                                                setWrittenOffItemIds((prev) =>
+                                                    e.target.value ===
+                                                    'written_off'
+                                                        ? [...prev, item.id]
+                                                        : prev.filter(
+                                                              (id) =>
+                                                                  id !== item.id
+                                                          )
+                                                )
+                                            }
+                                            disabled={isUpdatingStatus}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                                        >
+                                            <option value="restocked">
+                                                Return to stock
+                                            </option>
+                                            <option value="written_off">
+                                                Write off as damaged
+                                            </option>
+                                        </select>
+                                    </div>
+                                ))}
+                            </fieldset>
+                        )}
+
+                    {!statusIsFinal && (
+                        <div>
+                            <label
+                                htmlFor="statusNote"
+                                className="block text-sm font-medium text-gray-700 mb-1"
+                            >
+                                Note (optional)
+                            </label>
+                            <input
+                                type="text"
+                                id="statusNote"
+                                value={statusNote}
+                                onChange={(e) => setStatusNote(e.target.value)}
+                                disabled={isUpdatingStatus}
+                                placeholder="e.g. Customer asked to cancel"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                            />
+                        </div>
+                    )}
+
+                    {statusEmail &&
+                        (statusEmail.sentAt ? (
+                            <p className="text-sm text-gray-500">
+                                The {statusEmail.name} email was already sent on{' '}
+                                {new Date(
+                                    statusEmail.sentAt
+                                ).toLocaleDateString('en-US', {
+                                    dateStyle: 'medium',
+                                })}
+                                .
+                            </p>
+                        ) : (
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={notifyCustomer}
+                                    onChange={(e) =>
+                                        setNotifyCustomer(e.target.checked)
+                                    }
+                                    disabled={isUpdatingStatus}
+                                />
+                                Send the customer a {statusEmail.name} email
+                            </label>
+                        ))}
+
                     {statusError && (
                         <div className="text-red-600 text-sm">
                             {statusError}
                         </div>
                     )}
 
+                    {statusMessage && (
+                        <div className="text-green-700 text-sm">
+                            {statusMessage}
+                        </div>
+                    )}
+
                     <button
                         type="submit"
                         disabled={
@@ -145,11 +459,101 @@ export default function OrderDetailClient({ order }: OrderDetailClientProps) {
                 </form>
             </div>
 
-            {/* Tracking Number Form */}
+            {/* Status History */}
+            {statusHistory.length > 0 && (
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                        Status History
+                    </h2>
+                    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                        {statusHistory.map((entry) => (
+                            <li key={entry.id} className="ml-4">
+                                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-indigo-600" />
+                                <p className="text-sm font-medium text-gray-900">
+                                    {entry.from_status
+                                        ? `${statusLabel(entry.from_status)} → ${statusLabel(entry.to_status)}`
+                                        : `Placed as ${statusLabel(entry.to_status)}`}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {new Date(entry.created_at).toLocaleString(
+                                        'en-US',
+                                        {
+                                            dateStyle: 'medium',
+                                            timeStyle: 'short',
+                                        }
+                                    )}{' '}
+                                    · {entry.changed_by ?? 'Automatic'}
+                                </p>
+                                {entry.note && (
+                                    <p className="mt-1 text-sm text-gray-700">
+                                        {entry.note}
+                                    </p>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+
+            {/* Shipments */}
             <div className="bg-white rounded-lg border border-gray-200 p-6">
                 <h2 className="text-lg font-semibold text-gray-900 mb-4">
                     Shipping Tracking
                 </h2>
+                {shipments.length > 0 ? (
+                    <ul className="divide-y divide-gray-200 mb-4">
+                        {shipments.map((shipment) => {
+                            const trackingUrl = getTrackingUrl(
+                                shipment.tracking_number,
+                                shipment.carrier
+                            );
+                            return (
+                                <li
+                                    key={shipment.id}
+                                    className="flex items-center justify-between gap-4 py-2 text-sm"
+                                >
+                                    <div>
+                                        <span className="text-gray-500 mr-2">
+                                            {getCarrierName(
+                                                shipment.tracking_number,
+                                                shipment.carrier
+                                            ) ?? 'Unknown carrier'}
+                                        </span>
+                                        {trackingUrl ? (
+                                            <a
+                                                href={trackingUrl}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="font-mono text-indigo-600 hover:text-indigo-900"
+                                            >
+                                                {shipment.tracking_number}
+                                            </a>
+                                        ) : (
+                                            <span className="font-mono text-gray-900">
+                                                {shipment.tracking_number}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={() =>
+                                            handleRemoveTracking(shipment.id)
+                                        }
+                                        disabled={isSavingTracking}
+                                        aria-label={`Remove ${shipment.tracking_number}`}
+                                        className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                                    >
+                                        Remove
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500 mb-4">
+                        No tracking numbers yet.
+                    </p>
+                )}
                 <form onSubmit={handleSaveTracking} className="space-y-4">
                     <div>
                         <label
@@ -169,6 +573,37 @@ export default function OrderDetailClient({ order }: OrderDetailClientProps) {
                         />
                     </div>
 
+                    <div>
+                        <label
+                            htmlFor="carrier"
+                            className="block text-sm font-medium text-gray-700 mb-1"
+                        >
+                            Carrier
+                        </label>
+                        <select
+                            id="carrier"
+                            value={carrier}
+                            onChange={(e) =>
+                                setCarrier(e.target.value as Carrier | '')
+                            }
+                            disabled={isSavingTracking}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                        >
+                            <option value="">
+                                {detectedCarrier
+                                    ? `Auto-detect (${CARRIERS[detectedCarrier].name})`
+                                    : 'Auto-detect'}
+                            </option>
+                            {(Object.keys(CARRIERS) as Carrier[]).map(
+                                (option) => (
+                                    <option key={option} value={option}>
+                                        {CARRIERS[option].name}
+                                    </option>
+                                )
+                            )}
+                        </select>
+                    </div>
+
                     {trackingError && (
                         <div className="text-red-600 text-sm">
                             {trackingError}
@@ -177,18 +612,226 @@ export default function OrderDetailClient({ order }: OrderDetailClientProps) {
 
                     <button
                         type="submit"
-                        disabled={
-                            isSavingTracking ||
-                            !trackingNumber.trim() ||
-                            trackingNumber === order.shipping_tracking_number
-                        }
+                        disabled={isSavingTracking || !trackingNumber.trim()}
                         className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                        {isSavingTracking ? 'Saving...' : 'Save Tracking'}
+                        {isSavingTracking ? 'Saving...' : 'Add Tracking'}
                     </button>
                 </form>
             </div>
 
+            {/* Printable documents */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                    Documents
+                </h2>
+                <ul className="space-y-2">
+                    <li>
+                        <a
+                            href={`/admin/orders/${order.id}/packing-slip`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-indigo-600 hover:text-indigo-900"
+                        >
+                            Packing slip (PDF)
+                        </a>
+                    </li>
+                    <li>
+                        <a
+                            href={`/admin/orders/${order.id}/invoice`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-indigo-600 hover:text-indigo-900"
+                        >
+                            Invoice (PDF)
+                        </a>
+                    </li>
+                </ul>
+            </div>
+
+            {/* Certificates of Authenticity */}
+            {numberedItems.length > 0 && (
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                        Certificates of Authenticity
+                    </h2>
+                    <ul className="space-y-2">
+                        {numberedItems.map((item) => (
+                            <li key={item.id}>
+                                <a
+                                    href={getCertificatePath(
+                                        item.certificate_token as string
+                                    )}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-indigo-600 hover:text-indigo-900"
+                                >
+                                    {item.artwork?.title ?? 'Artwork'} (
+                                    {formatEditionNumbers(
+                                        item.edition_number_start as number,
+                                        item.quantity,
+                                        item.edition_size as number
+                                    )}
+                                    )
+                                </a>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Refund Form */}
+            {canRefund && (
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                        Refund
+                    </h2>
+                    <form onSubmit={handleRefund} className="space-y-4">
+                        <fieldset className="space-y-2">
+                            <legend className="block text-sm font-medium text-gray-700 mb-1">
+                                Refund Type
+                            </legend>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="radio"
+                                    name="refundType"
+                                    value="full"
+                                    checked={refundType === 'full'}
+                                    onChange={() => setRefundType('full')}
+                                    disabled={isRefunding}
+                                />
+                                Full refund (${refundableAmount.toFixed(2)})
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="radio"
+                                    name="refundType"
+                                    value="items"
+                                    checked={refundType === 'items'}
+                                    onChange={() => setRefundType('items')}
+                                    disabled={isRefunding}
+                                />
+                                Refund items
+                            </label>
+                        </fieldset>
+
+                        {refundType === 'items' && (
+                            <div className="space-y-2">
+                                {order.order_items.map((item) => {
+                                    const remaining =
+                                        item.quantity -
+                                        (refundedQuantities[item.id] ?? 0);
+                                    return (
+                                        <div
+                                            key={item.id}
+                                            className="flex items-center justify-between gap-2"
+                                        >
+                                            <label
+                                                htmlFor={`refund-${item.id}`}
+                                                className="text-sm text-gray-700"
+                                            >
+                                                {item.artwork?.title ??
+                                                    'Artwork'}
+                                                {item.variant_name &&
+                                                    ` (${item.variant_name})`}{' '}
+                                                <span className="text-gray-500">
+                                                    ({remaining} refundable)
+                                                </span>
+                                            </label>
+                                            <input
+                                                type="number"
+                                                id={`refund-${item.id}`}
+                                                min={0}
+                                                max={remaining}
+                                                value={
+                                                    refundQuantities[item.id] ??
+                                                    0
+                                                }
+                                                onChange={(e) =>
+                                                    setRefundQuantities(
+                                                        (prev) => ({
+                                                            ...prev,
+                                                            [item.id]: Math.min(
+                                                                Math.max(
+                                                                    parseInt(
+                                                                        e.target
+                                                                            .value,
+                                                                        10
+                                                                    ) || 0,
+                                                                    0
+                                                                ),
+                                                                remaining
+                                                            ),
+                                                        })
+                                                    )
+                                                }
+                                                disabled={
+                                                    isRefunding ||
+                                                    remaining === 0
+                                                }
+                                                className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={restock}
+                                onChange={(e) => setRestock(e.target.checked)}
+                                disabled={isRefunding}
+                            />
+                            Return refunded items to inventory
+                        </label>
+
+                        <div>
+                            <label
+                                htmlFor="refundReason"
+                                className="block text-sm font-medium text-gray-700 mb-1"
+                            >
+                                Reason (internal)
+                            </label>
+                            <input
+                                type="text"
+                                id="refundReason"
+                                value={refundReason}
+                                onChange={(e) =>
+                                    setRefundReason(e.target.value)
+                                }
+                                disabled={isRefunding}
+                                placeholder="e.g. Damaged in transit"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                            />
+                        </div>
+
+                        {refundError && (
+                            <div className="text-red-600 text-sm">
+                                {refundError}
+                            </div>
+                        )}
+
+                        {refundMessage && (
+                            <div className="text-green-700 text-sm">
+                                {refundMessage}
+                            </div>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={isRefunding || refundAmount <= 0}
+                            className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isRefunding
+                                ? 'Refunding...'
+                                : `Refund $${refundAmount.toFixed(2)}`}
+                        </button>
+                    </form>
+                </div>
+            )}
+
             {/* Admin Notes Form */}
             <div className="bg-white rounded-lg border border-gray-200 p-6">
                 <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -1,6 +1,7 @@
 import Link from 'next/link';
 import Image from 'next/image';
 import type { OrderItemWithArtwork } from '@/lib/db/admin/orders';
+import { formatEditionNumbers } from '@/lib/utils/editions';
 
 interface OrderItemRowProps {
     item: OrderItemWithArtwork;
@@ -45,11 +46,31 @@ export function OrderItemRow({ item }: OrderItemRowProps) {
                         Item Unavailable (ID: {item.artwork_id})
                     </span>
                 )}
+                {item.variant_name && (
+                    <p className="text-sm text-gray-500">{item.variant_name}</p>
+                )}
+                {item.edition_number_start !== null && item.edition_size && (
+                    <p className="text-sm text-gray-500">
+                        Edition{' '}
+                        {formatEditionNumbers(
+                            item.edition_number_start,
+                            item.quantity,
+                            item.edition_size
+                        )}
+                    </p>
+                )}
+                {item.restock && item.restock.quantity > 0 && (
+                    <p className="text-sm text-gray-500">
+                        {item.restock.disposition === 'restocked'
+                            ? `Returned to stock (${item.restock.quantity})`
+                            : `Written off as damaged (${item.restock.quantity})`}
+                    </p>
+                )}
             </td>
 
             {/* SKU column */}
             <td className="px-4 py-4 text-gray-900">
-                {item.artwork?.sku || 'N/A'}
+                {item.variant?.sku || item.artwork?.sku || 'N/A'}
             </td>
 
             {/* Quantity column */}
@@ -0,0 +1,74 @@
+/**
+ * Order Document Route
+ *
+ * Serves the packing slip or invoice PDF for one order. Lives under /admin
+ * (not /api/admin) so the admin middleware guards it like the order page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getOrderById } from '@/lib/db/admin/orders';
+import {
+    ORDER_DOCUMENTS,
+    ORDER_DOCUMENT_TYPES,
+} from '@/lib/pdf/order-documents';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+const paramsSchema = z.object({
+    id: z.string().uuid(),
+    document: z.enum(ORDER_DOCUMENT_TYPES),
+});
+
+/**
+ * GET /admin/orders/[id]/packing-slip
+ * GET /admin/orders/[id]/invoice
+ *
+ * @returns 200 with the PDF, 404 for an unknown order or document,
+ *          500 on database errors
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string; document: string }> }
+) {
+    const parsed = paramsSchema.safeParse(await params);
+
+    if (!parsed.success) {
+        return NextResponse.json(createApiErrorResponse('NOT_FOUND'), {
+            status: 404,
+        });
+    }
+
+    const { id, document } = parsed.data;
+    const { data: order, error } = await getOrderById(id);
+
+    if (error?.code === 'PGRST116' || (!error && !order)) {
+        return NextResponse.json(createApiErrorResponse('NOT_FOUND'), {
+            status: 404,
+        });
+    }
+
+    if (error || !order) {
+        logError(error, {
+            location: 'admin/orders/[id]/[document]',
+            action: 'getOrderById',
+            metadata: { orderId: id, document },
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    const { render, filename } = ORDER_DOCUMENTS[document];
+    const pdf = render([order]);
+
+    return new NextResponse(new Uint8Array(pdf), {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `inline; filename="${filename}-${order.order_number}.pdf"`,
+            'Cache-Control': 'private, no-store',
+        },
+    });
+}
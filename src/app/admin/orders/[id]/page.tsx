@@ -1,9 +1,14 @@
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { getOrderById } from '@/lib/db/admin/orders';
+import { formatExpectedShipDate } from '@/lib/cart/preorders';
+import { getRefundedAmount } from '@/lib/utils/refunds';
 import OrderDetailClient from './OrderDetailClient';
 import { OrderItemRow } from './OrderItemRow';
 
+// Stripe dispute statuses that need no further response
+const CLOSED_DISPUTE_STATUSES = ['won', 'lost', 'warning_closed', 'prevented'];
+
 export default async function OrderDetailPage({
     params,
 }: {
@@ -33,6 +38,10 @@ export default async function OrderDetailPage({
         notFound();
     }
 
+    const refunds = order.order_refunds ?? [];
+    const refundedAmount = getRefundedAmount(order);
+    const disputes = order.order_disputes ?? [];
+
     return (
         <div className="p-6">
             {/* Header with back link */}
@@ -79,9 +88,61 @@ export default async function OrderDetailPage({
                         {order.status.charAt(0).toUpperCase() +
                             order.status.slice(1)}
                     </span>
+                    {(order.payment_status === 'refunded' ||
+                        order.payment_status === 'partially_refunded') && (
+                        <span className="px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800">
+                            {order.payment_status === 'refunded'
+                                ? 'Refunded'
+                                : 'Partially refunded'}
+                        </span>
+                    )}
+                    {order.is_preorder && (
+                        <span className="px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+                            Pre-order · Expected to ship:{' '}
+                            {formatExpectedShipDate(order.expected_ship_date)}
+                        </span>
+                    )}
                 </div>
             </div>
 
+            {/* Chargebacks */}
+            {disputes.map((dispute) =>
+                CLOSED_DISPUTE_STATUSES.includes(dispute.status) ? (
+                    <div
+                        key={dispute.id}
+                        className="mb-6 p-4 rounded-lg border border-gray-200 bg-gray-50 text-gray-700"
+                    >
+                        Dispute closed ({dispute.status.replace(/_/g, ' ')}) for
+                        ${parseFloat(dispute.amount).toFixed(2)} ·{' '}
+                        {dispute.reason.replace(/_/g, ' ')}
+                    </div>
+                ) : (
+                    <div
+                        key={dispute.id}
+                        role="alert"
+                        className="mb-6 p-4 rounded-lg border border-red-200 bg-red-50 text-red-800"
+                    >
+                        <p className="font-semibold">
+                            Payment disputed: $
+                            {parseFloat(dispute.amount).toFixed(2)} ·{' '}
+                            {dispute.reason.replace(/_/g, ' ')}
+                        </p>
+                        <p className="text-sm">
+                            Submit evidence in the Stripe dashboard
+                            {dispute.evidence_due_by &&
+                                ` by ${new Date(
+                                    dispute.evidence_due_by
+                                ).toLocaleDateString('en-US', {
+                                    year: 'numeric',
+                                    month: 'short',
+                                    day: 'numeric',
+                                })}`}{' '}
+                            (dispute {dispute.stripe_dispute_id}).
+                        </p>
+                    </div>
+                )
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Main content - 2 columns */}
                 <div className="lg:col-span-2 space-y-6">
@@ -193,6 +254,47 @@ export default async function OrderDetailPage({
                                     )}
                                 </span>
                             </div>
+                            {parseFloat(order.discount_amount) > 0 && (
+                                <div className="flex justify-between text-gray-900">
+                                    <span>
+                                        Discount
+                                        {order.coupon_code
+                                            ? ` (${order.coupon_code})`
+                                            : ''}
+                                        :
+                                    </span>
+                                    <span>
+                                        -$
+                                        {parseFloat(
+                                            order.discount_amount
+                                        ).toFixed(2)}
+                                    </span>
+                                </div>
+                            )}
+                            {parseFloat(order.gift_card_amount) > 0 && (
+                                <div className="flex justify-between text-gray-900">
+                                    <span>
+                                        Gift card
+                                        {order.gift_card_transactions?.length
+                                            ? ` (${order.gift_card_transactions
+                                                  .map(
+                                                      (redemption) =>
+                                                          redemption.gift_card
+                                                              ?.code
+                                                  )
+                                                  .filter(Boolean)
+                                                  .join(', ')})`
+                                            : ''}
+                                        :
+                                    </span>
+                                    <span>
+                                        -$
+                                        {parseFloat(
+                                            order.gift_card_amount
+                                        ).toFixed(2)}
+                                    </span>
+                                </div>
+                            )}
                             <div className="flex justify-between text-gray-900">
                                 <span>Shipping:</span>
                                 <span>
@@ -217,9 +319,87 @@ export default async function OrderDetailPage({
                                     ${(parseFloat(order.total) || 0).toFixed(2)}
                                 </span>
                             </div>
+                            {refundedAmount > 0 && (
+                                <div className="flex justify-between text-gray-900">
+                                    <span>Refunded:</span>
+                                    <span>-${refundedAmount.toFixed(2)}</span>
+                                </div>
+                            )}
                         </div>
                     </div>
 
+                    {/* Refund History */}
+                    {refunds.length > 0 && (
+                        <div className="bg-white rounded-lg border border-gray-200 p-6">
+                            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                                Refunds
+                            </h2>
+                            <ul className="divide-y divide-gray-200">
+                                {refunds.map((refund) => (
+                                    <li key={refund.id} className="py-3">
+                                        <div className="flex justify-between text-gray-900">
+                                            <span>
+                                                {new Date(
+                                                    refund.created_at
+                                                ).toLocaleDateString('en-US', {
+                                                    year: 'numeric',
+                                                    month: 'short',
+                                                    day: 'numeric',
+                                                })}
+                                                {refund.restocked &&
+                                                    ' · Restocked'}
+                                            </span>
+                                            <span className="font-medium">
+                                                $
+                                                {parseFloat(
+                                                    refund.amount
+                                                ).toFixed(2)}
+                                            </span>
+                                        </div>
+                                        {refund.order_refund_items.length >
+                                            0 && (
+                                            <ul className="text-sm text-gray-600">
+                                                {refund.order_refund_items.map(
+                                                    (refundItem) => {
+                                                        const item =
+                                                            order.order_items.find(
+                                                                (orderItem) =>
+                                                                    orderItem.id ===
+                                                                    refundItem.order_item_id
+                                                            );
+                                                        return (
+                                                            <li
+                                                                key={
+                                                                    refundItem.order_item_id
+                                                                }
+                                                            >
+                                                                {
+                                                                    refundItem.quantity
+                                                                }{' '}
+                                                                &times;{' '}
+                                                                {item?.artwork
+                                                                    ?.title ??
+                                                                    'Artwork'}
+                                                            </li>
+                                                        );
+                                                    }
+                                                )}
+                                            </ul>
+                                        )}
+                                        {refund.reason && (
+                                            <p className="text-sm text-gray-600">
+                                                {refund.reason}
+                                            </p>
+                                        )}
+                                        <p className="text-xs text-gray-400 font-mono">
+                                            {refund.stripe_refund_id}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
                     {/* Customer Notes */}
                     {order.order_notes && (
                         <div className="bg-white rounded-lg border border-gray-200 p-6">
@@ -4,12 +4,230 @@ import {
     updateOrderStatus,
     addOrderNote,
     addTrackingNumber,
+    removeTrackingNumber,
+    cancelOrder,
+    getOrderById,
+    recordOrderRefund,
+    claimOrderStatusEmail,
+    releaseOrderStatusEmail,
     type OrderStatus,
+    type OrderStatusChange,
+    type OrderStatusEmail,
 } from '@/lib/db/admin/orders';
+import { wantsOrderUpdateEmails } from '@/lib/db/customers';
+import {
+    sendDeliveryEmail,
+    sendRefundEmail,
+    sendShippingEmail,
+} from '@/lib/email/send';
+import { logError } from '@/lib/errors/logger';
+import { createRefund } from '@/lib/payments/stripe';
+import {
+    calculateItemRefundAmount,
+    getRefundableAmount,
+    getRefundedQuantities,
+} from '@/lib/utils/refunds';
+import {
+    getCarrierName,
+    normalizeTrackingNumber,
+    type Carrier,
+} from '@/lib/utils/tracking';
+import {
+    orderRefundSchema,
+    type OrderRefundFormData,
+} from '@/lib/validation/refunds';
+import { cookies } from 'next/headers';
 import { revalidatePath } from 'next/cache';
 
-export async function updateStatusAction(orderId: string, status: OrderStatus) {
-    const result = await updateOrderStatus(orderId, status);
+/**
+ * The signed-in admin, recorded against status changes in the order's history
+ */
+async function getStatusChange(note?: string): Promise<OrderStatusChange> {
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get('admin_session');
+
+    let adminId: string | null = null;
+    let changedBy: string | null = null;
+    if (sessionCookie) {
+        try {
+            const session = JSON.parse(sessionCookie.value);
+            adminId = session.adminId ?? null;
+            changedBy = session.name ?? null;
+        } catch {
+            // Recorded without an author
+        }
+    }
+
+    return { adminId, changedBy, note: note?.trim() || null };
+}
+
+/**
+ * What happened to the customer email for a status change:
+ * - sent / failed
+ * - already_sent: an earlier save already sent it
+ * - opted_out: the customer turned order update emails off
+ * - suppressed: the admin chose not to send it
+ * - wrong_status: the order hasn't reached that status (bulk sends only)
+ */
+export type StatusEmailOutcome =
+    | 'sent'
+    | 'failed'
+    | 'already_sent'
+    | 'opted_out'
+    | 'suppressed'
+    | 'wrong_status';
+
+// The statuses an order can be in for each email to make sense
+const STATUS_EMAIL_STATUSES: Record<OrderStatusEmail, OrderStatus[]> = {
+    shipped: ['shipped', 'delivered'],
+    delivered: ['delivered'],
+};
+
+/**
+ * Emails the customer that their order shipped or was delivered, at most
+ * once per order
+ *
+ * @param checkStatus - Only send if the order is in a matching status (for
+ *        emails not sent as part of a status change)
+ */
+async function sendStatusEmail(
+    orderId: string,
+    email: OrderStatusEmail,
+    checkStatus: boolean = false
+): Promise<StatusEmailOutcome> {
+    const { data: order, error } = await getOrderById(orderId);
+    if (error || !order) {
+        logError(new Error(error?.message ?? 'Order not found'), {
+            location: 'admin/orders/actions',
+            action: 'sendStatusEmail',
+            metadata: { orderId, email },
+        });
+        return 'failed';
+    }
+
+    if (checkStatus && !STATUS_EMAIL_STATUSES[email].includes(order.status)) {
+        return 'wrong_status';
+    }
+
+    const { data: wanted, error: preferenceError } =
+        await wantsOrderUpdateEmails(order.customer_email);
+    if (preferenceError) {
+        logError(new Error(preferenceError.message), {
+            location: 'admin/orders/actions',
+            action: 'wantsOrderUpdateEmails',
+            metadata: { orderId },
+        });
+        return 'failed';
+    }
+    if (!wanted) {
+        return 'opted_out';
+    }
+
+    const { claimed, error: claimError } = await claimOrderStatusEmail(
+        orderId,
+        email
+    );
+    if (claimError) {
+        logError(new Error(claimError.message), {
+            location: 'admin/orders/actions',
+            action: 'claimOrderStatusEmail',
+            metadata: { orderId, email },
+        });
+        return 'failed';
+    }
+    if (!claimed) {
+        return 'already_sent';
+    }
+
+    const result =
+        email === 'shipped'
+            ? await sendShippingEmail(order, order.order_shipments ?? [])
+            : await sendDeliveryEmail(order);
+
+    if (!result.success) {
+        logError(result.error || new Error(`Failed to send ${email} email`), {
+            location: 'admin/orders/actions',
+            action: 'sendStatusEmail',
+            metadata: { orderId, email },
+        });
+
+        // Let a later save try again
+        const { error: releaseError } = await releaseOrderStatusEmail(
+            orderId,
+            email
+        );
+        if (releaseError) {
+            logError(new Error(releaseError.message), {
+                location: 'admin/orders/actions',
+                action: 'releaseOrderStatusEmail',
+                metadata: { orderId, email },
+            });
+        }
+        return 'failed';
+    }
+
+    return 'sent';
+}
+
+/**
+ * Moves an order to a new status, if allowed from its current one
+ * (ORDER_STATUS_TRANSITIONS). Cancellations go through cancelOrderAction.
+ *
+ * Moving to 'shipped' or 'delivered' emails the customer, unless
+ * notifyCustomer is false, the customer opted out, or that email was
+ * already sent for the order.
+ *
+ * @returns email: what happened to the customer email (null for statuses
+ *          without one)
+ */
+export async function updateStatusAction(
+    orderId: string,
+    status: OrderStatus,
+    note?: string,
+    notifyCustomer: boolean = true
+): Promise<{ email: StatusEmailOutcome | null }> {
+    const result = await updateOrderStatus(
+        orderId,
+        status,
+        await getStatusChange(note)
+    );
+
+    if (result.error) {
+        throw new Error(result.error.message);
+    }
+
+    let email: StatusEmailOutcome | null = null;
+    if (status === 'shipped' || status === 'delivered') {
+        email = notifyCustomer
+            ? await sendStatusEmail(orderId, status)
+            : 'suppressed';
+    }
+
+    revalidatePath(`/admin/orders/${orderId}`);
+    revalidatePath('/admin/orders');
+    revalidatePath('/admin'); // Dashboard metrics
+    if (status === 'cancelled') {
+        // Cancelling returns the order's stock
+        revalidatePath('/admin/artwork');
+        revalidatePath('/shoppe');
+    }
+
+    return { email };
+}
+
+/**
+ * Cancels an order. Stock goes back on sale except for the written-off lines.
+ */
+export async function cancelOrderAction(
+    orderId: string,
+    writtenOffItemIds: string[],
+    note?: string
+) {
+    const result = await cancelOrder(
+        orderId,
+        writtenOffItemIds,
+        await getStatusChange(note)
+    );
 
     if (result.error) {
         throw new Error(result.error.message);
@@ -18,6 +236,8 @@ export async function updateStatusAction(orderId: string, status: OrderStatus) {
     revalidatePath(`/admin/orders/${orderId}`);
     revalidatePath('/admin/orders');
     revalidatePath('/admin'); // Dashboard metrics
+    revalidatePath('/admin/artwork');
+    revalidatePath('/shoppe');
 
     return result;
 }
@@ -34,8 +254,15 @@ export async function addNoteAction(orderId: string, note: string) {
     return result;
 }
 
-export async function addTrackingAction(orderId: string, tracking: string) {
-    const result = await addTrackingNumber(orderId, tracking);
+/**
+ * @param carrier - The package's carrier, or null to detect it from the number
+ */
+export async function addTrackingAction(
+    orderId: string,
+    tracking: string,
+    carrier: Carrier | null = null
+) {
+    const result = await addTrackingNumber(orderId, tracking, carrier);
 
     if (result.error) {
         throw new Error(result.error.message);
@@ -45,3 +272,295 @@ export async function addTrackingAction(orderId: string, tracking: string) {
 
     return result;
 }
+
+export async function removeTrackingAction(
+    orderId: string,
+    shipmentId: string
+) {
+    const result = await removeTrackingNumber(orderId, shipmentId);
+
+    if (result.error) {
+        throw new Error(result.error.message);
+    }
+
+    revalidatePath(`/admin/orders/${orderId}`);
+
+    return result;
+}
+
+/**
+ * Refunds an order through Stripe against its PaymentIntent: everything left
+ * to refund, or the chosen items (priced by calculateItemRefundAmount).
+ *
+ * The refund is recorded with the items it covered (restocking them if
+ * asked) and the customer is emailed a refund notice. If Stripe refunds but
+ * recording fails, the error names the Stripe refund so it can be matched up.
+ *
+ * @returns emailSent: false when the refund went through but the email failed
+ */
+export async function refundOrderAction(
+    orderId: string,
+    data: OrderRefundFormData
+) {
+    const parsed = orderRefundSchema.safeParse(data);
+    if (!parsed.success) {
+        throw new Error(parsed.error.issues[0].message);
+    }
+
+    const { data: order, error: orderError } = await getOrderById(orderId);
+
+    if (orderError || !order) {
+        throw new Error(orderError?.message ?? 'Order not found');
+    }
+
+    if (
+        !order.payment_intent_id ||
+        (order.payment_status !== 'succeeded' &&
+            order.payment_status !== 'partially_refunded')
+    ) {
+        throw new Error('Only paid orders can be refunded');
+    }
+
+    const refundable = getRefundableAmount(order);
+    const refundedQuantities = getRefundedQuantities(order);
+
+    const items =
+        parsed.data.type === 'full'
+            ? order.order_items
+                  .map((item) => ({
+                      orderItemId: item.id,
+                      quantity:
+                          item.quantity - (refundedQuantities[item.id] ?? 0),
+                  }))
+                  .filter((item) => item.quantity > 0)
+            : parsed.data.items;
+
+    const amount =
+        parsed.data.type === 'full'
+            ? refundable
+            : calculateItemRefundAmount(order, items);
+
+    if (amount <= 0) {
+        throw new Error('Nothing left to refund on this order');
+    }
+
+    const stripeRefund = await createRefund(order.payment_intent_id, amount, {
+        orderId,
+        orderNumber: order.order_number,
+    });
+
+    const { error } = await recordOrderRefund(orderId, {
+        stripeRefundId: stripeRefund.id,
+        amount,
+        reason: parsed.data.reason || null,
+        restock: parsed.data.restock,
+        items,
+    });
+
+    if (error) {
+        logError(new Error(error.message), {
+            location: 'admin/orders/actions',
+            action: 'recordOrderRefund',
+            metadata: { orderId, stripeRefundId: stripeRefund.id, amount },
+        });
+        throw new Error(
+            `Stripe refund ${stripeRefund.id} was issued but could not be recorded: ${error.message}`
+        );
+    }
+
+    const emailResult = await sendRefundEmail(order, {
+        amount,
+        fullRefund: amount >= refundable,
+        items: items.map((refundItem) => {
+            const item = order.order_items.find(
+                (orderItem) => orderItem.id === refundItem.orderItemId
+            );
+            const title = item?.artwork?.title ?? 'Artwork';
+            return {
+                title: item?.variant_name
+                    ? `${title} (${item.variant_name})`
+                    : title,
+                quantity: refundItem.quantity,
+            };
+        }),
+    });
+    if (!emailResult.success) {
+        logError(
+            emailResult.error || new Error('Failed to send refund email'),
+            {
+                location: 'admin/orders/actions',
+                action: 'sendRefundEmail',
+                metadata: { orderId },
+            }
+        );
+    }
+
+    revalidatePath(`/admin/orders/${orderId}`);
+    revalidatePath('/admin/orders');
+    revalidatePath('/admin'); // Dashboard metrics
+    if (parsed.data.restock) {
+        revalidatePath('/admin/artwork');
+        revalidatePath('/shoppe');
+    }
+
+    return { emailSent: emailResult.success };
+}
+
+/**
+ * How one order fared in a bulk action from the orders list
+ */
+export interface BulkOrderResult {
+    orderId: string;
+    success: boolean;
+    message: string;
+}
+
+/**
+ * Statuses the orders list can move orders to in bulk
+ */
+export type BulkOrderStatus = 'processing' | 'shipped';
+
+// What marking an order shipped did, by what happened to its email
+const BULK_SHIPPED_MESSAGES: Record<StatusEmailOutcome, string> = {
+    sent: 'Marked shipped and the customer emailed',
+    failed: 'Marked shipped, but the customer email could not be sent',
+    already_sent: 'Marked shipped (the customer was already emailed)',
+    opted_out:
+        'Marked shipped (the customer has turned off order update emails)',
+    suppressed: 'Marked shipped',
+    wrong_status: 'Marked shipped',
+};
+
+/**
+ * Revalidates the pages a bulk change to orders affects
+ */
+function revalidateBulkOrders(orderIds: string[]) {
+    for (const orderId of orderIds) {
+        revalidatePath(`/admin/orders/${orderId}`);
+    }
+    revalidatePath('/admin/orders');
+    revalidatePath('/admin'); // Dashboard metrics
+}
+
+/**
+ * Moves several orders to processing or shipped, one at a time, so one
+ * order that can't move (e.g. already shipped) doesn't stop the rest.
+ * Marking orders shipped emails their customers like updateStatusAction.
+ *
+ * @returns A result for each order, in the order given
+ */
+export async function bulkUpdateStatusAction(
+    orderIds: string[],
+    status: BulkOrderStatus,
+    notifyCustomer: boolean = true
+): Promise<BulkOrderResult[]> {
+    const change = await getStatusChange();
+    const results: BulkOrderResult[] = [];
+
+    for (const orderId of orderIds) {
+        const { error } = await updateOrderStatus(orderId, status, change);
+
+        if (error) {
+            results.push({ orderId, success: false, message: error.message });
+            continue;
+        }
+
+        let message = 'Marked processing';
+        if (status === 'shipped') {
+            const email = notifyCustomer
+                ? await sendStatusEmail(orderId, 'shipped')
+                : 'suppressed';
+            message = BULK_SHIPPED_MESSAGES[email];
+        }
+        results.push({ orderId, success: true, message });
+    }
+
+    revalidateBulkOrders(orderIds);
+
+    return results;
+}
+
+/**
+ * Adds tracking numbers to several orders, e.g. from a pasted list of
+ * shipping labels. An order can get several (one per package); the carrier
+ * is detected from each number. Order statuses are left as they are.
+ *
+ * @returns A result for each entry, in the order given
+ */
+export async function bulkAddTrackingAction(
+    entries: { orderId: string; trackingNumber: string }[]
+): Promise<BulkOrderResult[]> {
+    const results: BulkOrderResult[] = [];
+
+    for (const { orderId, trackingNumber } of entries) {
+        const { data, error } = await addTrackingNumber(
+            orderId,
+            trackingNumber
+        );
+
+        if (error || !data) {
+            results.push({
+                orderId,
+                success: false,
+                message: `${normalizeTrackingNumber(trackingNumber)}: ${
+                    error?.message ?? 'Failed to add tracking number'
+                }`,
+            });
+            continue;
+        }
+
+        const carrierName = getCarrierName(data.tracking_number, data.carrier);
+        results.push({
+            orderId,
+            success: true,
+            message: `Added ${data.tracking_number} (${
+                carrierName ?? 'carrier not recognised'
+            })`,
+        });
+    }
+
+    revalidateBulkOrders([...new Set(entries.map((entry) => entry.orderId))]);
+
+    return results;
+}
+
+const BULK_SHIPPING_EMAIL_RESULTS: Record<
+    StatusEmailOutcome,
+    { success: boolean; message: string }
+> = {
+    sent: { success: true, message: 'Shipping email sent' },
+    failed: { success: false, message: 'Shipping email could not be sent' },
+    already_sent: {
+        success: false,
+        message: 'Shipping email was already sent',
+    },
+    opted_out: {
+        success: false,
+        message: 'Customer has turned off order update emails',
+    },
+    suppressed: { success: false, message: 'Shipping email not sent' },
+    wrong_status: { success: false, message: "Order hasn't shipped yet" },
+};
+
+/**
+ * Emails several customers that their order shipped (with its tracking
+ * numbers), for orders marked shipped without emailing, e.g. before their
+ * tracking numbers were added. Each order's shipping email still goes at
+ * most once.
+ *
+ * @returns A result for each order, in the order given
+ */
+export async function bulkSendShippingEmailAction(
+    orderIds: string[]
+): Promise<BulkOrderResult[]> {
+    const results: BulkOrderResult[] = [];
+
+    for (const orderId of orderIds) {
+        const outcome = await sendStatusEmail(orderId, 'shipped', true);
+        results.push({ orderId, ...BULK_SHIPPING_EMAIL_RESULTS[outcome] });
+    }
+
+    revalidateBulkOrders(orderIds);
+
+    return results;
+}
@@ -0,0 +1,90 @@
+/**
+ * Batch Order Document Route
+ *
+ * Serves packing slips or invoices for every order waiting to be fulfilled
+ * (paid or processing), or for the orders selected in the orders list, as
+ * one PDF, an order per page, oldest first. Lives under /admin (not
+ * /api/admin) so the admin middleware guards it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getOrdersByIds, getOrdersToFulfill } from '@/lib/db/admin/orders';
+import {
+    ORDER_DOCUMENTS,
+    ORDER_DOCUMENT_TYPES,
+} from '@/lib/pdf/order-documents';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+const documentSchema = z.enum(ORDER_DOCUMENT_TYPES);
+
+// Comma-separated order IDs
+const idsSchema = z
+    .string()
+    .transform((ids) => ids.split(','))
+    .pipe(z.array(z.string().uuid()).min(1).max(100));
+
+/**
+ * GET /admin/orders/batch/packing-slip
+ * GET /admin/orders/batch/invoice
+ *
+ * Query Parameters:
+ * - ids: Comma-separated order IDs, up to 100 (optional; default: every
+ *   paid or processing order)
+ *
+ * @returns 200 with the PDF (a single "nothing to do" page when no orders
+ *          are waiting), 400 for malformed IDs, 404 for an unknown
+ *          document, 500 on database errors
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ document: string }> }
+) {
+    const parsed = documentSchema.safeParse((await params).document);
+
+    if (!parsed.success) {
+        return NextResponse.json(createApiErrorResponse('NOT_FOUND'), {
+            status: 404,
+        });
+    }
+
+    const idsParam = request.nextUrl.searchParams.get('ids');
+    const ids = idsParam === null ? null : idsSchema.safeParse(idsParam);
+
+    if (ids && !ids.success) {
+        return NextResponse.json(
+            createApiErrorResponse('VALIDATION_ERROR', ids.error.message),
+            { status: 400 }
+        );
+    }
+
+    const { data: orders, error } = ids
+        ? await getOrdersByIds(ids.data)
+        : await getOrdersToFulfill();
+
+    if (error || !orders) {
+        logError(error, {
+            location: 'admin/orders/batch/[document]',
+            action: ids ? 'getOrdersByIds' : 'getOrdersToFulfill',
+            metadata: { document: parsed.data, ids: ids?.data },
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    const { render, batchFilename } = ORDER_DOCUMENTS[parsed.data];
+    const pdf = render(orders);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(new Uint8Array(pdf), {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `inline; filename="${batchFilename}-${date}.pdf"`,
+            'Cache-Control': 'private, no-store',
+        },
+    });
+}
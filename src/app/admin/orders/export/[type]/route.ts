@@ -0,0 +1,139 @@
+/**
+ * Order CSV Export Route
+ *
+ * Downloads the orders matching the admin orders list's filters, search,
+ * date range and sort as a CSV, one row per order or per line item. Lives
+ * under /admin (not /api/admin) so the admin middleware guards it.
+ *
+ * The file is streamed a page of orders at a time, so a year of orders
+ * doesn't have to be loaded (or finish loading) before the download starts.
+ * It covers the orders placed up to the moment the download started.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getOrdersForExport, type OrderForExport } from '@/lib/db/admin/orders';
+import {
+    ORDER_EXPORTS,
+    ORDER_EXPORT_TYPES,
+    toCsvLine,
+} from '@/lib/utils/order-export';
+import { parseOrderListParams } from '@/lib/utils/order-list-params';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+const EXPORT_PAGE_SIZE = 500;
+
+const typeSchema = z.enum(ORDER_EXPORT_TYPES);
+
+/**
+ * GET /admin/orders/export/orders
+ * GET /admin/orders/export/line-items
+ *
+ * Takes the same status, search, from, to, sort and direction query
+ * parameters as GET /api/admin/orders.
+ *
+ * @returns 200 with the CSV (just the header row when nothing matches),
+ *          404 for an unknown export, 500 when the first page can't be
+ *          read (later failures abort the download)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ type: string }> }
+) {
+    const parsed = typeSchema.safeParse((await params).type);
+
+    if (!parsed.success) {
+        return NextResponse.json(createApiErrorResponse('NOT_FOUND'), {
+            status: 404,
+        });
+    }
+
+    const { filters: listFilters, sort } = parseOrderListParams(
+        request.nextUrl.searchParams
+    );
+    // Orders placed while the file downloads would shift the later pages
+    // (the newest come first), so the export stops at the moment it started
+    const startedAt = new Date().toISOString();
+    const filters = {
+        ...listFilters,
+        endDate:
+            listFilters?.endDate && listFilters.endDate < startedAt
+                ? listFilters.endDate
+                : startedAt,
+    };
+    const { header, rows, filename } = ORDER_EXPORTS[parsed.data];
+
+    const fetchPage = async (offset: number) => {
+        const { data, error } = await getOrdersForExport(
+            EXPORT_PAGE_SIZE,
+            offset,
+            filters,
+            sort
+        );
+
+        if (error || !data) {
+            logError(error, {
+                location: 'admin/orders/export/[type]',
+                action: 'getOrdersForExport',
+                metadata: { type: parsed.data, offset, filters, sort },
+            });
+            return null;
+        }
+
+        return data;
+    };
+
+    // Read the first page up front, so a database outage is a 500 rather
+    // than a truncated file
+    let page: OrderForExport[] | null = await fetchPage(0);
+
+    if (!page) {
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    const encoder = new TextEncoder();
+    let offset = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            // Byte order mark, so Excel reads names with accents as UTF-8
+            controller.enqueue(encoder.encode('\uFEFF' + toCsvLine(header)));
+        },
+        async pull(controller) {
+            if (!page) {
+                page = await fetchPage(offset);
+                if (!page) {
+                    controller.error(new Error('Failed to export orders'));
+                    return;
+                }
+            }
+
+            const lines = page.flatMap(rows).map(toCsvLine).join('');
+            if (lines) {
+                controller.enqueue(encoder.encode(lines));
+            }
+
+            if (page.length < EXPORT_PAGE_SIZE) {
+                controller.close();
+                return;
+            }
+
+            offset += EXPORT_PAGE_SIZE;
+            page = null;
+        },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(stream, {
+        status: 200,
+        headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}-${date}.csv"`,
+            'Cache-Control': 'private, no-store',
+        },
+    });
+}
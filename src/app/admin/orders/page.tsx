@@ -1,38 +1,80 @@
 'use client';
 
 import { useRouter, useSearchParams } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import OrdersList from '@/components/admin/OrdersList';
-import type { OrderRow, OrderStatus } from '@/lib/db/admin/orders';
+import type {
+    OrderSortColumn,
+    OrderStatus,
+    OrderWithShipments,
+} from '@/lib/db/admin/orders';
 
 const ITEMS_PER_PAGE = 20;
 
+// Columns whose first click sorts largest/newest first
+const DESCENDING_FIRST: OrderSortColumn[] = ['created_at', 'total'];
+
 export default function OrdersPage() {
     const router = useRouter();
     const searchParams = useSearchParams();
-    const [orders, setOrders] = useState<OrderRow[]>([]);
+    const [orders, setOrders] = useState<OrderWithShipments[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [totalPages, setTotalPages] = useState(1);
+    const [totalCount, setTotalCount] = useState(0);
+    // Bumped to reload the list after a bulk action, which keeps the list
+    // (and the action's results) on screen instead of showing "Loading"
+    const [reloadCount, setReloadCount] = useState(0);
+    const silentReload = useRef(false);
 
+    // Filters, search, sorting and page all live in the URL, so they survive
+    // a reload and can be linked to
     const currentPage = parseInt(searchParams.get('page') || '1');
     const statusFilter = (searchParams.get('status') || '') as OrderStatus | '';
+    const searchQuery = searchParams.get('q') || '';
+    const fromDate = searchParams.get('from') || '';
+    const toDate = searchParams.get('to') || '';
+    const sortColumn = (searchParams.get('sort') ||
+        'created_at') as OrderSortColumn;
+    const sortAscending = searchParams.get('dir') === 'asc';
+
+    // The filters, search and date range in the API's terms, shared by the
+    // list and the CSV exports
+    const filterParams = new URLSearchParams();
+    if (statusFilter) {
+        filterParams.set('status', statusFilter);
+    }
+    if (searchQuery) {
+        filterParams.set('search', searchQuery);
+    }
+    if (fromDate) {
+        filterParams.set('from', fromDate);
+    }
+    if (toDate) {
+        filterParams.set('to', toDate);
+    }
+    const filterQuery = filterParams.toString();
+
+    const exportQuery = new URLSearchParams(filterQuery);
+    exportQuery.set('sort', sortColumn);
+    exportQuery.set('direction', sortAscending ? 'asc' : 'desc');
 
     useEffect(() => {
         async function fetchOrders() {
-            setLoading(true);
+            if (!silentReload.current) {
+                setLoading(true);
+            }
+            silentReload.current = false;
             setError(null);
 
             try {
                 const offset = (currentPage - 1) * ITEMS_PER_PAGE;
-                const queryParams = new URLSearchParams({
-                    limit: ITEMS_PER_PAGE.toString(),
-                    offset: offset.toString(),
-                });
+                const queryParams = new URLSearchParams(filterQuery);
+                queryParams.append('limit', ITEMS_PER_PAGE.toString());
+                queryParams.append('offset', offset.toString());
 
-                if (statusFilter) {
-                    queryParams.append('status', statusFilter);
-                }
+                queryParams.append('sort', sortColumn);
+                queryParams.append('direction', sortAscending ? 'asc' : 'desc');
 
                 const response = await fetch(
                     `/api/admin/orders?${queryParams.toString()}`
@@ -44,6 +86,7 @@ export default function OrdersPage() {
 
                 const data = await response.json();
                 setOrders(data.orders || []);
+                setTotalCount(data.total || 0);
                 setTotalPages(
                     Math.ceil((data.total || 0) / ITEMS_PER_PAGE) || 1
                 );
@@ -57,21 +100,50 @@ export default function OrdersPage() {
         }
 
         fetchOrders();
-    }, [currentPage, statusFilter]);
+    }, [currentPage, filterQuery, sortColumn, sortAscending, reloadCount]);
 
-    const handlePageChange = (page: number) => {
+    const handleBulkActionComplete = () => {
+        silentReload.current = true;
+        setReloadCount((count) => count + 1);
+    };
+
+    // Sets (or, when empty, removes) URL params; any change but the page
+    // itself goes back to page 1
+    const updateParams = (changes: Record<string, string>) => {
         const params = new URLSearchParams(searchParams.toString());
-        params.set('page', page.toString());
+        for (const [key, value] of Object.entries(changes)) {
+            if (value) {
+                params.set(key, value);
+            } else {
+                params.delete(key);
+            }
+        }
+        if (!('page' in changes)) {
+            params.set('page', '1');
+        }
         router.push(`/admin/orders?${params.toString()}`);
     };
 
+    const handlePageChange = (page: number) => {
+        updateParams({ page: page.toString() });
+    };
+
     const handleStatusFilterChange = (status: string) => {
-        const params = new URLSearchParams();
-        params.set('page', '1');
-        if (status) {
-            params.set('status', status);
-        }
-        router.push(`/admin/orders?${params.toString()}`);
+        updateParams({ status });
+    };
+
+    const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const query = new FormData(e.currentTarget).get('q');
+        updateParams({ q: typeof query === 'string' ? query.trim() : '' });
+    };
+
+    const handleSortChange = (column: OrderSortColumn) => {
+        const ascending =
+            column === sortColumn
+                ? !sortAscending
+                : !DESCENDING_FIRST.includes(column);
+        updateParams({ sort: column, dir: ascending ? 'asc' : 'desc' });
     };
 
     if (loading) {
@@ -106,6 +178,42 @@ export default function OrdersPage() {
                 <h1 className="text-3xl font-bold text-gray-900">Orders</h1>
             </div>
 
+            <form
+                key={searchQuery}
+                onSubmit={handleSearch}
+                role="search"
+                className="mb-4"
+            >
+                <label htmlFor="order-search" className="admin-label">
+                    Search Orders
+                </label>
+                <div className="flex gap-2">
+                    <input
+                        type="search"
+                        id="order-search"
+                        name="q"
+                        defaultValue={searchQuery}
+                        placeholder="Order number, customer, email, SKU or tracking number"
+                        className="admin-input flex-1"
+                    />
+                    <button
+                        type="submit"
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+                    >
+                        Search
+                    </button>
+                    {searchQuery && (
+                        <button
+                            type="button"
+                            onClick={() => updateParams({ q: '' })}
+                            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+            </form>
+
             <div className="mb-4">
                 <label htmlFor="status-filter" className="admin-label">
                     Filter by Status
@@ -126,11 +234,64 @@ export default function OrdersPage() {
                 </select>
             </div>
 
+            <div className="flex flex-wrap items-end gap-4 mb-4">
+                <div>
+                    <label htmlFor="from-date" className="admin-label">
+                        From
+                    </label>
+                    <input
+                        type="date"
+                        id="from-date"
+                        value={fromDate}
+                        max={toDate || undefined}
+                        onChange={(e) => updateParams({ from: e.target.value })}
+                        className="admin-input"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="to-date" className="admin-label">
+                        To
+                    </label>
+                    <input
+                        type="date"
+                        id="to-date"
+                        value={toDate}
+                        min={fromDate || undefined}
+                        onChange={(e) => updateParams({ to: e.target.value })}
+                        className="admin-input"
+                    />
+                </div>
+                <div className="flex gap-4 ml-auto text-sm">
+                    <span className="text-gray-600">
+                        Export matching orders:
+                    </span>
+                    <a
+                        href={`/admin/orders/export/orders?${exportQuery.toString()}`}
+                        download
+                        className="text-indigo-600 hover:text-indigo-900"
+                    >
+                        Orders CSV
+                    </a>
+                    <a
+                        href={`/admin/orders/export/line-items?${exportQuery.toString()}`}
+                        download
+                        className="text-indigo-600 hover:text-indigo-900"
+                    >
+                        Line items CSV
+                    </a>
+                </div>
+            </div>
+
             <OrdersList
                 orders={orders}
                 currentPage={currentPage}
                 totalPages={totalPages}
                 onPageChange={handlePageChange}
+                totalCount={totalCount}
+                pageSize={ITEMS_PER_PAGE}
+                sort={{ column: sortColumn, ascending: sortAscending }}
+                onSortChange={handleSortChange}
+                onBulkActionComplete={handleBulkActionComplete}
             />
         </div>
     );
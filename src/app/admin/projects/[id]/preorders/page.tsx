@@ -0,0 +1,159 @@
+import PreorderBatchActions from '@/components/admin/projects/PreorderBatchActions';
+import { getProjectById } from '@/lib/db/admin/projects';
+import {
+    getPreorderOrdersForProject,
+    PREORDER_BATCH_PAYMENT_STATUSES,
+} from '@/lib/db/admin/orders';
+import { formatExpectedShipDate } from '@/lib/cart/preorders';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+export const dynamic = 'force-dynamic';
+
+interface ProjectPreordersPageProps {
+    params: Promise<{ id: string }>;
+}
+
+export default async function ProjectPreordersPage({
+    params,
+}: ProjectPreordersPageProps) {
+    const { id } = await params;
+    const { data: project, error } = await getProjectById(id);
+
+    if (error || !project) {
+        notFound();
+    }
+
+    const { data: orders, error: ordersError } =
+        await getPreorderOrdersForProject(id);
+
+    const preorders = orders ?? [];
+    // Counted like the batch actions select them
+    const batchable = preorders.filter((o) =>
+        PREORDER_BATCH_PAYMENT_STATUSES.includes(o.payment_status)
+    );
+    const paidCount = batchable.filter((o) => o.status === 'paid').length;
+    const shippableCount = batchable.filter(
+        (o) => o.status === 'paid' || o.status === 'processing'
+    ).length;
+    const unitCount = preorders
+        .filter((o) => o.status !== 'pending' && o.status !== 'cancelled')
+        .reduce(
+            (sum, order) =>
+                sum +
+                order.order_items.reduce((n, item) => n + item.quantity, 0),
+            0
+        );
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Pre-orders: {project.title}
+                </h1>
+                <Link
+                    href="/admin/projects"
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                    Back to Projects
+                </Link>
+            </div>
+
+            <div className="p-4 bg-white rounded-lg border border-gray-200 space-y-4">
+                <p className="text-sm text-gray-700">
+                    Status:{' '}
+                    <span className="font-semibold">{project.status}</span>
+                    {' · '}Expected to ship:{' '}
+                    {formatExpectedShipDate(project.expected_completion_date)}
+                    {' · '}
+                    {unitCount} unit(s) pre-ordered
+                </p>
+                <PreorderBatchActions
+                    projectId={project.id}
+                    projectCompleted={project.status === 'completed'}
+                    paidCount={paidCount}
+                    shippableCount={shippableCount}
+                />
+            </div>
+
+            {ordersError ? (
+                <div className="p-8 text-center text-red-600 bg-white rounded-lg border border-red-200">
+                    Error: {ordersError.message}
+                </div>
+            ) : preorders.length === 0 ? (
+                <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
+                    <p>No pre-orders for this project yet.</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th
+                                    scope="col"
+                                    className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                                >
+                                    Order Number
+                                </th>
+                                <th
+                                    scope="col"
+                                    className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                                >
+                                    Customer
+                                </th>
+                                <th
+                                    scope="col"
+                                    className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                                >
+                                    Items
+                                </th>
+                                <th
+                                    scope="col"
+                                    className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                                >
+                                    Status
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {preorders.map((order) => (
+                                <tr key={order.id}>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                        <Link
+                                            href={`/admin/orders/${order.id}`}
+                                            className="text-indigo-600 hover:text-indigo-900"
+                                        >
+                                            {order.order_number}
+                                        </Link>
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="text-sm text-gray-900">
+                                            {order.customer_name}
+                                        </div>
+                                        <div className="text-sm text-gray-500">
+                                            {order.customer_email}
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-gray-900">
+                                        {order.order_items.map((item) => (
+                                            <div key={item.id}>
+                                                {item.quantity} ×{' '}
+                                                {item.artwork?.title ??
+                                                    'Deleted artwork'}
+                                                {item.variant_name &&
+                                                    ` (${item.variant_name})`}
+                                            </div>
+                                        ))}
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
+                                        {order.status}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,11 +1,19 @@
 'use server';
 
+import {
+    updatePreorderStatusForProject,
+    type OrderStatus,
+    type OrderStatusChange,
+} from '@/lib/db/admin/orders';
+import { bulkSendShippingEmailAction } from '@/app/admin/orders/actions';
 import {
     createProject,
     deleteProject,
+    getProjectById,
     updateProject,
 } from '@/lib/db/admin/projects';
 import { type ProjectFormData } from '@/lib/validation/projects';
+import { cookies } from 'next/headers';
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 
@@ -44,3 +52,106 @@ export async function deleteProjectAction(id: string) {
     revalidatePath('/admin/projects');
     revalidatePath('/in-the-works');
 }
+
+/**
+ * The signed-in admin, recorded against each pre-order's status change
+ */
+async function getStatusChange(
+    projectTitle: string
+): Promise<OrderStatusChange> {
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get('admin_session');
+
+    let adminId: string | null = null;
+    let changedBy: string | null = null;
+    if (sessionCookie) {
+        try {
+            const session = JSON.parse(sessionCookie.value);
+            adminId = session.adminId ?? null;
+            changedBy = session.name ?? null;
+        } catch {
+            // Recorded without an author
+        }
+    }
+
+    return {
+        adminId,
+        changedBy,
+        note: `Pre-order batch for ${projectTitle}`,
+    };
+}
+
+/**
+ * Moves a completed project's pre-orders to the next status in one batch.
+ * Projects still in progress can't release or ship, since the work isn't
+ * done yet.
+ */
+async function updateProjectPreorders(
+    projectId: string,
+    fromStatuses: OrderStatus[],
+    status: OrderStatus
+) {
+    const { data: project, error: projectError } =
+        await getProjectById(projectId);
+
+    if (projectError || !project) {
+        throw new Error(projectError?.message ?? 'Project not found');
+    }
+
+    if (project.status !== 'completed') {
+        throw new Error(
+            'Mark the project as completed before releasing its pre-orders'
+        );
+    }
+
+    const { data: orders, error } = await updatePreorderStatusForProject(
+        projectId,
+        fromStatuses,
+        status,
+        await getStatusChange(project.title)
+    );
+
+    if (error) {
+        throw new Error(error.message);
+    }
+
+    revalidatePath(`/admin/projects/${projectId}/preorders`);
+    revalidatePath('/admin/orders');
+    revalidatePath('/admin'); // Dashboard metrics
+
+    return orders ?? [];
+}
+
+export async function releasePreordersAction(projectId: string) {
+    const orders = await updateProjectPreorders(
+        projectId,
+        ['paid'],
+        'processing'
+    );
+
+    return { updated: orders.length };
+}
+
+/**
+ * Ships a completed project's pre-orders and emails each customer, the same
+ * way as marking orders shipped from the orders list (customers who opted
+ * out, or were already emailed, aren't emailed again)
+ *
+ * @returns updated: pre-orders shipped; emailed: shipping emails sent
+ */
+export async function shipPreordersAction(projectId: string) {
+    const orders = await updateProjectPreorders(
+        projectId,
+        ['paid', 'processing'],
+        'shipped'
+    );
+
+    const results = await bulkSendShippingEmailAction(
+        orders.map((order) => order.id)
+    );
+
+    return {
+        updated: orders.length,
+        emailed: results.filter((result) => result.success).length,
+    };
+}
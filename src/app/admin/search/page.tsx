@@ -0,0 +1,111 @@
+import Link from 'next/link';
+import { searchSiteAdmin } from '@/lib/db/admin/search';
+import { SEARCH_RESULT_LABELS, type SearchResult } from '@/lib/db/search';
+import { HighlightedSnippet } from '@/components/ui/HighlightedSnippet';
+import {
+    MAX_SEARCH_QUERY_LENGTH,
+    isSearchableQuery,
+    parseSearchQuery,
+} from '@/lib/validation/search';
+import type { SearchParamsRecord } from '@/lib/validation/artwork-filters';
+
+export const dynamic = 'force-dynamic';
+
+const EDIT_PATHS: Record<SearchResult['result_type'], string> = {
+    artwork: '/admin/artwork',
+    project: '/admin/projects',
+    event: '/admin/events',
+};
+
+export default async function AdminSearchPage({
+    searchParams,
+}: {
+    searchParams: Promise<SearchParamsRecord>;
+}) {
+    const query = parseSearchQuery((await searchParams).q);
+    const { data: results, error } = isSearchableQuery(query)
+        ? await searchSiteAdmin(query)
+        : { data: null, error: null };
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900">Search</h1>
+
+            <form
+                action="/admin/search"
+                method="get"
+                role="search"
+                className="flex gap-2"
+            >
+                <label htmlFor="admin-search-query" className="sr-only">
+                    Search artwork, projects and events
+                </label>
+                <input
+                    id="admin-search-query"
+                    type="search"
+                    name="q"
+                    defaultValue={query}
+                    maxLength={MAX_SEARCH_QUERY_LENGTH}
+                    placeholder="Search artwork, projects and events, including drafts"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <button
+                    type="submit"
+                    className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+                >
+                    Search
+                </button>
+            </form>
+
+            {error && (
+                <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                    Error: {error.message}
+                </div>
+            )}
+
+            {results && results.length === 0 && (
+                <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
+                    <p>No results found.</p>
+                </div>
+            )}
+
+            {results && results.length > 0 && (
+                <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+                    {results.map((result) => (
+                        <li
+                            key={`${result.result_type}-${result.id}`}
+                            className="p-4"
+                        >
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="inline-flex px-2 text-xs font-semibold leading-5 rounded-full text-indigo-800 bg-indigo-100">
+                                    {SEARCH_RESULT_LABELS[result.result_type]}
+                                </span>
+                                {result.is_published ? (
+                                    <span className="inline-flex px-2 text-xs font-semibold leading-5 rounded-full text-green-800 bg-green-100">
+                                        Published
+                                    </span>
+                                ) : (
+                                    <span className="inline-flex px-2 text-xs font-semibold leading-5 rounded-full text-gray-800 bg-gray-100">
+                                        Draft
+                                    </span>
+                                )}
+                            </div>
+                            <Link
+                                href={`${EDIT_PATHS[result.result_type]}/${result.id}`}
+                                className="font-medium text-indigo-600 hover:text-indigo-900"
+                            >
+                                {result.title}
+                            </Link>
+                            {result.snippet && (
+                                <HighlightedSnippet
+                                    snippet={result.snippet}
+                                    className="mt-1 text-sm text-gray-500"
+                                />
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,43 @@
+import ShippingZoneForm from '@/components/admin/ShippingZoneForm';
+import { getShippingZoneById } from '@/lib/db/admin/shipping-zones';
+import { updateShippingZoneAction } from '@/app/admin/shipping/actions';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+export const dynamic = 'force-dynamic';
+
+interface EditShippingZonePageProps {
+    params: Promise<{ id: string }>;
+}
+
+export default async function EditShippingZonePage({
+    params,
+}: EditShippingZonePageProps) {
+    const { id } = await params;
+    const { data: zone, error } = await getShippingZoneById(id);
+
+    if (error || !zone) {
+        notFound();
+    }
+
+    // Bind the id to the action using .bind()
+    const boundUpdateAction = updateShippingZoneAction.bind(null, id);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Edit Shipping Zone
+                </h1>
+                <Link
+                    href="/admin/shipping"
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                    Back to Shipping
+                </Link>
+            </div>
+
+            <ShippingZoneForm initialData={zone} onSubmit={boundUpdateAction} />
+        </div>
+    );
+}
@@ -0,0 +1,46 @@
+'use server';
+
+import {
+    createShippingZone,
+    deleteShippingZone,
+    updateShippingZone,
+} from '@/lib/db/admin/shipping-zones';
+import { type ShippingZoneFormData } from '@/lib/validation/shipping-zones';
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+
+export async function createShippingZoneAction(data: ShippingZoneFormData) {
+    const { error } = await createShippingZone(data);
+
+    if (error) {
+        throw new Error(error.message);
+    }
+
+    revalidatePath('/admin/shipping');
+    redirect('/admin/shipping');
+}
+
+export async function updateShippingZoneAction(
+    id: string,
+    data: ShippingZoneFormData
+) {
+    const { error } = await updateShippingZone(id, data);
+
+    if (error) {
+        throw new Error(error.message);
+    }
+
+    revalidatePath('/admin/shipping');
+    revalidatePath(`/admin/shipping/${id}`);
+    redirect('/admin/shipping');
+}
+
+export async function deleteShippingZoneAction(id: string) {
+    const { error } = await deleteShippingZone(id);
+
+    if (error) {
+        throw new Error(error.message);
+    }
+
+    revalidatePath('/admin/shipping');
+}
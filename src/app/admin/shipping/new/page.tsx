@@ -0,0 +1,23 @@
+import ShippingZoneForm from '@/components/admin/ShippingZoneForm';
+import { createShippingZoneAction } from '@/app/admin/shipping/actions';
+import Link from 'next/link';
+
+export default function NewShippingZonePage() {
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Create New Shipping Zone
+                </h1>
+                <Link
+                    href="/admin/shipping"
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                    Back to Shipping
+                </Link>
+            </div>
+
+            <ShippingZoneForm onSubmit={createShippingZoneAction} />
+        </div>
+    );
+}
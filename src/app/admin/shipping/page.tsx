@@ -0,0 +1,55 @@
+import Link from 'next/link';
+import { getAllShippingZonesAdmin } from '@/lib/db/admin/shipping-zones';
+import { getShippingCountryBreakdown } from '@/lib/db/admin/orders';
+import ShippingZoneList from '@/components/admin/shipping/ShippingZoneList';
+import ShippingCountryBreakdown from '@/components/admin/shipping/ShippingCountryBreakdown';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ShippingPage() {
+    const [{ data: zones, error }, { data: breakdown, error: breakdownError }] =
+        await Promise.all([
+            getAllShippingZonesAdmin(),
+            getShippingCountryBreakdown(),
+        ]);
+
+    if (error) {
+        return (
+            <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                Error: {error.message}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Shipping Zones
+                </h1>
+                <Link
+                    href="/admin/shipping/new"
+                    className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                    Add New Zone
+                </Link>
+            </div>
+
+            <ShippingZoneList zones={zones || []} />
+
+            <h2 className="text-xl font-semibold text-gray-900">
+                Orders by Destination
+            </h2>
+            {breakdownError ? (
+                <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                    Error: {breakdownError.message}
+                </div>
+            ) : (
+                <ShippingCountryBreakdown
+                    breakdown={breakdown || []}
+                    zones={zones || []}
+                />
+            )}
+        </div>
+    );
+}
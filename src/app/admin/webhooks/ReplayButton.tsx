@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { replayWebhookEventAction } from './actions';
+
+interface ReplayButtonProps {
+    eventId: string;
+}
+
+export default function ReplayButton({ eventId }: ReplayButtonProps) {
+    const router = useRouter();
+    const [isReplaying, setIsReplaying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleReplay = async () => {
+        if (
+            !confirm(
+                'Process this event again? Only do this once the problem that made it fail has been fixed.'
+            )
+        ) {
+            return;
+        }
+
+        setIsReplaying(true);
+        setError(null);
+
+        try {
+            await replayWebhookEventAction(eventId);
+            router.refresh();
+        } catch (err) {
+            setError(
+                err instanceof Error ? err.message : 'Failed to replay event'
+            );
+        } finally {
+            setIsReplaying(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-end gap-1">
+            <button
+                type="button"
+                onClick={handleReplay}
+                disabled={isReplaying}
+                className="px-3 py-1 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+                {isReplaying ? 'Replaying...' : 'Replay'}
+            </button>
+            {error && (
+                <p className="max-w-xs text-sm text-red-600 whitespace-normal">
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+'use server';
+
+import { cookies } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import type Stripe from 'stripe';
+import { getWebhookEventById } from '@/lib/db/admin/webhook-events';
+import {
+    claimWebhookEvent,
+    completeWebhookEvent,
+} from '@/lib/db/webhook-events';
+import { processStripeEvent } from '@/lib/payments/stripe-events';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * Processes a failed (or stuck) Stripe webhook event again, e.g. once the
+ * problem that made it fail has been fixed. Super admins only.
+ *
+ * The event is claimed like a Stripe redelivery, so it can't be replayed
+ * while it's already being processed, or once it has succeeded.
+ *
+ * @param id - Event row UUID
+ * @throws when the event fails again (its new error is recorded on the event)
+ */
+export async function replayWebhookEventAction(id: string) {
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get('admin_session');
+
+    let role: string | null = null;
+    if (sessionCookie) {
+        try {
+            role = JSON.parse(sessionCookie.value).role ?? null;
+        } catch {
+            // Treated as not signed in
+        }
+    }
+
+    if (role !== 'super_admin') {
+        throw new Error('Only super admins can replay webhook events');
+    }
+
+    const { data: stored, error } = await getWebhookEventById(id);
+    if (error || !stored) {
+        throw new Error(error?.message ?? 'Webhook event not found');
+    }
+
+    const event = stored.payload as unknown as Stripe.Event;
+
+    const { claimed, error: claimError } = await claimWebhookEvent(event);
+    if (claimError) {
+        throw new Error(claimError.message);
+    }
+    if (!claimed) {
+        throw new Error(
+            'This event has already been processed or is being processed'
+        );
+    }
+
+    let failure: string | null = null;
+    try {
+        await processStripeEvent(event);
+    } catch (err) {
+        logError(err, {
+            location: 'admin/webhooks/actions',
+            action: 'replayWebhookEvent',
+            metadata: { eventId: event.id, eventType: event.type },
+        });
+        failure = err instanceof Error ? err.message : 'Unknown error';
+    }
+
+    const { error: completeError } = await completeWebhookEvent(
+        event.id,
+        failure
+    );
+
+    revalidatePath('/admin/webhooks');
+
+    if (failure !== null) {
+        throw new Error(`Processing failed again: ${failure}`);
+    }
+
+    if (completeError) {
+        throw new Error(
+            `The event was processed but could not be marked as processed: ${completeError.message}`
+        );
+    }
+}
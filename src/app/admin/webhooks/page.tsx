@@ -0,0 +1,127 @@
+import { cookies } from 'next/headers';
+import { getFailedWebhookEvents } from '@/lib/db/admin/webhook-events';
+import ReplayButton from './ReplayButton';
+
+export const dynamic = 'force-dynamic';
+
+export default async function WebhooksPage() {
+    // Only super admins can replay events
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get('admin_session');
+    let isSuperAdmin = false;
+    if (sessionCookie) {
+        try {
+            isSuperAdmin =
+                JSON.parse(sessionCookie.value).role === 'super_admin';
+        } catch {
+            // Treated as a regular admin
+        }
+    }
+
+    const { data: events, error } = await getFailedWebhookEvents();
+
+    if (error) {
+        return (
+            <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                Error: {error.message}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-900">
+                    Failed Webhooks
+                </h1>
+                <p className="mt-1 text-sm text-gray-600">
+                    Stripe events that could not be processed, or whose
+                    processing never finished. Fix the underlying problem, then
+                    replay the event.
+                </p>
+            </div>
+
+            {!events || events.length === 0 ? (
+                <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
+                    <p>No failed webhook events.</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th
+                                    scope="col"
+                                    className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                                >
+                                    Event
+                                </th>
+                                <th
+                                    scope="col"
+                                    className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                                >
+                                    Error
+                                </th>
+                                <th
+                                    scope="col"
+                                    className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                                >
+                                    Attempts
+                                </th>
+                                <th
+                                    scope="col"
+                                    className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                                >
+                                    Last Attempt
+                                </th>
+                                {isSuperAdmin && (
+                                    <th
+                                        scope="col"
+                                        className="px-6 py-3 text-xs font-medium tracking-wider text-right text-gray-500 uppercase"
+                                    >
+                                        Actions
+                                    </th>
+                                )}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {events.map((event) => (
+                                <tr key={event.id} className="hover:bg-gray-50">
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="text-sm font-medium text-gray-900">
+                                            {event.type}
+                                        </div>
+                                        <div className="font-mono text-sm text-gray-500">
+                                            {event.stripe_event_id}
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-red-700">
+                                        {event.status === 'processing'
+                                            ? 'Processing never finished (timed out or crashed)'
+                                            : event.error}
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                        {event.attempts}
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                        {new Date(
+                                            event.updated_at
+                                        ).toLocaleString('en-US', {
+                                            dateStyle: 'medium',
+                                            timeStyle: 'short',
+                                        })}
+                                    </td>
+                                    {isSuperAdmin && (
+                                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                                            <ReplayButton eventId={event.id} />
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+/**
+ * Customer Saved Address API Route
+ *
+ * PUT /api/account/address - Save the signed-in customer's shipping address
+ * DELETE /api/account/address - Forget it
+ *
+ * The saved address is prefilled in Stripe Checkout (see
+ * /api/checkout/session).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getSignedInCustomer,
+    updateCustomer,
+    type CustomerUpdate,
+} from '@/lib/db/customers';
+import { customerAddressSchema } from '@/lib/validation/customers';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+const NO_ADDRESS: CustomerUpdate = {
+    shipping_name: null,
+    shipping_address_line1: null,
+    shipping_address_line2: null,
+    shipping_city: null,
+    shipping_state: null,
+    shipping_zip: null,
+    shipping_country: null,
+};
+
+/**
+ * Saves address columns for the signed-in customer
+ */
+async function saveAddress(action: string, updates: CustomerUpdate) {
+    const { data: customer, error: customerError } =
+        await getSignedInCustomer();
+
+    if (customerError) {
+        logError(customerError, {
+            location: 'api/account/address',
+            action: 'getSignedInCustomer',
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    if (!customer) {
+        return NextResponse.json(
+            createApiErrorResponse('AUTHENTICATION_ERROR'),
+            { status: 401 }
+        );
+    }
+
+    const { error } = await updateCustomer(customer.id, updates);
+
+    if (error) {
+        logError(error, {
+            location: 'api/account/address',
+            action,
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+}
+
+/**
+ * PUT handler for saving the address
+ *
+ * Request Body:
+ * - name, line1, line2, city, state, zip, country (two-letter code)
+ *
+ * Response:
+ * - 200: { success: true }
+ * - 400: Validation error
+ * - 401: Not signed in
+ * - 500: Server error
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const parsed = customerAddressSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                createApiErrorResponse(
+                    'VALIDATION_ERROR',
+                    parsed.error.flatten()
+                ),
+                { status: 400 }
+            );
+        }
+
+        const address = parsed.data;
+
+        return await saveAddress('saveAddress', {
+            shipping_name: address.name,
+            shipping_address_line1: address.line1,
+            shipping_address_line2: address.line2 || null,
+            shipping_city: address.city,
+            shipping_state: address.state || null,
+            shipping_zip: address.zip,
+            shipping_country: address.country,
+        });
+    } catch (error) {
+        logError(error, {
+            location: 'api/account/address',
+            action: 'PUT',
+        });
+
+        return NextResponse.json(createApiErrorResponse('UNKNOWN_ERROR'), {
+            status: 500,
+        });
+    }
+}
+
+/**
+ * DELETE handler for removing the saved address
+ *
+ * Response:
+ * - 200: { success: true }
+ * - 401: Not signed in
+ * - 500: Server error
+ */
+export async function DELETE() {
+    try {
+        return await saveAddress('removeAddress', NO_ADDRESS);
+    } catch (error) {
+        logError(error, {
+            location: 'api/account/address',
+            action: 'DELETE',
+        });
+
+        return NextResponse.json(createApiErrorResponse('UNKNOWN_ERROR'), {
+            status: 500,
+        });
+    }
+}
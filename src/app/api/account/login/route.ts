@@ -0,0 +1,151 @@
+/**
+ * Customer Sign-In API Route
+ *
+ * POST /api/account/login
+ *
+ * Emails a Supabase Auth magic link for a customer account. Following the
+ * link (/account/auth/callback) signs the customer in, creating the account
+ * the first time. Requests are rate limited per IP address and per email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAnonClient } from '@/lib/supabase/server';
+import { isAdministratorEmail } from '@/lib/db/customers';
+import { consumeRateLimit, type RateLimit } from '@/lib/db/rate-limits';
+import { customerLoginSchema } from '@/lib/validation/customers';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+import { getClientIp } from '@/lib/utils/request';
+
+const LOGIN_WINDOW_SECONDS = 15 * 60;
+
+const IP_LIMIT: RateLimit = {
+    scope: 'account-login-ip',
+    maxAttempts: 10,
+    windowSeconds: LOGIN_WINDOW_SECONDS,
+};
+
+const EMAIL_LIMIT: RateLimit = {
+    scope: 'account-login-email',
+    maxAttempts: 3,
+    windowSeconds: LOGIN_WINDOW_SECONDS,
+};
+
+/**
+ * POST handler for magic-link sign-in requests
+ *
+ * Request Body:
+ * - email: Address to send the sign-in link to
+ *
+ * Response:
+ * - 200: { success: true } (also for administrator addresses, which are
+ *   never sent a link, so the response doesn't reveal who is an admin)
+ * - 400: Validation error
+ * - 429: Too many requests (Retry-After header in seconds)
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const parsed = customerLoginSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                createApiErrorResponse(
+                    'VALIDATION_ERROR',
+                    parsed.error.flatten()
+                ),
+                { status: 400 }
+            );
+        }
+
+        const { email } = parsed.data;
+
+        for (const [limit, identifier] of [
+            [IP_LIMIT, getClientIp(request)],
+            [EMAIL_LIMIT, email],
+        ] as const) {
+            const { data: allowed, error } = await consumeRateLimit(
+                limit,
+                identifier
+            );
+
+            if (error) {
+                logError(error, {
+                    location: 'api/account/login',
+                    action: 'consumeRateLimit',
+                    metadata: { scope: limit.scope },
+                });
+
+                return NextResponse.json(
+                    createApiErrorResponse('DATABASE_ERROR'),
+                    { status: 500 }
+                );
+            }
+
+            if (!allowed) {
+                return NextResponse.json(
+                    createApiErrorResponse('RATE_LIMIT_ERROR'),
+                    {
+                        status: 429,
+                        headers: {
+                            'Retry-After': String(limit.windowSeconds),
+                        },
+                    }
+                );
+            }
+        }
+
+        // Administrators sign in with a password at /admin/login; a magic
+        // link would let an inbox alone open the admin area
+        const { data: isAdmin, error: adminError } =
+            await isAdministratorEmail(email);
+
+        if (adminError) {
+            logError(adminError, {
+                location: 'api/account/login',
+                action: 'isAdministratorEmail',
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        if (isAdmin) {
+            return NextResponse.json({ success: true }, { status: 200 });
+        }
+
+        const baseUrl = process.env.NEXT_PUBLIC_URL || 'http://localhost:3000';
+        const supabase = await createAnonClient();
+        const { error } = await supabase.auth.signInWithOtp({
+            email,
+            options: {
+                emailRedirectTo: `${baseUrl}/account/auth/callback`,
+                shouldCreateUser: true,
+            },
+        });
+
+        if (error) {
+            logError(error, {
+                location: 'api/account/login',
+                action: 'signInWithOtp',
+            });
+
+            return NextResponse.json(createApiErrorResponse('EMAIL_ERROR'), {
+                status: 500,
+            });
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        logError(error, {
+            location: 'api/account/login',
+            action: 'POST',
+        });
+
+        return NextResponse.json(createApiErrorResponse('UNKNOWN_ERROR'), {
+            status: 500,
+        });
+    }
+}
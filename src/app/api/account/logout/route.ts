@@ -0,0 +1,49 @@
+/**
+ * Customer Sign-Out API Route
+ *
+ * POST /api/account/logout
+ *
+ * Ends the customer's session (clears the Supabase auth cookies).
+ */
+
+import { NextResponse } from 'next/server';
+import { createAnonClient } from '@/lib/supabase/server';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * POST handler for signing out
+ *
+ * Response:
+ * - 200: { success: true }
+ * - 500: Server error
+ */
+export async function POST() {
+    try {
+        const supabase = await createAnonClient();
+        const { error } = await supabase.auth.signOut();
+
+        if (error) {
+            logError(error, {
+                location: 'api/account/logout',
+                action: 'signOut',
+            });
+
+            return NextResponse.json(
+                createApiErrorResponse('AUTHENTICATION_ERROR'),
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        logError(error, {
+            location: 'api/account/logout',
+            action: 'POST',
+        });
+
+        return NextResponse.json(createApiErrorResponse('UNKNOWN_ERROR'), {
+            status: 500,
+        });
+    }
+}
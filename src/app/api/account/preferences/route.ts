@@ -0,0 +1,90 @@
+/**
+ * Customer Email Preferences API Route
+ *
+ * PUT /api/account/preferences
+ *
+ * Saves the signed-in customer's email preferences. Order confirmations are
+ * always sent; preferences cover the optional updates after that.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSignedInCustomer, updateCustomer } from '@/lib/db/customers';
+import { customerPreferencesSchema } from '@/lib/validation/customers';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * PUT handler for saving preferences
+ *
+ * Request Body:
+ * - orderUpdateEmails: Whether to email shipping and delivery updates
+ *
+ * Response:
+ * - 200: { success: true }
+ * - 400: Validation error
+ * - 401: Not signed in
+ * - 500: Server error
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const parsed = customerPreferencesSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                createApiErrorResponse(
+                    'VALIDATION_ERROR',
+                    parsed.error.flatten()
+                ),
+                { status: 400 }
+            );
+        }
+
+        const { data: customer, error: customerError } =
+            await getSignedInCustomer();
+
+        if (customerError) {
+            logError(customerError, {
+                location: 'api/account/preferences',
+                action: 'getSignedInCustomer',
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        if (!customer) {
+            return NextResponse.json(
+                createApiErrorResponse('AUTHENTICATION_ERROR'),
+                { status: 401 }
+            );
+        }
+
+        const { error } = await updateCustomer(customer.id, {
+            order_update_emails: parsed.data.orderUpdateEmails,
+        });
+
+        if (error) {
+            logError(error, {
+                location: 'api/account/preferences',
+                action: 'updateCustomer',
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        logError(error, {
+            location: 'api/account/preferences',
+            action: 'PUT',
+        });
+
+        return NextResponse.json(createApiErrorResponse('UNKNOWN_ERROR'), {
+            status: 500,
+        });
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * Customer Waitlist API Route
+ *
+ * DELETE /api/account/waitlist/[artworkId]
+ *
+ * Stops back-in-stock emails to the signed-in customer for one artwork
+ * (from the email preferences page).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSignedInCustomer } from '@/lib/db/customers';
+import { leaveWaitlist } from '@/lib/db/waitlist';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * DELETE handler for leaving an artwork's waitlist
+ *
+ * Response:
+ * - 200: { success: true } (also when the customer wasn't on the waitlist)
+ * - 400: Invalid artwork ID
+ * - 401: Not signed in
+ * - 500: Server error
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ artworkId: string }> }
+) {
+    try {
+        const { artworkId } = await params;
+
+        if (!z.string().uuid().safeParse(artworkId).success) {
+            return NextResponse.json(
+                createApiErrorResponse('VALIDATION_ERROR'),
+                { status: 400 }
+            );
+        }
+
+        const { data: customer, error: customerError } =
+            await getSignedInCustomer();
+
+        if (customerError) {
+            logError(customerError, {
+                location: 'api/account/waitlist',
+                action: 'getSignedInCustomer',
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        if (!customer) {
+            return NextResponse.json(
+                createApiErrorResponse('AUTHENTICATION_ERROR'),
+                { status: 401 }
+            );
+        }
+
+        const { error } = await leaveWaitlist(customer.email, artworkId);
+
+        if (error) {
+            logError(error, {
+                location: 'api/account/waitlist',
+                action: 'leaveWaitlist',
+                metadata: { artworkId },
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        logError(error, {
+            location: 'api/account/waitlist',
+            action: 'DELETE',
+        });
+
+        return NextResponse.json(createApiErrorResponse('UNKNOWN_ERROR'), {
+            status: 500,
+        });
+    }
+}
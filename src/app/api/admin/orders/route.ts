@@ -1,20 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllOrders, type OrderStatus } from '@/lib/db/admin/orders';
+import { getAllOrders } from '@/lib/db/admin/orders';
+import { parseOrderListParams } from '@/lib/utils/order-list-params';
 import { createApiErrorResponse } from '@/lib/errors/user-friendly';
 import { logError } from '@/lib/errors/logger';
 
 /**
  * GET /api/admin/orders
  *
- * Retrieves all orders with optional filtering and pagination.
+ * Retrieves all orders with optional filtering, search, sorting and
+ * pagination.
  *
  * Query Parameters:
  * - limit: Number of orders to return (default: 20)
  * - offset: Number of orders to skip (default: 0)
  * - status: Filter by order status (optional)
+ * - search: Order number, customer name or email, SKU or tracking number
+ *   (optional, partial matches)
+ * - from, to: Date range, YYYY-MM-DD (optional, both days included)
+ * - sort: One of ORDER_SORT_COLUMNS (default: created_at)
+ * - direction: 'asc' or 'desc' (default: desc)
  *
  * Response:
- * - 200: { orders: Order[], total: number }
+ * - 200: { orders: Order[], total: number } (total counts every matching
+ *   order, not just this page)
  * - 500: Standardized error response
  */
 export async function GET(request: NextRequest) {
@@ -22,17 +30,20 @@ export async function GET(request: NextRequest) {
         const searchParams = request.nextUrl.searchParams;
         const limit = parseInt(searchParams.get('limit') || '20');
         const offset = parseInt(searchParams.get('offset') || '0');
-        const status = searchParams.get('status') as OrderStatus | undefined;
+        const { filters, sort } = parseOrderListParams(searchParams);
 
-        const filters = status ? { status } : undefined;
-
-        const { data, error } = await getAllOrders(limit, offset, filters);
+        const { data, count, error } = await getAllOrders(
+            limit,
+            offset,
+            filters,
+            sort
+        );
 
         if (error) {
             logError(error, {
                 location: 'api/admin/orders',
                 action: 'getAllOrders',
-                metadata: { limit, offset, status },
+                metadata: { limit, offset, filters, sort },
             });
 
             return NextResponse.json(
@@ -43,7 +54,7 @@ export async function GET(request: NextRequest) {
 
         return NextResponse.json({
             orders: data,
-            total: data?.length || 0,
+            total: count,
         });
     } catch (error) {
         logError(error, {
@@ -0,0 +1,71 @@
+/**
+ * Certificate of Authenticity API Route
+ *
+ * Serves the certificate PDF for a numbered limited edition order line. The
+ * link is in the customer's confirmation email and on the admin order page;
+ * the unguessable token is the only credential, like a gift card code.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCertificateByToken } from '@/lib/db/certificates';
+import { renderCertificatePdf } from '@/lib/pdf/certificate';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * GET /api/certificates/[token]
+ *
+ * @param token - order_items.certificate_token
+ * @returns 200 with the PDF (one page per print), 404 for an unknown or
+ *          malformed token, 500 on database errors
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    const { token } = await params;
+
+    if (!z.string().uuid().safeParse(token).success) {
+        return NextResponse.json(createApiErrorResponse('NOT_FOUND'), {
+            status: 404,
+        });
+    }
+
+    const { data: certificate, error } = await getCertificateByToken(token);
+
+    if (error) {
+        logError(error, {
+            location: 'api/certificates',
+            action: 'getCertificateByToken',
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    if (!certificate) {
+        return NextResponse.json(createApiErrorResponse('NOT_FOUND'), {
+            status: 404,
+        });
+    }
+
+    const pdf = renderCertificatePdf(certificate);
+    const filename = [
+        'certificate',
+        certificate.order?.order_number,
+        certificate.edition_number_start,
+    ]
+        .filter(Boolean)
+        .join('-');
+
+    return new NextResponse(new Uint8Array(pdf), {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `inline; filename="${filename}.pdf"`,
+            'Cache-Control': 'private, no-store',
+        },
+    });
+}
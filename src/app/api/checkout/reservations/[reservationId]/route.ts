@@ -0,0 +1,124 @@
+/**
+ * Checkout Reservation API Route
+ *
+ * Releases the inventory (and coupon use and gift card balances) held for a
+ * Stripe Checkout session the customer backed out of, instead of waiting for
+ * the session to expire.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { stripe } from '@/lib/payments/stripe';
+import {
+    getReservationCheckoutSession,
+    releaseInventoryHolds,
+} from '@/lib/db/inventory-holds';
+import { releaseCouponHolds } from '@/lib/db/coupons';
+import { releaseGiftCardHolds } from '@/lib/db/gift-cards';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * DELETE /api/checkout/reservations/[reservationId]
+ *
+ * Called by the cart page when Stripe redirects back to the cancel URL.
+ * Expires the session first, and only releases its holds once Stripe has
+ * confirmed it can no longer be paid: when expiring fails (the customer paid
+ * in another tab, or it already expired) the holds are left to the webhook,
+ * which redeems or releases them. Releasing an unknown or already released
+ * reservation is a no-op.
+ *
+ * @param reservationId - Reservation ID from the Stripe cancel URL
+ * @returns 200 with { released }, 400 for a malformed ID, 500 on database errors
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ reservationId: string }> }
+) {
+    const { reservationId } = await params;
+
+    if (!z.string().uuid().safeParse(reservationId).success) {
+        return NextResponse.json(createApiErrorResponse('VALIDATION_ERROR'), {
+            status: 400,
+        });
+    }
+
+    const { data: checkoutSessionId, error: sessionError } =
+        await getReservationCheckoutSession(reservationId);
+
+    if (sessionError) {
+        logError(sessionError, {
+            location: 'api/checkout/reservations',
+            action: 'getReservationCheckoutSession',
+            metadata: { reservationId },
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    if (checkoutSessionId) {
+        try {
+            await stripe.checkout.sessions.expire(checkoutSessionId);
+        } catch (err) {
+            logError(err, {
+                location: 'api/checkout/reservations',
+                action: 'expireCheckoutSession',
+                metadata: { sessionId: checkoutSessionId },
+            });
+
+            return NextResponse.json({ released: false }, { status: 200 });
+        }
+    }
+
+    const { error } = await releaseInventoryHolds(reservationId);
+
+    if (error) {
+        logError(error, {
+            location: 'api/checkout/reservations',
+            action: 'releaseInventoryHolds',
+            metadata: { reservationId },
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    const { error: couponError } = await releaseCouponHolds(reservationId);
+
+    if (couponError) {
+        logError(couponError, {
+            location: 'api/checkout/reservations',
+            action: 'releaseCouponHolds',
+            metadata: { reservationId },
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    const { error: giftCardError } = await releaseGiftCardHolds(reservationId);
+
+    if (giftCardError) {
+        logError(giftCardError, {
+            location: 'api/checkout/reservations',
+            action: 'releaseGiftCardHolds',
+            metadata: { reservationId },
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    if (checkoutSessionId) {
+        revalidatePath('/shoppe');
+        revalidatePath('/shoppe/[slug]', 'page');
+    }
+
+    return NextResponse.json({ released: true }, { status: 200 });
+}
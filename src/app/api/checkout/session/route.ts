@@ -4,28 +4,170 @@
  * Creates a Stripe Checkout session for the shopping cart.
  * Handles:
  * - Cart validation
+ * - Coupon discounts
+ * - Gift card redemptions (taken off the taxed total when the payment is
+ *   captured)
  * - Session creation with line items
  * - Automatic tax calculation
- * - Shipping options
- * - Address collection
+ * - Shipping options (priced by the destination's shipping zone)
+ * - Address collection (limited to the zone's countries)
+ * - Pre-order labelling (expected ship date on the line item)
+ * - Inventory, coupon use and gift card balance holds for the session's lifetime
+ *   (settled by the webhook when the session completes or expires)
+ * - Signed-in customer accounts (email and saved address prefilled)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
 import type Stripe from 'stripe';
 import { stripe } from '@/lib/payments/stripe';
 import { validateCart } from '@/lib/cart/validation';
+import {
+    getCheckoutSessionExpiry,
+    getReservationExpiry,
+} from '@/lib/cart/inventory';
+import { formatExpectedShipDate } from '@/lib/cart/preorders';
+import { formatCurrency } from '@/lib/utils/currency';
+import {
+    attachCheckoutSession,
+    releaseInventoryHolds,
+    reserveInventory,
+    saveCheckoutItems,
+} from '@/lib/db/inventory-holds';
+import { releaseCouponHolds, reserveCoupon } from '@/lib/db/coupons';
+import { releaseGiftCardHolds, reserveGiftCards } from '@/lib/db/gift-cards';
+import {
+    getSignedInCustomer,
+    updateCustomer,
+    type Customer,
+} from '@/lib/db/customers';
 import { createApiErrorResponse } from '@/lib/errors/user-friendly';
 import { logError } from '@/lib/errors/logger';
-import { siteConfig } from '@/config/site';
+import type { ShippingOption } from '@/types/cart';
 
 /**
  * Constants for checkout session configuration
  */
-const SHIPPING_COST_CENTS = siteConfig.shipping.flat_rate;
-const ALLOWED_SHIPPING_COUNTRIES: Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[] =
-    ['US'];
-const SHIPPING_DISPLAY_NAME = 'Standard Shipping';
+type AllowedCountry =
+    Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry;
+
+// Used when the cart has no destination (default siteConfig rates are domestic)
+const DEFAULT_SHIPPING_COUNTRIES: AllowedCountry[] = ['US'];
+
+/**
+ * Converts a computed shipping option into a Stripe shipping rate
+ */
+function toStripeShippingOption(
+    option: ShippingOption
+): Stripe.Checkout.SessionCreateParams.ShippingOption {
+    return {
+        shipping_rate_data: {
+            type: 'fixed_amount',
+            fixed_amount: {
+                amount: Math.round(option.amount * 100), // Convert to cents
+                currency: 'usd',
+            },
+            display_name: option.displayName,
+            delivery_estimate: {
+                minimum: {
+                    unit: 'business_day',
+                    value: option.deliveryEstimate.minimum,
+                },
+                maximum: {
+                    unit: 'business_day',
+                    value: option.deliveryEstimate.maximum,
+                },
+            },
+        },
+    };
+}
+
+type CheckoutCustomerParams = Pick<
+    Stripe.Checkout.SessionCreateParams,
+    'customer' | 'customer_email' | 'customer_update'
+>;
+
+/**
+ * Creates or refreshes the Stripe customer that carries a customer
+ * account's saved address into Checkout
+ *
+ * @returns Stripe customer ID
+ */
+async function syncStripeCustomer(customer: Customer): Promise<string> {
+    const details = {
+        email: customer.email,
+        name: customer.shipping_name ?? undefined,
+        shipping: {
+            name: customer.shipping_name ?? '',
+            address: {
+                line1: customer.shipping_address_line1 ?? '',
+                line2: customer.shipping_address_line2 ?? undefined,
+                city: customer.shipping_city ?? undefined,
+                state: customer.shipping_state ?? undefined,
+                postal_code: customer.shipping_zip ?? undefined,
+                country: customer.shipping_country ?? undefined,
+            },
+        },
+    };
+
+    if (customer.stripe_customer_id) {
+        await stripe.customers.update(customer.stripe_customer_id, details);
+        return customer.stripe_customer_id;
+    }
+
+    const stripeCustomer = await stripe.customers.create(details);
+    const { error } = await updateCustomer(customer.id, {
+        stripe_customer_id: stripeCustomer.id,
+    });
+    if (error) {
+        // Non-blocking: the next checkout creates another Stripe customer
+        logError(error, {
+            location: 'api/checkout/session',
+            action: 'saveStripeCustomerId',
+        });
+    }
+    return stripeCustomer.id;
+}
+
+/**
+ * Prefills Checkout for a signed-in customer account: their email, plus
+ * their saved shipping address (through a Stripe customer). Guests keep
+ * the email from the request, if any.
+ */
+async function getCheckoutCustomerParams(
+    customerEmail: string | undefined
+): Promise<CheckoutCustomerParams> {
+    try {
+        const { data: customer, error } = await getSignedInCustomer();
+
+        if (error) {
+            throw error;
+        }
+
+        if (!customer) {
+            return { customer_email: customerEmail };
+        }
+
+        if (!customer.shipping_address_line1) {
+            return { customer_email: customer.email };
+        }
+
+        return {
+            customer: await syncStripeCustomer(customer),
+            // Automatic tax needs the address collected in Checkout saved
+            // back onto the Stripe customer
+            customer_update: { shipping: 'auto', address: 'auto' },
+        };
+    } catch (error) {
+        // Non-blocking: fall back to a guest checkout
+        logError(error, {
+            location: 'api/checkout/session',
+            action: 'getCheckoutCustomerParams',
+        });
+        return { customer_email: customerEmail };
+    }
+}
 
 /**
  * Checkout session request schema
@@ -38,9 +180,14 @@ const CheckoutSessionSchema = z.object({
             price: z.number().positive(),
             quantity: z.number().int().positive(),
             slug: z.string(),
+            variantId: z.string().uuid().optional(),
+            variantName: z.string().optional(),
         })
     ),
     customerEmail: z.string().email().optional(),
+    couponCode: z.string().trim().min(1).max(50).optional(),
+    shippingCountry: z.string().trim().length(2).optional(),
+    giftCardCodes: z.array(z.string().trim().min(1).max(50)).max(5).optional(),
 });
 
 /**
@@ -50,11 +197,18 @@ const CheckoutSessionSchema = z.object({
  *
  * Request Body:
  * - items: Array of cart items with artworkId, title, price, quantity, slug
- * - customerEmail (optional): Pre-fill customer email in checkout
+ *   and an optional variantId/variantName for print size / framing options
+ * - customerEmail (optional): Pre-fill customer email in checkout (a
+ *   signed-in customer account's email and saved address take precedence)
+ * - couponCode (optional): Coupon code entered in the cart summary
+ * - shippingCountry (optional): "Ship to" country selected in the cart summary
+ * - giftCardCodes (optional): Gift card codes entered in the cart summary
  *
  * Response:
  * - 200: { url: string } - Stripe Checkout URL to redirect to
  * - 400: { error: string, message: string, details?: any } - Validation error (details only in dev)
+ * - 409: { error: string, message: string } - Stock or gift card balance was
+ *   reserved by another checkout
  * - 500: { error: string, message: string } - Server error
  *
  * @example
@@ -74,6 +228,8 @@ const CheckoutSessionSchema = z.object({
  * ```
  */
 export async function POST(request: NextRequest) {
+    let reservationId: string | null = null;
+
     try {
         const body = await request.json();
         const parsed = CheckoutSessionSchema.safeParse(body);
@@ -88,10 +244,21 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { items, customerEmail } = parsed.data;
+        const {
+            items,
+            customerEmail,
+            couponCode,
+            shippingCountry,
+            giftCardCodes,
+        } = parsed.data;
 
-        // Validate cart server-side
-        const validatedCart = await validateCart(items);
+        // Validate cart (and coupon / gift cards, when supplied) server-side
+        const validatedCart = await validateCart(
+            items,
+            couponCode,
+            shippingCountry,
+            giftCardCodes
+        );
 
         if (!validatedCart.isValid) {
             // Log detailed errors for debugging
@@ -111,57 +278,231 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Hold the stock while the session is open; the database re-checks
+        // availability under a row lock, so a concurrent checkout that passed
+        // validation for the same last copy is turned away here
+        const expiresAt = getReservationExpiry();
+        const newReservationId = crypto.randomUUID();
+        const { error: reserveError } = await reserveInventory(
+            newReservationId,
+            validatedCart.items,
+            expiresAt
+        );
+
+        if (reserveError) {
+            logError(reserveError, {
+                location: 'api/checkout/session',
+                action: 'reserveInventory',
+            });
+
+            if (reserveError.code === 'insufficient_inventory') {
+                return NextResponse.json(
+                    createApiErrorResponse('VALIDATION_ERROR', [
+                        reserveError.message,
+                    ]),
+                    { status: 409 }
+                );
+            }
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        reservationId = newReservationId;
+
+        // Hold a use of the coupon too, so checkouts open at the same time
+        // can't redeem it more often than its usage limit allows
+        if (validatedCart.coupon) {
+            const { error: couponError } = await reserveCoupon(
+                reservationId,
+                validatedCart.coupon.id,
+                expiresAt
+            );
+
+            if (couponError) {
+                logError(couponError, {
+                    location: 'api/checkout/session',
+                    action: 'reserveCoupon',
+                });
+
+                await releaseInventoryHolds(reservationId);
+
+                if (couponError.code === 'coupon_usage_limit_reached') {
+                    return NextResponse.json(
+                        createApiErrorResponse('VALIDATION_ERROR', [
+                            couponError.message,
+                        ]),
+                        { status: 409 }
+                    );
+                }
+
+                return NextResponse.json(
+                    createApiErrorResponse('DATABASE_ERROR'),
+                    { status: 500 }
+                );
+            }
+        }
+
+        // Hold the redeemed gift card balances the same way, so two open
+        // checkouts can't spend the same balance
+        const { error: giftCardError } = await reserveGiftCards(
+            reservationId,
+            validatedCart.giftCards ?? [],
+            expiresAt
+        );
+
+        if (giftCardError) {
+            logError(giftCardError, {
+                location: 'api/checkout/session',
+                action: 'reserveGiftCards',
+            });
+
+            await releaseInventoryHolds(reservationId);
+            await releaseCouponHolds(reservationId);
+
+            if (giftCardError.code === 'insufficient_gift_card_balance') {
+                return NextResponse.json(
+                    createApiErrorResponse('VALIDATION_ERROR', [
+                        giftCardError.message,
+                    ]),
+                    { status: 409 }
+                );
+            }
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        // The webhook creates the order from these lines (they don't fit in
+        // the session metadata, which Stripe caps at 500 characters a value)
+        const { error: itemsError } = await saveCheckoutItems(
+            reservationId,
+            validatedCart.items
+        );
+
+        if (itemsError) {
+            logError(itemsError, {
+                location: 'api/checkout/session',
+                action: 'saveCheckoutItems',
+            });
+
+            await releaseInventoryHolds(reservationId);
+            await releaseCouponHolds(reservationId);
+            await releaseGiftCardHolds(reservationId);
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
         // Create Stripe Checkout Session
         const baseUrl = process.env.NEXT_PUBLIC_URL || 'http://localhost:3000';
+        const { coupon } = validatedCart;
+        const giftCardAmount = validatedCart.giftCardAmount ?? 0;
+        const discountAmount = coupon?.discountAmount ?? 0;
+
+        // Stripe applies the discount from a single-use coupon carrying the
+        // amount calculated by validateCart, so scope and minimum-subtotal
+        // rules stay on our side. Gift cards are a way of paying, not a
+        // discount, so they stay out of it and tax is charged on the full
+        // price
+        const stripeCoupon =
+            coupon && discountAmount > 0
+                ? await stripe.coupons.create({
+                      amount_off: Math.round(discountAmount * 100),
+                      currency: 'usd',
+                      duration: 'once',
+                      max_redemptions: 1,
+                      name: coupon.code,
+                  })
+                : null;
+
+        const checkoutCustomer = await getCheckoutCustomerParams(customerEmail);
 
         const session = await stripe.checkout.sessions.create({
             mode: 'payment',
             success_url: `${baseUrl}/shoppe/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-            cancel_url: `${baseUrl}/shoppe/cart`,
-            customer_email: customerEmail,
+            // The cart page releases the holds when the customer comes back
+            cancel_url: `${baseUrl}/shoppe/cart?reservation=${reservationId}`,
+            // Expire just before the holds so an unpaid session can't outlive
+            // them; computed here so Stripe's 30 minute minimum still holds
+            expires_at: Math.floor(getCheckoutSessionExpiry().getTime() / 1000),
+            ...checkoutCustomer,
             line_items: validatedCart.items.map((item) => ({
                 price_data: {
                     currency: 'usd',
                     product_data: {
-                        name: item.title,
+                        name: `${item.variantName ? `${item.title} (${item.variantName})` : item.title}${item.preorder ? ' (Pre-order)' : ''}`,
+                        // Pre-orders tell the customer when to expect them
+                        ...(item.preorder && {
+                            description: `Pre-order for ${item.preorder.projectTitle}. Expected to ship: ${formatExpectedShipDate(item.preorder.expectedShipDate)}`,
+                        }),
                         tax_code: 'txcd_99999999', // General - Tangible Goods (physical products)
                     },
                     unit_amount: Math.round(item.price * 100), // Convert to cents
                 },
                 quantity: item.quantity,
             })),
-            // Add shipping as a separate line item
-            shipping_options: [
-                {
-                    shipping_rate_data: {
-                        type: 'fixed_amount',
-                        fixed_amount: {
-                            amount: SHIPPING_COST_CENTS,
-                            currency: 'usd',
-                        },
-                        display_name: SHIPPING_DISPLAY_NAME,
+            // Shipping options computed by the cart's shipping rules (standard first)
+            shipping_options: validatedCart.shippingOptions.map(
+                toStripeShippingOption
+            ),
+            ...(stripeCoupon && {
+                discounts: [{ coupon: stripeCoupon.id }],
+            }),
+            // Gift cards pay part of the taxed total: the card is only
+            // authorized here, and the webhook captures what the gift cards
+            // don't cover
+            ...(giftCardAmount > 0 && {
+                payment_intent_data: { capture_method: 'manual' },
+                custom_text: {
+                    submit: {
+                        message: `Your gift card pays ${formatCurrency(giftCardAmount)} of this total. Only the rest is charged to your card.`,
                     },
                 },
-            ],
+            }),
             automatic_tax: {
                 enabled: true,
             },
             shipping_address_collection: {
-                allowed_countries: ALLOWED_SHIPPING_COUNTRIES,
+                // Every country in the zone shares the quoted rates
+                allowed_countries: validatedCart.shippingZone
+                    ? (validatedCart.shippingZone.countries as AllowedCountry[])
+                    : DEFAULT_SHIPPING_COUNTRIES,
             },
             billing_address_collection: 'required',
             metadata: {
-                // Store cart data for webhook processing
-                cartItems: JSON.stringify(
-                    validatedCart.items.map((item) => ({
-                        artworkId: item.artworkId,
-                        quantity: item.quantity,
-                        price: item.price,
-                    }))
-                ),
+                ...(coupon && {
+                    couponId: coupon.id,
+                    couponCode: coupon.code,
+                }),
+                ...(giftCardAmount > 0 && {
+                    giftCardAmount: giftCardAmount.toFixed(2),
+                }),
+                // The webhook looks up the cart lines and holds by this
+                reservationId,
             },
         });
 
+        const { error: attachError } = await attachCheckoutSession(
+            reservationId,
+            session.id
+        );
+        if (attachError) {
+            // Non-blocking: the holds still lapse with the session
+            logError(attachError, {
+                location: 'api/checkout/session',
+                action: 'attachCheckoutSession',
+                metadata: { sessionId: session.id },
+            });
+        }
+
+        // Held stock counts against the shoppe's displayed availability
+        revalidatePath('/shoppe');
+        revalidatePath('/shoppe/[slug]', 'page');
+
         // Log checkout session creation for debugging and audit trail
         const itemsTotal = validatedCart.items.reduce(
             (sum, item) => sum + item.price * item.quantity,
@@ -172,7 +513,9 @@ export async function POST(request: NextRequest) {
             customerEmail: customerEmail || 'not provided',
             itemCount: validatedCart.items.length,
             itemsSubtotal: itemsTotal,
-            shipping: SHIPPING_COST_CENTS / 100,
+            discount: coupon?.discountAmount ?? 0,
+            giftCards: giftCardAmount,
+            shipping: validatedCart.shippingCost,
             metadata: {
                 cartItemsCount: validatedCart.items.length,
             },
@@ -197,6 +540,14 @@ export async function POST(request: NextRequest) {
             action: 'createSession',
         });
 
+        // No usable session was created, so don't keep its stock, coupon use
+        // or gift card balances held
+        if (reservationId) {
+            await releaseInventoryHolds(reservationId);
+            await releaseCouponHolds(reservationId);
+            await releaseGiftCardHolds(reservationId);
+        }
+
         return NextResponse.json(
             createApiErrorResponse('PAYMENT_ERROR', error),
             { status: 500 }
@@ -8,6 +8,9 @@
  * - Items are published and available
  * - Prices match database (detect client-side tampering)
  * - Sufficient inventory is available
+ * - The coupon code (if any) applies to the cart
+ * - The shipping country (if any) is served by a shipping zone
+ * - The gift card codes (if any) have balance to redeem
  * - Accurate total calculations
  */
 
@@ -26,6 +29,8 @@ const CartItemSchema = z.object({
     price: z.number().positive(),
     quantity: z.number().int().positive(),
     slug: z.string(),
+    variantId: z.string().uuid().optional(),
+    variantName: z.string().optional(),
 });
 
 /**
@@ -33,6 +38,9 @@ const CartItemSchema = z.object({
  */
 const ValidateCartSchema = z.object({
     items: z.array(CartItemSchema),
+    couponCode: z.string().trim().min(1).max(50).optional(),
+    shippingCountry: z.string().trim().length(2).optional(),
+    giftCardCodes: z.array(z.string().trim().min(1).max(50)).max(5).optional(),
 });
 
 /**
@@ -54,7 +62,8 @@ const ValidateCartSchema = z.object({
  *       "quantity": 2,
  *       "slug": "artwork-title"
  *     }
- *   ]
+ *   ],
+ *   "couponCode": "SPRING10" // optional
  * }
  *
  * // Success Response (200)
@@ -65,7 +74,8 @@ const ValidateCartSchema = z.object({
  *     "subtotal": 100.00,
  *     "shippingCost": 5.00,
  *     "taxAmount": 0,
- *     "total": 105.00
+ *     "total": 105.00,
+ *     "coupon": { "id": "...", "code": "SPRING10", "discountAmount": 10.00 } // when applied
  *   }
  * }
  *
@@ -99,7 +109,12 @@ export async function POST(request: NextRequest) {
         }
 
         // Validate cart items against database
-        const validatedCart = await validateCart(parsed.data.items);
+        const validatedCart = await validateCart(
+            parsed.data.items,
+            parsed.data.couponCode,
+            parsed.data.shippingCountry,
+            parsed.data.giftCardCodes
+        );
 
         // Return 400 if cart validation fails
         if (!validatedCart.isValid) {
@@ -1,37 +1,21 @@
 /**
  * Stripe Webhook Handler
  *
- * Handles Stripe webhook events for payment processing.
- * Processes checkout.session.completed events to create orders.
+ * Receives Stripe webhook events for payment processing: verifies them,
+ * records them in the webhook event log and hands them to processStripeEvent.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { constructWebhookEvent } from '@/lib/payments/stripe';
+import { processStripeEvent } from '@/lib/payments/stripe-events';
 import {
-    constructWebhookEvent,
-    generateOrderNumber,
-} from '@/lib/payments/stripe';
-import { createOrder } from '@/lib/db/orders';
-import { createServiceRoleClient } from '@/lib/supabase/server';
-import { sendOrderEmails } from '@/lib/email/send';
-import Stripe from 'stripe';
-import type { Address } from '@/types/order';
+    claimWebhookEvent,
+    completeWebhookEvent,
+} from '@/lib/db/webhook-events';
+import type Stripe from 'stripe';
 import { createApiErrorResponse } from '@/lib/errors/user-friendly';
 import { logError, logInfo } from '@/lib/errors/logger';
 
-/**
- * Helper function to extract address from Stripe address object
- */
-function extractAddress(address: Stripe.Address | null | undefined): Address {
-    return {
-        line1: address?.line1 || '',
-        line2: address?.line2 || undefined,
-        city: address?.city || '',
-        state: address?.state || '',
-        zip: address?.postal_code || '',
-        country: address?.country || 'US',
-    };
-}
-
 /**
  * POST /api/checkout/webhook
  *
@@ -40,14 +24,15 @@ function extractAddress(address: Stripe.Address | null | undefined): Address {
  * **IMPORTANT**: This endpoint must be excluded from CSRF protection
  * and bodyParser middleware as it requires raw request body for signature verification.
  *
- * Events handled:
- * - checkout.session.completed: Creates order from Stripe Checkout session (authoritative)
- * - payment_intent.succeeded: Logs payment success (order creation handled by session.completed)
- * - payment_intent.payment_failed: Logs failed payment
+ * Every verified event is stored in the webhook event log before it's
+ * processed (see processStripeEvent for the events handled). Events are
+ * keyed on Stripe's event ID, so a redelivered event is skipped unless its
+ * last attempt failed. Failed events can be replayed from the admin.
  *
- * @returns 200 with { received: true } on success
+ * @returns 200 with { received: true } on success, or for an event already processed
  * @returns 400 on signature verification failure
- * @returns 500 on webhook processing errors (but still returns 200 to Stripe to prevent retries)
+ * @returns 500 when the event can't be logged (Stripe redelivers it later)
+ * @returns 200 on webhook processing errors (recorded on the event; not retried by Stripe)
  */
 export async function POST(request: NextRequest) {
     // Get raw body for signature verification
@@ -93,264 +78,64 @@ export async function POST(request: NextRequest) {
         });
     }
 
-    // Handle the event based on type
-    try {
-        switch (event.type) {
-            case 'payment_intent.succeeded': {
-                const paymentIntent = event.data.object as Stripe.PaymentIntent;
-
-                // Log payment success for monitoring and debugging
-                // NOTE: Order creation is handled exclusively by checkout.session.completed event
-                // to prevent duplicate orders from concurrent webhook processing
-                logInfo(
-                    'Payment succeeded (order created via checkout.session.completed)',
-                    {
-                        location: 'api/checkout/webhook',
-                        action: 'handlePaymentIntentSucceeded',
-                        metadata: {
-                            paymentIntentId: paymentIntent.id,
-                            amount: paymentIntent.amount / 100,
-                            customer: paymentIntent.metadata.customerEmail,
-                        },
-                    }
-                );
-
-                break;
-            }
-
-            case 'checkout.session.completed': {
-                const session = event.data.object as Stripe.Checkout.Session & {
-                    shipping_details?: {
-                        name?: string;
-                        address?: Stripe.Address;
-                    };
-                };
-
-                logInfo('Checkout session completed', {
-                    location: 'api/checkout/webhook',
-                    action: 'handleCheckoutSessionCompleted',
-                    metadata: {
-                        sessionId: session.id,
-                        amount: session.amount_total,
-                        customer: session.customer_email,
-                    },
-                });
-
-                // Check for duplicate order using payment_intent_id
-                const supabase = await createServiceRoleClient();
-                const { data: existingOrder } = await supabase
-                    .from('orders')
-                    .select('id')
-                    .eq('payment_intent_id', session.payment_intent as string)
-                    .maybeSingle(); // Use maybeSingle to avoid errors when no order exists
-
-                if (existingOrder) {
-                    logInfo('Order already exists for session', {
-                        location: 'api/checkout/webhook',
-                        action: 'checkDuplicateOrder',
-                        metadata: { sessionId: session.id },
-                    });
-                    break;
-                }
-
-                // Parse metadata
-                const cartItems = JSON.parse(
-                    session.metadata?.cartItems || '[]'
-                );
-
-                // Extract tax from session
-                const taxAmountCents = session.total_details?.amount_tax || 0;
-                const taxAmount = taxAmountCents / 100;
-
-                // Extract shipping cost from session
-                const shippingCostCents =
-                    session.total_details?.amount_shipping || 0;
-                const shippingCost = shippingCostCents / 100;
-
-                // Extract addresses using helper
-                // If shipping address is not provided (customer selected "same as billing"),
-                // fallback to billing address for both shipping and billing
-                const billingAddress = extractAddress(
-                    session.customer_details?.address
-                );
-                const shippingAddress = extractAddress(
-                    session.shipping_details?.address ??
-                        session.customer_details?.address
-                );
-
-                // Calculate totals
-                const amountTotal = (session.amount_total || 0) / 100;
-                const subtotal = amountTotal - taxAmount - shippingCost;
-
-                // Generate order number
-                const orderNumber = generateOrderNumber();
-
-                // Extract customer name with logging for missing data
-                const customerName =
-                    session.shipping_details?.name ||
-                    session.customer_details?.name ||
-                    null;
-
-                if (!customerName) {
-                    logError(
-                        new Error('Missing customer name in checkout session'),
-                        {
-                            location: 'api/checkout/webhook',
-                            action: 'extractCustomerName',
-                            metadata: {
-                                sessionId: session.id,
-                                customerEmail: session.customer_email,
-                                shippingDetailsName:
-                                    session.shipping_details?.name,
-                                customerDetailsName:
-                                    session.customer_details?.name,
-                            },
-                        }
-                    );
-                }
-
-                // Create order with error handling for duplicate key violation
-                const { data: order, error: orderError } = await createOrder({
-                    orderNumber,
-                    customerName:
-                        customerName || `Customer ${session.customer_email}`,
-                    customerEmail:
-                        session.customer_email ||
-                        session.customer_details?.email ||
-                        '',
-                    shippingAddress,
-                    billingAddress,
-                    orderNotes: undefined,
-                    subtotal,
-                    shippingCost,
-                    taxAmount,
-                    total: amountTotal,
-                    paymentIntentId: session.payment_intent as string,
-                    paymentStatus: 'succeeded',
-                    items: cartItems.map(
-                        (item: {
-                            artworkId: string;
-                            quantity: number;
-                            price: number;
-                        }) => ({
-                            artworkId: item.artworkId,
-                            quantity: item.quantity,
-                            priceAtPurchase: item.price,
-                            lineSubtotal: item.price * item.quantity,
-                        })
-                    ),
-                });
-
-                if (orderError) {
-                    // Check if this is a duplicate key error (Postgres error code 23505)
-                    // Supabase returns errors with a code property for database constraint violations
-                    const errorCode = (orderError as { code?: string }).code;
-                    if (
-                        errorCode === '23505' &&
-                        orderError.message.includes('payment_intent_id')
-                    ) {
-                        logInfo('Order already created (concurrent webhook)', {
-                            location: 'api/checkout/webhook',
-                            action: 'handleDuplicateOrder',
-                            metadata: { sessionId: session.id },
-                        });
-                        break; // Exit gracefully
-                    }
-                    logError(orderError, {
-                        location: 'api/checkout/webhook',
-                        action: 'createOrderFromSession',
-                        metadata: { sessionId: session.id },
-                    });
-                } else {
-                    logInfo('Order created from session', {
-                        location: 'api/checkout/webhook',
-                        action: 'createOrderFromSession',
-                        metadata: {
-                            orderId: order?.id,
-                            orderNumber: order?.orderNumber,
-                        },
-                    });
+    const { claimed, error: claimError } = await claimWebhookEvent(event);
 
-                    // Send order confirmation and admin notification emails
-                    // Non-blocking: email failures won't prevent order creation
-                    if (order) {
-                        const emailResults = await sendOrderEmails(order);
-                        if (!emailResults.customer.success) {
-                            logError(
-                                emailResults.customer.error ||
-                                    new Error(
-                                        'Failed to send customer confirmation email'
-                                    ),
-                                {
-                                    location: 'api/checkout/webhook',
-                                    action: 'sendCustomerEmail',
-                                    metadata: { orderId: order.id },
-                                }
-                            );
-                        }
-                        if (!emailResults.admin.success) {
-                            logError(
-                                emailResults.admin.error ||
-                                    new Error(
-                                        'Failed to send admin notification email'
-                                    ),
-                                {
-                                    location: 'api/checkout/webhook',
-                                    action: 'sendAdminEmail',
-                                    metadata: { orderId: order.id },
-                                }
-                            );
-                        }
-                    }
-                }
-
-                break;
-            }
-
-            case 'payment_intent.payment_failed': {
-                const paymentIntent = event.data.object as Stripe.PaymentIntent;
+    if (claimError) {
+        logError(claimError, {
+            location: 'api/checkout/webhook',
+            action: 'claimWebhookEvent',
+            metadata: { eventId: event.id, eventType: event.type },
+        });
 
-                logError(new Error('Payment failed'), {
-                    location: 'api/checkout/webhook',
-                    action: 'handlePaymentIntentFailed',
-                    metadata: {
-                        paymentIntentId: paymentIntent.id,
-                        amount: paymentIntent.amount,
-                        customer: paymentIntent.metadata.customerEmail,
-                        lastPaymentError:
-                            paymentIntent.last_payment_error?.message,
-                    },
-                });
+        return NextResponse.json(createApiErrorResponse('WEBHOOK_ERROR'), {
+            status: 500,
+        });
+    }
 
-                // In production, you might want to:
-                // - Send a failure notification email
-                // - Log to an error tracking service
-                // - Update any pending order record to "failed" status
+    if (!claimed) {
+        logInfo('Webhook event already processed', {
+            location: 'api/checkout/webhook',
+            action: 'claimWebhookEvent',
+            metadata: { eventId: event.id, eventType: event.type },
+        });
 
-                break;
-            }
+        return NextResponse.json({ received: true }, { status: 200 });
+    }
 
-            default:
-                logInfo('Unhandled webhook event type', {
-                    location: 'api/checkout/webhook',
-                    action: 'handleWebhookEvent',
-                    metadata: { eventType: event.type },
-                });
-        }
+    let failure: string | null = null;
 
-        // Always return 200 to Stripe to acknowledge receipt
-        return NextResponse.json({ received: true }, { status: 200 });
+    try {
+        await processStripeEvent(event);
     } catch (error) {
         logError(error, {
             location: 'api/checkout/webhook',
             action: 'processWebhook',
+            metadata: { eventId: event.id, eventType: event.type },
+        });
+        failure = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const { error: completeError } = await completeWebhookEvent(
+        event.id,
+        failure
+    );
+    if (completeError) {
+        logError(completeError, {
+            location: 'api/checkout/webhook',
+            action: 'completeWebhookEvent',
+            metadata: { eventId: event.id },
         });
+    }
 
-        // Still return 200 to Stripe to prevent retries
-        // Log the error for manual investigation
+    if (failure !== null) {
+        // Still return 200 to Stripe to prevent retries: the failure is
+        // recorded on the event, which can be replayed from the admin
         return NextResponse.json(
             { received: true, error: 'Processing failed' },
             { status: 200 }
         );
     }
+
+    // Always return 200 to Stripe to acknowledge receipt
+    return NextResponse.json({ received: true }, { status: 200 });
 }
@@ -0,0 +1,201 @@
+/**
+ * Commission Request API Route
+ *
+ * POST /api/commissions
+ *
+ * Saves a commission request from the /commissions form (multipart, so
+ * reference images can be attached) and notifies the admin by email. The
+ * request then shows up in the admin commission pipeline as 'new'. Requests
+ * are rate limited per IP address, so the form can't be used to flood the
+ * admin inbox and the reference image bucket.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    commissionRequestSchema,
+    MAX_REFERENCE_IMAGES,
+    MAX_REFERENCE_IMAGE_SIZE,
+    REFERENCE_IMAGE_TYPES,
+} from '@/lib/validation/commissions';
+import {
+    createCommission,
+    uploadCommissionReferences,
+} from '@/lib/db/commissions';
+import { consumeRateLimit, type RateLimit } from '@/lib/db/rate-limits';
+import { sendCommissionRequestEmail } from '@/lib/email/send';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+import { getClientIp } from '@/lib/utils/request';
+
+const IP_LIMIT: RateLimit = {
+    scope: 'commission-request-ip',
+    maxAttempts: 5,
+    windowSeconds: 60 * 60,
+};
+
+/**
+ * Reads an optional text field, treating a missing or blank value as absent
+ */
+function getOptionalField(formData: FormData, name: string) {
+    const value = formData.get(name);
+    return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+}
+
+/**
+ * POST handler for commission requests
+ *
+ * Request Body (multipart/form-data):
+ * - name, email, subject, size, style: Required request fields
+ * - budget, deadline, details: Optional request fields
+ * - references: Up to 3 reference images (JPEG, PNG or WebP, 5MB each)
+ *
+ * Response:
+ * - 200: { success: true } (also when the admin email fails to send)
+ * - 400: { error: string, message: string, details?: any } - Validation error
+ * - 429: Too many requests (Retry-After header in seconds)
+ * - 500: { error: string, message: string } - Server error
+ */
+export async function POST(request: NextRequest) {
+    try {
+        // Checked before the body is read, so rejected requests don't upload
+        const { data: allowed, error: rateLimitError } = await consumeRateLimit(
+            IP_LIMIT,
+            getClientIp(request)
+        );
+
+        if (rateLimitError) {
+            logError(rateLimitError, {
+                location: 'api/commissions',
+                action: 'consumeRateLimit',
+                metadata: { scope: IP_LIMIT.scope },
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        if (!allowed) {
+            return NextResponse.json(
+                createApiErrorResponse('RATE_LIMIT_ERROR'),
+                {
+                    status: 429,
+                    headers: {
+                        'Retry-After': String(IP_LIMIT.windowSeconds),
+                    },
+                }
+            );
+        }
+
+        const formData = await request.formData();
+
+        const parsed = commissionRequestSchema.safeParse({
+            name: formData.get('name') ?? '',
+            email: formData.get('email') ?? '',
+            subject: formData.get('subject') ?? '',
+            size: formData.get('size') ?? '',
+            style: formData.get('style') ?? '',
+            budget: getOptionalField(formData, 'budget'),
+            deadline: getOptionalField(formData, 'deadline'),
+            details: getOptionalField(formData, 'details'),
+        });
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                createApiErrorResponse(
+                    'VALIDATION_ERROR',
+                    parsed.error.flatten()
+                ),
+                { status: 400 }
+            );
+        }
+
+        // Browsers send an empty file part when nothing was chosen
+        const references = formData
+            .getAll('references')
+            .filter(
+                (entry): entry is File =>
+                    entry instanceof File && entry.size > 0
+            );
+
+        const invalidReference =
+            references.length > MAX_REFERENCE_IMAGES ||
+            references.some(
+                (file) =>
+                    !REFERENCE_IMAGE_TYPES.includes(file.type) ||
+                    file.size > MAX_REFERENCE_IMAGE_SIZE
+            );
+
+        if (invalidReference) {
+            return NextResponse.json(createApiErrorResponse('UPLOAD_ERROR'), {
+                status: 400,
+            });
+        }
+
+        const { data: paths, error: uploadError } =
+            await uploadCommissionReferences(references);
+
+        if (uploadError || !paths) {
+            logError(uploadError, {
+                location: 'api/commissions',
+                action: 'uploadCommissionReferences',
+                metadata: { count: references.length },
+            });
+
+            return NextResponse.json(createApiErrorResponse('UPLOAD_ERROR'), {
+                status: 500,
+            });
+        }
+
+        const { data: commission, error } = await createCommission({
+            customer_name: parsed.data.name,
+            customer_email: parsed.data.email,
+            subject: parsed.data.subject,
+            size: parsed.data.size,
+            style: parsed.data.style,
+            budget: parsed.data.budget
+                ? parseFloat(parsed.data.budget).toFixed(2)
+                : null,
+            deadline: parsed.data.deadline || null,
+            details: parsed.data.details || null,
+            reference_image_paths: paths,
+        });
+
+        if (error || !commission) {
+            logError(error, {
+                location: 'api/commissions',
+                action: 'createCommission',
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        // The request is saved and visible in the admin even if this fails
+        const emailResult = await sendCommissionRequestEmail(commission);
+        if (!emailResult.success) {
+            logError(
+                emailResult.error ||
+                    new Error('Failed to send commission request email'),
+                {
+                    location: 'api/commissions',
+                    action: 'sendCommissionRequestEmail',
+                    metadata: { commissionId: commission.id },
+                }
+            );
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        logError(error, {
+            location: 'api/commissions',
+            action: 'createCommission',
+        });
+
+        return NextResponse.json(
+            createApiErrorResponse('UNKNOWN_ERROR', error),
+            { status: 500 }
+        );
+    }
+}
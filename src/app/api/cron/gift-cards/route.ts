@@ -0,0 +1,100 @@
+/**
+ * Gift Card Delivery Cron Route
+ *
+ * GET /api/cron/gift-cards
+ *
+ * Emails the codes of gift cards whose delivery date has arrived. Cards
+ * scheduled for the day they're bought are sent by the Stripe webhook; this
+ * picks up the rest (and any the webhook failed to send). Scheduled daily
+ * in vercel.json.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getGiftCardsDueForDelivery,
+    markGiftCardDelivered,
+} from '@/lib/db/gift-cards';
+import { sendGiftCardEmail } from '@/lib/email/send';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError, logInfo } from '@/lib/errors/logger';
+
+/**
+ * GET handler for the delivery cron
+ *
+ * Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`; anything else is
+ * rejected so the route can't be used to resend codes.
+ *
+ * Response:
+ * - 200: { delivered: number, failed: number }
+ * - 401: { error: string, message: string } - Missing or wrong secret
+ * - 500: { error: string, message: string } - Database error
+ */
+export async function GET(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (
+        !cronSecret ||
+        request.headers.get('authorization') !== `Bearer ${cronSecret}`
+    ) {
+        return NextResponse.json(
+            createApiErrorResponse('AUTHORIZATION_ERROR'),
+            {
+                status: 401,
+            }
+        );
+    }
+
+    const { data: giftCards, error } = await getGiftCardsDueForDelivery();
+
+    if (error || !giftCards) {
+        logError(error, {
+            location: 'api/cron/gift-cards',
+            action: 'getGiftCardsDueForDelivery',
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    let delivered = 0;
+    let failed = 0;
+
+    for (const giftCard of giftCards) {
+        const emailResult = await sendGiftCardEmail(giftCard);
+
+        if (!emailResult.success) {
+            // Left undelivered, so tomorrow's run tries again
+            failed++;
+            logError(
+                emailResult.error ||
+                    new Error('Failed to send gift card email'),
+                {
+                    location: 'api/cron/gift-cards',
+                    action: 'sendGiftCardEmail',
+                    metadata: { giftCardId: giftCard.id },
+                }
+            );
+            continue;
+        }
+
+        const { error: markError } = await markGiftCardDelivered(giftCard.id);
+        if (markError) {
+            logError(markError, {
+                location: 'api/cron/gift-cards',
+                action: 'markGiftCardDelivered',
+                metadata: { giftCardId: giftCard.id },
+            });
+        }
+
+        delivered++;
+    }
+
+    logInfo('Gift card deliveries processed', {
+        location: 'api/cron/gift-cards',
+        action: 'deliverGiftCards',
+        metadata: { delivered, failed },
+    });
+
+    return NextResponse.json({ delivered, failed }, { status: 200 });
+}
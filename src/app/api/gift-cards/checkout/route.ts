@@ -0,0 +1,106 @@
+/**
+ * Gift Card Checkout API Route
+ *
+ * POST /api/gift-cards/checkout
+ *
+ * Creates a Stripe Checkout session for a gift card bought in the Shoppe.
+ * The card itself is issued by the Stripe webhook once the session is paid,
+ * from the purchase details carried in the session metadata.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { stripe } from '@/lib/payments/stripe';
+import {
+    GIFT_CARD_PURCHASE_TYPE,
+    giftCardPurchaseSchema,
+} from '@/lib/validation/gift-cards';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * POST handler for gift card purchases
+ *
+ * Request Body:
+ * - amount: One of GIFT_CARD_AMOUNTS (dollars)
+ * - recipientName, recipientEmail: Who receives the code
+ * - senderName, senderEmail: The buyer (receipt and Checkout email)
+ * - message (optional): Personal note included in the gift card email
+ * - deliverOn: Date to email the code (YYYY-MM-DD, today or later)
+ *
+ * Response:
+ * - 200: { url: string } - Stripe Checkout URL to redirect to
+ * - 400: { error: string, message: string, details?: any } - Validation error
+ * - 500: { error: string, message: string } - Server error
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const parsed = giftCardPurchaseSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                createApiErrorResponse(
+                    'VALIDATION_ERROR',
+                    parsed.error.flatten()
+                ),
+                { status: 400 }
+            );
+        }
+
+        const purchase = parsed.data;
+        const baseUrl = process.env.NEXT_PUBLIC_URL || 'http://localhost:3000';
+
+        const session = await stripe.checkout.sessions.create({
+            mode: 'payment',
+            success_url: `${baseUrl}/shoppe/gift-cards?purchased=1`,
+            cancel_url: `${baseUrl}/shoppe/gift-cards`,
+            customer_email: purchase.senderEmail,
+            line_items: [
+                {
+                    price_data: {
+                        currency: 'usd',
+                        product_data: {
+                            name: `Gift Card ($${purchase.amount})`,
+                            description: `For ${purchase.recipientName}, delivered by email`,
+                        },
+                        unit_amount: Math.round(purchase.amount * 100), // Convert to cents
+                    },
+                    quantity: 1,
+                },
+            ],
+            metadata: {
+                purchaseType: GIFT_CARD_PURCHASE_TYPE,
+                giftCardAmount: purchase.amount.toFixed(2),
+                recipientName: purchase.recipientName,
+                recipientEmail: purchase.recipientEmail,
+                senderName: purchase.senderName,
+                message: purchase.message ?? '',
+                deliverOn: purchase.deliverOn,
+            },
+        });
+
+        if (!session.url) {
+            logError(new Error('No checkout URL returned'), {
+                location: 'api/gift-cards/checkout',
+                action: 'createSession',
+                metadata: { sessionId: session.id },
+            });
+
+            return NextResponse.json(createApiErrorResponse('PAYMENT_ERROR'), {
+                status: 500,
+            });
+        }
+
+        return NextResponse.json({ url: session.url }, { status: 200 });
+    } catch (error) {
+        logError(error, {
+            location: 'api/gift-cards/checkout',
+            action: 'createSession',
+        });
+
+        return NextResponse.json(
+            createApiErrorResponse('PAYMENT_ERROR', error),
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * Guest Order Lookup API Route
+ *
+ * POST /api/orders/lookup
+ *
+ * Finds an order by order number plus the email it was placed with, for the
+ * /shoppe/order-status page. Attempts are rate limited per IP address and
+ * per email so order numbers can't be guessed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderByNumberAndEmail } from '@/lib/db/orders';
+import { consumeRateLimit, type RateLimit } from '@/lib/db/rate-limits';
+import { orderLookupSchema } from '@/lib/validation/order-lookup';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+import { getClientIp } from '@/lib/utils/request';
+import type { Order, OrderStatusSummary } from '@/types/order';
+
+const LOOKUP_WINDOW_SECONDS = 15 * 60;
+
+const IP_LIMIT: RateLimit = {
+    scope: 'order-lookup-ip',
+    maxAttempts: 10,
+    windowSeconds: LOOKUP_WINDOW_SECONDS,
+};
+
+const EMAIL_LIMIT: RateLimit = {
+    scope: 'order-lookup-email',
+    maxAttempts: 5,
+    windowSeconds: LOOKUP_WINDOW_SECONDS,
+};
+
+function toOrderStatusSummary(order: Order): OrderStatusSummary {
+    return {
+        orderNumber: order.orderNumber,
+        status: order.status,
+        shipments: order.shipments,
+        isPreorder: order.isPreorder,
+        expectedShipDate: order.expectedShipDate,
+        items: order.items,
+        subtotal: order.subtotal,
+        shippingCost: order.shippingCost,
+        taxAmount: order.taxAmount,
+        discountAmount: order.discountAmount,
+        giftCardAmount: order.giftCardAmount,
+        total: order.total,
+        createdAt: order.createdAt,
+    };
+}
+
+/**
+ * POST handler for guest order lookups
+ *
+ * Request Body:
+ * - orderNumber: Order number from the confirmation email
+ * - email: Email the order was placed with
+ *
+ * Response:
+ * - 200: { order: OrderStatusSummary }
+ * - 400: Validation error
+ * - 404: No order with that number and email
+ * - 429: Too many attempts (Retry-After header in seconds)
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const parsed = orderLookupSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                createApiErrorResponse(
+                    'VALIDATION_ERROR',
+                    parsed.error.flatten()
+                ),
+                { status: 400 }
+            );
+        }
+
+        const { orderNumber, email } = parsed.data;
+
+        // Both limits count every attempt, so the IP and the email each
+        // have a fixed number of guesses per window
+        for (const [limit, identifier] of [
+            [IP_LIMIT, getClientIp(request)],
+            [EMAIL_LIMIT, email],
+        ] as const) {
+            const { data: allowed, error } = await consumeRateLimit(
+                limit,
+                identifier
+            );
+
+            if (error) {
+                logError(error, {
+                    location: 'api/orders/lookup',
+                    action: 'consumeRateLimit',
+                    metadata: { scope: limit.scope },
+                });
+
+                return NextResponse.json(
+                    createApiErrorResponse('DATABASE_ERROR'),
+                    { status: 500 }
+                );
+            }
+
+            if (!allowed) {
+                return NextResponse.json(
+                    createApiErrorResponse('RATE_LIMIT_ERROR'),
+                    {
+                        status: 429,
+                        headers: {
+                            'Retry-After': String(limit.windowSeconds),
+                        },
+                    }
+                );
+            }
+        }
+
+        const { data: order, error } = await getOrderByNumberAndEmail(
+            orderNumber,
+            email
+        );
+
+        if (error) {
+            logError(error, {
+                location: 'api/orders/lookup',
+                action: 'getOrderByNumberAndEmail',
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        if (!order) {
+            return NextResponse.json(createApiErrorResponse('NOT_FOUND'), {
+                status: 404,
+            });
+        }
+
+        return NextResponse.json(
+            { order: toOrderStatusSummary(order) },
+            {
+                status: 200,
+                headers: { 'Cache-Control': 'private, no-store' },
+            }
+        );
+    } catch (error) {
+        logError(error, {
+            location: 'api/orders/lookup',
+            action: 'POST',
+        });
+
+        return NextResponse.json(createApiErrorResponse('UNKNOWN_ERROR'), {
+            status: 500,
+        });
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * Shipping Countries API Route
+ *
+ * GET /api/shipping/countries
+ *
+ * Lists the countries covered by an active shipping zone, for the cart's
+ * "Ship to" selector.
+ */
+
+import { NextResponse } from 'next/server';
+import { getShippingCountries } from '@/lib/db/shipping-zones';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * GET handler for the shipping countries endpoint
+ *
+ * @returns JSON response with `countries` (ISO alpha-2 codes) or error
+ */
+export async function GET() {
+    const { data, error } = await getShippingCountries();
+
+    if (error) {
+        logError(error, {
+            location: 'api/shipping/countries',
+            action: 'getShippingCountries',
+        });
+
+        return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+            status: 500,
+        });
+    }
+
+    return NextResponse.json({ countries: data }, { status: 200 });
+}
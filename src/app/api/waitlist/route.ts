@@ -0,0 +1,80 @@
+/**
+ * Back-in-Stock Waitlist API Route
+ *
+ * POST /api/waitlist
+ *
+ * Records a "notify me" sign-up for a sold-out artwork. The address is
+ * emailed once when an admin restocks the artwork.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { joinWaitlist } from '@/lib/db/waitlist';
+import { createApiErrorResponse } from '@/lib/errors/user-friendly';
+import { logError } from '@/lib/errors/logger';
+
+/**
+ * Waitlist sign-up request schema
+ */
+const WaitlistSchema = z.object({
+    artworkId: z.string().uuid(),
+    email: z.string().trim().email().max(254),
+});
+
+/**
+ * POST handler for waitlist sign-ups
+ *
+ * Request Body:
+ * - artworkId: Sold-out artwork to be notified about
+ * - email: Address to notify
+ *
+ * Response:
+ * - 200: { success: true } (also when the address already signed up)
+ * - 400: { error: string, message: string, details?: any } - Validation error
+ * - 500: { error: string, message: string } - Server error
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const parsed = WaitlistSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                createApiErrorResponse(
+                    'VALIDATION_ERROR',
+                    parsed.error.flatten()
+                ),
+                { status: 400 }
+            );
+        }
+
+        const { error } = await joinWaitlist(
+            parsed.data.artworkId,
+            parsed.data.email
+        );
+
+        if (error) {
+            logError(error, {
+                location: 'api/waitlist',
+                action: 'joinWaitlist',
+                metadata: { artworkId: parsed.data.artworkId },
+            });
+
+            return NextResponse.json(createApiErrorResponse('DATABASE_ERROR'), {
+                status: 500,
+            });
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        logError(error, {
+            location: 'api/waitlist',
+            action: 'joinWaitlist',
+        });
+
+        return NextResponse.json(
+            createApiErrorResponse('UNKNOWN_ERROR', error),
+            { status: 500 }
+        );
+    }
+}
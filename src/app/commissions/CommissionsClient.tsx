@@ -0,0 +1,361 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { siteConfig } from '@/config/site';
+import {
+    commissionRequestSchema,
+    MAX_REFERENCE_IMAGES,
+    MAX_REFERENCE_IMAGE_SIZE,
+    REFERENCE_IMAGE_TYPES,
+} from '@/lib/validation/commissions';
+
+/**
+ * Commissions page - request a custom piece
+ *
+ * Features:
+ * - Black background with white text (matches the contact page)
+ * - Structured request form: subject, size, style, budget, deadline, details
+ * - Up to 3 reference images, checked client-side before upload
+ * - Confirmation message once the request is saved
+ */
+
+type FieldName = keyof typeof commissionRequestSchema.shape | 'references';
+type FormErrors = Partial<Record<FieldName, string>>;
+
+const EMPTY_FORM = {
+    name: '',
+    email: '',
+    subject: '',
+    size: '',
+    style: '',
+    budget: '',
+    deadline: '',
+    details: '',
+};
+
+/**
+ * Checks the chosen reference images against the upload limits
+ */
+function validateReferences(files: File[]): string | undefined {
+    if (files.length > MAX_REFERENCE_IMAGES) {
+        return `Please choose up to ${MAX_REFERENCE_IMAGES} images`;
+    }
+    if (files.some((file) => !REFERENCE_IMAGE_TYPES.includes(file.type))) {
+        return 'Reference images must be JPEG, PNG or WebP';
+    }
+    if (files.some((file) => file.size > MAX_REFERENCE_IMAGE_SIZE)) {
+        return 'Each reference image must be 5MB or smaller';
+    }
+    return undefined;
+}
+
+function inputClassName(hasError: boolean) {
+    return `w-full border-2 rounded px-4 py-2 bg-black text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${hasError ? 'border-red-500 focus:ring-red-500' : 'border-white focus:ring-white'}`;
+}
+
+export default function CommissionsClient() {
+    const [formData, setFormData] = useState(EMPTY_FORM);
+    const [references, setReferences] = useState<File[]>([]);
+    const [submitted, setSubmitted] = useState(false);
+    const [errors, setErrors] = useState<FormErrors>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleChange = (
+        e: React.ChangeEvent<
+            HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+        >
+    ) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+        // Clear error for this field when user starts typing
+        if (errors[name as FieldName]) {
+            setErrors((prev) => ({ ...prev, [name]: undefined }));
+        }
+    };
+
+    const handleReferencesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setReferences(Array.from(e.target.files ?? []));
+        setErrors((prev) => ({ ...prev, references: undefined }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        // Validate form data
+        const result = commissionRequestSchema.safeParse({
+            ...formData,
+            budget: formData.budget || undefined,
+            deadline: formData.deadline || undefined,
+            details: formData.details || undefined,
+        });
+        const referencesError = validateReferences(references);
+
+        if (!result.success || referencesError) {
+            // Convert Zod errors to a simpler format
+            const newErrors: FormErrors = { references: referencesError };
+            result.error?.issues.forEach((issue) => {
+                const path = issue.path[0];
+                if (typeof path === 'string') {
+                    newErrors[path as FieldName] = issue.message;
+                }
+            });
+            setErrors(newErrors);
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const body = new FormData();
+            Object.entries(formData).forEach(([name, value]) =>
+                body.append(name, value)
+            );
+            references.forEach((file) => body.append('references', file));
+
+            const response = await fetch('/api/commissions', {
+                method: 'POST',
+                body,
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to submit commission request');
+            }
+
+            setSubmitted(true);
+            setFormData(EMPTY_FORM);
+            setReferences([]);
+            setErrors({});
+        } catch (err) {
+            console.error('Commission request submission error:', err);
+            setError(
+                `Unable to send your request. Please email ${siteConfig.artist.email} directly.`
+            );
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const errorMessage = (name: FieldName) =>
+        errors[name] && (
+            <p id={`${name}-error`} className="text-red-400 text-sm mt-1">
+                {errors[name]}
+            </p>
+        );
+
+    const fieldProps = (name: keyof typeof EMPTY_FORM) => ({
+        id: name,
+        name,
+        value: formData[name],
+        onChange: handleChange,
+        className: inputClassName(!!errors[name]),
+        'aria-invalid': !!errors[name],
+        'aria-describedby': errors[name] ? `${name}-error` : undefined,
+    });
+
+    return (
+        <div className="bg-black text-white">
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <h1 className="text-5xl font-bold text-center mb-6">
+                    Commission a Piece
+                </h1>
+                <p className="text-lg text-gray-300 text-center mb-12">
+                    Tell me what you have in mind and I&apos;ll email you a
+                    quote. Work starts once the deposit is paid; the balance is
+                    due when your piece is finished.
+                </p>
+
+                <div className="border-2 border-white rounded p-8">
+                    {submitted ? (
+                        <div
+                            role="status"
+                            className="bg-green-500 bg-opacity-20 border-2 border-green-500 text-green-200 px-4 py-3 rounded"
+                        >
+                            <p>
+                                Thank you for your request! I&apos;ll review it
+                                and email you a quote soon.
+                            </p>
+                        </div>
+                    ) : (
+                        <>
+                            {error && (
+                                <div className="bg-red-500 bg-opacity-20 border-2 border-red-500 text-red-200 px-4 py-3 rounded mb-6">
+                                    <p>{error}</p>
+                                </div>
+                            )}
+
+                            <form
+                                onSubmit={handleSubmit}
+                                noValidate
+                                className="space-y-4"
+                            >
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div>
+                                        <label
+                                            htmlFor="name"
+                                            className="block text-sm font-semibold text-white mb-2"
+                                        >
+                                            Name
+                                        </label>
+                                        <input
+                                            type="text"
+                                            placeholder="Your name"
+                                            {...fieldProps('name')}
+                                        />
+                                        {errorMessage('name')}
+                                    </div>
+                                    <div>
+                                        <label
+                                            htmlFor="email"
+                                            className="block text-sm font-semibold text-white mb-2"
+                                        >
+                                            Email
+                                        </label>
+                                        <input
+                                            type="email"
+                                            placeholder="your@email.com"
+                                            {...fieldProps('email')}
+                                        />
+                                        {errorMessage('email')}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label
+                                        htmlFor="subject"
+                                        className="block text-sm font-semibold text-white mb-2"
+                                    >
+                                        Subject
+                                    </label>
+                                    <input
+                                        type="text"
+                                        placeholder="e.g. My dog as a medieval knight"
+                                        {...fieldProps('subject')}
+                                    />
+                                    {errorMessage('subject')}
+                                </div>
+
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div>
+                                        <label
+                                            htmlFor="size"
+                                            className="block text-sm font-semibold text-white mb-2"
+                                        >
+                                            Size
+                                        </label>
+                                        <input
+                                            type="text"
+                                            placeholder='e.g. 11" x 14"'
+                                            {...fieldProps('size')}
+                                        />
+                                        {errorMessage('size')}
+                                    </div>
+                                    <div>
+                                        <label
+                                            htmlFor="style"
+                                            className="block text-sm font-semibold text-white mb-2"
+                                        >
+                                            Style
+                                        </label>
+                                        <input
+                                            type="text"
+                                            placeholder="e.g. Ink and watercolor"
+                                            {...fieldProps('style')}
+                                        />
+                                        {errorMessage('style')}
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div>
+                                        <label
+                                            htmlFor="budget"
+                                            className="block text-sm font-semibold text-white mb-2"
+                                        >
+                                            Budget (USD, optional)
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            placeholder="250"
+                                            {...fieldProps('budget')}
+                                        />
+                                        {errorMessage('budget')}
+                                    </div>
+                                    <div>
+                                        <label
+                                            htmlFor="deadline"
+                                            className="block text-sm font-semibold text-white mb-2"
+                                        >
+                                            Deadline (optional)
+                                        </label>
+                                        <input
+                                            type="date"
+                                            {...fieldProps('deadline')}
+                                        />
+                                        {errorMessage('deadline')}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label
+                                        htmlFor="details"
+                                        className="block text-sm font-semibold text-white mb-2"
+                                    >
+                                        Details (optional)
+                                    </label>
+                                    <textarea
+                                        rows={5}
+                                        placeholder="Anything else I should know: colors, text, who it's for..."
+                                        {...fieldProps('details')}
+                                    />
+                                    {errorMessage('details')}
+                                </div>
+
+                                <div>
+                                    <label
+                                        htmlFor="references"
+                                        className="block text-sm font-semibold text-white mb-2"
+                                    >
+                                        Reference images (optional, up to{' '}
+                                        {MAX_REFERENCE_IMAGES})
+                                    </label>
+                                    <input
+                                        type="file"
+                                        id="references"
+                                        name="references"
+                                        multiple
+                                        accept={REFERENCE_IMAGE_TYPES.join(',')}
+                                        onChange={handleReferencesChange}
+                                        aria-invalid={!!errors.references}
+                                        aria-describedby={
+                                            errors.references
+                                                ? 'references-error'
+                                                : undefined
+                                        }
+                                        className="block w-full text-sm text-gray-300"
+                                    />
+                                    {errorMessage('references')}
+                                </div>
+
+                                <Button
+                                    type="submit"
+                                    variant="primary-dark"
+                                    className="w-full"
+                                    disabled={isSubmitting}
+                                >
+                                    {isSubmitting
+                                        ? 'Sending...'
+                                        : 'Request a Quote'}
+                                </Button>
+                            </form>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
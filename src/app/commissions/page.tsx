@@ -0,0 +1,41 @@
+import type { Metadata } from 'next';
+import { siteConfig } from '@/config/site';
+import { StructuredData } from '@/components/seo/StructuredData';
+import { getWebPageSchema } from '@/lib/seo/structured-data';
+import CommissionsClient from './CommissionsClient';
+
+/**
+ * Commissions page
+ *
+ * Server component wrapper that provides SEO metadata
+ * and renders the client-side commission request form
+ */
+
+export const metadata: Metadata = {
+    title: `Commission ${siteConfig.artist.name}`,
+    description: `Request a custom piece from ${siteConfig.artist.name}. Tell us the subject, size, style, budget and deadline and you'll receive a quote by email.`,
+    openGraph: {
+        title: `Commission ${siteConfig.artist.name} - ${siteConfig.site.title}`,
+        description: `Request a custom piece from ${siteConfig.artist.name}`,
+        url: `${siteConfig.site.url}/commissions`,
+        type: 'website',
+    },
+};
+
+// ISR revalidation: the form is static
+export const revalidate = 86400; // 24 hours
+
+export default function CommissionsPage() {
+    return (
+        <>
+            <StructuredData
+                data={getWebPageSchema({
+                    name: `Commission ${siteConfig.artist.name}`,
+                    description: `Request a custom piece from ${siteConfig.artist.name}`,
+                    url: `${siteConfig.site.url}/commissions`,
+                })}
+            />
+            <CommissionsClient />
+        </>
+    );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { Button } from '@/components/ui/Button';
 import { siteConfig } from '@/config/site';
 import { useState } from 'react';
@@ -336,6 +337,15 @@ export default function ContactClient() {
                         <p className="text-sm text-gray-400 mt-4">
                             I typically respond within 1-2 business days.
                         </p>
+                        <p className="text-sm text-gray-400 mt-2">
+                            Looking for a custom piece?{' '}
+                            <Link
+                                href="/commissions"
+                                className="text-blue-400 hover:text-blue-300"
+                            >
+                                Request a commission quote
+                            </Link>
+                        </p>
                     </div>
                 </div>
             </div>
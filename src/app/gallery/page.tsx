@@ -1,10 +1,16 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import type { Metadata } from 'next';
-import { getAllArtwork } from '@/lib/db/artwork';
+import { getArtworkFacets, getFilteredArtwork } from '@/lib/db/artwork';
 import { siteConfig } from '@/config/site';
 import { StructuredData } from '@/components/seo/StructuredData';
 import { getWebPageSchema } from '@/lib/seo/structured-data';
+import { ArtworkFilters } from '@/components/ui/ArtworkFilters';
+import {
+    hasActiveArtworkFilters,
+    parseArtworkFilters,
+    type SearchParamsRecord,
+} from '@/lib/validation/artwork-filters';
 
 /**
  * Gallery page - Display all published artwork in a grid
@@ -13,6 +19,7 @@ import { getWebPageSchema } from '@/lib/seo/structured-data';
  * - White background with black text
  * - Responsive grid layout
  * - Clickable artwork cards linking to detail pages
+ * - Filters and sort order from the URL (shareable, crawlable views)
  * - Server-side rendering for SSG/ISR benefits
  */
 
@@ -43,8 +50,16 @@ export const metadata: Metadata = {
     },
 };
 
-export default async function GalleryPage() {
-    const { data: artwork, error } = await getAllArtwork();
+export default async function GalleryPage({
+    searchParams,
+}: {
+    searchParams: Promise<SearchParamsRecord>;
+}) {
+    const filters = parseArtworkFilters(await searchParams);
+    const [{ data: artwork, error }, { data: facets }] = await Promise.all([
+        getFilteredArtwork(filters),
+        getArtworkFacets(),
+    ]);
 
     return (
         <div className="bg-white text-black">
@@ -67,10 +82,21 @@ export default async function GalleryPage() {
                     </div>
                 )}
 
+                {facets && (
+                    <ArtworkFilters
+                        basePath="/gallery"
+                        filters={filters}
+                        facets={facets}
+                        resultCount={artwork?.length ?? 0}
+                    />
+                )}
+
                 {!artwork || artwork.length === 0 ? (
                     <div className="text-center py-16">
                         <p className="text-xl text-gray-600">
-                            Artwork is on its way!
+                            {hasActiveArtworkFilters(filters)
+                                ? 'No artwork matches these filters.'
+                                : 'Artwork is on its way!'}
                         </p>
                     </div>
                 ) : (
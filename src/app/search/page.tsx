@@ -0,0 +1,158 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import {
+    SEARCH_RESULT_LABELS,
+    searchSite,
+    type SearchResult,
+} from '@/lib/db/search';
+import { HighlightedSnippet } from '@/components/ui/HighlightedSnippet';
+import {
+    MAX_SEARCH_QUERY_LENGTH,
+    MIN_SEARCH_QUERY_LENGTH,
+    isSearchableQuery,
+    parseSearchQuery,
+} from '@/lib/validation/search';
+import type { SearchParamsRecord } from '@/lib/validation/artwork-filters';
+
+/**
+ * Search page - Full-text search over published artwork, projects and events
+ *
+ * Features:
+ * - Query from the `q` param (the header search box submits here)
+ * - Results ranked by relevance, labelled by type
+ * - Matched words highlighted in each snippet
+ */
+
+export const metadata: Metadata = {
+    title: 'Search',
+    description: 'Search artwork, projects and events.',
+    robots: { index: false, follow: true },
+};
+
+/**
+ * Where a result lives on the public site. Projects and events don't have
+ * detail pages; both are listed on In The Works.
+ */
+function resultHref(result: SearchResult): string {
+    return result.result_type === 'artwork'
+        ? `/gallery/${result.slug}`
+        : '/in-the-works';
+}
+
+export default async function SearchPage({
+    searchParams,
+}: {
+    searchParams: Promise<SearchParamsRecord>;
+}) {
+    const query = parseSearchQuery((await searchParams).q);
+    const { data: results, error } = isSearchableQuery(query)
+        ? await searchSite(query)
+        : { data: null, error: null };
+
+    return (
+        <div className="bg-white text-black">
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <h1 className="text-5xl font-bold text-center mb-8">Search</h1>
+
+                <form
+                    action="/search"
+                    method="get"
+                    role="search"
+                    className="flex gap-2 mb-12"
+                >
+                    <label htmlFor="search-page-query" className="sr-only">
+                        Search artwork, projects and events
+                    </label>
+                    <input
+                        id="search-page-query"
+                        type="search"
+                        name="q"
+                        defaultValue={query}
+                        maxLength={MAX_SEARCH_QUERY_LENGTH}
+                        placeholder="Search artwork, projects and events"
+                        className="flex-1 border-2 border-black rounded px-3 py-2 bg-white text-black"
+                    />
+                    <button
+                        type="submit"
+                        className="px-4 py-2 bg-black text-white rounded font-semibold hover:bg-gray-800"
+                    >
+                        Search
+                    </button>
+                </form>
+
+                {error && (
+                    <div className="bg-red-100 border-2 border-red-500 text-red-700 px-4 py-3 rounded mb-8">
+                        <p>Error searching: {error.message}</p>
+                    </div>
+                )}
+
+                {query && !isSearchableQuery(query) && (
+                    <p className="text-center text-gray-600">
+                        Enter at least {MIN_SEARCH_QUERY_LENGTH} characters to
+                        search.
+                    </p>
+                )}
+
+                {results && results.length === 0 && (
+                    <p className="text-center text-xl text-gray-600">
+                        Nothing matches &ldquo;{query}&rdquo;.
+                    </p>
+                )}
+
+                {results && results.length > 0 && (
+                    <section aria-labelledby="search-results-heading">
+                        <h2
+                            id="search-results-heading"
+                            className="text-sm text-gray-600 mb-6"
+                        >
+                            {results.length}{' '}
+                            {results.length === 1 ? 'result' : 'results'} for
+                            &ldquo;{query}&rdquo;
+                        </h2>
+                        <ol className="space-y-6">
+                            {results.map((result) => (
+                                <li key={`${result.result_type}-${result.id}`}>
+                                    <Link
+                                        href={resultHref(result)}
+                                        className="group flex gap-4"
+                                    >
+                                        <div className="relative w-20 h-20 flex-shrink-0 overflow-hidden rounded border-2 border-black bg-gray-100">
+                                            {result.image_url && (
+                                                <Image
+                                                    src={result.image_url}
+                                                    alt=""
+                                                    fill
+                                                    sizes="80px"
+                                                    className="object-cover"
+                                                />
+                                            )}
+                                        </div>
+                                        <div className="min-w-0">
+                                            <span className="inline-block px-2 text-xs font-semibold uppercase tracking-wide border border-black rounded-full mb-1">
+                                                {
+                                                    SEARCH_RESULT_LABELS[
+                                                        result.result_type
+                                                    ]
+                                                }
+                                            </span>
+                                            <h3 className="text-xl font-bold group-hover:underline">
+                                                {result.title}
+                                            </h3>
+                                            {result.snippet && (
+                                                <HighlightedSnippet
+                                                    snippet={result.snippet}
+                                                    className="text-gray-600 text-sm line-clamp-2"
+                                                />
+                                            )}
+                                        </div>
+                                    </Link>
+                                </li>
+                            ))}
+                        </ol>
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,14 +1,47 @@
+'use client';
+
 /**
  * ShoppeDetailClient Component
  *
  * Client-side interactive component for Shoppe detail page.
- * Wraps the shared ArtworkDetailClient component with Shoppe-specific exports.
- *
- * This is a thin wrapper that delegates to the shared ArtworkDetailClient
- * component to avoid code duplication with GalleryDetailClient.
+ * Wraps the shared ArtworkDetailClient component (image display and lightbox,
+ * shared with GalleryDetailClient) and adds the back-in-stock sign-up for
+ * sold-out products.
  */
 
 import { ArtworkDetailClient } from '@/components/ui/ArtworkDetailClient';
+import { BackInStockForm } from '@/components/shoppe/BackInStockForm';
+import type { Database } from '@/types/database';
+
+type ArtworkRow = Database['public']['Tables']['artwork']['Row'];
+
+interface ShoppeDetailClientProps {
+    /** The artwork record to display with image URLs and metadata */
+    artwork: ArtworkRow;
+    /**
+     * Whether to offer the "notify me" waitlist. Only for listings stocked by
+     * the artwork itself (restocks notify through the artwork's
+     * inventory_count, not its variants).
+     */
+    soldOut?: boolean;
+}
 
-// Re-export the shared component with Shoppe-specific name for backwards compatibility
-export { ArtworkDetailClient as ShoppeDetailClient };
+/**
+ * Shoppe artwork detail with click-to-enlarge image and, when sold out, a
+ * back-in-stock email capture below the image.
+ *
+ * @param props - Component props
+ * @param props.artwork - The artwork record to display
+ * @param props.soldOut - Show the back-in-stock sign-up
+ */
+export function ShoppeDetailClient({
+    artwork,
+    soldOut = false,
+}: ShoppeDetailClientProps) {
+    return (
+        <div>
+            <ArtworkDetailClient artwork={artwork} />
+            {soldOut && <BackInStockForm artworkId={artwork.id} />}
+        </div>
+    );
+}
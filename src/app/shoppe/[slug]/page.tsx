@@ -2,6 +2,11 @@ import Link from 'next/link';
 import type { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import { getArtworkBySlug, getAllArtworkSlugs } from '@/lib/db/artwork';
+import { getVariantsByArtworkId } from '@/lib/db/variants';
+import { getHeldInventory } from '@/lib/db/inventory-holds';
+import { getProjectById } from '@/lib/db/projects';
+import { getAvailableQuantity } from '@/lib/cart/inventory';
+import { formatExpectedShipDate, getCartPreorder } from '@/lib/cart/preorders';
 import { siteConfig } from '@/config/site';
 import { StructuredData } from '@/components/seo/StructuredData';
 import { getWebPageSchema, getProductSchema } from '@/lib/seo/structured-data';
@@ -16,8 +21,11 @@ import type { Database } from '@/types/database';
  * - Large image display with lightbox
  * - Full description
  * - E-commerce metadata (price, inventory, SKU)
+ * - Print size / framing options when the artwork has variants
  * - Artwork metadata (medium, dimensions, year, tags)
  * - Add to Cart functionality
+ * - Pre-order notice with expected ship date for In The Works artwork
+ * - Back-in-stock email sign-up for sold-out items
  * - Back link to shoppe
  * - Responsive design
  * - Server-side rendering with static generation
@@ -140,8 +148,48 @@ export default async function ShoppeDetailPage({
 
     const imageUrl = getArtworkImageUrl(artwork);
 
+    const [{ data: variantRows }, { data: holds }, { data: project }] =
+        await Promise.all([
+            getVariantsByArtworkId(artwork.id),
+            getHeldInventory([artwork.id]),
+            artwork.project_id
+                ? getProjectById(artwork.project_id)
+                : Promise.resolve({ data: null }),
+        ]);
+
+    // Artwork from a planning/active In The Works project sells as a pre-order
+    const preorder = getCartPreorder(project);
+
+    // Stock net of items held in open checkouts
+    const variants = (variantRows || []).map((variant) => ({
+        id: variant.id,
+        name: variant.name,
+        price: variant.price,
+        inventoryCount: getAvailableQuantity(
+            variant.inventory_count,
+            holds ?? [],
+            artwork.id,
+            variant.id
+        ),
+    }));
+    const artworkAvailable = getAvailableQuantity(
+        artwork.inventory_count,
+        holds ?? [],
+        artwork.id
+    );
+    const hasVariants = variants.length > 0;
+
+    // Multi-option listings are priced and stocked by their variants
+    const displayPrice = hasVariants
+        ? Math.min(...variants.map((v) => parseFloat(v.price))).toFixed(2)
+        : artwork.price;
+    const stockCount = hasVariants
+        ? variants.reduce((sum, v) => sum + v.inventoryCount, 0)
+        : artworkAvailable;
+
     // Determine availability status for structured data
-    const availability = artwork.inventory_count > 0 ? 'InStock' : 'OutOfStock';
+    const availability =
+        stockCount === 0 ? 'OutOfStock' : preorder ? 'PreOrder' : 'InStock';
 
     return (
         <div className="bg-white text-black">
@@ -160,7 +208,7 @@ export default async function ShoppeDetailPage({
                             artwork.description ||
                             `Shop ${artwork.title} by ${siteConfig.artist.name}`,
                         image: imageUrl,
-                        price: parseFloat(artwork.price),
+                        price: parseFloat(displayPrice),
                         availability,
                         url: `${siteConfig.site.url}/shoppe/${slug}`,
                         sku: artwork.sku || undefined,
@@ -176,8 +224,11 @@ export default async function ShoppeDetailPage({
                 </Link>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-[minmax(auto,800px)_1fr] gap-12">
-                    {/* Image with Lightbox (Client Component) */}
-                    <ShoppeDetailClient artwork={artwork} />
+                    {/* Image with Lightbox and waitlist (Client Component) */}
+                    <ShoppeDetailClient
+                        artwork={artwork}
+                        soldOut={!hasVariants && artwork.inventory_count === 0}
+                    />
 
                     {/* Details */}
                     <div>
@@ -195,24 +246,41 @@ export default async function ShoppeDetailPage({
                         <div className="border-t border-gray-300 pt-6 mb-8">
                             <div className="mb-4">
                                 <p className="text-3xl font-bold">
-                                    ${artwork.price}
+                                    {hasVariants && 'From '}${displayPrice}
                                 </p>
-                                {artwork.original_price && (
+                                {artwork.original_price && !hasVariants && (
                                     <p className="text-gray-500 line-through">
                                         ${artwork.original_price}
                                     </p>
                                 )}
                             </div>
 
-                            {artwork.inventory_count < 5 &&
-                                artwork.inventory_count > 0 && (
-                                    <p className="text-red-600 font-semibold mb-4">
-                                        Only {artwork.inventory_count} left in
-                                        stock
+                            {preorder && (
+                                <div className="bg-yellow-100 border-2 border-yellow-600 text-yellow-900 px-4 py-3 rounded mb-4">
+                                    <p className="font-bold">Pre-order</p>
+                                    <p>
+                                        Part of{' '}
+                                        <Link
+                                            href="/in-the-works"
+                                            className="underline"
+                                        >
+                                            {preorder.projectTitle}
+                                        </Link>
+                                        . Expected to ship:{' '}
+                                        {formatExpectedShipDate(
+                                            preorder.expectedShipDate
+                                        )}
                                     </p>
-                                )}
+                                </div>
+                            )}
+
+                            {stockCount < 5 && stockCount > 0 && (
+                                <p className="text-red-600 font-semibold mb-4">
+                                    Only {stockCount} left in stock
+                                </p>
+                            )}
 
-                            {artwork.inventory_count === 0 && (
+                            {stockCount === 0 && (
                                 <p className="text-red-600 font-bold mb-4">
                                     Out of Stock
                                 </p>
@@ -233,7 +301,9 @@ export default async function ShoppeDetailPage({
                                 imageUrl={
                                     artwork.image_thumbnail_url || undefined
                                 }
-                                maxQuantity={artwork.inventory_count}
+                                maxQuantity={artworkAvailable}
+                                variants={hasVariants ? variants : undefined}
+                                isPreorder={Boolean(preorder)}
                             />
                         </div>
 
@@ -6,12 +6,39 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useCart } from '@/hooks/useCart';
+import { siteConfig } from '@/config/site';
 import { CartItem } from '@/components/cart/CartItem';
 import { CartSummary } from '@/components/cart/CartSummary';
 
+/**
+ * Releases the stock held for a Checkout session the customer backed out of
+ * (Stripe's cancel URL carries the reservation ID)
+ */
+function releaseAbandonedReservation() {
+    const params = new URLSearchParams(window.location.search);
+    const reservationId = params.get('reservation');
+    if (!reservationId) {
+        return;
+    }
+
+    fetch(`/api/checkout/reservations/${reservationId}`, {
+        method: 'DELETE',
+    }).catch(() => {
+        // Non-blocking: the holds lapse with the session anyway
+    });
+
+    params.delete('reservation');
+    const query = params.toString();
+    window.history.replaceState(
+        null,
+        '',
+        `${window.location.pathname}${query ? `?${query}` : ''}`
+    );
+}
+
 /**
  * CartPage displays the shopping cart and allows cart management.
  *
@@ -21,6 +48,7 @@ import { CartSummary } from '@/components/cart/CartSummary';
  * - Cart summary with totals
  * - Proceed to checkout button
  * - Continue shopping link
+ * - Releases held stock when returning from an abandoned Stripe Checkout
  * - Responsive layout
  *
  * @example
@@ -31,6 +59,10 @@ export default function CartPage() {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    useEffect(() => {
+        releaseAbandonedReservation();
+    }, []);
+
     const handleCheckout = async () => {
         setIsLoading(true);
         setError(null);
@@ -41,6 +73,11 @@ export default function CartPage() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     items: cart.items,
+                    couponCode: cart.couponCode,
+                    giftCardCodes: cart.giftCardCodes,
+                    shippingCountry:
+                        cart.shippingCountry ??
+                        siteConfig.shipping.default_country,
                 }),
             });
 
@@ -99,7 +136,10 @@ export default function CartPage() {
                     {/* Cart Items */}
                     <div className="lg:col-span-2 space-y-4">
                         {cart.items.map((item) => (
-                            <CartItem key={item.artworkId} item={item} />
+                            <CartItem
+                                key={`${item.artworkId}:${item.variantId ?? ''}`}
+                                item={item}
+                            />
                         ))}
                     </div>
 
@@ -34,6 +34,7 @@
 import { useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
+import { TrackingNumbers } from '@/components/shoppe/TrackingNumbers';
 import { useCart } from '@/hooks/useCart';
 import { useOrderPolling } from '@/hooks/useOrderPolling';
 
@@ -52,7 +53,7 @@ import { useOrderPolling } from '@/hooks/useOrderPolling';
  *
  * **States:**
  * - loading=true: Polling in progress, show loading message
- * - order found: Display order number
+ * - order found: Display order number, with tracking links once it has shipped
  * - error (not_found): Show message suggesting user check email
  * - error (api_error): Show message that payment was successful but details unavailable
  *
@@ -108,6 +109,10 @@ function CheckoutSuccessContent() {
                         <p className="text-3xl font-mono text-center text-black">
                             {orderNumber}
                         </p>
+                        <TrackingNumbers
+                            shipments={order?.shipments ?? []}
+                            className="mt-4 text-black"
+                        />
                     </div>
                 ) : error ? (
                     <div className="bg-yellow-50 border-2 border-yellow-400 rounded-lg p-6 mb-8">
@@ -130,7 +135,15 @@ function CheckoutSuccessContent() {
                             shortly
                         </li>
                         <li>✅ We&apos;ll notify you when your order ships</li>
-                        <li>✅ Track your order status in your email</li>
+                        <li>
+                            ✅ Track your order status anytime on the{' '}
+                            <Link
+                                href="/shoppe/order-status"
+                                className="underline"
+                            >
+                                order status page
+                            </Link>
+                        </li>
                     </ul>
                 </div>
 
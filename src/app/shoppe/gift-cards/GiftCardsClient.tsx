@@ -0,0 +1,308 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { formatCurrency } from '@/lib/utils/currency';
+import {
+    GIFT_CARD_AMOUNTS,
+    getTodayDate,
+    giftCardPurchaseSchema,
+} from '@/lib/validation/gift-cards';
+
+/**
+ * Gift cards page - buy a gift card for someone
+ *
+ * Features:
+ * - White background with black text (matches the Shoppe)
+ * - Fixed amounts to choose from
+ * - Recipient, sender, optional message and delivery date
+ * - Redirects to Stripe Checkout; the code is emailed on the delivery date
+ * - Confirmation message when Checkout returns after payment
+ */
+
+type FieldName = keyof typeof giftCardPurchaseSchema.shape;
+type FormErrors = Partial<Record<FieldName, string>>;
+
+const EMPTY_FORM = {
+    recipientName: '',
+    recipientEmail: '',
+    senderName: '',
+    senderEmail: '',
+    message: '',
+};
+
+function inputClassName(hasError: boolean) {
+    return `w-full border-2 rounded px-4 py-2 bg-white text-black placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${hasError ? 'border-red-500 focus:ring-red-500' : 'border-black focus:ring-black'}`;
+}
+
+export interface GiftCardsClientProps {
+    purchased?: boolean;
+}
+
+export default function GiftCardsClient({
+    purchased = false,
+}: GiftCardsClientProps) {
+    const [amount, setAmount] = useState<number>(GIFT_CARD_AMOUNTS[1]);
+    const [formData, setFormData] = useState(EMPTY_FORM);
+    const [deliverOn, setDeliverOn] = useState(getTodayDate);
+    const [errors, setErrors] = useState<FormErrors>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleChange = (
+        e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    ) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+        // Clear error for this field when user starts typing
+        if (errors[name as FieldName]) {
+            setErrors((prev) => ({ ...prev, [name]: undefined }));
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const purchase = {
+            ...formData,
+            amount,
+            deliverOn,
+            message: formData.message || undefined,
+        };
+        const result = giftCardPurchaseSchema.safeParse(purchase);
+
+        if (!result.success) {
+            // Convert Zod errors to a simpler format
+            const newErrors: FormErrors = {};
+            result.error.issues.forEach((issue) => {
+                const path = issue.path[0];
+                if (typeof path === 'string') {
+                    newErrors[path as FieldName] = issue.message;
+                }
+            });
+            setErrors(newErrors);
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/gift-cards/checkout', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(result.data),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to create checkout session');
+            }
+
+            const { url } = await response.json();
+
+            // Redirect to Stripe Checkout
+            window.location.href = url;
+        } catch (err) {
+            console.error('Gift card checkout error:', err);
+            setError('Unable to start checkout. Please try again.');
+            setIsSubmitting(false);
+        }
+    };
+
+    const errorMessage = (name: FieldName) =>
+        errors[name] && (
+            <p id={`${name}-error`} className="text-red-600 text-sm mt-1">
+                {errors[name]}
+            </p>
+        );
+
+    const fieldProps = (name: keyof typeof EMPTY_FORM) => ({
+        id: name,
+        name,
+        value: formData[name],
+        onChange: handleChange,
+        className: inputClassName(!!errors[name]),
+        'aria-invalid': !!errors[name],
+        'aria-describedby': errors[name] ? `${name}-error` : undefined,
+    });
+
+    return (
+        <div className="bg-white text-black">
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <h1 className="text-5xl font-bold text-center mb-6">
+                    Gift Cards
+                </h1>
+                <p className="text-lg text-gray-600 text-center mb-12">
+                    Let someone pick their own favorite. The gift card code is
+                    emailed to them on the day you choose, and can be spent in
+                    the Shoppe in one go or over several orders.
+                </p>
+
+                {purchased && (
+                    <div
+                        role="status"
+                        className="bg-green-100 border-2 border-green-500 text-green-800 px-4 py-3 rounded mb-8"
+                    >
+                        <p>
+                            Thank you! Your gift card is on its way. The
+                            recipient will get their code by email on the
+                            delivery date.
+                        </p>
+                    </div>
+                )}
+
+                <div className="border-2 border-black rounded p-8">
+                    {error && (
+                        <div className="bg-red-100 border-2 border-red-500 text-red-700 px-4 py-3 rounded mb-6">
+                            <p>{error}</p>
+                        </div>
+                    )}
+
+                    <form
+                        onSubmit={handleSubmit}
+                        noValidate
+                        className="space-y-4"
+                    >
+                        <fieldset>
+                            <legend className="block text-sm font-semibold mb-2">
+                                Amount
+                            </legend>
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                {GIFT_CARD_AMOUNTS.map((option) => (
+                                    <button
+                                        key={option}
+                                        type="button"
+                                        onClick={() => setAmount(option)}
+                                        aria-pressed={amount === option}
+                                        className={`border-2 border-black rounded px-4 py-2 font-semibold transition-colors ${amount === option ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-100'}`}
+                                    >
+                                        {formatCurrency(option)}
+                                    </button>
+                                ))}
+                            </div>
+                            {errorMessage('amount')}
+                        </fieldset>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div>
+                                <label
+                                    htmlFor="recipientName"
+                                    className="block text-sm font-semibold mb-2"
+                                >
+                                    Recipient&apos;s name
+                                </label>
+                                <input
+                                    type="text"
+                                    placeholder="Their name"
+                                    {...fieldProps('recipientName')}
+                                />
+                                {errorMessage('recipientName')}
+                            </div>
+                            <div>
+                                <label
+                                    htmlFor="recipientEmail"
+                                    className="block text-sm font-semibold mb-2"
+                                >
+                                    Recipient&apos;s email
+                                </label>
+                                <input
+                                    type="email"
+                                    placeholder="their@email.com"
+                                    {...fieldProps('recipientEmail')}
+                                />
+                                {errorMessage('recipientEmail')}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div>
+                                <label
+                                    htmlFor="senderName"
+                                    className="block text-sm font-semibold mb-2"
+                                >
+                                    Your name
+                                </label>
+                                <input
+                                    type="text"
+                                    placeholder="Your name"
+                                    {...fieldProps('senderName')}
+                                />
+                                {errorMessage('senderName')}
+                            </div>
+                            <div>
+                                <label
+                                    htmlFor="senderEmail"
+                                    className="block text-sm font-semibold mb-2"
+                                >
+                                    Your email
+                                </label>
+                                <input
+                                    type="email"
+                                    placeholder="your@email.com"
+                                    {...fieldProps('senderEmail')}
+                                />
+                                {errorMessage('senderEmail')}
+                            </div>
+                        </div>
+
+                        <div>
+                            <label
+                                htmlFor="message"
+                                className="block text-sm font-semibold mb-2"
+                            >
+                                Message (optional)
+                            </label>
+                            <textarea
+                                rows={3}
+                                placeholder="Happy birthday!"
+                                {...fieldProps('message')}
+                            />
+                            {errorMessage('message')}
+                        </div>
+
+                        <div>
+                            <label
+                                htmlFor="deliverOn"
+                                className="block text-sm font-semibold mb-2"
+                            >
+                                Delivery date
+                            </label>
+                            <input
+                                type="date"
+                                id="deliverOn"
+                                name="deliverOn"
+                                min={getTodayDate()}
+                                value={deliverOn}
+                                onChange={(e) => {
+                                    setDeliverOn(e.target.value);
+                                    setErrors((prev) => ({
+                                        ...prev,
+                                        deliverOn: undefined,
+                                    }));
+                                }}
+                                className={inputClassName(!!errors.deliverOn)}
+                                aria-invalid={!!errors.deliverOn}
+                                aria-describedby={
+                                    errors.deliverOn
+                                        ? 'deliverOn-error'
+                                        : undefined
+                                }
+                            />
+                            {errorMessage('deliverOn')}
+                        </div>
+
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isSubmitting}
+                        >
+                            {isSubmitting
+                                ? 'Redirecting to checkout...'
+                                : `Buy ${formatCurrency(amount)} Gift Card`}
+                        </Button>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+}
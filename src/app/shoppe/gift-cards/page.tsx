@@ -0,0 +1,45 @@
+import type { Metadata } from 'next';
+import { siteConfig } from '@/config/site';
+import { StructuredData } from '@/components/seo/StructuredData';
+import { getWebPageSchema } from '@/lib/seo/structured-data';
+import GiftCardsClient from './GiftCardsClient';
+
+/**
+ * Gift cards page
+ *
+ * Server component wrapper that provides SEO metadata
+ * and renders the client-side gift card purchase form. Stripe Checkout
+ * returns here with ?purchased=1 after a successful purchase.
+ */
+
+export const metadata: Metadata = {
+    title: 'Gift Cards',
+    description: `Give a ${siteConfig.site.title} gift card, emailed to the recipient on the date you choose and redeemable in the Shoppe.`,
+    openGraph: {
+        title: `Gift Cards - ${siteConfig.site.title}`,
+        description: `Give a ${siteConfig.site.title} gift card`,
+        url: `${siteConfig.site.url}/shoppe/gift-cards`,
+        type: 'website',
+    },
+};
+
+export default async function GiftCardsPage({
+    searchParams,
+}: {
+    searchParams: Promise<{ purchased?: string }>;
+}) {
+    const { purchased } = await searchParams;
+
+    return (
+        <>
+            <StructuredData
+                data={getWebPageSchema({
+                    name: 'Gift Cards',
+                    description: `Give a ${siteConfig.site.title} gift card`,
+                    url: `${siteConfig.site.url}/shoppe/gift-cards`,
+                })}
+            />
+            <GiftCardsClient purchased={purchased === '1'} />
+        </>
+    );
+}
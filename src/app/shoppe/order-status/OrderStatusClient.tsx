@@ -0,0 +1,326 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { TrackingNumbers } from '@/components/shoppe/TrackingNumbers';
+import { Button } from '@/components/ui/Button';
+import { formatExpectedShipDate } from '@/lib/cart/preorders';
+import { formatCurrency } from '@/lib/utils/currency';
+import { formatEditionNumbers } from '@/lib/utils/editions';
+import { ORDER_STATUS_DETAILS } from '@/lib/utils/order-status';
+import { orderLookupSchema } from '@/lib/validation/order-lookup';
+import type { OrderStatusSummary } from '@/types/order';
+
+/**
+ * Order status page - look up an order without the confirmation email
+ *
+ * Features:
+ * - White background with black text (matches the Shoppe)
+ * - Order number plus email; a mismatch reads the same as an unknown order
+ * - Shows the items, totals, current status and tracking number
+ * - Friendly message when the lookup is rate limited
+ */
+
+type FieldName = keyof typeof orderLookupSchema.shape;
+type FormErrors = Partial<Record<FieldName, string>>;
+
+const EMPTY_FORM = { orderNumber: '', email: '' };
+
+function inputClassName(hasError: boolean) {
+    return `w-full border-2 rounded px-4 py-2 bg-white text-black placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${hasError ? 'border-red-500 focus:ring-red-500' : 'border-black focus:ring-black'}`;
+}
+
+function lookupErrorMessage(status: number): string {
+    switch (status) {
+        case 404:
+            return "We couldn't find an order with that order number and email. Please check both and try again.";
+        case 429:
+            return 'Too many lookups. Please wait 15 minutes and try again.';
+        default:
+            return 'Unable to look up your order right now. Please try again.';
+    }
+}
+
+export default function OrderStatusClient() {
+    const [formData, setFormData] = useState(EMPTY_FORM);
+    const [errors, setErrors] = useState<FormErrors>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [order, setOrder] = useState<OrderStatusSummary | null>(null);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+        // Clear error for this field when user starts typing
+        if (errors[name as FieldName]) {
+            setErrors((prev) => ({ ...prev, [name]: undefined }));
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const result = orderLookupSchema.safeParse(formData);
+
+        if (!result.success) {
+            // Convert Zod errors to a simpler format
+            const newErrors: FormErrors = {};
+            result.error.issues.forEach((issue) => {
+                const path = issue.path[0];
+                if (typeof path === 'string') {
+                    newErrors[path as FieldName] = issue.message;
+                }
+            });
+            setErrors(newErrors);
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+        setOrder(null);
+
+        try {
+            const response = await fetch('/api/orders/lookup', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(result.data),
+            });
+
+            if (!response.ok) {
+                setError(lookupErrorMessage(response.status));
+                return;
+            }
+
+            const data: { order: OrderStatusSummary } = await response.json();
+            setOrder(data.order);
+        } catch (err) {
+            console.error('Order lookup error:', err);
+            setError(lookupErrorMessage(500));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const errorMessage = (name: FieldName) =>
+        errors[name] && (
+            <p id={`${name}-error`} className="text-red-600 text-sm mt-1">
+                {errors[name]}
+            </p>
+        );
+
+    const fieldProps = (name: FieldName) => ({
+        id: name,
+        name,
+        value: formData[name],
+        onChange: handleChange,
+        className: inputClassName(!!errors[name]),
+        'aria-invalid': !!errors[name],
+        'aria-describedby': errors[name] ? `${name}-error` : undefined,
+    });
+
+    return (
+        <div className="bg-white text-black">
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <h1 className="text-5xl font-bold text-center mb-6">
+                    Order Status
+                </h1>
+                <p className="text-lg text-gray-600 text-center mb-12">
+                    Enter the order number from your confirmation email and the
+                    email address you ordered with.
+                </p>
+
+                <div className="border-2 border-black rounded p-8 mb-8">
+                    {error && (
+                        <div
+                            role="alert"
+                            className="bg-red-100 border-2 border-red-500 text-red-700 px-4 py-3 rounded mb-6"
+                        >
+                            <p>{error}</p>
+                        </div>
+                    )}
+
+                    <form
+                        onSubmit={handleSubmit}
+                        noValidate
+                        className="space-y-4"
+                    >
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div>
+                                <label
+                                    htmlFor="orderNumber"
+                                    className="block text-sm font-semibold mb-2"
+                                >
+                                    Order number
+                                </label>
+                                <input
+                                    type="text"
+                                    placeholder="YOA-20250112-0374"
+                                    autoComplete="off"
+                                    {...fieldProps('orderNumber')}
+                                />
+                                {errorMessage('orderNumber')}
+                            </div>
+                            <div>
+                                <label
+                                    htmlFor="email"
+                                    className="block text-sm font-semibold mb-2"
+                                >
+                                    Email
+                                </label>
+                                <input
+                                    type="email"
+                                    placeholder="you@example.com"
+                                    autoComplete="email"
+                                    {...fieldProps('email')}
+                                />
+                                {errorMessage('email')}
+                            </div>
+                        </div>
+
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isSubmitting}
+                        >
+                            {isSubmitting ? 'Looking up...' : 'Find my order'}
+                        </Button>
+                    </form>
+                </div>
+
+                {order && <OrderStatusDetails order={order} />}
+
+                <p className="text-center text-gray-600">
+                    Still need help?{' '}
+                    <Link href="/contact" className="underline">
+                        Contact us
+                    </Link>
+                </p>
+            </div>
+        </div>
+    );
+}
+
+function OrderStatusDetails({ order }: { order: OrderStatusSummary }) {
+    const status = ORDER_STATUS_DETAILS[order.status];
+
+    return (
+        <section
+            aria-labelledby="order-status-heading"
+            className="border-2 border-black rounded p-8 mb-8"
+        >
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+                <div>
+                    <h2
+                        id="order-status-heading"
+                        className="text-2xl font-bold font-mono"
+                    >
+                        {order.orderNumber}
+                    </h2>
+                    <p className="text-gray-600">
+                        Placed{' '}
+                        {new Date(order.createdAt).toLocaleDateString('en-US', {
+                            year: 'numeric',
+                            month: 'long',
+                            day: 'numeric',
+                        })}
+                    </p>
+                </div>
+                <span className="px-3 py-1 rounded-full text-sm font-semibold bg-black text-white">
+                    {status.label}
+                </span>
+            </div>
+
+            <p className="mb-4">{status.description}</p>
+
+            {order.isPreorder &&
+                (order.status === 'paid' || order.status === 'processing') && (
+                    <p className="mb-4 text-gray-600">
+                        Includes pre-ordered items. Expected to ship:{' '}
+                        {formatExpectedShipDate(order.expectedShipDate ?? null)}
+                    </p>
+                )}
+
+            <TrackingNumbers
+                shipments={order.shipments ?? []}
+                className="mb-6"
+            />
+
+            <ul className="divide-y divide-gray-200 border-t border-b border-gray-200 mb-6">
+                {order.items.map((item) => (
+                    <li key={item.id} className="flex gap-4 py-4">
+                        <div className="flex-shrink-0 w-16 h-16 rounded overflow-hidden bg-gray-100">
+                            {item.imageUrl && (
+                                <Image
+                                    src={item.imageUrl}
+                                    alt={item.title ?? 'Artwork'}
+                                    width={64}
+                                    height={64}
+                                    className="w-full h-full object-cover"
+                                />
+                            )}
+                        </div>
+                        <div className="flex-1">
+                            <p className="font-semibold">
+                                {item.title ?? 'Artwork'}
+                            </p>
+                            {item.variantName && (
+                                <p className="text-sm text-gray-600">
+                                    {item.variantName}
+                                </p>
+                            )}
+                            {item.editionNumberStart !== undefined &&
+                                item.editionSize && (
+                                    <p className="text-sm text-gray-600">
+                                        Edition{' '}
+                                        {formatEditionNumbers(
+                                            item.editionNumberStart,
+                                            item.quantity,
+                                            item.editionSize
+                                        )}
+                                    </p>
+                                )}
+                            <p className="text-sm text-gray-600">
+                                Qty: {item.quantity}
+                            </p>
+                        </div>
+                        <p className="font-semibold">
+                            {formatCurrency(item.lineSubtotal)}
+                        </p>
+                    </li>
+                ))}
+            </ul>
+
+            <dl className="space-y-1">
+                <div className="flex justify-between">
+                    <dt>Subtotal</dt>
+                    <dd>{formatCurrency(order.subtotal)}</dd>
+                </div>
+                {order.discountAmount ? (
+                    <div className="flex justify-between">
+                        <dt>Discount</dt>
+                        <dd>-{formatCurrency(order.discountAmount)}</dd>
+                    </div>
+                ) : null}
+                {order.giftCardAmount ? (
+                    <div className="flex justify-between">
+                        <dt>Gift card</dt>
+                        <dd>-{formatCurrency(order.giftCardAmount)}</dd>
+                    </div>
+                ) : null}
+                <div className="flex justify-between">
+                    <dt>Shipping</dt>
+                    <dd>{formatCurrency(order.shippingCost)}</dd>
+                </div>
+                <div className="flex justify-between">
+                    <dt>Tax</dt>
+                    <dd>{formatCurrency(order.taxAmount)}</dd>
+                </div>
+                <div className="flex justify-between font-bold text-lg pt-2 border-t border-gray-200">
+                    <dt>Total</dt>
+                    <dd>{formatCurrency(order.total)}</dd>
+                </div>
+            </dl>
+        </section>
+    );
+}
@@ -0,0 +1,20 @@
+import type { Metadata } from 'next';
+import { siteConfig } from '@/config/site';
+import OrderStatusClient from './OrderStatusClient';
+
+/**
+ * Order status page
+ *
+ * Server component wrapper that provides metadata and renders the guest
+ * order lookup form. Results are personal, so the page isn't indexed.
+ */
+
+export const metadata: Metadata = {
+    title: 'Order Status',
+    description: `Check the status of your ${siteConfig.site.title} order with your order number and email.`,
+    robots: { index: false, follow: true },
+};
+
+export default function OrderStatusPage() {
+    return <OrderStatusClient />;
+}
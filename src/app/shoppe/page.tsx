@@ -1,9 +1,20 @@
 import type { Metadata } from 'next';
-import { getAllArtwork } from '@/lib/db/artwork';
+import Link from 'next/link';
+import { getArtworkFacets, getFilteredArtwork } from '@/lib/db/artwork';
+import { getVariantsForArtworkIds } from '@/lib/db/variants';
+import { getHeldInventory } from '@/lib/db/inventory-holds';
+import { getAvailableQuantity } from '@/lib/cart/inventory';
 import { ProductCard } from '@/components/shoppe/ProductCard';
 import { siteConfig } from '@/config/site';
 import { StructuredData } from '@/components/seo/StructuredData';
 import { getWebPageSchema } from '@/lib/seo/structured-data';
+import type { ProductVariantOption } from '@/components/shoppe/AddToCartButton';
+import { ArtworkFilters } from '@/components/ui/ArtworkFilters';
+import {
+    hasActiveArtworkFilters,
+    parseArtworkFilters,
+    type SearchParamsRecord,
+} from '@/lib/validation/artwork-filters';
 
 /**
  * Shoppe page - Product listing for shop items
@@ -12,6 +23,9 @@ import { getWebPageSchema } from '@/lib/seo/structured-data';
  * - White background with black text
  * - Responsive grid layout
  * - Product cards with Add to Cart functionality
+ * - Stock net of items held in open checkouts
+ * - Filters and sort order from the URL (shareable, crawlable views)
+ * - Link to gift cards
  * - Server-side rendering for SSG/ISR benefits
  */
 
@@ -42,11 +56,56 @@ export const metadata: Metadata = {
     },
 };
 
-export default async function ShoppePage() {
-    const { data: allArtwork, error } = await getAllArtwork();
-    // Filter to only items with inventory > 0
+export default async function ShoppePage({
+    searchParams,
+}: {
+    searchParams: Promise<SearchParamsRecord>;
+}) {
+    const filters = parseArtworkFilters(await searchParams);
+    const [{ data: allArtwork, error }, { data: facets }] = await Promise.all([
+        getFilteredArtwork(filters),
+        getArtworkFacets(),
+    ]);
+    const artworkIds = allArtwork?.map((item) => item.id) || [];
+    const [{ data: variantRows }, { data: holds }] = await Promise.all([
+        getVariantsForArtworkIds(artworkIds),
+        getHeldInventory(artworkIds),
+    ]);
+
+    // Group print size / framing options by artwork
+    const variantsByArtwork = new Map<string, ProductVariantOption[]>();
+    variantRows?.forEach((variant) => {
+        const options = variantsByArtwork.get(variant.artwork_id) || [];
+        options.push({
+            id: variant.id,
+            name: variant.name,
+            price: variant.price,
+            inventoryCount: getAvailableQuantity(
+                variant.inventory_count,
+                holds ?? [],
+                variant.artwork_id,
+                variant.id
+            ),
+        });
+        variantsByArtwork.set(variant.artwork_id, options);
+    });
+
+    // Stock not held by open checkouts
+    const availableByArtwork = new Map(
+        allArtwork?.map((item) => [
+            item.id,
+            getAvailableQuantity(item.inventory_count, holds ?? [], item.id),
+        ])
+    );
+
+    // Filter to only items with inventory > 0 (variant stock for multi-option listings)
     const products =
-        allArtwork?.filter((item) => item.inventory_count > 0) || [];
+        allArtwork?.filter((item) => {
+            const variants = variantsByArtwork.get(item.id);
+            return variants
+                ? variants.some((variant) => variant.inventoryCount > 0)
+                : (availableByArtwork.get(item.id) ?? 0) > 0;
+        }) || [];
 
     return (
         <div className="bg-white text-black">
@@ -61,6 +120,14 @@ export default async function ShoppePage() {
                 <h1 className="text-5xl font-bold text-center mb-4">Shoppe</h1>
                 <p className="text-center text-gray-600 mb-12 max-w-2xl mx-auto">
                     Greetings travelers! Feel free to peruse my prints & curios.
+                    Shopping for someone else?{' '}
+                    <Link
+                        href="/shoppe/gift-cards"
+                        className="underline hover:text-black"
+                    >
+                        Send a gift card
+                    </Link>
+                    .
                 </p>
 
                 {error && (
@@ -69,10 +136,22 @@ export default async function ShoppePage() {
                     </div>
                 )}
 
+                {facets && (
+                    <ArtworkFilters
+                        basePath="/shoppe"
+                        filters={filters}
+                        facets={facets}
+                        resultCount={products.length}
+                        showStockFilter={false}
+                    />
+                )}
+
                 {products.length === 0 ? (
                     <div className="text-center py-16">
                         <p className="text-xl text-gray-600">
-                            New products coming soon!
+                            {hasActiveArtworkFilters(filters)
+                                ? 'No products match these filters.'
+                                : 'New products coming soon!'}
                         </p>
                     </div>
                 ) : (
@@ -89,13 +168,20 @@ export default async function ShoppePage() {
                                         description={product.description}
                                         price={product.price}
                                         originalPrice={product.original_price}
-                                        inventoryCount={product.inventory_count}
+                                        inventoryCount={
+                                            availableByArtwork.get(
+                                                product.id
+                                            ) ?? 0
+                                        }
                                         imageThumbnailUrl={
                                             product.image_thumbnail_url
                                         }
                                         altText={product.alt_text}
                                         slug={product.slug}
                                         headingLevel="h3"
+                                        variants={variantsByArtwork.get(
+                                            product.id
+                                        )}
                                     />
                                 </article>
                             ))}
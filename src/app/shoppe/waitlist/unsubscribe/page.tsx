@@ -0,0 +1,64 @@
+/**
+ * Waitlist Unsubscribe Page
+ *
+ * Landing page for the unsubscribe link in back-in-stock emails.
+ */
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { z } from 'zod';
+import { unsubscribeFromWaitlist } from '@/lib/db/waitlist';
+
+export const metadata: Metadata = {
+    title: 'Unsubscribe',
+    robots: { index: false, follow: false },
+};
+
+interface WaitlistUnsubscribePageProps {
+    searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * WaitlistUnsubscribePage stops back-in-stock emails to the address the
+ * token belongs to (every artwork it signed up for).
+ *
+ * Unknown or already used tokens show the same confirmation, so the page
+ * can't be used to probe which addresses are on a waitlist.
+ *
+ * @example
+ * Navigation: /shoppe/waitlist/unsubscribe?token=<unsubscribe_token>
+ */
+export default async function WaitlistUnsubscribePage({
+    searchParams,
+}: WaitlistUnsubscribePageProps) {
+    const { token } = await searchParams;
+    const validToken = z.string().uuid().safeParse(token).success;
+
+    const { error } = validToken
+        ? await unsubscribeFromWaitlist(token as string)
+        : { error: null };
+
+    const failed = !validToken || error !== null;
+
+    return (
+        <div className="max-w-2xl mx-auto px-4 py-16 text-center">
+            <div className="bg-white border-2 border-black rounded-lg p-8 mb-8">
+                <h1 className="text-4xl font-bold mb-4">
+                    {failed ? 'Unsubscribe Failed' : "You're Unsubscribed"}
+                </h1>
+                <p className="text-lg text-gray-700">
+                    {failed
+                        ? 'This unsubscribe link is invalid or could not be processed. Please try again later.'
+                        : "You won't receive any more back-in-stock emails from us."}
+                </p>
+            </div>
+
+            <Link
+                href="/shoppe"
+                className="inline-block bg-black text-white px-6 py-3 rounded font-semibold hover:bg-gray-800"
+            >
+                Return to Shop
+            </Link>
+        </div>
+    );
+}
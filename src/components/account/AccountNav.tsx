@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+/**
+ * AccountNav - tabs between the customer account pages, plus sign out
+ *
+ * Features:
+ * - Marks the current page with aria-current
+ * - Signs out through /api/account/logout, then returns to the sign-in page
+ */
+
+const ACCOUNT_LINKS = [
+    { href: '/account', label: 'Order history' },
+    { href: '/account/addresses', label: 'Saved address' },
+    { href: '/account/preferences', label: 'Email preferences' },
+] as const;
+
+export interface AccountNavProps {
+    current: (typeof ACCOUNT_LINKS)[number]['href'];
+    email: string;
+}
+
+export function AccountNav({ current, email }: AccountNavProps) {
+    const router = useRouter();
+    const [isSigningOut, setIsSigningOut] = useState(false);
+
+    const handleSignOut = async () => {
+        setIsSigningOut(true);
+        try {
+            await fetch('/api/account/logout', { method: 'POST' });
+        } catch (err) {
+            console.error('Sign out error:', err);
+        } finally {
+            router.push('/account/login');
+            router.refresh();
+        }
+    };
+
+    return (
+        <div className="mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <p className="text-gray-600">
+                    Signed in as <span className="font-semibold">{email}</span>
+                </p>
+                <button
+                    type="button"
+                    onClick={handleSignOut}
+                    disabled={isSigningOut}
+                    className="underline hover:no-underline disabled:opacity-50"
+                >
+                    {isSigningOut ? 'Signing out...' : 'Sign out'}
+                </button>
+            </div>
+            <nav
+                aria-label="Account"
+                className="flex flex-wrap gap-2 border-b-2 border-black"
+            >
+                {ACCOUNT_LINKS.map((link) => (
+                    <Link
+                        key={link.href}
+                        href={link.href}
+                        aria-current={
+                            link.href === current ? 'page' : undefined
+                        }
+                        className={`px-4 py-2 font-semibold rounded-t ${
+                            link.href === current
+                                ? 'bg-black text-white'
+                                : 'hover:bg-gray-100'
+                        }`}
+                    >
+                        {link.label}
+                    </Link>
+                ))}
+            </nav>
+        </div>
+    );
+}
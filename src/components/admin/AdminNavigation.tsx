@@ -38,8 +38,14 @@ const navigationLinks = [
     { label: 'Dashboard', href: '/admin' },
     { label: 'Artwork', href: '/admin/artwork' },
     { label: 'Orders', href: '/admin/orders' },
+    { label: 'Commissions', href: '/admin/commissions' },
     { label: 'Projects', href: '/admin/projects' },
     { label: 'Events', href: '/admin/events' },
+    { label: 'Search', href: '/admin/search' },
+    { label: 'Coupons', href: '/admin/coupons' },
+    { label: 'Gift Cards', href: '/admin/gift-cards' },
+    { label: 'Shipping', href: '/admin/shipping' },
+    { label: 'Webhooks', href: '/admin/webhooks' },
     {
         label: 'Settings',
         href: '/admin/settings',
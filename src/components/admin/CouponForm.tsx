@@ -0,0 +1,444 @@
+'use client';
+
+import { useForm, type FieldValues } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+    couponFieldsSchema,
+    refineCouponRules,
+    type CouponFormData,
+} from '@/lib/validation/coupons';
+import { useState } from 'react';
+import Link from 'next/link';
+import { z } from 'zod';
+import { InfoBalloon } from '@/components/ui/InfoBalloon';
+
+/**
+ * Converts an array of tags to a comma-separated string
+ */
+function tagsToString(tags: string[] | null | undefined): string {
+    if (!tags || tags.length === 0) return '';
+    return tags.join(', ');
+}
+
+/**
+ * Converts a comma-separated string to an array of tags
+ */
+function stringToTags(str: string): string[] | null {
+    if (!str || str.trim() === '') return null;
+    return str
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter((tag) => tag.length > 0);
+}
+
+/**
+ * Converts a stored timestamp to a datetime-local input value (local time)
+ */
+function toDateTimeLocal(value: string | null | undefined): string {
+    if (!value) return '';
+    const date = new Date(value);
+    const offsetMs = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+/**
+ * Converts a datetime-local input value to an ISO timestamp
+ */
+function fromDateTimeLocal(value: string | null | undefined): string | null {
+    if (!value) return null;
+    return new Date(value).toISOString();
+}
+
+export interface CouponArtworkOption {
+    id: string;
+    title: string;
+}
+
+interface CouponFormProps {
+    initialData?: Partial<CouponFormData>;
+    artworkOptions?: CouponArtworkOption[];
+    onSubmit?: (data: CouponFormData) => Promise<void> | void;
+}
+
+// Form schema with tags as string instead of array
+const formSchema = couponFieldsSchema
+    .extend({
+        applies_to_tags: z.string().optional().nullable(),
+    })
+    .superRefine(refineCouponRules);
+
+type FormInput = z.input<typeof formSchema>;
+type FormOutput = z.output<typeof formSchema>;
+
+const fieldDescriptions = {
+    code: 'The code customers enter in the cart. Letters, numbers, dashes and underscores; stored in uppercase.',
+    description:
+        'Internal note describing the promotion (shown to customers when applied).',
+    discount_type:
+        'Percentage takes a percent off the eligible items; fixed takes a dollar amount off.',
+    discount_value:
+        'The percent (1-100) or dollar amount of the discount, depending on the type.',
+    minimum_subtotal:
+        'The cart subtotal required before the coupon can be used. Leave blank for no minimum.',
+    starts_at: 'When the coupon becomes usable. Leave blank to start now.',
+    expires_at: 'When the coupon stops working. Leave blank for no expiry.',
+    usage_limit:
+        'Total number of paid orders that can use this coupon. Leave blank for unlimited.',
+    applies_to_artwork_ids:
+        'Limit the discount to these pieces. Leave empty (and no tags) to discount the whole cart.',
+    applies_to_tags:
+        'A comma-separated list of tags; items with any of these tags are discounted.',
+    is_active: 'Inactive coupons are rejected at checkout.',
+};
+
+export default function CouponForm({
+    initialData,
+    artworkOptions = [],
+    onSubmit,
+}: CouponFormProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        watch,
+        formState: { errors },
+    } = useForm<FormInput, unknown, FormOutput>({
+        resolver: zodResolver(formSchema),
+        defaultValues: {
+            code: initialData?.code || '',
+            description: initialData?.description || '',
+            discount_type: initialData?.discount_type || 'percentage',
+            discount_value: initialData?.discount_value || '',
+            minimum_subtotal: initialData?.minimum_subtotal || '',
+            starts_at: toDateTimeLocal(initialData?.starts_at),
+            expires_at: toDateTimeLocal(initialData?.expires_at),
+            usage_limit: initialData?.usage_limit ?? null,
+            applies_to_artwork_ids: initialData?.applies_to_artwork_ids || [],
+            applies_to_tags: tagsToString(initialData?.applies_to_tags),
+            is_active: initialData?.is_active ?? true,
+        },
+    });
+
+    const discountType = watch('discount_type');
+
+    const handleFormSubmit = async (formData: FieldValues) => {
+        setIsSubmitting(true);
+        setSubmitError(null);
+        try {
+            if (onSubmit) {
+                // Convert blanks to null and the tags string to an array
+                const data = formData as FormOutput;
+                const submissionData: CouponFormData = {
+                    ...data,
+                    description: data.description || null,
+                    minimum_subtotal: data.minimum_subtotal || null,
+                    starts_at: fromDateTimeLocal(data.starts_at),
+                    expires_at: fromDateTimeLocal(data.expires_at),
+                    applies_to_artwork_ids: data.applies_to_artwork_ids?.length
+                        ? data.applies_to_artwork_ids
+                        : null,
+                    applies_to_tags: stringToTags(data.applies_to_tags || ''),
+                };
+                await onSubmit(submissionData);
+            }
+        } catch (error) {
+            setSubmitError(
+                error instanceof Error ? error.message : 'An error occurred'
+            );
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form
+            onSubmit={handleSubmit(handleFormSubmit)}
+            className="space-y-6 bg-white p-6 rounded-lg shadow"
+        >
+            {submitError && (
+                <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                    {submitError}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                {/* Code */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="code" className="admin-label">
+                            Code
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.code} />
+                    </div>
+                    <input
+                        id="code"
+                        type="text"
+                        {...register('code')}
+                        className="admin-input uppercase"
+                    />
+                    {errors.code && (
+                        <p className="admin-error">{errors.code.message}</p>
+                    )}
+                </div>
+
+                {/* Description */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="description" className="admin-label">
+                            Description
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.description} />
+                    </div>
+                    <input
+                        id="description"
+                        type="text"
+                        {...register('description')}
+                        className="admin-input"
+                    />
+                    {errors.description && (
+                        <p className="admin-error">
+                            {errors.description.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Discount Type */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="discount_type" className="admin-label">
+                            Discount Type
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.discount_type} />
+                    </div>
+                    <select
+                        id="discount_type"
+                        {...register('discount_type')}
+                        className="admin-input"
+                    >
+                        <option value="percentage">Percentage</option>
+                        <option value="fixed">Fixed amount</option>
+                    </select>
+                    {errors.discount_type && (
+                        <p className="admin-error">
+                            {errors.discount_type.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Discount Value */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="discount_value" className="admin-label">
+                            {discountType === 'fixed'
+                                ? 'Amount Off ($)'
+                                : 'Percent Off (%)'}
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.discount_value} />
+                    </div>
+                    <input
+                        id="discount_value"
+                        type="text"
+                        inputMode="decimal"
+                        {...register('discount_value')}
+                        className="admin-input"
+                    />
+                    {errors.discount_value && (
+                        <p className="admin-error">
+                            {errors.discount_value.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Minimum Subtotal */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label
+                            htmlFor="minimum_subtotal"
+                            className="admin-label"
+                        >
+                            Minimum Subtotal ($)
+                        </label>
+                        <InfoBalloon
+                            text={fieldDescriptions.minimum_subtotal}
+                        />
+                    </div>
+                    <input
+                        id="minimum_subtotal"
+                        type="text"
+                        inputMode="decimal"
+                        {...register('minimum_subtotal')}
+                        className="admin-input"
+                    />
+                    {errors.minimum_subtotal && (
+                        <p className="admin-error">
+                            {errors.minimum_subtotal.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Usage Limit */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="usage_limit" className="admin-label">
+                            Usage Limit
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.usage_limit} />
+                    </div>
+                    <input
+                        id="usage_limit"
+                        type="number"
+                        min={1}
+                        {...register('usage_limit', {
+                            setValueAs: (value) =>
+                                value === '' || value === null
+                                    ? null
+                                    : parseInt(value, 10),
+                        })}
+                        className="admin-input"
+                    />
+                    {errors.usage_limit && (
+                        <p className="admin-error">
+                            {errors.usage_limit.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Starts At */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="starts_at" className="admin-label">
+                            Starts At
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.starts_at} />
+                    </div>
+                    <input
+                        id="starts_at"
+                        type="datetime-local"
+                        {...register('starts_at')}
+                        className="admin-input"
+                    />
+                    {errors.starts_at && (
+                        <p className="admin-error">
+                            {errors.starts_at.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Expires At */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="expires_at" className="admin-label">
+                            Expires At
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.expires_at} />
+                    </div>
+                    <input
+                        id="expires_at"
+                        type="datetime-local"
+                        {...register('expires_at')}
+                        className="admin-input"
+                    />
+                    {errors.expires_at && (
+                        <p className="admin-error">
+                            {errors.expires_at.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Artwork Scope */}
+                <div className="md:col-span-2 space-y-2">
+                    <div className="flex items-center">
+                        <label
+                            htmlFor="applies_to_artwork_ids"
+                            className="admin-label"
+                        >
+                            Limit to Artwork
+                        </label>
+                        <InfoBalloon
+                            text={fieldDescriptions.applies_to_artwork_ids}
+                        />
+                    </div>
+                    <select
+                        id="applies_to_artwork_ids"
+                        multiple
+                        size={Math.min(Math.max(artworkOptions.length, 3), 8)}
+                        {...register('applies_to_artwork_ids')}
+                        className="admin-input"
+                    >
+                        {artworkOptions.map((artwork) => (
+                            <option key={artwork.id} value={artwork.id}>
+                                {artwork.title}
+                            </option>
+                        ))}
+                    </select>
+                    {errors.applies_to_artwork_ids && (
+                        <p className="admin-error">
+                            {errors.applies_to_artwork_ids.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Tag Scope */}
+                <div className="md:col-span-2 space-y-2">
+                    <div className="flex items-center">
+                        <label
+                            htmlFor="applies_to_tags"
+                            className="admin-label"
+                        >
+                            Limit to Tags
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.applies_to_tags} />
+                    </div>
+                    <input
+                        id="applies_to_tags"
+                        type="text"
+                        {...register('applies_to_tags')}
+                        className="admin-input"
+                        placeholder="prints, dragons"
+                    />
+                    {errors.applies_to_tags && (
+                        <p className="admin-error">
+                            {errors.applies_to_tags.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Active Status */}
+                <div className="md:col-span-2 space-y-2">
+                    <label className="flex items-center space-x-3">
+                        <input
+                            type="checkbox"
+                            {...register('is_active')}
+                            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-700">
+                                Active
+                            </span>
+                            <InfoBalloon text={fieldDescriptions.is_active} />
+                        </div>
+                    </label>
+                </div>
+            </div>
+
+            {/* Form Actions */}
+            <div className="flex gap-4 pt-6 border-t border-gray-200">
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                    {isSubmitting ? 'Saving...' : 'Save Coupon'}
+                </button>
+                <Link
+                    href="/admin/coupons"
+                    className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                    Cancel
+                </Link>
+            </div>
+        </form>
+    );
+}
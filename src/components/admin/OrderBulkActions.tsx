@@ -0,0 +1,266 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    bulkAddTrackingAction,
+    bulkSendShippingEmailAction,
+    bulkUpdateStatusAction,
+    type BulkOrderResult,
+    type BulkOrderStatus,
+} from '@/app/admin/orders/actions';
+import type { OrderWithShipments } from '@/lib/db/admin/orders';
+import { parseTrackingList } from '@/lib/utils/tracking';
+
+interface OrderBulkActionsProps {
+    orders: OrderWithShipments[]; // The selected orders
+    onComplete: () => void; // Called after an action, to reload the list
+}
+
+// One line of the results: an order, or a pasted line that matched none
+interface BulkResultRow {
+    label: string;
+    success: boolean;
+    message: string;
+}
+
+type BulkAction = BulkOrderStatus | 'tracking' | 'email';
+
+const SECONDARY_BUTTON_CLASS =
+    'px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export default function OrderBulkActions({
+    orders,
+    onComplete,
+}: OrderBulkActionsProps) {
+    const [pending, setPending] = useState<BulkAction | null>(null);
+    const [notifyCustomers, setNotifyCustomers] = useState(true);
+    const [showTracking, setShowTracking] = useState(false);
+    const [trackingList, setTrackingList] = useState('');
+    const [results, setResults] = useState<BulkResultRow[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const orderNumbers = new Map(
+        orders.map((order) => [order.id, order.order_number])
+    );
+    const toRows = (bulkResults: BulkOrderResult[]): BulkResultRow[] =>
+        bulkResults.map(({ orderId, success, message }) => ({
+            label: orderNumbers.get(orderId) ?? orderId,
+            success,
+            message,
+        }));
+
+    const run = async (
+        action: BulkAction,
+        perform: () => Promise<BulkResultRow[]>
+    ) => {
+        setPending(action);
+        setResults(null);
+        setError(null);
+        try {
+            setResults(await perform());
+            onComplete();
+        } catch (err) {
+            setError(
+                err instanceof Error ? err.message : 'Failed to update orders'
+            );
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleStatus = (status: BulkOrderStatus) => {
+        const prompt =
+            status === 'shipped' && notifyCustomers
+                ? `Mark ${orders.length} order(s) as shipped and email their customers?`
+                : `Mark ${orders.length} order(s) as ${status}?`;
+        if (!confirm(prompt)) {
+            return;
+        }
+
+        run(status, async () =>
+            toRows(
+                await bulkUpdateStatusAction(
+                    orders.map((order) => order.id),
+                    status,
+                    notifyCustomers
+                )
+            )
+        );
+    };
+
+    const handleSendEmails = () => {
+        if (!confirm(`Send shipping emails for ${orders.length} order(s)?`)) {
+            return;
+        }
+
+        run('email', async () =>
+            toRows(
+                await bulkSendShippingEmailAction(
+                    orders.map((order) => order.id)
+                )
+            )
+        );
+    };
+
+    const handleAddTracking = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        const { entries, invalid } = parseTrackingList(trackingList);
+        const orderIds = new Map(
+            orders.map((order) => [order.order_number.toUpperCase(), order.id])
+        );
+        const matched = entries.flatMap(({ orderNumber, trackingNumber }) => {
+            const orderId = orderIds.get(orderNumber);
+            return orderId ? [{ orderId, trackingNumber }] : [];
+        });
+        const unmatched: BulkResultRow[] = [
+            ...entries
+                .filter(({ orderNumber }) => !orderIds.has(orderNumber))
+                .map(({ orderNumber, trackingNumber }) => ({
+                    label: orderNumber,
+                    success: false,
+                    message: `${trackingNumber}: not one of the selected orders`,
+                })),
+            ...invalid.map((line) => ({
+                label: line,
+                success: false,
+                message: 'Expected an order number and a tracking number',
+            })),
+        ];
+
+        run('tracking', async () => {
+            const added = matched.length
+                ? toRows(await bulkAddTrackingAction(matched))
+                : [];
+            if (added.some((row) => row.success)) {
+                setTrackingList('');
+            }
+            return [...added, ...unmatched];
+        });
+    };
+
+    const failedCount = results?.filter((row) => !row.success).length ?? 0;
+    const packingSlipHref = `/admin/orders/batch/packing-slip?ids=${orders
+        .map((order) => order.id)
+        .join(',')}`;
+
+    return (
+        <div className="p-4 mb-4 bg-indigo-50 border border-indigo-200 rounded-lg space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+                <span className="text-sm font-medium text-gray-900">
+                    {orders.length} selected
+                </span>
+                <button
+                    type="button"
+                    onClick={() => handleStatus('processing')}
+                    disabled={pending !== null}
+                    className={SECONDARY_BUTTON_CLASS}
+                >
+                    {pending === 'processing'
+                        ? 'Updating...'
+                        : 'Mark Processing'}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => handleStatus('shipped')}
+                    disabled={pending !== null}
+                    className={SECONDARY_BUTTON_CLASS}
+                >
+                    {pending === 'shipped' ? 'Updating...' : 'Mark Shipped'}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setShowTracking(!showTracking)}
+                    disabled={pending !== null}
+                    aria-expanded={showTracking}
+                    className={SECONDARY_BUTTON_CLASS}
+                >
+                    Add Tracking Numbers
+                </button>
+                <button
+                    type="button"
+                    onClick={handleSendEmails}
+                    disabled={pending !== null}
+                    className={SECONDARY_BUTTON_CLASS}
+                >
+                    {pending === 'email'
+                        ? 'Sending...'
+                        : 'Send Shipping Emails'}
+                </button>
+                <a
+                    href={packingSlipHref}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-indigo-600 hover:text-indigo-900"
+                >
+                    Print packing slips
+                </a>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={notifyCustomers}
+                    onChange={(e) => setNotifyCustomers(e.target.checked)}
+                />
+                Email customers when marking orders shipped
+            </label>
+
+            {showTracking && (
+                <form onSubmit={handleAddTracking} className="space-y-2">
+                    <label htmlFor="tracking-list" className="admin-label">
+                        Tracking Numbers
+                    </label>
+                    <p className="text-sm text-gray-600">
+                        Paste one package per line: the order number, then the
+                        tracking number (e.g. two columns copied from a
+                        spreadsheet).
+                    </p>
+                    <textarea
+                        id="tracking-list"
+                        value={trackingList}
+                        onChange={(e) => setTrackingList(e.target.value)}
+                        rows={5}
+                        className="admin-input w-full font-mono"
+                    />
+                    <button
+                        type="submit"
+                        disabled={pending !== null || !trackingList.trim()}
+                        className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {pending === 'tracking' ? 'Adding...' : 'Add Tracking'}
+                    </button>
+                </form>
+            )}
+
+            {error && <p className="admin-error">{error}</p>}
+
+            {results && (
+                <div role="status" className="text-sm">
+                    <p className="font-medium text-gray-900">
+                        {results.length - failedCount} succeeded, {failedCount}{' '}
+                        failed
+                    </p>
+                    <ul className="mt-1 space-y-1">
+                        {results.map((row, index) => (
+                            <li
+                                key={index}
+                                className={
+                                    row.success
+                                        ? 'text-green-700'
+                                        : 'text-red-700'
+                                }
+                            >
+                                <span aria-hidden="true">
+                                    {row.success ? '✓' : '✗'}
+                                </span>{' '}
+                                <span className="font-mono">{row.label}</span>:{' '}
+                                {row.message}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,15 +1,39 @@
 'use client';
 
 import Link from 'next/link';
-import type { OrderRow, OrderStatus } from '@/lib/db/admin/orders';
+import { useState } from 'react';
+import OrderBulkActions from '@/components/admin/OrderBulkActions';
+import type {
+    OrderSort,
+    OrderSortColumn,
+    OrderStatus,
+    OrderWithShipments,
+} from '@/lib/db/admin/orders';
+import { getCarrierName, getTrackingUrl } from '@/lib/utils/tracking';
 
 interface OrdersListProps {
-    orders: OrderRow[];
+    orders: OrderWithShipments[];
     currentPage: number;
     totalPages: number;
     onPageChange: (page: number) => void;
+    totalCount?: number; // Orders matching the filters, across all pages
+    pageSize?: number;
+    sort?: OrderSort;
+    onSortChange?: (column: OrderSortColumn) => void; // Omit to disable sorting
+    onBulkActionComplete?: () => void; // Omit to disable selection and bulk actions
 }
 
+const HEADER_CLASS =
+    'px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase';
+
+const SORTABLE_COLUMNS: { column: OrderSortColumn; label: string }[] = [
+    { column: 'order_number', label: 'Order Number' },
+    { column: 'customer_name', label: 'Customer' },
+    { column: 'created_at', label: 'Date' },
+    { column: 'total', label: 'Total' },
+    { column: 'status', label: 'Status' },
+];
+
 // Status badge configuration
 const statusConfig: Record<
     OrderStatus,
@@ -64,7 +88,14 @@ export default function OrdersList({
     currentPage,
     totalPages,
     onPageChange,
+    totalCount,
+    pageSize = 20,
+    sort,
+    onSortChange,
+    onBulkActionComplete,
 }: OrdersListProps) {
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
     if (!orders || orders.length === 0) {
         return (
             <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
@@ -73,46 +104,116 @@ export default function OrdersList({
         );
     }
 
+    // Only orders on this page count; the selection survives reloads
+    const selectedOrders = orders.filter((order) =>
+        selectedIds.includes(order.id)
+    );
+    const allSelected = selectedOrders.length === orders.length;
+
+    const toggleOrder = (orderId: string) => {
+        setSelectedIds(
+            selectedIds.includes(orderId)
+                ? selectedIds.filter((id) => id !== orderId)
+                : [...selectedIds, orderId]
+        );
+    };
+
     return (
         <div>
+            {onBulkActionComplete && selectedOrders.length > 0 && (
+                <OrderBulkActions
+                    orders={selectedOrders}
+                    onComplete={onBulkActionComplete}
+                />
+            )}
+
+            {/* Batch documents for every paid or processing order */}
+            <div className="flex flex-wrap items-center justify-end gap-4 mb-4 text-sm">
+                <span className="text-gray-600">
+                    Paid &amp; processing orders:
+                </span>
+                <a
+                    href="/admin/orders/batch/packing-slip"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-indigo-600 hover:text-indigo-900"
+                >
+                    Print packing slips
+                </a>
+                <a
+                    href="/admin/orders/batch/invoice"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-indigo-600 hover:text-indigo-900"
+                >
+                    Print invoices
+                </a>
+            </div>
+
             <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
                 <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                         <tr>
-                            <th
-                                scope="col"
-                                className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
-                            >
-                                Order Number
+                            {onBulkActionComplete && (
+                                <th scope="col" className="px-6 py-3">
+                                    <input
+                                        type="checkbox"
+                                        aria-label="Select all orders on this page"
+                                        checked={allSelected}
+                                        onChange={() =>
+                                            setSelectedIds(
+                                                allSelected
+                                                    ? []
+                                                    : orders.map(
+                                                          (order) => order.id
+                                                      )
+                                            )
+                                        }
+                                    />
+                                </th>
+                            )}
+                            {SORTABLE_COLUMNS.map(({ column, label }) => {
+                                const isSorted = sort?.column === column;
+                                return (
+                                    <th
+                                        key={column}
+                                        scope="col"
+                                        className={HEADER_CLASS}
+                                        aria-sort={
+                                            isSorted
+                                                ? sort.ascending
+                                                    ? 'ascending'
+                                                    : 'descending'
+                                                : undefined
+                                        }
+                                    >
+                                        {onSortChange ? (
+                                            <button
+                                                type="button"
+                                                onClick={() =>
+                                                    onSortChange(column)
+                                                }
+                                                className="inline-flex items-center gap-1 uppercase hover:text-gray-900"
+                                            >
+                                                <span>{label}</span>
+                                                <span aria-hidden="true">
+                                                    {isSorted
+                                                        ? sort.ascending
+                                                            ? '▲'
+                                                            : '▼'
+                                                        : ''}
+                                                </span>
+                                            </button>
+                                        ) : (
+                                            label
+                                        )}
+                                    </th>
+                                );
+                            })}
+                            <th scope="col" className={HEADER_CLASS}>
+                                Tracking
                             </th>
-                            <th
-                                scope="col"
-                                className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
-                            >
-                                Customer
-                            </th>
-                            <th
-                                scope="col"
-                                className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
-                            >
-                                Date
-                            </th>
-                            <th
-                                scope="col"
-                                className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
-                            >
-                                Total
-                            </th>
-                            <th
-                                scope="col"
-                                className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
-                            >
-                                Status
-                            </th>
-                            <th
-                                scope="col"
-                                className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
-                            >
+                            <th scope="col" className={HEADER_CLASS}>
                                 Actions
                             </th>
                         </tr>
@@ -122,6 +223,20 @@ export default function OrdersList({
                             const config = statusConfig[order.status];
                             return (
                                 <tr key={order.id}>
+                                    {onBulkActionComplete && (
+                                        <td className="px-6 py-4">
+                                            <input
+                                                type="checkbox"
+                                                aria-label={`Select order ${order.order_number}`}
+                                                checked={selectedIds.includes(
+                                                    order.id
+                                                )}
+                                                onChange={() =>
+                                                    toggleOrder(order.id)
+                                                }
+                                            />
+                                        </td>
+                                    )}
                                     <td className="px-6 py-4 whitespace-nowrap">
                                         <div className="text-sm font-medium text-gray-900">
                                             {order.order_number}
@@ -152,6 +267,50 @@ export default function OrdersList({
                                             {config.label}
                                         </span>
                                     </td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                        {order.order_shipments.map(
+                                            (shipment) => {
+                                                const trackingUrl =
+                                                    getTrackingUrl(
+                                                        shipment.tracking_number,
+                                                        shipment.carrier
+                                                    );
+                                                const carrierName =
+                                                    getCarrierName(
+                                                        shipment.tracking_number,
+                                                        shipment.carrier
+                                                    );
+                                                return (
+                                                    <div key={shipment.id}>
+                                                        {trackingUrl ? (
+                                                            <a
+                                                                href={
+                                                                    trackingUrl
+                                                                }
+                                                                target="_blank"
+                                                                rel="noopener noreferrer"
+                                                                title={
+                                                                    carrierName ??
+                                                                    undefined
+                                                                }
+                                                                className="font-mono text-indigo-600 hover:text-indigo-900"
+                                                            >
+                                                                {
+                                                                    shipment.tracking_number
+                                                                }
+                                                            </a>
+                                                        ) : (
+                                                            <span className="font-mono text-gray-900">
+                                                                {
+                                                                    shipment.tracking_number
+                                                                }
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                );
+                                            }
+                                        )}
+                                    </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                                         <Link
                                             href={`/admin/orders/${order.id}`}
@@ -197,18 +356,36 @@ export default function OrdersList({
                                     {totalPages}
                                 </span>
                             </p>
+                            {totalCount !== undefined && (
+                                <p className="text-sm text-gray-500">
+                                    Showing {(currentPage - 1) * pageSize + 1}
+                                    &ndash;
+                                    {Math.min(
+                                        currentPage * pageSize,
+                                        totalCount
+                                    )}{' '}
+                                    of {totalCount} orders
+                                </p>
+                            )}
                         </div>
                         <div>
                             <nav
                                 className="relative z-0 inline-flex -space-x-px rounded-md shadow-sm"
                                 aria-label="Pagination"
                             >
+                                <button
+                                    onClick={() => onPageChange(1)}
+                                    disabled={currentPage === 1}
+                                    className="relative inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-l-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    First
+                                </button>
                                 <button
                                     onClick={() =>
                                         onPageChange(currentPage - 1)
                                     }
                                     disabled={currentPage === 1}
-                                    className="relative inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-l-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    className="relative inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
                                     Previous
                                 </button>
@@ -217,10 +394,17 @@ export default function OrdersList({
                                         onPageChange(currentPage + 1)
                                     }
                                     disabled={currentPage === totalPages}
-                                    className="relative inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-r-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    className="relative inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
                                     Next
                                 </button>
+                                <button
+                                    onClick={() => onPageChange(totalPages)}
+                                    disabled={currentPage === totalPages}
+                                    className="relative inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-r-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Last
+                                </button>
                             </nav>
                         </div>
                     </div>
@@ -0,0 +1,422 @@
+'use client';
+
+import { useForm, type FieldValues } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+    refineShippingZoneRules,
+    shippingZoneFieldsSchema,
+    type ShippingZoneFormData,
+} from '@/lib/validation/shipping-zones';
+import { useState } from 'react';
+import Link from 'next/link';
+import { z } from 'zod';
+import { InfoBalloon } from '@/components/ui/InfoBalloon';
+
+/**
+ * Converts an array of country codes to a comma-separated string
+ */
+function countriesToString(countries: string[] | null | undefined): string {
+    if (!countries || countries.length === 0) return '';
+    return countries.join(', ');
+}
+
+/**
+ * Converts a comma-separated string to an array of uppercase country codes
+ */
+function stringToCountries(str: string): string[] {
+    return str
+        .split(',')
+        .map((country) => country.trim().toUpperCase())
+        .filter((country) => country.length > 0);
+}
+
+/**
+ * Parses an optional whole-number input ('' becomes null)
+ */
+function toOptionalInt(value: unknown): number | null {
+    return value === '' || value === null || value === undefined
+        ? null
+        : parseInt(String(value), 10);
+}
+
+interface ShippingZoneFormProps {
+    initialData?: Partial<ShippingZoneFormData>;
+    onSubmit?: (data: ShippingZoneFormData) => Promise<void> | void;
+}
+
+// Form schema with countries as a comma-separated string instead of an array
+const formSchema = shippingZoneFieldsSchema
+    .extend({
+        countries: z
+            .string()
+            .regex(
+                /^\s*[A-Za-z]{2}(\s*,\s*[A-Za-z]{2})*\s*,?\s*$/,
+                'Enter two-letter ISO codes separated by commas (e.g. US, CA)'
+            ),
+    })
+    .superRefine(refineShippingZoneRules);
+
+type FormInput = z.input<typeof formSchema>;
+type FormOutput = z.output<typeof formSchema>;
+
+const fieldDescriptions = {
+    name: 'Shown to customers at checkout, e.g. "Europe" or "United States".',
+    countries:
+        'Two-letter ISO country codes served by this zone, separated by commas (e.g. GB, FR, DE). Checkout only collects addresses in these countries.',
+    standard_rate: 'Base price of standard shipping, in dollars.',
+    express_rate:
+        'Base price of express shipping, in dollars. Leave blank to offer standard shipping only.',
+    free_shipping_minimum:
+        'Standard shipping is free when the discounted subtotal reaches this amount. Leave blank to never ship free.',
+    standard_days:
+        'Estimated business days for standard delivery, shown in Stripe Checkout.',
+    express_days: 'Estimated business days for express delivery.',
+    excludes_originals:
+        'Block one-of-a-kind originals from shipping to this zone (e.g. fragile pieces overseas).',
+    is_active:
+        'Inactive zones are hidden from the cart and rejected at checkout.',
+    display_order:
+        'When a country is in several zones, the lowest display order wins.',
+};
+
+export default function ShippingZoneForm({
+    initialData,
+    onSubmit,
+}: ShippingZoneFormProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        formState: { errors },
+    } = useForm<FormInput, unknown, FormOutput>({
+        resolver: zodResolver(formSchema),
+        defaultValues: {
+            name: initialData?.name || '',
+            countries: countriesToString(initialData?.countries),
+            standard_rate: initialData?.standard_rate || '',
+            express_rate: initialData?.express_rate || '',
+            free_shipping_minimum: initialData?.free_shipping_minimum || '',
+            standard_min_days: initialData?.standard_min_days ?? 5,
+            standard_max_days: initialData?.standard_max_days ?? 8,
+            express_min_days: initialData?.express_min_days ?? null,
+            express_max_days: initialData?.express_max_days ?? null,
+            excludes_originals: initialData?.excludes_originals ?? false,
+            is_active: initialData?.is_active ?? true,
+            display_order: initialData?.display_order ?? 0,
+        },
+    });
+
+    const handleFormSubmit = async (formData: FieldValues) => {
+        setIsSubmitting(true);
+        setSubmitError(null);
+        try {
+            if (onSubmit) {
+                // Convert blanks to null and the countries string to an array
+                const data = formData as FormOutput;
+                const hasExpress = Boolean(data.express_rate);
+                const submissionData: ShippingZoneFormData = {
+                    ...data,
+                    countries: stringToCountries(data.countries),
+                    express_rate: data.express_rate || null,
+                    free_shipping_minimum: data.free_shipping_minimum || null,
+                    express_min_days: hasExpress ? data.express_min_days : null,
+                    express_max_days: hasExpress ? data.express_max_days : null,
+                };
+                await onSubmit(submissionData);
+            }
+        } catch (error) {
+            setSubmitError(
+                error instanceof Error ? error.message : 'An error occurred'
+            );
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form
+            onSubmit={handleSubmit(handleFormSubmit)}
+            className="space-y-6 bg-white p-6 rounded-lg shadow"
+        >
+            {submitError && (
+                <div className="p-4 text-red-500 bg-red-50 rounded-lg">
+                    {submitError}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                {/* Name */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="name" className="admin-label">
+                            Name
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.name} />
+                    </div>
+                    <input
+                        id="name"
+                        type="text"
+                        {...register('name')}
+                        className="admin-input"
+                    />
+                    {errors.name && (
+                        <p className="admin-error">{errors.name.message}</p>
+                    )}
+                </div>
+
+                {/* Display Order */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="display_order" className="admin-label">
+                            Display Order
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.display_order} />
+                    </div>
+                    <input
+                        id="display_order"
+                        type="number"
+                        {...register('display_order', { valueAsNumber: true })}
+                        className="admin-input"
+                    />
+                    {errors.display_order && (
+                        <p className="admin-error">
+                            {errors.display_order.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Countries */}
+                <div className="md:col-span-2 space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="countries" className="admin-label">
+                            Countries
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.countries} />
+                    </div>
+                    <input
+                        id="countries"
+                        type="text"
+                        {...register('countries')}
+                        className="admin-input uppercase"
+                        placeholder="GB, FR, DE"
+                    />
+                    {errors.countries && (
+                        <p className="admin-error">
+                            {errors.countries.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Standard Rate */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="standard_rate" className="admin-label">
+                            Standard Rate ($)
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.standard_rate} />
+                    </div>
+                    <input
+                        id="standard_rate"
+                        type="text"
+                        inputMode="decimal"
+                        {...register('standard_rate')}
+                        className="admin-input"
+                    />
+                    {errors.standard_rate && (
+                        <p className="admin-error">
+                            {errors.standard_rate.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Free Shipping Minimum */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label
+                            htmlFor="free_shipping_minimum"
+                            className="admin-label"
+                        >
+                            Free Shipping Minimum ($)
+                        </label>
+                        <InfoBalloon
+                            text={fieldDescriptions.free_shipping_minimum}
+                        />
+                    </div>
+                    <input
+                        id="free_shipping_minimum"
+                        type="text"
+                        inputMode="decimal"
+                        {...register('free_shipping_minimum')}
+                        className="admin-input"
+                    />
+                    {errors.free_shipping_minimum && (
+                        <p className="admin-error">
+                            {errors.free_shipping_minimum.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Standard Delivery Days */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label
+                            htmlFor="standard_min_days"
+                            className="admin-label"
+                        >
+                            Standard Delivery (business days)
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.standard_days} />
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input
+                            id="standard_min_days"
+                            type="number"
+                            min={1}
+                            aria-label="Standard minimum days"
+                            {...register('standard_min_days', {
+                                valueAsNumber: true,
+                            })}
+                            className="admin-input"
+                        />
+                        <span className="text-gray-500">to</span>
+                        <input
+                            id="standard_max_days"
+                            type="number"
+                            min={1}
+                            aria-label="Standard maximum days"
+                            {...register('standard_max_days', {
+                                valueAsNumber: true,
+                            })}
+                            className="admin-input"
+                        />
+                    </div>
+                    {(errors.standard_min_days || errors.standard_max_days) && (
+                        <p className="admin-error">
+                            {errors.standard_min_days?.message ||
+                                errors.standard_max_days?.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Express Rate */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="express_rate" className="admin-label">
+                            Express Rate ($)
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.express_rate} />
+                    </div>
+                    <input
+                        id="express_rate"
+                        type="text"
+                        inputMode="decimal"
+                        {...register('express_rate')}
+                        className="admin-input"
+                    />
+                    {errors.express_rate && (
+                        <p className="admin-error">
+                            {errors.express_rate.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Express Delivery Days */}
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label
+                            htmlFor="express_min_days"
+                            className="admin-label"
+                        >
+                            Express Delivery (business days)
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.express_days} />
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input
+                            id="express_min_days"
+                            type="number"
+                            min={1}
+                            aria-label="Express minimum days"
+                            {...register('express_min_days', {
+                                setValueAs: toOptionalInt,
+                            })}
+                            className="admin-input"
+                        />
+                        <span className="text-gray-500">to</span>
+                        <input
+                            id="express_max_days"
+                            type="number"
+                            min={1}
+                            aria-label="Express maximum days"
+                            {...register('express_max_days', {
+                                setValueAs: toOptionalInt,
+                            })}
+                            className="admin-input"
+                        />
+                    </div>
+                    {(errors.express_min_days || errors.express_max_days) && (
+                        <p className="admin-error">
+                            {errors.express_min_days?.message ||
+                                errors.express_max_days?.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Exclude Originals */}
+                <div className="md:col-span-2 space-y-2">
+                    <label className="flex items-center space-x-3">
+                        <input
+                            type="checkbox"
+                            {...register('excludes_originals')}
+                            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-700">
+                                Exclude originals
+                            </span>
+                            <InfoBalloon
+                                text={fieldDescriptions.excludes_originals}
+                            />
+                        </div>
+                    </label>
+                </div>
+
+                {/* Active Status */}
+                <div className="md:col-span-2 space-y-2">
+                    <label className="flex items-center space-x-3">
+                        <input
+                            type="checkbox"
+                            {...register('is_active')}
+                            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-700">
+                                Active
+                            </span>
+                            <InfoBalloon text={fieldDescriptions.is_active} />
+                        </div>
+                    </label>
+                </div>
+            </div>
+
+            {/* Form Actions */}
+            <div className="flex gap-4 pt-6 border-t border-gray-200">
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                    {isSubmitting ? 'Saving...' : 'Save Zone'}
+                </button>
+                <Link
+                    href="/admin/shipping"
+                    className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                    Cancel
+                </Link>
+            </div>
+        </form>
+    );
+}
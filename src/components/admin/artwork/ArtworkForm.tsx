@@ -1,6 +1,6 @@
 'use client';
 
-import { useForm, type FieldValues } from 'react-hook-form';
+import { useFieldArray, useForm, type FieldValues } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { artworkSchema, type ArtworkFormData } from '@/lib/validation/artwork';
 import { useState } from 'react';
@@ -29,8 +29,15 @@ function stringToTags(str: string): string[] | null {
         .filter((tag) => tag.length > 0);
 }
 
+export interface ArtworkProjectOption {
+    id: string;
+    title: string;
+    status: string;
+}
+
 interface ArtworkFormProps {
     initialData?: Partial<ArtworkFormData>;
+    projectOptions?: ArtworkProjectOption[];
     onSubmit?: (data: ArtworkFormData) => Promise<void> | void;
 }
 
@@ -53,6 +60,14 @@ const fieldDescriptions = {
     is_featured:
         'Whether the artwork is featured on the home page. (Not currenltly used)',
     is_limited_edition: 'Whether the artwork is a limited edition.',
+    edition_size:
+        'How many prints are in the limited edition. Each print sold is numbered in order (e.g. 12/50) and gets a certificate of authenticity. Leave empty for an unnumbered edition.',
+    is_original:
+        'Whether this is a one-of-a-kind original. Originals add an insured shipping surcharge per item.',
+    shipping_class:
+        'The size/weight class used for shipping. Large and oversized pieces add a surcharge per item to every shipping option.',
+    project_id:
+        "The In The Works project this piece belongs to. While the project is planning or active, the artwork sells as a pre-order that ships on the project's expected completion date.",
     medium: 'The materials used to create the artwork (e.g., oil on canvas).',
     dimensions: 'The dimensions of the artwork (e.g., 24" x 36").',
     year_created: 'The year the artwork was created.',
@@ -61,10 +76,24 @@ const fieldDescriptions = {
     seo_title: 'A custom title for search engine results.',
     seo_description: 'A custom description for search engine results.',
     tags: 'A comma-separated list of tags for categorization.',
+    variants:
+        'Optional print sizes, finishes and framing options. Each option has its own price, SKU and stock. When options exist, customers must pick one and the price and inventory above are ignored in the shoppe.',
+};
+
+const emptyVariant = {
+    name: '',
+    size: '',
+    finish: '',
+    is_framed: false,
+    price: '',
+    sku: null,
+    inventory_count: 0,
+    is_active: true,
 };
 
 export default function ArtworkForm({
     initialData,
+    projectOptions = [],
     onSubmit,
 }: ArtworkFormProps) {
     const router = useRouter();
@@ -83,6 +112,7 @@ export default function ArtworkForm({
     const {
         register,
         handleSubmit,
+        control,
         formState: { errors },
     } = useForm<FormValues>({
         resolver: zodResolver(formSchema),
@@ -97,6 +127,10 @@ export default function ArtworkForm({
             is_published: initialData?.is_published || false,
             is_featured: initialData?.is_featured || false,
             is_limited_edition: initialData?.is_limited_edition || false,
+            edition_size: initialData?.edition_size ?? null,
+            is_original: initialData?.is_original || false,
+            shipping_class: initialData?.shipping_class || 'standard',
+            project_id: initialData?.project_id || null,
             medium: initialData?.medium || '',
             dimensions: initialData?.dimensions || '',
             year_created: initialData?.year_created || new Date().getFullYear(),
@@ -105,9 +139,20 @@ export default function ArtworkForm({
             seo_title: initialData?.seo_title || '',
             seo_description: initialData?.seo_description || '',
             tags: tagsToString(initialData?.tags),
+            variants: initialData?.variants || [],
         },
     });
 
+    const {
+        fields: variantFields,
+        append: appendVariant,
+        remove: removeVariant,
+    } = useFieldArray({
+        control,
+        name: 'variants',
+        keyName: 'fieldKey', // Keep the variant's own `id` in the form values
+    });
+
     const handleFormSubmit = async (formData: FieldValues) => {
         setIsSubmitting(true);
         setSubmitError(null);
@@ -313,6 +358,30 @@ export default function ArtworkForm({
                     )}
                 </div>
 
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="edition_size" className="admin-label">
+                            Edition Size
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.edition_size} />
+                    </div>
+                    <input
+                        id="edition_size"
+                        type="number"
+                        min={1}
+                        {...register('edition_size', {
+                            setValueAs: (v) =>
+                                v === '' || v === null ? null : Number(v),
+                        })}
+                        className="admin-input"
+                    />
+                    {errors.edition_size && (
+                        <p className="admin-error">
+                            {errors.edition_size.message}
+                        </p>
+                    )}
+                </div>
+
                 <div className="md:col-span-2 space-y-2">
                     <div className="flex items-center">
                         <label htmlFor="medium" className="admin-label">
@@ -372,6 +441,58 @@ export default function ArtworkForm({
                         className="admin-input"
                     />
                 </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="shipping_class" className="admin-label">
+                            Shipping Class
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.shipping_class} />
+                    </div>
+                    <select
+                        id="shipping_class"
+                        {...register('shipping_class')}
+                        className="admin-input"
+                    >
+                        <option value="small">Small</option>
+                        <option value="standard">Standard</option>
+                        <option value="large">Large</option>
+                        <option value="oversized">Oversized</option>
+                    </select>
+                    {errors.shipping_class && (
+                        <p className="admin-error">
+                            {errors.shipping_class.message}
+                        </p>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <label htmlFor="project_id" className="admin-label">
+                            Project (Pre-order)
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.project_id} />
+                    </div>
+                    <select
+                        id="project_id"
+                        {...register('project_id', {
+                            setValueAs: (value) => value || null,
+                        })}
+                        className="admin-input"
+                    >
+                        <option value="">None</option>
+                        {projectOptions.map((project) => (
+                            <option key={project.id} value={project.id}>
+                                {project.title} ({project.status})
+                            </option>
+                        ))}
+                    </select>
+                    {errors.project_id && (
+                        <p className="admin-error">
+                            {errors.project_id.message}
+                        </p>
+                    )}
+                </div>
             </div>
 
             <div className="space-y-4 border-t border-gray-200 pt-4">
@@ -430,6 +551,201 @@ export default function ArtworkForm({
                         />
                     </div>
                 </div>
+
+                <div className="flex items-center">
+                    <input
+                        id="is_original"
+                        type="checkbox"
+                        {...register('is_original')}
+                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    <div className="flex items-center ml-2">
+                        <label
+                            htmlFor="is_original"
+                            className="block text-sm font-medium text-gray-900"
+                        >
+                            Original
+                        </label>
+                        <InfoBalloon text={fieldDescriptions.is_original} />
+                    </div>
+                </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-6 space-y-4">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center">
+                        <h3 className="text-lg font-medium text-gray-900">
+                            Print Options
+                        </h3>
+                        <InfoBalloon text={fieldDescriptions.variants} />
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => appendVariant(emptyVariant)}
+                        className="py-1 px-3 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                        Add Option
+                    </button>
+                </div>
+
+                {variantFields.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                        No print options. This artwork is sold at a single
+                        price.
+                    </p>
+                )}
+
+                {variantFields.map((field, index) => (
+                    <div
+                        key={field.fieldKey}
+                        className="grid grid-cols-1 gap-4 md:grid-cols-4 p-4 border border-gray-200 rounded-md"
+                    >
+                        <div className="md:col-span-2 space-y-1">
+                            <label
+                                htmlFor={`variant-${index}-name`}
+                                className="admin-label"
+                            >
+                                Option Name
+                            </label>
+                            <input
+                                id={`variant-${index}-name`}
+                                type="text"
+                                {...register(`variants.${index}.name`)}
+                                className="admin-input"
+                                placeholder="e.g. 11x14 Framed"
+                            />
+                            {errors.variants?.[index]?.name && (
+                                <p className="admin-error">
+                                    {errors.variants[index].name.message}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-1">
+                            <label
+                                htmlFor={`variant-${index}-size`}
+                                className="admin-label"
+                            >
+                                Size
+                            </label>
+                            <input
+                                id={`variant-${index}-size`}
+                                type="text"
+                                {...register(`variants.${index}.size`)}
+                                className="admin-input"
+                            />
+                        </div>
+
+                        <div className="space-y-1">
+                            <label
+                                htmlFor={`variant-${index}-finish`}
+                                className="admin-label"
+                            >
+                                Finish
+                            </label>
+                            <input
+                                id={`variant-${index}-finish`}
+                                type="text"
+                                {...register(`variants.${index}.finish`)}
+                                className="admin-input"
+                            />
+                        </div>
+
+                        <div className="space-y-1">
+                            <label
+                                htmlFor={`variant-${index}-price`}
+                                className="admin-label"
+                            >
+                                Price
+                            </label>
+                            <input
+                                id={`variant-${index}-price`}
+                                type="text"
+                                {...register(`variants.${index}.price`, {
+                                    setValueAs: (v) =>
+                                        v === '' ? '' : String(v),
+                                })}
+                                className="admin-input"
+                                placeholder="0.00"
+                            />
+                            {errors.variants?.[index]?.price && (
+                                <p className="admin-error">
+                                    {errors.variants[index].price.message}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-1">
+                            <label
+                                htmlFor={`variant-${index}-sku`}
+                                className="admin-label"
+                            >
+                                SKU
+                            </label>
+                            <input
+                                id={`variant-${index}-sku`}
+                                type="text"
+                                {...register(`variants.${index}.sku`, {
+                                    setValueAs: (v) =>
+                                        v === '' || !v ? null : String(v),
+                                })}
+                                className="admin-input"
+                            />
+                        </div>
+
+                        <div className="space-y-1">
+                            <label
+                                htmlFor={`variant-${index}-inventory_count`}
+                                className="admin-label"
+                            >
+                                Inventory
+                            </label>
+                            <input
+                                id={`variant-${index}-inventory_count`}
+                                type="number"
+                                {...register(
+                                    `variants.${index}.inventory_count`,
+                                    { valueAsNumber: true }
+                                )}
+                                className="admin-input"
+                            />
+                            {errors.variants?.[index]?.inventory_count && (
+                                <p className="admin-error">
+                                    {
+                                        errors.variants[index].inventory_count
+                                            .message
+                                    }
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="flex items-end gap-4">
+                            <label className="flex items-center gap-2 text-sm text-gray-900">
+                                <input
+                                    type="checkbox"
+                                    {...register(`variants.${index}.is_framed`)}
+                                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                />
+                                Framed
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-gray-900">
+                                <input
+                                    type="checkbox"
+                                    {...register(`variants.${index}.is_active`)}
+                                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                />
+                                Active
+                            </label>
+                            <button
+                                type="button"
+                                onClick={() => removeVariant(index)}
+                                className="text-sm text-red-600 hover:text-red-900"
+                            >
+                                Remove
+                            </button>
+                        </div>
+                    </div>
+                ))}
             </div>
 
             <div className="grid grid-cols-1 gap-6 md:grid-cols-2 border-t border-gray-200 pt-6">
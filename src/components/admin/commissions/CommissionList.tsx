@@ -0,0 +1,137 @@
+import Link from 'next/link';
+import type { CommissionRow } from '@/lib/db/admin/commissions';
+import {
+    COMMISSION_STATUS_LABELS,
+    type CommissionStatus,
+} from '@/lib/validation/commissions';
+
+interface CommissionListProps {
+    commissions: CommissionRow[];
+}
+
+const STATUS_CLASSES: Record<CommissionStatus, string> = {
+    new: 'text-yellow-800 bg-yellow-100',
+    quoted: 'text-blue-800 bg-blue-100',
+    deposit_paid: 'text-green-800 bg-green-100',
+    in_progress: 'text-indigo-800 bg-indigo-100',
+    delivered: 'text-teal-800 bg-teal-100',
+    cancelled: 'text-red-800 bg-red-100',
+};
+
+/**
+ * Pill showing a commission's pipeline stage
+ */
+export function CommissionStatusBadge({
+    status,
+}: {
+    status: CommissionStatus;
+}) {
+    return (
+        <span
+            className={`inline-flex px-2 text-xs font-semibold leading-5 rounded-full ${STATUS_CLASSES[status]}`}
+        >
+            {COMMISSION_STATUS_LABELS[status]}
+        </span>
+    );
+}
+
+export default function CommissionList({ commissions }: CommissionListProps) {
+    if (!commissions || commissions.length === 0) {
+        return (
+            <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
+                <p>No commission requests found.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Customer
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Subject
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Budget
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Deadline
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Status
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-right text-gray-500 uppercase"
+                        >
+                            Actions
+                        </th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {commissions.map((commission) => (
+                        <tr key={commission.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm font-medium text-gray-900">
+                                    {commission.customer_name}
+                                </div>
+                                <div className="text-sm text-gray-500">
+                                    {commission.customer_email}
+                                </div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                                {commission.subject}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {commission.budget
+                                    ? `$${parseFloat(commission.budget).toFixed(2)}`
+                                    : '—'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {commission.deadline
+                                    ? new Date(
+                                          commission.deadline
+                                      ).toLocaleDateString('en-US', {
+                                          timeZone: 'UTC',
+                                      })
+                                    : '—'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <CommissionStatusBadge
+                                    status={commission.status}
+                                />
+                            </td>
+                            <td className="px-6 py-4 text-sm font-medium text-right whitespace-nowrap">
+                                <Link
+                                    href={`/admin/commissions/${commission.id}`}
+                                    className="text-indigo-600 hover:text-indigo-900"
+                                >
+                                    View
+                                </Link>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import Link from 'next/link';
+import type { CouponRow } from '@/lib/db/admin/coupons';
+import { deleteCouponAction } from '@/app/admin/coupons/actions';
+import { useState } from 'react';
+
+interface CouponListProps {
+    coupons: CouponRow[];
+}
+
+/**
+ * Formats the discount for display, e.g. "15%" or "$10.00"
+ */
+function formatDiscount(coupon: CouponRow): string {
+    const value = parseFloat(coupon.discount_value);
+    return coupon.discount_type === 'percentage'
+        ? `${value}%`
+        : `$${value.toFixed(2)}`;
+}
+
+/**
+ * Describes what the coupon applies to
+ */
+function formatScope(coupon: CouponRow): string {
+    const artworkCount = coupon.applies_to_artwork_ids?.length ?? 0;
+    const tags = coupon.applies_to_tags ?? [];
+
+    if (artworkCount === 0 && tags.length === 0) {
+        return 'Entire cart';
+    }
+
+    return [
+        artworkCount > 0 &&
+            `${artworkCount} artwork${artworkCount === 1 ? '' : 's'}`,
+        tags.length > 0 && `Tags: ${tags.join(', ')}`,
+    ]
+        .filter(Boolean)
+        .join('; ');
+}
+
+export default function CouponList({ coupons }: CouponListProps) {
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    const handleDelete = async (id: string, code: string) => {
+        if (!confirm(`Delete coupon "${code}"? This cannot be undone.`)) {
+            return;
+        }
+
+        setDeletingId(id);
+        try {
+            await deleteCouponAction(id);
+        } catch (error) {
+            alert(
+                error instanceof Error
+                    ? error.message
+                    : 'Failed to delete coupon'
+            );
+            setDeletingId(null);
+        }
+    };
+
+    if (!coupons || coupons.length === 0) {
+        return (
+            <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
+                <p>
+                    No coupons found. Create your first coupon to get started.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Code
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Discount
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Applies To
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Usage
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Expires
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Status
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-right text-gray-500 uppercase"
+                        >
+                            Actions
+                        </th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {coupons.map((coupon) => (
+                        <tr key={coupon.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm font-medium text-gray-900">
+                                    {coupon.code}
+                                </div>
+                                {coupon.description && (
+                                    <div className="text-sm text-gray-500">
+                                        {coupon.description}
+                                    </div>
+                                )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900">
+                                    {formatDiscount(coupon)}
+                                </div>
+                                {coupon.minimum_subtotal && (
+                                    <div className="text-sm text-gray-500">
+                                        Min $
+                                        {parseFloat(
+                                            coupon.minimum_subtotal
+                                        ).toFixed(2)}
+                                    </div>
+                                )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                                {formatScope(coupon)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {coupon.usage_count}
+                                {coupon.usage_limit
+                                    ? ` / ${coupon.usage_limit}`
+                                    : ''}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {coupon.expires_at
+                                    ? new Date(
+                                          coupon.expires_at
+                                      ).toLocaleDateString()
+                                    : 'Never'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <span
+                                    className={`inline-flex px-2 text-xs font-semibold leading-5 rounded-full ${
+                                        coupon.is_active
+                                            ? 'text-green-800 bg-green-100'
+                                            : 'text-yellow-800 bg-yellow-100'
+                                    }`}
+                                >
+                                    {coupon.is_active ? 'Active' : 'Inactive'}
+                                </span>
+                            </td>
+                            <td className="px-6 py-4 text-sm font-medium text-right whitespace-nowrap">
+                                <Link
+                                    href={`/admin/coupons/${coupon.id}/edit`}
+                                    className="text-indigo-600 hover:text-indigo-900 mr-4"
+                                >
+                                    Edit
+                                </Link>
+                                <button
+                                    type="button"
+                                    className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                                    aria-label={`Delete ${coupon.code}`}
+                                    disabled={deletingId === coupon.id}
+                                    onClick={() =>
+                                        handleDelete(coupon.id, coupon.code)
+                                    }
+                                >
+                                    {deletingId === coupon.id
+                                        ? 'Deleting...'
+                                        : 'Delete'}
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,136 @@
+import Link from 'next/link';
+import type { GiftCardRow } from '@/lib/db/admin/gift-cards';
+
+interface GiftCardListProps {
+    giftCards: GiftCardRow[];
+}
+
+/**
+ * Pill showing whether a gift card can be redeemed
+ */
+export function GiftCardStatusBadge({ giftCard }: { giftCard: GiftCardRow }) {
+    if (!giftCard.is_active) {
+        return (
+            <span className="inline-flex px-2 text-xs font-semibold leading-5 rounded-full text-red-800 bg-red-100">
+                Disabled
+            </span>
+        );
+    }
+
+    if (!giftCard.delivered_at) {
+        return (
+            <span className="inline-flex px-2 text-xs font-semibold leading-5 rounded-full text-yellow-800 bg-yellow-100">
+                Scheduled
+            </span>
+        );
+    }
+
+    if (parseFloat(giftCard.balance) === 0) {
+        return (
+            <span className="inline-flex px-2 text-xs font-semibold leading-5 rounded-full text-gray-800 bg-gray-100">
+                Spent
+            </span>
+        );
+    }
+
+    return (
+        <span className="inline-flex px-2 text-xs font-semibold leading-5 rounded-full text-green-800 bg-green-100">
+            Active
+        </span>
+    );
+}
+
+export default function GiftCardList({ giftCards }: GiftCardListProps) {
+    if (!giftCards || giftCards.length === 0) {
+        return (
+            <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
+                <p>No gift cards found.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Code
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Recipient
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Balance
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Delivery
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Status
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-right text-gray-500 uppercase"
+                        >
+                            Actions
+                        </th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {giftCards.map((giftCard) => (
+                        <tr key={giftCard.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap font-mono text-sm text-gray-900">
+                                {giftCard.code}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm font-medium text-gray-900">
+                                    {giftCard.recipient_name}
+                                </div>
+                                <div className="text-sm text-gray-500">
+                                    {giftCard.recipient_email}
+                                </div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {`$${parseFloat(giftCard.balance).toFixed(2)} / $${parseFloat(giftCard.initial_amount).toFixed(2)}`}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {new Date(
+                                    giftCard.deliver_on
+                                ).toLocaleDateString('en-US', {
+                                    timeZone: 'UTC',
+                                })}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <GiftCardStatusBadge giftCard={giftCard} />
+                            </td>
+                            <td className="px-6 py-4 text-sm font-medium text-right whitespace-nowrap">
+                                <Link
+                                    href={`/admin/gift-cards/${giftCard.id}`}
+                                    className="text-indigo-600 hover:text-indigo-900"
+                                >
+                                    View
+                                </Link>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
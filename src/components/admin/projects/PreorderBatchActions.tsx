@@ -0,0 +1,104 @@
+'use client';
+
+import {
+    releasePreordersAction,
+    shipPreordersAction,
+} from '@/app/admin/projects/actions';
+import { useState } from 'react';
+
+interface PreorderBatchActionsProps {
+    projectId: string;
+    projectCompleted: boolean;
+    paidCount: number; // Pre-orders waiting to be released
+    shippableCount: number; // Paid + processing pre-orders
+}
+
+export default function PreorderBatchActions({
+    projectId,
+    projectCompleted,
+    paidCount,
+    shippableCount,
+}: PreorderBatchActionsProps) {
+    const [pending, setPending] = useState<'release' | 'ship' | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const runBatch = async (batch: 'release' | 'ship') => {
+        const prompt =
+            batch === 'release'
+                ? `Move ${paidCount} paid pre-order(s) to processing?`
+                : `Mark ${shippableCount} pre-order(s) as shipped and email their customers?`;
+        if (!confirm(prompt)) {
+            return;
+        }
+
+        setPending(batch);
+        setMessage(null);
+        setError(null);
+        try {
+            if (batch === 'release') {
+                const { updated } = await releasePreordersAction(projectId);
+                setMessage(`Released ${updated} pre-order(s).`);
+            } else {
+                const { updated, emailed } =
+                    await shipPreordersAction(projectId);
+                setMessage(
+                    `Shipped ${updated} pre-order(s) and emailed ${emailed} customer(s).`
+                );
+            }
+        } catch (err) {
+            setError(
+                err instanceof Error
+                    ? err.message
+                    : 'Failed to update pre-orders'
+            );
+        } finally {
+            setPending(null);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {!projectCompleted && (
+                <p className="text-sm text-gray-600">
+                    Pre-orders can be released once the project is marked as
+                    completed.
+                </p>
+            )}
+            <div className="flex gap-3">
+                <button
+                    type="button"
+                    onClick={() => runBatch('release')}
+                    disabled={
+                        !projectCompleted || paidCount === 0 || pending !== null
+                    }
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {pending === 'release'
+                        ? 'Releasing...'
+                        : `Release ${paidCount} Paid`}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => runBatch('ship')}
+                    disabled={
+                        !projectCompleted ||
+                        shippableCount === 0 ||
+                        pending !== null
+                    }
+                    className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {pending === 'ship'
+                        ? 'Shipping...'
+                        : `Mark ${shippableCount} Shipped`}
+                </button>
+            </div>
+            {message && (
+                <p role="status" className="text-sm text-green-700">
+                    {message}
+                </p>
+            )}
+            {error && <p className="admin-error">{error}</p>}
+        </div>
+    );
+}
@@ -153,6 +153,12 @@ export default function ProjectList({ projects }: ProjectListProps) {
                                 >
                                     Edit
                                 </Link>
+                                <Link
+                                    href={`/admin/projects/${project.id}/preorders`}
+                                    className="text-indigo-600 hover:text-indigo-900 mr-4"
+                                >
+                                    Pre-orders
+                                </Link>
                                 <button
                                     type="button"
                                     className="text-red-600 hover:text-red-900 disabled:opacity-50"
@@ -0,0 +1,91 @@
+import type { ShippingCountryBreakdown as CountryTotals } from '@/lib/db/admin/orders';
+import type { ShippingZoneRow } from '@/lib/db/admin/shipping-zones';
+import { findShippingZone, getCountryName } from '@/lib/cart/shipping';
+import { formatCurrency } from '@/lib/utils/currency';
+
+interface ShippingCountryBreakdownProps {
+    breakdown: CountryTotals[];
+    zones: ShippingZoneRow[];
+}
+
+/**
+ * Where orders ship, with the zone that currently serves each country
+ */
+export default function ShippingCountryBreakdown({
+    breakdown,
+    zones,
+}: ShippingCountryBreakdownProps) {
+    if (breakdown.length === 0) {
+        return (
+            <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
+                <p>No orders yet.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Country
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-right text-gray-500 uppercase"
+                        >
+                            Orders
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-right text-gray-500 uppercase"
+                        >
+                            Revenue
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Zone
+                        </th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {breakdown.map((row) => {
+                        const zone = findShippingZone(zones, row.country);
+
+                        return (
+                            <tr key={row.country} className="hover:bg-gray-50">
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                    {getCountryName(row.country)}{' '}
+                                    <span className="text-gray-500">
+                                        ({row.country})
+                                    </span>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                                    {row.order_count}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                                    {formatCurrency(row.revenue)}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                    {zone ? (
+                                        zone.name
+                                    ) : (
+                                        <span className="text-yellow-800">
+                                            Not served
+                                        </span>
+                                    )}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
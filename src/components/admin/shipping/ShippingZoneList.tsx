@@ -0,0 +1,196 @@
+'use client';
+
+import Link from 'next/link';
+import type { ShippingZoneRow } from '@/lib/db/admin/shipping-zones';
+import { deleteShippingZoneAction } from '@/app/admin/shipping/actions';
+import { useState } from 'react';
+
+interface ShippingZoneListProps {
+    zones: ShippingZoneRow[];
+}
+
+/**
+ * Formats a money column for display, e.g. "$8.00"
+ */
+function formatRate(value: string): string {
+    return `$${parseFloat(value).toFixed(2)}`;
+}
+
+/**
+ * Formats a delivery window, e.g. "5-8 days"
+ */
+function formatDays(min: number, max: number): string {
+    return min === max ? `${min} days` : `${min}-${max} days`;
+}
+
+export default function ShippingZoneList({ zones }: ShippingZoneListProps) {
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    const handleDelete = async (id: string, name: string) => {
+        if (
+            !confirm(`Delete shipping zone "${name}"? This cannot be undone.`)
+        ) {
+            return;
+        }
+
+        setDeletingId(id);
+        try {
+            await deleteShippingZoneAction(id);
+        } catch (error) {
+            alert(
+                error instanceof Error
+                    ? error.message
+                    : 'Failed to delete shipping zone'
+            );
+            setDeletingId(null);
+        }
+    };
+
+    if (!zones || zones.length === 0) {
+        return (
+            <div className="p-8 text-center text-gray-500 bg-white rounded-lg border border-gray-200">
+                <p>
+                    No shipping zones found. Checkout only ships to the default
+                    country until you add one.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Zone
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Countries
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Rates
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Delivery
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Originals
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                        >
+                            Status
+                        </th>
+                        <th
+                            scope="col"
+                            className="px-6 py-3 text-xs font-medium tracking-wider text-right text-gray-500 uppercase"
+                        >
+                            Actions
+                        </th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {zones.map((zone) => (
+                        <tr key={zone.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                {zone.name}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                                {zone.countries.join(', ')}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900">
+                                    Standard {formatRate(zone.standard_rate)}
+                                </div>
+                                <div className="text-sm text-gray-500">
+                                    {zone.express_rate
+                                        ? `Express ${formatRate(zone.express_rate)}`
+                                        : 'No express'}
+                                </div>
+                                {zone.free_shipping_minimum && (
+                                    <div className="text-sm text-gray-500">
+                                        Free over{' '}
+                                        {formatRate(zone.free_shipping_minimum)}
+                                    </div>
+                                )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900">
+                                    {formatDays(
+                                        zone.standard_min_days,
+                                        zone.standard_max_days
+                                    )}
+                                </div>
+                                {zone.express_rate &&
+                                    zone.express_min_days !== null &&
+                                    zone.express_max_days !== null && (
+                                        <div className="text-sm text-gray-500">
+                                            Express{' '}
+                                            {formatDays(
+                                                zone.express_min_days,
+                                                zone.express_max_days
+                                            )}
+                                        </div>
+                                    )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {zone.excludes_originals
+                                    ? 'Excluded'
+                                    : 'Allowed'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                                <span
+                                    className={`inline-flex px-2 text-xs font-semibold leading-5 rounded-full ${
+                                        zone.is_active
+                                            ? 'text-green-800 bg-green-100'
+                                            : 'text-yellow-800 bg-yellow-100'
+                                    }`}
+                                >
+                                    {zone.is_active ? 'Active' : 'Inactive'}
+                                </span>
+                            </td>
+                            <td className="px-6 py-4 text-sm font-medium text-right whitespace-nowrap">
+                                <Link
+                                    href={`/admin/shipping/${zone.id}/edit`}
+                                    className="text-indigo-600 hover:text-indigo-900 mr-4"
+                                >
+                                    Edit
+                                </Link>
+                                <button
+                                    type="button"
+                                    className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                                    aria-label={`Delete ${zone.name}`}
+                                    disabled={deletingId === zone.id}
+                                    onClick={() =>
+                                        handleDelete(zone.id, zone.name)
+                                    }
+                                >
+                                    {deletingId === zone.id
+                                        ? 'Deleting...'
+                                        : 'Delete'}
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
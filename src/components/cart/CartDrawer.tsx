@@ -19,6 +19,7 @@
 import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
 import { useCart } from '@/hooks/useCart';
+import { siteConfig } from '@/config/site';
 import { CartItem } from './CartItem';
 import { CartSummary } from './CartSummary';
 
@@ -105,6 +106,11 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     items: cart.items,
+                    couponCode: cart.couponCode,
+                    giftCardCodes: cart.giftCardCodes,
+                    shippingCountry:
+                        cart.shippingCountry ??
+                        siteConfig.shipping.default_country,
                 }),
             });
 
@@ -192,7 +198,10 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                             data-testid="cart-items-list"
                         >
                             {cart.items.map((item) => (
-                                <CartItem key={item.artworkId} item={item} />
+                                <CartItem
+                                    key={`${item.artworkId}:${item.variantId ?? ''}`}
+                                    item={item}
+                                />
                             ))}
                         </div>
                     ) : (
@@ -6,7 +6,7 @@
  * Displays an individual item in the shopping cart with quantity controls.
  *
  * Features:
- * - Product thumbnail, title, and price
+ * - Product thumbnail, title, selected option, and price
  * - Quantity selector (1-10)
  * - Remove button
  * - Line total calculation
@@ -73,6 +73,11 @@ export function CartItem({ item }: CartItemProps) {
                     <p className="text-sm font-medium text-gray-900">
                         {item.title}
                     </p>
+                    {item.variantName && (
+                        <p className="text-xs text-gray-500">
+                            {item.variantName}
+                        </p>
+                    )}
                     <p className="mt-1 text-sm text-gray-500">
                         {formatCurrency(item.price)}
                     </p>
@@ -85,7 +90,8 @@ export function CartItem({ item }: CartItemProps) {
                         onChange={(e) =>
                             updateQuantity(
                                 item.artworkId,
-                                parseInt(e.target.value)
+                                parseInt(e.target.value),
+                                item.variantId
                             )
                         }
                         data-testid="quantity-select"
@@ -104,7 +110,9 @@ export function CartItem({ item }: CartItemProps) {
 
                     {/* Remove Button */}
                     <button
-                        onClick={() => removeItem(item.artworkId)}
+                        onClick={() =>
+                            removeItem(item.artworkId, item.variantId)
+                        }
                         data-testid="remove-item-btn"
                         aria-label={`Remove ${item.title} from cart`}
                         className="text-sm text-gray-500 hover:text-red-600 transition-colors focus:outline-none focus:ring-2 focus:ring-red-600 rounded px-1"
@@ -1,6 +1,5 @@
 'use client';
 
-import { siteConfig } from '@/config/site';
 /**
  * CartSummary Component
  *
@@ -8,16 +7,28 @@ import { siteConfig } from '@/config/site';
  *
  * Features:
  * - Subtotal calculation
- * - Shipping cost (flat rate)
+ * - Coupon code entry (validated server-side via /api/checkout/validate)
+ * - Discount line when a coupon applies
+ * - Gift card code entry, with a line per card showing the amount redeemed
+ * - "Ship to" country selector (countries covered by active shipping zones)
+ * - Shipping cost from the shipping rules (zone rates, free-shipping threshold, surcharges)
+ * - Free-shipping progress and express option hints
  * - Tax display (actual or estimate placeholder)
  * - Total calculation (with or without tax)
  * - Formatted currency display
  */
 
+import { useEffect, useState } from 'react';
 import { useCart } from '@/hooks/useCart';
+import { siteConfig } from '@/config/site';
 import { formatCurrency } from '@/lib/utils/currency';
-
-const SHIPPING_COST = siteConfig.shipping.flat_rate / 100;
+import {
+    calculateShippingOptions,
+    defaultShippingRates,
+    getCountryName,
+    getFreeShippingRemaining,
+} from '@/lib/cart/shipping';
+import type { CartItem, ValidatedCart } from '@/types/cart';
 
 export interface CartSummaryProps {
     /**
@@ -31,15 +42,199 @@ export interface CartSummaryProps {
     total?: number;
 }
 
+/**
+ * Loads the countries covered by an active shipping zone
+ */
+async function fetchShippingCountries(): Promise<string[] | null> {
+    try {
+        const response = await fetch('/api/shipping/countries');
+        const data: { countries?: string[] } = await response.json();
+
+        return Array.isArray(data.countries) ? data.countries : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Asks the server to price the cart (coupon, gift cards and shipping rules
+ * included)
+ */
+async function previewCart(
+    items: CartItem[],
+    couponCode: string | undefined,
+    shippingCountry: string,
+    giftCardCodes: string[] | undefined
+): Promise<ValidatedCart | null> {
+    try {
+        const response = await fetch('/api/checkout/validate', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                items,
+                couponCode,
+                shippingCountry,
+                giftCardCodes,
+            }),
+        });
+        const data: { cart?: ValidatedCart } = await response.json();
+
+        return data.cart ?? null;
+    } catch {
+        return null;
+    }
+}
+
 export function CartSummary({
     taxAmount,
     total: providedTotal,
 }: CartSummaryProps = {}) {
-    const { getTotal } = useCart();
+    const {
+        cart,
+        getTotal,
+        applyCoupon,
+        removeCoupon,
+        applyGiftCard,
+        removeGiftCard,
+        setShippingCountry,
+    } = useCart();
+    const [couponInput, setCouponInput] = useState('');
+    const [giftCardInput, setGiftCardInput] = useState('');
+    const [shippingCountries, setShippingCountries] = useState<string[]>([
+        siteConfig.shipping.default_country,
+    ]);
+    const [preview, setPreview] = useState<{
+        items: CartItem[];
+        country: string;
+        cart: ValidatedCart | null;
+    } | null>(null);
+    const [couponError, setCouponError] = useState<string | null>(null);
+    const [giftCardError, setGiftCardError] = useState<string | null>(null);
+
+    const shippingCountry =
+        cart.shippingCountry ?? siteConfig.shipping.default_country;
+
+    // Load the "Ship to" choices once
+    useEffect(() => {
+        let cancelled = false;
+
+        fetchShippingCountries().then((countries) => {
+            if (!cancelled && countries && countries.length > 0) {
+                setShippingCountries(countries);
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    // Re-price the cart whenever the codes, destination or contents change
+    useEffect(() => {
+        if (cart.items.length === 0) {
+            return;
+        }
+
+        let cancelled = false;
+        const items = cart.items;
+        const couponCode = cart.couponCode;
+        const giftCardCodes = cart.giftCardCodes;
+
+        previewCart(items, couponCode, shippingCountry, giftCardCodes).then(
+            (validated) => {
+                if (cancelled) {
+                    return;
+                }
+
+                setPreview({
+                    items,
+                    country: shippingCountry,
+                    cart: validated,
+                });
+
+                // Rejected gift cards are removed, keeping the valid ones
+                const rejectedGiftCards = (giftCardCodes ?? []).filter(
+                    (code) =>
+                        !validated?.giftCards?.some(
+                            (giftCard) => giftCard.code === code
+                        )
+                );
+                if (rejectedGiftCards.length > 0) {
+                    setGiftCardError(
+                        validated?.giftCardError ||
+                            'Unable to apply this gift card'
+                    );
+                    rejectedGiftCards.forEach(removeGiftCard);
+                }
+
+                if (!couponCode) {
+                    return;
+                }
+
+                if (validated?.coupon) {
+                    setCouponError(null);
+                } else {
+                    setCouponError(
+                        validated?.couponError || 'Unable to apply this coupon'
+                    );
+                    removeCoupon();
+                }
+            }
+        );
+
+        return () => {
+            cancelled = true;
+        };
+    }, [
+        cart.items,
+        cart.couponCode,
+        cart.giftCardCodes,
+        shippingCountry,
+        removeCoupon,
+        removeGiftCard,
+    ]);
+
+    // Only trust a preview of the current items, destination and coupon code
+    const currentPreview =
+        preview &&
+        preview.items === cart.items &&
+        preview.country === shippingCountry
+            ? preview.cart
+            : null;
+    const activeCoupon =
+        currentPreview?.coupon && currentPreview.coupon.code === cart.couponCode
+            ? currentPreview.coupon
+            : null;
+
+    const activeGiftCards = (currentPreview?.giftCards ?? []).filter(
+        (giftCard) => cart.giftCardCodes?.includes(giftCard.code)
+    );
 
     const subtotal = getTotal();
-    const shipping = SHIPPING_COST;
-    const calculatedTotal = subtotal + shipping;
+    const discount = activeCoupon?.discountAmount ?? 0;
+    const giftCardAmount = activeGiftCards.reduce(
+        (sum, giftCard) => sum + giftCard.redeemedAmount,
+        0
+    );
+
+    // Server options know the destination zone and each artwork's shipping
+    // class; fall back to the default rules until the preview arrives
+    const shippingError = currentPreview?.shippingError;
+    const shippingOptions = currentPreview?.shippingOptions?.length
+        ? currentPreview.shippingOptions
+        : shippingError
+          ? []
+          : calculateShippingOptions(cart.items, subtotal - discount);
+    const [standardShipping, expressShipping] = shippingOptions;
+    const shipping = standardShipping?.amount ?? 0;
+    const freeShippingRemaining = getFreeShippingRemaining(
+        subtotal - discount,
+        currentPreview?.shippingZone ?? defaultShippingRates
+    );
+    const countryOptions = shippingCountries.includes(shippingCountry)
+        ? shippingCountries
+        : [shippingCountry, ...shippingCountries];
+    const calculatedTotal = subtotal - discount - giftCardAmount + shipping;
 
     // Use provided total if available, otherwise calculate
     const total = providedTotal ?? calculatedTotal;
@@ -47,6 +242,28 @@ export function CartSummary({
     // Determine if we should show actual tax or placeholder
     const showActualTax = taxAmount !== undefined;
 
+    const handleApplyCoupon = (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = couponInput.trim();
+        if (!code) {
+            return;
+        }
+        setCouponError(null);
+        applyCoupon(code);
+        setCouponInput('');
+    };
+
+    const handleApplyGiftCard = (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = giftCardInput.trim();
+        if (!code) {
+            return;
+        }
+        setGiftCardError(null);
+        applyGiftCard(code);
+        setGiftCardInput('');
+    };
+
     return (
         <div className="border-t border-gray-200 pt-4 space-y-2">
             {/* Subtotal */}
@@ -57,13 +274,91 @@ export function CartSummary({
                 </span>
             </div>
 
+            {/* Discount */}
+            {activeCoupon && (
+                <div
+                    className="flex justify-between text-sm"
+                    data-testid="cart-discount"
+                >
+                    <span className="text-gray-600">
+                        Discount ({activeCoupon.code})
+                        <button
+                            type="button"
+                            onClick={removeCoupon}
+                            className="ml-2 text-xs text-gray-500 underline hover:text-black"
+                            aria-label={`Remove coupon ${activeCoupon.code}`}
+                        >
+                            Remove
+                        </button>
+                    </span>
+                    <span className="font-medium text-green-700">
+                        -{formatCurrency(discount)}
+                    </span>
+                </div>
+            )}
+
+            {/* Shipping destination */}
+            <div className="flex justify-between items-center text-sm">
+                <label htmlFor="shipping-country" className="text-gray-600">
+                    Ship to
+                </label>
+                <select
+                    id="shipping-country"
+                    value={shippingCountry}
+                    onChange={(e) => setShippingCountry(e.target.value)}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm text-black"
+                >
+                    {countryOptions.map((country) => (
+                        <option key={country} value={country}>
+                            {getCountryName(country)}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
             {/* Shipping */}
             <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Shipping</span>
-                <span className="font-medium text-gray-900">
-                    {formatCurrency(shipping)}
+                <span
+                    className="font-medium text-gray-900"
+                    data-testid="cart-shipping"
+                >
+                    {!standardShipping
+                        ? 'Unavailable'
+                        : shipping === 0
+                          ? 'Free'
+                          : formatCurrency(shipping)}
                 </span>
             </div>
+            {shippingError && (
+                <p
+                    className="text-sm text-red-600"
+                    role="alert"
+                    data-testid="shipping-error"
+                >
+                    {shippingError}
+                </p>
+            )}
+            {cart.items.length > 0 && standardShipping && (
+                <div
+                    className="text-xs text-gray-500 space-y-1"
+                    data-testid="shipping-hints"
+                >
+                    {!!freeShippingRemaining && (
+                        <p>
+                            Add {formatCurrency(freeShippingRemaining)} more for
+                            free standard shipping
+                        </p>
+                    )}
+                    {expressShipping && (
+                        <p>
+                            Express shipping (
+                            {formatCurrency(expressShipping.amount)}) available
+                            at checkout
+                        </p>
+                    )}
+                </div>
+            )}
 
             {/* Tax */}
             <div className="flex justify-between text-sm">
@@ -79,6 +374,30 @@ export function CartSummary({
                 )}
             </div>
 
+            {/* Gift cards */}
+            {activeGiftCards.map((giftCard) => (
+                <div
+                    key={giftCard.code}
+                    className="flex justify-between text-sm"
+                    data-testid="cart-gift-card"
+                >
+                    <span className="text-gray-600">
+                        Gift card ({giftCard.code})
+                        <button
+                            type="button"
+                            onClick={() => removeGiftCard(giftCard.code)}
+                            className="ml-2 text-xs text-gray-500 underline hover:text-black"
+                            aria-label={`Remove gift card ${giftCard.code}`}
+                        >
+                            Remove
+                        </button>
+                    </span>
+                    <span className="font-medium text-green-700">
+                        -{formatCurrency(giftCard.redeemedAmount)}
+                    </span>
+                </div>
+            ))}
+
             {/* Total */}
             <div className="flex justify-between text-base font-semibold border-t border-gray-200 pt-2 mt-2">
                 <span className="text-gray-900">Total</span>
@@ -86,6 +405,78 @@ export function CartSummary({
                     {formatCurrency(total)}
                 </span>
             </div>
+
+            {/* Coupon entry */}
+            {!cart.couponCode && (
+                <form
+                    onSubmit={handleApplyCoupon}
+                    className="flex gap-2 pt-2"
+                    data-testid="coupon-form"
+                >
+                    <label htmlFor="coupon-code" className="sr-only">
+                        Coupon code
+                    </label>
+                    <input
+                        id="coupon-code"
+                        type="text"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value)}
+                        placeholder="Coupon code"
+                        className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm text-black"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!couponInput.trim()}
+                        className="border border-black rounded px-3 py-1 text-sm font-semibold text-black hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Apply
+                    </button>
+                </form>
+            )}
+            {couponError && (
+                <p
+                    className="text-sm text-red-600"
+                    role="alert"
+                    data-testid="coupon-error"
+                >
+                    {couponError}
+                </p>
+            )}
+
+            {/* Gift card entry */}
+            <form
+                onSubmit={handleApplyGiftCard}
+                className="flex gap-2 pt-2"
+                data-testid="gift-card-form"
+            >
+                <label htmlFor="gift-card-code" className="sr-only">
+                    Gift card code
+                </label>
+                <input
+                    id="gift-card-code"
+                    type="text"
+                    value={giftCardInput}
+                    onChange={(e) => setGiftCardInput(e.target.value)}
+                    placeholder="Gift card code"
+                    className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm text-black"
+                />
+                <button
+                    type="submit"
+                    disabled={!giftCardInput.trim()}
+                    className="border border-black rounded px-3 py-1 text-sm font-semibold text-black hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Redeem
+                </button>
+            </form>
+            {giftCardError && (
+                <p
+                    className="text-sm text-red-600"
+                    role="alert"
+                    data-testid="gift-card-error"
+                >
+                    {giftCardError}
+                </p>
+            )}
         </div>
     );
 }
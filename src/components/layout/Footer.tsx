@@ -71,6 +71,12 @@ export function Footer() {
                                     {card.title}
                                 </Link>
                             ))}
+                            <Link
+                                href="/account"
+                                className="block hover:underline focus:outline-none focus:ring-2 focus:ring-black rounded"
+                            >
+                                My Account
+                            </Link>
                         </nav>
                     </div>
 
@@ -3,6 +3,7 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
+import { SearchBox } from './SearchBox';
 
 // Dynamically import CartButton to avoid SSR issues with localStorage
 // Loading component prevents layout shift
@@ -28,6 +29,7 @@ const CartButton = dynamic(
  * - White background with black text
  * - Responsive design
  * - Logo from static assets
+ * - Site search (top-left)
  * - Shopping cart button (top-right)
  * - Prevents layout shift with CartButton placeholder
  */
@@ -39,8 +41,10 @@ export function Header() {
         >
             <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-2 sm:py-3 lg:py-4">
                 <div className="flex items-center justify-between">
-                    {/* Spacer for alignment */}
-                    <div className="w-10" aria-hidden="true" />
+                    {/* Search (left-aligned) */}
+                    <div className="flex flex-1 justify-start">
+                        <SearchBox />
+                    </div>
 
                     {/* Logo (centered) */}
                     <Link
@@ -59,7 +63,9 @@ export function Header() {
                     </Link>
 
                     {/* Cart Button (right-aligned) */}
-                    <CartButton />
+                    <div className="flex flex-1 justify-end">
+                        <CartButton />
+                    </div>
                 </div>
             </div>
         </header>
@@ -0,0 +1,50 @@
+/**
+ * SearchBox Component
+ *
+ * Header search form. A plain GET form to /search, so it works before
+ * hydration; on small screens only the button shows and the search page
+ * has the full form.
+ */
+
+export function SearchBox() {
+    return (
+        <form
+            action="/search"
+            method="get"
+            role="search"
+            className="flex items-center"
+        >
+            <label htmlFor="site-search" className="sr-only">
+                Search the site
+            </label>
+            <input
+                id="site-search"
+                type="search"
+                name="q"
+                placeholder="Search"
+                className="hidden sm:block w-32 lg:w-48 px-2 py-1 text-sm text-black bg-white border-2 border-black rounded-lg focus:outline-none focus:ring-2 focus:ring-black"
+            />
+            <button
+                type="submit"
+                aria-label="Search"
+                className="p-2 text-black hover:bg-gray-100 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-2"
+            >
+                <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={2}
+                    stroke="currentColor"
+                    className="w-6 h-6"
+                    aria-hidden="true"
+                >
+                    <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z"
+                    />
+                </svg>
+            </button>
+        </form>
+    );
+}
@@ -2,7 +2,7 @@
  * AddToCartButton Component
  *
  * Client-side button for adding products to the shopping cart.
- * Provides quantity selection and visual feedback on add.
+ * Provides option (variant) and quantity selection and visual feedback on add.
  */
 
 'use client';
@@ -11,6 +11,16 @@ import { useState } from 'react';
 import { useCart } from '@/hooks/useCart';
 import { CartItem } from '@/types/cart';
 
+/**
+ * A purchasable print size / finish / framing option of an artwork
+ */
+export interface ProductVariantOption {
+    id: string;
+    name: string;
+    price: string; // As string from database
+    inventoryCount: number; // Available stock (excludes stock held by open checkouts)
+}
+
 export interface AddToCartButtonProps {
     /**
      * Unique identifier for the artwork
@@ -38,15 +48,29 @@ export interface AddToCartButtonProps {
     imageUrl?: string;
 
     /**
-     * Maximum quantity available for purchase
+     * Maximum quantity available for purchase (inventory minus stock held
+     * by open checkouts)
      */
     maxQuantity: number;
+
+    /**
+     * Optional print size / framing options. When present, the selected
+     * option's price and inventory replace `price` and `maxQuantity`.
+     */
+    variants?: ProductVariantOption[];
+
+    /**
+     * Sold as a pre-order (artwork from an In The Works project); labels the
+     * button "Pre-order" instead of "Add to Cart"
+     */
+    isPreorder?: boolean;
 }
 
 /**
  * AddToCartButton allows users to select a quantity and add an item to their cart.
  *
  * Features:
+ * - Option selector when the artwork has variants (price follows the option)
  * - Quantity selector (1 to min(maxQuantity, 10))
  * - Add to cart button with loading state
  * - Success feedback ("Added!" message)
@@ -71,11 +95,29 @@ export function AddToCartButton({
     slug,
     imageUrl,
     maxQuantity,
+    variants,
+    isPreorder = false,
 }: AddToCartButtonProps) {
+    const hasVariants = Boolean(variants && variants.length > 0);
+    const [selectedVariantId, setSelectedVariantId] = useState(
+        () =>
+            (
+                variants?.find((variant) => variant.inventoryCount > 0) ??
+                variants?.[0]
+            )?.id
+    );
     const [quantity, setQuantity] = useState(1);
     const [isAdding, setIsAdding] = useState(false);
     const { addItem } = useCart();
 
+    const selectedVariant = hasVariants
+        ? variants?.find((variant) => variant.id === selectedVariantId)
+        : undefined;
+    const effectivePrice = selectedVariant ? selectedVariant.price : price;
+    const effectiveMaxQuantity = hasVariants
+        ? (selectedVariant?.inventoryCount ?? 0)
+        : maxQuantity;
+
     /**
      * Handles adding the selected item to the cart
      */
@@ -85,11 +127,15 @@ export function AddToCartButton({
         const item: CartItem = {
             artworkId,
             title,
-            price: parseFloat(price), // Convert string to number for cart
+            price: parseFloat(effectivePrice), // Convert string to number for cart
             quantity,
             slug,
             imageUrl,
-            maxQuantity,
+            maxQuantity: effectiveMaxQuantity,
+            ...(selectedVariant && {
+                variantId: selectedVariant.id,
+                variantName: selectedVariant.name,
+            }),
         };
 
         addItem(item);
@@ -101,10 +147,43 @@ export function AddToCartButton({
     };
 
     // Calculate available quantity options (max 10)
-    const quantityOptions = Math.min(maxQuantity, 10);
+    const quantityOptions = Math.min(effectiveMaxQuantity, 10);
 
     return (
         <div className="space-y-3">
+            {hasVariants && (
+                <div className="flex items-center gap-2">
+                    <label
+                        htmlFor={`variant-${artworkId}`}
+                        className="text-sm font-semibold"
+                    >
+                        Option:
+                    </label>
+                    <select
+                        id={`variant-${artworkId}`}
+                        value={selectedVariantId}
+                        onChange={(e) => {
+                            setSelectedVariantId(e.target.value);
+                            setQuantity(1);
+                        }}
+                        className="border-2 border-black rounded px-2 py-1 text-black"
+                    >
+                        {variants?.map((variant) => (
+                            <option
+                                key={variant.id}
+                                value={variant.id}
+                                disabled={variant.inventoryCount === 0}
+                            >
+                                {variant.name} - ${variant.price}
+                                {variant.inventoryCount === 0
+                                    ? ' (sold out)'
+                                    : ''}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
             <div className="flex items-center gap-2">
                 <label
                     htmlFor={`quantity-${artworkId}`}
@@ -132,11 +211,11 @@ export function AddToCartButton({
             <button
                 type="button"
                 onClick={handleAddToCart}
-                disabled={isAdding || maxQuantity === 0}
+                disabled={isAdding || effectiveMaxQuantity === 0}
                 data-testid="add-to-cart-btn"
                 className="w-full bg-black text-white px-4 py-2 rounded font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
             >
-                {isAdding ? 'Added!' : 'Add to Cart'}
+                {isAdding ? 'Added!' : isPreorder ? 'Pre-order' : 'Add to Cart'}
             </button>
         </div>
     );
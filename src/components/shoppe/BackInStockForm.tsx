@@ -0,0 +1,133 @@
+/**
+ * BackInStockForm Component
+ *
+ * "Notify me" email capture for sold-out products. Sign-ups are emailed once
+ * when the artwork is restocked.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { z } from 'zod';
+
+const emailSchema = z
+    .string()
+    .trim()
+    .email('Please enter a valid email address');
+
+export interface BackInStockFormProps {
+    /**
+     * Unique identifier for the sold-out artwork
+     */
+    artworkId: string;
+}
+
+/**
+ * BackInStockForm lets customers join the waitlist for a sold-out artwork.
+ *
+ * Features:
+ * - Client-side email validation
+ * - Loading state while the sign-up is saved
+ * - Confirmation message on success, inline error on failure
+ *
+ * @example
+ * ```tsx
+ * <BackInStockForm artworkId="123" />
+ * ```
+ */
+export function BackInStockForm({ artworkId }: BackInStockFormProps) {
+    const [email, setEmail] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitted, setSubmitted] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const result = emailSchema.safeParse(email);
+        if (!result.success) {
+            setError(result.error.issues[0].message);
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/waitlist', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ artworkId, email: result.data }),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to join waitlist');
+            }
+
+            setSubmitted(true);
+        } catch (err) {
+            console.error('Waitlist sign-up error:', err);
+            setError("We couldn't save your email. Please try again.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (submitted) {
+        return (
+            <p
+                role="status"
+                className="mt-6 bg-green-100 border-2 border-green-600 text-green-800 px-4 py-3 rounded"
+            >
+                Thanks! We&apos;ll email you when this item is back in stock.
+            </p>
+        );
+    }
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            noValidate
+            className="mt-6 border-2 border-black rounded p-4 space-y-3"
+        >
+            <label
+                htmlFor={`waitlist-email-${artworkId}`}
+                className="block font-semibold"
+            >
+                Notify me when this is back in stock
+            </label>
+            <div className="flex gap-2">
+                <input
+                    type="email"
+                    id={`waitlist-email-${artworkId}`}
+                    value={email}
+                    onChange={(e) => {
+                        setEmail(e.target.value);
+                        setError(null);
+                    }}
+                    placeholder="your@email.com"
+                    aria-invalid={!!error}
+                    aria-describedby={
+                        error ? `waitlist-error-${artworkId}` : undefined
+                    }
+                    className="flex-1 border-2 border-black rounded px-3 py-2 text-black"
+                />
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="bg-black text-white px-4 py-2 rounded font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                    {isSubmitting ? 'Saving...' : 'Notify Me'}
+                </button>
+            </div>
+            {error && (
+                <p
+                    id={`waitlist-error-${artworkId}`}
+                    className="text-red-600 text-sm"
+                >
+                    {error}
+                </p>
+            )}
+        </form>
+    );
+}
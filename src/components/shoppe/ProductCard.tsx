@@ -8,7 +8,7 @@
 
 import Image from 'next/image';
 import Link from 'next/link';
-import { AddToCartButton } from './AddToCartButton';
+import { AddToCartButton, type ProductVariantOption } from './AddToCartButton';
 
 export interface ProductCardProps {
     id: string;
@@ -21,6 +21,7 @@ export interface ProductCardProps {
     altText: string | null;
     slug: string;
     headingLevel?: 'h2' | 'h3';
+    variants?: ProductVariantOption[];
 }
 
 /**
@@ -29,7 +30,7 @@ export interface ProductCardProps {
  * Features:
  * - Product image with hover zoom
  * - Title and description
- * - Price display with sale pricing
+ * - Price display with sale pricing ("From" pricing for multi-option listings)
  * - Low stock warning
  * - Add to cart functionality
  * - View details link
@@ -60,8 +61,16 @@ export function ProductCard({
     altText,
     slug,
     headingLevel = 'h2',
+    variants,
 }: ProductCardProps) {
     const HeadingTag = headingLevel;
+    const hasVariants = Boolean(variants && variants.length > 0);
+    const lowestPrice = hasVariants
+        ? Math.min(...(variants ?? []).map((v) => parseFloat(v.price)))
+        : null;
+    const stockCount = hasVariants
+        ? (variants ?? []).reduce((sum, v) => sum + v.inventoryCount, 0)
+        : inventoryCount;
 
     return (
         <div className="border-2 border-black rounded overflow-hidden hover:shadow-lg transition-shadow">
@@ -101,8 +110,12 @@ export function ProductCard({
 
                 {/* Price */}
                 <div className="mb-6 border-t border-gray-300 pt-4">
-                    <p className="text-2xl font-bold text-black">${price}</p>
-                    {originalPrice && (
+                    <p className="text-2xl font-bold text-black">
+                        {lowestPrice !== null
+                            ? `From $${lowestPrice.toFixed(2)}`
+                            : `$${price}`}
+                    </p>
+                    {originalPrice && !hasVariants && (
                         <p className="text-sm text-gray-500 line-through">
                             ${originalPrice}
                         </p>
@@ -110,9 +123,9 @@ export function ProductCard({
                 </div>
 
                 {/* Inventory Status */}
-                {inventoryCount < 5 && (
+                {stockCount < 5 && (
                     <p className="text-red-600 text-sm font-semibold mb-4">
-                        Only {inventoryCount} left in stock
+                        Only {stockCount} left in stock
                     </p>
                 )}
 
@@ -124,6 +137,7 @@ export function ProductCard({
                     slug={slug}
                     imageUrl={imageThumbnailUrl || undefined}
                     maxQuantity={inventoryCount}
+                    variants={variants}
                 />
 
                 {/* View Details Link */}
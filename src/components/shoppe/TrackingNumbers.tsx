@@ -0,0 +1,64 @@
+/**
+ * TrackingNumbers Component
+ *
+ * Lists the packages an order shipped in, each linked to its carrier's
+ * tracking page.
+ */
+
+import type { OrderShipment } from '@/types/order';
+
+export interface TrackingNumbersProps {
+    shipments: OrderShipment[];
+    className?: string;
+}
+
+/**
+ * TrackingNumbers shows an order's tracking numbers to the customer.
+ *
+ * Numbers whose carrier is unknown are shown without a link. Renders
+ * nothing when the order hasn't shipped.
+ *
+ * @example
+ * ```tsx
+ * <TrackingNumbers shipments={order.shipments ?? []} className="mb-6" />
+ * ```
+ */
+export function TrackingNumbers({
+    shipments,
+    className,
+}: TrackingNumbersProps) {
+    if (shipments.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className={className}>
+            <p className="font-semibold">
+                {shipments.length === 1
+                    ? 'Tracking number:'
+                    : 'Tracking numbers:'}
+            </p>
+            <ul>
+                {shipments.map((shipment) => (
+                    <li key={shipment.trackingNumber}>
+                        {shipment.carrierName && `${shipment.carrierName} `}
+                        {shipment.trackingUrl ? (
+                            <a
+                                href={shipment.trackingUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-mono underline"
+                            >
+                                {shipment.trackingNumber}
+                            </a>
+                        ) : (
+                            <span className="font-mono">
+                                {shipment.trackingNumber}
+                            </span>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
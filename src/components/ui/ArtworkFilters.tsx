@@ -0,0 +1,267 @@
+/**
+ * ArtworkFilters Component
+ *
+ * Filter and sort controls for the Gallery and Shoppe grids. All state lives
+ * in the URL: tags are plain links (so crawlers can follow them) and the
+ * rest is a GET form, which also works without JavaScript.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { ArtworkFacets } from '@/lib/db/artwork';
+import {
+    ARTWORK_SORTS,
+    ARTWORK_SORT_LABELS,
+    hasActiveArtworkFilters,
+    parseArtworkFilters,
+    toArtworkFilterQuery,
+    type ArtworkFilters as ArtworkFilterValues,
+} from '@/lib/validation/artwork-filters';
+
+export interface ArtworkFiltersProps {
+    basePath: string;
+    filters: ArtworkFilterValues;
+    facets: ArtworkFacets;
+    resultCount: number;
+    showStockFilter?: boolean;
+}
+
+/**
+ * Builds a link to the grid with the given filters
+ */
+function filterHref(basePath: string, query: string): string {
+    return query ? `${basePath}?${query}` : basePath;
+}
+
+export function ArtworkFilters({
+    basePath,
+    filters,
+    facets,
+    resultCount,
+    showStockFilter = true,
+}: ArtworkFiltersProps) {
+    const router = useRouter();
+
+    // With JavaScript, skip empty fields so the URL only holds filters in use
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        const formData = new FormData(e.currentTarget);
+        const values = parseArtworkFilters(
+            Object.fromEntries(
+                Array.from(formData.entries()).map(([name, value]) => [
+                    name,
+                    String(value),
+                ])
+            )
+        );
+
+        router.push(
+            filterHref(
+                basePath,
+                toArtworkFilterQuery({ ...values, tag: filters.tag })
+            )
+        );
+    };
+
+    const inputClass =
+        'w-full border-2 border-black rounded px-2 py-1 bg-white text-black';
+
+    return (
+        <section aria-label="Filter artwork" className="mb-12 space-y-4">
+            {facets.tags.length > 0 && (
+                <nav aria-label="Tags" className="flex flex-wrap gap-2">
+                    {facets.tags.map((tag) => {
+                        const isActive = filters.tag === tag;
+                        return (
+                            <Link
+                                key={tag}
+                                href={filterHref(
+                                    basePath,
+                                    toArtworkFilterQuery(filters, {
+                                        tag: isActive ? undefined : tag,
+                                    })
+                                )}
+                                aria-current={isActive ? 'page' : undefined}
+                                className={`px-3 py-1 text-sm border-2 border-black rounded-full transition-colors ${
+                                    isActive
+                                        ? 'bg-black text-white'
+                                        : 'bg-white text-black hover:bg-gray-100'
+                                }`}
+                            >
+                                {tag}
+                            </Link>
+                        );
+                    })}
+                </nav>
+            )}
+
+            <form
+                method="get"
+                action={basePath}
+                onSubmit={handleSubmit}
+                className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 items-end"
+            >
+                {filters.tag && (
+                    <input type="hidden" name="tag" value={filters.tag} />
+                )}
+
+                <label className="text-sm">
+                    <span className="block mb-1 font-semibold">Sort by</span>
+                    <select
+                        name="sort"
+                        defaultValue={filters.sort}
+                        className={inputClass}
+                    >
+                        {ARTWORK_SORTS.map((sort) => (
+                            <option key={sort} value={sort}>
+                                {ARTWORK_SORT_LABELS[sort]}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+
+                {facets.mediums.length > 0 && (
+                    <label className="text-sm">
+                        <span className="block mb-1 font-semibold">Medium</span>
+                        <select
+                            name="medium"
+                            defaultValue={filters.medium ?? ''}
+                            className={inputClass}
+                        >
+                            <option value="">Any</option>
+                            {facets.mediums.map((medium) => (
+                                <option key={medium} value={medium}>
+                                    {medium}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+
+                {facets.years && (
+                    <fieldset className="text-sm col-span-2 md:col-span-1">
+                        <legend className="mb-1 font-semibold">Year</legend>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                name="min_year"
+                                aria-label="From year"
+                                placeholder={String(facets.years.min)}
+                                min={facets.years.min}
+                                max={facets.years.max}
+                                defaultValue={filters.minYear}
+                                className={inputClass}
+                            />
+                            <input
+                                type="number"
+                                name="max_year"
+                                aria-label="To year"
+                                placeholder={String(facets.years.max)}
+                                min={facets.years.min}
+                                max={facets.years.max}
+                                defaultValue={filters.maxYear}
+                                className={inputClass}
+                            />
+                        </div>
+                    </fieldset>
+                )}
+
+                {facets.prices && (
+                    <fieldset className="text-sm col-span-2 md:col-span-1">
+                        <legend className="mb-1 font-semibold">
+                            Price ($)
+                        </legend>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                name="min_price"
+                                aria-label="Minimum price"
+                                placeholder={String(
+                                    Math.floor(facets.prices.min)
+                                )}
+                                min={0}
+                                step="any"
+                                defaultValue={filters.minPrice}
+                                className={inputClass}
+                            />
+                            <input
+                                type="number"
+                                name="max_price"
+                                aria-label="Maximum price"
+                                placeholder={String(
+                                    Math.ceil(facets.prices.max)
+                                )}
+                                min={0}
+                                step="any"
+                                defaultValue={filters.maxPrice}
+                                className={inputClass}
+                            />
+                        </div>
+                    </fieldset>
+                )}
+
+                <div className="text-sm space-y-1">
+                    {showStockFilter && (
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                name="in_stock"
+                                value="1"
+                                defaultChecked={filters.inStock}
+                            />
+                            In stock
+                        </label>
+                    )}
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            name="limited"
+                            value="1"
+                            defaultChecked={filters.limitedEdition}
+                        />
+                        Limited edition
+                    </label>
+                </div>
+
+                <div className="flex gap-2">
+                    <button
+                        type="submit"
+                        className="px-4 py-2 bg-black text-white rounded font-semibold hover:bg-gray-800"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </form>
+
+            <p className="text-sm text-gray-600" role="status">
+                {resultCount} {resultCount === 1 ? 'piece' : 'pieces'}
+                {hasActiveArtworkFilters(filters) && (
+                    <>
+                        {' · '}
+                        <Link
+                            href={filterHref(
+                                basePath,
+                                toArtworkFilterQuery(filters, {
+                                    tag: undefined,
+                                    medium: undefined,
+                                    minYear: undefined,
+                                    maxYear: undefined,
+                                    minPrice: undefined,
+                                    maxPrice: undefined,
+                                    inStock: false,
+                                    limitedEdition: false,
+                                })
+                            )}
+                            className="underline hover:text-black"
+                        >
+                            Clear filters
+                        </Link>
+                    </>
+                )}
+            </p>
+        </section>
+    );
+}
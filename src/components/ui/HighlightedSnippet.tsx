@@ -0,0 +1,39 @@
+import {
+    SNIPPET_HIGHLIGHT_END,
+    SNIPPET_HIGHLIGHT_START,
+} from '@/lib/db/search';
+
+interface HighlightedSnippetProps {
+    snippet: string;
+    className?: string;
+}
+
+/**
+ * Renders a search snippet with its matched words in <mark>.
+ *
+ * The snippet is split on the highlight markers and rendered as text, never
+ * as HTML, so descriptions can't inject markup.
+ */
+export function HighlightedSnippet({
+    snippet,
+    className,
+}: HighlightedSnippetProps) {
+    const parts = snippet.split(SNIPPET_HIGHLIGHT_START);
+
+    return (
+        <p className={className}>
+            {parts[0]}
+            {parts.slice(1).map((part, index) => {
+                const [match, ...rest] = part.split(SNIPPET_HIGHLIGHT_END);
+                return (
+                    <span key={index}>
+                        <mark className="bg-yellow-200 text-black">
+                            {match}
+                        </mark>
+                        {rest.join(SNIPPET_HIGHLIGHT_END)}
+                    </span>
+                );
+            })}
+        </p>
+    );
+}
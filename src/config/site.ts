@@ -20,10 +20,36 @@ export const siteConfig = {
             'I typically respond to emails within 1-2 business days. Thank you for reaching out!',
     },
 
-    // Shipping Information
+    // Shipping Information (amounts in cents; applied by src/lib/cart/shipping.ts)
+    // Base rates are per shipping zone (admin-managed); these are the
+    // defaults for carts without a destination. Surcharges apply in every zone.
     shipping: {
+        default_country: 'US', // Preselected "Ship to" country in the cart
         flat_rate: 800,
-        free_shipping_minimum: 10000,
+        free_shipping_minimum: 10000, // Standard base rate waived at or above this subtotal
+        express_rate: 2500,
+        original_surcharge: 1500, // Per original, for insured/signature delivery
+        class_surcharges: {
+            small: 0,
+            standard: 0,
+            large: 700,
+            oversized: 2000,
+        },
+        delivery_estimates: {
+            standard: { minimum: 5, maximum: 8 }, // Business days
+            express: { minimum: 2, maximum: 3 },
+        },
+    },
+
+    // Checkout
+    checkout: {
+        // How long a Stripe Checkout session stays open. Stripe allows 30
+        // minutes to 24 hours, measured from when it creates the session,
+        // so this leaves a minute for the work before the create call
+        session_minutes: 31,
+        // Stock is held a little longer than the session, so a customer who
+        // pays at the last moment still has their hold when the order lands
+        reservation_minutes: 33,
     },
 
     // Email Configuration
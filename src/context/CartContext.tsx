@@ -8,7 +8,10 @@
  *
  * Features:
  * - Cart state management
- * - Item addition/removal
+ * - Item addition/removal (lines keyed by artwork + variant)
+ * - Coupon code (validated server-side; only the code is stored)
+ * - Gift card codes (validated and redeemed server-side; only the codes are stored)
+ * - "Ship to" country (prices shipping by zone; kept when the cart is cleared)
  * - Cart persistence to localStorage
  *
  * @phase Phase 2 - Full implementation
@@ -28,15 +31,33 @@ import { useToast } from './ToastContext';
 export interface CartContextType {
     cart: Cart;
     addItem: (item: CartItem) => void;
-    removeItem: (artworkId: string) => void;
-    updateQuantity: (artworkId: string, quantity: number) => void;
+    removeItem: (artworkId: string, variantId?: string) => void;
+    updateQuantity: (
+        artworkId: string,
+        quantity: number,
+        variantId?: string
+    ) => void;
     clearCart: () => void;
+    applyCoupon: (code: string) => void;
+    removeCoupon: () => void;
+    applyGiftCard: (code: string) => void;
+    removeGiftCard: (code: string) => void;
+    setShippingCountry: (country: string) => void;
     getTotal: () => number;
     getItemCount: () => number;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// A cart line is one artwork in one variant (print size / framing option)
+function isSameLine(
+    item: CartItem,
+    artworkId: string,
+    variantId: string | undefined
+): boolean {
+    return item.artworkId === artworkId && item.variantId === variantId;
+}
+
 // Initialize cart from localStorage
 function initializeCart(): Cart {
     if (typeof window === 'undefined') {
@@ -73,14 +94,15 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     const addItem = useCallback(
         (item: CartItem) => {
             setCart((prev) => {
-                const existing = prev.items.find(
-                    (i) => i.artworkId === item.artworkId
+                const existing = prev.items.find((i) =>
+                    isSameLine(i, item.artworkId, item.variantId)
                 );
                 const timestamp = Date.now();
                 if (existing) {
                     return {
+                        ...prev,
                         items: prev.items.map((i) =>
-                            i.artworkId === item.artworkId
+                            isSameLine(i, item.artworkId, item.variantId)
                                 ? { ...i, quantity: i.quantity + item.quantity }
                                 : i
                         ),
@@ -88,6 +110,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
                     };
                 }
                 return {
+                    ...prev,
                     items: [...prev.items, item],
                     lastUpdated: timestamp,
                 };
@@ -99,24 +122,30 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         [addToast]
     );
 
-    const removeItem = useCallback((artworkId: string) => {
+    const removeItem = useCallback((artworkId: string, variantId?: string) => {
         setCart((prev) => ({
-            items: prev.items.filter((i) => i.artworkId !== artworkId),
+            ...prev,
+            items: prev.items.filter(
+                (i) => !isSameLine(i, artworkId, variantId)
+            ),
             lastUpdated: Date.now(),
         }));
     }, []);
 
     const updateQuantity = useCallback(
-        (artworkId: string, quantity: number) => {
+        (artworkId: string, quantity: number, variantId?: string) => {
             if (quantity <= 0) {
-                removeItem(artworkId);
+                removeItem(artworkId, variantId);
                 return;
             }
             setCart((prev) => {
                 const timestamp = Date.now();
                 return {
+                    ...prev,
                     items: prev.items.map((i) =>
-                        i.artworkId === artworkId ? { ...i, quantity } : i
+                        isSameLine(i, artworkId, variantId)
+                            ? { ...i, quantity }
+                            : i
                     ),
                     lastUpdated: timestamp,
                 };
@@ -127,10 +156,61 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
 
     const clearCart = useCallback(() => {
         const timestamp = Date.now();
-        setCart({
+        setCart((prev) => ({
             items: [],
             lastUpdated: timestamp,
-        });
+            ...(prev.shippingCountry && {
+                shippingCountry: prev.shippingCountry,
+            }),
+        }));
+    }, []);
+
+    const applyCoupon = useCallback((code: string) => {
+        setCart((prev) => ({
+            ...prev,
+            couponCode: code.trim().toUpperCase(),
+            lastUpdated: Date.now(),
+        }));
+    }, []);
+
+    const removeCoupon = useCallback(() => {
+        setCart((prev) => ({
+            items: prev.items,
+            lastUpdated: Date.now(),
+            ...(prev.shippingCountry && {
+                shippingCountry: prev.shippingCountry,
+            }),
+            ...(prev.giftCardCodes && { giftCardCodes: prev.giftCardCodes }),
+        }));
+    }, []);
+
+    const applyGiftCard = useCallback((code: string) => {
+        const normalized = code.trim().toUpperCase();
+        setCart((prev) => ({
+            ...prev,
+            giftCardCodes: (prev.giftCardCodes ?? []).includes(normalized)
+                ? prev.giftCardCodes
+                : [...(prev.giftCardCodes ?? []), normalized],
+            lastUpdated: Date.now(),
+        }));
+    }, []);
+
+    const removeGiftCard = useCallback((code: string) => {
+        setCart((prev) => ({
+            ...prev,
+            giftCardCodes: (prev.giftCardCodes ?? []).filter(
+                (giftCardCode) => giftCardCode !== code
+            ),
+            lastUpdated: Date.now(),
+        }));
+    }, []);
+
+    const setShippingCountry = useCallback((country: string) => {
+        setCart((prev) => ({
+            ...prev,
+            shippingCountry: country.trim().toUpperCase(),
+            lastUpdated: Date.now(),
+        }));
     }, []);
 
     const getTotal = useCallback(() => {
@@ -152,6 +232,11 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
                 removeItem,
                 updateQuantity,
                 clearCart,
+                applyCoupon,
+                removeCoupon,
+                applyGiftCard,
+                removeGiftCard,
+                setShippingCountry,
                 getTotal,
                 getItemCount,
             }}
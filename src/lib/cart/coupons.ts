@@ -0,0 +1,130 @@
+/**
+ * Coupon Rules
+ *
+ * Pure helpers for checking coupon eligibility and calculating discounts.
+ * Used by validateCart so the same rules apply to the cart preview and to
+ * the Stripe Checkout session.
+ */
+
+import type { Database } from '@/types/database';
+
+export type CouponRecord = Database['public']['Tables']['coupons']['Row'];
+
+/**
+ * A validated cart line as seen by the coupon rules
+ */
+export interface CouponLine {
+    artworkId: string;
+    price: number;
+    quantity: number;
+    tags?: string[] | null;
+}
+
+/**
+ * Normalizes a customer-entered code to the stored (uppercase) form
+ */
+export function normalizeCouponCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+/**
+ * Whether a coupon is limited to specific artwork or tags
+ */
+function isScoped(coupon: CouponRecord): boolean {
+    return (
+        (coupon.applies_to_artwork_ids?.length ?? 0) > 0 ||
+        (coupon.applies_to_tags?.length ?? 0) > 0
+    );
+}
+
+/**
+ * Sum of the lines the coupon applies to (every line for unscoped coupons)
+ */
+export function getEligibleSubtotal(
+    coupon: CouponRecord,
+    lines: CouponLine[]
+): number {
+    const artworkIds = coupon.applies_to_artwork_ids ?? [];
+    const tags = coupon.applies_to_tags ?? [];
+
+    return lines
+        .filter(
+            (line) =>
+                !isScoped(coupon) ||
+                artworkIds.includes(line.artworkId) ||
+                (line.tags ?? []).some((tag) => tags.includes(tag))
+        )
+        .reduce((sum, line) => sum + line.price * line.quantity, 0);
+}
+
+/**
+ * Returns a customer-facing reason the coupon cannot be used, or null when
+ * it applies to the given cart.
+ *
+ * @param coupon - Coupon record (null when the code was not found)
+ * @param lines - Validated cart lines
+ * @param now - Current time (injectable for tests)
+ */
+export function getCouponError(
+    coupon: CouponRecord | null,
+    lines: CouponLine[],
+    now: Date = new Date()
+): string | null {
+    if (!coupon || !coupon.is_active) {
+        return 'This coupon code is not valid';
+    }
+
+    if (coupon.starts_at && new Date(coupon.starts_at) > now) {
+        return 'This coupon is not active yet';
+    }
+
+    if (coupon.expires_at && new Date(coupon.expires_at) <= now) {
+        return 'This coupon has expired';
+    }
+
+    if (
+        coupon.usage_limit !== null &&
+        coupon.usage_count >= coupon.usage_limit
+    ) {
+        return 'This coupon has reached its usage limit';
+    }
+
+    const subtotal = lines.reduce(
+        (sum, line) => sum + line.price * line.quantity,
+        0
+    );
+    const minimum = coupon.minimum_subtotal
+        ? parseFloat(coupon.minimum_subtotal)
+        : 0;
+
+    if (subtotal < minimum) {
+        return `This coupon requires a subtotal of at least $${minimum.toFixed(2)}`;
+    }
+
+    if (getEligibleSubtotal(coupon, lines) <= 0) {
+        return 'This coupon does not apply to any items in your cart';
+    }
+
+    return null;
+}
+
+/**
+ * Calculates the discount (in dollars) for an eligible coupon.
+ *
+ * Percentage coupons discount the eligible subtotal; fixed coupons take a
+ * flat amount off, capped at the eligible subtotal. Rounded to cents.
+ */
+export function calculateCouponDiscount(
+    coupon: CouponRecord,
+    lines: CouponLine[]
+): number {
+    const eligibleSubtotal = getEligibleSubtotal(coupon, lines);
+    const value = parseFloat(coupon.discount_value);
+
+    const discount =
+        coupon.discount_type === 'percentage'
+            ? eligibleSubtotal * (value / 100)
+            : Math.min(value, eligibleSubtotal);
+
+    return Math.round(discount * 100) / 100;
+}
@@ -0,0 +1,133 @@
+/**
+ * Gift Card Rules
+ *
+ * Pure helpers for gift card codes and redemptions. Used by validateCart so
+ * the cart preview and the Stripe Checkout session redeem the same amounts,
+ * and by the webhook when a purchased card is issued.
+ */
+
+import type { Database } from '@/types/database';
+import type { AppliedGiftCard } from '@/types/cart';
+
+export type GiftCardRecord = Database['public']['Tables']['gift_cards']['Row'];
+
+/**
+ * Balance held by an open checkout session (from gift_card_holds)
+ */
+export interface GiftCardHold {
+    gift_card_id: string;
+    amount: string;
+}
+
+/**
+ * Smallest amount Stripe can charge in USD. A gift card never brings the
+ * captured payment below it.
+ */
+export const MINIMUM_CHARGE = 0.5;
+
+// No 0/O or 1/I, so codes can be read out and typed without mistakes
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Normalizes a customer-entered code to the stored (uppercase) form
+ */
+export function normalizeGiftCardCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+/**
+ * Generates a random gift card code, e.g. GIFT-7KQ2-M9XA-4HTR
+ */
+export function generateGiftCardCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(12));
+    const characters = Array.from(
+        bytes,
+        (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+    ).join('');
+
+    return `GIFT-${characters.slice(0, 4)}-${characters.slice(4, 8)}-${characters.slice(8)}`;
+}
+
+/**
+ * A card's balance minus what other open checkouts are holding
+ */
+export function getAvailableGiftCardBalance(
+    card: GiftCardRecord,
+    holds: GiftCardHold[]
+): number {
+    const held = holds
+        .filter((hold) => hold.gift_card_id === card.id)
+        .reduce((sum, hold) => sum + parseFloat(hold.amount), 0);
+
+    return Math.max(
+        0,
+        Math.round((parseFloat(card.balance) - held) * 100) / 100
+    );
+}
+
+/**
+ * Returns a customer-facing reason the gift card cannot be used, or null
+ * when it has balance to redeem.
+ *
+ * @param card - Gift card record (null when the code was not found)
+ * @param availableBalance - Balance not held by other checkouts
+ */
+export function getGiftCardError(
+    card: GiftCardRecord | null,
+    availableBalance: number
+): string | null {
+    if (!card || !card.is_active) {
+        return 'This gift card code is not valid';
+    }
+
+    if (availableBalance <= 0) {
+        return 'This gift card has no balance left';
+    }
+
+    return null;
+}
+
+/**
+ * The most gift cards can pay for in a cart.
+ *
+ * Redemptions pay for the items (after any coupon), never shipping or tax:
+ * tax isn't known until the customer enters their address in Stripe
+ * Checkout, and the webhook takes the redemptions off the taxed total when
+ * it captures the payment. What's captured must reach Stripe's minimum, so
+ * when standard shipping doesn't cover it the last few cents of the items
+ * are left to pay.
+ *
+ * @param itemsTotal - Items subtotal after any coupon discount
+ * @param shippingCost - Standard shipping for the cart
+ */
+export function getRedeemableAmount(
+    itemsTotal: number,
+    shippingCost: number
+): number {
+    const limit = Math.min(
+        itemsTotal,
+        itemsTotal + shippingCost - MINIMUM_CHARGE
+    );
+
+    return Math.max(0, Math.round(limit * 100) / 100);
+}
+
+/**
+ * Spreads the redeemable amount over the cards in the order they were
+ * entered, using each card's full available balance before the next one.
+ * Cards that aren't needed redeem nothing.
+ */
+export function allocateGiftCardRedemptions(
+    cards: Array<Omit<AppliedGiftCard, 'redeemedAmount'>>,
+    redeemableAmount: number
+): AppliedGiftCard[] {
+    let remaining = redeemableAmount;
+
+    return cards.map((card) => {
+        const redeemedAmount =
+            Math.round(Math.min(card.availableBalance, remaining) * 100) / 100;
+        remaining = Math.max(0, remaining - redeemedAmount);
+
+        return { ...card, redeemedAmount };
+    });
+}
@@ -0,0 +1,65 @@
+/**
+ * Inventory Availability
+ *
+ * Stock shown to customers and checked at checkout is the inventory count
+ * minus the quantity held by open Stripe Checkout sessions (inventory_holds).
+ * Holds expire with their session, so expired holds never count.
+ */
+
+import { siteConfig } from '@/config/site';
+import type { Database } from '@/types/database';
+
+export type HeldInventory =
+    Database['public']['Views']['held_inventory']['Row'];
+
+/**
+ * Quantity held by open checkouts for an artwork's own stock, or for one of
+ * its variants when variantId is given
+ */
+export function getHeldQuantity(
+    holds: HeldInventory[],
+    artworkId: string,
+    variantId?: string | null
+): number {
+    return holds
+        .filter(
+            (hold) =>
+                hold.artwork_id === artworkId &&
+                (hold.variant_id ?? null) === (variantId ?? null)
+        )
+        .reduce((sum, hold) => sum + hold.held_quantity, 0);
+}
+
+/**
+ * Stock a new customer can still buy
+ *
+ * @param inventoryCount - inventory_count of the artwork or variant
+ * @param holds - Active holds (from the held_inventory view)
+ * @param artworkId - Artwork the stock belongs to
+ * @param variantId - Variant the stock belongs to (omit for artwork stock)
+ */
+export function getAvailableQuantity(
+    inventoryCount: number,
+    holds: HeldInventory[],
+    artworkId: string,
+    variantId?: string | null
+): number {
+    return Math.max(
+        inventoryCount - getHeldQuantity(holds, artworkId, variantId),
+        0
+    );
+}
+
+/**
+ * When a hold created now should lapse (a little after its Stripe session)
+ */
+export function getReservationExpiry(now: number = Date.now()): Date {
+    return new Date(now + siteConfig.checkout.reservation_minutes * 60 * 1000);
+}
+
+/**
+ * When a Stripe Checkout session created now should expire
+ */
+export function getCheckoutSessionExpiry(now: number = Date.now()): Date {
+    return new Date(now + siteConfig.checkout.session_minutes * 60 * 1000);
+}
@@ -0,0 +1,79 @@
+/**
+ * Pre-orders
+ *
+ * Artwork linked to an In The Works project sells as a pre-order while the
+ * project is still planning or active. The project's expected completion
+ * date is the expected ship date; an order containing several pre-orders
+ * ships when the last of them is ready.
+ */
+
+import type { CartPreorder } from '@/types/cart';
+import type { Database } from '@/types/database';
+
+type ProjectRow = Database['public']['Tables']['projects']['Row'];
+
+export type PreorderProject = Pick<
+    ProjectRow,
+    'id' | 'title' | 'status' | 'expected_completion_date'
+>;
+
+/**
+ * Whether artwork linked to this project is still sold as a pre-order
+ */
+export function isPreorderProject(
+    project: Pick<ProjectRow, 'status'> | null | undefined
+): boolean {
+    return project?.status === 'planning' || project?.status === 'active';
+}
+
+/**
+ * Pre-order details for a cart item, or undefined when the linked project
+ * (if any) is no longer taking pre-orders
+ */
+export function getCartPreorder(
+    project: PreorderProject | null | undefined
+): CartPreorder | undefined {
+    if (!project || !isPreorderProject(project)) {
+        return undefined;
+    }
+
+    return {
+        projectId: project.id,
+        projectTitle: project.title,
+        expectedShipDate: project.expected_completion_date,
+    };
+}
+
+/**
+ * Expected ship date for an order: the latest expected date among its
+ * pre-order items. Null when there are none or any of them has no date yet.
+ *
+ * @param dates - expected_completion_date of each pre-ordered project
+ */
+export function getLatestShipDate(dates: Array<string | null>): string | null {
+    if (dates.length === 0 || dates.some((date) => date === null)) {
+        return null;
+    }
+
+    return (dates as string[]).reduce((latest, date) =>
+        date > latest ? date : latest
+    );
+}
+
+/**
+ * Customer-facing expected ship date, e.g. "March 2026"
+ *
+ * Dates are stored without a time, so they're formatted in UTC to avoid
+ * slipping into the previous month west of Greenwich.
+ */
+export function formatExpectedShipDate(date: string | null): string {
+    if (!date) {
+        return 'Ship date TBA';
+    }
+
+    return new Date(date).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        timeZone: 'UTC',
+    });
+}
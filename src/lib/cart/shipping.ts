@@ -0,0 +1,225 @@
+/**
+ * Shipping Rules
+ *
+ * Computes the shipping options for a cart from its contents and its
+ * destination. validateCart runs these rules against database values, and
+ * both the cart preview and the Stripe Checkout session use its result, so
+ * the customer is never quoted one price and charged another.
+ *
+ * Rules:
+ * - Base rates come from the destination's shipping zone (admin-managed),
+ *   or from siteConfig.shipping when no destination is given
+ * - Standard: base rate, waived when the subtotal reaches the zone's
+ *   free-shipping minimum (if it has one)
+ * - Express: express base rate, never free; only offered when the zone has one
+ * - Both: per-item surcharges for the artwork's size/weight class and for
+ *   originals (insured delivery) from siteConfig.shipping; these still apply
+ *   when the base rate is free
+ */
+
+import { siteConfig } from '@/config/site';
+import type { ShippingOption } from '@/types/cart';
+import type { Database } from '@/types/database';
+
+export type ShippingClass =
+    Database['public']['Tables']['artwork']['Row']['shipping_class'];
+
+export type ShippingZoneRecord =
+    Database['public']['Tables']['shipping_zones']['Row'];
+
+/**
+ * A cart line as seen by the shipping rules
+ */
+export interface ShippingLine {
+    quantity: number;
+    shippingClass?: ShippingClass | null;
+    isOriginal?: boolean | null;
+}
+
+/**
+ * Base rates for a destination (amounts in dollars, estimates in business days)
+ */
+export interface ShippingRates {
+    standardRate: number;
+    expressRate: number | null; // null = express not offered
+    freeShippingMinimum: number | null; // null = standard is never free
+    deliveryEstimates: {
+        standard: { minimum: number; maximum: number };
+        express: { minimum: number; maximum: number };
+    };
+}
+
+/**
+ * Rates used when the cart has no destination yet (siteConfig is in cents)
+ */
+export const defaultShippingRates: ShippingRates = {
+    standardRate: siteConfig.shipping.flat_rate / 100,
+    expressRate: siteConfig.shipping.express_rate / 100,
+    freeShippingMinimum: siteConfig.shipping.free_shipping_minimum / 100,
+    deliveryEstimates: siteConfig.shipping.delivery_estimates,
+};
+
+/**
+ * Converts a shipping zone row into base rates
+ */
+export function getShippingZoneRates(zone: ShippingZoneRecord): ShippingRates {
+    const expressRate =
+        zone.express_rate !== null ? parseFloat(zone.express_rate) : null;
+
+    return {
+        standardRate: parseFloat(zone.standard_rate),
+        expressRate,
+        freeShippingMinimum:
+            zone.free_shipping_minimum !== null
+                ? parseFloat(zone.free_shipping_minimum)
+                : null,
+        deliveryEstimates: {
+            standard: {
+                minimum: zone.standard_min_days,
+                maximum: zone.standard_max_days,
+            },
+            express: {
+                minimum: zone.express_min_days ?? zone.standard_min_days,
+                maximum: zone.express_max_days ?? zone.standard_max_days,
+            },
+        },
+    };
+}
+
+/**
+ * Normalizes a country code for zone matching (ISO 3166-1 alpha-2, uppercase)
+ */
+export function normalizeCountryCode(country: string): string {
+    return country.trim().toUpperCase();
+}
+
+/**
+ * English display name for a country code, e.g. "CA" -> "Canada"
+ */
+export function getCountryName(country: string): string {
+    try {
+        return (
+            new Intl.DisplayNames(['en'], { type: 'region' }).of(country) ??
+            country
+        );
+    } catch {
+        return country;
+    }
+}
+
+/**
+ * Finds the zone that ships to a country. Zones are checked in the order
+ * given (callers pass them sorted by display_order); inactive zones never match.
+ */
+export function findShippingZone(
+    zones: ShippingZoneRecord[],
+    country: string
+): ShippingZoneRecord | null {
+    const code = normalizeCountryCode(country);
+    return (
+        zones.find((zone) => zone.is_active && zone.countries.includes(code)) ??
+        null
+    );
+}
+
+/**
+ * Per-item surcharges for the cart, in cents
+ */
+function getSurchargeCents(lines: ShippingLine[]): number {
+    const { class_surcharges, original_surcharge } = siteConfig.shipping;
+
+    return lines.reduce(
+        (sum, line) =>
+            sum +
+            line.quantity *
+                (class_surcharges[line.shippingClass ?? 'standard'] +
+                    (line.isOriginal ? original_surcharge : 0)),
+        0
+    );
+}
+
+/**
+ * Whether the subtotal qualifies for free standard shipping
+ *
+ * @param subtotal - Merchandise subtotal after discounts, in dollars
+ * @param rates - Base rates for the destination
+ */
+export function qualifiesForFreeShipping(
+    subtotal: number,
+    rates: Pick<ShippingRates, 'freeShippingMinimum'> = defaultShippingRates
+): boolean {
+    return (
+        rates.freeShippingMinimum !== null &&
+        Math.round(subtotal * 100) >=
+            Math.round(rates.freeShippingMinimum * 100)
+    );
+}
+
+/**
+ * Amount (in dollars) the customer must add to qualify for free standard
+ * shipping: 0 when they already qualify, null when the destination never
+ * ships free
+ */
+export function getFreeShippingRemaining(
+    subtotal: number,
+    rates: Pick<ShippingRates, 'freeShippingMinimum'> = defaultShippingRates
+): number | null {
+    if (rates.freeShippingMinimum === null) {
+        return null;
+    }
+
+    const remainingCents =
+        Math.round(rates.freeShippingMinimum * 100) -
+        Math.round(subtotal * 100);
+    return Math.max(remainingCents, 0) / 100;
+}
+
+/**
+ * Computes the shipping options for a cart, cheapest (standard) first.
+ *
+ * @param lines - Cart lines with their artwork's shipping attributes
+ * @param subtotal - Merchandise subtotal after discounts, in dollars
+ * @param rates - Base rates for the destination (defaults to siteConfig)
+ * @returns Shipping options with amounts in dollars
+ *
+ * @example
+ * ```typescript
+ * const [standard, express] = calculateShippingOptions(
+ *   [{ quantity: 1, shippingClass: 'large', isOriginal: true }],
+ *   250
+ * );
+ * // standard.amount === 22 (free base + $7 large + $15 original)
+ * ```
+ */
+export function calculateShippingOptions(
+    lines: ShippingLine[],
+    subtotal: number,
+    rates: ShippingRates = defaultShippingRates
+): ShippingOption[] {
+    const surchargeCents = getSurchargeCents(lines);
+    const isFree = qualifiesForFreeShipping(subtotal, rates);
+    const standardCents = isFree ? 0 : Math.round(rates.standardRate * 100);
+
+    const options: ShippingOption[] = [
+        {
+            id: 'standard',
+            displayName: isFree
+                ? 'Free Standard Shipping'
+                : 'Standard Shipping',
+            amount: (standardCents + surchargeCents) / 100,
+            deliveryEstimate: rates.deliveryEstimates.standard,
+        },
+    ];
+
+    if (rates.expressRate !== null) {
+        options.push({
+            id: 'express',
+            displayName: 'Express Shipping',
+            amount:
+                (Math.round(rates.expressRate * 100) + surchargeCents) / 100,
+            deliveryEstimate: rates.deliveryEstimates.express,
+        });
+    }
+
+    return options;
+}
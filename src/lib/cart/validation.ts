@@ -5,19 +5,62 @@
  * and validate item availability and pricing.
  */
 
-import type { CartItem, ValidatedCart } from '@/types/cart';
+import type {
+    AppliedCoupon,
+    AppliedGiftCard,
+    CartItem,
+    CartShippingZone,
+    ValidatedCart,
+} from '@/types/cart';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { siteConfig } from '@/config/site';
+import {
+    calculateCouponDiscount,
+    getCouponError,
+    normalizeCouponCode,
+    type CouponLine,
+} from '@/lib/cart/coupons';
+import {
+    calculateShippingOptions,
+    defaultShippingRates,
+    findShippingZone,
+    getCountryName,
+    getShippingZoneRates,
+    normalizeCountryCode,
+    type ShippingLine,
+    type ShippingZoneRecord,
+} from '@/lib/cart/shipping';
+import {
+    allocateGiftCardRedemptions,
+    getAvailableGiftCardBalance,
+    getGiftCardError,
+    getRedeemableAmount,
+    normalizeGiftCardCode,
+} from '@/lib/cart/gift-cards';
+import { getCartPreorder } from '@/lib/cart/preorders';
+import { getAvailableQuantity } from '@/lib/cart/inventory';
 
 /**
  * Validates a shopping cart by checking:
  * - All items exist in the database
  * - All items are published
+ * - Selected variants exist, are active and belong to the artwork
  * - Prices match database (detects client-side tampering)
- * - Sufficient inventory is available
- * - Calculates accurate totals
+ * - Sufficient inventory is available (variant stock for variant items),
+ *   net of stock held by other customers' open checkout sessions
+ * - The coupon code (if any) is valid for this cart
+ * - The shipping country (if any) is served by an active shipping zone, and
+ *   the zone accepts every item (some zones exclude originals)
+ * - Calculates shipping options from the zone's rates and the items' shipping rules
+ * - Gift card codes (if any) are active and have balance not held by other
+ *   checkouts; their balances are redeemed in order against the items
+ * - Calculates accurate totals (after any coupon discount and gift card
+ *   redemptions, with standard shipping)
  *
  * @param items - Array of cart items to validate
+ * @param couponCode - Optional coupon code entered by the customer
+ * @param shippingCountry - Optional destination country (ISO alpha-2); without
+ *   it the default siteConfig rates apply
+ * @param giftCardCodes - Optional gift card codes entered by the customer
  * @returns ValidatedCart with validation status, validated items, totals, and any errors
  *
  * @example
@@ -34,7 +77,12 @@ import { siteConfig } from '@/config/site';
  * }
  * ```
  */
-export async function validateCart(items: CartItem[]): Promise<ValidatedCart> {
+export async function validateCart(
+    items: CartItem[],
+    couponCode?: string,
+    shippingCountry?: string,
+    giftCardCodes: string[] = []
+): Promise<ValidatedCart> {
     // Handle empty cart
     if (items.length === 0) {
         return {
@@ -42,6 +90,7 @@ export async function validateCart(items: CartItem[]): Promise<ValidatedCart> {
             items: [],
             subtotal: 0,
             shippingCost: 0,
+            shippingOptions: [],
             taxAmount: 0,
             total: 0,
             errors: ['Cart is empty'],
@@ -54,7 +103,9 @@ export async function validateCart(items: CartItem[]): Promise<ValidatedCart> {
     // Fetch artwork from database to validate against
     const { data: artworkRecords, error } = await supabase
         .from('artwork')
-        .select('id, title, price, inventory_count, is_published, slug')
+        .select(
+            'id, title, price, inventory_count, is_published, slug, tags, shipping_class, is_original, project:projects(id, title, status, expected_completion_date)'
+        )
         .in('id', artworkIds);
 
     // Handle database errors
@@ -64,14 +115,95 @@ export async function validateCart(items: CartItem[]): Promise<ValidatedCart> {
             items: [],
             subtotal: 0,
             shippingCost: 0,
+            shippingOptions: [],
             taxAmount: 0,
             total: 0,
             errors: ['Failed to validate cart items'],
         };
     }
 
-    const errors: string[] = [];
+    // Fetch selected variants (only when the cart contains variant items)
+    const variantIds = items
+        .map((item) => item.variantId)
+        .filter((id): id is string => Boolean(id));
+
+    let variantRecords: Array<{
+        id: string;
+        artwork_id: string;
+        name: string;
+        price: string;
+        inventory_count: number;
+        is_active: boolean;
+    }> = [];
+
+    if (variantIds.length > 0) {
+        const { data: variants, error: variantError } = await supabase
+            .from('artwork_variants')
+            .select('id, artwork_id, name, price, inventory_count, is_active')
+            .in('id', variantIds);
+
+        if (variantError) {
+            return {
+                isValid: false,
+                items: [],
+                subtotal: 0,
+                shippingCost: 0,
+                shippingOptions: [],
+                taxAmount: 0,
+                total: 0,
+                errors: ['Failed to validate cart items'],
+            };
+        }
+
+        variantRecords = variants ?? [];
+    }
+
+    // Fetch stock held by open checkout sessions
+    const { data: holds, error: holdsError } = await supabase
+        .from('held_inventory')
+        .select('artwork_id, variant_id, held_quantity')
+        .in('artwork_id', artworkIds);
+
+    if (holdsError) {
+        return {
+            isValid: false,
+            items: [],
+            subtotal: 0,
+            shippingCost: 0,
+            shippingOptions: [],
+            taxAmount: 0,
+            total: 0,
+            errors: ['Failed to validate cart items'],
+        };
+    }
+
+    // Resolve the shipping zone for the destination
+    let shippingZone: ShippingZoneRecord | null = null;
+    let shippingError: string | undefined;
+
+    if (shippingCountry) {
+        const country = normalizeCountryCode(shippingCountry);
+        const { data: zones, error: zoneError } = await supabase
+            .from('shipping_zones')
+            .select('*')
+            .eq('is_active', true)
+            .contains('countries', [country])
+            .order('display_order', { ascending: true });
+
+        if (zoneError) {
+            shippingError = 'Failed to validate shipping destination';
+        } else {
+            shippingZone = findShippingZone(zones ?? [], country);
+            if (!shippingZone) {
+                shippingError = `We don't ship to ${getCountryName(country)} yet`;
+            }
+        }
+    }
+
+    const errors: string[] = shippingError ? [shippingError] : [];
     const validatedItems: CartItem[] = [];
+    const couponLines: CouponLine[] = [];
+    const shippingLines: ShippingLine[] = [];
     let subtotal = 0;
 
     // Validate each cart item
@@ -90,6 +222,79 @@ export async function validateCart(items: CartItem[]): Promise<ValidatedCart> {
             continue;
         }
 
+        // Validate the destination zone accepts the item
+        if (artwork.is_original && shippingZone?.excludes_originals) {
+            errors.push(
+                `Item "${artwork.title}" can't be shipped to ${shippingZone.name}`
+            );
+            continue;
+        }
+
+        // Artwork from a planning/active In The Works project is a pre-order
+        const preorder = getCartPreorder(artwork.project);
+
+        // Variant items are priced and stocked by the variant, not the artwork
+        if (item.variantId) {
+            const variant = variantRecords.find(
+                (v) => v.id === item.variantId && v.artwork_id === artwork.id
+            );
+
+            if (!variant || !variant.is_active) {
+                errors.push(
+                    `Selected option for "${artwork.title}" is no longer available`
+                );
+                continue;
+            }
+
+            const variantPrice = parseFloat(variant.price);
+            if (variantPrice !== item.price) {
+                errors.push(
+                    `Price for "${artwork.title} (${variant.name})" has changed. Please refresh your cart.`
+                );
+                continue;
+            }
+
+            const variantAvailable = getAvailableQuantity(
+                variant.inventory_count,
+                holds ?? [],
+                artwork.id,
+                variant.id
+            );
+            if (variantAvailable < item.quantity) {
+                errors.push(
+                    `Only ${variantAvailable} of "${artwork.title} (${variant.name})" available`
+                );
+                continue;
+            }
+
+            validatedItems.push({
+                artworkId: artwork.id,
+                title: artwork.title,
+                price: variantPrice,
+                quantity: item.quantity,
+                slug: artwork.slug,
+                variantId: variant.id,
+                variantName: variant.name,
+                ...(preorder && { preorder }),
+            });
+
+            couponLines.push({
+                artworkId: artwork.id,
+                price: variantPrice,
+                quantity: item.quantity,
+                tags: artwork.tags,
+            });
+
+            shippingLines.push({
+                quantity: item.quantity,
+                shippingClass: artwork.shipping_class,
+                isOriginal: artwork.is_original,
+            });
+
+            subtotal += variantPrice * item.quantity;
+            continue;
+        }
+
         // Validate price matches database (detect client-side tampering)
         // Database stores prices as strings (numeric type), convert for comparison
         if (parseFloat(artwork.price) !== item.price) {
@@ -99,11 +304,14 @@ export async function validateCart(items: CartItem[]): Promise<ValidatedCart> {
             continue;
         }
 
-        // Validate sufficient inventory is available
-        if (artwork.inventory_count < item.quantity) {
-            errors.push(
-                `Only ${artwork.inventory_count} of "${artwork.title}" available`
-            );
+        // Validate sufficient inventory is available (net of checkout holds)
+        const available = getAvailableQuantity(
+            artwork.inventory_count,
+            holds ?? [],
+            artwork.id
+        );
+        if (available < item.quantity) {
+            errors.push(`Only ${available} of "${artwork.title}" available`);
             continue;
         }
 
@@ -115,24 +323,155 @@ export async function validateCart(items: CartItem[]): Promise<ValidatedCart> {
             price: artworkPrice,
             quantity: item.quantity,
             slug: artwork.slug,
+            ...(preorder && { preorder }),
+        });
+
+        couponLines.push({
+            artworkId: artwork.id,
+            price: artworkPrice,
+            quantity: item.quantity,
+            tags: artwork.tags,
+        });
+
+        shippingLines.push({
+            quantity: item.quantity,
+            shippingClass: artwork.shipping_class,
+            isOriginal: artwork.is_original,
         });
 
         // Add to running subtotal
         subtotal += artworkPrice * item.quantity;
     }
 
-    // Calculate shipping and total
-    const shippingCost = siteConfig.shipping.flat_rate / 100; // Flat rate shipping for MVP
+    // Validate the coupon against the items that passed validation
+    let coupon: AppliedCoupon | undefined;
+    let couponError: string | undefined;
+
+    if (couponCode) {
+        const { data: couponRecord, error: couponFetchError } = await supabase
+            .from('coupons')
+            .select('*')
+            .eq('code', normalizeCouponCode(couponCode))
+            .maybeSingle();
+
+        const reason = couponFetchError
+            ? 'Failed to validate coupon code'
+            : getCouponError(couponRecord, couponLines);
+
+        if (reason || !couponRecord) {
+            couponError = reason ?? 'This coupon code is not valid';
+            errors.push(couponError);
+        } else {
+            coupon = {
+                id: couponRecord.id,
+                code: couponRecord.code,
+                description: couponRecord.description ?? undefined,
+                discountAmount: calculateCouponDiscount(
+                    couponRecord,
+                    couponLines
+                ),
+            };
+        }
+    }
+
+    // Calculate shipping and total (free-shipping threshold applies after discount)
+    const discountAmount = coupon?.discountAmount ?? 0;
+    const shippingRates = shippingCountry
+        ? shippingZone && getShippingZoneRates(shippingZone)
+        : defaultShippingRates;
+    const shippingOptions = shippingRates
+        ? calculateShippingOptions(
+              shippingLines,
+              subtotal - discountAmount,
+              shippingRates
+          )
+        : [];
+    const shippingCost = shippingOptions[0]?.amount ?? 0; // Standard; customer may upgrade in Checkout
+    const cartShippingZone: CartShippingZone | undefined =
+        shippingZone && shippingRates
+            ? {
+                  id: shippingZone.id,
+                  name: shippingZone.name,
+                  countries: shippingZone.countries,
+                  freeShippingMinimum: shippingRates.freeShippingMinimum,
+              }
+            : undefined;
+
+    // Redeem gift cards against the items left to pay for after the coupon
+    let giftCards: AppliedGiftCard[] | undefined;
+    let giftCardError: string | undefined;
+    const codes = Array.from(new Set(giftCardCodes.map(normalizeGiftCardCode)));
+
+    if (codes.length > 0) {
+        const { data: cardRecords, error: cardFetchError } = await supabase
+            .from('gift_cards')
+            .select('*')
+            .in('code', codes);
+
+        const cardIds = (cardRecords ?? []).map((card) => card.id);
+        const { data: cardHolds, error: cardHoldsError } =
+            cardIds.length > 0
+                ? await supabase
+                      .from('gift_card_holds')
+                      .select('gift_card_id, amount')
+                      .in('gift_card_id', cardIds)
+                      .gt('expires_at', new Date().toISOString())
+                : { data: [], error: null };
+
+        const usableCards: Array<Omit<AppliedGiftCard, 'redeemedAmount'>> = [];
+
+        for (const code of codes) {
+            const card = cardRecords?.find((c) => c.code === code) ?? null;
+            const availableBalance = card
+                ? getAvailableGiftCardBalance(card, cardHolds ?? [])
+                : 0;
+            const reason =
+                cardFetchError || cardHoldsError
+                    ? 'Failed to validate gift card code'
+                    : getGiftCardError(card, availableBalance);
+
+            if (reason || !card) {
+                giftCardError = reason ?? 'This gift card code is not valid';
+                errors.push(`${giftCardError} (${code})`);
+                continue;
+            }
+
+            usableCards.push({ id: card.id, code, availableBalance });
+        }
+
+        if (usableCards.length > 0) {
+            giftCards = allocateGiftCardRedemptions(
+                usableCards,
+                getRedeemableAmount(subtotal - discountAmount, shippingCost)
+            );
+        }
+    }
+
+    const giftCardAmount =
+        Math.round(
+            (giftCards ?? []).reduce(
+                (sum, card) => sum + card.redeemedAmount,
+                0
+            ) * 100
+        ) / 100;
     const taxAmount = 0; // Tax calculated by Stripe Tax at checkout
-    const total = subtotal + shippingCost + taxAmount;
+    const total =
+        subtotal - discountAmount - giftCardAmount + shippingCost + taxAmount;
 
     return {
         isValid: errors.length === 0,
         items: validatedItems,
         subtotal,
         shippingCost,
+        shippingOptions,
+        ...(cartShippingZone && { shippingZone: cartShippingZone }),
+        ...(shippingError && { shippingError }),
         taxAmount,
         total,
+        ...(coupon && { coupon }),
+        ...(couponError && { couponError }),
+        ...(giftCards && { giftCards, giftCardAmount }),
+        ...(giftCardError && { giftCardError }),
         errors: errors.length > 0 ? errors : undefined,
     };
 }
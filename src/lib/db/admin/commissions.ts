@@ -0,0 +1,317 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { COMMISSION_REFERENCES_BUCKET } from '@/lib/db/commissions';
+import type { CommissionStatus } from '@/lib/validation/commissions';
+import type { Database } from '@/types/database';
+
+export type CommissionRow = Database['public']['Tables']['commissions']['Row'];
+export type CommissionPaymentRow =
+    Database['public']['Tables']['commission_payments']['Row'];
+
+export interface CommissionWithPayments extends CommissionRow {
+    commission_payments: CommissionPaymentRow[];
+}
+
+export interface CommissionAdminError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+/**
+ * Quote details saved when the admin sends a quote
+ */
+export interface CommissionQuoteInput {
+    quote_amount: string;
+    deposit_amount: string;
+    quote_notes: string | null;
+    deposit_payment_link_id: string;
+    deposit_payment_link_url: string;
+    balance_payment_link_id: string;
+    balance_payment_link_url: string;
+}
+
+/**
+ * How long signed reference image URLs stay valid on the admin detail page
+ */
+const REFERENCE_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Retrieves a paginated list of commission requests, newest first
+ *
+ * @param limit - Maximum number of commissions to return (default: 50)
+ * @param offset - Number of commissions to skip for pagination (default: 0)
+ * @param status - Optional pipeline stage to filter by
+ * @returns Promise resolving to array of commissions or error
+ */
+export async function getAllCommissionsAdmin(
+    limit: number = 50,
+    offset: number = 0,
+    status?: CommissionStatus
+): Promise<{
+    data: CommissionRow[] | null;
+    error: CommissionAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        let query = supabase
+            .from('commissions')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        if (status) {
+            query = query.eq('status', status);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch commissions',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Retrieves a commission with the payments recorded against it (oldest first)
+ *
+ * @param id - UUID of the commission
+ * @returns Promise resolving to the commission with payments or error
+ */
+export async function getCommissionByIdAdmin(id: string): Promise<{
+    data: CommissionWithPayments | null;
+    error: CommissionAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('commissions')
+            .select('*, commission_payments (*)')
+            .eq('id', id)
+            .order('created_at', {
+                referencedTable: 'commission_payments',
+                ascending: true,
+            })
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch commission',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Creates short-lived signed URLs for a commission's reference images
+ * (the references bucket is private)
+ *
+ * @param paths - reference_image_paths of the commission
+ * @returns Signed URLs in the same order, or error
+ */
+export async function getCommissionReferenceUrls(paths: string[]): Promise<{
+    data: string[] | null;
+    error: CommissionAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    if (paths.length === 0) {
+        return { data: [], error: null };
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase.storage
+            .from(COMMISSION_REFERENCES_BUCKET)
+            .createSignedUrls(paths, REFERENCE_URL_TTL_SECONDS);
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: 'storage_error',
+                    message: error.message,
+                },
+            };
+        }
+
+        return {
+            data: data
+                .map((file) => file.signedUrl)
+                .filter((url): url is string => !!url),
+            error: null,
+        };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to load reference images',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Moves a commission to another pipeline stage
+ *
+ * @param id - UUID of the commission
+ * @param status - New status
+ * @returns Promise resolving to updated commission or error
+ */
+export async function updateCommissionStatus(
+    id: string,
+    status: CommissionStatus
+): Promise<{
+    data: CommissionRow | null;
+    error: CommissionAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('commissions')
+            .update({ status })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to update commission status',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Saves a quote and its payment links, moving the commission to 'quoted'
+ *
+ * Re-quoting replaces the previous amounts and links (the caller deactivates
+ * the old links in Stripe).
+ *
+ * @param id - UUID of the commission
+ * @param quote - Amounts, notes and the Stripe Payment Links for them
+ * @returns Promise resolving to updated commission or error
+ */
+export async function saveCommissionQuote(
+    id: string,
+    quote: CommissionQuoteInput
+): Promise<{
+    data: CommissionRow | null;
+    error: CommissionAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('commissions')
+            .update({
+                ...quote,
+                status: 'quoted',
+                quoted_at: new Date().toISOString(),
+            })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to save commission quote',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
@@ -0,0 +1,220 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+export type CouponInput = Database['public']['Tables']['coupons']['Insert'];
+export type CouponRow = Database['public']['Tables']['coupons']['Row'];
+
+export interface CouponAdminError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+export async function getAllCouponsAdmin(
+    limit: number = 50,
+    offset: number = 0
+): Promise<{ data: CouponRow[] | null; error: CouponAdminError | null }> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('coupons')
+            .select('*', { count: 'exact' })
+            .range(offset, offset + limit - 1)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch coupons',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export async function getCouponById(
+    id: string
+): Promise<{ data: CouponRow | null; error: CouponAdminError | null }> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('coupons')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch coupon',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export async function createCoupon(
+    coupon: CouponInput
+): Promise<{ data: CouponRow | null; error: CouponAdminError | null }> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('coupons')
+            .insert(coupon)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'create_error',
+                message: 'Failed to create coupon',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export async function updateCoupon(
+    id: string,
+    coupon: Partial<CouponInput>
+): Promise<{ data: CouponRow | null; error: CouponAdminError | null }> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('coupons')
+            .update(coupon)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to update coupon',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export async function deleteCoupon(
+    id: string
+): Promise<{ data: { id: string } | null; error: CouponAdminError | null }> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { error } = await supabase
+            .from('coupons')
+            .delete()
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data: { id }, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'delete_error',
+                message: 'Failed to delete coupon',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
@@ -0,0 +1,187 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+export type GiftCardRow = Database['public']['Tables']['gift_cards']['Row'];
+export type GiftCardTransactionRow =
+    Database['public']['Tables']['gift_card_transactions']['Row'];
+
+/**
+ * A ledger entry with the order a redemption paid for
+ */
+export interface GiftCardTransactionWithOrder extends GiftCardTransactionRow {
+    order: {
+        id: string;
+        order_number: string;
+    } | null;
+}
+
+export interface GiftCardWithTransactions extends GiftCardRow {
+    gift_card_transactions: GiftCardTransactionWithOrder[];
+}
+
+export interface GiftCardAdminError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+/**
+ * Retrieves a paginated list of gift cards, newest first
+ *
+ * @param limit - Maximum number of gift cards to return (default: 50)
+ * @param offset - Number of gift cards to skip for pagination (default: 0)
+ * @returns Promise resolving to array of gift cards or error
+ */
+export async function getAllGiftCardsAdmin(
+    limit: number = 50,
+    offset: number = 0
+): Promise<{
+    data: GiftCardRow[] | null;
+    error: GiftCardAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('gift_cards')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch gift cards',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Retrieves a gift card with its balance ledger (oldest first), including
+ * the order each redemption paid for
+ *
+ * @param id - UUID of the gift card
+ * @returns Promise resolving to the gift card with transactions or error
+ */
+export async function getGiftCardByIdAdmin(id: string): Promise<{
+    data: GiftCardWithTransactions | null;
+    error: GiftCardAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('gift_cards')
+            .select(
+                '*, gift_card_transactions (*, order:orders (id, order_number))'
+            )
+            .eq('id', id)
+            .order('created_at', {
+                referencedTable: 'gift_card_transactions',
+                ascending: true,
+            })
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch gift card',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Enables or disables a gift card. Disabled cards can't be redeemed and
+ * aren't emailed by the delivery cron; the balance is kept.
+ *
+ * @param id - UUID of the gift card
+ * @param isActive - Whether the card can be used
+ * @returns Promise resolving to updated gift card or error
+ */
+export async function setGiftCardActive(
+    id: string,
+    isActive: boolean
+): Promise<{
+    data: GiftCardRow | null;
+    error: GiftCardAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('gift_cards')
+            .update({ is_active: isActive })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to update gift card',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
@@ -1,4 +1,10 @@
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { canTransitionOrderStatus } from '@/lib/utils/order-status';
+import {
+    detectCarrier,
+    normalizeTrackingNumber,
+    type Carrier,
+} from '@/lib/utils/tracking';
 import type { Database } from '@/types/database';
 
 export type OrderRow = Database['public']['Tables']['orders']['Row'];
@@ -15,6 +21,25 @@ export interface OrderWithItems extends OrderRow {
     order_items: OrderItemRow[];
 }
 
+/**
+ * A package the order shipped in: its tracking number and carrier (null when
+ * the carrier is unknown)
+ */
+export type OrderShipmentRow =
+    Database['public']['Tables']['order_shipments']['Row'];
+
+export interface OrderWithShipments extends OrderRow {
+    order_shipments: OrderShipmentRow[];
+}
+
+/**
+ * What happened to an order line's stock when its order was cancelled
+ */
+export type OrderItemRestock = Pick<
+    Database['public']['Tables']['order_item_restocks']['Row'],
+    'quantity' | 'disposition' | 'created_at'
+>;
+
 export interface OrderItemWithArtwork extends OrderItemRow {
     artwork: {
         title: string;
@@ -22,11 +47,86 @@ export interface OrderItemWithArtwork extends OrderItemRow {
         image_thumbnail_url: string | null;
         slug: string;
     } | null;
+    variant?: {
+        sku: string | null;
+    } | null;
+    restock?: OrderItemRestock | null;
+}
+
+/**
+ * A gift card redemption that paid for part of an order (ledger debit)
+ */
+export interface OrderGiftCardRedemption {
+    id: string;
+    amount: string; // Negative (debit)
+    gift_card: {
+        id: string;
+        code: string;
+    } | null;
+}
+
+export type OrderRefundRow =
+    Database['public']['Tables']['order_refunds']['Row'];
+
+/**
+ * A refund issued through Stripe, with the line items (and quantities) it
+ * covered. Amount-only refunds (e.g. shipping) have no items.
+ */
+export interface OrderRefundWithItems extends OrderRefundRow {
+    order_refund_items: {
+        order_item_id: string;
+        quantity: number;
+    }[];
+}
+
+/**
+ * A chargeback opened against the order's payment, as last reported by the
+ * Stripe webhook
+ */
+export type OrderDisputeRow =
+    Database['public']['Tables']['order_disputes']['Row'];
+
+/**
+ * A status the order moved to: from which status, when, and who moved it
+ * (changed_by is null for automatic changes, e.g. by the Stripe webhook)
+ */
+export type OrderStatusHistoryRow =
+    Database['public']['Tables']['order_status_history']['Row'];
+
+/**
+ * Who is changing an order's status, and why, for the status history
+ */
+export interface OrderStatusChange {
+    adminId: string | null;
+    changedBy: string | null;
+    note?: string | null;
 }
 
 export interface OrderWithItemsAndArtwork
     extends Omit<OrderRow, 'order_items'> {
     order_items: OrderItemWithArtwork[];
+    gift_card_transactions?: OrderGiftCardRedemption[];
+    order_refunds?: OrderRefundWithItems[];
+    order_disputes?: OrderDisputeRow[];
+    order_status_history?: OrderStatusHistoryRow[];
+    order_shipments?: OrderShipmentRow[];
+}
+
+/**
+ * An order with the line item details the bookkeeping CSV export needs
+ */
+export interface OrderForExport extends OrderRow {
+    order_items: (Pick<
+        OrderItemRow,
+        | 'id'
+        | 'quantity'
+        | 'price_at_purchase'
+        | 'line_subtotal'
+        | 'variant_name'
+    > & {
+        artwork: { title: string; sku: string | null } | null;
+        variant: { sku: string | null } | null;
+    })[];
 }
 
 /**
@@ -47,16 +147,132 @@ const ARTWORK_FIELDS = `
     slug
 ` as const;
 
+/**
+ * Order fields for the order detail page and its printable documents: the
+ * order with its items (artwork, variant SKU and cancellation restock), gift
+ * card redemptions, refunds, disputes, status history and shipments
+ */
+const ORDER_DETAIL_FIELDS = `
+    *,
+    order_items (
+        id,
+        order_id,
+        artwork_id,
+        quantity,
+        price_at_purchase,
+        line_subtotal,
+        variant_id,
+        variant_name,
+        preorder_project_id,
+        edition_number_start,
+        edition_size,
+        certificate_token,
+        created_at,
+        artwork (${ARTWORK_FIELDS}),
+        variant:artwork_variants (sku),
+        restock:order_item_restocks (quantity, disposition, created_at)
+    ),
+    gift_card_transactions (
+        id,
+        amount,
+        gift_card:gift_cards (id, code)
+    ),
+    order_refunds (
+        *,
+        order_refund_items (order_item_id, quantity)
+    ),
+    order_disputes (*),
+    order_status_history (*),
+    order_shipments (*)
+` as const;
+
+/**
+ * Order fields for the CSV export: the whole order plus, per line item, what
+ * a bookkeeper needs (title and SKU, quantity, price paid)
+ */
+const ORDER_EXPORT_FIELDS = `
+    *,
+    order_items (
+        id,
+        quantity,
+        price_at_purchase,
+        line_subtotal,
+        variant_name,
+        artwork (title, sku),
+        variant:artwork_variants (sku)
+    )
+` as const;
+
 export interface OrderAdminError {
     code: string;
     message: string;
     details?: string;
 }
 
+export interface ShippingCountryBreakdown {
+    country: string; // ISO alpha-2, as stored in orders.shipping_country
+    order_count: number;
+    revenue: number;
+}
+
 export interface OrderFilters {
     status?: OrderStatus;
     startDate?: string; // ISO date string
     endDate?: string; // ISO date string
+    search?: string; // Order number, customer name or email, SKU or tracking number
+}
+
+/**
+ * Columns the admin orders list can be sorted by
+ */
+export const ORDER_SORT_COLUMNS = [
+    'created_at',
+    'order_number',
+    'customer_name',
+    'total',
+    'status',
+] as const;
+
+export type OrderSortColumn = (typeof ORDER_SORT_COLUMNS)[number];
+
+export interface OrderSort {
+    column: OrderSortColumn;
+    ascending: boolean;
+}
+
+/**
+ * The filter methods applyOrderFilters needs from an orders query
+ */
+interface FilterableOrderQuery<Q> {
+    eq(column: 'status', value: OrderStatus): Q;
+    gte(column: 'created_at', value: string): Q;
+    lte(column: 'created_at', value: string): Q;
+    ilike(column: 'search_text', pattern: string): Q;
+}
+
+/**
+ * Narrows an orders query to the admin list filters, so the list and the
+ * CSV export always agree on which orders match
+ */
+function applyOrderFilters<Q extends FilterableOrderQuery<Q>>(
+    query: Q,
+    filters?: OrderFilters
+): Q {
+    if (filters?.status) {
+        query = query.eq('status', filters.status);
+    }
+    if (filters?.startDate) {
+        query = query.gte('created_at', filters.startDate);
+    }
+    if (filters?.endDate) {
+        query = query.lte('created_at', filters.endDate);
+    }
+    if (filters?.search?.trim()) {
+        // Escape LIKE wildcards so they match literally
+        const term = filters.search.trim().replace(/[\\%_]/g, '\\$&');
+        query = query.ilike('search_text', `%${term}%`);
+    }
+    return query;
 }
 
 /**
@@ -66,7 +282,12 @@ export interface OrderFilters {
  * - Pagination via limit/offset for efficient data loading
  * - Status filtering (pending, paid, processing, shipped, delivered, cancelled)
  * - Date range filtering via startDate and endDate (ISO format)
- * - Results ordered by creation date (newest first)
+ * - Case-insensitive search (partial matches) across the order number,
+ *   customer name and email, item SKUs and tracking numbers, via the
+ *   search_text computed column
+ * - Sorting by any ORDER_SORT_COLUMNS column (newest first by default), with
+ *   ties broken newest first so pages don't shift
+ * - The exact number of matching orders, for page counts
  *
  * Performance considerations:
  * - Indexed on orders.created_at for efficient sorting
@@ -75,41 +296,44 @@ export interface OrderFilters {
  *
  * @param limit - Maximum number of orders to return (default: 20)
  * @param offset - Number of orders to skip for pagination (default: 0)
- * @param filters - Optional filters for status and date range
- * @returns Promise resolving to array of orders or error
+ * @param filters - Optional filters for status, date range and search
+ * @param sort - Column and direction (default: created_at, newest first)
+ * @returns Promise resolving to the page of orders and the total count, or error
  */
 export async function getAllOrders(
     limit: number = 20,
     offset: number = 0,
-    filters?: OrderFilters
-): Promise<{ data: OrderRow[] | null; error: OrderAdminError | null }> {
+    filters?: OrderFilters,
+    sort: OrderSort = { column: 'created_at', ascending: false }
+): Promise<{
+    data: OrderWithShipments[] | null;
+    count: number;
+    error: OrderAdminError | null;
+}> {
     if (typeof window !== 'undefined') {
         throw new Error('Admin queries must run server-side only');
     }
 
     try {
         const supabase = await createServiceRoleClient();
-        let query = supabase.from('orders').select('*', { count: 'exact' });
-
-        // Apply filters
-        if (filters?.status) {
-            query = query.eq('status', filters.status);
-        }
-        if (filters?.startDate) {
-            query = query.gte('created_at', filters.startDate);
-        }
-        if (filters?.endDate) {
-            query = query.lte('created_at', filters.endDate);
-        }
+        const query = supabase
+            .from('orders')
+            .select('*, order_shipments (*)', { count: 'exact' });
 
         // Apply pagination and sorting
-        const { data, error } = await query
+        let sorted = applyOrderFilters(query, filters)
             .range(offset, offset + limit - 1)
-            .order('created_at', { ascending: false });
+            .order(sort.column, { ascending: sort.ascending });
+        if (sort.column !== 'created_at') {
+            sorted = sorted.order('created_at', { ascending: false });
+        }
+
+        const { data, count, error } = await sorted;
 
         if (error) {
             return {
                 data: null,
+                count: 0,
                 error: {
                     code: error.code,
                     message: error.message,
@@ -117,10 +341,11 @@ export async function getAllOrders(
             };
         }
 
-        return { data, error: null };
+        return { data, count: count ?? 0, error: null };
     } catch (err) {
         return {
             data: null,
+            count: 0,
             error: {
                 code: 'fetch_error',
                 message: 'Failed to fetch orders',
@@ -134,29 +359,26 @@ export async function getAllOrders(
 }
 
 /**
- * Retrieves a single order by ID with order items and artwork details.
- *
- * This query performs a nested join:
- * 1. Orders table (main query)
- * 2. Left join with order_items (one order has many items)
- * 3. Left join with artwork (each item references one artwork)
- *
- * The artwork join uses LEFT JOIN semantics, meaning:
- * - If artwork has been deleted after order creation, artwork will be null
- * - All order items will still be returned regardless of artwork existence
- * - Callers should handle null artwork gracefully in the UI
+ * Retrieves a page of orders with their line items, for the bookkeeping CSV
+ * export. Takes the same filters and sort as getAllOrders; the export route
+ * calls it repeatedly, a page at a time, while it streams the file.
  *
- * Performance considerations:
- * - Indexed on orders.id (primary key)
- * - Indexed on order_items.order_id (foreign key)
- * - Indexed on order_items.artwork_id (foreign key)
- * - Query typically returns 1 order with 1-5 items
+ * No total count is requested: the export reads pages until one comes back
+ * short. Orders are finally sorted by id, so the pages split a stable order.
  *
- * @param id - UUID of the order to retrieve
- * @returns Promise resolving to order with items and artwork, or error
+ * @param limit - Maximum number of orders to return
+ * @param offset - Number of orders to skip
+ * @param filters - Optional filters for status, date range and search
+ * @param sort - Column and direction (default: created_at, newest first)
+ * @returns Promise resolving to the page of orders with their items, or error
  */
-export async function getOrderById(id: string): Promise<{
-    data: OrderWithItemsAndArtwork | null;
+export async function getOrdersForExport(
+    limit: number,
+    offset: number,
+    filters?: OrderFilters,
+    sort: OrderSort = { column: 'created_at', ascending: false }
+): Promise<{
+    data: OrderForExport[] | null;
     error: OrderAdminError | null;
 }> {
     if (typeof window !== 'undefined') {
@@ -165,25 +387,19 @@ export async function getOrderById(id: string): Promise<{
 
     try {
         const supabase = await createServiceRoleClient();
-        const { data, error } = await supabase
-            .from('orders')
-            .select(
-                `
-                *,
-                order_items (
-                    id,
-                    order_id,
-                    artwork_id,
-                    quantity,
-                    price_at_purchase,
-                    line_subtotal,
-                    created_at,
-                    artwork (${ARTWORK_FIELDS})
-                )
-            `
-            )
-            .eq('id', id)
-            .single();
+        const query = supabase.from('orders').select(ORDER_EXPORT_FIELDS);
+
+        let sorted = applyOrderFilters(query, filters)
+            .range(offset, offset + limit - 1)
+            .order(sort.column, { ascending: sort.ascending });
+        if (sort.column !== 'created_at') {
+            sorted = sorted.order('created_at', { ascending: false });
+        }
+        // Orders tied on every sort column come back in the same order on
+        // every page, so none is skipped or repeated between pages
+        sorted = sorted.order('id', { ascending: true });
+
+        const { data, error } = await sorted;
 
         if (error) {
             return {
@@ -201,7 +417,7 @@ export async function getOrderById(id: string): Promise<{
             data: null,
             error: {
                 code: 'fetch_error',
-                message: 'Failed to fetch order',
+                message: 'Failed to fetch orders for export',
                 ...(process.env.NODE_ENV === 'development' && {
                     details:
                         err instanceof Error ? err.message : 'Unknown error',
@@ -212,29 +428,18 @@ export async function getOrderById(id: string): Promise<{
 }
 
 /**
- * Updates the status of an order.
- *
- * This operation:
- * - Updates the order status to a new value
- * - Automatically updates the updated_at timestamp via database trigger
- * - Returns the updated order record for verification
- *
- * Valid status transitions:
- * - pending → paid → processing → shipped → delivered
- * - Any status → cancelled (for order cancellation)
+ * Summarizes where orders ship: order count and revenue per destination
+ * country, busiest first. Cancelled orders are excluded.
  *
- * Performance considerations:
- * - Indexed on orders.id (primary key) for efficient updates
- * - Single atomic update operation
+ * Aggregated in memory (like the dashboard revenue total); the
+ * orders.shipping_country index keeps the scan cheap.
  *
- * @param id - UUID of the order to update
- * @param status - New order status (pending, paid, processing, shipped, delivered, cancelled)
- * @returns Promise resolving to updated order or error
+ * @returns Promise resolving to per-country totals or error
  */
-export async function updateOrderStatus(
-    id: string,
-    status: OrderStatus
-): Promise<{ data: OrderRow | null; error: OrderAdminError | null }> {
+export async function getShippingCountryBreakdown(): Promise<{
+    data: ShippingCountryBreakdown[] | null;
+    error: OrderAdminError | null;
+}> {
     if (typeof window !== 'undefined') {
         throw new Error('Admin queries must run server-side only');
     }
@@ -243,10 +448,8 @@ export async function updateOrderStatus(
         const supabase = await createServiceRoleClient();
         const { data, error } = await supabase
             .from('orders')
-            .update({ status })
-            .eq('id', id)
-            .select()
-            .single();
+            .select('shipping_country, total')
+            .neq('status', 'cancelled');
 
         if (error) {
             return {
@@ -258,13 +461,30 @@ export async function updateOrderStatus(
             };
         }
 
-        return { data, error: null };
+        const byCountry = new Map<string, ShippingCountryBreakdown>();
+        for (const order of data ?? []) {
+            const entry = byCountry.get(order.shipping_country) ?? {
+                country: order.shipping_country,
+                order_count: 0,
+                revenue: 0,
+            };
+            entry.order_count += 1;
+            entry.revenue += parseFloat(order.total);
+            byCountry.set(order.shipping_country, entry);
+        }
+
+        return {
+            data: [...byCountry.values()].sort(
+                (a, b) => b.order_count - a.order_count || b.revenue - a.revenue
+            ),
+            error: null,
+        };
     } catch (err) {
         return {
             data: null,
             error: {
-                code: 'update_error',
-                message: 'Failed to update order status',
+                code: 'fetch_error',
+                message: 'Failed to fetch shipping country breakdown',
                 ...(process.env.NODE_ENV === 'development' && {
                     details:
                         err instanceof Error ? err.message : 'Unknown error',
@@ -275,76 +495,43 @@ export async function updateOrderStatus(
 }
 
 /**
- * Adds a timestamped note to an order's admin notes.
- *
- * This operation:
- * - Fetches the current admin_notes field
- * - Prepends timestamp in format [YYYY-MM-DD HH:MM]
- * - Appends new note to existing notes (preserves history)
- * - Updates order and returns updated record
+ * Retrieves a single order by ID with order items and artwork details.
  *
- * Note format: "[2025-01-11 14:30] Customer requested gift wrap"
+ * This query performs a nested join:
+ * 1. Orders table (main query)
+ * 2. Left join with order_items (one order has many items)
+ * 3. Left join with artwork (each item references one artwork)
+ * 4. Left join with the gift card redemptions that paid for the order
+ * 5. Left join with the order's refunds and the items they covered
  *
- * Use cases:
- * - Track customer service interactions
- * - Document special handling instructions
- * - Record internal order processing notes
+ * The artwork join uses LEFT JOIN semantics, meaning:
+ * - If artwork has been deleted after order creation, artwork will be null
+ * - All order items will still be returned regardless of artwork existence
+ * - Callers should handle null artwork gracefully in the UI
  *
  * Performance considerations:
- * - Requires two queries (fetch + update) for data integrity
- * - Both queries indexed on orders.id (primary key)
- * - Timestamp generated server-side for consistency
+ * - Indexed on orders.id (primary key)
+ * - Indexed on order_items.order_id (foreign key)
+ * - Indexed on order_items.artwork_id (foreign key)
+ * - Query typically returns 1 order with 1-5 items
  *
- * @param id - UUID of the order to add note to
- * @param note - Text content of the note (timestamp will be prepended automatically)
- * @returns Promise resolving to updated order or error
+ * @param id - UUID of the order to retrieve
+ * @returns Promise resolving to order with items and artwork, or error
  */
-export async function addOrderNote(
-    id: string,
-    note: string
-): Promise<{ data: OrderRow | null; error: OrderAdminError | null }> {
+export async function getOrderById(id: string): Promise<{
+    data: OrderWithItemsAndArtwork | null;
+    error: OrderAdminError | null;
+}> {
     if (typeof window !== 'undefined') {
         throw new Error('Admin queries must run server-side only');
     }
 
     try {
         const supabase = await createServiceRoleClient();
-
-        // First, get the current order to append to existing notes
-        const { data: order, error: fetchError } = await supabase
-            .from('orders')
-            .select('admin_notes')
-            .eq('id', id)
-            .single();
-
-        if (fetchError) {
-            return {
-                data: null,
-                error: {
-                    code: fetchError.code,
-                    message: fetchError.message,
-                },
-            };
-        }
-
-        // Format the new note with timestamp
-        const timestamp = new Date()
-            .toISOString()
-            .replace('T', ' ')
-            .slice(0, 16);
-        const formattedNote = `[${timestamp}] ${note}`;
-
-        // Append to existing notes or create new
-        const updatedNotes = order.admin_notes
-            ? `${order.admin_notes}\n${formattedNote}`
-            : formattedNote;
-
-        // Update the order
         const { data, error } = await supabase
             .from('orders')
-            .update({ admin_notes: updatedNotes })
+            .select(ORDER_DETAIL_FIELDS)
             .eq('id', id)
-            .select()
             .single();
 
         if (error) {
@@ -362,8 +549,8 @@ export async function addOrderNote(
         return {
             data: null,
             error: {
-                code: 'update_error',
-                message: 'Failed to add order note',
+                code: 'fetch_error',
+                message: 'Failed to fetch order',
                 ...(process.env.NODE_ENV === 'development' && {
                     details:
                         err instanceof Error ? err.message : 'Unknown error',
@@ -374,33 +561,22 @@ export async function addOrderNote(
 }
 
 /**
- * Adds or updates the shipping tracking number for an order.
- *
- * This operation:
- * - Updates the shipping_tracking_number field
- * - Automatically updates the updated_at timestamp via database trigger
- * - Returns the updated order record for verification
- *
- * Common use cases:
- * - Adding tracking number when order ships
- * - Correcting tracking number if entered incorrectly
- * - Updating tracking number if shipment is re-routed
- *
- * Note: This does not automatically update order status. Call updateOrderStatus
- * separately to change status to 'shipped' if needed.
+ * Statuses of orders waiting to be packed and shipped
+ */
+export const FULFILLMENT_STATUSES: OrderStatus[] = ['paid', 'processing'];
+
+/**
+ * Retrieves every order waiting to be fulfilled (paid or processing) with
+ * the same details as getOrderById, for batch packing slips and invoices.
  *
- * Performance considerations:
- * - Indexed on orders.id (primary key) for efficient updates
- * - Single atomic update operation
+ * Results are ordered by creation date (oldest first, the order to ship in).
  *
- * @param id - UUID of the order to update
- * @param tracking - Shipping tracking number (format varies by carrier)
- * @returns Promise resolving to updated order or error
+ * @returns Promise resolving to orders with items and artwork, or error
  */
-export async function addTrackingNumber(
-    id: string,
-    tracking: string
-): Promise<{ data: OrderRow | null; error: OrderAdminError | null }> {
+export async function getOrdersToFulfill(): Promise<{
+    data: OrderWithItemsAndArtwork[] | null;
+    error: OrderAdminError | null;
+}> {
     if (typeof window !== 'undefined') {
         throw new Error('Admin queries must run server-side only');
     }
@@ -409,10 +585,9 @@ export async function addTrackingNumber(
         const supabase = await createServiceRoleClient();
         const { data, error } = await supabase
             .from('orders')
-            .update({ shipping_tracking_number: tracking })
-            .eq('id', id)
-            .select()
-            .single();
+            .select(ORDER_DETAIL_FIELDS)
+            .in('status', FULFILLMENT_STATUSES)
+            .order('created_at', { ascending: true });
 
         if (error) {
             return {
@@ -429,8 +604,871 @@ export async function addTrackingNumber(
         return {
             data: null,
             error: {
-                code: 'update_error',
-                message: 'Failed to add tracking number',
+                code: 'fetch_error',
+                message: 'Failed to fetch orders to fulfill',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Retrieves the chosen orders with the same details as getOrderById, for
+ * printing packing slips or invoices for a selection of orders.
+ *
+ * Results are ordered by creation date (oldest first, the order to ship in).
+ * Unknown IDs are skipped.
+ *
+ * @param ids - UUIDs of the orders
+ * @returns Promise resolving to orders with items and artwork, or error
+ */
+export async function getOrdersByIds(ids: string[]): Promise<{
+    data: OrderWithItemsAndArtwork[] | null;
+    error: OrderAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('orders')
+            .select(ORDER_DETAIL_FIELDS)
+            .in('id', ids)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch orders',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Retrieves the orders that pre-ordered artwork from a project, with the
+ * project's pre-order lines (other items on the order are omitted).
+ *
+ * The inner join on order_items keeps only orders with at least one line
+ * whose preorder_project_id matches. Unpaid (pending) and cancelled orders
+ * are included so the admin sees the whole pre-order run.
+ *
+ * Performance considerations:
+ * - Indexed on order_items.preorder_project_id (partial index)
+ * - Results ordered by creation date (oldest first, the order to ship in)
+ *
+ * @param projectId - UUID of the In The Works project
+ * @returns Promise resolving to orders with the project's pre-order lines, or error
+ */
+export async function getPreorderOrdersForProject(projectId: string): Promise<{
+    data: OrderWithItemsAndArtwork[] | null;
+    error: OrderAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('orders')
+            .select(
+                `
+                *,
+                order_items!inner (
+                    id,
+                    order_id,
+                    artwork_id,
+                    quantity,
+                    price_at_purchase,
+                    line_subtotal,
+                    variant_id,
+                    variant_name,
+                    preorder_project_id,
+                    edition_number_start,
+                    edition_size,
+                    certificate_token,
+                    created_at,
+                    artwork (${ARTWORK_FIELDS})
+                )
+            `
+            )
+            .eq('order_items.preorder_project_id', projectId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch pre-orders',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Payment statuses a pre-order can be released or shipped in: the customer
+ * paid, and at most part of it was refunded
+ */
+export const PREORDER_BATCH_PAYMENT_STATUSES: OrderRow['payment_status'][] = [
+    'succeeded',
+    'partially_refunded',
+];
+
+/**
+ * Moves every pre-order for a project from one of the given statuses to a
+ * new status (batch release or shipping once the project completes).
+ *
+ * Each order goes through update_order_status(), like updateOrderStatus, so
+ * the move is recorded in its status history with the admin who made it, and
+ * an order whose status changed in the meantime is left alone. Orders in any
+ * other status, or that can't move to the new one
+ * (ORDER_STATUS_TRANSITIONS), are skipped, so re-running a batch is harmless
+ * and pending or cancelled orders are never shipped. So are orders whose
+ * payment didn't go through or was refunded in full
+ * (PREORDER_BATCH_PAYMENT_STATUSES).
+ *
+ * @param projectId - UUID of the In The Works project
+ * @param fromStatuses - Statuses eligible for the move (e.g. ['paid'])
+ * @param status - New order status
+ * @param change - Who is making the change, and why
+ * @returns Promise resolving to the updated orders or error
+ */
+export async function updatePreorderStatusForProject(
+    projectId: string,
+    fromStatuses: OrderStatus[],
+    status: OrderStatus,
+    change: OrderStatusChange
+): Promise<{ data: OrderRow[] | null; error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+
+        const { data: items, error: itemsError } = await supabase
+            .from('order_items')
+            .select('order_id')
+            .eq('preorder_project_id', projectId);
+
+        if (itemsError) {
+            return {
+                data: null,
+                error: {
+                    code: itemsError.code,
+                    message: itemsError.message,
+                },
+            };
+        }
+
+        const orderIds = [
+            ...new Set((items ?? []).map((item) => item.order_id)),
+        ];
+
+        if (orderIds.length === 0) {
+            return { data: [], error: null };
+        }
+
+        const { data: orders, error } = await supabase
+            .from('orders')
+            .select('*')
+            .in('id', orderIds)
+            .in('status', fromStatuses)
+            .in('payment_status', PREORDER_BATCH_PAYMENT_STATUSES);
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        const updated: OrderRow[] = [];
+        for (const order of orders ?? []) {
+            if (!canTransitionOrderStatus(order.status, status)) {
+                continue;
+            }
+
+            const { data: moved, error: updateError } = await supabase.rpc(
+                'update_order_status',
+                {
+                    p_order_id: order.id,
+                    p_from_status: order.status,
+                    p_to_status: status,
+                    p_admin_id: change.adminId,
+                    p_changed_by: change.changedBy,
+                    p_note: change.note || null,
+                }
+            );
+
+            if (updateError) {
+                return {
+                    data: null,
+                    error: {
+                        code: updateError.code,
+                        message: updateError.message,
+                    },
+                };
+            }
+
+            if (moved) {
+                updated.push({ ...order, status });
+            }
+        }
+
+        return { data: updated, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to update pre-orders',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Reads an order's current status and checks it may move to `to`
+ * (ORDER_STATUS_TRANSITIONS)
+ *
+ * @returns The current status, or an invalid_transition error
+ */
+async function checkStatusTransition(
+    supabase: Awaited<ReturnType<typeof createServiceRoleClient>>,
+    id: string,
+    to: OrderStatus
+): Promise<{ from: OrderStatus | null; error: OrderAdminError | null }> {
+    const { data: order, error } = await supabase
+        .from('orders')
+        .select('status')
+        .eq('id', id)
+        .single();
+
+    if (error || !order) {
+        return {
+            from: null,
+            error: {
+                code: error?.code ?? 'not_found',
+                message: error?.message ?? 'Order not found',
+            },
+        };
+    }
+
+    if (!canTransitionOrderStatus(order.status, to)) {
+        return {
+            from: null,
+            error: {
+                code: 'invalid_transition',
+                message: `Orders can't move from ${order.status} to ${to}`,
+            },
+        };
+    }
+
+    return { from: order.status, error: null };
+}
+
+const STATUS_CONFLICT_ERROR: OrderAdminError = {
+    code: 'status_conflict',
+    message: "The order's status has just changed. Reload and try again.",
+};
+
+/**
+ * Updates the status of an order.
+ *
+ * This operation:
+ * - Checks the move is allowed from the order's current status
+ *   (ORDER_STATUS_TRANSITIONS)
+ * - Runs update_order_status(), which only applies the change if the order
+ *   is still in that status, so two admins can't both move it
+ * - Records the change, with who made it and the note, in the order's
+ *   status history
+ *
+ * Cancelling a paid order returns its stock (restore_inventory_on_cancel);
+ * use cancelOrder to write damaged lines off instead.
+ *
+ * @param id - UUID of the order to update
+ * @param status - New order status (pending, paid, processing, shipped, delivered, cancelled)
+ * @param change - Who is changing the status, and an optional note
+ * @returns Promise resolving to an error, if any
+ */
+export async function updateOrderStatus(
+    id: string,
+    status: OrderStatus,
+    change: OrderStatusChange
+): Promise<{ error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+
+        const { from, error: transitionError } = await checkStatusTransition(
+            supabase,
+            id,
+            status
+        );
+        if (transitionError || !from) {
+            return { error: transitionError };
+        }
+
+        const { data: updated, error } = await supabase.rpc(
+            'update_order_status',
+            {
+                p_order_id: id,
+                p_from_status: from,
+                p_to_status: status,
+                p_admin_id: change.adminId,
+                p_changed_by: change.changedBy,
+                p_note: change.note || null,
+            }
+        );
+
+        if (error) {
+            return {
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        if (!updated) {
+            return { error: STATUS_CONFLICT_ERROR };
+        }
+
+        return { error: null };
+    } catch (err) {
+        return {
+            error: {
+                code: 'update_error',
+                message: 'Failed to update order status',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Adds a timestamped note to an order's admin notes.
+ *
+ * This operation:
+ * - Fetches the current admin_notes field
+ * - Prepends timestamp in format [YYYY-MM-DD HH:MM]
+ * - Appends new note to existing notes (preserves history)
+ * - Updates order and returns updated record
+ *
+ * Note format: "[2025-01-11 14:30] Customer requested gift wrap"
+ *
+ * Use cases:
+ * - Track customer service interactions
+ * - Document special handling instructions
+ * - Record internal order processing notes
+ *
+ * Performance considerations:
+ * - Requires two queries (fetch + update) for data integrity
+ * - Both queries indexed on orders.id (primary key)
+ * - Timestamp generated server-side for consistency
+ *
+ * @param id - UUID of the order to add note to
+ * @param note - Text content of the note (timestamp will be prepended automatically)
+ * @returns Promise resolving to updated order or error
+ */
+export async function addOrderNote(
+    id: string,
+    note: string
+): Promise<{ data: OrderRow | null; error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+
+        // First, get the current order to append to existing notes
+        const { data: order, error: fetchError } = await supabase
+            .from('orders')
+            .select('admin_notes')
+            .eq('id', id)
+            .single();
+
+        if (fetchError) {
+            return {
+                data: null,
+                error: {
+                    code: fetchError.code,
+                    message: fetchError.message,
+                },
+            };
+        }
+
+        // Format the new note with timestamp
+        const timestamp = new Date()
+            .toISOString()
+            .replace('T', ' ')
+            .slice(0, 16);
+        const formattedNote = `[${timestamp}] ${note}`;
+
+        // Append to existing notes or create new
+        const updatedNotes = order.admin_notes
+            ? `${order.admin_notes}\n${formattedNote}`
+            : formattedNote;
+
+        // Update the order
+        const { data, error } = await supabase
+            .from('orders')
+            .update({ admin_notes: updatedNotes })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to add order note',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Adds a package's tracking number to an order.
+ *
+ * The number is tidied (spaces and dashes removed, uppercased) and stored
+ * with the carrier: the one given, or else the one detected from the
+ * number's format (null when it isn't recognised). Adding a number the
+ * order already has updates its carrier instead of duplicating it.
+ *
+ * Note: This does not automatically update order status. Call updateOrderStatus
+ * separately to change status to 'shipped' if needed.
+ *
+ * @param id - UUID of the order
+ * @param tracking - Tracking number as entered
+ * @param carrier - Carrier chosen by the admin, or null to detect it
+ * @returns Promise resolving to the shipment or error
+ */
+export async function addTrackingNumber(
+    id: string,
+    tracking: string,
+    carrier: Carrier | null = null
+): Promise<{ data: OrderShipmentRow | null; error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const trackingNumber = normalizeTrackingNumber(tracking);
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('order_shipments')
+            .upsert(
+                {
+                    order_id: id,
+                    tracking_number: trackingNumber,
+                    carrier: carrier ?? detectCarrier(trackingNumber),
+                },
+                { onConflict: 'order_id,tracking_number' }
+            )
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to add tracking number',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Removes a package's tracking number from an order, e.g. one entered by
+ * mistake.
+ *
+ * @param id - UUID of the order
+ * @param shipmentId - UUID of the order_shipments row
+ * @returns Promise resolving to an error, if any
+ */
+export async function removeTrackingNumber(
+    id: string,
+    shipmentId: string
+): Promise<{ error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { error } = await supabase
+            .from('order_shipments')
+            .delete()
+            .eq('id', shipmentId)
+            .eq('order_id', id);
+
+        if (error) {
+            return {
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { error: null };
+    } catch (err) {
+        return {
+            error: {
+                code: 'update_error',
+                message: 'Failed to remove tracking number',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export interface OrderRefundInput {
+    stripeRefundId: string;
+    amount: number; // Dollars
+    reason: string | null;
+    restock: boolean;
+    items: { orderItemId: string; quantity: number }[];
+}
+
+/**
+ * Records a refund that has been issued through Stripe.
+ *
+ * Runs record_order_refund(), which in one transaction:
+ * - Inserts the refund and the items it covered
+ * - Puts the refunded quantities back in stock when restock is set
+ * - Moves payment_status to 'partially_refunded', or 'refunded' once the
+ *   whole order total has been refunded
+ *
+ * @param orderId - UUID of the refunded order
+ * @param refund - The Stripe refund and what it covered
+ * @returns Promise resolving to the new refund's id, or error with code
+ *   'refund_exceeds_order' when it refunds more than the order (nothing is
+ *   recorded)
+ */
+export async function recordOrderRefund(
+    orderId: string,
+    refund: OrderRefundInput
+): Promise<{ data: string | null; error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase.rpc('record_order_refund', {
+            p_order_id: orderId,
+            p_stripe_refund_id: refund.stripeRefundId,
+            p_amount: refund.amount,
+            p_reason: refund.reason,
+            p_restock: refund.restock,
+            p_items: refund.items.map((item) => ({
+                order_item_id: item.orderItemId,
+                quantity: item.quantity,
+            })),
+        });
+
+        if (error) {
+            return {
+                data: null,
+                error:
+                    error.message === 'refund_exceeds_order'
+                        ? {
+                              code: 'refund_exceeds_order',
+                              message:
+                                  'The refund is more than is left to refund on this order',
+                          }
+                        : {
+                              code: error.code,
+                              message: error.message,
+                          },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to record refund',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Cancels an order, writing off the stock of damaged lines.
+ *
+ * Checks the order can still be cancelled (ORDER_STATUS_TRANSITIONS), then
+ * runs cancel_order(), which records the write-offs and moves the order to
+ * 'cancelled' in one transaction, if the order is still in the status
+ * checked. The cancellation trigger then returns the stock of every other
+ * line. Each line's stock is released once: lines released by an earlier
+ * cancellation are left as they were.
+ *
+ * @param id - UUID of the order to cancel
+ * @param writtenOffItemIds - Order items whose stock must not go back on sale
+ * @param change - Who is cancelling the order, and an optional note
+ * @returns Promise resolving to an error, if any
+ */
+export async function cancelOrder(
+    id: string,
+    writtenOffItemIds: string[],
+    change: OrderStatusChange
+): Promise<{ error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+
+        const { from, error: transitionError } = await checkStatusTransition(
+            supabase,
+            id,
+            'cancelled'
+        );
+        if (transitionError || !from) {
+            return { error: transitionError };
+        }
+
+        const { data: cancelled, error } = await supabase.rpc('cancel_order', {
+            p_order_id: id,
+            p_written_off_item_ids: writtenOffItemIds,
+            p_from_status: from,
+            p_admin_id: change.adminId,
+            p_changed_by: change.changedBy,
+            p_note: change.note || null,
+        });
+
+        if (error) {
+            return {
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        if (!cancelled) {
+            return { error: STATUS_CONFLICT_ERROR };
+        }
+
+        return { error: null };
+    } catch (err) {
+        return {
+            error: {
+                code: 'update_error',
+                message: 'Failed to cancel order',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * The customer emails sent when an order moves to a status
+ */
+export type OrderStatusEmail = 'shipped' | 'delivered';
+
+/**
+ * Records that a shipping or delivery email is about to be sent, unless one
+ * already has been for this order (e.g. the status was saved twice).
+ *
+ * Claim before sending and release the claim if the send fails, so a
+ * concurrent save can't send the same email again.
+ *
+ * @param id - UUID of the order
+ * @param email - Which email
+ * @returns claimed: false when the email was already sent
+ */
+export async function claimOrderStatusEmail(
+    id: string,
+    email: OrderStatusEmail
+): Promise<{ claimed: boolean; error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const sentAt = new Date().toISOString();
+        const { data, error } = await supabase
+            .from('orders')
+            .update(
+                email === 'shipped'
+                    ? { shipped_email_sent_at: sentAt }
+                    : { delivered_email_sent_at: sentAt }
+            )
+            .eq('id', id)
+            .is(`${email}_email_sent_at`, null)
+            .select('id');
+
+        if (error) {
+            return {
+                claimed: false,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { claimed: data.length > 0, error: null };
+    } catch (err) {
+        return {
+            claimed: false,
+            error: {
+                code: 'update_error',
+                message: 'Failed to record order email',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Releases a claim made by claimOrderStatusEmail when the email could not be
+ * sent, so it can be sent on a later save.
+ *
+ * @param id - UUID of the order
+ * @param email - Which email
+ */
+export async function releaseOrderStatusEmail(
+    id: string,
+    email: OrderStatusEmail
+): Promise<{ error: OrderAdminError | null }> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { error } = await supabase
+            .from('orders')
+            .update(
+                email === 'shipped'
+                    ? { shipped_email_sent_at: null }
+                    : { delivered_email_sent_at: null }
+            )
+            .eq('id', id);
+
+        if (error) {
+            return {
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { error: null };
+    } catch (err) {
+        return {
+            error: {
+                code: 'update_error',
+                message: 'Failed to release order email',
                 ...(process.env.NODE_ENV === 'development' && {
                     details:
                         err instanceof Error ? err.message : 'Unknown error',
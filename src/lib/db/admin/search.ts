@@ -0,0 +1,60 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { SearchResult } from '@/lib/db/search';
+
+export interface SearchAdminError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+/**
+ * Search artwork, projects and events including unpublished drafts
+ *
+ * @param query - Websearch-style query ("quoted phrase", -exclude, or)
+ * @param limit - Maximum number of results (capped at 50 by the database)
+ * @returns Results ordered by relevance, or error
+ */
+export async function searchSiteAdmin(
+    query: string,
+    limit: number = 50
+): Promise<{
+    data: SearchResult[] | null;
+    error: SearchAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase.rpc('search_site', {
+            p_query: query,
+            p_include_unpublished: true,
+            p_limit: limit,
+        });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data: data ?? [], error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to search',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
@@ -0,0 +1,238 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+export type ShippingZoneInput =
+    Database['public']['Tables']['shipping_zones']['Insert'];
+export type ShippingZoneRow =
+    Database['public']['Tables']['shipping_zones']['Row'];
+
+export interface ShippingZoneAdminError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+export async function getAllShippingZonesAdmin(
+    limit: number = 50,
+    offset: number = 0
+): Promise<{
+    data: ShippingZoneRow[] | null;
+    error: ShippingZoneAdminError | null;
+}> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('shipping_zones')
+            .select('*', { count: 'exact' })
+            .range(offset, offset + limit - 1)
+            .order('display_order', { ascending: true })
+            .order('name', { ascending: true });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch shipping zones',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export async function getShippingZoneById(
+    id: string
+): Promise<{
+    data: ShippingZoneRow | null;
+    error: ShippingZoneAdminError | null;
+}> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('shipping_zones')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch shipping zone',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export async function createShippingZone(
+    zone: ShippingZoneInput
+): Promise<{
+    data: ShippingZoneRow | null;
+    error: ShippingZoneAdminError | null;
+}> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('shipping_zones')
+            .insert(zone)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'create_error',
+                message: 'Failed to create shipping zone',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export async function updateShippingZone(
+    id: string,
+    zone: Partial<ShippingZoneInput>
+): Promise<{
+    data: ShippingZoneRow | null;
+    error: ShippingZoneAdminError | null;
+}> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('shipping_zones')
+            .update(zone)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to update shipping zone',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+export async function deleteShippingZone(
+    id: string
+): Promise<{
+    data: { id: string } | null;
+    error: ShippingZoneAdminError | null;
+}> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { error } = await supabase
+            .from('shipping_zones')
+            .delete()
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data: { id }, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'delete_error',
+                message: 'Failed to delete shipping zone',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
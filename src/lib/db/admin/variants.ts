@@ -0,0 +1,157 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+export type ArtworkVariantInput =
+    Database['public']['Tables']['artwork_variants']['Insert'];
+export type ArtworkVariantRow =
+    Database['public']['Tables']['artwork_variants']['Row'];
+
+export interface VariantAdminError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+export async function getVariantsByArtworkId(artworkId: string): Promise<{
+    data: ArtworkVariantRow[] | null;
+    error: VariantAdminError | null;
+}> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('artwork_variants')
+            .select('*')
+            .eq('artwork_id', artworkId)
+            .order('display_order', { ascending: true });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch artwork variants',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Replaces the variant set of an artwork with the submitted list.
+ *
+ * Variants with an id are updated, variants without one are inserted and
+ * existing variants missing from the list are deleted. display_order follows
+ * the order of the submitted list.
+ */
+export async function saveArtworkVariants(
+    artworkId: string,
+    variants: Omit<ArtworkVariantInput, 'artwork_id'>[]
+): Promise<{
+    data: ArtworkVariantRow[] | null;
+    error: VariantAdminError | null;
+}> {
+    try {
+        if (typeof window !== 'undefined') {
+            throw new Error('Admin queries must run server-side only');
+        }
+
+        const supabase = await createServiceRoleClient();
+
+        const { data: existing, error: fetchError } = await supabase
+            .from('artwork_variants')
+            .select('id')
+            .eq('artwork_id', artworkId);
+
+        if (fetchError) {
+            return {
+                data: null,
+                error: {
+                    code: fetchError.code,
+                    message: fetchError.message,
+                },
+            };
+        }
+
+        const keptIds = new Set(
+            variants.map((variant) => variant.id).filter(Boolean)
+        );
+        const removedIds = (existing ?? [])
+            .map((variant) => variant.id)
+            .filter((id) => !keptIds.has(id));
+
+        if (removedIds.length > 0) {
+            const { error: deleteError } = await supabase
+                .from('artwork_variants')
+                .delete()
+                .in('id', removedIds);
+
+            if (deleteError) {
+                return {
+                    data: null,
+                    error: {
+                        code: deleteError.code,
+                        message: deleteError.message,
+                    },
+                };
+            }
+        }
+
+        if (variants.length === 0) {
+            return { data: [], error: null };
+        }
+
+        const rows = variants.map((variant, index) => ({
+            ...variant,
+            artwork_id: artworkId,
+            display_order: index,
+        }));
+
+        // defaultToNull: false lets new rows (no id) fall back to column defaults
+        const { data, error } = await supabase
+            .from('artwork_variants')
+            .upsert(rows, { defaultToNull: false })
+            .select();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'update_error',
+                message: 'Failed to save artwork variants',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
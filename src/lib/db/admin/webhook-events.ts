@@ -0,0 +1,123 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import {
+    STALE_PROCESSING_MINUTES,
+    type WebhookEventRow,
+} from '@/lib/db/webhook-events';
+
+/**
+ * A failed (or stuck) event as listed in the admin (without its payload)
+ */
+export type FailedWebhookEvent = Omit<WebhookEventRow, 'payload'>;
+
+export interface WebhookEventAdminError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+/**
+ * Retrieves the Stripe webhook events whose last processing attempt failed,
+ * or never finished (still 'processing' after STALE_PROCESSING_MINUTES), most
+ * recently attempted first
+ *
+ * @param limit - Maximum number of events to return (default: 50)
+ * @returns Promise resolving to array of failed events or error
+ */
+export async function getFailedWebhookEvents(limit: number = 50): Promise<{
+    data: FailedWebhookEvent[] | null;
+    error: WebhookEventAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const staleBefore = new Date(
+            Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000
+        ).toISOString();
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('stripe_webhook_events')
+            .select(
+                'id, stripe_event_id, type, status, error, attempts, processed_at, created_at, updated_at'
+            )
+            .or(
+                `status.eq.failed,and(status.eq.processing,updated_at.lt.${staleBefore})`
+            )
+            .order('updated_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch webhook events',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Retrieves a single Stripe webhook event, with the payload needed to
+ * process it again
+ *
+ * @param id - Event row UUID (not the Stripe event ID)
+ * @returns Promise resolving to the event or error
+ */
+export async function getWebhookEventById(id: string): Promise<{
+    data: WebhookEventRow | null;
+    error: WebhookEventAdminError | null;
+}> {
+    if (typeof window !== 'undefined') {
+        throw new Error('Admin queries must run server-side only');
+    }
+
+    try {
+        const supabase = await createServiceRoleClient();
+        const { data, error } = await supabase
+            .from('stripe_webhook_events')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to fetch webhook event',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { unstable_cache } from 'next/cache';
 import { Database } from '@/types/database';
+import type { ArtworkFilters } from '@/lib/validation/artwork-filters';
 
 /**
  * Artwork database query functions
@@ -9,6 +10,8 @@ import { Database } from '@/types/database';
  *
  * Caching Strategy:
  * - getAllArtwork: 1 hour cache (revalidate: 3600)
+ * - getFilteredArtwork: 1 hour cache per filter combination (revalidate: 3600)
+ * - getArtworkFacets: 1 hour cache (revalidate: 3600)
  * - getFeaturedArtwork: 1 hour cache (revalidate: 3600)
  * - getArtworkBySlug: 1 hour cache (revalidate: 3600)
  * - getAllArtworkSlugs: 1 hour cache (revalidate: 3600)
@@ -26,6 +29,17 @@ export interface ArtworkQueryError {
     message: string;
 }
 
+/**
+ * Values the Gallery / Shoppe filters can choose from, across all
+ * published artwork
+ */
+export interface ArtworkFacets {
+    tags: string[];
+    mediums: string[];
+    years: { min: number; max: number } | null;
+    prices: { min: number; max: number } | null;
+}
+
 /**
  * Internal function to get all published artwork ordered by display_order
  */
@@ -85,6 +99,184 @@ export const getAllArtwork = unstable_cache(
     }
 );
 
+/**
+ * Internal function to get published artwork matching the Gallery / Shoppe
+ * filters, in the chosen sort order
+ */
+async function getFilteredArtworkInternal(
+    filters: ArtworkFilters,
+    limit: number = 50,
+    offset: number = 0
+): Promise<{
+    data: Database['public']['Tables']['artwork']['Row'][] | null;
+    error: ArtworkQueryError | null;
+}> {
+    try {
+        let query = supabase
+            .from('artwork')
+            .select('*')
+            .eq('is_published', true);
+
+        // tags @> '{tag}' is served by the GIN index on tags
+        if (filters.tag) query = query.contains('tags', [filters.tag]);
+        if (filters.medium) query = query.eq('medium', filters.medium);
+        if (filters.minYear !== undefined)
+            query = query.gte('year_created', filters.minYear);
+        if (filters.maxYear !== undefined)
+            query = query.lte('year_created', filters.maxYear);
+        if (filters.minPrice !== undefined)
+            query = query.gte('price', filters.minPrice);
+        if (filters.maxPrice !== undefined)
+            query = query.lte('price', filters.maxPrice);
+        if (filters.inStock) query = query.gt('inventory_count', 0);
+        if (filters.limitedEdition)
+            query = query.eq('is_limited_edition', true);
+
+        switch (filters.sort) {
+            case 'newest':
+                query = query.order('created_at', { ascending: false });
+                break;
+            case 'price_asc':
+                query = query.order('price', { ascending: true });
+                break;
+            case 'price_desc':
+                query = query.order('price', { ascending: false });
+                break;
+            default:
+                query = query.order('is_featured', { ascending: false });
+        }
+
+        const { data, error } = await query
+            .order('display_order', { ascending: true })
+            .range(offset, offset + limit - 1);
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code || 'unknown',
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        console.error('getFilteredArtwork query failed:', err);
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to load artwork. Please try again later.',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Get published artwork matching filters (with caching)
+ *
+ * @param filters Filters and sort order from the page URL
+ * @returns Array of matching artwork or error
+ */
+export const getFilteredArtwork = unstable_cache(
+    getFilteredArtworkInternal,
+    ['artwork-filtered'],
+    {
+        revalidate: 3600, // 1 hour
+        tags: ['artwork'],
+    }
+);
+
+/**
+ * Internal function to collect the filter options for published artwork
+ */
+async function getArtworkFacetsInternal(): Promise<{
+    data: ArtworkFacets | null;
+    error: ArtworkQueryError | null;
+}> {
+    try {
+        const { data, error } = await supabase
+            .from('artwork')
+            .select('tags, medium, year_created, price')
+            .eq('is_published', true);
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code || 'unknown',
+                    message: error.message,
+                },
+            };
+        }
+
+        const rows = data ?? [];
+        const years = rows
+            .map((row) => row.year_created)
+            .filter((year): year is number => year !== null);
+        const prices = rows.map((row) => parseFloat(row.price));
+
+        return {
+            data: {
+                tags: Array.from(
+                    new Set(rows.flatMap((row) => row.tags ?? []))
+                ).sort(),
+                mediums: Array.from(
+                    new Set(
+                        rows
+                            .map((row) => row.medium)
+                            .filter((medium): medium is string => !!medium)
+                    )
+                ).sort(),
+                years:
+                    years.length > 0
+                        ? { min: Math.min(...years), max: Math.max(...years) }
+                        : null,
+                prices:
+                    prices.length > 0
+                        ? {
+                              min: Math.min(...prices),
+                              max: Math.max(...prices),
+                          }
+                        : null,
+            },
+            error: null,
+        };
+    } catch (err) {
+        console.error('getArtworkFacets query failed:', err);
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to load filters. Please try again later.',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Get the tags, mediums, years and prices to offer as filters (with caching)
+ *
+ * @returns Filter options or error
+ */
+export const getArtworkFacets = unstable_cache(
+    getArtworkFacetsInternal,
+    ['artwork-facets'],
+    {
+        revalidate: 3600, // 1 hour
+        tags: ['artwork'],
+    }
+);
+
 /**
  * Internal function to get featured artwork for homepage
  */
@@ -0,0 +1,82 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+/**
+ * Certificate of authenticity queries
+ *
+ * A numbered order line's certificate is looked up by its certificate_token
+ * (the link in the confirmation email), so queries use the service role.
+ */
+
+export interface CertificateDetails {
+    id: string; // order_items.id
+    quantity: number;
+    edition_number_start: number;
+    edition_size: number;
+    variant_name: string | null;
+    artwork: {
+        title: string;
+        medium: string | null;
+        dimensions: string | null;
+        year_created: number | null;
+    } | null;
+    order: {
+        order_number: string;
+        customer_name: string;
+        created_at: string;
+    } | null;
+}
+
+export interface CertificateError {
+    code: string;
+    message: string;
+}
+
+/**
+ * Looks up a numbered order line by its certificate token
+ *
+ * @param token - order_items.certificate_token
+ * @returns The line with its artwork and order, or null when no numbered
+ *          line has this token
+ */
+export async function getCertificateByToken(token: string): Promise<{
+    data: CertificateDetails | null;
+    error: CertificateError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('order_items')
+        .select(
+            `
+            id,
+            quantity,
+            edition_number_start,
+            edition_size,
+            variant_name,
+            artwork (title, medium, dimensions, year_created),
+            order:orders (order_number, customer_name, created_at)
+        `
+        )
+        .eq('certificate_token', token)
+        .maybeSingle();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code || 'unknown', message: error.message },
+        };
+    }
+
+    if (!data || data.edition_number_start === null || !data.edition_size) {
+        return { data: null, error: null };
+    }
+
+    return {
+        data: {
+            ...data,
+            edition_number_start: data.edition_number_start,
+            edition_size: data.edition_size,
+        },
+        error: null,
+    };
+}
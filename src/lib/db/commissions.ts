@@ -0,0 +1,214 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+/**
+ * Commission database functions
+ *
+ * Customer-facing side of the commission workflow:
+ * - createCommission / uploadCommissionReferences: new requests from /api/commissions
+ * - getCommissionByPaymentLink / recordCommissionPayment: quote payments
+ *   completed through Stripe Payment Links (Stripe webhook)
+ *
+ * The tables hold customer details, so every query uses the service role.
+ * Admin queries live in lib/db/admin/commissions.
+ */
+
+export type CommissionRow = Database['public']['Tables']['commissions']['Row'];
+export type CommissionInsert =
+    Database['public']['Tables']['commissions']['Insert'];
+export type CommissionPaymentType =
+    Database['public']['Tables']['commission_payments']['Row']['payment_type'];
+
+export const COMMISSION_REFERENCES_BUCKET = 'commission-references';
+
+export interface CommissionError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+/**
+ * Saves a new commission request (status 'new')
+ *
+ * @param input - Request fields; reference_image_paths from uploadCommissionReferences
+ */
+export async function createCommission(
+    input: CommissionInsert
+): Promise<{ data: CommissionRow | null; error: CommissionError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('commissions')
+        .insert({
+            ...input,
+            customer_email: input.customer_email.toLowerCase(),
+        })
+        .select()
+        .single();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data, error: null };
+}
+
+/**
+ * Uploads a request's reference images to the private references bucket
+ *
+ * Files are stored under a random folder per request so names never clash.
+ * Types and sizes are checked by the caller (and again by the bucket).
+ *
+ * @param files - Reference images from the request form
+ * @returns Storage paths of the uploaded images, or error
+ */
+export async function uploadCommissionReferences(files: File[]): Promise<{
+    data: string[] | null;
+    error: CommissionError | null;
+}> {
+    if (files.length === 0) {
+        return { data: [], error: null };
+    }
+
+    const supabase = await createServiceRoleClient();
+    const bucket = supabase.storage.from(COMMISSION_REFERENCES_BUCKET);
+    const folder = crypto.randomUUID();
+
+    const paths: string[] = [];
+    for (const [index, file] of files.entries()) {
+        const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+        const path = `${folder}/reference-${index + 1}.${extension}`;
+
+        const { error } = await bucket.upload(
+            path,
+            Buffer.from(await file.arrayBuffer()),
+            { contentType: file.type, upsert: false }
+        );
+
+        if (error) {
+            return {
+                data: null,
+                error: { code: 'upload_error', message: error.message },
+            };
+        }
+
+        paths.push(path);
+    }
+
+    return { data: paths, error: null };
+}
+
+/**
+ * Finds the commission a Stripe Payment Link was created for
+ *
+ * @param paymentLinkId - Stripe Payment Link id (plink_...)
+ * @returns The commission and whether the link is its deposit or balance
+ *          link, or null when the link isn't a commission link
+ */
+export async function getCommissionByPaymentLink(
+    paymentLinkId: string
+): Promise<{
+    data: {
+        commission: CommissionRow;
+        paymentType: CommissionPaymentType;
+    } | null;
+    error: CommissionError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('commissions')
+        .select('*')
+        .or(
+            `deposit_payment_link_id.eq.${paymentLinkId},balance_payment_link_id.eq.${paymentLinkId}`
+        )
+        .maybeSingle();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    if (!data) {
+        return { data: null, error: null };
+    }
+
+    return {
+        data: {
+            commission: data,
+            paymentType:
+                data.deposit_payment_link_id === paymentLinkId
+                    ? 'deposit'
+                    : 'balance',
+        },
+        error: null,
+    };
+}
+
+export interface CommissionPaymentInput {
+    commissionId: string;
+    paymentType: CommissionPaymentType;
+    amount: number; // Dollars
+    checkoutSessionId: string;
+    paymentIntentId: string | null;
+}
+
+/**
+ * Records a completed quote payment against its commission
+ *
+ * Payments are unique per Checkout session, so a retried webhook is a no-op.
+ * A deposit moves a new or quoted commission to 'deposit_paid'; the balance
+ * doesn't change the status (delivery is marked by the admin).
+ *
+ * @returns recorded: false when the session was already recorded
+ */
+export async function recordCommissionPayment(
+    input: CommissionPaymentInput
+): Promise<{ recorded: boolean; error: CommissionError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase.from('commission_payments').insert({
+        commission_id: input.commissionId,
+        payment_type: input.paymentType,
+        amount: input.amount.toFixed(2),
+        stripe_checkout_session_id: input.checkoutSessionId,
+        payment_intent_id: input.paymentIntentId,
+    });
+
+    if (error) {
+        // Unique violation on stripe_checkout_session_id: already recorded
+        if (error.code === '23505') {
+            return { recorded: false, error: null };
+        }
+
+        return {
+            recorded: false,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    if (input.paymentType === 'deposit') {
+        const { error: statusError } = await supabase
+            .from('commissions')
+            .update({ status: 'deposit_paid' })
+            .eq('id', input.commissionId)
+            .in('status', ['new', 'quoted']);
+
+        if (statusError) {
+            return {
+                recorded: true,
+                error: {
+                    code: statusError.code,
+                    message: statusError.message,
+                },
+            };
+        }
+    }
+
+    return { recorded: true, error: null };
+}
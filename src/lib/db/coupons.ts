@@ -0,0 +1,78 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+/**
+ * Coupon hold database functions
+ *
+ * - reserveCoupon / releaseCouponHolds: a use of the coupon held while a
+ *   Checkout session is open, so a coupon's usage limit covers checkouts
+ *   that haven't been paid yet
+ *
+ * Checkout validates coupons with the service role; admin queries live in
+ * lib/db/admin/coupons.
+ */
+
+export interface CouponHoldError {
+    code: string; // 'coupon_usage_limit_reached' when other checkouts used up the coupon
+    message: string;
+    details?: string;
+}
+
+/**
+ * Holds a use of the coupon until expiresAt. The database counts the paid
+ * uses and the other open holds under a row lock, so only as many
+ * checkouts as the usage limit allows can hold the coupon at once.
+ *
+ * @param reservationId - The checkout's reservation
+ * @param couponId - The applied coupon
+ * @param expiresAt - When the hold lapses (with the inventory holds)
+ * @returns Error with code 'coupon_usage_limit_reached' when no use is left
+ */
+export async function reserveCoupon(
+    reservationId: string,
+    couponId: string,
+    expiresAt: Date
+): Promise<{ error: CouponHoldError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase.rpc('reserve_coupon', {
+        p_reservation_id: reservationId,
+        p_coupon_id: couponId,
+        p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+        return {
+            error:
+                error.message === 'coupon_usage_limit_reached'
+                    ? {
+                          code: 'coupon_usage_limit_reached',
+                          message: 'This coupon has reached its usage limit',
+                          details: error.details,
+                      }
+                    : { code: error.code, message: error.message },
+        };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Releases a reservation's coupon hold (once its order has counted the use,
+ * or its session won't be paid). Safe to call more than once.
+ */
+export async function releaseCouponHolds(
+    reservationId: string
+): Promise<{ error: CouponHoldError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase
+        .from('coupon_holds')
+        .delete()
+        .eq('reservation_id', reservationId);
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
@@ -0,0 +1,215 @@
+import {
+    createAnonClient,
+    createServiceRoleClient,
+} from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+/**
+ * Customer account database functions
+ *
+ * Optional accounts for shoppers who sign in with an email magic link
+ * (separate from administrators):
+ * - getSignedInCustomer: the account behind the current session
+ * - upsertCustomer: creates the account on first sign-in
+ * - updateCustomer: saved address, email preferences, Stripe customer
+ * - wantsOrderUpdateEmails: whether to send shipping and delivery emails
+ *
+ * The table holds customer addresses, so every query uses the service role;
+ * callers resolve the signed-in user first.
+ */
+
+export type Customer = Database['public']['Tables']['customers']['Row'];
+
+export type CustomerUpdate = Omit<
+    Database['public']['Tables']['customers']['Update'],
+    'id' | 'auth_id' | 'email' | 'created_at' | 'updated_at'
+>;
+
+export interface CustomerError {
+    code: string;
+    message: string;
+}
+
+/**
+ * Get the account for a Supabase Auth user
+ *
+ * @param authId - auth.users id
+ * @returns Customer, or null when the user has no account
+ */
+export async function getCustomerByAuthId(authId: string): Promise<{
+    data: Customer | null;
+    error: CustomerError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('auth_id', authId)
+        .maybeSingle();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data, error: null };
+}
+
+/**
+ * Get the account of the customer signed in on this request
+ *
+ * Signed-in users without a customers row (administrators) get null, so
+ * an admin session never opens the account pages.
+ *
+ * The email comes from the verified auth user, not the stored row, so order
+ * history is always keyed on an address the customer has proven they own.
+ *
+ * @returns Customer, or null when nobody (or no customer) is signed in
+ */
+export async function getSignedInCustomer(): Promise<{
+    data: Customer | null;
+    error: CustomerError | null;
+}> {
+    const supabase = await createAnonClient();
+    const {
+        data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user?.email) {
+        return { data: null, error: null };
+    }
+
+    const { data, error } = await getCustomerByAuthId(user.id);
+
+    if (!data) {
+        return { data, error };
+    }
+
+    return {
+        data: { ...data, email: user.email.toLowerCase() },
+        error: null,
+    };
+}
+
+/**
+ * Creates the account for a user signing in for the first time, or keeps
+ * its email in step with the auth user's
+ *
+ * @param authId - auth.users id
+ * @param email - The user's verified email (stored lowercase)
+ * @returns The customer row or error
+ */
+export async function upsertCustomer(
+    authId: string,
+    email: string
+): Promise<{ data: Customer | null; error: CustomerError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('customers')
+        .upsert(
+            { auth_id: authId, email: email.trim().toLowerCase() },
+            { onConflict: 'auth_id' }
+        )
+        .select('*')
+        .single();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data, error: null };
+}
+
+/**
+ * Updates a customer's saved address, preferences or Stripe customer
+ *
+ * @param customerId - customers.id
+ * @param updates - Columns to change
+ * @returns The updated customer or error
+ */
+export async function updateCustomer(
+    customerId: string,
+    updates: CustomerUpdate
+): Promise<{ data: Customer | null; error: CustomerError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('customers')
+        .update(updates)
+        .eq('id', customerId)
+        .select('*')
+        .single();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data, error: null };
+}
+
+/**
+ * Whether an email belongs to an administrator. Administrators sign in with
+ * a password at /admin/login and never get customer magic links.
+ *
+ * @param email - Address to check
+ */
+export async function isAdministratorEmail(email: string): Promise<{
+    data: boolean | null;
+    error: CustomerError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('administrators')
+        .select('id')
+        .ilike('email', email.trim().replace(/[\\%_]/g, '\\$&'))
+        .limit(1);
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data: data.length > 0, error: null };
+}
+
+/**
+ * Whether shipping and delivery emails may be sent to an address. Guests
+ * (no account) always get them; customers can turn them off in their
+ * account preferences.
+ *
+ * @param email - The order's email address
+ */
+export async function wantsOrderUpdateEmails(email: string): Promise<{
+    data: boolean | null;
+    error: CustomerError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('customers')
+        .select('order_update_emails')
+        .eq('email', email.trim().toLowerCase())
+        .maybeSingle();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data: data?.order_update_emails ?? true, error: null };
+}
@@ -0,0 +1,230 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { generateGiftCardCode } from '@/lib/cart/gift-cards';
+import type { AppliedGiftCard } from '@/types/cart';
+import type { Database } from '@/types/database';
+
+/**
+ * Gift card database functions
+ *
+ * - issueGiftCard: a card bought in the Shoppe (Stripe webhook)
+ * - getGiftCardsDueForDelivery / markGiftCardDelivered: emailing codes on
+ *   their delivery date (webhook for same-day cards, cron for the rest)
+ * - reserveGiftCards / releaseGiftCardHolds / redeemGiftCardHolds: balance
+ *   held while a Checkout session is open, then debited once it's paid
+ *
+ * Cards are bearer codes, so every query uses the service role.
+ * Admin queries live in lib/db/admin/gift-cards.
+ */
+
+export type GiftCardRow = Database['public']['Tables']['gift_cards']['Row'];
+export type GiftCardInsert = Omit<
+    Database['public']['Tables']['gift_cards']['Insert'],
+    'code' | 'balance'
+>;
+
+export interface GiftCardError {
+    code: string; // 'insufficient_gift_card_balance' when another checkout got there first
+    message: string;
+    details?: string;
+}
+
+// Retries when a generated code happens to be taken already
+const MAX_CODE_ATTEMPTS = 3;
+
+/**
+ * Issues a purchased gift card with a new random code and its full amount
+ * as the balance (the ledger's purchase credit is written by a trigger).
+ *
+ * Cards are unique per Checkout session, so a retried webhook is a no-op.
+ *
+ * @param input - Purchase details from the Checkout session
+ * @returns The new card, or null (without error) when the session already
+ *          issued one
+ */
+export async function issueGiftCard(
+    input: GiftCardInsert
+): Promise<{ data: GiftCardRow | null; error: GiftCardError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    for (let attempt = 1; attempt <= MAX_CODE_ATTEMPTS; attempt++) {
+        const { data, error } = await supabase
+            .from('gift_cards')
+            .insert({
+                ...input,
+                code: generateGiftCardCode(),
+                balance: input.initial_amount,
+                purchaser_email: input.purchaser_email.toLowerCase(),
+                recipient_email: input.recipient_email.toLowerCase(),
+            })
+            .select()
+            .single();
+
+        if (!error) {
+            return { data, error: null };
+        }
+
+        // Unique violation: either the session was already issued a card,
+        // or the random code collided and another one should be tried
+        if (error.code !== '23505') {
+            return {
+                data: null,
+                error: { code: error.code, message: error.message },
+            };
+        }
+
+        if (error.message.includes('stripe_checkout_session_id')) {
+            return { data: null, error: null };
+        }
+    }
+
+    return {
+        data: null,
+        error: {
+            code: 'code_generation_failed',
+            message: 'Could not generate a unique gift card code',
+        },
+    };
+}
+
+/**
+ * Cards whose delivery date has arrived and whose code hasn't been emailed
+ *
+ * @param today - Delivery date to compare against (YYYY-MM-DD)
+ */
+export async function getGiftCardsDueForDelivery(
+    today: string = new Date().toISOString().slice(0, 10)
+): Promise<{ data: GiftCardRow[] | null; error: GiftCardError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('gift_cards')
+        .select('*')
+        .is('delivered_at', null)
+        .eq('is_active', true)
+        .lte('deliver_on', today)
+        .order('deliver_on', { ascending: true });
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data: data ?? [], error: null };
+}
+
+/**
+ * Records that a card's code was emailed to the recipient
+ */
+export async function markGiftCardDelivered(
+    id: string
+): Promise<{ error: GiftCardError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase
+        .from('gift_cards')
+        .update({ delivered_at: new Date().toISOString() })
+        .eq('id', id);
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Holds each card's redeemed amount until expiresAt. All-or-nothing: when
+ * any card can't cover its amount (another checkout spent it first) nothing
+ * is held.
+ *
+ * @param reservationId - The checkout's reservation (shared with its inventory holds)
+ * @param giftCards - Redemptions from validateCart
+ * @param expiresAt - When the holds lapse (the Stripe session's expiry)
+ * @returns Error with code 'insufficient_gift_card_balance' when a balance ran out
+ */
+export async function reserveGiftCards(
+    reservationId: string,
+    giftCards: AppliedGiftCard[],
+    expiresAt: Date
+): Promise<{ error: GiftCardError | null }> {
+    const redemptions = giftCards.filter((card) => card.redeemedAmount > 0);
+    if (redemptions.length === 0) {
+        return { error: null };
+    }
+
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase.rpc('reserve_gift_cards', {
+        p_reservation_id: reservationId,
+        p_redemptions: redemptions.map((card) => ({
+            gift_card_id: card.id,
+            amount: card.redeemedAmount,
+        })),
+        p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+        return {
+            error:
+                error.message === 'insufficient_gift_card_balance'
+                    ? {
+                          code: 'insufficient_gift_card_balance',
+                          message:
+                              'A gift card in your cart was just used in another checkout',
+                          details: error.details,
+                      }
+                    : { code: error.code, message: error.message },
+        };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Releases the gift card balance held by an unpaid reservation. Safe to
+ * call more than once.
+ */
+export async function releaseGiftCardHolds(
+    reservationId: string
+): Promise<{ error: GiftCardError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase
+        .from('gift_card_holds')
+        .delete()
+        .eq('reservation_id', reservationId);
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Debits the balances a paid reservation recorded when it was held (even if
+ * the holds have since lapsed or been released), recording each redemption
+ * in the ledger against the order. Safe to call more than once.
+ *
+ * @param reservationId - Reservation from the paid Checkout session
+ * @param orderId - Order the cards paid for (null when it couldn't be created)
+ */
+export async function redeemGiftCardHolds(
+    reservationId: string,
+    orderId: string | null
+): Promise<{ error: GiftCardError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase.rpc('redeem_gift_card_holds', {
+        p_reservation_id: reservationId,
+        p_order_id: orderId,
+    });
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
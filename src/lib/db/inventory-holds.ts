@@ -0,0 +1,289 @@
+import { createClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { Database } from '@/types/database';
+import type { ArtworkQueryError } from '@/lib/db/artwork';
+import type { HeldInventory } from '@/lib/cart/inventory';
+import type { CartItem } from '@/types/cart';
+
+/**
+ * Inventory hold database functions
+ *
+ * Stock held while a Stripe Checkout session is open:
+ * - getHeldInventory: public read of the held_inventory view (counts only)
+ * - reserveInventory / attachCheckoutSession / releaseInventoryHolds:
+ *   checkout and webhook writes (service role)
+ * - getReservationCheckoutSession: the session holding a reservation
+ * - saveCheckoutItems / getCheckoutItems: the cart lines a checkout is for,
+ *   kept for the webhook that turns the paid session into an order
+ *
+ * Holds are short-lived, so reads are never cached.
+ */
+
+const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * A cart line as priced at checkout
+ */
+export interface CheckoutItem {
+    artworkId: string;
+    variantId?: string;
+    quantity: number;
+    price: number;
+}
+
+export interface InventoryHoldError {
+    code: string; // 'insufficient_inventory' when stock was taken by another checkout
+    message: string;
+    details?: string;
+}
+
+/**
+ * Get the quantities held by open checkouts for a list of artworks
+ *
+ * @param artworkIds - Artwork IDs to load holds for (artwork and variant stock)
+ * @returns Held quantities per artwork / variant or error
+ */
+export async function getHeldInventory(artworkIds: string[]): Promise<{
+    data: HeldInventory[] | null;
+    error: ArtworkQueryError | null;
+}> {
+    if (artworkIds.length === 0) {
+        return { data: [], error: null };
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('held_inventory')
+            .select('artwork_id, variant_id, held_quantity')
+            .in('artwork_id', artworkIds);
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code || 'unknown',
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        console.error('getHeldInventory query failed:', err);
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to load stock levels. Please try again.',
+            },
+        };
+    }
+}
+
+/**
+ * Holds stock for every cart line until expiresAt. All-or-nothing: when any
+ * line can't be covered (another checkout got there first) nothing is held.
+ *
+ * @param reservationId - Groups the holds of one checkout attempt
+ * @param items - Validated cart items
+ * @param expiresAt - When the holds lapse (the Stripe session's expiry)
+ * @returns Error with code 'insufficient_inventory' when stock ran out
+ */
+export async function reserveInventory(
+    reservationId: string,
+    items: CartItem[],
+    expiresAt: Date
+): Promise<{ error: InventoryHoldError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase.rpc('reserve_inventory', {
+        p_reservation_id: reservationId,
+        p_items: items.map((item) => ({
+            artwork_id: item.artworkId,
+            variant_id: item.variantId ?? null,
+            quantity: item.quantity,
+        })),
+        p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+        return {
+            error:
+                error.message === 'insufficient_inventory'
+                    ? {
+                          code: 'insufficient_inventory',
+                          message:
+                              'Some items in your cart were just reserved by another customer',
+                          details: error.details,
+                      }
+                    : { code: error.code, message: error.message },
+        };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Records the Stripe session that owns a reservation (so the reservation can
+ * be cancelled together with its session)
+ */
+export async function attachCheckoutSession(
+    reservationId: string,
+    checkoutSessionId: string
+): Promise<{ error: InventoryHoldError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase
+        .from('inventory_holds')
+        .update({ checkout_session_id: checkoutSessionId })
+        .eq('reservation_id', reservationId);
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Get the Stripe session that owns a reservation's holds
+ *
+ * @returns The session ID (null when unknown, not yet attached or released)
+ */
+export async function getReservationCheckoutSession(
+    reservationId: string
+): Promise<{
+    data: string | null;
+    error: InventoryHoldError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('inventory_holds')
+        .select('checkout_session_id')
+        .eq('reservation_id', reservationId)
+        .not('checkout_session_id', 'is', null)
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data: data?.checkout_session_id ?? null, error: null };
+}
+
+/**
+ * Releases every hold of a reservation. Safe to call more than once.
+ *
+ * @returns The Stripe session the holds belonged to (null when unknown or
+ *   already released)
+ */
+export async function releaseInventoryHolds(reservationId: string): Promise<{
+    data: { checkoutSessionId: string | null } | null;
+    error: InventoryHoldError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('inventory_holds')
+        .delete()
+        .eq('reservation_id', reservationId)
+        .select('checkout_session_id');
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return {
+        data: {
+            checkoutSessionId:
+                data?.find((hold) => hold.checkout_session_id)
+                    ?.checkout_session_id ?? null,
+        },
+        error: null,
+    };
+}
+
+/**
+ * Records the cart lines a checkout is for, on its reservation
+ *
+ * @param reservationId - The checkout's reservation
+ * @param items - Validated cart items (at their checkout prices)
+ */
+export async function saveCheckoutItems(
+    reservationId: string,
+    items: CartItem[]
+): Promise<{ error: InventoryHoldError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase.from('checkout_reservations').upsert(
+        {
+            reservation_id: reservationId,
+            items: items.map((item) => ({
+                artwork_id: item.artworkId,
+                variant_id: item.variantId ?? null,
+                quantity: item.quantity,
+                price: item.price,
+            })),
+        },
+        { onConflict: 'reservation_id' }
+    );
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Get the cart lines recorded for a checkout
+ *
+ * @returns The lines (empty when none were recorded) or error
+ */
+export async function getCheckoutItems(reservationId: string): Promise<{
+    data: CheckoutItem[] | null;
+    error: InventoryHoldError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('checkout_reservations')
+        .select('items')
+        .eq('reservation_id', reservationId)
+        .maybeSingle();
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    const items = (data?.items ?? []) as {
+        artwork_id: string;
+        variant_id: string | null;
+        quantity: number;
+        price: number;
+    }[];
+
+    return {
+        data: items.map((item) => ({
+            artworkId: item.artwork_id,
+            ...(item.variant_id && { variantId: item.variant_id }),
+            quantity: item.quantity,
+            price: Number(item.price),
+        })),
+        error: null,
+    };
+}
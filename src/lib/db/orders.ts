@@ -5,17 +5,227 @@
  * Handles order creation, retrieval, updates, and inventory management.
  */
 
+import camelcaseKeys from 'camelcase-keys';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import type { CreateOrderPayload, Order } from '@/types/order';
+import { getCartPreorder, getLatestShipDate } from '@/lib/cart/preorders';
+import { getCarrierName, getTrackingUrl } from '@/lib/utils/tracking';
+import type { CartPreorder } from '@/types/cart';
+import type {
+    CreateOrderPayload,
+    Order,
+    OrderItem,
+    OrderShipment,
+    OrderStatus,
+    PaymentStatus,
+} from '@/types/order';
+import type { Database } from '@/types/database';
+
+type OrderItemRow = Database['public']['Tables']['order_items']['Row'];
+type OrderDisputeRow = Database['public']['Tables']['order_disputes']['Row'];
+type OrderShipmentRow = Database['public']['Tables']['order_shipments']['Row'];
+
+/**
+ * Converts an order_items row to an OrderItem (camelCase, numeric prices)
+ */
+function toOrderItem(item: OrderItemRow): OrderItem {
+    return {
+        id: item.id,
+        artworkId: item.artwork_id,
+        quantity: item.quantity,
+        priceAtPurchase: parseFloat(item.price_at_purchase),
+        lineSubtotal: parseFloat(item.line_subtotal),
+        variantId: item.variant_id || undefined,
+        variantName: item.variant_name || undefined,
+        preorderProjectId: item.preorder_project_id || undefined,
+        editionNumberStart: item.edition_number_start ?? undefined,
+        editionSize: item.edition_size ?? undefined,
+        certificateToken: item.certificate_token || undefined,
+    };
+}
+
+/**
+ * Converts order_shipments rows to OrderShipments with carrier tracking
+ * links, oldest first
+ */
+function toOrderShipments(
+    shipments: Pick<
+        OrderShipmentRow,
+        'tracking_number' | 'carrier' | 'created_at'
+    >[]
+): OrderShipment[] {
+    return [...shipments]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((shipment) => ({
+            trackingNumber: shipment.tracking_number,
+            carrierName:
+                getCarrierName(shipment.tracking_number, shipment.carrier) ??
+                undefined,
+            trackingUrl:
+                getTrackingUrl(shipment.tracking_number, shipment.carrier) ??
+                undefined,
+        }));
+}
+
+/**
+ * Order fields for customer-facing order details: the order with its items,
+ * each item's artwork title and image, and the packages it shipped in
+ */
+export const ORDER_WITH_ITEMS_FIELDS = `
+    *,
+    order_items (
+        *,
+        artwork:artwork_id (
+            title,
+            image_url
+        )
+    ),
+    order_shipments (
+        tracking_number,
+        carrier,
+        created_at
+    )
+` as const;
+
+/**
+ * Order row selected with ORDER_WITH_ITEMS_FIELDS
+ */
+export type OrderWithItemsRow =
+    Database['public']['Tables']['orders']['Row'] & {
+        order_items: (OrderItemRow & {
+            artwork: {
+                title: string;
+                image_url: string | null;
+            } | null;
+        })[];
+        order_shipments?: Pick<
+            OrderShipmentRow,
+            'tracking_number' | 'carrier' | 'created_at'
+        >[];
+    };
+
+/**
+ * Transform database order row to Order type
+ * Uses camelcase-keys library to convert snake_case to camelCase
+ * Then applies type-specific transformations (numeric strings, nested objects)
+ *
+ * Shared by the checkout success page and the guest order status lookup.
+ */
+export function transformOrderData(dbOrder: OrderWithItemsRow): Order {
+    // First, convert all keys to camelCase using the library
+    const camelCased = camelcaseKeys(dbOrder, { deep: true }) as {
+        id: string;
+        orderNumber: string;
+        customerName: string;
+        customerEmail: string;
+        shippingAddressLine1: string;
+        shippingAddressLine2: string | null;
+        shippingCity: string;
+        shippingState: string;
+        shippingZip: string;
+        shippingCountry: string;
+        billingAddressLine1: string;
+        billingAddressLine2: string | null;
+        billingCity: string;
+        billingState: string;
+        billingZip: string;
+        billingCountry: string;
+        orderNotes: string | null;
+        subtotal: string;
+        shippingCost: string;
+        taxAmount: string;
+        total: string;
+        couponCode: string | null;
+        discountAmount: string;
+        giftCardAmount: string;
+        isPreorder: boolean;
+        expectedShipDate: string | null;
+        status: Order['status'];
+        paymentStatus: Order['paymentStatus'];
+        paymentIntentId: string | null;
+        adminNotes: string | null;
+        orderItems: {
+            id: string;
+            artworkId: string;
+            quantity: number;
+            priceAtPurchase: string;
+            lineSubtotal: string;
+            variantName: string | null;
+            artwork: {
+                title: string;
+                imageUrl: string | null;
+            } | null;
+        }[];
+        createdAt: string;
+        updatedAt: string;
+    };
+
+    // Then apply business logic transformations
+    return {
+        id: camelCased.id,
+        orderNumber: camelCased.orderNumber,
+        customerName: camelCased.customerName,
+        customerEmail: camelCased.customerEmail,
+        shippingAddress: {
+            line1: camelCased.shippingAddressLine1,
+            line2: camelCased.shippingAddressLine2 ?? undefined,
+            city: camelCased.shippingCity,
+            state: camelCased.shippingState,
+            zip: camelCased.shippingZip,
+            country: camelCased.shippingCountry,
+        },
+        billingAddress: {
+            line1: camelCased.billingAddressLine1,
+            line2: camelCased.billingAddressLine2 ?? undefined,
+            city: camelCased.billingCity,
+            state: camelCased.billingState,
+            zip: camelCased.billingZip,
+            country: camelCased.billingCountry,
+        },
+        orderNotes: camelCased.orderNotes ?? undefined,
+        subtotal: parseFloat(camelCased.subtotal),
+        shippingCost: parseFloat(camelCased.shippingCost),
+        taxAmount: parseFloat(camelCased.taxAmount),
+        total: parseFloat(camelCased.total),
+        discountAmount: parseFloat(camelCased.discountAmount) || undefined,
+        couponCode: camelCased.couponCode ?? undefined,
+        giftCardAmount: parseFloat(camelCased.giftCardAmount) || undefined,
+        isPreorder: camelCased.isPreorder,
+        expectedShipDate: camelCased.expectedShipDate ?? undefined,
+        status: camelCased.status,
+        paymentStatus: camelCased.paymentStatus,
+        paymentIntentId: camelCased.paymentIntentId ?? undefined,
+        shipments: toOrderShipments(dbOrder.order_shipments ?? []),
+        adminNotes: camelCased.adminNotes ?? undefined,
+        items:
+            camelCased.orderItems?.map((item) => ({
+                id: item.id,
+                artworkId: item.artworkId,
+                quantity: item.quantity,
+                priceAtPurchase: parseFloat(item.priceAtPurchase),
+                lineSubtotal: parseFloat(item.lineSubtotal),
+                variantName: item.variantName ?? undefined,
+                title: item.artwork?.title,
+                imageUrl: item.artwork?.imageUrl ?? undefined,
+            })) || [],
+        createdAt: camelCased.createdAt,
+        updatedAt: camelCased.updatedAt,
+    };
+}
 
 /**
  * Creates a new order with associated order items.
  *
  * This function:
- * 1. Creates the order record
- * 2. Creates order_items for each cart item
- * 3. Automatically decrements inventory via database trigger
- * 4. Rolls back the order if items creation fails
+ * 1. Flags pre-order items (artwork from a planning/active In The Works project)
+ * 2. Creates the order record, with the pre-order flag and expected ship date
+ * 3. Creates order_items for each cart item (snapshotting variant names and
+ *    the pre-ordered project); limited edition numbers and certificate
+ *    tokens are assigned by database trigger as the items are inserted
+ * 4. Automatically decrements inventory via database trigger
+ * 5. Rolls back the order if items creation fails
+ *
+ * The returned order includes its items (with artwork titles and edition
+ * numbers) for the confirmation email.
  *
  * @param payload - Order creation data including customer info, items, and totals
  * @returns Object with data (Order) or error
@@ -43,6 +253,38 @@ export async function createOrder(
     const supabase = await createServiceRoleClient();
 
     try {
+        // Find pre-order items. Checked at payment time rather than carried in
+        // Stripe metadata (which has a 500 character limit per value)
+        const preorders = new Map<string, CartPreorder>();
+        const { data: artworkProjects, error: projectsError } = await supabase
+            .from('artwork')
+            .select(
+                'id, project:projects(id, title, status, expected_completion_date)'
+            )
+            .in(
+                'id',
+                payload.items.map((item) => item.artworkId)
+            );
+
+        if (projectsError) {
+            // Log error but don't fail the order creation
+            console.error(
+                'Failed to look up pre-order projects, order will not be flagged as a pre-order:',
+                projectsError
+            );
+        }
+
+        artworkProjects?.forEach((artwork) => {
+            const preorder = getCartPreorder(artwork.project);
+            if (preorder) {
+                preorders.set(artwork.id, preorder);
+            }
+        });
+
+        const preorderShipDates = Array.from(preorders.values()).map(
+            (preorder) => preorder.expectedShipDate
+        );
+
         // Create order record with flat address fields
         // Always start with 'pending' status to avoid trigger firing before items exist
         const { data: orderRow, error: orderError } = await supabase
@@ -68,6 +310,12 @@ export async function createOrder(
                 shipping_cost: payload.shippingCost.toString(),
                 tax_amount: payload.taxAmount.toString(),
                 total: payload.total.toString(),
+                coupon_id: payload.couponId ?? null,
+                coupon_code: payload.couponCode ?? null,
+                discount_amount: (payload.discountAmount ?? 0).toString(),
+                gift_card_amount: (payload.giftCardAmount ?? 0).toString(),
+                is_preorder: preorders.size > 0,
+                expected_ship_date: getLatestShipDate(preorderShipDates),
                 payment_intent_id: payload.paymentIntentId,
                 status: 'pending',
                 payment_status: 'pending',
@@ -79,6 +327,25 @@ export async function createOrder(
             return { data: null, error: new Error(orderError.message) };
         }
 
+        // Look up names for variant items that arrived without one (the
+        // webhook reads its lines from the reservation's
+        // checkout_reservations.items, which only record variant IDs)
+        const unnamedVariantIds = payload.items
+            .filter((item) => item.variantId && !item.variantName)
+            .map((item) => item.variantId as string);
+        const variantNames = new Map<string, string>();
+
+        if (unnamedVariantIds.length > 0) {
+            const { data: variants } = await supabase
+                .from('artwork_variants')
+                .select('id, name')
+                .in('id', unnamedVariantIds);
+
+            variants?.forEach((variant) =>
+                variantNames.set(variant.id, variant.name)
+            );
+        }
+
         // Create order items (prices stored as strings in database)
         const orderItems = payload.items.map((item) => ({
             order_id: orderRow.id,
@@ -86,11 +353,18 @@ export async function createOrder(
             quantity: item.quantity,
             price_at_purchase: item.priceAtPurchase.toString(),
             line_subtotal: item.lineSubtotal.toString(),
+            variant_id: item.variantId ?? null,
+            variant_name: item.variantId
+                ? (item.variantName ?? variantNames.get(item.variantId) ?? null)
+                : null,
+            preorder_project_id:
+                preorders.get(item.artworkId)?.projectId ?? null,
         }));
 
-        const { error: itemsError } = await supabase
+        const { data: itemRows, error: itemsError } = await supabase
             .from('order_items')
-            .insert(orderItems);
+            .insert(orderItems)
+            .select('*, artwork(title)');
 
         if (itemsError) {
             // Rollback order if items fail to insert
@@ -99,11 +373,12 @@ export async function createOrder(
         }
 
         // If payment has already succeeded, update status to trigger inventory decrement
-        // This must happen AFTER order_items are created so the trigger can find them
+        // This must happen AFTER order_items are created so the trigger can find them.
+        // The order is paid too, so it can move on to processing and shipping
         if (payload.paymentStatus === 'succeeded') {
             const { error: updateError } = await supabase
                 .from('orders')
-                .update({ payment_status: 'succeeded' })
+                .update({ payment_status: 'succeeded', status: 'paid' })
                 .eq('id', orderRow.id);
 
             if (updateError) {
@@ -116,6 +391,7 @@ export async function createOrder(
 
             // Update local orderRow to reflect the change
             orderRow.payment_status = 'succeeded';
+            orderRow.status = 'paid';
         }
 
         // Inventory is automatically decremented by database trigger:
@@ -148,12 +424,20 @@ export async function createOrder(
             shippingCost: parseFloat(orderRow.shipping_cost),
             taxAmount: parseFloat(orderRow.tax_amount),
             total: parseFloat(orderRow.total),
+            discountAmount: parseFloat(orderRow.discount_amount) || undefined,
+            couponCode: orderRow.coupon_code || undefined,
+            giftCardAmount: parseFloat(orderRow.gift_card_amount) || undefined,
+            isPreorder: orderRow.is_preorder,
+            expectedShipDate: orderRow.expected_ship_date || undefined,
             status: orderRow.status,
             paymentStatus: orderRow.payment_status,
             paymentIntentId: orderRow.payment_intent_id || undefined,
-            shippingTrackingNumber: undefined,
+            shipments: [],
             adminNotes: undefined,
-            items: [],
+            items: (itemRows ?? []).map((item) => ({
+                ...toOrderItem(item),
+                title: item.artwork?.title,
+            })),
             createdAt: orderRow.created_at,
             updatedAt: orderRow.updated_at,
         };
@@ -189,7 +473,7 @@ export async function getOrderById(
 
     const { data: orderRow, error } = await supabase
         .from('orders')
-        .select('*, order_items(*)')
+        .select('*, order_items(*), order_shipments(*)')
         .eq('id', orderId)
         .single();
 
@@ -224,28 +508,17 @@ export async function getOrderById(
         shippingCost: parseFloat(orderRow.shipping_cost),
         taxAmount: parseFloat(orderRow.tax_amount),
         total: parseFloat(orderRow.total),
+        discountAmount: parseFloat(orderRow.discount_amount) || undefined,
+        couponCode: orderRow.coupon_code || undefined,
+        giftCardAmount: parseFloat(orderRow.gift_card_amount) || undefined,
+        isPreorder: orderRow.is_preorder,
+        expectedShipDate: orderRow.expected_ship_date || undefined,
         status: orderRow.status,
         paymentStatus: orderRow.payment_status,
         paymentIntentId: orderRow.payment_intent_id || undefined,
-        shippingTrackingNumber: orderRow.shipping_tracking_number || undefined,
+        shipments: toOrderShipments(orderRow.order_shipments),
         adminNotes: orderRow.admin_notes || undefined,
-        items: orderRow.order_items.map(
-            (item: {
-                id: string;
-                order_id: string;
-                artwork_id: string;
-                quantity: number;
-                price_at_purchase: string;
-                line_subtotal: string;
-                created_at: string;
-            }) => ({
-                id: item.id,
-                artworkId: item.artwork_id,
-                quantity: item.quantity,
-                priceAtPurchase: parseFloat(item.price_at_purchase),
-                lineSubtotal: parseFloat(item.line_subtotal),
-            })
-        ),
+        items: orderRow.order_items.map(toOrderItem),
         createdAt: orderRow.created_at,
         updatedAt: orderRow.updated_at,
     };
@@ -253,6 +526,73 @@ export async function getOrderById(
     return { data: order, error: null };
 }
 
+/**
+ * Finds an order by order number for a guest lookup. The email must match
+ * the order's customer email (case-insensitively); a mismatch is reported
+ * the same as an unknown order number, so a lookup never confirms that an
+ * order number exists.
+ *
+ * @param orderNumber - Order number (e.g., 'YOA-20250112-0374')
+ * @param email - Email the order was placed with
+ * @returns Object with data (Order, or null when not found) or error
+ */
+export async function getOrderByNumberAndEmail(
+    orderNumber: string,
+    email: string
+): Promise<{ data: Order | null; error: Error | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data: orderRow, error } = await supabase
+        .from('orders')
+        .select(ORDER_WITH_ITEMS_FIELDS)
+        .eq('order_number', orderNumber)
+        .maybeSingle();
+
+    if (error) {
+        return { data: null, error: new Error(error.message) };
+    }
+
+    if (
+        !orderRow ||
+        orderRow.customer_email.trim().toLowerCase() !==
+            email.trim().toLowerCase()
+    ) {
+        return { data: null, error: null };
+    }
+
+    return { data: transformOrderData(orderRow), error: null };
+}
+
+/**
+ * Lists every order placed with an email address (case-insensitively), for
+ * a signed-in customer's order history. Only call this with an address the
+ * customer has verified.
+ *
+ * @param email - Customer email
+ * @returns Object with data (Orders, newest first) or error
+ */
+export async function getOrdersByEmail(
+    email: string
+): Promise<{ data: Order[] | null; error: Error | null }> {
+    const supabase = await createServiceRoleClient();
+
+    // ilike without wildcards is a case-insensitive equals; escape the
+    // pattern characters an address can contain (e.g. first_last@...)
+    const pattern = email.trim().replace(/[\\%_]/g, '\\$&');
+
+    const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_WITH_ITEMS_FIELDS)
+        .ilike('customer_email', pattern)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data ?? []).map(transformOrderData), error: null };
+}
+
 /**
  * Updates the status of an order.
  *
@@ -315,10 +655,14 @@ export async function updateOrderStatus(
         shippingCost: parseFloat(orderRow.shipping_cost),
         taxAmount: parseFloat(orderRow.tax_amount),
         total: parseFloat(orderRow.total),
+        discountAmount: parseFloat(orderRow.discount_amount) || undefined,
+        couponCode: orderRow.coupon_code || undefined,
+        giftCardAmount: parseFloat(orderRow.gift_card_amount) || undefined,
+        isPreorder: orderRow.is_preorder,
+        expectedShipDate: orderRow.expected_ship_date || undefined,
         status: orderRow.status,
         paymentStatus: orderRow.payment_status,
         paymentIntentId: orderRow.payment_intent_id || undefined,
-        shippingTrackingNumber: orderRow.shipping_tracking_number || undefined,
         adminNotes: orderRow.admin_notes || undefined,
         items: [],
         createdAt: orderRow.created_at,
@@ -327,3 +671,139 @@ export async function updateOrderStatus(
 
     return { data: order, error: null };
 }
+
+/**
+ * Order row selected with ORDER_PAYMENT_FIELDS
+ */
+export type OrderPaymentRow = Pick<
+    Database['public']['Tables']['orders']['Row'],
+    | 'id'
+    | 'order_number'
+    | 'customer_name'
+    | 'customer_email'
+    | 'total'
+    | 'status'
+    | 'payment_status'
+> & {
+    order_refunds: { stripe_refund_id: string }[];
+};
+
+const ORDER_PAYMENT_FIELDS = `
+    id,
+    order_number,
+    customer_name,
+    customer_email,
+    total,
+    status,
+    payment_status,
+    order_refunds (stripe_refund_id)
+` as const;
+
+/**
+ * Finds the order paid with a Stripe PaymentIntent, with the Stripe refunds
+ * already recorded against it (for reconciling Stripe webhook events).
+ *
+ * @param paymentIntentId - Stripe PaymentIntent ID (pi_...)
+ * @returns Object with data (null when no order was paid with it) or error
+ */
+export async function getOrderByPaymentIntent(
+    paymentIntentId: string
+): Promise<{ data: OrderPaymentRow | null; error: Error | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_PAYMENT_FIELDS)
+        .eq('payment_intent_id', paymentIntentId)
+        .maybeSingle();
+
+    if (error) {
+        return { data: null, error: new Error(error.message) };
+    }
+
+    return { data, error: null };
+}
+
+export interface OrderPaymentUpdate {
+    paymentStatus: PaymentStatus;
+    status?: OrderStatus;
+}
+
+/**
+ * Moves the order paid with a PaymentIntent to a new payment status (and
+ * optionally order status), but only while its payment status is one of
+ * `fromPaymentStatuses`. A webhook that arrives late or twice therefore
+ * can't undo a later change, e.g. mark a refunded order as failed.
+ *
+ * Never move an order back to 'succeeded' with this: that re-runs the
+ * inventory and coupon triggers.
+ *
+ * @returns updated: false when no order matched (unknown PaymentIntent, or
+ *          the order had already moved on)
+ */
+export async function updateOrderPaymentStatus(
+    paymentIntentId: string,
+    update: OrderPaymentUpdate,
+    fromPaymentStatuses: PaymentStatus[]
+): Promise<{ updated: boolean; error: Error | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('orders')
+        .update({
+            payment_status: update.paymentStatus,
+            ...(update.status && { status: update.status }),
+        })
+        .eq('payment_intent_id', paymentIntentId)
+        .in('payment_status', fromPaymentStatuses)
+        .select('id');
+
+    if (error) {
+        return { updated: false, error: new Error(error.message) };
+    }
+
+    return { updated: (data ?? []).length > 0, error: null };
+}
+
+export interface OrderDisputeInput {
+    orderId: string;
+    stripeDisputeId: string;
+    amount: number; // Dollars
+    reason: string;
+    status: string;
+    evidenceDueBy: string | null;
+}
+
+/**
+ * Records a Stripe dispute against an order, or updates its status when
+ * Stripe reports a change to a dispute already recorded.
+ *
+ * @returns Object with data (the saved dispute) or error
+ */
+export async function recordOrderDispute(
+    dispute: OrderDisputeInput
+): Promise<{ data: OrderDisputeRow | null; error: Error | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('order_disputes')
+        .upsert(
+            {
+                order_id: dispute.orderId,
+                stripe_dispute_id: dispute.stripeDisputeId,
+                amount: dispute.amount.toFixed(2),
+                reason: dispute.reason,
+                status: dispute.status,
+                evidence_due_by: dispute.evidenceDueBy,
+            },
+            { onConflict: 'stripe_dispute_id' }
+        )
+        .select()
+        .single();
+
+    if (error) {
+        return { data: null, error: new Error(error.message) };
+    }
+
+    return { data, error: null };
+}
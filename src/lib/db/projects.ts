@@ -10,6 +10,7 @@ import { Database } from '@/types/database';
  * Caching Strategy:
  * - getAllProjects: 1 hour cache (revalidate: 3600)
  * - getProjectBySlug: 1 hour cache (revalidate: 3600)
+ * - getProjectById: 1 hour cache (revalidate: 3600)
  */
 
 const supabase = createClient<Database>(
@@ -140,3 +141,60 @@ export const getProjectBySlug = (slug: string) =>
             tags: ['projects', `project-${slug}`],
         }
     )();
+
+/**
+ * Internal function to get project by ID
+ */
+async function getProjectByIdInternal(id: string): Promise<{
+    data: Database['public']['Tables']['projects']['Row'] | null;
+    error: ProjectQueryError | null;
+}> {
+    try {
+        const { data, error } = await supabase
+            .from('projects')
+            .select('*')
+            .eq('id', id)
+            .eq('is_published', true)
+            .single();
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code || 'unknown',
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        console.error(`getProjectById query failed for id "${id}":`, err);
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to load project. Please try again later.',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Get project by ID (with caching)
+ *
+ * Used by the Shoppe to show pre-order details for artwork linked to a
+ * project.
+ *
+ * @param id The project ID
+ * @returns Single project or error
+ */
+export const getProjectById = (id: string) =>
+    unstable_cache(() => getProjectByIdInternal(id), ['project-by-id', id], {
+        revalidate: 3600, // 1 hour
+        tags: ['projects', `project-id-${id}`],
+    })();
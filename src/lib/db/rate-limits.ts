@@ -0,0 +1,61 @@
+import { createHash } from 'crypto';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+/**
+ * Rate limit database functions
+ *
+ * Fixed-window attempt counters shared by every server instance (see the
+ * consume_rate_limit migration). Identifiers such as IP addresses and emails
+ * are hashed before they're stored.
+ */
+
+export interface RateLimit {
+    scope: string; // What is being limited, e.g. 'order-lookup-ip'
+    maxAttempts: number;
+    windowSeconds: number;
+}
+
+export interface RateLimitError {
+    code: string;
+    message: string;
+}
+
+/**
+ * Counts an attempt against a rate limit
+ *
+ * @param limit - Scope and allowance
+ * @param identifier - Who is attempting (IP address, email, ...)
+ * @returns Whether the attempt is within the limit, or error
+ *
+ * @example
+ * ```typescript
+ * const { data: allowed } = await consumeRateLimit(
+ *     { scope: 'order-lookup-ip', maxAttempts: 10, windowSeconds: 900 },
+ *     ip
+ * );
+ * ```
+ */
+export async function consumeRateLimit(
+    limit: RateLimit,
+    identifier: string
+): Promise<{ data: boolean | null; error: RateLimitError | null }> {
+    const supabase = await createServiceRoleClient();
+    const hash = createHash('sha256')
+        .update(identifier.trim().toLowerCase())
+        .digest('hex');
+
+    const { data, error } = await supabase.rpc('consume_rate_limit', {
+        p_key: `${limit.scope}:${hash}`,
+        p_max_attempts: limit.maxAttempts,
+        p_window_seconds: limit.windowSeconds,
+    });
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data, error: null };
+}
@@ -0,0 +1,85 @@
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/types/database';
+
+/**
+ * Site search query functions
+ *
+ * Full-text search over artwork, projects and events via the search_site
+ * RPC (ranked, with highlighted snippets). Uses the anon key, so RLS keeps
+ * results to published rows; the admin search including drafts lives in
+ * lib/db/admin/search.
+ *
+ * Not cached: queries are free text.
+ */
+
+const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+export type SearchResult =
+    Database['public']['Functions']['search_site']['Returns'][number];
+
+export type SearchResultType = SearchResult['result_type'];
+
+export const SEARCH_RESULT_LABELS: Record<SearchResultType, string> = {
+    artwork: 'Artwork',
+    project: 'Project',
+    event: 'Event',
+};
+
+export interface SearchQueryError {
+    code: string;
+    message: string;
+}
+
+/** Markers search_site wraps matched words in */
+export const SNIPPET_HIGHLIGHT_START = '<mark>';
+export const SNIPPET_HIGHLIGHT_END = '</mark>';
+
+/**
+ * Search published artwork, projects and events
+ *
+ * @param query - Websearch-style query ("quoted phrase", -exclude, or)
+ * @param limit - Maximum number of results (capped at 50 by the database)
+ * @returns Results ordered by relevance, or error
+ */
+export async function searchSite(
+    query: string,
+    limit: number = 20
+): Promise<{
+    data: SearchResult[] | null;
+    error: SearchQueryError | null;
+}> {
+    try {
+        const { data, error } = await supabase.rpc('search_site', {
+            p_query: query,
+            p_limit: limit,
+        });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code || 'unknown',
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data: data ?? [], error: null };
+    } catch (err) {
+        console.error('searchSite query failed:', err);
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Search is unavailable. Please try again later.',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
@@ -0,0 +1,62 @@
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/types/database';
+
+/**
+ * Shipping zones database query functions
+ *
+ * Public (anon) queries for the countries checkout can ship to. Rates are
+ * applied server-side by validateCart, which reads zones with the service role.
+ */
+
+const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+export interface ShippingZoneQueryError {
+    code: string;
+    message: string;
+}
+
+/**
+ * Get every country covered by an active shipping zone
+ *
+ * @returns Sorted, de-duplicated ISO alpha-2 country codes or error
+ */
+export async function getShippingCountries(): Promise<{
+    data: string[] | null;
+    error: ShippingZoneQueryError | null;
+}> {
+    try {
+        const { data, error } = await supabase
+            .from('shipping_zones')
+            .select('countries')
+            .eq('is_active', true);
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code || 'unknown',
+                    message: error.message,
+                },
+            };
+        }
+
+        const countries = new Set(
+            (data ?? []).flatMap((zone) => zone.countries)
+        );
+
+        return { data: [...countries].sort(), error: null };
+    } catch (err) {
+        console.error('getShippingCountries query failed:', err);
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message:
+                    'Failed to load shipping countries. Please try again later.',
+            },
+        };
+    }
+}
@@ -0,0 +1,145 @@
+import { createClient } from '@supabase/supabase-js';
+import { unstable_cache } from 'next/cache';
+import { Database } from '@/types/database';
+import type { ArtworkQueryError } from '@/lib/db/artwork';
+
+/**
+ * Artwork variant database query functions
+ *
+ * Handles public queries for print size / finish / framing options of a
+ * shoppe listing. RLS only exposes active variants of published artwork.
+ *
+ * Caching Strategy:
+ * - getVariantsByArtworkId: 1 hour cache (revalidate: 3600)
+ * - getVariantsForArtworkIds: 1 hour cache (revalidate: 3600)
+ *
+ * Shares the 'artwork' cache tag so artwork revalidation refreshes variants.
+ */
+
+const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+export type ArtworkVariantRow =
+    Database['public']['Tables']['artwork_variants']['Row'];
+
+/**
+ * Internal function to get active variants for a single artwork
+ */
+async function getVariantsByArtworkIdInternal(artworkId: string): Promise<{
+    data: ArtworkVariantRow[] | null;
+    error: ArtworkQueryError | null;
+}> {
+    try {
+        const { data, error } = await supabase
+            .from('artwork_variants')
+            .select('*')
+            .eq('artwork_id', artworkId)
+            .eq('is_active', true)
+            .order('display_order', { ascending: true });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code || 'unknown',
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        console.error('getVariantsByArtworkId query failed:', err);
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to load product options. Please try again.',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Get active variants for an artwork ordered by display_order (with caching)
+ *
+ * @param artworkId - The artwork ID
+ * @returns Array of variants (empty when the listing has a single option) or error
+ */
+export const getVariantsByArtworkId = unstable_cache(
+    getVariantsByArtworkIdInternal,
+    ['artwork-variants-by-artwork'],
+    {
+        revalidate: 3600, // 1 hour
+        tags: ['artwork'],
+    }
+);
+
+/**
+ * Internal function to get active variants for several artworks at once
+ */
+async function getVariantsForArtworkIdsInternal(artworkIds: string[]): Promise<{
+    data: ArtworkVariantRow[] | null;
+    error: ArtworkQueryError | null;
+}> {
+    if (artworkIds.length === 0) {
+        return { data: [], error: null };
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('artwork_variants')
+            .select('*')
+            .in('artwork_id', artworkIds)
+            .eq('is_active', true)
+            .order('display_order', { ascending: true });
+
+        if (error) {
+            return {
+                data: null,
+                error: {
+                    code: error.code || 'unknown',
+                    message: error.message,
+                },
+            };
+        }
+
+        return { data, error: null };
+    } catch (err) {
+        console.error('getVariantsForArtworkIds query failed:', err);
+        return {
+            data: null,
+            error: {
+                code: 'fetch_error',
+                message: 'Failed to load product options. Please try again.',
+                ...(process.env.NODE_ENV === 'development' && {
+                    details:
+                        err instanceof Error ? err.message : 'Unknown error',
+                }),
+            },
+        };
+    }
+}
+
+/**
+ * Get active variants for a list of artworks (with caching)
+ *
+ * Used by shoppe listings to show "From $X" pricing without one query per card.
+ *
+ * @param artworkIds - Artwork IDs to load variants for
+ * @returns Flat array of variants ordered by display_order or error
+ */
+export const getVariantsForArtworkIds = unstable_cache(
+    getVariantsForArtworkIdsInternal,
+    ['artwork-variants-for-ids'],
+    {
+        revalidate: 3600, // 1 hour
+        tags: ['artwork'],
+    }
+);
@@ -0,0 +1,226 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+/**
+ * Back-in-stock waitlist database functions
+ *
+ * "Notify me" sign-ups for sold-out artwork:
+ * - joinWaitlist / unsubscribeFromWaitlist: customer-facing writes
+ * - getPendingWaitlistEntries / markWaitlistNotified: restock notifications
+ * - getWaitlistSubscriptions / leaveWaitlist: a customer's email preferences
+ *
+ * The table holds customer emails, so every query uses the service role.
+ */
+
+export type WaitlistEntry = Pick<
+    Database['public']['Tables']['stock_waitlist']['Row'],
+    'id' | 'email' | 'unsubscribe_token'
+>;
+
+export interface WaitlistSubscription {
+    artworkId: string;
+    title: string;
+    slug: string;
+    createdAt: string;
+}
+
+export interface WaitlistError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+/**
+ * Adds an address to an artwork's waitlist. Signing up again with the same
+ * address updates the existing entry (and re-subscribes it) instead of
+ * adding a duplicate.
+ *
+ * @param artworkId - Sold-out artwork to be notified about
+ * @param email - Customer email (stored lowercase)
+ */
+export async function joinWaitlist(
+    artworkId: string,
+    email: string
+): Promise<{ error: WaitlistError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase.from('stock_waitlist').upsert(
+        {
+            artwork_id: artworkId,
+            email: email.trim().toLowerCase(),
+            notified_at: null,
+            unsubscribed_at: null,
+        },
+        { onConflict: 'artwork_id,email' }
+    );
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Get the sign-ups for an artwork that haven't been emailed yet
+ *
+ * @param artworkId - Restocked artwork
+ * @returns Entries to notify (unsubscribed addresses excluded) or error
+ */
+export async function getPendingWaitlistEntries(artworkId: string): Promise<{
+    data: WaitlistEntry[] | null;
+    error: WaitlistError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('stock_waitlist')
+        .select('id, email, unsubscribe_token')
+        .eq('artwork_id', artworkId)
+        .is('notified_at', null)
+        .is('unsubscribed_at', null);
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data, error: null };
+}
+
+/**
+ * Marks waitlist entries as emailed so a later restock doesn't resend
+ */
+export async function markWaitlistNotified(
+    entryIds: string[]
+): Promise<{ error: WaitlistError | null }> {
+    if (entryIds.length === 0) {
+        return { error: null };
+    }
+
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase
+        .from('stock_waitlist')
+        .update({ notified_at: new Date().toISOString() })
+        .in('id', entryIds);
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
+
+/**
+ * Stops back-in-stock emails to the address an unsubscribe token belongs to
+ * (every artwork it signed up for, not just the one that was emailed)
+ *
+ * @param token - unsubscribe_token from the email link
+ * @returns The unsubscribed address, or null when the token is unknown
+ */
+export async function unsubscribeFromWaitlist(token: string): Promise<{
+    data: { email: string } | null;
+    error: WaitlistError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data: entry, error: lookupError } = await supabase
+        .from('stock_waitlist')
+        .select('email')
+        .eq('unsubscribe_token', token)
+        .maybeSingle();
+
+    if (lookupError) {
+        return {
+            data: null,
+            error: { code: lookupError.code, message: lookupError.message },
+        };
+    }
+
+    if (!entry) {
+        return { data: null, error: null };
+    }
+
+    const { error } = await supabase
+        .from('stock_waitlist')
+        .update({ unsubscribed_at: new Date().toISOString() })
+        .eq('email', entry.email)
+        .is('unsubscribed_at', null);
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { data: { email: entry.email }, error: null };
+}
+
+/**
+ * Lists the artwork an address is still waiting to hear about (already
+ * emailed and unsubscribed sign-ups excluded)
+ *
+ * @param email - Customer email
+ * @returns Subscriptions, newest first, or error
+ */
+export async function getWaitlistSubscriptions(email: string): Promise<{
+    data: WaitlistSubscription[] | null;
+    error: WaitlistError | null;
+}> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase
+        .from('stock_waitlist')
+        .select('artwork_id, created_at, artwork:artwork_id (title, slug)')
+        .eq('email', email.trim().toLowerCase())
+        .is('notified_at', null)
+        .is('unsubscribed_at', null)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        return {
+            data: null,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return {
+        data: data.map((entry) => ({
+            artworkId: entry.artwork_id,
+            title: entry.artwork?.title ?? 'Artwork',
+            slug: entry.artwork?.slug ?? '',
+            createdAt: entry.created_at,
+        })),
+        error: null,
+    };
+}
+
+/**
+ * Stops back-in-stock emails to an address for one artwork
+ *
+ * @param email - Customer email
+ * @param artworkId - Artwork to stop waiting for
+ */
+export async function leaveWaitlist(
+    email: string,
+    artworkId: string
+): Promise<{ error: WaitlistError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase
+        .from('stock_waitlist')
+        .update({ unsubscribed_at: new Date().toISOString() })
+        .eq('email', email.trim().toLowerCase())
+        .eq('artwork_id', artworkId)
+        .is('unsubscribed_at', null);
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
@@ -0,0 +1,95 @@
+import type Stripe from 'stripe';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database, Json } from '@/types/database';
+
+/**
+ * Stripe webhook event log database functions
+ *
+ * Every event the Stripe webhook receives is stored with its outcome, keyed
+ * on Stripe's event ID:
+ * - claimWebhookEvent: record an event and decide whether to process it
+ * - completeWebhookEvent: record whether processing succeeded
+ *
+ * Admin queries (listing failed events for replay) live in
+ * lib/db/admin/webhook-events.
+ */
+
+export type WebhookEventRow =
+    Database['public']['Tables']['stripe_webhook_events']['Row'];
+
+/**
+ * How long an event can be 'processing' before it's considered abandoned (its
+ * attempt timed out or crashed) and can be claimed again. Matches
+ * claim_stripe_webhook_event.
+ */
+export const STALE_PROCESSING_MINUTES = 10;
+
+export interface WebhookEventError {
+    code: string;
+    message: string;
+}
+
+/**
+ * Records a verified Stripe event as being processed
+ *
+ * Stripe delivers events at least once, so the same event can arrive more
+ * than once (and concurrently). Only one delivery gets to process it, and
+ * only again later if its last attempt failed or never finished (still
+ * processing after STALE_PROCESSING_MINUTES).
+ *
+ * @param event - The verified Stripe event
+ * @returns claimed: false when the event was already processed, or is being
+ *          processed by another delivery
+ */
+export async function claimWebhookEvent(
+    event: Stripe.Event
+): Promise<{ claimed: boolean; error: WebhookEventError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { data, error } = await supabase.rpc('claim_stripe_webhook_event', {
+        p_stripe_event_id: event.id,
+        p_type: event.type,
+        p_payload: event as unknown as Json,
+    });
+
+    if (error) {
+        return {
+            claimed: false,
+            error: { code: error.code, message: error.message },
+        };
+    }
+
+    return { claimed: data === true, error: null };
+}
+
+/**
+ * Records the outcome of processing a claimed event
+ *
+ * @param stripeEventId - Stripe event ID (evt_...)
+ * @param failure - Why processing failed, or null when it succeeded
+ */
+export async function completeWebhookEvent(
+    stripeEventId: string,
+    failure: string | null
+): Promise<{ error: WebhookEventError | null }> {
+    const supabase = await createServiceRoleClient();
+
+    const { error } = await supabase
+        .from('stripe_webhook_events')
+        .update(
+            failure === null
+                ? {
+                      status: 'processed',
+                      error: null,
+                      processed_at: new Date().toISOString(),
+                  }
+                : { status: 'failed', error: failure }
+        )
+        .eq('stripe_event_id', stripeEventId);
+
+    if (error) {
+        return { error: { code: error.code, message: error.message } };
+    }
+
+    return { error: null };
+}
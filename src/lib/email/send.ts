@@ -10,8 +10,21 @@ import { render } from '@react-email/render';
 import { OrderConfirmation } from './templates/OrderConfirmation';
 import { AdminNotification } from './templates/AdminNotification';
 import { ContactFormSubmission } from './templates/ContactFormSubmission';
+import { BackInStockNotification } from './templates/BackInStockNotification';
+import { CommissionRequestNotification } from './templates/CommissionRequestNotification';
+import { CommissionQuote } from './templates/CommissionQuote';
+import { GiftCardDelivery } from './templates/GiftCardDelivery';
+import { RefundNotice } from './templates/RefundNotice';
+import { DisputeAlert } from './templates/DisputeAlert';
+import { ShippingNotification } from './templates/ShippingNotification';
+import { DeliveryNotification } from './templates/DeliveryNotification';
 import type { Order } from '@/types/order';
+import type { CommissionRow } from '@/lib/db/commissions';
+import type { GiftCardRow } from '@/lib/db/gift-cards';
+import type { OrderRow, OrderShipmentRow } from '@/lib/db/admin/orders';
+import type { OrderPaymentRow } from '@/lib/db/orders';
 import { siteConfig } from '@/config/site';
+import { getCarrierName, getTrackingUrl } from '@/lib/utils/tracking';
 
 /**
  * Email sending error types for better error handling
@@ -336,3 +349,633 @@ export async function sendContactFormEmail(
         return { success: false, error: emailError };
     }
 }
+
+/**
+ * Artwork fields used in back-in-stock emails
+ */
+export interface BackInStockArtwork {
+    title: string;
+    slug: string;
+    image_thumbnail_url: string | null;
+}
+
+/**
+ * Waitlist recipient for a back-in-stock email
+ */
+export interface BackInStockRecipient {
+    email: string;
+    unsubscribeToken: string;
+}
+
+/**
+ * Send back-in-stock email to a waitlist sign-up
+ *
+ * Announces that a sold-out artwork was restocked, with a link to the product
+ * page and an unsubscribe link (also sent as a List-Unsubscribe header).
+ * This is a non-blocking operation - failures are logged but do not throw.
+ *
+ * @param recipient - Waitlist address and its unsubscribe token
+ * @param artwork - The restocked artwork
+ * @returns EmailResult indicating success or failure with error details
+ */
+export async function sendBackInStockEmail(
+    recipient: BackInStockRecipient,
+    artwork: BackInStockArtwork
+): Promise<EmailResult> {
+    try {
+        validateEmailConfig();
+
+        const unsubscribeUrl = `${SITE_URL}/shoppe/waitlist/unsubscribe?token=${recipient.unsubscribeToken}`;
+
+        // Render React email component to HTML
+        const html = await render(
+            BackInStockNotification({
+                artworkTitle: artwork.title,
+                artworkSlug: artwork.slug,
+                imageUrl: artwork.image_thumbnail_url,
+                unsubscribeUrl,
+                siteUrl: SITE_URL,
+            })
+        );
+
+        // Send email via Resend
+        const { data, error } = await resend.emails.send({
+            from: `${EMAIL_FROM_NAME} <${EMAIL_FROM_ADDRESS}>`,
+            to: [recipient.email],
+            subject: `${artwork.title} is back in stock`,
+            html,
+            headers: {
+                'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            },
+        });
+
+        if (error) {
+            const emailError = new EmailSendError(
+                `Failed to send back-in-stock email: ${error.message}`,
+                'RESEND_ERROR',
+                true
+            );
+            console.error('Resend API error (back in stock):', {
+                slug: artwork.slug,
+                error: error.message,
+            });
+            return { success: false, error: emailError };
+        }
+
+        return { success: true, messageId: data?.id };
+    } catch (err) {
+        const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+        const emailError = new EmailSendError(
+            `Error sending back-in-stock email: ${errorMessage}`,
+            'SEND_ERROR',
+            false
+        );
+
+        console.error('Failed to send back-in-stock email:', {
+            slug: artwork.slug,
+            error: errorMessage,
+        });
+
+        return { success: false, error: emailError };
+    }
+}
+
+/**
+ * Send new commission request notification to admin
+ *
+ * Replies go straight to the customer. This is a non-blocking operation -
+ * failures are logged but do not throw.
+ *
+ * @param commission - The saved commission request
+ * @returns EmailResult indicating success or failure with error details
+ */
+export async function sendCommissionRequestEmail(
+    commission: CommissionRow
+): Promise<EmailResult> {
+    try {
+        validateEmailConfig();
+
+        // Render React email component to HTML
+        const html = await render(
+            CommissionRequestNotification({
+                customerName: commission.customer_name,
+                customerEmail: commission.customer_email,
+                subject: commission.subject,
+                size: commission.size,
+                style: commission.style,
+                budget: commission.budget,
+                deadline: commission.deadline,
+                details: commission.details,
+                referenceImageCount: commission.reference_image_paths.length,
+                adminUrl: `${SITE_URL}/admin/commissions/${commission.id}`,
+            })
+        );
+
+        // Send email via Resend
+        const { data, error } = await resend.emails.send({
+            from: `${EMAIL_FROM_NAME} <${EMAIL_FROM_ADDRESS}>`,
+            to: [ADMIN_EMAIL],
+            replyTo: commission.customer_email,
+            subject: `New Commission Request from ${commission.customer_name}`,
+            html,
+        });
+
+        if (error) {
+            const emailError = new EmailSendError(
+                `Failed to send commission request email: ${error.message}`,
+                'RESEND_ERROR',
+                true
+            );
+            console.error('Resend API error (commission request):', {
+                commissionId: commission.id,
+                error: error.message,
+            });
+            return { success: false, error: emailError };
+        }
+
+        return { success: true, messageId: data?.id };
+    } catch (err) {
+        const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+        const emailError = new EmailSendError(
+            `Error sending commission request email: ${errorMessage}`,
+            'SEND_ERROR',
+            false
+        );
+
+        console.error('Failed to send commission request email:', {
+            commissionId: commission.id,
+            error: errorMessage,
+        });
+
+        return { success: false, error: emailError };
+    }
+}
+
+/**
+ * Send commission quote email to customer
+ *
+ * Includes the deposit and balance payment links saved with the quote.
+ * Replies go to the artist. This is a non-blocking operation - failures are
+ * logged but do not throw.
+ *
+ * @param commission - The quoted commission (quote amounts and links set)
+ * @returns EmailResult indicating success or failure with error details
+ */
+export async function sendCommissionQuoteEmail(
+    commission: CommissionRow
+): Promise<EmailResult> {
+    try {
+        validateEmailConfig();
+
+        if (
+            !commission.quote_amount ||
+            !commission.deposit_amount ||
+            !commission.deposit_payment_link_url ||
+            !commission.balance_payment_link_url
+        ) {
+            throw new Error('Commission has not been quoted');
+        }
+
+        // Render React email component to HTML
+        const html = await render(
+            CommissionQuote({
+                customerName: commission.customer_name,
+                subject: commission.subject,
+                quoteAmount: parseFloat(commission.quote_amount),
+                depositAmount: parseFloat(commission.deposit_amount),
+                quoteNotes: commission.quote_notes,
+                depositPaymentUrl: commission.deposit_payment_link_url,
+                balancePaymentUrl: commission.balance_payment_link_url,
+                siteUrl: SITE_URL,
+            })
+        );
+
+        // Send email via Resend
+        const { data, error } = await resend.emails.send({
+            from: `${EMAIL_FROM_NAME} <${EMAIL_FROM_ADDRESS}>`,
+            to: [commission.customer_email],
+            replyTo: ADMIN_EMAIL,
+            subject: `Your commission quote: ${commission.subject}`,
+            html,
+        });
+
+        if (error) {
+            const emailError = new EmailSendError(
+                `Failed to send commission quote email: ${error.message}`,
+                'RESEND_ERROR',
+                true
+            );
+            console.error('Resend API error (commission quote):', {
+                commissionId: commission.id,
+                error: error.message,
+            });
+            return { success: false, error: emailError };
+        }
+
+        return { success: true, messageId: data?.id };
+    } catch (err) {
+        const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+        const emailError = new EmailSendError(
+            `Error sending commission quote email: ${errorMessage}`,
+            'SEND_ERROR',
+            false
+        );
+
+        console.error('Failed to send commission quote email:', {
+            commissionId: commission.id,
+            error: errorMessage,
+        });
+
+        return { success: false, error: emailError };
+    }
+}
+
+/**
+ * Send a gift card's code to its recipient
+ *
+ * Replies go to the buyer. This is a non-blocking operation - failures are
+ * logged but do not throw.
+ *
+ * @param giftCard - The issued gift card
+ * @returns EmailResult indicating success or failure with error details
+ */
+export async function sendGiftCardEmail(
+    giftCard: GiftCardRow
+): Promise<EmailResult> {
+    try {
+        validateEmailConfig();
+
+        // Render React email component to HTML
+        const html = await render(
+            GiftCardDelivery({
+                recipientName: giftCard.recipient_name,
+                senderName: giftCard.purchaser_name,
+                amount: parseFloat(giftCard.initial_amount),
+                code: giftCard.code,
+                message: giftCard.message,
+                siteUrl: SITE_URL,
+            })
+        );
+
+        // Send email via Resend
+        const { data, error } = await resend.emails.send({
+            from: `${EMAIL_FROM_NAME} <${EMAIL_FROM_ADDRESS}>`,
+            to: [giftCard.recipient_email],
+            replyTo: giftCard.purchaser_email,
+            subject: `${giftCard.purchaser_name} sent you a gift card`,
+            html,
+        });
+
+        if (error) {
+            const emailError = new EmailSendError(
+                `Failed to send gift card email: ${error.message}`,
+                'RESEND_ERROR',
+                true
+            );
+            console.error('Resend API error (gift card):', {
+                giftCardId: giftCard.id,
+                error: error.message,
+            });
+            return { success: false, error: emailError };
+        }
+
+        return { success: true, messageId: data?.id };
+    } catch (err) {
+        const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+        const emailError = new EmailSendError(
+            `Error sending gift card email: ${errorMessage}`,
+            'SEND_ERROR',
+            false
+        );
+
+        console.error('Failed to send gift card email:', {
+            giftCardId: giftCard.id,
+            error: errorMessage,
+        });
+
+        return { success: false, error: emailError };
+    }
+}
+
+/**
+ * What a refund covered, for the refund email
+ */
+export interface RefundNoticeDetails {
+    amount: number;
+    fullRefund: boolean;
+    items: { title: string; quantity: number }[];
+}
+
+/**
+ * Send refund notice email to customer
+ *
+ * Confirms the refunded amount and items. Replies go to the artist. This is
+ * a non-blocking operation - failures are logged but do not throw.
+ *
+ * @param order - The refunded order
+ * @param refund - Amount and items the refund covered
+ * @returns EmailResult indicating success or failure with error details
+ */
+export async function sendRefundEmail(
+    order: OrderRow,
+    refund: RefundNoticeDetails
+): Promise<EmailResult> {
+    try {
+        validateEmailConfig();
+
+        // Render React email component to HTML
+        const html = await render(
+            RefundNotice({
+                customerName: order.customer_name,
+                orderNumber: order.order_number,
+                amount: refund.amount,
+                fullRefund: refund.fullRefund,
+                items: refund.items,
+                siteUrl: SITE_URL,
+            })
+        );
+
+        // Send email via Resend
+        const { data, error } = await resend.emails.send({
+            from: `${EMAIL_FROM_NAME} <${EMAIL_FROM_ADDRESS}>`,
+            to: [order.customer_email],
+            replyTo: ADMIN_EMAIL,
+            subject: `Refund for order ${order.order_number}`,
+            html,
+        });
+
+        if (error) {
+            const emailError = new EmailSendError(
+                `Failed to send refund email: ${error.message}`,
+                'RESEND_ERROR',
+                true
+            );
+            console.error('Resend API error (refund):', {
+                orderId: order.id,
+                error: error.message,
+            });
+            return { success: false, error: emailError };
+        }
+
+        return { success: true, messageId: data?.id };
+    } catch (err) {
+        const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+        const emailError = new EmailSendError(
+            `Error sending refund email: ${errorMessage}`,
+            'SEND_ERROR',
+            false
+        );
+
+        console.error('Failed to send refund email:', {
+            orderId: order.id,
+            error: errorMessage,
+        });
+
+        return { success: false, error: emailError };
+    }
+}
+
+/**
+ * Send shipping notification email to customer
+ *
+ * Gives each package's tracking number, linked to its carrier's tracking
+ * page, and the shipping address. Replies go to the artist. This is a
+ * non-blocking operation - failures are logged but do not throw.
+ *
+ * @param order - The shipped order
+ * @param shipments - The order's packages (may be empty)
+ * @returns EmailResult indicating success or failure with error details
+ */
+export async function sendShippingEmail(
+    order: OrderRow,
+    shipments: OrderShipmentRow[]
+): Promise<EmailResult> {
+    try {
+        validateEmailConfig();
+
+        // Render React email component to HTML
+        const html = await render(
+            ShippingNotification({
+                customerName: order.customer_name,
+                orderNumber: order.order_number,
+                packages: shipments.map((shipment) => ({
+                    trackingNumber: shipment.tracking_number,
+                    carrierName: getCarrierName(
+                        shipment.tracking_number,
+                        shipment.carrier
+                    ),
+                    trackingUrl: getTrackingUrl(
+                        shipment.tracking_number,
+                        shipment.carrier
+                    ),
+                })),
+                shippingAddress: {
+                    line1: order.shipping_address_line1,
+                    line2: order.shipping_address_line2,
+                    city: order.shipping_city,
+                    state: order.shipping_state,
+                    zip: order.shipping_zip,
+                    country: order.shipping_country,
+                },
+                siteUrl: SITE_URL,
+            })
+        );
+
+        // Send email via Resend
+        const { data, error } = await resend.emails.send({
+            from: `${EMAIL_FROM_NAME} <${EMAIL_FROM_ADDRESS}>`,
+            to: [order.customer_email],
+            replyTo: ADMIN_EMAIL,
+            subject: `Order ${order.order_number} has shipped`,
+            html,
+        });
+
+        if (error) {
+            const emailError = new EmailSendError(
+                `Failed to send shipping email: ${error.message}`,
+                'RESEND_ERROR',
+                true
+            );
+            console.error('Resend API error (shipping):', {
+                orderId: order.id,
+                error: error.message,
+            });
+            return { success: false, error: emailError };
+        }
+
+        return { success: true, messageId: data?.id };
+    } catch (err) {
+        const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+        const emailError = new EmailSendError(
+            `Error sending shipping email: ${errorMessage}`,
+            'SEND_ERROR',
+            false
+        );
+
+        console.error('Failed to send shipping email:', {
+            orderId: order.id,
+            error: errorMessage,
+        });
+
+        return { success: false, error: emailError };
+    }
+}
+
+/**
+ * Send delivery notification email to customer
+ *
+ * Replies go to the artist. This is a non-blocking operation - failures are
+ * logged but do not throw.
+ *
+ * @param order - The delivered order
+ * @returns EmailResult indicating success or failure with error details
+ */
+export async function sendDeliveryEmail(order: OrderRow): Promise<EmailResult> {
+    try {
+        validateEmailConfig();
+
+        // Render React email component to HTML
+        const html = await render(
+            DeliveryNotification({
+                customerName: order.customer_name,
+                orderNumber: order.order_number,
+                siteUrl: SITE_URL,
+            })
+        );
+
+        // Send email via Resend
+        const { data, error } = await resend.emails.send({
+            from: `${EMAIL_FROM_NAME} <${EMAIL_FROM_ADDRESS}>`,
+            to: [order.customer_email],
+            replyTo: ADMIN_EMAIL,
+            subject: `Order ${order.order_number} has been delivered`,
+            html,
+        });
+
+        if (error) {
+            const emailError = new EmailSendError(
+                `Failed to send delivery email: ${error.message}`,
+                'RESEND_ERROR',
+                true
+            );
+            console.error('Resend API error (delivery):', {
+                orderId: order.id,
+                error: error.message,
+            });
+            return { success: false, error: emailError };
+        }
+
+        return { success: true, messageId: data?.id };
+    } catch (err) {
+        const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+        const emailError = new EmailSendError(
+            `Error sending delivery email: ${errorMessage}`,
+            'SEND_ERROR',
+            false
+        );
+
+        console.error('Failed to send delivery email:', {
+            orderId: order.id,
+            error: errorMessage,
+        });
+
+        return { success: false, error: emailError };
+    }
+}
+
+/**
+ * A Stripe dispute, for the dispute alert email
+ */
+export interface DisputeAlertDetails {
+    stripeDisputeId: string;
+    amount: number; // Dollars
+    reason: string;
+    evidenceDueBy: string | null;
+    livemode: boolean;
+}
+
+/**
+ * Send chargeback alert to admin
+ *
+ * Links the dispute in the Stripe dashboard, where evidence is submitted.
+ * Replies go straight to the customer when the payment matched an order.
+ * This is a non-blocking operation - failures are logged but do not throw.
+ *
+ * @param order - The disputed order (null when no order matched the payment)
+ * @param dispute - The dispute Stripe opened
+ * @returns EmailResult indicating success or failure with error details
+ */
+export async function sendDisputeAlertEmail(
+    order: OrderPaymentRow | null,
+    dispute: DisputeAlertDetails
+): Promise<EmailResult> {
+    try {
+        validateEmailConfig();
+
+        const stripeUrl = `https://dashboard.stripe.com/${
+            dispute.livemode ? '' : 'test/'
+        }disputes/${dispute.stripeDisputeId}`;
+
+        // Render React email component to HTML
+        const html = await render(
+            DisputeAlert({
+                orderNumber: order?.order_number ?? null,
+                customerName: order?.customer_name ?? null,
+                customerEmail: order?.customer_email ?? null,
+                amount: dispute.amount,
+                reason: dispute.reason,
+                evidenceDueBy: dispute.evidenceDueBy,
+                adminUrl: order ? `${SITE_URL}/admin/orders/${order.id}` : null,
+                stripeUrl,
+            })
+        );
+
+        // Send email via Resend
+        const { data, error } = await resend.emails.send({
+            from: `${EMAIL_FROM_NAME} <${EMAIL_FROM_ADDRESS}>`,
+            to: [ADMIN_EMAIL],
+            ...(order && { replyTo: order.customer_email }),
+            subject: order
+                ? `Payment disputed for order ${order.order_number}`
+                : 'Payment disputed',
+            html,
+        });
+
+        if (error) {
+            const emailError = new EmailSendError(
+                `Failed to send dispute alert email: ${error.message}`,
+                'RESEND_ERROR',
+                true
+            );
+            console.error('Resend API error (dispute alert):', {
+                disputeId: dispute.stripeDisputeId,
+                error: error.message,
+            });
+            return { success: false, error: emailError };
+        }
+
+        return { success: true, messageId: data?.id };
+    } catch (err) {
+        const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+        const emailError = new EmailSendError(
+            `Error sending dispute alert email: ${errorMessage}`,
+            'SEND_ERROR',
+            false
+        );
+
+        console.error('Failed to send dispute alert email:', {
+            disputeId: dispute.stripeDisputeId,
+            error: errorMessage,
+        });
+
+        return { success: false, error: emailError };
+    }
+}
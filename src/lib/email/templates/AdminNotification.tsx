@@ -103,6 +103,33 @@ export function AdminNotification({ order, siteUrl }: AdminNotificationProps) {
                                 </Column>
                             </Row>
 
+                            {order.discountAmount ? (
+                                <Row style={row}>
+                                    <Column style={labelColumn}>
+                                        <Text style={label}>Coupon:</Text>
+                                    </Column>
+                                    <Column style={valueColumn}>
+                                        <Text style={value}>
+                                            {order.couponCode ?? 'Discount'} (-$
+                                            {order.discountAmount.toFixed(2)})
+                                        </Text>
+                                    </Column>
+                                </Row>
+                            ) : null}
+
+                            {order.giftCardAmount ? (
+                                <Row style={row}>
+                                    <Column style={labelColumn}>
+                                        <Text style={label}>Gift Card:</Text>
+                                    </Column>
+                                    <Column style={valueColumn}>
+                                        <Text style={value}>
+                                            {`-$${order.giftCardAmount.toFixed(2)}`}
+                                        </Text>
+                                    </Column>
+                                </Row>
+                            ) : null}
+
                             <Row style={row}>
                                 <Column style={labelColumn}>
                                     <Text style={label}>Payment Status:</Text>
@@ -140,8 +167,10 @@ export function AdminNotification({ order, siteUrl }: AdminNotificationProps) {
                         {order.items.map((item, index) => (
                             <Section key={index} style={itemSection}>
                                 <Text style={itemText}>
-                                    • {item.title || 'Artwork'} ×{' '}
-                                    {item.quantity} - $
+                                    • {item.title || 'Artwork'}
+                                    {item.variantName &&
+                                        ` (${item.variantName})`}{' '}
+                                    × {item.quantity} - $
                                     {item.lineSubtotal.toFixed(2)}
                                 </Text>
                             </Section>
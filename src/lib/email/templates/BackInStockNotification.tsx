@@ -0,0 +1,203 @@
+/**
+ * Back In Stock Notification Email Template
+ *
+ * React Email component for back-in-stock emails.
+ * Sent to waitlist sign-ups when an admin restocks a sold-out artwork.
+ */
+
+import {
+    Body,
+    Container,
+    Head,
+    Heading,
+    Html,
+    Img,
+    Link,
+    Preview,
+    Section,
+    Text,
+} from '@react-email/components';
+
+export interface BackInStockNotificationProps {
+    artworkTitle: string;
+    artworkSlug: string;
+    imageUrl?: string | null;
+    unsubscribeUrl: string;
+    siteUrl: string;
+}
+
+/**
+ * BackInStockNotification Email Component
+ *
+ * Renders a short restock announcement with a link to the product page and
+ * an unsubscribe link for future waitlist emails.
+ */
+export function BackInStockNotification({
+    artworkTitle,
+    artworkSlug,
+    imageUrl,
+    unsubscribeUrl,
+    siteUrl,
+}: BackInStockNotificationProps) {
+    const previewText = `${artworkTitle} is back in stock`;
+    const productUrl = `${siteUrl}/shoppe/${artworkSlug}`;
+
+    return (
+        <Html>
+            <Head />
+            <Preview>{previewText}</Preview>
+            <Body style={main}>
+                <Container style={container}>
+                    {/* Header with Logo */}
+                    <Section style={header}>
+                        <Img
+                            src={`${siteUrl}/images/header-footer/logo.png`}
+                            alt="Ye Olde Artoonist"
+                            width="300"
+                            height="190"
+                            style={logo}
+                        />
+                    </Section>
+
+                    {/* Main Content */}
+                    <Section style={content}>
+                        <Heading style={h1}>Back In Stock</Heading>
+                        <Text style={text}>
+                            Good news! <strong>{artworkTitle}</strong> is
+                            available again. Stock is limited, so grab yours
+                            before it sells out.
+                        </Text>
+
+                        {imageUrl && (
+                            <Section style={imageSection}>
+                                <Img
+                                    src={imageUrl}
+                                    alt={artworkTitle}
+                                    width="240"
+                                    style={productImage}
+                                />
+                            </Section>
+                        )}
+
+                        <Section style={buttonSection}>
+                            <Link href={productUrl} style={button}>
+                                Shop Now
+                            </Link>
+                        </Section>
+                    </Section>
+
+                    {/* Footer */}
+                    <Section style={footer}>
+                        <Text style={footerText}>
+                            You&apos;re receiving this email because you asked
+                            to be notified when this item was restocked.
+                        </Text>
+                        <Text style={footerText}>
+                            <Link href={unsubscribeUrl} style={link}>
+                                Unsubscribe from back-in-stock emails
+                            </Link>
+                        </Text>
+                        <Text style={footerText}>
+                            © {new Date().getFullYear()} Ye Olde Artoonist. All
+                            rights reserved.
+                        </Text>
+                    </Section>
+                </Container>
+            </Body>
+        </Html>
+    );
+}
+
+// Styles (matching OrderConfirmation template patterns)
+const main = {
+    backgroundColor: '#f6f9fc',
+    fontFamily:
+        '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+    backgroundColor: '#ffffff',
+    margin: '0 auto',
+    padding: '20px 0 48px',
+    marginBottom: '64px',
+    maxWidth: '600px',
+};
+
+const header = {
+    padding: '32px 24px',
+    textAlign: 'center' as const,
+    backgroundColor: '#f8f9fa',
+};
+
+const logo = {
+    margin: '0 auto',
+};
+
+const content = {
+    padding: '0 24px',
+};
+
+const h1 = {
+    color: '#1a1a1a',
+    fontSize: '32px',
+    fontWeight: 'bold',
+    margin: '32px 0 16px',
+    padding: '0',
+    textAlign: 'center' as const,
+};
+
+const text = {
+    color: '#525252',
+    fontSize: '16px',
+    lineHeight: '24px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const imageSection = {
+    margin: '24px 0',
+    textAlign: 'center' as const,
+};
+
+const productImage = {
+    margin: '0 auto',
+    borderRadius: '6px',
+};
+
+const buttonSection = {
+    margin: '32px 0',
+    textAlign: 'center' as const,
+};
+
+const button = {
+    backgroundColor: '#2563eb',
+    borderRadius: '6px',
+    color: '#ffffff',
+    display: 'inline-block',
+    fontSize: '16px',
+    fontWeight: '600',
+    padding: '12px 24px',
+    textDecoration: 'none',
+    textAlign: 'center' as const,
+};
+
+const footer = {
+    borderTop: '1px solid #e5e7eb',
+    margin: '32px 24px 0',
+    padding: '24px 0 0',
+    textAlign: 'center' as const,
+};
+
+const footerText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '4px 0',
+};
+
+const link = {
+    color: '#2563eb',
+    textDecoration: 'underline',
+};
+
+export default BackInStockNotification;
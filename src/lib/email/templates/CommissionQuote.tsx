@@ -0,0 +1,244 @@
+/**
+ * Commission Quote Email Template
+ *
+ * React Email component for commission quotes.
+ * Sent to the customer when the admin quotes their commission request, with
+ * payment links for the deposit and the balance.
+ */
+
+import {
+    Body,
+    Container,
+    Head,
+    Heading,
+    Html,
+    Img,
+    Link,
+    Preview,
+    Section,
+    Text,
+} from '@react-email/components';
+
+export interface CommissionQuoteProps {
+    customerName: string;
+    subject: string;
+    quoteAmount: number;
+    depositAmount: number;
+    quoteNotes?: string | null;
+    depositPaymentUrl: string;
+    balancePaymentUrl: string;
+    siteUrl: string;
+}
+
+/**
+ * CommissionQuote Email Component
+ *
+ * Renders the quoted price split into deposit and balance, the artist's
+ * notes, a button to pay the deposit and a link to pay the balance once the
+ * piece is finished.
+ */
+export function CommissionQuote({
+    customerName,
+    subject,
+    quoteAmount,
+    depositAmount,
+    quoteNotes,
+    depositPaymentUrl,
+    balancePaymentUrl,
+    siteUrl,
+}: CommissionQuoteProps) {
+    const previewText = `Your commission quote: ${subject}`;
+    const balanceAmount = quoteAmount - depositAmount;
+
+    return (
+        <Html>
+            <Head />
+            <Preview>{previewText}</Preview>
+            <Body style={main}>
+                <Container style={container}>
+                    {/* Header with Logo */}
+                    <Section style={header}>
+                        <Img
+                            src={`${siteUrl}/images/header-footer/logo.png`}
+                            alt="Ye Olde Artoonist"
+                            width="300"
+                            height="190"
+                            style={logo}
+                        />
+                    </Section>
+
+                    {/* Main Content */}
+                    <Section style={content}>
+                        <Heading style={h1}>Your Commission Quote</Heading>
+                        <Text style={text}>
+                            Hi {customerName}, thanks for your commission
+                            request for <strong>{subject}</strong>. Here&apos;s
+                            the quote.
+                        </Text>
+
+                        <Section style={quoteSection}>
+                            <Text style={quoteLine}>
+                                Total:{' '}
+                                <strong>{`$${quoteAmount.toFixed(2)}`}</strong>
+                            </Text>
+                            <Text style={quoteLine}>
+                                Deposit due now:{' '}
+                                <strong>{`$${depositAmount.toFixed(2)}`}</strong>
+                            </Text>
+                            <Text style={quoteLine}>
+                                Balance due on completion:{' '}
+                                <strong>{`$${balanceAmount.toFixed(2)}`}</strong>
+                            </Text>
+                        </Section>
+
+                        {quoteNotes && (
+                            <Text style={notesText}>{quoteNotes}</Text>
+                        )}
+
+                        <Text style={text}>
+                            Work begins once the deposit is paid.
+                        </Text>
+
+                        <Section style={buttonSection}>
+                            <Link href={depositPaymentUrl} style={button}>
+                                Pay Deposit
+                            </Link>
+                        </Section>
+
+                        <Text style={balanceText}>
+                            When your piece is finished, pay the balance here:{' '}
+                            <Link href={balancePaymentUrl} style={link}>
+                                Pay balance
+                            </Link>
+                        </Text>
+                    </Section>
+
+                    {/* Footer */}
+                    <Section style={footer}>
+                        <Text style={footerText}>
+                            Questions about the quote? Just reply to this email.
+                        </Text>
+                        <Text style={footerText}>
+                            © {new Date().getFullYear()} Ye Olde Artoonist. All
+                            rights reserved.
+                        </Text>
+                    </Section>
+                </Container>
+            </Body>
+        </Html>
+    );
+}
+
+// Styles (matching OrderConfirmation template patterns)
+const main = {
+    backgroundColor: '#f6f9fc',
+    fontFamily:
+        '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+    backgroundColor: '#ffffff',
+    margin: '0 auto',
+    padding: '20px 0 48px',
+    marginBottom: '64px',
+    maxWidth: '600px',
+};
+
+const header = {
+    padding: '32px 24px',
+    textAlign: 'center' as const,
+    backgroundColor: '#f8f9fa',
+};
+
+const logo = {
+    margin: '0 auto',
+};
+
+const content = {
+    padding: '0 24px',
+};
+
+const h1 = {
+    color: '#1a1a1a',
+    fontSize: '32px',
+    fontWeight: 'bold',
+    margin: '32px 0 16px',
+    padding: '0',
+    textAlign: 'center' as const,
+};
+
+const text = {
+    color: '#525252',
+    fontSize: '16px',
+    lineHeight: '24px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const quoteSection = {
+    backgroundColor: '#f9fafb',
+    borderRadius: '8px',
+    padding: '16px 24px',
+    margin: '24px 0',
+};
+
+const quoteLine = {
+    color: '#1a1a1a',
+    fontSize: '16px',
+    lineHeight: '24px',
+    margin: '4px 0',
+};
+
+const notesText = {
+    color: '#525252',
+    fontSize: '14px',
+    lineHeight: '22px',
+    margin: '16px 0',
+    whiteSpace: 'pre-wrap' as const,
+};
+
+const buttonSection = {
+    margin: '32px 0',
+    textAlign: 'center' as const,
+};
+
+const button = {
+    backgroundColor: '#2563eb',
+    borderRadius: '6px',
+    color: '#ffffff',
+    display: 'inline-block',
+    fontSize: '16px',
+    fontWeight: '600',
+    padding: '12px 24px',
+    textDecoration: 'none',
+    textAlign: 'center' as const,
+};
+
+const footer = {
+    borderTop: '1px solid #e5e7eb',
+    margin: '32px 24px 0',
+    padding: '24px 0 0',
+    textAlign: 'center' as const,
+};
+
+const footerText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '4px 0',
+};
+
+const balanceText = {
+    color: '#737373',
+    fontSize: '14px',
+    lineHeight: '20px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const link = {
+    color: '#2563eb',
+    textDecoration: 'underline',
+};
+
+export default CommissionQuote;
@@ -0,0 +1,275 @@
+/**
+ * Commission Request Email Template
+ *
+ * React Email component for new commission request notifications.
+ * Sent to admin when someone submits the commission request form.
+ */
+
+import {
+    Body,
+    Container,
+    Head,
+    Heading,
+    Html,
+    Link,
+    Preview,
+    Section,
+    Text,
+    Hr,
+    Row,
+    Column,
+} from '@react-email/components';
+
+export interface CommissionRequestNotificationProps {
+    customerName: string;
+    customerEmail: string;
+    subject: string;
+    size: string;
+    style: string;
+    budget: string | null;
+    deadline: string | null;
+    details: string | null;
+    referenceImageCount: number;
+    adminUrl: string;
+}
+
+/**
+ * CommissionRequestNotification Email Component
+ *
+ * Renders the structured request (subject, size, style, budget, deadline)
+ * with a link to the commission in the admin, where the reference images
+ * and quote form are.
+ */
+export function CommissionRequestNotification({
+    customerName,
+    customerEmail,
+    subject,
+    size,
+    style,
+    budget,
+    deadline,
+    details,
+    referenceImageCount,
+    adminUrl,
+}: CommissionRequestNotificationProps) {
+    const previewText = `New commission request from ${customerName}`;
+    const fields: Array<[string, string]> = [
+        ['Name:', customerName],
+        ['Email:', customerEmail],
+        ['Subject:', subject],
+        ['Size:', size],
+        ['Style:', style],
+        ['Budget:', budget ? `$${parseFloat(budget).toFixed(2)}` : 'Not given'],
+        [
+            'Deadline:',
+            deadline
+                ? new Date(deadline).toLocaleDateString('en-US', {
+                      dateStyle: 'medium',
+                      timeZone: 'UTC',
+                  })
+                : 'None',
+        ],
+        ['References:', `${referenceImageCount} image(s)`],
+    ];
+
+    return (
+        <Html>
+            <Head />
+            <Preview>{previewText}</Preview>
+            <Body style={main}>
+                <Container style={container}>
+                    {/* Header */}
+                    <Section style={header}>
+                        <Heading style={h1}>🎨 New Commission Request</Heading>
+                    </Section>
+
+                    {/* Main Content */}
+                    <Section style={content}>
+                        <Text style={alertText}>
+                            Someone has requested a commission on Ye Olde
+                            Artoonist.
+                        </Text>
+
+                        {/* Request Details */}
+                        <Section style={contactInfo}>
+                            <Heading as="h2" style={h2}>
+                                Request
+                            </Heading>
+
+                            {fields.map(([fieldLabel, fieldValue]) => (
+                                <Row key={fieldLabel} style={row}>
+                                    <Column style={labelColumn}>
+                                        <Text style={label}>{fieldLabel}</Text>
+                                    </Column>
+                                    <Column style={valueColumn}>
+                                        <Text style={value}>{fieldValue}</Text>
+                                    </Column>
+                                </Row>
+                            ))}
+                        </Section>
+
+                        {details && (
+                            <>
+                                <Hr style={divider} />
+                                <Heading as="h2" style={h2}>
+                                    Details
+                                </Heading>
+                                <Section style={messageSection}>
+                                    <Text style={messageText}>{details}</Text>
+                                </Section>
+                            </>
+                        )}
+
+                        <Hr style={divider} />
+
+                        <Text style={helpText}>
+                            <Link href={adminUrl}>
+                                Review and quote this commission
+                            </Link>
+                        </Text>
+                    </Section>
+
+                    {/* Footer */}
+                    <Section style={footer}>
+                        <Text style={footerText}>
+                            This is an automated notification from Ye Olde
+                            Artoonist.
+                        </Text>
+                        <Text style={footerText}>
+                            © {new Date().getFullYear()} Ye Olde Artoonist
+                        </Text>
+                    </Section>
+                </Container>
+            </Body>
+        </Html>
+    );
+}
+
+// Styles (matching AdminNotification template patterns)
+const main = {
+    backgroundColor: '#f6f9fc',
+    fontFamily:
+        '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+    backgroundColor: '#ffffff',
+    margin: '0 auto',
+    padding: '20px 0 48px',
+    marginBottom: '64px',
+    maxWidth: '600px',
+};
+
+const header = {
+    padding: '32px 24px',
+    textAlign: 'center' as const,
+    backgroundColor: '#eff6ff',
+    borderBottom: '3px solid #3b82f6',
+};
+
+const content = {
+    padding: '0 24px',
+};
+
+const h1 = {
+    color: '#1e40af',
+    fontSize: '28px',
+    fontWeight: 'bold',
+    margin: '0',
+    padding: '0',
+};
+
+const h2 = {
+    color: '#1a1a1a',
+    fontSize: '18px',
+    fontWeight: 'bold',
+    margin: '24px 0 12px',
+    padding: '0',
+};
+
+const alertText = {
+    color: '#1e40af',
+    fontSize: '16px',
+    fontWeight: '600',
+    lineHeight: '24px',
+    margin: '24px 0',
+    textAlign: 'center' as const,
+};
+
+const contactInfo = {
+    backgroundColor: '#f9fafb',
+    borderRadius: '8px',
+    padding: '16px',
+    margin: '16px 0',
+};
+
+const row = {
+    marginBottom: '8px',
+};
+
+const labelColumn = {
+    width: '30%',
+    paddingRight: '8px',
+};
+
+const valueColumn = {
+    width: '70%',
+};
+
+const label = {
+    color: '#737373',
+    fontSize: '14px',
+    fontWeight: '600',
+    margin: '0',
+};
+
+const value = {
+    color: '#1a1a1a',
+    fontSize: '14px',
+    margin: '0',
+};
+
+const divider = {
+    borderColor: '#e5e7eb',
+    margin: '24px 0',
+};
+
+const messageSection = {
+    backgroundColor: '#f9fafb',
+    padding: '16px',
+    borderRadius: '6px',
+    borderLeft: '3px solid #3b82f6',
+    margin: '12px 0',
+};
+
+const messageText = {
+    color: '#1a1a1a',
+    fontSize: '14px',
+    lineHeight: '22px',
+    margin: '0',
+    whiteSpace: 'pre-wrap' as const,
+};
+
+const helpText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const footer = {
+    borderTop: '1px solid #e5e7eb',
+    margin: '32px 24px 0',
+    padding: '24px 0 0',
+    textAlign: 'center' as const,
+};
+
+const footerText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '4px 0',
+};
+
+export default CommissionRequestNotification;
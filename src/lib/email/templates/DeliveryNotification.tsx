@@ -0,0 +1,171 @@
+/**
+ * Delivery Notification Email Template
+ *
+ * React Email component for delivery emails.
+ * Sent to the customer when an admin marks their order as delivered.
+ */
+
+import {
+    Body,
+    Container,
+    Head,
+    Heading,
+    Html,
+    Img,
+    Link,
+    Preview,
+    Section,
+    Text,
+} from '@react-email/components';
+
+export interface DeliveryNotificationProps {
+    customerName: string;
+    orderNumber: string;
+    siteUrl: string;
+}
+
+/**
+ * DeliveryNotification Email Component
+ *
+ * Lets the customer know their order has arrived, with a link back to the
+ * shoppe.
+ */
+export function DeliveryNotification({
+    customerName,
+    orderNumber,
+    siteUrl,
+}: DeliveryNotificationProps) {
+    const previewText = `Order ${orderNumber} has been delivered`;
+
+    return (
+        <Html>
+            <Head />
+            <Preview>{previewText}</Preview>
+            <Body style={main}>
+                <Container style={container}>
+                    {/* Header with Logo */}
+                    <Section style={header}>
+                        <Img
+                            src={`${siteUrl}/images/header-footer/logo.png`}
+                            alt="Ye Olde Artoonist"
+                            width="300"
+                            height="190"
+                            style={logo}
+                        />
+                    </Section>
+
+                    {/* Main Content */}
+                    <Section style={content}>
+                        <Heading style={h1}>Your Order Has Arrived</Heading>
+                        <Text style={text}>
+                            Hi {customerName}, order{' '}
+                            <strong>{orderNumber}</strong> has been delivered.
+                            We hope you enjoy it!
+                        </Text>
+                        <Text style={text}>
+                            If anything arrived damaged or isn&apos;t quite
+                            right, reply to this email and we&apos;ll sort it
+                            out.
+                        </Text>
+
+                        <Section style={buttonSection}>
+                            <Link href={`${siteUrl}/shoppe`} style={button}>
+                                Visit the Shoppe
+                            </Link>
+                        </Section>
+                    </Section>
+
+                    {/* Footer */}
+                    <Section style={footer}>
+                        <Text style={footerText}>
+                            Thank you for supporting independent art.
+                        </Text>
+                        <Text style={footerText}>
+                            © {new Date().getFullYear()} Ye Olde Artoonist. All
+                            rights reserved.
+                        </Text>
+                    </Section>
+                </Container>
+            </Body>
+        </Html>
+    );
+}
+
+// Styles (matching OrderConfirmation template patterns)
+const main = {
+    backgroundColor: '#f6f9fc',
+    fontFamily:
+        '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+    backgroundColor: '#ffffff',
+    margin: '0 auto',
+    padding: '20px 0 48px',
+    marginBottom: '64px',
+    maxWidth: '600px',
+};
+
+const header = {
+    padding: '32px 24px',
+    textAlign: 'center' as const,
+    backgroundColor: '#f8f9fa',
+};
+
+const logo = {
+    margin: '0 auto',
+};
+
+const content = {
+    padding: '0 24px',
+};
+
+const h1 = {
+    color: '#1a1a1a',
+    fontSize: '32px',
+    fontWeight: 'bold',
+    margin: '32px 0 16px',
+    padding: '0',
+    textAlign: 'center' as const,
+};
+
+const text = {
+    color: '#525252',
+    fontSize: '16px',
+    lineHeight: '24px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const buttonSection = {
+    margin: '32px 0',
+    textAlign: 'center' as const,
+};
+
+const button = {
+    backgroundColor: '#2563eb',
+    borderRadius: '6px',
+    color: '#ffffff',
+    display: 'inline-block',
+    fontSize: '16px',
+    fontWeight: '600',
+    padding: '12px 24px',
+    textDecoration: 'none',
+    textAlign: 'center' as const,
+};
+
+const footer = {
+    borderTop: '1px solid #e5e7eb',
+    margin: '32px 24px 0',
+    padding: '24px 0 0',
+    textAlign: 'center' as const,
+};
+
+const footerText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '4px 0',
+};
+
+export default DeliveryNotification;
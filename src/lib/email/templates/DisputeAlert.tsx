@@ -0,0 +1,249 @@
+/**
+ * Dispute Alert Email Template
+ *
+ * React Email component for chargeback alerts.
+ * Sent to admin when a customer disputes a payment with their bank.
+ */
+
+import {
+    Body,
+    Container,
+    Head,
+    Heading,
+    Html,
+    Link,
+    Preview,
+    Section,
+    Text,
+    Hr,
+    Row,
+    Column,
+} from '@react-email/components';
+
+export interface DisputeAlertProps {
+    orderNumber: string | null;
+    customerName: string | null;
+    customerEmail: string | null;
+    amount: number;
+    reason: string;
+    evidenceDueBy: string | null;
+    adminUrl: string | null;
+    stripeUrl: string;
+}
+
+/**
+ * DisputeAlert Email Component
+ *
+ * Renders the disputed amount, the bank's reason and the evidence deadline,
+ * with links to the order in the admin (when the payment matched an order)
+ * and to the dispute in the Stripe dashboard, where evidence is submitted.
+ */
+export function DisputeAlert({
+    orderNumber,
+    customerName,
+    customerEmail,
+    amount,
+    reason,
+    evidenceDueBy,
+    adminUrl,
+    stripeUrl,
+}: DisputeAlertProps) {
+    const previewText = orderNumber
+        ? `Payment disputed for order ${orderNumber}`
+        : 'A payment has been disputed';
+    const fields: Array<[string, string]> = [
+        ['Order:', orderNumber ?? 'No matching order'],
+        ['Customer:', customerName ?? 'Unknown'],
+        ['Email:', customerEmail ?? 'Unknown'],
+        ['Amount:', `$${amount.toFixed(2)}`],
+        ['Reason:', reason.replace(/_/g, ' ')],
+        [
+            'Respond by:',
+            evidenceDueBy
+                ? new Date(evidenceDueBy).toLocaleDateString('en-US', {
+                      dateStyle: 'medium',
+                      timeZone: 'UTC',
+                  })
+                : 'No deadline given',
+        ],
+    ];
+
+    return (
+        <Html>
+            <Head />
+            <Preview>{previewText}</Preview>
+            <Body style={main}>
+                <Container style={container}>
+                    {/* Header */}
+                    <Section style={header}>
+                        <Heading style={h1}>⚠️ Payment Disputed</Heading>
+                    </Section>
+
+                    {/* Main Content */}
+                    <Section style={content}>
+                        <Text style={alertText}>
+                            A customer has disputed a payment with their bank.
+                            The money is held until the dispute is decided, so
+                            submit evidence before the deadline.
+                        </Text>
+
+                        {/* Dispute Details */}
+                        <Section style={contactInfo}>
+                            <Heading as="h2" style={h2}>
+                                Dispute
+                            </Heading>
+
+                            {fields.map(([fieldLabel, fieldValue]) => (
+                                <Row key={fieldLabel} style={row}>
+                                    <Column style={labelColumn}>
+                                        <Text style={label}>{fieldLabel}</Text>
+                                    </Column>
+                                    <Column style={valueColumn}>
+                                        <Text style={value}>{fieldValue}</Text>
+                                    </Column>
+                                </Row>
+                            ))}
+                        </Section>
+
+                        <Hr style={divider} />
+
+                        <Text style={helpText}>
+                            <Link href={stripeUrl}>
+                                Respond to the dispute in Stripe
+                            </Link>
+                        </Text>
+                        {adminUrl && (
+                            <Text style={helpText}>
+                                <Link href={adminUrl}>View the order</Link>
+                            </Text>
+                        )}
+                    </Section>
+
+                    {/* Footer */}
+                    <Section style={footer}>
+                        <Text style={footerText}>
+                            This is an automated notification from Ye Olde
+                            Artoonist.
+                        </Text>
+                        <Text style={footerText}>
+                            © {new Date().getFullYear()} Ye Olde Artoonist
+                        </Text>
+                    </Section>
+                </Container>
+            </Body>
+        </Html>
+    );
+}
+
+// Styles (matching AdminNotification template patterns)
+const main = {
+    backgroundColor: '#f6f9fc',
+    fontFamily:
+        '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+    backgroundColor: '#ffffff',
+    margin: '0 auto',
+    padding: '20px 0 48px',
+    marginBottom: '64px',
+    maxWidth: '600px',
+};
+
+const header = {
+    padding: '32px 24px',
+    textAlign: 'center' as const,
+    backgroundColor: '#fef2f2',
+    borderBottom: '3px solid #ef4444',
+};
+
+const content = {
+    padding: '0 24px',
+};
+
+const h1 = {
+    color: '#b91c1c',
+    fontSize: '28px',
+    fontWeight: 'bold',
+    margin: '0',
+    padding: '0',
+};
+
+const h2 = {
+    color: '#1a1a1a',
+    fontSize: '18px',
+    fontWeight: 'bold',
+    margin: '24px 0 12px',
+    padding: '0',
+};
+
+const alertText = {
+    color: '#b91c1c',
+    fontSize: '16px',
+    fontWeight: '600',
+    lineHeight: '24px',
+    margin: '24px 0',
+    textAlign: 'center' as const,
+};
+
+const contactInfo = {
+    backgroundColor: '#f9fafb',
+    borderRadius: '8px',
+    padding: '16px',
+    margin: '16px 0',
+};
+
+const row = {
+    marginBottom: '8px',
+};
+
+const labelColumn = {
+    width: '30%',
+    paddingRight: '8px',
+};
+
+const valueColumn = {
+    width: '70%',
+};
+
+const label = {
+    color: '#737373',
+    fontSize: '14px',
+    fontWeight: '600',
+    margin: '0',
+};
+
+const value = {
+    color: '#1a1a1a',
+    fontSize: '14px',
+    margin: '0',
+};
+
+const divider = {
+    borderColor: '#e5e7eb',
+    margin: '24px 0',
+};
+
+const helpText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const footer = {
+    borderTop: '1px solid #e5e7eb',
+    margin: '32px 24px 0',
+    padding: '24px 0 0',
+    textAlign: 'center' as const,
+};
+
+const footerText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '4px 0',
+};
+
+export default DisputeAlert;
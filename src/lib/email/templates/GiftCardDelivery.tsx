@@ -0,0 +1,232 @@
+/**
+ * Gift Card Delivery Email Template
+ *
+ * React Email component for gift card emails.
+ * Sent to the recipient on the delivery date the buyer chose.
+ */
+
+import {
+    Body,
+    Container,
+    Head,
+    Heading,
+    Html,
+    Img,
+    Link,
+    Preview,
+    Section,
+    Text,
+} from '@react-email/components';
+
+export interface GiftCardDeliveryProps {
+    recipientName: string;
+    senderName: string;
+    amount: number;
+    code: string;
+    message?: string | null;
+    siteUrl: string;
+}
+
+/**
+ * GiftCardDelivery Email Component
+ *
+ * Renders the gift card amount and code, the buyer's message (if any) and a
+ * link to the Shoppe, with a note on redeeming the code in the cart.
+ */
+export function GiftCardDelivery({
+    recipientName,
+    senderName,
+    amount,
+    code,
+    message,
+    siteUrl,
+}: GiftCardDeliveryProps) {
+    const previewText = `${senderName} sent you a $${amount.toFixed(2)} Ye Olde Artoonist gift card`;
+
+    return (
+        <Html>
+            <Head />
+            <Preview>{previewText}</Preview>
+            <Body style={main}>
+                <Container style={container}>
+                    {/* Header with Logo */}
+                    <Section style={header}>
+                        <Img
+                            src={`${siteUrl}/images/header-footer/logo.png`}
+                            alt="Ye Olde Artoonist"
+                            width="300"
+                            height="190"
+                            style={logo}
+                        />
+                    </Section>
+
+                    {/* Main Content */}
+                    <Section style={content}>
+                        <Heading style={h1}>
+                            You&apos;ve Got a Gift Card
+                        </Heading>
+                        <Text style={text}>
+                            Hi {recipientName}, {senderName} sent you a gift
+                            card for the Ye Olde Artoonist Shoppe.
+                        </Text>
+
+                        {message && (
+                            <Text style={messageText}>
+                                &ldquo;{message}&rdquo;
+                            </Text>
+                        )}
+
+                        <Section style={cardSection}>
+                            <Text style={amountText}>
+                                {`$${amount.toFixed(2)}`}
+                            </Text>
+                            <Text style={codeLabel}>Gift card code</Text>
+                            <Text style={codeText}>{code}</Text>
+                        </Section>
+
+                        <Text style={text}>
+                            Enter the code in your cart to pay with your gift
+                            card. Anything you don&apos;t spend stays on the
+                            card for next time.
+                        </Text>
+
+                        <Section style={buttonSection}>
+                            <Link href={`${siteUrl}/shoppe`} style={button}>
+                                Visit the Shoppe
+                            </Link>
+                        </Section>
+                    </Section>
+
+                    {/* Footer */}
+                    <Section style={footer}>
+                        <Text style={footerText}>
+                            Keep this email safe: anyone with the code can spend
+                            the balance.
+                        </Text>
+                        <Text style={footerText}>
+                            © {new Date().getFullYear()} Ye Olde Artoonist. All
+                            rights reserved.
+                        </Text>
+                    </Section>
+                </Container>
+            </Body>
+        </Html>
+    );
+}
+
+// Styles (matching OrderConfirmation template patterns)
+const main = {
+    backgroundColor: '#f6f9fc',
+    fontFamily:
+        '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+    backgroundColor: '#ffffff',
+    margin: '0 auto',
+    padding: '20px 0 48px',
+    marginBottom: '64px',
+    maxWidth: '600px',
+};
+
+const header = {
+    padding: '32px 24px',
+    textAlign: 'center' as const,
+    backgroundColor: '#f8f9fa',
+};
+
+const logo = {
+    margin: '0 auto',
+};
+
+const content = {
+    padding: '0 24px',
+};
+
+const h1 = {
+    color: '#1a1a1a',
+    fontSize: '32px',
+    fontWeight: 'bold',
+    margin: '32px 0 16px',
+    padding: '0',
+    textAlign: 'center' as const,
+};
+
+const text = {
+    color: '#525252',
+    fontSize: '16px',
+    lineHeight: '24px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const messageText = {
+    ...text,
+    fontStyle: 'italic',
+};
+
+const cardSection = {
+    backgroundColor: '#f8f9fa',
+    border: '2px dashed #d1d5db',
+    borderRadius: '8px',
+    margin: '24px 0',
+    padding: '24px',
+    textAlign: 'center' as const,
+};
+
+const amountText = {
+    color: '#1a1a1a',
+    fontSize: '36px',
+    fontWeight: 'bold',
+    margin: '0 0 16px',
+};
+
+const codeLabel = {
+    color: '#737373',
+    fontSize: '12px',
+    letterSpacing: '1px',
+    margin: '0',
+    textTransform: 'uppercase' as const,
+};
+
+const codeText = {
+    color: '#1a1a1a',
+    fontFamily: 'monospace',
+    fontSize: '22px',
+    fontWeight: 'bold',
+    letterSpacing: '2px',
+    margin: '4px 0 0',
+};
+
+const buttonSection = {
+    margin: '32px 0',
+    textAlign: 'center' as const,
+};
+
+const button = {
+    backgroundColor: '#2563eb',
+    borderRadius: '6px',
+    color: '#ffffff',
+    display: 'inline-block',
+    fontSize: '16px',
+    fontWeight: '600',
+    padding: '12px 24px',
+    textDecoration: 'none',
+    textAlign: 'center' as const,
+};
+
+const footer = {
+    borderTop: '1px solid #e5e7eb',
+    margin: '32px 24px 0',
+    padding: '24px 0 0',
+    textAlign: 'center' as const,
+};
+
+const footerText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '4px 0',
+};
+
+export default GiftCardDelivery;
@@ -20,6 +20,8 @@ import {
     Row,
     Column,
 } from '@react-email/components';
+import { formatExpectedShipDate } from '@/lib/cart/preorders';
+import { formatEditionNumbers, getCertificatePath } from '@/lib/utils/editions';
 import type { Order } from '@/types/order';
 
 interface OrderConfirmationProps {
@@ -78,6 +80,14 @@ export function OrderConfirmation({ order, siteUrl }: OrderConfirmationProps) {
                                     }
                                 )}
                             </Text>
+                            {order.isPreorder && (
+                                <Text style={label}>
+                                    <strong>Pre-order:</strong> Expected to ship{' '}
+                                    {formatExpectedShipDate(
+                                        order.expectedShipDate ?? null
+                                    )}
+                                </Text>
+                            )}
                         </Section>
 
                         <Hr style={divider} />
@@ -92,11 +102,36 @@ export function OrderConfirmation({ order, siteUrl }: OrderConfirmationProps) {
                                     <Column style={{ width: '70%' }}>
                                         <Text style={itemTitle}>
                                             {item.title || 'Artwork'}
+                                            {item.variantName &&
+                                                ` (${item.variantName})`}
                                         </Text>
                                         <Text style={itemDetails}>
                                             Quantity: {item.quantity} × $
                                             {item.priceAtPurchase.toFixed(2)}
                                         </Text>
+                                        {item.editionNumberStart &&
+                                            item.editionSize && (
+                                                <Text style={itemDetails}>
+                                                    Edition{' '}
+                                                    {formatEditionNumbers(
+                                                        item.editionNumberStart,
+                                                        item.quantity,
+                                                        item.editionSize
+                                                    )}
+                                                    {item.certificateToken && (
+                                                        <>
+                                                            {' · '}
+                                                            <Link
+                                                                href={`${siteUrl}${getCertificatePath(item.certificateToken)}`}
+                                                                style={link}
+                                                            >
+                                                                Certificate of
+                                                                authenticity
+                                                            </Link>
+                                                        </>
+                                                    )}
+                                                </Text>
+                                            )}
                                     </Column>
                                     <Column
                                         style={{
@@ -128,6 +163,48 @@ export function OrderConfirmation({ order, siteUrl }: OrderConfirmationProps) {
                                     </Text>
                                 </Column>
                             </Row>
+                            {order.discountAmount ? (
+                                <Row>
+                                    <Column style={{ width: '70%' }}>
+                                        <Text style={totalLabel}>
+                                            Discount
+                                            {order.couponCode
+                                                ? ` (${order.couponCode})`
+                                                : ''}
+                                            :
+                                        </Text>
+                                    </Column>
+                                    <Column
+                                        style={{
+                                            width: '30%',
+                                            textAlign: 'right',
+                                        }}
+                                    >
+                                        <Text style={totalValue}>
+                                            -${order.discountAmount.toFixed(2)}
+                                        </Text>
+                                    </Column>
+                                </Row>
+                            ) : null}
+                            {order.giftCardAmount ? (
+                                <Row>
+                                    <Column style={{ width: '70%' }}>
+                                        <Text style={totalLabel}>
+                                            Gift card:
+                                        </Text>
+                                    </Column>
+                                    <Column
+                                        style={{
+                                            width: '30%',
+                                            textAlign: 'right',
+                                        }}
+                                    >
+                                        <Text style={totalValue}>
+                                            {`-$${order.giftCardAmount.toFixed(2)}`}
+                                        </Text>
+                                    </Column>
+                                </Row>
+                            ) : null}
                             <Row>
                                 <Column style={{ width: '70%' }}>
                                     <Text style={totalLabel}>Shipping:</Text>
@@ -209,6 +286,17 @@ export function OrderConfirmation({ order, siteUrl }: OrderConfirmationProps) {
                             information once your order ships.
                         </Text>
 
+                        <Text style={text}>
+                            You can check on your order anytime at{' '}
+                            <Link
+                                href={`${siteUrl}/shoppe/order-status`}
+                                style={link}
+                            >
+                                {`${siteUrl}/shoppe/order-status`}
+                            </Link>{' '}
+                            with your order number and this email address.
+                        </Text>
+
                         <Text style={text}>
                             If you have any questions about your order, please
                             contact us.
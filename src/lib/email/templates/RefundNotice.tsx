@@ -0,0 +1,241 @@
+/**
+ * Refund Notice Email Template
+ *
+ * React Email component for refund emails.
+ * Sent to the customer when an admin refunds all or part of an order.
+ */
+
+import {
+    Body,
+    Container,
+    Head,
+    Heading,
+    Html,
+    Img,
+    Link,
+    Preview,
+    Section,
+    Text,
+} from '@react-email/components';
+
+export interface RefundNoticeProps {
+    customerName: string;
+    orderNumber: string;
+    amount: number;
+    fullRefund: boolean;
+    items: { title: string; quantity: number }[];
+    siteUrl: string;
+}
+
+/**
+ * RefundNotice Email Component
+ *
+ * Renders the refunded amount, the items it covers (if any) and when the
+ * money should reach the customer, with a link to the order status page.
+ */
+export function RefundNotice({
+    customerName,
+    orderNumber,
+    amount,
+    fullRefund,
+    items,
+    siteUrl,
+}: RefundNoticeProps) {
+    const previewText = `We've refunded $${amount.toFixed(2)} for order ${orderNumber}`;
+
+    return (
+        <Html>
+            <Head />
+            <Preview>{previewText}</Preview>
+            <Body style={main}>
+                <Container style={container}>
+                    {/* Header with Logo */}
+                    <Section style={header}>
+                        <Img
+                            src={`${siteUrl}/images/header-footer/logo.png`}
+                            alt="Ye Olde Artoonist"
+                            width="300"
+                            height="190"
+                            style={logo}
+                        />
+                    </Section>
+
+                    {/* Main Content */}
+                    <Section style={content}>
+                        <Heading style={h1}>
+                            {fullRefund ? 'Order Refunded' : 'Partial Refund'}
+                        </Heading>
+                        <Text style={text}>
+                            Hi {customerName}, we&apos;ve refunded{' '}
+                            {fullRefund ? 'your order' : 'part of your order'}{' '}
+                            <strong>{orderNumber}</strong>.
+                        </Text>
+
+                        <Section style={refundSection}>
+                            <Text style={amountText}>
+                                {`$${amount.toFixed(2)}`}
+                            </Text>
+                            <Text style={amountLabel}>Refund amount</Text>
+                        </Section>
+
+                        {items.length > 0 && (
+                            <Section>
+                                <Text style={itemsHeading}>Refunded items</Text>
+                                {items.map((item, index) => (
+                                    <Text key={index} style={itemText}>
+                                        {item.quantity} &times; {item.title}
+                                    </Text>
+                                ))}
+                            </Section>
+                        )}
+
+                        <Text style={text}>
+                            The refund goes back to your original payment
+                            method. Depending on your bank it can take 5-10
+                            business days to appear on your statement.
+                        </Text>
+
+                        <Section style={buttonSection}>
+                            <Link
+                                href={`${siteUrl}/shoppe/order-status`}
+                                style={button}
+                            >
+                                Check Order Status
+                            </Link>
+                        </Section>
+                    </Section>
+
+                    {/* Footer */}
+                    <Section style={footer}>
+                        <Text style={footerText}>
+                            Questions about your refund? Just reply to this
+                            email.
+                        </Text>
+                        <Text style={footerText}>
+                            © {new Date().getFullYear()} Ye Olde Artoonist. All
+                            rights reserved.
+                        </Text>
+                    </Section>
+                </Container>
+            </Body>
+        </Html>
+    );
+}
+
+// Styles (matching OrderConfirmation template patterns)
+const main = {
+    backgroundColor: '#f6f9fc',
+    fontFamily:
+        '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+    backgroundColor: '#ffffff',
+    margin: '0 auto',
+    padding: '20px 0 48px',
+    marginBottom: '64px',
+    maxWidth: '600px',
+};
+
+const header = {
+    padding: '32px 24px',
+    textAlign: 'center' as const,
+    backgroundColor: '#f8f9fa',
+};
+
+const logo = {
+    margin: '0 auto',
+};
+
+const content = {
+    padding: '0 24px',
+};
+
+const h1 = {
+    color: '#1a1a1a',
+    fontSize: '32px',
+    fontWeight: 'bold',
+    margin: '32px 0 16px',
+    padding: '0',
+    textAlign: 'center' as const,
+};
+
+const text = {
+    color: '#525252',
+    fontSize: '16px',
+    lineHeight: '24px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const refundSection = {
+    backgroundColor: '#f8f9fa',
+    borderRadius: '8px',
+    margin: '24px 0',
+    padding: '24px',
+    textAlign: 'center' as const,
+};
+
+const amountText = {
+    color: '#1a1a1a',
+    fontSize: '36px',
+    fontWeight: 'bold',
+    margin: '0 0 8px',
+};
+
+const amountLabel = {
+    color: '#737373',
+    fontSize: '12px',
+    letterSpacing: '1px',
+    margin: '0',
+    textTransform: 'uppercase' as const,
+};
+
+const itemsHeading = {
+    color: '#1a1a1a',
+    fontSize: '16px',
+    fontWeight: '600',
+    margin: '16px 0 8px',
+    textAlign: 'center' as const,
+};
+
+const itemText = {
+    color: '#525252',
+    fontSize: '14px',
+    lineHeight: '20px',
+    margin: '4px 0',
+    textAlign: 'center' as const,
+};
+
+const buttonSection = {
+    margin: '32px 0',
+    textAlign: 'center' as const,
+};
+
+const button = {
+    backgroundColor: '#2563eb',
+    borderRadius: '6px',
+    color: '#ffffff',
+    display: 'inline-block',
+    fontSize: '16px',
+    fontWeight: '600',
+    padding: '12px 24px',
+    textDecoration: 'none',
+    textAlign: 'center' as const,
+};
+
+const footer = {
+    borderTop: '1px solid #e5e7eb',
+    margin: '32px 24px 0',
+    padding: '24px 0 0',
+    textAlign: 'center' as const,
+};
+
+const footerText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '4px 0',
+};
+
+export default RefundNotice;
@@ -0,0 +1,281 @@
+/**
+ * Shipping Notification Email Template
+ *
+ * React Email component for shipping emails.
+ * Sent to the customer when an admin marks their order as shipped.
+ */
+
+import {
+    Body,
+    Container,
+    Head,
+    Heading,
+    Html,
+    Img,
+    Link,
+    Preview,
+    Section,
+    Text,
+} from '@react-email/components';
+
+export interface ShippingNotificationPackage {
+    trackingNumber: string;
+    carrierName: string | null;
+    trackingUrl: string | null;
+}
+
+export interface ShippingNotificationProps {
+    customerName: string;
+    orderNumber: string;
+    packages: ShippingNotificationPackage[];
+    shippingAddress: {
+        line1: string;
+        line2: string | null;
+        city: string;
+        state: string;
+        zip: string;
+        country: string;
+    };
+    siteUrl: string;
+}
+
+/**
+ * ShippingNotification Email Component
+ *
+ * Renders each package's tracking number (linked to the carrier's tracking
+ * page when the carrier is known) and where the order is going. The button
+ * tracks the package when there's exactly one, otherwise it links to the
+ * order status page.
+ */
+export function ShippingNotification({
+    customerName,
+    orderNumber,
+    packages,
+    shippingAddress,
+    siteUrl,
+}: ShippingNotificationProps) {
+    const previewText = `Order ${orderNumber} is on its way`;
+    const trackingUrl = packages.length === 1 ? packages[0].trackingUrl : null;
+
+    return (
+        <Html>
+            <Head />
+            <Preview>{previewText}</Preview>
+            <Body style={main}>
+                <Container style={container}>
+                    {/* Header with Logo */}
+                    <Section style={header}>
+                        <Img
+                            src={`${siteUrl}/images/header-footer/logo.png`}
+                            alt="Ye Olde Artoonist"
+                            width="300"
+                            height="190"
+                            style={logo}
+                        />
+                    </Section>
+
+                    {/* Main Content */}
+                    <Section style={content}>
+                        <Heading style={h1}>Your Order Has Shipped</Heading>
+                        <Text style={text}>
+                            Hi {customerName}, good news: order{' '}
+                            <strong>{orderNumber}</strong> is on its way.
+                        </Text>
+
+                        {packages.length > 1 && (
+                            <Text style={text}>
+                                It&apos;s coming in {packages.length} packages.
+                            </Text>
+                        )}
+
+                        {packages.map((pkg) => (
+                            <Section
+                                key={pkg.trackingNumber}
+                                style={trackingSection}
+                            >
+                                <Text style={trackingNumberText}>
+                                    {pkg.trackingUrl ? (
+                                        <Link href={pkg.trackingUrl}>
+                                            {pkg.trackingNumber}
+                                        </Link>
+                                    ) : (
+                                        pkg.trackingNumber
+                                    )}
+                                </Text>
+                                <Text style={trackingLabel}>
+                                    {pkg.carrierName
+                                        ? `${pkg.carrierName} tracking number`
+                                        : 'Tracking number'}
+                                </Text>
+                            </Section>
+                        ))}
+
+                        <Section>
+                            <Text style={addressHeading}>Shipping to</Text>
+                            <Text style={address}>
+                                {customerName}
+                                <br />
+                                {shippingAddress.line1}
+                                <br />
+                                {shippingAddress.line2 && (
+                                    <>
+                                        {shippingAddress.line2}
+                                        <br />
+                                    </>
+                                )}
+                                {shippingAddress.city}, {shippingAddress.state}{' '}
+                                {shippingAddress.zip}
+                                <br />
+                                {shippingAddress.country}
+                            </Text>
+                        </Section>
+
+                        <Section style={buttonSection}>
+                            <Link
+                                href={
+                                    trackingUrl ??
+                                    `${siteUrl}/shoppe/order-status`
+                                }
+                                style={button}
+                            >
+                                {trackingUrl
+                                    ? 'Track Your Package'
+                                    : 'Check Order Status'}
+                            </Link>
+                        </Section>
+                    </Section>
+
+                    {/* Footer */}
+                    <Section style={footer}>
+                        <Text style={footerText}>
+                            Questions about your order? Just reply to this
+                            email.
+                        </Text>
+                        <Text style={footerText}>
+                            © {new Date().getFullYear()} Ye Olde Artoonist. All
+                            rights reserved.
+                        </Text>
+                    </Section>
+                </Container>
+            </Body>
+        </Html>
+    );
+}
+
+// Styles (matching OrderConfirmation template patterns)
+const main = {
+    backgroundColor: '#f6f9fc',
+    fontFamily:
+        '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+    backgroundColor: '#ffffff',
+    margin: '0 auto',
+    padding: '20px 0 48px',
+    marginBottom: '64px',
+    maxWidth: '600px',
+};
+
+const header = {
+    padding: '32px 24px',
+    textAlign: 'center' as const,
+    backgroundColor: '#f8f9fa',
+};
+
+const logo = {
+    margin: '0 auto',
+};
+
+const content = {
+    padding: '0 24px',
+};
+
+const h1 = {
+    color: '#1a1a1a',
+    fontSize: '32px',
+    fontWeight: 'bold',
+    margin: '32px 0 16px',
+    padding: '0',
+    textAlign: 'center' as const,
+};
+
+const text = {
+    color: '#525252',
+    fontSize: '16px',
+    lineHeight: '24px',
+    margin: '16px 0',
+    textAlign: 'center' as const,
+};
+
+const trackingSection = {
+    backgroundColor: '#f8f9fa',
+    borderRadius: '8px',
+    margin: '24px 0',
+    padding: '24px',
+    textAlign: 'center' as const,
+};
+
+const trackingNumberText = {
+    color: '#1a1a1a',
+    fontSize: '20px',
+    fontWeight: 'bold',
+    margin: '0 0 8px',
+};
+
+const trackingLabel = {
+    color: '#737373',
+    fontSize: '12px',
+    letterSpacing: '1px',
+    margin: '0',
+    textTransform: 'uppercase' as const,
+};
+
+const addressHeading = {
+    color: '#1a1a1a',
+    fontSize: '16px',
+    fontWeight: '600',
+    margin: '16px 0 8px',
+    textAlign: 'center' as const,
+};
+
+const address = {
+    color: '#525252',
+    fontSize: '14px',
+    lineHeight: '20px',
+    margin: '0',
+    textAlign: 'center' as const,
+};
+
+const buttonSection = {
+    margin: '32px 0',
+    textAlign: 'center' as const,
+};
+
+const button = {
+    backgroundColor: '#2563eb',
+    borderRadius: '6px',
+    color: '#ffffff',
+    display: 'inline-block',
+    fontSize: '16px',
+    fontWeight: '600',
+    padding: '12px 24px',
+    textDecoration: 'none',
+    textAlign: 'center' as const,
+};
+
+const footer = {
+    borderTop: '1px solid #e5e7eb',
+    margin: '32px 24px 0',
+    padding: '24px 0 0',
+    textAlign: 'center' as const,
+};
+
+const footerText = {
+    color: '#737373',
+    fontSize: '12px',
+    lineHeight: '16px',
+    margin: '4px 0',
+};
+
+export default ShippingNotification;
@@ -0,0 +1,929 @@
+/**
+ * Stripe Event Processing
+ *
+ * Acts on verified Stripe webhook events. Called by the Stripe webhook for
+ * each new event, and by the admin when a failed event is replayed.
+ *
+ * Processes checkout.session.completed events to create orders (or record
+ * commission quote payments, or issue purchased gift cards), and settles the
+ * session's inventory and gift card holds when it completes or expires.
+ * Keeps orders' payment status in step with failed payments, refunds issued
+ * from the Stripe dashboard and chargebacks.
+ */
+
+import { revalidatePath } from 'next/cache';
+import {
+    capturePayment,
+    generateOrderNumber,
+    listRefunds,
+} from '@/lib/payments/stripe';
+import {
+    createOrder,
+    getOrderByPaymentIntent,
+    recordOrderDispute,
+    updateOrderPaymentStatus,
+    type OrderPaymentRow,
+} from '@/lib/db/orders';
+import { recordOrderRefund } from '@/lib/db/admin/orders';
+import { releaseCouponHolds } from '@/lib/db/coupons';
+import {
+    getCheckoutItems,
+    releaseInventoryHolds,
+    type CheckoutItem,
+} from '@/lib/db/inventory-holds';
+import {
+    getCommissionByPaymentLink,
+    recordCommissionPayment,
+} from '@/lib/db/commissions';
+import {
+    issueGiftCard,
+    markGiftCardDelivered,
+    redeemGiftCardHolds,
+    releaseGiftCardHolds,
+} from '@/lib/db/gift-cards';
+import {
+    GIFT_CARD_PURCHASE_TYPE,
+    getTodayDate,
+} from '@/lib/validation/gift-cards';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import {
+    sendDisputeAlertEmail,
+    sendGiftCardEmail,
+    sendOrderEmails,
+} from '@/lib/email/send';
+import type Stripe from 'stripe';
+import type { Address } from '@/types/order';
+import { logError, logInfo } from '@/lib/errors/logger';
+
+/**
+ * Helper function to extract address from Stripe address object
+ */
+function extractAddress(address: Stripe.Address | null | undefined): Address {
+    return {
+        line1: address?.line1 || '',
+        line2: address?.line2 || undefined,
+        city: address?.city || '',
+        state: address?.state || '',
+        zip: address?.postal_code || '',
+        country: address?.country || 'US',
+    };
+}
+
+/**
+ * Releases the inventory held for a Checkout session (no-op when the session
+ * has no reservation or it was already released)
+ */
+async function releaseSessionHolds(session: Stripe.Checkout.Session) {
+    const reservationId = session.metadata?.reservationId;
+    if (!reservationId) {
+        return;
+    }
+
+    const { error } = await releaseInventoryHolds(reservationId);
+    if (error) {
+        logError(error, {
+            location: 'api/checkout/webhook',
+            action: 'releaseInventoryHolds',
+            metadata: { sessionId: session.id, reservationId },
+        });
+        return;
+    }
+
+    // Stock shown in the shoppe no longer subtracts these holds
+    revalidatePath('/shoppe');
+    revalidatePath('/shoppe/[slug]', 'page');
+}
+
+/**
+ * Releases the coupon use held for a session (no-op when no coupon was
+ * applied). A paid session's order has counted the use by then.
+ */
+async function releaseSessionCoupon(session: Stripe.Checkout.Session) {
+    const reservationId = session.metadata?.reservationId;
+    if (!reservationId || !session.metadata?.couponId) {
+        return;
+    }
+
+    const { error } = await releaseCouponHolds(reservationId);
+    if (error) {
+        logError(error, {
+            location: 'api/checkout/webhook',
+            action: 'releaseCouponHolds',
+            metadata: { sessionId: session.id, reservationId },
+        });
+    }
+}
+
+/**
+ * Get the cart lines a paid session is for, recorded on its reservation.
+ * Sessions created before the lines were recorded carry them in their
+ * metadata instead.
+ *
+ * @throws when the lines couldn't be loaded (the event should be replayed)
+ */
+async function getSessionItems(
+    session: Stripe.Checkout.Session
+): Promise<CheckoutItem[]> {
+    const reservationId = session.metadata?.reservationId;
+    if (reservationId) {
+        const { data, error } = await getCheckoutItems(reservationId);
+        if (error) {
+            throw new Error(`Failed to load checkout items: ${error.message}`);
+        }
+        if (data && data.length > 0) {
+            return data;
+        }
+    }
+
+    return JSON.parse(session.metadata?.cartItems || '[]');
+}
+
+/**
+ * Debits the gift card balances a paid session held, recording the
+ * redemptions against its order (no-op when no gift cards were used)
+ */
+async function redeemSessionGiftCards(
+    session: Stripe.Checkout.Session,
+    orderId: string | null
+) {
+    const reservationId = session.metadata?.reservationId;
+    if (!reservationId || !session.metadata?.giftCardAmount) {
+        return;
+    }
+
+    const { error } = await redeemGiftCardHolds(reservationId, orderId);
+    if (error) {
+        logError(error, {
+            location: 'api/checkout/webhook',
+            action: 'redeemGiftCardHolds',
+            metadata: { sessionId: session.id, reservationId, orderId },
+        });
+    }
+}
+
+/**
+ * Releases the gift card balances held for an unpaid session (no-op when no
+ * gift cards were used)
+ */
+async function releaseSessionGiftCards(session: Stripe.Checkout.Session) {
+    const reservationId = session.metadata?.reservationId;
+    if (!reservationId || !session.metadata?.giftCardAmount) {
+        return;
+    }
+
+    const { error } = await releaseGiftCardHolds(reservationId);
+    if (error) {
+        logError(error, {
+            location: 'api/checkout/webhook',
+            action: 'releaseGiftCardHolds',
+            metadata: { sessionId: session.id, reservationId },
+        });
+    }
+}
+
+/**
+ * Issues a gift card bought in the Shoppe, and emails its code straight away
+ * when it's due today (later deliveries are sent by the delivery cron).
+ *
+ * @returns false when the session isn't a gift card purchase (it's a shoppe
+ *          checkout and should create an order)
+ */
+async function handleGiftCardPurchase(
+    session: Stripe.Checkout.Session
+): Promise<boolean> {
+    const metadata = session.metadata;
+    if (metadata?.purchaseType !== GIFT_CARD_PURCHASE_TYPE) {
+        return false;
+    }
+
+    const { data: giftCard, error } = await issueGiftCard({
+        initial_amount: metadata.giftCardAmount,
+        purchaser_name: metadata.senderName,
+        purchaser_email:
+            session.customer_email || session.customer_details?.email || '',
+        recipient_name: metadata.recipientName,
+        recipient_email: metadata.recipientEmail,
+        message: metadata.message || null,
+        deliver_on: metadata.deliverOn,
+        stripe_checkout_session_id: session.id,
+        payment_intent_id: (session.payment_intent as string) || null,
+    });
+
+    if (error) {
+        throw new Error(`Failed to issue gift card: ${error.message}`);
+    }
+
+    if (!giftCard) {
+        logInfo('Gift card already issued for session', {
+            location: 'api/checkout/webhook',
+            action: 'issueGiftCard',
+            metadata: { sessionId: session.id },
+        });
+        return true;
+    }
+
+    logInfo('Gift card issued', {
+        location: 'api/checkout/webhook',
+        action: 'issueGiftCard',
+        metadata: { sessionId: session.id, giftCardId: giftCard.id },
+    });
+
+    revalidatePath('/admin/gift-cards');
+
+    if (giftCard.deliver_on > getTodayDate()) {
+        return true;
+    }
+
+    const emailResult = await sendGiftCardEmail(giftCard);
+    if (!emailResult.success) {
+        // Still undelivered, so the delivery cron retries it
+        logError(
+            emailResult.error || new Error('Failed to send gift card email'),
+            {
+                location: 'api/checkout/webhook',
+                action: 'sendGiftCardEmail',
+                metadata: { giftCardId: giftCard.id },
+            }
+        );
+        return true;
+    }
+
+    const { error: markError } = await markGiftCardDelivered(giftCard.id);
+    if (markError) {
+        logError(markError, {
+            location: 'api/checkout/webhook',
+            action: 'markGiftCardDelivered',
+            metadata: { giftCardId: giftCard.id },
+        });
+    }
+
+    return true;
+}
+
+/**
+ * Records a commission deposit or balance paid through one of the quote's
+ * Payment Links.
+ *
+ * @returns false when the session didn't come from a commission payment link
+ *          (it's a shoppe checkout and should create an order)
+ */
+async function handleCommissionPayment(
+    session: Stripe.Checkout.Session
+): Promise<boolean> {
+    if (!session.payment_link) {
+        return false;
+    }
+
+    const paymentLinkId =
+        typeof session.payment_link === 'string'
+            ? session.payment_link
+            : session.payment_link.id;
+
+    const { data: match, error } =
+        await getCommissionByPaymentLink(paymentLinkId);
+
+    if (error) {
+        // Don't fall through to order creation for a payment link session
+        throw new Error(
+            `Failed to look up commission for payment link ${paymentLinkId}: ${error.message}`
+        );
+    }
+
+    if (!match) {
+        return false;
+    }
+
+    const { recorded, error: paymentError } = await recordCommissionPayment({
+        commissionId: match.commission.id,
+        paymentType: match.paymentType,
+        amount: (session.amount_total || 0) / 100,
+        checkoutSessionId: session.id,
+        paymentIntentId: (session.payment_intent as string) || null,
+    });
+
+    if (paymentError) {
+        throw new Error(
+            `Failed to record commission payment: ${paymentError.message}`
+        );
+    }
+
+    logInfo(
+        recorded
+            ? 'Commission payment recorded'
+            : 'Commission payment already recorded',
+        {
+            location: 'api/checkout/webhook',
+            action: 'recordCommissionPayment',
+            metadata: {
+                sessionId: session.id,
+                commissionId: match.commission.id,
+                paymentType: match.paymentType,
+            },
+        }
+    );
+
+    if (recorded) {
+        revalidatePath('/admin/commissions');
+        revalidatePath(`/admin/commissions/${match.commission.id}`);
+    }
+
+    return true;
+}
+
+/**
+ * Gets the PaymentIntent ID from a Stripe object's (possibly expanded)
+ * payment_intent field
+ */
+function getPaymentIntentId(
+    paymentIntent: string | Stripe.PaymentIntent | null
+): string | null {
+    if (!paymentIntent) {
+        return null;
+    }
+    return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+}
+
+/**
+ * Revalidates the admin pages showing an order's payment
+ */
+function revalidateOrderPages(orderId: string) {
+    revalidatePath('/admin/orders');
+    revalidatePath(`/admin/orders/${orderId}`);
+}
+
+/**
+ * Marks the order paid with a PaymentIntent as failed, if it's still waiting
+ * for payment (orders are only created once the payment succeeds, so this
+ * only catches orders stuck in 'pending')
+ */
+async function failPendingOrder(
+    paymentIntentId: string,
+    cancel: boolean,
+    action: string
+) {
+    const { updated, error } = await updateOrderPaymentStatus(
+        paymentIntentId,
+        {
+            paymentStatus: 'failed',
+            ...(cancel && { status: 'cancelled' as const }),
+        },
+        ['pending']
+    );
+
+    if (error) {
+        throw new Error(`Failed to mark order as failed: ${error.message}`);
+    }
+
+    if (updated) {
+        logInfo('Pending order marked as failed', {
+            location: 'api/checkout/webhook',
+            action,
+            metadata: { paymentIntentId },
+        });
+        revalidatePath('/admin/orders');
+    }
+}
+
+/**
+ * Finds the order paid with a PaymentIntent
+ *
+ * @returns null when the payment isn't an order's (e.g. a commission or gift
+ *          card payment)
+ */
+async function findOrderForPayment(
+    paymentIntentId: string | null
+): Promise<OrderPaymentRow | null> {
+    if (!paymentIntentId) {
+        return null;
+    }
+
+    const { data: order, error } =
+        await getOrderByPaymentIntent(paymentIntentId);
+
+    if (error) {
+        throw new Error(
+            `Failed to look up order for payment ${paymentIntentId}: ${error.message}`
+        );
+    }
+
+    return order;
+}
+
+/**
+ * Records the refunds of a charge that the order doesn't know about yet,
+ * i.e. refunds issued from the Stripe dashboard.
+ *
+ * Refunds issued from the admin order page carry the order's ID in their
+ * metadata and are recorded (with their items and restocking) by the admin
+ * action itself, so they're skipped here rather than raced.
+ */
+async function handleChargeRefunded(charge: Stripe.Charge) {
+    const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+    const order = await findOrderForPayment(paymentIntentId);
+
+    if (!paymentIntentId || !order) {
+        logInfo('Refunded charge has no order', {
+            location: 'api/checkout/webhook',
+            action: 'handleChargeRefunded',
+            metadata: { chargeId: charge.id, paymentIntentId },
+        });
+        return;
+    }
+
+    const recorded = new Set(
+        order.order_refunds.map((refund) => refund.stripe_refund_id)
+    );
+    const refunds = (await listRefunds(paymentIntentId))
+        .filter(
+            (refund) =>
+                !recorded.has(refund.id) &&
+                !refund.metadata?.orderId &&
+                refund.status !== 'failed' &&
+                refund.status !== 'canceled'
+        )
+        // Stripe lists newest first; record them in the order they were made
+        .reverse();
+    const failures: string[] = [];
+
+    for (const refund of refunds) {
+        const { error } = await recordOrderRefund(order.id, {
+            stripeRefundId: refund.id,
+            amount: refund.amount / 100,
+            reason: 'Refunded from the Stripe dashboard',
+            restock: false,
+            items: [],
+        });
+
+        if (error) {
+            failures.push(`${refund.id}: ${error.message}`);
+            continue;
+        }
+
+        logInfo('Stripe refund recorded', {
+            location: 'api/checkout/webhook',
+            action: 'recordOrderRefund',
+            metadata: {
+                orderId: order.id,
+                refundId: refund.id,
+                amount: refund.amount / 100,
+            },
+        });
+    }
+
+    if (refunds.length > 0) {
+        revalidateOrderPages(order.id);
+    }
+
+    if (failures.length > 0) {
+        throw new Error(`Failed to record refunds: ${failures.join('; ')}`);
+    }
+}
+
+/**
+ * Records a chargeback against its order, alerting the admin by email when
+ * it's opened. A lost dispute took the money back, so the order is marked
+ * refunded.
+ *
+ * The alert goes out even when the dispute can't be recorded, so a
+ * chargeback is never missed while the event waits to be replayed.
+ */
+async function handleDispute(dispute: Stripe.Dispute, opened: boolean) {
+    const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+    const amount = dispute.amount / 100;
+    const evidenceDueBy = dispute.evidence_details?.due_by
+        ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+        : null;
+    const failures: string[] = [];
+
+    let order: OrderPaymentRow | null = null;
+    try {
+        order = await findOrderForPayment(paymentIntentId);
+    } catch (err) {
+        failures.push(err instanceof Error ? err.message : 'Unknown error');
+    }
+
+    if (order) {
+        const { error } = await recordOrderDispute({
+            orderId: order.id,
+            stripeDisputeId: dispute.id,
+            amount,
+            reason: dispute.reason,
+            status: dispute.status,
+            evidenceDueBy,
+        });
+
+        if (error) {
+            failures.push(`Failed to record dispute: ${error.message}`);
+        }
+
+        if (dispute.status === 'lost' && paymentIntentId) {
+            const { error: updateError } = await updateOrderPaymentStatus(
+                paymentIntentId,
+                { paymentStatus: 'refunded' },
+                ['succeeded', 'partially_refunded']
+            );
+
+            if (updateError) {
+                failures.push(
+                    `Failed to mark order as refunded: ${updateError.message}`
+                );
+            }
+        }
+
+        revalidateOrderPages(order.id);
+    }
+
+    logInfo(opened ? 'Payment disputed' : 'Dispute closed', {
+        location: 'api/checkout/webhook',
+        action: 'handleDispute',
+        metadata: {
+            disputeId: dispute.id,
+            orderId: order?.id,
+            status: dispute.status,
+            amount,
+        },
+    });
+
+    if (opened) {
+        // Alert even when no order matched: the money is held either way
+        const emailResult = await sendDisputeAlertEmail(order, {
+            stripeDisputeId: dispute.id,
+            amount,
+            reason: dispute.reason,
+            evidenceDueBy,
+            livemode: dispute.livemode,
+        });
+
+        if (!emailResult.success) {
+            logError(
+                emailResult.error ||
+                    new Error('Failed to send dispute alert email'),
+                {
+                    location: 'api/checkout/webhook',
+                    action: 'sendDisputeAlertEmail',
+                    metadata: { disputeId: dispute.id, orderId: order?.id },
+                }
+            );
+        }
+    }
+
+    if (failures.length > 0) {
+        throw new Error(failures.join('; '));
+    }
+}
+
+/**
+ * Processes a verified Stripe event.
+ *
+ * Events handled:
+ * - checkout.session.completed: Creates order from Stripe Checkout session (authoritative),
+ *   releases its inventory holds (the order's payment decrements stock) and
+ *   redeems its gift card holds, capturing the part of the payment they
+ *   don't cover. Sessions from commission quote payment
+ *   links record a commission payment instead, and gift card purchases issue
+ *   the card
+ * - checkout.session.expired: Releases the session's inventory, coupon and gift card holds,
+ *   and fails and cancels any order still pending on its payment
+ * - payment_intent.succeeded: Logs payment success (order creation handled by session.completed)
+ * - payment_intent.payment_failed: Logs failed payment and fails any order
+ *   still pending on it
+ * - charge.refunded: Records refunds issued from the Stripe dashboard against
+ *   the order, moving it to refunded / partially refunded
+ * - charge.dispute.created: Records the chargeback on the order and emails the admin
+ * - charge.dispute.closed: Records the outcome; a lost dispute marks the order refunded
+ *
+ * Whatever an event records is keyed on Stripe IDs (the session, refund or
+ * dispute), so a failed event can be processed again without duplicating
+ * what its first attempt managed to record.
+ *
+ * @throws when the event couldn't be fully processed (the order, refund,
+ *         dispute, etc. wasn't recorded). Failures that a replay wouldn't
+ *         fix, such as emails and releasing holds, are logged instead.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+        case 'payment_intent.succeeded': {
+            const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+            // Log payment success for monitoring and debugging
+            // NOTE: Order creation is handled exclusively by checkout.session.completed event
+            // to prevent duplicate orders from concurrent webhook processing
+            logInfo(
+                'Payment succeeded (order created via checkout.session.completed)',
+                {
+                    location: 'api/checkout/webhook',
+                    action: 'handlePaymentIntentSucceeded',
+                    metadata: {
+                        paymentIntentId: paymentIntent.id,
+                        amount: paymentIntent.amount / 100,
+                        customer: paymentIntent.metadata.customerEmail,
+                    },
+                }
+            );
+
+            break;
+        }
+
+        case 'checkout.session.completed': {
+            const session = event.data.object as Stripe.Checkout.Session & {
+                shipping_details?: {
+                    name?: string;
+                    address?: Stripe.Address;
+                };
+            };
+
+            logInfo('Checkout session completed', {
+                location: 'api/checkout/webhook',
+                action: 'handleCheckoutSessionCompleted',
+                metadata: {
+                    sessionId: session.id,
+                    amount: session.amount_total,
+                    customer: session.customer_email,
+                },
+            });
+
+            // Commission deposits and balances aren't shoppe orders
+            if (await handleCommissionPayment(session)) {
+                break;
+            }
+
+            // Neither are gift card purchases
+            if (await handleGiftCardPurchase(session)) {
+                break;
+            }
+
+            // Check for duplicate order using payment_intent_id
+            const supabase = await createServiceRoleClient();
+            const { data: existingOrder } = await supabase
+                .from('orders')
+                .select('id')
+                .eq('payment_intent_id', session.payment_intent as string)
+                .maybeSingle(); // Use maybeSingle to avoid errors when no order exists
+
+            if (existingOrder) {
+                logInfo('Order already exists for session', {
+                    location: 'api/checkout/webhook',
+                    action: 'checkDuplicateOrder',
+                    metadata: { sessionId: session.id },
+                });
+                break;
+            }
+
+            const cartItems = await getSessionItems(session);
+
+            // Extract tax from session
+            const taxAmountCents = session.total_details?.amount_tax || 0;
+            const taxAmount = taxAmountCents / 100;
+
+            // Extract shipping cost from session
+            const shippingCostCents =
+                session.total_details?.amount_shipping || 0;
+            const shippingCost = shippingCostCents / 100;
+
+            // Extract coupon discount from session (applied via a one-off
+            // Stripe coupon)
+            const discountAmountCents =
+                session.total_details?.amount_discount || 0;
+            const discountAmount = discountAmountCents / 100;
+            const giftCardAmount = parseFloat(
+                session.metadata?.giftCardAmount || '0'
+            );
+
+            // Extract addresses using helper
+            // If shipping address is not provided (customer selected "same as billing"),
+            // fallback to billing address for both shipping and billing
+            const billingAddress = extractAddress(
+                session.customer_details?.address
+            );
+            const shippingAddress = extractAddress(
+                session.shipping_details?.address ??
+                    session.customer_details?.address
+            );
+
+            // Calculate totals
+            const sessionTotal = (session.amount_total || 0) / 100;
+            const subtotal =
+                sessionTotal - taxAmount - shippingCost + discountAmount;
+
+            // Gift cards pay part of the taxed total: the card was only
+            // authorized, so capture what they don't cover (throws, and the
+            // event is replayed, when the payment can't be captured)
+            const amountTotal =
+                Math.round((sessionTotal - giftCardAmount) * 100) / 100;
+            if (giftCardAmount > 0) {
+                const paymentIntent = await capturePayment(
+                    session.payment_intent as string,
+                    amountTotal
+                );
+                if (paymentIntent.status !== 'succeeded') {
+                    throw new Error(
+                        `Failed to capture payment: PaymentIntent is ${paymentIntent.status}`
+                    );
+                }
+            }
+
+            // Generate order number
+            const orderNumber = generateOrderNumber();
+
+            // Extract customer name with logging for missing data
+            const customerName =
+                session.shipping_details?.name ||
+                session.customer_details?.name ||
+                null;
+
+            if (!customerName) {
+                logError(
+                    new Error('Missing customer name in checkout session'),
+                    {
+                        location: 'api/checkout/webhook',
+                        action: 'extractCustomerName',
+                        metadata: {
+                            sessionId: session.id,
+                            customerEmail: session.customer_email,
+                            shippingDetailsName: session.shipping_details?.name,
+                            customerDetailsName: session.customer_details?.name,
+                        },
+                    }
+                );
+            }
+
+            // Create order with error handling for duplicate key violation
+            const { data: order, error: orderError } = await createOrder({
+                orderNumber,
+                customerName:
+                    customerName || `Customer ${session.customer_email}`,
+                customerEmail:
+                    session.customer_email ||
+                    session.customer_details?.email ||
+                    '',
+                shippingAddress,
+                billingAddress,
+                orderNotes: undefined,
+                subtotal,
+                shippingCost,
+                taxAmount,
+                total: amountTotal,
+                couponId: session.metadata?.couponId,
+                couponCode: session.metadata?.couponCode,
+                discountAmount,
+                giftCardAmount,
+                paymentIntentId: session.payment_intent as string,
+                paymentStatus: 'succeeded',
+                items: cartItems.map((item) => ({
+                    artworkId: item.artworkId,
+                    quantity: item.quantity,
+                    priceAtPurchase: item.price,
+                    lineSubtotal: item.price * item.quantity,
+                    variantId: item.variantId,
+                })),
+            });
+
+            // The order (if created) now accounts for the stock and the
+            // coupon use
+            await releaseSessionHolds(session);
+            await releaseSessionCoupon(session);
+
+            if (orderError) {
+                // Check if this is a duplicate key error (Postgres error code 23505)
+                // Supabase returns errors with a code property for database constraint violations
+                const errorCode = (orderError as { code?: string }).code;
+                if (
+                    errorCode === '23505' &&
+                    orderError.message.includes('payment_intent_id')
+                ) {
+                    logInfo('Order already created (concurrent webhook)', {
+                        location: 'api/checkout/webhook',
+                        action: 'handleDuplicateOrder',
+                        metadata: { sessionId: session.id },
+                    });
+                    break; // Exit gracefully
+                }
+            }
+
+            // The customer paid with the cards whether or not the order
+            // could be recorded
+            await redeemSessionGiftCards(session, order?.id ?? null);
+
+            if (orderError) {
+                throw new Error(
+                    `Failed to create order: ${orderError.message}`
+                );
+            }
+
+            logInfo('Order created from session', {
+                location: 'api/checkout/webhook',
+                action: 'createOrderFromSession',
+                metadata: {
+                    orderId: order?.id,
+                    orderNumber: order?.orderNumber,
+                },
+            });
+
+            // Send order confirmation and admin notification emails
+            // Non-blocking: email failures won't prevent order creation
+            if (order) {
+                const emailResults = await sendOrderEmails(order);
+                if (!emailResults.customer.success) {
+                    logError(
+                        emailResults.customer.error ||
+                            new Error(
+                                'Failed to send customer confirmation email'
+                            ),
+                        {
+                            location: 'api/checkout/webhook',
+                            action: 'sendCustomerEmail',
+                            metadata: { orderId: order.id },
+                        }
+                    );
+                }
+                if (!emailResults.admin.success) {
+                    logError(
+                        emailResults.admin.error ||
+                            new Error(
+                                'Failed to send admin notification email'
+                            ),
+                        {
+                            location: 'api/checkout/webhook',
+                            action: 'sendAdminEmail',
+                            metadata: { orderId: order.id },
+                        }
+                    );
+                }
+            }
+
+            break;
+        }
+
+        case 'checkout.session.expired': {
+            const session = event.data.object as Stripe.Checkout.Session;
+
+            logInfo('Checkout session expired', {
+                location: 'api/checkout/webhook',
+                action: 'handleCheckoutSessionExpired',
+                metadata: {
+                    sessionId: session.id,
+                    reservationId: session.metadata?.reservationId,
+                },
+            });
+
+            await releaseSessionHolds(session);
+            await releaseSessionCoupon(session);
+            await releaseSessionGiftCards(session);
+
+            const paymentIntentId = getPaymentIntentId(session.payment_intent);
+            if (paymentIntentId) {
+                await failPendingOrder(
+                    paymentIntentId,
+                    true,
+                    'handleCheckoutSessionExpired'
+                );
+            }
+
+            break;
+        }
+
+        case 'payment_intent.payment_failed': {
+            const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+            logError(new Error('Payment failed'), {
+                location: 'api/checkout/webhook',
+                action: 'handlePaymentIntentFailed',
+                metadata: {
+                    paymentIntentId: paymentIntent.id,
+                    amount: paymentIntent.amount,
+                    customer: paymentIntent.metadata.customerEmail,
+                    lastPaymentError: paymentIntent.last_payment_error?.message,
+                },
+            });
+
+            await failPendingOrder(
+                paymentIntent.id,
+                false,
+                'handlePaymentIntentFailed'
+            );
+
+            break;
+        }
+
+        case 'charge.refunded': {
+            await handleChargeRefunded(event.data.object as Stripe.Charge);
+            break;
+        }
+
+        case 'charge.dispute.created':
+        case 'charge.dispute.closed': {
+            await handleDispute(
+                event.data.object as Stripe.Dispute,
+                event.type === 'charge.dispute.created'
+            );
+            break;
+        }
+
+        default:
+            logInfo('Unhandled webhook event type', {
+                location: 'api/checkout/webhook',
+                action: 'handleWebhookEvent',
+                metadata: { eventType: event.type },
+            });
+    }
+}
@@ -2,7 +2,8 @@
  * Stripe Payment Integration
  *
  * Server-side Stripe client setup and utilities for payment processing.
- * Provides functions for creating payment intents and handling webhook events.
+ * Provides functions for creating payment intents and payment links and
+ * handling webhook events.
  */
 
 import Stripe from 'stripe';
@@ -67,6 +68,138 @@ export async function createPaymentIntent(
     });
 }
 
+/**
+ * Creates a single-use Stripe Payment Link for a one-off amount.
+ *
+ * Used for payments requested by email (e.g. commission deposits), where a
+ * Checkout session would expire before the customer gets to it. The link
+ * deactivates itself after one completed payment.
+ *
+ * @param amount - Payment amount in dollars (e.g., 150.00)
+ * @param productName - Line item name shown on the payment page
+ * @param metadata - Data to attach to the payment link
+ * @param currency - ISO currency code (default: 'usd')
+ * @returns Stripe PaymentLink object with the shareable url
+ *
+ * @example
+ * ```typescript
+ * const link = await createPaymentLink(150, 'Commission deposit: Pet portrait', {
+ *   commissionId: '...',
+ *   paymentType: 'deposit',
+ * });
+ * // Email link.url to the customer
+ * ```
+ */
+export async function createPaymentLink(
+    amount: number,
+    productName: string,
+    metadata: Record<string, string> = {},
+    currency: string = 'usd'
+): Promise<Stripe.PaymentLink> {
+    // Convert dollars to cents and round to avoid floating point issues
+    const amountInCents = Math.round(amount * 100);
+
+    return await stripe.paymentLinks.create({
+        line_items: [
+            {
+                price_data: {
+                    currency,
+                    unit_amount: amountInCents,
+                    product_data: { name: productName },
+                },
+                quantity: 1,
+            },
+        ],
+        metadata,
+        payment_intent_data: { metadata },
+        restrictions: { completed_sessions: { limit: 1 } },
+    });
+}
+
+/**
+ * Deactivates a Payment Link so it can no longer be paid (e.g. when it has
+ * been replaced by a new quote).
+ *
+ * @param paymentLinkId - Stripe Payment Link id (plink_...)
+ */
+export async function deactivatePaymentLink(
+    paymentLinkId: string
+): Promise<Stripe.PaymentLink> {
+    return await stripe.paymentLinks.update(paymentLinkId, { active: false });
+}
+
+/**
+ * Captures part of an authorized payment; the rest of the authorization is
+ * released. Payments that were already captured are returned as they are,
+ * so a replayed webhook doesn't capture twice.
+ *
+ * @param paymentIntentId - PaymentIntent authorized with manual capture (pi_...)
+ * @param amount - Amount to capture in dollars (e.g., 25.00)
+ * @returns Stripe PaymentIntent, 'succeeded' once captured
+ */
+export async function capturePayment(
+    paymentIntentId: string,
+    amount: number
+): Promise<Stripe.PaymentIntent> {
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (paymentIntent.status !== 'requires_capture') {
+        return paymentIntent;
+    }
+
+    return await stripe.paymentIntents.capture(paymentIntentId, {
+        amount_to_capture: Math.round(amount * 100),
+    });
+}
+
+/**
+ * Refunds part or all of a payment.
+ *
+ * @param paymentIntentId - The order's PaymentIntent (pi_...)
+ * @param amount - Amount to refund in dollars (e.g., 25.00)
+ * @param metadata - Data to attach to the refund (e.g. orderId)
+ * @returns Stripe Refund object
+ *
+ * @example
+ * ```typescript
+ * const refund = await createRefund('pi_123', 25, { orderId: '...' });
+ * // Record refund.id against the order
+ * ```
+ */
+export async function createRefund(
+    paymentIntentId: string,
+    amount: number,
+    metadata: Record<string, string> = {}
+): Promise<Stripe.Refund> {
+    // Convert dollars to cents and round to avoid floating point issues
+    const amountInCents = Math.round(amount * 100);
+
+    return await stripe.refunds.create({
+        payment_intent: paymentIntentId,
+        amount: amountInCents,
+        metadata,
+    });
+}
+
+/**
+ * Lists every refund issued against a payment, including those issued from
+ * the Stripe dashboard.
+ *
+ * @param paymentIntentId - The order's PaymentIntent (pi_...)
+ * @returns Stripe Refund objects, newest first
+ */
+export async function listRefunds(
+    paymentIntentId: string
+): Promise<Stripe.Refund[]> {
+    // A payment can't be refunded more than a handful of times, so one page
+    // of the maximum size covers it
+    const refunds = await stripe.refunds.list({
+        payment_intent: paymentIntentId,
+        limit: 100,
+    });
+
+    return refunds.data;
+}
+
 /**
  * Constructs and verifies a Stripe webhook event from raw request data.
  *
@@ -0,0 +1,164 @@
+/**
+ * Certificate of Authenticity PDF
+ *
+ * One page per numbered print on an order line, signed off by the artist.
+ */
+
+import { siteConfig } from '@/config/site';
+import type { CertificateDetails } from '@/lib/db/certificates';
+import { getEditionNumbers } from '@/lib/utils/editions';
+import {
+    PAGE_HEIGHT,
+    PAGE_WIDTH,
+    PdfDocument,
+    type PdfColor,
+} from './document';
+
+const MARGIN = 54;
+const CENTER = PAGE_WIDTH / 2;
+const GRAY: PdfColor = [0.4, 0.4, 0.4];
+
+/**
+ * Renders the certificates for a numbered order line
+ *
+ * @param certificate - The order line with its artwork and order
+ * @returns PDF file bytes
+ */
+export function renderCertificatePdf(certificate: CertificateDetails): Buffer {
+    const title = certificate.artwork?.title ?? 'Untitled';
+    const pdf = new PdfDocument({
+        title: `Certificate of Authenticity - ${title}`,
+    });
+
+    const numbers = getEditionNumbers(
+        certificate.edition_number_start,
+        certificate.quantity
+    );
+
+    numbers.forEach((editionNumber, index) => {
+        if (index > 0) pdf.addPage();
+        drawCertificatePage(pdf, certificate, title, editionNumber);
+    });
+
+    return pdf.toBuffer();
+}
+
+function drawCertificatePage(
+    pdf: PdfDocument,
+    certificate: CertificateDetails,
+    title: string,
+    editionNumber: number
+) {
+    const { artwork, order } = certificate;
+
+    // Double border
+    pdf.rect(
+        MARGIN,
+        MARGIN,
+        PAGE_WIDTH - MARGIN * 2,
+        PAGE_HEIGHT - MARGIN * 2,
+        {
+            lineWidth: 3,
+        }
+    );
+    pdf.rect(
+        MARGIN + 8,
+        MARGIN + 8,
+        PAGE_WIDTH - (MARGIN + 8) * 2,
+        PAGE_HEIGHT - (MARGIN + 8) * 2
+    );
+
+    pdf.text('Certificate of Authenticity', CENTER, 170, {
+        font: 'bold',
+        size: 30,
+        align: 'center',
+    });
+    pdf.line(CENTER - 120, 190, CENTER + 120, 190);
+
+    pdf.text('This certifies that the limited edition print', CENTER, 240, {
+        size: 14,
+        align: 'center',
+        color: GRAY,
+    });
+
+    let y = pdf.paragraph(
+        title,
+        MARGIN + 40,
+        285,
+        PAGE_WIDTH - (MARGIN + 40) * 2,
+        {
+            font: 'bold',
+            size: 24,
+            align: 'center',
+        }
+    );
+
+    pdf.text(
+        `Edition ${editionNumber} of ${certificate.edition_size}`,
+        CENTER,
+        y + 10,
+        { font: 'bold', size: 18, align: 'center' }
+    );
+    y += 50;
+
+    const details = [
+        certificate.variant_name,
+        artwork?.medium,
+        artwork?.dimensions,
+        artwork?.year_created ? String(artwork.year_created) : null,
+    ].filter(Boolean);
+
+    if (details.length > 0) {
+        pdf.text(details.join(' · '), CENTER, y, {
+            size: 12,
+            align: 'center',
+            color: GRAY,
+        });
+        y += 40;
+    }
+
+    pdf.text(`is an authentic work by ${siteConfig.artist.name}.`, CENTER, y, {
+        size: 14,
+        align: 'center',
+        color: GRAY,
+    });
+
+    if (order) {
+        const purchased = new Date(order.created_at).toLocaleDateString(
+            'en-US',
+            { year: 'numeric', month: 'long', day: 'numeric' }
+        );
+        pdf.text(`Issued to ${order.customer_name}`, CENTER, 520, {
+            size: 12,
+            align: 'center',
+        });
+        pdf.text(`Order ${order.order_number} · ${purchased}`, CENTER, 538, {
+            size: 10,
+            align: 'center',
+            color: GRAY,
+        });
+    }
+
+    // Signature line
+    pdf.line(CENTER - 120, 630, CENTER + 120, 630, { width: 0.75 });
+    pdf.text(siteConfig.artist.name, CENTER, 648, {
+        size: 12,
+        align: 'center',
+    });
+    pdf.text('Artist', CENTER, 664, {
+        size: 10,
+        align: 'center',
+        color: GRAY,
+    });
+
+    pdf.text(
+        `Certificate ${certificate.id}`,
+        CENTER,
+        PAGE_HEIGHT - MARGIN - 20,
+        {
+            size: 8,
+            align: 'center',
+            color: GRAY,
+        }
+    );
+}
@@ -0,0 +1,390 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Builds simple printable documents (certificates, packing slips) without a
+ * PDF dependency: text in the built-in Helvetica fonts, lines and rectangles
+ * on US Letter pages.
+ *
+ * Coordinates are in points (1/72 inch) measured from the TOP-left corner of
+ * the page; y is the text baseline. Text is WinAnsi encoded, so characters
+ * outside Latin-1 (other than common punctuation) print as '?'.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfTextAlign = 'left' | 'center' | 'right';
+
+export interface PdfTextOptions {
+    font?: PdfFont;
+    size?: number; // Points (default 12)
+    align?: PdfTextAlign; // Relative to x (default 'left')
+    color?: PdfColor;
+}
+
+/** RGB, each channel 0-1 */
+export type PdfColor = [number, number, number];
+
+/** US Letter, in points */
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+    regular: 'Helvetica',
+    bold: 'Helvetica-Bold',
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+    regular: 'F1',
+    bold: 'F2',
+};
+
+// Glyph widths (1/1000 em) for characters 32-126, from the standard
+// Helvetica and Helvetica-Bold font metrics
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+    584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+    278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+    500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+    500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+    584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+    278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+    556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+    500, 389, 280, 389, 584,
+];
+
+const FONT_WIDTHS: Record<PdfFont, number[]> = {
+    regular: HELVETICA_WIDTHS,
+    bold: HELVETICA_BOLD_WIDTHS,
+};
+
+// Width used for accented and other non-ASCII Latin-1 characters
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// Unicode punctuation with a WinAnsi code outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    '€': 0x80,
+    '‚': 0x82,
+    '„': 0x84,
+    '…': 0x85,
+    '‘': 0x91,
+    '’': 0x92,
+    '“': 0x93,
+    '”': 0x94,
+    '•': 0x95,
+    '–': 0x96,
+    '—': 0x97,
+    '™': 0x99,
+};
+
+/**
+ * Maps text to WinAnsi byte values ('?' for characters it can't encode)
+ */
+function toWinAnsi(text: string): number[] {
+    return Array.from(text).map((char) => {
+        const extra = WIN_ANSI_EXTRAS[char];
+        if (extra !== undefined) return extra;
+
+        const code = char.codePointAt(0) ?? 63;
+        if (code === 9) return 32; // Tab prints as a space
+        return (code >= 32 && code <= 126) || (code >= 160 && code <= 255)
+            ? code
+            : 63;
+    });
+}
+
+/**
+ * Measures text in points
+ *
+ * @param text - Text to measure
+ * @param font - Font to measure in
+ * @param size - Font size in points
+ */
+export function measureText(text: string, font: PdfFont, size: number): number {
+    const widths = FONT_WIDTHS[font];
+    const units = toWinAnsi(text).reduce(
+        (total, code) =>
+            total +
+            (code >= 32 && code <= 126
+                ? widths[code - 32]
+                : DEFAULT_GLYPH_WIDTH),
+        0
+    );
+    return (units * size) / 1000;
+}
+
+/**
+ * Breaks text into lines no wider than maxWidth, on spaces. A single word
+ * wider than maxWidth gets a line of its own.
+ *
+ * @returns Lines in order (one empty line for empty text)
+ */
+export function wrapText(
+    text: string,
+    maxWidth: number,
+    font: PdfFont,
+    size: number
+): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+        let line = '';
+
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+
+            if (line && measureText(candidate, font, size) > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+
+        lines.push(line);
+    }
+
+    return lines;
+}
+
+/**
+ * Formats a number for a content stream (no exponents, at most 2 decimals)
+ */
+function num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Escapes WinAnsi bytes as a PDF literal string
+ */
+function pdfString(bytes: number[]): string {
+    return `(${bytes
+        .map((code) => {
+            if (code === 40 || code === 41 || code === 92) {
+                return `\\${String.fromCharCode(code)}`; // ( ) \
+            }
+            return String.fromCharCode(code);
+        })
+        .join('')})`;
+}
+
+function colorOperator(color: PdfColor, operator: 'rg' | 'RG'): string {
+    return `${color.map(num).join(' ')} ${operator}`;
+}
+
+const BLACK: PdfColor = [0, 0, 0];
+
+/**
+ * A PDF document under construction. Drawing calls go to the current page;
+ * call addPage() to start a new one.
+ *
+ * @example
+ * ```typescript
+ * const pdf = new PdfDocument();
+ * pdf.text('Hello', PAGE_WIDTH / 2, 72, { size: 24, align: 'center' });
+ * const bytes = pdf.toBuffer();
+ * ```
+ */
+export class PdfDocument {
+    private readonly pages: string[][] = [[]];
+    private readonly title: string | undefined;
+
+    constructor(options: { title?: string } = {}) {
+        this.title = options.title;
+    }
+
+    /** Number of pages so far */
+    get pageCount(): number {
+        return this.pages.length;
+    }
+
+    /** Starts a new page; later drawing goes on it */
+    addPage(): this {
+        this.pages.push([]);
+        return this;
+    }
+
+    private draw(operations: string) {
+        this.pages[this.pages.length - 1].push(operations);
+    }
+
+    /**
+     * Draws a single line of text with its baseline at y
+     */
+    text(
+        text: string,
+        x: number,
+        y: number,
+        options: PdfTextOptions = {}
+    ): this {
+        const {
+            font = 'regular',
+            size = 12,
+            align = 'left',
+            color = BLACK,
+        } = options;
+        const width = measureText(text, font, size);
+        const left =
+            align === 'center'
+                ? x - width / 2
+                : align === 'right'
+                  ? x - width
+                  : x;
+
+        this.draw(
+            [
+                'BT',
+                colorOperator(color, 'rg'),
+                `/${FONT_RESOURCES[font]} ${num(size)} Tf`,
+                `${num(left)} ${num(PAGE_HEIGHT - y)} Td`,
+                `${pdfString(toWinAnsi(text))} Tj`,
+                'ET',
+            ].join('\n')
+        );
+        return this;
+    }
+
+    /**
+     * Draws wrapped text starting with its first baseline at y
+     *
+     * @returns Baseline y of the line after the last one drawn
+     */
+    paragraph(
+        text: string,
+        x: number,
+        y: number,
+        maxWidth: number,
+        options: PdfTextOptions & { lineHeight?: number } = {}
+    ): number {
+        const { font = 'regular', size = 12 } = options;
+        const lineHeight = options.lineHeight ?? size * 1.4;
+        const anchorX =
+            options.align === 'center'
+                ? x + maxWidth / 2
+                : options.align === 'right'
+                  ? x + maxWidth
+                  : x;
+
+        let baseline = y;
+        for (const line of wrapText(text, maxWidth, font, size)) {
+            this.text(line, anchorX, baseline, options);
+            baseline += lineHeight;
+        }
+        return baseline;
+    }
+
+    /**
+     * Draws a straight line
+     */
+    line(
+        x1: number,
+        y1: number,
+        x2: number,
+        y2: number,
+        options: { width?: number; color?: PdfColor } = {}
+    ): this {
+        const { width = 1, color = BLACK } = options;
+        this.draw(
+            [
+                colorOperator(color, 'RG'),
+                `${num(width)} w`,
+                `${num(x1)} ${num(PAGE_HEIGHT - y1)} m`,
+                `${num(x2)} ${num(PAGE_HEIGHT - y2)} l`,
+                'S',
+            ].join('\n')
+        );
+        return this;
+    }
+
+    /**
+     * Draws a rectangle outline with its top-left corner at (x, y)
+     */
+    rect(
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        options: { lineWidth?: number; color?: PdfColor } = {}
+    ): this {
+        const { lineWidth = 1, color = BLACK } = options;
+        this.draw(
+            [
+                colorOperator(color, 'RG'),
+                `${num(lineWidth)} w`,
+                `${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re`,
+                'S',
+            ].join('\n')
+        );
+        return this;
+    }
+
+    /**
+     * Serializes the document
+     *
+     * @returns PDF file bytes
+     */
+    toBuffer(): Buffer {
+        // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page
+        // object and content stream per page
+        const fontIds: Record<PdfFont, number> = { regular: 3, bold: 4 };
+        const firstPageId = 6;
+        const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+        const objects: string[] = [];
+        objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+        objects[2] = `<< /Type /Pages /Kids [${pageIds
+            .map((id) => `${id} 0 R`)
+            .join(' ')}] /Count ${pageIds.length} >>`;
+
+        for (const font of Object.keys(fontIds) as PdfFont[]) {
+            objects[fontIds[font]] =
+                `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`;
+        }
+
+        objects[5] = this.title
+            ? `<< /Title ${pdfString(toWinAnsi(this.title))} >>`
+            : '<< >>';
+
+        const fontResources = (Object.keys(fontIds) as PdfFont[])
+            .map((font) => `/${FONT_RESOURCES[font]} ${fontIds[font]} 0 R`)
+            .join(' ');
+
+        this.pages.forEach((operations, index) => {
+            const pageId = pageIds[index];
+            const content = operations.join('\n');
+
+            objects[pageId] =
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+                `/Resources << /Font << ${fontResources} >> >> /Contents ${pageId + 1} 0 R >>`;
+            objects[pageId + 1] =
+                `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+        });
+
+        // Everything is Latin-1, so string length equals byte length
+        let output = '%PDF-1.4\n';
+        const offsets: number[] = [];
+
+        for (let id = 1; id < objects.length; id++) {
+            offsets[id] = output.length;
+            output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+        }
+
+        const xrefOffset = output.length;
+        output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+        for (let id = 1; id < objects.length; id++) {
+            output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+        }
+        output +=
+            `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\n` +
+            `startxref\n${xrefOffset}\n%%EOF\n`;
+
+        return Buffer.from(output, 'latin1');
+    }
+}
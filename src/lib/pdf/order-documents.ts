@@ -0,0 +1,521 @@
+/**
+ * Packing Slip and Invoice PDFs
+ *
+ * Printable fulfillment paperwork for admin orders. Each order starts on a
+ * new page (long orders continue onto more), so a batch of orders prints as
+ * one document.
+ */
+
+import { siteConfig } from '@/config/site';
+import type {
+    OrderItemWithArtwork,
+    OrderWithItemsAndArtwork,
+} from '@/lib/db/admin/orders';
+import { formatCurrency } from '@/lib/utils/currency';
+import { formatEditionNumbers } from '@/lib/utils/editions';
+import { getRefundedAmount } from '@/lib/utils/refunds';
+import {
+    PAGE_HEIGHT,
+    PAGE_WIDTH,
+    PdfDocument,
+    wrapText,
+    type PdfColor,
+} from './document';
+
+const MARGIN = 54;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_WIDTH = RIGHT - MARGIN;
+// Lowest baseline for body content; the footer sits below it
+const BOTTOM = PAGE_HEIGHT - MARGIN - 36;
+const GRAY: PdfColor = [0.4, 0.4, 0.4];
+const RULE: PdfColor = [0.75, 0.75, 0.75];
+
+const ROW_SIZE = 10;
+const ROW_LINE_HEIGHT = 14;
+const NOTES_LINE_HEIGHT = 15;
+
+function formatDate(dateString: string): string {
+    return new Date(dateString).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+    });
+}
+
+function formatAmount(amount: string): string {
+    return formatCurrency(parseFloat(amount) || 0);
+}
+
+function shippingAddressLines(order: OrderWithItemsAndArtwork): string[] {
+    return [
+        order.customer_name,
+        order.shipping_address_line1,
+        order.shipping_address_line2,
+        `${order.shipping_city}, ${order.shipping_state} ${order.shipping_zip}`,
+        order.shipping_country,
+    ].filter((line): line is string => Boolean(line));
+}
+
+function billingAddressLines(order: OrderWithItemsAndArtwork): string[] {
+    return [
+        order.customer_name,
+        order.billing_address_line1,
+        order.billing_address_line2,
+        `${order.billing_city}, ${order.billing_state} ${order.billing_zip}`,
+        order.billing_country,
+        order.customer_email,
+    ].filter((line): line is string => Boolean(line));
+}
+
+/**
+ * Item name with its variant and edition numbers
+ * (e.g., "Dragon's Hoard · 11x14 Print · Edition 12/50")
+ */
+function describeItem(item: OrderItemWithArtwork): string {
+    return [
+        item.artwork?.title ?? 'Artwork no longer available',
+        item.variant_name,
+        item.edition_number_start !== null && item.edition_size
+            ? `Edition ${formatEditionNumbers(
+                  item.edition_number_start,
+                  item.quantity,
+                  item.edition_size
+              )}`
+            : null,
+    ]
+        .filter(Boolean)
+        .join(' · ');
+}
+
+/**
+ * Variant SKU, falling back to the artwork SKU
+ */
+function itemSku(item: OrderItemWithArtwork): string {
+    return item.variant?.sku ?? item.artwork?.sku ?? '—';
+}
+
+/**
+ * Draws the shop name, document title and order reference at the top of a
+ * page
+ *
+ * @returns Baseline y below the header
+ */
+function drawHeader(
+    pdf: PdfDocument,
+    heading: string,
+    order: OrderWithItemsAndArtwork,
+    continued: boolean
+): number {
+    pdf.text(siteConfig.site.title, MARGIN, MARGIN + 18, {
+        font: 'bold',
+        size: 18,
+    });
+    pdf.text(
+        siteConfig.site.url.replace(/^https?:\/\//, ''),
+        MARGIN,
+        MARGIN + 34,
+        {
+            size: 9,
+            color: GRAY,
+        }
+    );
+    pdf.text(
+        continued ? `${heading} (continued)` : heading,
+        RIGHT,
+        MARGIN + 18,
+        {
+            font: 'bold',
+            size: 18,
+            align: 'right',
+        }
+    );
+    pdf.text(
+        `Order ${order.order_number} · ${formatDate(order.created_at)}`,
+        RIGHT,
+        MARGIN + 34,
+        { size: 9, align: 'right', color: GRAY }
+    );
+    pdf.line(MARGIN, MARGIN + 46, RIGHT, MARGIN + 46, { color: RULE });
+
+    return MARGIN + 76;
+}
+
+function drawFooter(pdf: PdfDocument, text: string) {
+    pdf.text(text, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN, {
+        size: 9,
+        align: 'center',
+        color: GRAY,
+    });
+}
+
+/**
+ * Draws a labelled block of lines (an address)
+ *
+ * @returns Baseline y below the block
+ */
+function drawBlock(
+    pdf: PdfDocument,
+    label: string,
+    lines: string[],
+    x: number,
+    y: number
+): number {
+    pdf.text(label.toUpperCase(), x, y, { font: 'bold', size: 9, color: GRAY });
+    let baseline = y + 16;
+    for (const line of lines) {
+        pdf.text(line, x, baseline, { size: 11 });
+        baseline += 15;
+    }
+    return baseline;
+}
+
+interface TableColumn {
+    label: string;
+    x: number; // Left edge, or right edge for right-aligned columns
+    width: number;
+    align?: 'left' | 'right';
+}
+
+function drawTableHeader(
+    pdf: PdfDocument,
+    columns: TableColumn[],
+    y: number
+): number {
+    for (const column of columns) {
+        pdf.text(column.label.toUpperCase(), column.x, y, {
+            font: 'bold',
+            size: 9,
+            align: column.align,
+            color: GRAY,
+        });
+    }
+    pdf.line(MARGIN, y + 6, RIGHT, y + 6, { color: RULE });
+    return y + 22;
+}
+
+/**
+ * Draws the item table, starting a continuation page (with the header and
+ * column labels repeated) whenever a row won't fit
+ *
+ * @param rows - Cell text per column for each item; left-aligned cells wrap
+ * @returns Baseline y below the table
+ */
+function drawItemTable(
+    pdf: PdfDocument,
+    columns: TableColumn[],
+    rows: string[][],
+    y: number,
+    startPage: () => number
+): number {
+    let baseline = drawTableHeader(pdf, columns, y);
+
+    for (const cells of rows) {
+        const rowHeight = Math.max(
+            ...columns.map(
+                (column, index) =>
+                    wrapText(cells[index], column.width, 'regular', ROW_SIZE)
+                        .length * ROW_LINE_HEIGHT
+            )
+        );
+
+        if (baseline + rowHeight - ROW_LINE_HEIGHT > BOTTOM) {
+            baseline = drawTableHeader(pdf, columns, startPage());
+        }
+
+        columns.forEach((column, index) => {
+            if (column.align === 'right') {
+                pdf.text(cells[index], column.x, baseline, {
+                    size: ROW_SIZE,
+                    align: 'right',
+                });
+            } else {
+                pdf.paragraph(cells[index], column.x, baseline, column.width, {
+                    size: ROW_SIZE,
+                    lineHeight: ROW_LINE_HEIGHT,
+                });
+            }
+        });
+
+        baseline += rowHeight + 6;
+    }
+
+    pdf.line(MARGIN, baseline - 10, RIGHT, baseline - 10, { color: RULE });
+    return baseline + 6;
+}
+
+/**
+ * Starts a page for an order (the first document page is already open)
+ *
+ * @returns The first baseline y, and a function that starts a continuation
+ *          page and returns its first baseline y
+ */
+function beginOrder(
+    pdf: PdfDocument,
+    heading: string,
+    order: OrderWithItemsAndArtwork,
+    footer: string,
+    isFirst: boolean
+): { y: number; nextPage: () => number } {
+    if (!isFirst) pdf.addPage();
+    drawFooter(pdf, footer);
+
+    return {
+        y: drawHeader(pdf, heading, order, false),
+        nextPage: () => {
+            pdf.addPage();
+            drawFooter(pdf, footer);
+            return drawHeader(pdf, heading, order, true);
+        },
+    };
+}
+
+function drawEmptyPage(pdf: PdfDocument, message: string) {
+    pdf.text(message, PAGE_WIDTH / 2, PAGE_HEIGHT / 3, {
+        size: 14,
+        align: 'center',
+        color: GRAY,
+    });
+}
+
+/**
+ * Renders packing slips: ship-to address, items with SKUs and quantities,
+ * and the customer's notes (where gift messages are left at checkout).
+ * Prices are left off so a slip can travel with a gift.
+ *
+ * @param orders - Orders with items and artwork (see getOrderById)
+ * @returns PDF file bytes (a page noting there's nothing to pack if empty)
+ */
+export function renderPackingSlipsPdf(
+    orders: OrderWithItemsAndArtwork[]
+): Buffer {
+    const pdf = new PdfDocument({
+        title:
+            orders.length === 1
+                ? `Packing Slip - ${orders[0].order_number}`
+                : 'Packing Slips',
+    });
+
+    if (orders.length === 0) {
+        drawEmptyPage(pdf, 'No orders to pack.');
+    }
+
+    const columns: TableColumn[] = [
+        { label: 'Qty', x: MARGIN + 24, width: 24, align: 'right' },
+        { label: 'Item', x: MARGIN + 48, width: 300 },
+        { label: 'SKU', x: MARGIN + 372, width: CONTENT_WIDTH - 372 },
+    ];
+
+    orders.forEach((order, index) => {
+        const { y, nextPage } = beginOrder(
+            pdf,
+            'Packing Slip',
+            order,
+            `Thank you for supporting ${siteConfig.artist.name}!`,
+            index === 0
+        );
+
+        let baseline = drawBlock(
+            pdf,
+            'Ship to',
+            shippingAddressLines(order),
+            MARGIN,
+            y
+        );
+
+        baseline = drawItemTable(
+            pdf,
+            columns,
+            order.order_items.map((item) => [
+                String(item.quantity),
+                describeItem(item),
+                itemSku(item),
+            ]),
+            baseline + 20,
+            nextPage
+        );
+
+        if (order.order_notes) {
+            const notesHeight =
+                wrapText(order.order_notes, CONTENT_WIDTH, 'regular', 11)
+                    .length * NOTES_LINE_HEIGHT;
+            if (baseline + 16 + notesHeight > BOTTOM) {
+                baseline = nextPage();
+            }
+
+            pdf.text('NOTES & GIFT MESSAGE', MARGIN, baseline, {
+                font: 'bold',
+                size: 9,
+                color: GRAY,
+            });
+            pdf.paragraph(
+                order.order_notes,
+                MARGIN,
+                baseline + 16,
+                CONTENT_WIDTH,
+                { size: 11, lineHeight: NOTES_LINE_HEIGHT }
+            );
+        }
+    });
+
+    return pdf.toBuffer();
+}
+
+/**
+ * Renders customer invoices: bill-to and ship-to addresses, line items and
+ * the order totals (discount, gift card, shipping, tax)
+ *
+ * @param orders - Orders with items and artwork (see getOrderById)
+ * @returns PDF file bytes (a page noting there are no orders if empty)
+ */
+export function renderInvoicesPdf(orders: OrderWithItemsAndArtwork[]): Buffer {
+    const pdf = new PdfDocument({
+        title:
+            orders.length === 1
+                ? `Invoice - ${orders[0].order_number}`
+                : 'Invoices',
+    });
+
+    if (orders.length === 0) {
+        drawEmptyPage(pdf, 'No orders to invoice.');
+    }
+
+    const columns: TableColumn[] = [
+        { label: 'Item', x: MARGIN, width: 230 },
+        { label: 'SKU', x: MARGIN + 240, width: 100 },
+        { label: 'Qty', x: MARGIN + 374, width: 24, align: 'right' },
+        { label: 'Price', x: MARGIN + 434, width: 56, align: 'right' },
+        { label: 'Amount', x: RIGHT, width: 60, align: 'right' },
+    ];
+
+    orders.forEach((order, index) => {
+        const { y, nextPage } = beginOrder(
+            pdf,
+            'Invoice',
+            order,
+            `${siteConfig.site.title} · ${siteConfig.email.fromAddress}`,
+            index === 0
+        );
+
+        const billed = drawBlock(
+            pdf,
+            'Bill to',
+            billingAddressLines(order),
+            MARGIN,
+            y
+        );
+        const shipped = drawBlock(
+            pdf,
+            'Ship to',
+            shippingAddressLines(order),
+            MARGIN + CONTENT_WIDTH / 2,
+            y
+        );
+
+        let baseline = drawItemTable(
+            pdf,
+            columns,
+            order.order_items.map((item) => [
+                describeItem(item),
+                itemSku(item),
+                String(item.quantity),
+                formatAmount(item.price_at_purchase),
+                formatAmount(item.line_subtotal),
+            ]),
+            Math.max(billed, shipped) + 20,
+            nextPage
+        );
+
+        const giftCardCodes = (order.gift_card_transactions ?? [])
+            .map((redemption) => redemption.gift_card?.code)
+            .filter(Boolean)
+            .join(', ');
+
+        const totals: [string, string][] = [
+            ['Subtotal', formatAmount(order.subtotal)],
+        ];
+        if (parseFloat(order.discount_amount) > 0) {
+            totals.push([
+                order.coupon_code
+                    ? `Discount (${order.coupon_code})`
+                    : 'Discount',
+                `-${formatAmount(order.discount_amount)}`,
+            ]);
+        }
+        if (parseFloat(order.gift_card_amount) > 0) {
+            totals.push([
+                giftCardCodes ? `Gift card (${giftCardCodes})` : 'Gift card',
+                `-${formatAmount(order.gift_card_amount)}`,
+            ]);
+        }
+        totals.push(
+            ['Shipping', formatAmount(order.shipping_cost)],
+            ['Tax', formatAmount(order.tax_amount)]
+        );
+
+        if (baseline + (totals.length + 1) * 18 + 40 > BOTTOM) {
+            baseline = nextPage();
+        }
+
+        for (const [label, amount] of totals) {
+            pdf.text(label, RIGHT - 120, baseline, {
+                size: 11,
+                align: 'right',
+            });
+            pdf.text(amount, RIGHT, baseline, { size: 11, align: 'right' });
+            baseline += 18;
+        }
+
+        pdf.line(RIGHT - 220, baseline - 8, RIGHT, baseline - 8);
+        pdf.text('Total', RIGHT - 120, baseline + 8, {
+            font: 'bold',
+            size: 13,
+            align: 'right',
+        });
+        pdf.text(formatAmount(order.total), RIGHT, baseline + 8, {
+            font: 'bold',
+            size: 13,
+            align: 'right',
+        });
+
+        pdf.text(
+            order.payment_status === 'succeeded'
+                ? 'Paid in full. Thank you!'
+                : order.payment_status === 'refunded' ||
+                    order.payment_status === 'partially_refunded'
+                  ? `Refunded ${formatCurrency(getRefundedAmount(order))}`
+                  : `Payment ${order.payment_status}`,
+            MARGIN,
+            baseline + 40,
+            { size: 11, color: GRAY }
+        );
+    });
+
+    return pdf.toBuffer();
+}
+
+/**
+ * Printable order documents, by URL segment
+ */
+export const ORDER_DOCUMENT_TYPES = ['packing-slip', 'invoice'] as const;
+
+export type OrderDocumentType = (typeof ORDER_DOCUMENT_TYPES)[number];
+
+export const ORDER_DOCUMENTS: Record<
+    OrderDocumentType,
+    {
+        render: (orders: OrderWithItemsAndArtwork[]) => Buffer;
+        filename: string; // Single order, followed by the order number
+        batchFilename: string; // Batch, followed by the date
+    }
+> = {
+    'packing-slip': {
+        render: renderPackingSlipsPdf,
+        filename: 'packing-slip',
+        batchFilename: 'packing-slips',
+    },
+    invoice: {
+        render: renderInvoicesPdf,
+        filename: 'invoice',
+        batchFilename: 'invoices',
+    },
+};
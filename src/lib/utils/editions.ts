@@ -0,0 +1,50 @@
+/**
+ * Limited Edition Utilities
+ *
+ * An order line of quantity N for a numbered edition holds N consecutive
+ * edition numbers, starting at order_items.edition_number_start.
+ */
+
+/**
+ * Lists every edition number on an order line
+ *
+ * @param start - First edition number on the line
+ * @param quantity - Number of prints on the line
+ * @returns Edition numbers in order
+ *
+ * @example
+ * getEditionNumbers(12, 3) // [12, 13, 14]
+ */
+export function getEditionNumbers(start: number, quantity: number): number[] {
+    return Array.from({ length: quantity }, (_, index) => start + index);
+}
+
+/**
+ * Formats the edition numbers on an order line
+ *
+ * @param start - First edition number on the line
+ * @param quantity - Number of prints on the line
+ * @param size - Edition size
+ * @returns Formatted numbers (e.g., "12/50", or "12–14/50" for several prints)
+ *
+ * @example
+ * formatEditionNumbers(12, 1, 50) // "12/50"
+ * formatEditionNumbers(12, 3, 50) // "12–14/50"
+ */
+export function formatEditionNumbers(
+    start: number,
+    quantity: number,
+    size: number
+): string {
+    const end = start + quantity - 1;
+    return end > start ? `${start}–${end}/${size}` : `${start}/${size}`;
+}
+
+/**
+ * Path of an order line's certificate of authenticity PDF
+ *
+ * @param certificateToken - order_items.certificate_token
+ */
+export function getCertificatePath(certificateToken: string): string {
+    return `/api/certificates/${certificateToken}`;
+}
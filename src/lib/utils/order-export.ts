@@ -0,0 +1,120 @@
+/**
+ * Order CSV Exports
+ *
+ * Bookkeeping spreadsheets of admin orders: one row per order (totals, tax,
+ * shipping, status, ship-to state) or one row per line item (artwork, SKU,
+ * quantity, price paid).
+ */
+
+import type { OrderForExport } from '@/lib/db/admin/orders';
+
+type CsvValue = string | number | null;
+
+// Spreadsheets treat text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Formats one CSV line (RFC 4180): fields with commas, quotes or line breaks
+ * are quoted, and text that a spreadsheet would run as a formula (e.g. a
+ * customer named "=HYPERLINK(...)") is prefixed with an apostrophe
+ *
+ * @returns The line, ending in CRLF
+ */
+export function toCsvLine(values: CsvValue[]): string {
+    return (
+        values
+            .map((value) => {
+                let field = value === null ? '' : String(value);
+                if (FORMULA_PREFIX.test(field) && !NUMBER.test(field)) {
+                    field = `'${field}`;
+                }
+                return /[",\r\n]/.test(field)
+                    ? `"${field.replace(/"/g, '""')}"`
+                    : field;
+            })
+            .join(',') + '\r\n'
+    );
+}
+
+// The order's date (UTC), matching the export's date range filter
+function orderDate(order: OrderForExport): string {
+    return order.created_at.slice(0, 10);
+}
+
+export const ORDER_EXPORT_TYPES = ['orders', 'line-items'] as const;
+
+export type OrderExportType = (typeof ORDER_EXPORT_TYPES)[number];
+
+export const ORDER_EXPORTS: Record<
+    OrderExportType,
+    {
+        header: string[];
+        rows: (order: OrderForExport) => CsvValue[][];
+        filename: string; // Followed by the date
+    }
+> = {
+    orders: {
+        header: [
+            'Order Number',
+            'Date',
+            'Status',
+            'Customer Name',
+            'Customer Email',
+            'Ship-To State',
+            'Ship-To Country',
+            'Subtotal',
+            'Discount',
+            'Coupon Code',
+            'Shipping',
+            'Tax',
+            'Gift Card',
+            'Total',
+        ],
+        rows: (order) => [
+            [
+                order.order_number,
+                orderDate(order),
+                order.status,
+                order.customer_name,
+                order.customer_email,
+                order.shipping_state,
+                order.shipping_country,
+                order.subtotal,
+                order.discount_amount,
+                order.coupon_code,
+                order.shipping_cost,
+                order.tax_amount,
+                order.gift_card_amount,
+                order.total,
+            ],
+        ],
+        filename: 'orders',
+    },
+    'line-items': {
+        header: [
+            'Order Number',
+            'Date',
+            'Status',
+            'Artwork Title',
+            'Variant',
+            'SKU',
+            'Quantity',
+            'Price at Purchase',
+            'Line Subtotal',
+        ],
+        rows: (order) =>
+            order.order_items.map((item) => [
+                order.order_number,
+                orderDate(order),
+                order.status,
+                item.artwork?.title ?? 'Deleted artwork',
+                item.variant_name,
+                item.variant?.sku ?? item.artwork?.sku ?? null,
+                item.quantity,
+                item.price_at_purchase,
+                item.line_subtotal,
+            ]),
+        filename: 'order-line-items',
+    },
+};
@@ -0,0 +1,54 @@
+import {
+    ORDER_SORT_COLUMNS,
+    type OrderFilters,
+    type OrderSort,
+    type OrderSortColumn,
+    type OrderStatus,
+} from '@/lib/db/admin/orders';
+import { ORDER_STATUS_TRANSITIONS } from '@/lib/utils/order-status';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads the admin orders list query parameters, shared by the orders API and
+ * the CSV export so both see the same orders:
+ *
+ * - status: Filter by order status
+ * - search: Order number, customer name or email, SKU or tracking number
+ * - from, to: Date range (YYYY-MM-DD, both days included, UTC)
+ * - sort: One of ORDER_SORT_COLUMNS (default: created_at)
+ * - direction: 'asc' or 'desc' (default: desc)
+ *
+ * Unknown statuses, malformed dates and unknown sort columns are ignored.
+ *
+ * @returns The filters (undefined when none are set) and the sort
+ */
+export function parseOrderListParams(searchParams: URLSearchParams): {
+    filters: OrderFilters | undefined;
+    sort: OrderSort;
+} {
+    const statusParam = searchParams.get('status');
+    const status =
+        statusParam && Object.hasOwn(ORDER_STATUS_TRANSITIONS, statusParam)
+            ? (statusParam as OrderStatus)
+            : undefined;
+    const search = searchParams.get('search')?.trim() || undefined;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const startDate = from && ISO_DATE.test(from) ? from : undefined;
+    // The end of the day, so orders placed on it are included
+    const endDate = to && ISO_DATE.test(to) ? `${to}T23:59:59.999Z` : undefined;
+
+    const sortParam = searchParams.get('sort');
+    const column = ORDER_SORT_COLUMNS.includes(sortParam as OrderSortColumn)
+        ? (sortParam as OrderSortColumn)
+        : 'created_at';
+    const ascending = searchParams.get('direction') === 'asc';
+
+    const filters =
+        status || search || startDate || endDate
+            ? { status, search, startDate, endDate }
+            : undefined;
+
+    return { filters, sort: { column, ascending } };
+}
@@ -0,0 +1,63 @@
+import type { OrderStatus } from '@/types/order';
+
+/**
+ * Customer-facing order status wording, shared by the guest order status
+ * page and the account order history
+ */
+export const ORDER_STATUS_DETAILS: Record<
+    OrderStatus,
+    { label: string; description: string }
+> = {
+    pending: {
+        label: 'Awaiting payment',
+        description: "We haven't received payment for this order yet.",
+    },
+    paid: {
+        label: 'Paid',
+        description: "Payment received. We'll start on your order soon.",
+    },
+    processing: {
+        label: 'Processing',
+        description: 'Your order is being prepared for shipping.',
+    },
+    shipped: {
+        label: 'Shipped',
+        description: 'Your order is on its way.',
+    },
+    delivered: {
+        label: 'Delivered',
+        description: 'Your order has been delivered. Enjoy!',
+    },
+    cancelled: {
+        label: 'Cancelled',
+        description:
+            'This order was cancelled. Contact us if you have any questions.',
+    },
+};
+
+/**
+ * The statuses an order can move to from each status. Orders move forward
+ * through fulfilment (processing can be skipped) and can be cancelled until
+ * they ship; delivered and cancelled orders are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<
+    OrderStatus,
+    readonly OrderStatus[]
+> = {
+    pending: ['paid', 'cancelled'],
+    paid: ['processing', 'shipped', 'cancelled'],
+    processing: ['shipped', 'cancelled'],
+    shipped: ['delivered'],
+    delivered: [],
+    cancelled: [],
+};
+
+/**
+ * Whether an order in status `from` may be moved to status `to`
+ */
+export function canTransitionOrderStatus(
+    from: OrderStatus,
+    to: OrderStatus
+): boolean {
+    return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
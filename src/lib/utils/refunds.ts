@@ -0,0 +1,115 @@
+/**
+ * Order Refund Utilities
+ *
+ * Refunds go back through Stripe, so an order can only ever refund what
+ * Stripe charged: its total (gift card payments are not refunded here).
+ * Amounts are in dollars, rounded to cents.
+ */
+
+import type { OrderWithItemsAndArtwork } from '@/lib/db/admin/orders';
+
+type RefundableOrder = Pick<
+    OrderWithItemsAndArtwork,
+    | 'total'
+    | 'subtotal'
+    | 'discount_amount'
+    | 'tax_amount'
+    | 'order_items'
+    | 'order_refunds'
+>;
+
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Totals the refunds already issued on an order
+ */
+export function getRefundedAmount(order: RefundableOrder): number {
+    return roundCents(
+        (order.order_refunds ?? []).reduce(
+            (sum, refund) => sum + parseFloat(refund.amount),
+            0
+        )
+    );
+}
+
+/**
+ * How much of the order's charge is left to refund
+ */
+export function getRefundableAmount(order: RefundableOrder): number {
+    return Math.max(
+        roundCents(parseFloat(order.total) - getRefundedAmount(order)),
+        0
+    );
+}
+
+/**
+ * Quantities already refunded, by order item id
+ */
+export function getRefundedQuantities(
+    order: RefundableOrder
+): Record<string, number> {
+    const quantities: Record<string, number> = {};
+
+    for (const refund of order.order_refunds ?? []) {
+        for (const item of refund.order_refund_items) {
+            quantities[item.order_item_id] =
+                (quantities[item.order_item_id] ?? 0) + item.quantity;
+        }
+    }
+
+    return quantities;
+}
+
+/**
+ * Works out what refunding some items is worth: their price less their
+ * share of any coupon discount, plus their share of the tax charged on the
+ * discounted price, capped at what's left to refund.
+ *
+ * @param order - The order, with its items and past refunds
+ * @param items - Order item ids and quantities to refund
+ * @returns Refund amount in dollars
+ * @throws Error if an item isn't on the order or was already refunded
+ *
+ * @example
+ * // $100 subtotal with a $10 coupon and $9 tax: a $50 print refunds $49.50
+ * calculateItemRefundAmount(order, [{ orderItemId: 'item-1', quantity: 1 }]);
+ */
+export function calculateItemRefundAmount(
+    order: RefundableOrder,
+    items: { orderItemId: string; quantity: number }[]
+): number {
+    const refunded = getRefundedQuantities(order);
+    const subtotal = parseFloat(order.subtotal);
+    const discount = parseFloat(order.discount_amount) || 0;
+    const discountRate = subtotal > 0 ? (subtotal - discount) / subtotal : 0;
+    // Tax was charged on the discounted subtotal, so each item's share
+    // follows its discounted price
+    const tax = parseFloat(order.tax_amount) || 0;
+    const taxRate = subtotal - discount > 0 ? tax / (subtotal - discount) : 0;
+
+    let amount = 0;
+    for (const { orderItemId, quantity } of items) {
+        const item = order.order_items.find(
+            (orderItem) => orderItem.id === orderItemId
+        );
+        if (!item) {
+            throw new Error('Item is not on this order');
+        }
+        if ((refunded[item.id] ?? 0) + quantity > item.quantity) {
+            throw new Error(
+                `Only ${item.quantity - (refunded[item.id] ?? 0)} of ${
+                    item.artwork?.title ?? 'this item'
+                } can be refunded`
+            );
+        }
+        amount +=
+            parseFloat(item.price_at_purchase) *
+            quantity *
+            discountRate *
+            (1 + taxRate);
+    }
+
+    return Math.min(roundCents(amount), getRefundableAmount(order));
+}
@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Client IP from the proxy headers (the first x-forwarded-for hop), for
+ * rate limiting public routes
+ *
+ * @returns The IP address, or 'unknown' when no proxy header is present
+ */
+export function getClientIp(request: NextRequest): string {
+    return (
+        request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+        request.headers.get('x-real-ip') ||
+        'unknown'
+    );
+}
@@ -0,0 +1,149 @@
+/**
+ * Shipping carriers and their tracking pages
+ *
+ * Shared by the admin order pages, the customer order pages and the
+ * shipping email.
+ */
+
+export type Carrier = 'usps' | 'ups' | 'fedex' | 'dhl';
+
+export const CARRIERS: Record<
+    Carrier,
+    { name: string; trackingUrl: (trackingNumber: string) => string }
+> = {
+    usps: {
+        name: 'USPS',
+        trackingUrl: (n) =>
+            `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}`,
+    },
+    ups: {
+        name: 'UPS',
+        trackingUrl: (n) => `https://www.ups.com/track?tracknum=${n}`,
+    },
+    fedex: {
+        name: 'FedEx',
+        trackingUrl: (n) => `https://www.fedex.com/fedextrack/?trknbr=${n}`,
+    },
+    dhl: {
+        name: 'DHL',
+        trackingUrl: (n) =>
+            `https://www.dhl.com/us-en/home/tracking/tracking-express.html?submit=1&tracking-id=${n}`,
+    },
+};
+
+// Checked in order; the first match wins
+const CARRIER_PATTERNS: Array<[Carrier, RegExp]> = [
+    // 1Z + 6 character shipper number + 10 digit package number
+    ['ups', /^1Z[0-9A-Z]{16}$/],
+    // IMpb barcodes (optionally with the 420 + ZIP routing prefix) and
+    // international S10 numbers
+    ['usps', /^(420\d{5}(\d{4})?)?9[1-5]\d{20,24}$/],
+    ['usps', /^[A-Z]{2}\d{9}US$/],
+    // Express/Ground (12 or 15 digits) and SmartPost (96 + 20 digits)
+    ['fedex', /^(\d{12}|\d{15}|96\d{20})$/],
+    // Express waybills and eCommerce parcels
+    ['dhl', /^(\d{10}|JJD\d{18})$/],
+];
+
+/**
+ * Tidies a tracking number as typed or pasted: no spaces or dashes,
+ * uppercase
+ */
+export function normalizeTrackingNumber(trackingNumber: string): string {
+    return trackingNumber.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Guesses the carrier from the tracking number's format
+ *
+ * @returns The carrier, or null when the format isn't recognised
+ */
+export function detectCarrier(trackingNumber: string): Carrier | null {
+    const normalized = normalizeTrackingNumber(trackingNumber);
+    const match = CARRIER_PATTERNS.find(([, pattern]) =>
+        pattern.test(normalized)
+    );
+    return match ? match[0] : null;
+}
+
+/**
+ * Link to the carrier's tracking page for a package
+ *
+ * @param trackingNumber - As stored
+ * @param carrier - The recorded carrier, or null to detect it from the number
+ * @returns The URL, or null when the carrier is unknown
+ */
+export function getTrackingUrl(
+    trackingNumber: string,
+    carrier: Carrier | null
+): string | null {
+    const resolved = carrier ?? detectCarrier(trackingNumber);
+    return resolved
+        ? CARRIERS[resolved].trackingUrl(
+              encodeURIComponent(normalizeTrackingNumber(trackingNumber))
+          )
+        : null;
+}
+
+/**
+ * Carrier name for display, e.g. "UPS"
+ *
+ * @param trackingNumber - As stored
+ * @param carrier - The recorded carrier, or null to detect it from the number
+ * @returns The name, or null when the carrier is unknown
+ */
+export function getCarrierName(
+    trackingNumber: string,
+    carrier: Carrier | null
+): string | null {
+    const resolved = carrier ?? detectCarrier(trackingNumber);
+    return resolved ? CARRIERS[resolved].name : null;
+}
+
+/**
+ * A line of a pasted tracking list
+ */
+export interface TrackingListEntry {
+    orderNumber: string;
+    trackingNumber: string;
+}
+
+/**
+ * Reads a two-column list of order numbers and tracking numbers, as pasted
+ * from a spreadsheet or a shipping label export: one package per line, the
+ * order number first, then the tracking number (separated by a tab, comma or
+ * spaces). Blank lines and a header row are skipped; an order can appear on
+ * several lines, one per package.
+ *
+ * @returns The entries, and the lines that couldn't be read
+ */
+export function parseTrackingList(text: string): {
+    entries: TrackingListEntry[];
+    invalid: string[];
+} {
+    const entries: TrackingListEntry[] = [];
+    const invalid: string[] = [];
+
+    const lines = text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+
+    lines.forEach((line, index) => {
+        const match = line.match(/^"?([^\s,"]+)"?[\s,]+"?(.+?)"?$/);
+        const trackingNumber = match ? normalizeTrackingNumber(match[2]) : '';
+
+        // Tracking numbers are letters and digits, with at least one digit
+        if (!match || !/^[0-9A-Z]*\d[0-9A-Z]*$/.test(trackingNumber)) {
+            // A header row ("Order Number, Tracking Number") isn't an error
+            if (index > 0 || !/order/i.test(line)) {
+                invalid.push(line);
+            }
+            return;
+        }
+
+        entries.push({ orderNumber: match[1].toUpperCase(), trackingNumber });
+    });
+
+    return { entries, invalid };
+}
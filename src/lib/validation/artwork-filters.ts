@@ -0,0 +1,131 @@
+import { z } from 'zod';
+
+/** Sort orders for the Gallery and Shoppe grids */
+export const ARTWORK_SORTS = [
+    'featured',
+    'newest',
+    'price_asc',
+    'price_desc',
+] as const;
+
+export type ArtworkSort = (typeof ARTWORK_SORTS)[number];
+
+export const ARTWORK_SORT_LABELS: Record<ArtworkSort, string> = {
+    featured: 'Featured',
+    newest: 'Newest',
+    price_asc: 'Price: low to high',
+    price_desc: 'Price: high to low',
+};
+
+/**
+ * Search params as Next passes them to a page
+ */
+export type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+// Empty form fields arrive as '' and would otherwise coerce to 0
+const optionalNumber = (schema: z.ZodNumber) =>
+    z.preprocess(
+        (val) => (val === '' ? undefined : val),
+        z.coerce.number().pipe(schema).optional()
+    );
+
+const optionalText = (max: number) =>
+    z.preprocess(
+        (val) =>
+            typeof val === 'string' && val.trim() ? val.trim() : undefined,
+        z.string().max(max).optional()
+    );
+
+const flag = z
+    .literal('1')
+    .optional()
+    .transform((val) => val === '1');
+
+/**
+ * Gallery / Shoppe filters, read from the URL. Every field falls back to
+ * "not filtered" instead of failing, since links get shared and crawled
+ * with hand-edited or stale params.
+ */
+const artworkFiltersSchema = z.object({
+    tag: optionalText(50).catch(undefined),
+    medium: optionalText(100).catch(undefined),
+    minYear: optionalNumber(z.number().int().min(1000).max(9999)).catch(
+        undefined
+    ),
+    maxYear: optionalNumber(z.number().int().min(1000).max(9999)).catch(
+        undefined
+    ),
+    minPrice: optionalNumber(z.number().min(0)).catch(undefined),
+    maxPrice: optionalNumber(z.number().min(0)).catch(undefined),
+    inStock: flag.catch(false),
+    limitedEdition: flag.catch(false),
+    sort: z.enum(ARTWORK_SORTS).catch('featured'),
+});
+
+export type ArtworkFilters = z.infer<typeof artworkFiltersSchema>;
+
+// URL param name for each filter, in the order they appear in a URL
+const PARAM_NAMES: Record<keyof ArtworkFilters, string> = {
+    tag: 'tag',
+    medium: 'medium',
+    minYear: 'min_year',
+    maxYear: 'max_year',
+    minPrice: 'min_price',
+    maxPrice: 'max_price',
+    inStock: 'in_stock',
+    limitedEdition: 'limited',
+    sort: 'sort',
+};
+
+/**
+ * Reads filters from page search params (first value wins for repeated params)
+ */
+export function parseArtworkFilters(
+    searchParams: SearchParamsRecord
+): ArtworkFilters {
+    const first = (name: string) => {
+        const value = searchParams[name];
+        return Array.isArray(value) ? value[0] : value;
+    };
+
+    return artworkFiltersSchema.parse(
+        Object.fromEntries(
+            Object.entries(PARAM_NAMES).map(([key, name]) => [key, first(name)])
+        )
+    );
+}
+
+/**
+ * Canonical query string for a set of filters: only the filters in use, in
+ * a fixed order, so every filtered view has exactly one URL
+ *
+ * @param overrides - Changes to apply first (undefined / false clears a filter)
+ * @returns Query string without the leading '?' ('' when nothing is filtered)
+ */
+export function toArtworkFilterQuery(
+    filters: ArtworkFilters,
+    overrides: Partial<ArtworkFilters> = {}
+): string {
+    const merged = { ...filters, ...overrides };
+    const params = new URLSearchParams();
+
+    for (const [key, name] of Object.entries(PARAM_NAMES) as Array<
+        [keyof ArtworkFilters, string]
+    >) {
+        const value = merged[key];
+
+        if (value === undefined || value === false) continue;
+        if (key === 'sort' && value === 'featured') continue;
+
+        params.set(name, value === true ? '1' : String(value));
+    }
+
+    return params.toString();
+}
+
+/**
+ * Whether any filter (other than the sort order) narrows the results
+ */
+export function hasActiveArtworkFilters(filters: ArtworkFilters): boolean {
+    return toArtworkFilterQuery(filters, { sort: 'featured' }) !== '';
+}
@@ -1,5 +1,26 @@
 import { z } from 'zod';
 
+export const artworkVariantSchema = z.object({
+    id: z.string().optional(),
+    name: z.string().min(1, 'Variant name is required'),
+    size: z.string().optional().nullable(),
+    finish: z.string().optional().nullable(),
+    is_framed: z.boolean(),
+    price: z.string().refine(
+        (val) => {
+            const num = parseFloat(val);
+            return !isNaN(num) && num >= 0;
+        },
+        { message: 'Price must be a valid positive number' }
+    ),
+    sku: z.string().optional().nullable(),
+    inventory_count: z
+        .number()
+        .int()
+        .min(0, 'Inventory count must be non-negative'),
+    is_active: z.boolean(),
+});
+
 export const artworkSchema = z.object({
     title: z.string().min(1, 'Title is required'),
     slug: z
@@ -36,6 +57,17 @@ export const artworkSchema = z.object({
         .int()
         .min(0, 'Inventory count must be non-negative'),
     is_limited_edition: z.boolean(),
+    edition_size: z
+        .number()
+        .int()
+        .min(1, 'Edition size must be at least 1')
+        .optional()
+        .nullable(),
+    is_original: z.boolean().optional(),
+    shipping_class: z
+        .enum(['small', 'standard', 'large', 'oversized'])
+        .optional(),
+    project_id: z.string().uuid().optional().nullable(),
     medium: z.string().optional().nullable(),
     dimensions: z.string().optional().nullable(),
     year_created: z.number().int().optional().nullable(),
@@ -49,6 +81,8 @@ export const artworkSchema = z.object({
     seo_title: z.string().optional().nullable(),
     seo_description: z.string().optional().nullable(),
     tags: z.array(z.string()).optional().nullable(),
+    variants: z.array(artworkVariantSchema).optional(),
 });
 
+export type ArtworkVariantFormData = z.infer<typeof artworkVariantSchema>;
 export type ArtworkFormData = z.infer<typeof artworkSchema>;
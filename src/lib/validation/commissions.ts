@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+/**
+ * Commission pipeline, in order. Cancelled can be reached from any stage.
+ */
+export const COMMISSION_STATUSES = [
+    'new',
+    'quoted',
+    'deposit_paid',
+    'in_progress',
+    'delivered',
+    'cancelled',
+] as const;
+
+export type CommissionStatus = (typeof COMMISSION_STATUSES)[number];
+
+export const COMMISSION_STATUS_LABELS: Record<CommissionStatus, string> = {
+    new: 'New',
+    quoted: 'Quoted',
+    deposit_paid: 'Deposit Paid',
+    in_progress: 'In Progress',
+    delivered: 'Delivered',
+    cancelled: 'Cancelled',
+};
+
+/** Reference images a customer can attach to a request */
+export const MAX_REFERENCE_IMAGES = 3;
+export const MAX_REFERENCE_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+export const REFERENCE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Checks that a money field is a number greater than zero
+ */
+function isPositiveAmount(val: string): boolean {
+    const num = parseFloat(val);
+    return !isNaN(num) && num > 0;
+}
+
+/**
+ * Public commission request form. Shared by the form and /api/commissions;
+ * reference images are sent alongside as files and checked separately.
+ */
+export const commissionRequestSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(1, 'Name is required')
+        .max(100, 'Name must be less than 100 characters'),
+    email: z.string().trim().email('Please enter a valid email address'),
+    subject: z
+        .string()
+        .trim()
+        .min(1, 'Tell us what you would like drawn')
+        .max(500, 'Subject must be less than 500 characters'),
+    size: z
+        .string()
+        .trim()
+        .min(1, 'Size is required')
+        .max(100, 'Size must be less than 100 characters'),
+    style: z
+        .string()
+        .trim()
+        .min(1, 'Style is required')
+        .max(100, 'Style must be less than 100 characters'),
+    budget: z
+        .string()
+        .trim()
+        .optional()
+        .refine((val) => !val || isPositiveAmount(val), {
+            message: 'Budget must be a number greater than zero',
+        }),
+    deadline: z
+        .string()
+        .optional()
+        .refine((val) => !val || val >= new Date().toISOString().slice(0, 10), {
+            message: 'Deadline cannot be in the past',
+        }),
+    details: z
+        .string()
+        .trim()
+        .max(5000, 'Details must be less than 5000 characters')
+        .optional(),
+});
+
+export type CommissionRequestData = z.infer<typeof commissionRequestSchema>;
+
+/**
+ * Admin quote form: the full price and the deposit due up front. The balance
+ * is whatever remains after the deposit.
+ */
+export const commissionQuoteSchema = z
+    .object({
+        quote_amount: z.string().refine(isPositiveAmount, {
+            message: 'Quote must be a number greater than zero',
+        }),
+        deposit_amount: z.string().refine(isPositiveAmount, {
+            message: 'Deposit must be a number greater than zero',
+        }),
+        quote_notes: z.string().optional().nullable(),
+    })
+    .superRefine((data, ctx) => {
+        if (parseFloat(data.deposit_amount) >= parseFloat(data.quote_amount)) {
+            ctx.addIssue({
+                code: 'custom',
+                message: 'Deposit must be less than the quoted price',
+                path: ['deposit_amount'],
+            });
+        }
+    });
+
+export type CommissionQuoteFormData = z.infer<typeof commissionQuoteSchema>;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+/**
+ * Checks that an optional money field is empty or a non-negative number
+ */
+function isOptionalAmount(val: string | null | undefined): boolean {
+    // Allow null, undefined, or empty string (they'll be converted to null later)
+    if (!val || val === '') return true;
+    const num = parseFloat(val);
+    return !isNaN(num) && num >= 0;
+}
+
+export const couponFieldsSchema = z.object({
+    code: z
+        .string()
+        .trim()
+        .min(1, 'Code is required')
+        .max(50, 'Code must be 50 characters or fewer')
+        .regex(
+            /^[A-Za-z0-9_-]+$/,
+            'Code may only contain letters, numbers, dashes and underscores'
+        )
+        .transform((val) => val.toUpperCase()),
+    description: z.string().optional().nullable(),
+    discount_type: z.enum(['percentage', 'fixed']),
+    discount_value: z.string().refine(
+        (val) => {
+            const num = parseFloat(val);
+            return !isNaN(num) && num > 0;
+        },
+        { message: 'Discount must be a number greater than zero' }
+    ),
+    minimum_subtotal: z
+        .string()
+        .optional()
+        .nullable()
+        .refine(isOptionalAmount, {
+            message: 'Minimum subtotal must be a valid positive number',
+        }),
+    starts_at: z.string().optional().nullable(),
+    expires_at: z.string().optional().nullable(),
+    usage_limit: z
+        .number()
+        .int()
+        .min(1, 'Usage limit must be at least 1')
+        .optional()
+        .nullable(),
+    applies_to_artwork_ids: z.array(z.string()).optional().nullable(),
+    applies_to_tags: z.array(z.string()).optional().nullable(),
+    is_active: z.boolean(),
+});
+
+/**
+ * Cross-field rules shared by the coupon schema and the admin form schema
+ */
+export function refineCouponRules(
+    data: {
+        discount_type: 'percentage' | 'fixed';
+        discount_value: string;
+        starts_at?: string | null;
+        expires_at?: string | null;
+    },
+    ctx: z.RefinementCtx
+) {
+    if (
+        data.discount_type === 'percentage' &&
+        parseFloat(data.discount_value) > 100
+    ) {
+        ctx.addIssue({
+            code: 'custom',
+            message: 'Percentage discount cannot exceed 100',
+            path: ['discount_value'],
+        });
+    }
+
+    if (
+        data.starts_at &&
+        data.expires_at &&
+        new Date(data.expires_at) <= new Date(data.starts_at)
+    ) {
+        ctx.addIssue({
+            code: 'custom',
+            message: 'Expiry must be after the start date',
+            path: ['expires_at'],
+        });
+    }
+}
+
+export const couponSchema = couponFieldsSchema.superRefine(refineCouponRules);
+
+export type CouponFormData = z.infer<typeof couponSchema>;
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+/**
+ * Customer account forms. Each schema is shared by its /account form and
+ * the /api/account route that saves it.
+ */
+
+/**
+ * Magic-link sign-in (/account/login)
+ */
+export const customerLoginSchema = z.object({
+    email: z
+        .string()
+        .trim()
+        .email('Please enter a valid email address')
+        .max(254, 'Email is too long'),
+});
+
+export type CustomerLoginInput = z.infer<typeof customerLoginSchema>;
+
+/**
+ * Saved shipping address (/account/addresses), prefilled in Stripe Checkout
+ */
+export const customerAddressSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(1, 'Name is required')
+        .max(100, 'Name is too long'),
+    line1: z
+        .string()
+        .trim()
+        .min(1, 'Address is required')
+        .max(200, 'Address is too long'),
+    line2: z.string().trim().max(200, 'Address is too long'),
+    city: z
+        .string()
+        .trim()
+        .min(1, 'City is required')
+        .max(100, 'City is too long'),
+    state: z.string().trim().max(100, 'State / region is too long'),
+    zip: z
+        .string()
+        .trim()
+        .min(1, 'Postal code is required')
+        .max(20, 'Postal code is too long'),
+    country: z
+        .string()
+        .trim()
+        .toUpperCase()
+        .regex(/^[A-Z]{2}$/, 'Country must be a two-letter code (e.g. US)'),
+});
+
+export type CustomerAddressInput = z.infer<typeof customerAddressSchema>;
+
+/**
+ * Email preferences (/account/preferences)
+ */
+export const customerPreferencesSchema = z.object({
+    orderUpdateEmails: z.boolean(),
+});
+
+export type CustomerPreferencesInput = z.infer<
+    typeof customerPreferencesSchema
+>;
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+/** Amounts (USD) gift cards are sold in */
+export const GIFT_CARD_AMOUNTS = [25, 50, 100, 250] as const;
+
+/** Checkout session metadata purchaseType for gift card purchases (webhook) */
+export const GIFT_CARD_PURCHASE_TYPE = 'gift_card';
+
+/** How far ahead a delivery date can be scheduled */
+export const MAX_DELIVERY_DAYS = 365;
+
+/**
+ * Today's date as YYYY-MM-DD (UTC, like the delivery cron)
+ */
+export function getTodayDate(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Latest allowed delivery date as YYYY-MM-DD
+ */
+function getLatestDeliveryDate(): string {
+    const latest = new Date();
+    latest.setUTCDate(latest.getUTCDate() + MAX_DELIVERY_DAYS);
+    return latest.toISOString().slice(0, 10);
+}
+
+/**
+ * Gift card purchase form. Shared by the Shoppe form and
+ * /api/gift-cards/checkout. Every field ends up in Stripe session metadata,
+ * so lengths stay well under Stripe's 500 character limit.
+ */
+export const giftCardPurchaseSchema = z.object({
+    amount: z
+        .number()
+        .refine(
+            (val) => (GIFT_CARD_AMOUNTS as readonly number[]).includes(val),
+            { message: 'Please choose a gift card amount' }
+        ),
+    recipientName: z
+        .string()
+        .trim()
+        .min(1, "Recipient's name is required")
+        .max(100, 'Name must be less than 100 characters'),
+    recipientEmail: z
+        .string()
+        .trim()
+        .email('Please enter a valid email address for the recipient'),
+    senderName: z
+        .string()
+        .trim()
+        .min(1, 'Your name is required')
+        .max(100, 'Name must be less than 100 characters'),
+    senderEmail: z.string().trim().email('Please enter a valid email address'),
+    message: z
+        .string()
+        .trim()
+        .max(300, 'Message must be less than 300 characters')
+        .optional(),
+    deliverOn: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, 'Please choose a delivery date')
+        .refine((val) => val >= getTodayDate(), {
+            message: 'Delivery date cannot be in the past',
+        })
+        .refine((val) => val <= getLatestDeliveryDate(), {
+            message: `Delivery date must be within ${MAX_DELIVERY_DAYS} days`,
+        }),
+});
+
+export type GiftCardPurchaseData = z.infer<typeof giftCardPurchaseSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+/**
+ * Guest order status lookup. Shared by the /shoppe/order-status form and
+ * /api/orders/lookup. Order numbers are matched uppercase, so "yoa-…" typed
+ * from a phone still finds the order.
+ */
+export const orderLookupSchema = z.object({
+    orderNumber: z
+        .string()
+        .trim()
+        .min(1, 'Order number is required')
+        .max(40, 'Order number is too long')
+        .transform((val) => val.toUpperCase()),
+    email: z
+        .string()
+        .trim()
+        .email('Please enter a valid email address')
+        .max(254, 'Email is too long'),
+});
+
+export type OrderLookupInput = z.infer<typeof orderLookupSchema>;
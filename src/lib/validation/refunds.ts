@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+/**
+ * Admin refund form on the order page. A full refund returns everything
+ * left on the order; an item refund returns the chosen quantities.
+ */
+export const orderRefundSchema = z
+    .object({
+        type: z.enum(['full', 'items']),
+        items: z
+            .array(
+                z.object({
+                    orderItemId: z.string().uuid(),
+                    quantity: z.number().int().positive(),
+                })
+            )
+            .default([]),
+        restock: z.boolean(),
+        reason: z
+            .string()
+            .trim()
+            .max(500, 'Reason must be less than 500 characters')
+            .optional(),
+    })
+    .refine((data) => data.type === 'full' || data.items.length > 0, {
+        message: 'Choose at least one item to refund',
+        path: ['items'],
+    });
+
+export type OrderRefundFormData = z.input<typeof orderRefundSchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+/** Shortest query worth sending to the database */
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+/** Longest query accepted (anything longer is cut off) */
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+
+const searchQuerySchema = z
+    .string()
+    .trim()
+    .transform((val) =>
+        val.replace(/\s+/g, ' ').slice(0, MAX_SEARCH_QUERY_LENGTH).trim()
+    )
+    .catch('');
+
+/**
+ * Reads the `q` search param, collapsing whitespace
+ *
+ * @returns The query, or '' when there's nothing to search for
+ */
+export function parseSearchQuery(value: string | string[] | undefined): string {
+    return searchQuerySchema.parse(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Whether a query is long enough to search
+ */
+export function isSearchableQuery(query: string): boolean {
+    return query.length >= MIN_SEARCH_QUERY_LENGTH;
+}
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+/**
+ * Checks that a money field is a non-negative number
+ */
+function isAmount(val: string): boolean {
+    const num = parseFloat(val);
+    return !isNaN(num) && num >= 0;
+}
+
+/**
+ * Checks that an optional money field is empty or a non-negative number
+ */
+function isOptionalAmount(val: string | null | undefined): boolean {
+    // Allow null, undefined, or empty string (they'll be converted to null later)
+    if (!val || val === '') return true;
+    return isAmount(val);
+}
+
+export const shippingZoneFieldsSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required'),
+    countries: z
+        .array(
+            z
+                .string()
+                .trim()
+                .toUpperCase()
+                .regex(
+                    /^[A-Z]{2}$/,
+                    'Countries must be two-letter ISO codes (e.g. US, CA, GB)'
+                )
+        )
+        .min(1, 'Add at least one country'),
+    standard_rate: z.string().refine(isAmount, {
+        message: 'Standard rate must be a valid positive number',
+    }),
+    express_rate: z.string().optional().nullable().refine(isOptionalAmount, {
+        message: 'Express rate must be a valid positive number',
+    }),
+    free_shipping_minimum: z
+        .string()
+        .optional()
+        .nullable()
+        .refine(isOptionalAmount, {
+            message: 'Free shipping minimum must be a valid positive number',
+        }),
+    standard_min_days: z.number().int().min(1, 'Must be at least 1 day'),
+    standard_max_days: z.number().int().min(1, 'Must be at least 1 day'),
+    express_min_days: z
+        .number()
+        .int()
+        .min(1, 'Must be at least 1 day')
+        .optional()
+        .nullable(),
+    express_max_days: z
+        .number()
+        .int()
+        .min(1, 'Must be at least 1 day')
+        .optional()
+        .nullable(),
+    excludes_originals: z.boolean(),
+    is_active: z.boolean(),
+    display_order: z.number().int(),
+});
+
+/**
+ * Cross-field rules shared by the shipping zone schema and the admin form schema
+ */
+export function refineShippingZoneRules(
+    data: {
+        express_rate?: string | null;
+        standard_min_days: number;
+        standard_max_days: number;
+        express_min_days?: number | null;
+        express_max_days?: number | null;
+    },
+    ctx: z.RefinementCtx
+) {
+    if (data.standard_max_days < data.standard_min_days) {
+        ctx.addIssue({
+            code: 'custom',
+            message: 'Maximum days cannot be less than minimum days',
+            path: ['standard_max_days'],
+        });
+    }
+
+    if (!data.express_rate) {
+        return;
+    }
+
+    if (data.express_min_days == null || data.express_max_days == null) {
+        ctx.addIssue({
+            code: 'custom',
+            message:
+                'Express delivery days are required when express is offered',
+            path: ['express_min_days'],
+        });
+    } else if (data.express_max_days < data.express_min_days) {
+        ctx.addIssue({
+            code: 'custom',
+            message: 'Maximum days cannot be less than minimum days',
+            path: ['express_max_days'],
+        });
+    }
+}
+
+export const shippingZoneSchema = shippingZoneFieldsSchema.superRefine(
+    refineShippingZoneRules
+);
+
+export type ShippingZoneFormData = z.infer<typeof shippingZoneSchema>;
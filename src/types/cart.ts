@@ -12,11 +12,23 @@ export interface CartItem {
     imageUrl?: string;
     slug: string;
     maxQuantity?: number; // Maximum inventory available (optional for backward compatibility)
+    variantId?: string; // Selected print size / framing variant (omitted for single-option listings)
+    variantName?: string; // Display label of the selected variant, e.g. "11x14 Framed"
+    preorder?: CartPreorder; // Set by server validation for artwork from an In The Works project
+}
+
+export interface CartPreorder {
+    projectId: string;
+    projectTitle: string;
+    expectedShipDate: string | null; // Project's expected completion (YYYY-MM-DD); null = TBA
 }
 
 export interface Cart {
     items: CartItem[];
     lastUpdated: number; // timestamp
+    couponCode?: string; // Coupon entered in the cart summary (re-validated server-side)
+    shippingCountry?: string; // "Ship to" country (ISO alpha-2); siteConfig default when unset
+    giftCardCodes?: string[]; // Gift cards entered in the cart summary, redeemed in order
 }
 
 export interface CartSummary {
@@ -27,12 +39,48 @@ export interface CartSummary {
     itemCount: number;
 }
 
+export interface ShippingOption {
+    id: 'standard' | 'express';
+    displayName: string;
+    amount: number; // dollars
+    deliveryEstimate: { minimum: number; maximum: number }; // business days
+}
+
+export interface CartShippingZone {
+    id: string;
+    name: string;
+    countries: string[]; // Addresses Stripe Checkout may collect for this cart
+    freeShippingMinimum: number | null; // dollars; null = never free
+}
+
+export interface AppliedCoupon {
+    id: string;
+    code: string;
+    description?: string;
+    discountAmount: number;
+}
+
+export interface AppliedGiftCard {
+    id: string;
+    code: string;
+    availableBalance: number; // dollars; balance not held by other open checkouts
+    redeemedAmount: number; // dollars; the part of the balance this cart uses
+}
+
 export interface ValidatedCart {
     isValid: boolean;
     items: CartItem[];
     subtotal: number;
-    shippingCost: number;
+    shippingCost: number; // Cheapest (standard) option, used for the total
+    shippingOptions: ShippingOption[]; // Offered in the cart preview and Stripe Checkout
+    shippingZone?: CartShippingZone; // Present when a shipping country was supplied and is served
+    shippingError?: string; // Why the cart can't ship to the supplied country
     taxAmount: number;
     total: number;
+    coupon?: AppliedCoupon; // Present when a valid coupon code was supplied
+    couponError?: string; // Why the supplied coupon code was rejected
+    giftCards?: AppliedGiftCard[]; // Present when valid gift card codes were supplied
+    giftCardAmount?: number; // Total redeemed from giftCards (already taken off total)
+    giftCardError?: string; // Why a supplied gift card code was rejected
     errors?: string[];
 }
@@ -63,6 +63,15 @@ export type Database = {
                     sku: string | null;
                     inventory_count: number;
                     is_limited_edition: boolean;
+                    edition_size: number | null;
+                    last_edition_number: number;
+                    is_original: boolean;
+                    shipping_class:
+                        | 'small'
+                        | 'standard'
+                        | 'large'
+                        | 'oversized';
+                    project_id: string | null;
                     medium: string | null;
                     dimensions: string | null;
                     year_created: number | null;
@@ -89,6 +98,15 @@ export type Database = {
                     sku?: string | null;
                     inventory_count?: number;
                     is_limited_edition?: boolean;
+                    edition_size?: number | null;
+                    last_edition_number?: number;
+                    is_original?: boolean;
+                    shipping_class?:
+                        | 'small'
+                        | 'standard'
+                        | 'large'
+                        | 'oversized';
+                    project_id?: string | null;
                     medium?: string | null;
                     dimensions?: string | null;
                     year_created?: number | null;
@@ -115,6 +133,15 @@ export type Database = {
                     sku?: string | null;
                     inventory_count?: number;
                     is_limited_edition?: boolean;
+                    edition_size?: number | null;
+                    last_edition_number?: number;
+                    is_original?: boolean;
+                    shipping_class?:
+                        | 'small'
+                        | 'standard'
+                        | 'large'
+                        | 'oversized';
+                    project_id?: string | null;
                     medium?: string | null;
                     dimensions?: string | null;
                     year_created?: number | null;
@@ -131,7 +158,71 @@ export type Database = {
                     created_at?: string;
                     updated_at?: string;
                 };
-                Relationships: [];
+                Relationships: [
+                    {
+                        foreignKeyName: 'artwork_project_id_fkey';
+                        columns: ['project_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'projects';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            artwork_variants: {
+                Row: {
+                    id: string;
+                    artwork_id: string;
+                    name: string;
+                    size: string | null;
+                    finish: string | null;
+                    is_framed: boolean;
+                    price: string;
+                    sku: string | null;
+                    inventory_count: number;
+                    is_active: boolean;
+                    display_order: number;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    artwork_id: string;
+                    name: string;
+                    size?: string | null;
+                    finish?: string | null;
+                    is_framed?: boolean;
+                    price: string;
+                    sku?: string | null;
+                    inventory_count?: number;
+                    is_active?: boolean;
+                    display_order?: number;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    artwork_id?: string;
+                    name?: string;
+                    size?: string | null;
+                    finish?: string | null;
+                    is_framed?: boolean;
+                    price?: string;
+                    sku?: string | null;
+                    inventory_count?: number;
+                    is_active?: boolean;
+                    display_order?: number;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'artwork_variants_artwork_id_fkey';
+                        columns: ['artwork_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'artwork';
+                        referencedColumns: ['id'];
+                    },
+                ];
             };
             pages: {
                 Row: {
@@ -310,6 +401,92 @@ export type Database = {
                 };
                 Relationships: [];
             };
+            coupon_holds: {
+                Row: {
+                    id: string;
+                    reservation_id: string;
+                    coupon_id: string;
+                    expires_at: string;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    reservation_id: string;
+                    coupon_id: string;
+                    expires_at: string;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    reservation_id?: string;
+                    coupon_id?: string;
+                    expires_at?: string;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'coupon_holds_coupon_id_fkey';
+                        columns: ['coupon_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'coupons';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            coupons: {
+                Row: {
+                    id: string;
+                    code: string;
+                    description: string | null;
+                    discount_type: 'percentage' | 'fixed';
+                    discount_value: string;
+                    minimum_subtotal: string | null;
+                    starts_at: string | null;
+                    expires_at: string | null;
+                    usage_limit: number | null;
+                    usage_count: number;
+                    applies_to_artwork_ids: string[] | null;
+                    applies_to_tags: string[] | null;
+                    is_active: boolean;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    code: string;
+                    description?: string | null;
+                    discount_type: 'percentage' | 'fixed';
+                    discount_value: string;
+                    minimum_subtotal?: string | null;
+                    starts_at?: string | null;
+                    expires_at?: string | null;
+                    usage_limit?: number | null;
+                    usage_count?: number;
+                    applies_to_artwork_ids?: string[] | null;
+                    applies_to_tags?: string[] | null;
+                    is_active?: boolean;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    code?: string;
+                    description?: string | null;
+                    discount_type?: 'percentage' | 'fixed';
+                    discount_value?: string;
+                    minimum_subtotal?: string | null;
+                    starts_at?: string | null;
+                    expires_at?: string | null;
+                    usage_limit?: number | null;
+                    usage_count?: number;
+                    applies_to_artwork_ids?: string[] | null;
+                    applies_to_tags?: string[] | null;
+                    is_active?: boolean;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Relationships: [];
+            };
             orders: {
                 Row: {
                     id: string;
@@ -333,6 +510,12 @@ export type Database = {
                     shipping_cost: string;
                     tax_amount: string;
                     total: string;
+                    coupon_id: string | null;
+                    coupon_code: string | null;
+                    discount_amount: string;
+                    gift_card_amount: string;
+                    is_preorder: boolean;
+                    expected_ship_date: string | null;
                     status:
                         | 'pending'
                         | 'paid'
@@ -341,8 +524,14 @@ export type Database = {
                         | 'delivered'
                         | 'cancelled';
                     payment_intent_id: string | null;
-                    payment_status: 'pending' | 'succeeded' | 'failed';
-                    shipping_tracking_number: string | null;
+                    payment_status:
+                        | 'pending'
+                        | 'succeeded'
+                        | 'failed'
+                        | 'refunded'
+                        | 'partially_refunded';
+                    shipped_email_sent_at: string | null;
+                    delivered_email_sent_at: string | null;
                     admin_notes: string | null;
                     created_at: string;
                     updated_at: string;
@@ -369,6 +558,12 @@ export type Database = {
                     shipping_cost?: string;
                     tax_amount?: string;
                     total: string;
+                    coupon_id?: string | null;
+                    coupon_code?: string | null;
+                    discount_amount?: string;
+                    gift_card_amount?: string;
+                    is_preorder?: boolean;
+                    expected_ship_date?: string | null;
                     status?:
                         | 'pending'
                         | 'paid'
@@ -377,8 +572,14 @@ export type Database = {
                         | 'delivered'
                         | 'cancelled';
                     payment_intent_id?: string | null;
-                    payment_status?: 'pending' | 'succeeded' | 'failed';
-                    shipping_tracking_number?: string | null;
+                    payment_status?:
+                        | 'pending'
+                        | 'succeeded'
+                        | 'failed'
+                        | 'refunded'
+                        | 'partially_refunded';
+                    shipped_email_sent_at?: string | null;
+                    delivered_email_sent_at?: string | null;
                     admin_notes?: string | null;
                     created_at?: string;
                     updated_at?: string;
@@ -405,6 +606,12 @@ export type Database = {
                     shipping_cost?: string;
                     tax_amount?: string;
                     total?: string;
+                    coupon_id?: string | null;
+                    coupon_code?: string | null;
+                    discount_amount?: string;
+                    gift_card_amount?: string;
+                    is_preorder?: boolean;
+                    expected_ship_date?: string | null;
                     status?:
                         | 'pending'
                         | 'paid'
@@ -413,13 +620,27 @@ export type Database = {
                         | 'delivered'
                         | 'cancelled';
                     payment_intent_id?: string | null;
-                    payment_status?: 'pending' | 'succeeded' | 'failed';
-                    shipping_tracking_number?: string | null;
+                    payment_status?:
+                        | 'pending'
+                        | 'succeeded'
+                        | 'failed'
+                        | 'refunded'
+                        | 'partially_refunded';
+                    shipped_email_sent_at?: string | null;
+                    delivered_email_sent_at?: string | null;
                     admin_notes?: string | null;
                     created_at?: string;
                     updated_at?: string;
                 };
-                Relationships: [];
+                Relationships: [
+                    {
+                        foreignKeyName: 'orders_coupon_id_fkey';
+                        columns: ['coupon_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'coupons';
+                        referencedColumns: ['id'];
+                    },
+                ];
             };
             order_items: {
                 Row: {
@@ -429,6 +650,12 @@ export type Database = {
                     quantity: number;
                     price_at_purchase: string;
                     line_subtotal: string;
+                    variant_id: string | null;
+                    variant_name: string | null;
+                    preorder_project_id: string | null;
+                    edition_number_start: number | null;
+                    edition_size: number | null;
+                    certificate_token: string | null;
                     created_at: string;
                 };
                 Insert: {
@@ -438,6 +665,12 @@ export type Database = {
                     quantity: number;
                     price_at_purchase: string;
                     line_subtotal: string;
+                    variant_id?: string | null;
+                    variant_name?: string | null;
+                    preorder_project_id?: string | null;
+                    edition_number_start?: number | null;
+                    edition_size?: number | null;
+                    certificate_token?: string | null;
                     created_at?: string;
                 };
                 Update: {
@@ -447,6 +680,12 @@ export type Database = {
                     quantity?: number;
                     price_at_purchase?: string;
                     line_subtotal?: string;
+                    variant_id?: string | null;
+                    variant_name?: string | null;
+                    preorder_project_id?: string | null;
+                    edition_number_start?: number | null;
+                    edition_size?: number | null;
+                    certificate_token?: string | null;
                     created_at?: string;
                 };
                 Relationships: [
@@ -464,26 +703,942 @@ export type Database = {
                         referencedRelation: 'artwork';
                         referencedColumns: ['id'];
                     },
+                    {
+                        foreignKeyName: 'order_items_variant_id_fkey';
+                        columns: ['variant_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'artwork_variants';
+                        referencedColumns: ['id'];
+                    },
+                    {
+                        foreignKeyName: 'order_items_preorder_project_id_fkey';
+                        columns: ['preorder_project_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'projects';
+                        referencedColumns: ['id'];
+                    },
                 ];
             };
-        };
-        Views: Record<string, never>;
-        Functions: {
-            update_updated_at_column: {
-                Args: Record<PropertyKey, never>;
-                Returns: undefined;
+            order_refunds: {
+                Row: {
+                    id: string;
+                    order_id: string;
+                    stripe_refund_id: string;
+                    amount: string;
+                    reason: string | null;
+                    restocked: boolean;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    order_id: string;
+                    stripe_refund_id: string;
+                    amount: string;
+                    reason?: string | null;
+                    restocked?: boolean;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    order_id?: string;
+                    stripe_refund_id?: string;
+                    amount?: string;
+                    reason?: string | null;
+                    restocked?: boolean;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'order_refunds_order_id_fkey';
+                        columns: ['order_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'orders';
+                        referencedColumns: ['id'];
+                    },
+                ];
             };
-            generate_order_number: {
-                Args: Record<PropertyKey, never>;
-                Returns: string;
+            order_refund_items: {
+                Row: {
+                    id: string;
+                    refund_id: string;
+                    order_item_id: string;
+                    quantity: number;
+                };
+                Insert: {
+                    id?: string;
+                    refund_id: string;
+                    order_item_id: string;
+                    quantity: number;
+                };
+                Update: {
+                    id?: string;
+                    refund_id?: string;
+                    order_item_id?: string;
+                    quantity?: number;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'order_refund_items_refund_id_fkey';
+                        columns: ['refund_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'order_refunds';
+                        referencedColumns: ['id'];
+                    },
+                    {
+                        foreignKeyName: 'order_refund_items_order_item_id_fkey';
+                        columns: ['order_item_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'order_items';
+                        referencedColumns: ['id'];
+                    },
+                ];
             };
-            set_order_number: {
-                Args: Record<PropertyKey, never>;
-                Returns: undefined;
+            order_disputes: {
+                Row: {
+                    id: string;
+                    order_id: string;
+                    stripe_dispute_id: string;
+                    amount: string;
+                    reason: string;
+                    status: string;
+                    evidence_due_by: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    order_id: string;
+                    stripe_dispute_id: string;
+                    amount: string;
+                    reason: string;
+                    status: string;
+                    evidence_due_by?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    order_id?: string;
+                    stripe_dispute_id?: string;
+                    amount?: string;
+                    reason?: string;
+                    status?: string;
+                    evidence_due_by?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'order_disputes_order_id_fkey';
+                        columns: ['order_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'orders';
+                        referencedColumns: ['id'];
+                    },
+                ];
             };
-            decrement_artwork_inventory: {
-                Args: Record<PropertyKey, never>;
-                Returns: undefined;
+            order_item_restocks: {
+                Row: {
+                    id: string;
+                    order_item_id: string;
+                    quantity: number;
+                    disposition: 'restocked' | 'written_off';
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    order_item_id: string;
+                    quantity: number;
+                    disposition: 'restocked' | 'written_off';
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    order_item_id?: string;
+                    quantity?: number;
+                    disposition?: 'restocked' | 'written_off';
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'order_item_restocks_order_item_id_fkey';
+                        columns: ['order_item_id'];
+                        isOneToOne: true;
+                        referencedRelation: 'order_items';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            shipping_zones: {
+                Row: {
+                    id: string;
+                    name: string;
+                    countries: string[];
+                    standard_rate: string;
+                    express_rate: string | null;
+                    free_shipping_minimum: string | null;
+                    standard_min_days: number;
+                    standard_max_days: number;
+                    express_min_days: number | null;
+                    express_max_days: number | null;
+                    excludes_originals: boolean;
+                    is_active: boolean;
+                    display_order: number;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    name: string;
+                    countries: string[];
+                    standard_rate: string;
+                    express_rate?: string | null;
+                    free_shipping_minimum?: string | null;
+                    standard_min_days: number;
+                    standard_max_days: number;
+                    express_min_days?: number | null;
+                    express_max_days?: number | null;
+                    excludes_originals?: boolean;
+                    is_active?: boolean;
+                    display_order?: number;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    name?: string;
+                    countries?: string[];
+                    standard_rate?: string;
+                    express_rate?: string | null;
+                    free_shipping_minimum?: string | null;
+                    standard_min_days?: number;
+                    standard_max_days?: number;
+                    express_min_days?: number | null;
+                    express_max_days?: number | null;
+                    excludes_originals?: boolean;
+                    is_active?: boolean;
+                    display_order?: number;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Relationships: [];
+            };
+            inventory_holds: {
+                Row: {
+                    id: string;
+                    reservation_id: string;
+                    checkout_session_id: string | null;
+                    artwork_id: string;
+                    variant_id: string | null;
+                    quantity: number;
+                    expires_at: string;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    reservation_id: string;
+                    checkout_session_id?: string | null;
+                    artwork_id: string;
+                    variant_id?: string | null;
+                    quantity: number;
+                    expires_at: string;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    reservation_id?: string;
+                    checkout_session_id?: string | null;
+                    artwork_id?: string;
+                    variant_id?: string | null;
+                    quantity?: number;
+                    expires_at?: string;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'inventory_holds_artwork_id_fkey';
+                        columns: ['artwork_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'artwork';
+                        referencedColumns: ['id'];
+                    },
+                    {
+                        foreignKeyName: 'inventory_holds_variant_id_fkey';
+                        columns: ['variant_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'artwork_variants';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            stock_waitlist: {
+                Row: {
+                    id: string;
+                    artwork_id: string;
+                    email: string;
+                    unsubscribe_token: string;
+                    notified_at: string | null;
+                    unsubscribed_at: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    artwork_id: string;
+                    email: string;
+                    unsubscribe_token?: string;
+                    notified_at?: string | null;
+                    unsubscribed_at?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    artwork_id?: string;
+                    email?: string;
+                    unsubscribe_token?: string;
+                    notified_at?: string | null;
+                    unsubscribed_at?: string | null;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'stock_waitlist_artwork_id_fkey';
+                        columns: ['artwork_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'artwork';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            commissions: {
+                Row: {
+                    id: string;
+                    customer_name: string;
+                    customer_email: string;
+                    subject: string;
+                    size: string;
+                    style: string;
+                    budget: string | null;
+                    deadline: string | null;
+                    details: string | null;
+                    reference_image_paths: string[];
+                    status:
+                        | 'new'
+                        | 'quoted'
+                        | 'deposit_paid'
+                        | 'in_progress'
+                        | 'delivered'
+                        | 'cancelled';
+                    quote_amount: string | null;
+                    deposit_amount: string | null;
+                    quote_notes: string | null;
+                    quoted_at: string | null;
+                    deposit_payment_link_id: string | null;
+                    deposit_payment_link_url: string | null;
+                    balance_payment_link_id: string | null;
+                    balance_payment_link_url: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    customer_name: string;
+                    customer_email: string;
+                    subject: string;
+                    size: string;
+                    style: string;
+                    budget?: string | null;
+                    deadline?: string | null;
+                    details?: string | null;
+                    reference_image_paths?: string[];
+                    status?:
+                        | 'new'
+                        | 'quoted'
+                        | 'deposit_paid'
+                        | 'in_progress'
+                        | 'delivered'
+                        | 'cancelled';
+                    quote_amount?: string | null;
+                    deposit_amount?: string | null;
+                    quote_notes?: string | null;
+                    quoted_at?: string | null;
+                    deposit_payment_link_id?: string | null;
+                    deposit_payment_link_url?: string | null;
+                    balance_payment_link_id?: string | null;
+                    balance_payment_link_url?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    customer_name?: string;
+                    customer_email?: string;
+                    subject?: string;
+                    size?: string;
+                    style?: string;
+                    budget?: string | null;
+                    deadline?: string | null;
+                    details?: string | null;
+                    reference_image_paths?: string[];
+                    status?:
+                        | 'new'
+                        | 'quoted'
+                        | 'deposit_paid'
+                        | 'in_progress'
+                        | 'delivered'
+                        | 'cancelled';
+                    quote_amount?: string | null;
+                    deposit_amount?: string | null;
+                    quote_notes?: string | null;
+                    quoted_at?: string | null;
+                    deposit_payment_link_id?: string | null;
+                    deposit_payment_link_url?: string | null;
+                    balance_payment_link_id?: string | null;
+                    balance_payment_link_url?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Relationships: [];
+            };
+            commission_payments: {
+                Row: {
+                    id: string;
+                    commission_id: string;
+                    payment_type: 'deposit' | 'balance';
+                    amount: string;
+                    stripe_checkout_session_id: string;
+                    payment_intent_id: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    commission_id: string;
+                    payment_type: 'deposit' | 'balance';
+                    amount: string;
+                    stripe_checkout_session_id: string;
+                    payment_intent_id?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    commission_id?: string;
+                    payment_type?: 'deposit' | 'balance';
+                    amount?: string;
+                    stripe_checkout_session_id?: string;
+                    payment_intent_id?: string | null;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'commission_payments_commission_id_fkey';
+                        columns: ['commission_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'commissions';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            gift_cards: {
+                Row: {
+                    id: string;
+                    code: string;
+                    initial_amount: string;
+                    balance: string;
+                    purchaser_name: string;
+                    purchaser_email: string;
+                    recipient_name: string;
+                    recipient_email: string;
+                    message: string | null;
+                    deliver_on: string;
+                    delivered_at: string | null;
+                    is_active: boolean;
+                    stripe_checkout_session_id: string;
+                    payment_intent_id: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    code: string;
+                    initial_amount: string;
+                    balance: string;
+                    purchaser_name: string;
+                    purchaser_email: string;
+                    recipient_name: string;
+                    recipient_email: string;
+                    message?: string | null;
+                    deliver_on: string;
+                    delivered_at?: string | null;
+                    is_active?: boolean;
+                    stripe_checkout_session_id: string;
+                    payment_intent_id?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    code?: string;
+                    initial_amount?: string;
+                    balance?: string;
+                    purchaser_name?: string;
+                    purchaser_email?: string;
+                    recipient_name?: string;
+                    recipient_email?: string;
+                    message?: string | null;
+                    deliver_on?: string;
+                    delivered_at?: string | null;
+                    is_active?: boolean;
+                    stripe_checkout_session_id?: string;
+                    payment_intent_id?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Relationships: [];
+            };
+            gift_card_transactions: {
+                Row: {
+                    id: string;
+                    gift_card_id: string;
+                    transaction_type: 'purchase' | 'redemption';
+                    amount: string;
+                    order_id: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    gift_card_id: string;
+                    transaction_type: 'purchase' | 'redemption';
+                    amount: string;
+                    order_id?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    gift_card_id?: string;
+                    transaction_type?: 'purchase' | 'redemption';
+                    amount?: string;
+                    order_id?: string | null;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'gift_card_transactions_gift_card_id_fkey';
+                        columns: ['gift_card_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'gift_cards';
+                        referencedColumns: ['id'];
+                    },
+                    {
+                        foreignKeyName: 'gift_card_transactions_order_id_fkey';
+                        columns: ['order_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'orders';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            gift_card_holds: {
+                Row: {
+                    id: string;
+                    reservation_id: string;
+                    gift_card_id: string;
+                    amount: string;
+                    expires_at: string;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    reservation_id: string;
+                    gift_card_id: string;
+                    amount: string;
+                    expires_at: string;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    reservation_id?: string;
+                    gift_card_id?: string;
+                    amount?: string;
+                    expires_at?: string;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'gift_card_holds_gift_card_id_fkey';
+                        columns: ['gift_card_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'gift_cards';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            checkout_reservations: {
+                Row: {
+                    reservation_id: string;
+                    gift_card_redemptions: Json;
+                    gift_cards_redeemed_at: string | null;
+                    items: Json;
+                    created_at: string;
+                };
+                Insert: {
+                    reservation_id: string;
+                    gift_card_redemptions?: Json;
+                    gift_cards_redeemed_at?: string | null;
+                    items?: Json;
+                    created_at?: string;
+                };
+                Update: {
+                    reservation_id?: string;
+                    gift_card_redemptions?: Json;
+                    gift_cards_redeemed_at?: string | null;
+                    items?: Json;
+                    created_at?: string;
+                };
+                Relationships: [];
+            };
+            customers: {
+                Row: {
+                    id: string;
+                    auth_id: string;
+                    email: string;
+                    shipping_name: string | null;
+                    shipping_address_line1: string | null;
+                    shipping_address_line2: string | null;
+                    shipping_city: string | null;
+                    shipping_state: string | null;
+                    shipping_zip: string | null;
+                    shipping_country: string | null;
+                    stripe_customer_id: string | null;
+                    order_update_emails: boolean;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    auth_id: string;
+                    email: string;
+                    shipping_name?: string | null;
+                    shipping_address_line1?: string | null;
+                    shipping_address_line2?: string | null;
+                    shipping_city?: string | null;
+                    shipping_state?: string | null;
+                    shipping_zip?: string | null;
+                    shipping_country?: string | null;
+                    stripe_customer_id?: string | null;
+                    order_update_emails?: boolean;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    auth_id?: string;
+                    email?: string;
+                    shipping_name?: string | null;
+                    shipping_address_line1?: string | null;
+                    shipping_address_line2?: string | null;
+                    shipping_city?: string | null;
+                    shipping_state?: string | null;
+                    shipping_zip?: string | null;
+                    shipping_country?: string | null;
+                    stripe_customer_id?: string | null;
+                    order_update_emails?: boolean;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Relationships: [];
+            };
+            rate_limits: {
+                Row: {
+                    key: string;
+                    attempts: number;
+                    window_start: string;
+                };
+                Insert: {
+                    key: string;
+                    attempts?: number;
+                    window_start?: string;
+                };
+                Update: {
+                    key?: string;
+                    attempts?: number;
+                    window_start?: string;
+                };
+                Relationships: [];
+            };
+            stripe_webhook_events: {
+                Row: {
+                    id: string;
+                    stripe_event_id: string;
+                    type: string;
+                    payload: Json;
+                    status: 'processing' | 'processed' | 'failed';
+                    error: string | null;
+                    attempts: number;
+                    processed_at: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    stripe_event_id: string;
+                    type: string;
+                    payload: Json;
+                    status?: 'processing' | 'processed' | 'failed';
+                    error?: string | null;
+                    attempts?: number;
+                    processed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    stripe_event_id?: string;
+                    type?: string;
+                    payload?: Json;
+                    status?: 'processing' | 'processed' | 'failed';
+                    error?: string | null;
+                    attempts?: number;
+                    processed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Relationships: [];
+            };
+            order_status_history: {
+                Row: {
+                    id: string;
+                    order_id: string;
+                    from_status: string | null;
+                    to_status: string;
+                    admin_id: string | null;
+                    changed_by: string | null;
+                    note: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    order_id: string;
+                    from_status?: string | null;
+                    to_status: string;
+                    admin_id?: string | null;
+                    changed_by?: string | null;
+                    note?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    order_id?: string;
+                    from_status?: string | null;
+                    to_status?: string;
+                    admin_id?: string | null;
+                    changed_by?: string | null;
+                    note?: string | null;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'order_status_history_order_id_fkey';
+                        columns: ['order_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'orders';
+                        referencedColumns: ['id'];
+                    },
+                    {
+                        foreignKeyName: 'order_status_history_admin_id_fkey';
+                        columns: ['admin_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'administrators';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            order_shipments: {
+                Row: {
+                    id: string;
+                    order_id: string;
+                    tracking_number: string;
+                    carrier: 'usps' | 'ups' | 'fedex' | 'dhl' | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    order_id: string;
+                    tracking_number: string;
+                    carrier?: 'usps' | 'ups' | 'fedex' | 'dhl' | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    order_id?: string;
+                    tracking_number?: string;
+                    carrier?: 'usps' | 'ups' | 'fedex' | 'dhl' | null;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'order_shipments_order_id_fkey';
+                        columns: ['order_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'orders';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+        };
+        Views: {
+            held_inventory: {
+                Row: {
+                    artwork_id: string;
+                    variant_id: string | null;
+                    held_quantity: number;
+                };
+                Relationships: [];
+            };
+        };
+        Functions: {
+            update_updated_at_column: {
+                Args: Record<PropertyKey, never>;
+                Returns: undefined;
+            };
+            generate_order_number: {
+                Args: Record<PropertyKey, never>;
+                Returns: string;
+            };
+            set_order_number: {
+                Args: Record<PropertyKey, never>;
+                Returns: undefined;
+            };
+            decrement_artwork_inventory: {
+                Args: Record<PropertyKey, never>;
+                Returns: undefined;
+            };
+            increment_coupon_usage: {
+                Args: Record<PropertyKey, never>;
+                Returns: undefined;
+            };
+            reserve_inventory: {
+                Args: {
+                    p_reservation_id: string;
+                    p_items: Json;
+                    p_expires_at: string;
+                };
+                Returns: undefined;
+            };
+            reserve_coupon: {
+                Args: {
+                    p_reservation_id: string;
+                    p_coupon_id: string;
+                    p_expires_at: string;
+                };
+                Returns: undefined;
+            };
+            reserve_gift_cards: {
+                Args: {
+                    p_reservation_id: string;
+                    p_redemptions: Json;
+                    p_expires_at: string;
+                };
+                Returns: undefined;
+            };
+            redeem_gift_card_holds: {
+                Args: {
+                    p_reservation_id: string;
+                    p_order_id: string | null;
+                };
+                Returns: undefined;
+            };
+            record_order_refund: {
+                Args: {
+                    p_order_id: string;
+                    p_stripe_refund_id: string;
+                    p_amount: number;
+                    p_reason: string | null;
+                    p_restock: boolean;
+                    p_items: Json;
+                };
+                Returns: string;
+            };
+            restore_inventory_on_cancel: {
+                Args: Record<PropertyKey, never>;
+                Returns: undefined;
+            };
+            unrefunded_quantity: {
+                Args: {
+                    p_order_item_id: string;
+                };
+                Returns: number;
+            };
+            cancel_order: {
+                Args: {
+                    p_order_id: string;
+                    p_written_off_item_ids: string[];
+                    p_from_status: string;
+                    p_admin_id: string | null;
+                    p_changed_by: string | null;
+                    p_note: string | null;
+                };
+                Returns: boolean;
+            };
+            search_site: {
+                Args: {
+                    p_query: string;
+                    p_include_unpublished?: boolean;
+                    p_limit?: number;
+                };
+                Returns: {
+                    result_type: 'artwork' | 'project' | 'event';
+                    id: string;
+                    title: string;
+                    slug: string;
+                    snippet: string;
+                    image_url: string | null;
+                    is_published: boolean;
+                    rank: number;
+                }[];
+            };
+            consume_rate_limit: {
+                Args: {
+                    p_key: string;
+                    p_max_attempts: number;
+                    p_window_seconds: number;
+                };
+                Returns: boolean;
+            };
+            claim_stripe_webhook_event: {
+                Args: {
+                    p_stripe_event_id: string;
+                    p_type: string;
+                    p_payload: Json;
+                };
+                Returns: boolean;
+            };
+            record_order_status_change: {
+                Args: Record<PropertyKey, never>;
+                Returns: undefined;
+            };
+            set_order_status_author: {
+                Args: {
+                    p_admin_id: string | null;
+                    p_changed_by: string | null;
+                    p_note: string | null;
+                };
+                Returns: undefined;
+            };
+            update_order_status: {
+                Args: {
+                    p_order_id: string;
+                    p_from_status: string;
+                    p_to_status: string;
+                    p_admin_id: string | null;
+                    p_changed_by: string | null;
+                    p_note: string | null;
+                };
+                Returns: boolean;
+            };
+            search_text: {
+                Args: {
+                    o: Database['public']['Tables']['orders']['Row'];
+                };
+                Returns: string;
             };
         };
         Enums: Record<string, never>;
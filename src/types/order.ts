@@ -30,6 +30,21 @@ export interface OrderItem {
     lineSubtotal: number;
     title?: string;
     imageUrl?: string;
+    variantId?: string;
+    variantName?: string;
+    preorderProjectId?: string; // In The Works project this line was pre-ordered from
+    editionNumberStart?: number; // First of `quantity` consecutive limited edition numbers
+    editionSize?: number;
+    certificateToken?: string; // Certificate of authenticity link (numbered lines only)
+}
+
+/**
+ * A package an order shipped in
+ */
+export interface OrderShipment {
+    trackingNumber: string;
+    carrierName?: string; // e.g. 'UPS'; unset when the carrier is unknown
+    trackingUrl?: string; // Carrier's tracking page
 }
 
 export interface Order {
@@ -44,16 +59,42 @@ export interface Order {
     shippingCost: number;
     taxAmount: number;
     total: number;
+    discountAmount?: number;
+    couponCode?: string;
+    giftCardAmount?: number; // Paid by gift card (see gift_card_transactions for the cards)
+    isPreorder?: boolean;
+    expectedShipDate?: string; // Latest expected completion of the pre-ordered projects
     status: OrderStatus;
     paymentStatus: PaymentStatus;
     paymentIntentId?: string;
-    shippingTrackingNumber?: string;
+    shipments?: OrderShipment[]; // One per package, in the order they shipped
     adminNotes?: string;
     items: OrderItem[];
     createdAt: string;
     updatedAt: string;
 }
 
+/**
+ * What the guest order status page shows: items, totals, status and
+ * tracking, without addresses, payment details or admin notes
+ */
+export type OrderStatusSummary = Pick<
+    Order,
+    | 'orderNumber'
+    | 'status'
+    | 'shipments'
+    | 'isPreorder'
+    | 'expectedShipDate'
+    | 'items'
+    | 'subtotal'
+    | 'shippingCost'
+    | 'taxAmount'
+    | 'discountAmount'
+    | 'giftCardAmount'
+    | 'total'
+    | 'createdAt'
+>;
+
 export type OrderStatus =
     | 'pending'
     | 'paid'
@@ -61,7 +102,12 @@ export type OrderStatus =
     | 'shipped'
     | 'delivered'
     | 'cancelled';
-export type PaymentStatus = 'pending' | 'succeeded' | 'failed';
+export type PaymentStatus =
+    | 'pending'
+    | 'succeeded'
+    | 'failed'
+    | 'refunded'
+    | 'partially_refunded';
 
 export interface CreateOrderPayload {
     orderNumber: string;
@@ -74,6 +120,10 @@ export interface CreateOrderPayload {
     shippingCost: number;
     taxAmount: number;
     total: number;
+    couponId?: string;
+    couponCode?: string;
+    discountAmount?: number;
+    giftCardAmount?: number;
     paymentIntentId: string;
     paymentStatus?: PaymentStatus;
     items: Array<{
@@ -81,5 +131,7 @@ export interface CreateOrderPayload {
         quantity: number;
         priceAtPurchase: number;
         lineSubtotal: number;
+        variantId?: string;
+        variantName?: string;
     }>;
 }
@@ -0,0 +1,109 @@
+-- Migration: Add artwork variants (print size / finish / framing options)
+--
+-- Problem: Every artwork row has exactly one price and one inventory_count,
+-- so selling an 8x10, an 11x14 and a framed version of the same piece
+-- requires three duplicate artwork listings.
+--
+-- Solution:
+-- 1. Add an artwork_variants table (one artwork has many variants), each with
+--    its own price, SKU and stock
+-- 2. Record which variant was bought on order_items (variant_id plus a name
+--    snapshot so history survives variant deletion)
+-- 3. Teach decrement_artwork_inventory() to decrement variant stock for
+--    variant line items and artwork stock for everything else
+
+-- ============================================================================
+-- Table: artwork_variants
+-- ============================================================================
+CREATE TABLE artwork_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    artwork_id UUID NOT NULL REFERENCES artwork(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,  -- Display label, e.g. "11x14 Framed"
+    size TEXT,  -- e.g. "8x10", "11x14"
+    finish TEXT,  -- e.g. "Matte", "Glossy", "Canvas"
+    is_framed BOOLEAN NOT NULL DEFAULT false,
+    price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+    sku TEXT,
+    inventory_count INTEGER NOT NULL DEFAULT 0 CHECK (inventory_count >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_artwork_variants_artwork_id ON artwork_variants(artwork_id);
+CREATE INDEX idx_artwork_variants_display_order ON artwork_variants(artwork_id, display_order);
+CREATE UNIQUE INDEX idx_artwork_variants_sku ON artwork_variants(sku) WHERE sku IS NOT NULL;
+
+CREATE TRIGGER update_artwork_variants_updated_at
+    BEFORE UPDATE ON artwork_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- order_items: record the purchased variant
+-- ============================================================================
+ALTER TABLE order_items
+    ADD COLUMN variant_id UUID REFERENCES artwork_variants(id) ON DELETE SET NULL,
+    ADD COLUMN variant_name TEXT;
+
+CREATE INDEX idx_order_items_variant_id ON order_items(variant_id);
+
+-- ============================================================================
+-- Inventory trigger: decrement variant stock for variant line items
+-- ============================================================================
+CREATE OR REPLACE FUNCTION decrement_artwork_inventory()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.payment_status = 'succeeded' AND OLD.payment_status IS DISTINCT FROM 'succeeded' THEN
+        -- Items bought as a specific variant draw from the variant's stock
+        UPDATE artwork_variants
+        SET inventory_count = artwork_variants.inventory_count - oi.quantity
+        FROM order_items oi
+        WHERE oi.order_id = NEW.id
+          AND oi.variant_id IS NOT NULL
+          AND artwork_variants.id = oi.variant_id;
+
+        -- Items without a variant draw from the artwork's own stock
+        UPDATE artwork
+        SET inventory_count = inventory_count - oi.quantity
+        FROM order_items oi
+        WHERE oi.order_id = NEW.id
+          AND oi.variant_id IS NULL
+          AND artwork.id = oi.artwork_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- RLS Policies: artwork_variants (public read of published artwork, admin write)
+-- ============================================================================
+ALTER TABLE artwork_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active variants of published artwork"
+    ON artwork_variants FOR SELECT
+    USING (
+        is_active = true
+        AND EXISTS (
+            SELECT 1 FROM artwork
+            WHERE artwork.id = artwork_variants.artwork_id
+              AND artwork.is_published = true
+        )
+    );
+
+CREATE POLICY "Only admins can manage artwork variants"
+    ON artwork_variants FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    );
@@ -0,0 +1,95 @@
+-- Migration: Add coupon / discount codes
+--
+-- Problem: There is no way to run a convention promo or a newsletter
+-- "10% off" deal.
+--
+-- Solution:
+-- 1. Add a coupons table (percentage or fixed discounts with minimum
+--    subtotal, start/expiry dates, usage limits and optional artwork/tag scope)
+-- 2. Store the applied coupon and discount amount on orders
+-- 3. Count a coupon use when its order's payment succeeds (same trigger
+--    pattern as decrement_artwork_inventory)
+
+-- ============================================================================
+-- Table: coupons
+-- ============================================================================
+CREATE TABLE coupons (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),  -- Stored uppercase, matched case-insensitively
+    description TEXT,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    discount_value NUMERIC(10, 2) NOT NULL CHECK (discount_value > 0),
+    minimum_subtotal NUMERIC(10, 2),  -- Cart subtotal required before the coupon applies
+    starts_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    applies_to_artwork_ids UUID[],  -- NULL/empty = whole cart
+    applies_to_tags TEXT[],  -- NULL/empty = whole cart
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (discount_type <> 'percentage' OR discount_value <= 100)
+);
+
+CREATE INDEX idx_coupons_code ON coupons(code);
+CREATE INDEX idx_coupons_is_active ON coupons(is_active);
+
+CREATE TRIGGER update_coupons_updated_at
+    BEFORE UPDATE ON coupons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- orders: record the applied coupon
+-- ============================================================================
+ALTER TABLE orders
+    ADD COLUMN coupon_id UUID REFERENCES coupons(id) ON DELETE SET NULL,
+    ADD COLUMN coupon_code TEXT,  -- Snapshot so history survives coupon deletion
+    ADD COLUMN discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_orders_coupon_id ON orders(coupon_id);
+
+-- ============================================================================
+-- Trigger: count coupon usage when payment succeeds
+-- ============================================================================
+CREATE OR REPLACE FUNCTION increment_coupon_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.payment_status = 'succeeded'
+       AND OLD.payment_status IS DISTINCT FROM 'succeeded'
+       AND NEW.coupon_id IS NOT NULL THEN
+        UPDATE coupons
+        SET usage_count = usage_count + 1
+        WHERE id = NEW.coupon_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER increment_coupon_usage_on_payment
+    AFTER UPDATE ON orders
+    FOR EACH ROW
+    WHEN (OLD.payment_status IS DISTINCT FROM NEW.payment_status)
+    EXECUTE FUNCTION increment_coupon_usage();
+
+-- ============================================================================
+-- RLS Policies: coupons (admin only; checkout validates with the service role)
+-- ============================================================================
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can manage coupons"
+    ON coupons FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    );
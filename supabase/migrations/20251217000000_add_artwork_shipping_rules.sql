@@ -0,0 +1,23 @@
+-- Migration: Add per-artwork shipping attributes
+--
+-- Problem: Checkout charges one flat shipping rate regardless of what is in
+-- the cart. Originals need insured shipping and large pieces cost more to
+-- pack and ship than a sticker.
+--
+-- Solution:
+-- 1. Add a size/weight shipping class to each artwork
+-- 2. Flag originals (one-of-a-kind pieces) so they carry a per-item
+--    insurance surcharge
+--
+-- Rates for each class live in siteConfig.shipping and are applied by
+-- src/lib/cart/shipping.ts for both the cart preview and Stripe Checkout.
+
+-- ============================================================================
+-- artwork: shipping attributes
+-- ============================================================================
+ALTER TABLE artwork
+    ADD COLUMN shipping_class TEXT NOT NULL DEFAULT 'standard'
+        CHECK (shipping_class IN ('small', 'standard', 'large', 'oversized')),
+    ADD COLUMN is_original BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_artwork_is_original ON artwork(is_original);
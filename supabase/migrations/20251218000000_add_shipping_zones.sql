@@ -0,0 +1,84 @@
+-- Migration: Add international shipping zones
+--
+-- Problem: Checkout only collects US addresses, so overseas customers cannot
+-- order at all, and there is no way to charge more for international
+-- delivery or to keep fragile originals from shipping overseas.
+--
+-- Solution:
+-- 1. Add an admin-managed shipping_zones table: each zone is a list of
+--    countries with its own standard/express rates, free-shipping minimum,
+--    delivery estimates and an optional exclusion for originals
+-- 2. Seed a domestic zone that mirrors the previous US-only defaults
+--
+-- Per-item class/original surcharges stay in siteConfig.shipping and apply
+-- in every zone (see src/lib/cart/shipping.ts).
+
+-- ============================================================================
+-- Table: shipping_zones
+-- ============================================================================
+CREATE TABLE shipping_zones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    countries TEXT[] NOT NULL CHECK (cardinality(countries) > 0),  -- ISO 3166-1 alpha-2 codes, uppercase
+    standard_rate NUMERIC(10, 2) NOT NULL CHECK (standard_rate >= 0),
+    express_rate NUMERIC(10, 2) CHECK (express_rate IS NULL OR express_rate >= 0),  -- NULL = no express option
+    free_shipping_minimum NUMERIC(10, 2) CHECK (free_shipping_minimum IS NULL OR free_shipping_minimum >= 0),  -- NULL = never free
+    standard_min_days INTEGER NOT NULL CHECK (standard_min_days > 0),
+    standard_max_days INTEGER NOT NULL,
+    express_min_days INTEGER CHECK (express_min_days IS NULL OR express_min_days > 0),
+    express_max_days INTEGER,
+    excludes_originals BOOLEAN NOT NULL DEFAULT false,  -- Originals cannot ship to this zone
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (standard_max_days >= standard_min_days),
+    CHECK (express_max_days IS NULL OR express_max_days >= express_min_days)
+);
+
+CREATE INDEX idx_shipping_zones_countries ON shipping_zones USING GIN (countries);
+CREATE INDEX idx_shipping_zones_is_active ON shipping_zones(is_active);
+
+CREATE TRIGGER update_shipping_zones_updated_at
+    BEFORE UPDATE ON shipping_zones
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Domestic zone matching the previous flat US shipping
+INSERT INTO shipping_zones (
+    name, countries, standard_rate, express_rate, free_shipping_minimum,
+    standard_min_days, standard_max_days, express_min_days, express_max_days,
+    display_order
+) VALUES (
+    'United States', ARRAY['US'], 8.00, 25.00, 100.00,
+    5, 8, 2, 3,
+    0
+);
+
+-- Orders are broken down by destination in the admin
+CREATE INDEX idx_orders_shipping_country ON orders(shipping_country);
+
+-- ============================================================================
+-- RLS Policies: shipping_zones (public read of active zones, admin write)
+-- ============================================================================
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active shipping zones"
+    ON shipping_zones FOR SELECT
+    USING (is_active = true);
+
+CREATE POLICY "Only admins can manage shipping zones"
+    ON shipping_zones FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    );
@@ -0,0 +1,118 @@
+-- Migration: Add inventory holds for open Stripe Checkout sessions
+--
+-- Problem: Stock is only decremented once orders.payment_status flips to
+-- 'succeeded', so two buyers can both pass cart validation for the last copy
+-- of a limited print and both pay for it.
+--
+-- Solution:
+-- 1. Add an inventory_holds table: short-lived stock holds created when
+--    /api/checkout/session issues a session (one reservation per session)
+-- 2. Add reserve_inventory(), which locks the stock rows and checks
+--    availability before inserting holds, so concurrent checkouts can't
+--    over-reserve
+-- 3. Expose the held quantities (counts only) through the held_inventory view
+--    so the shoppe can subtract them from the displayed stock
+--
+-- Holds are deleted when the session completes or expires (webhook) and are
+-- ignored once expires_at passes, even if the webhook never arrives.
+
+-- ============================================================================
+-- Table: inventory_holds
+-- ============================================================================
+CREATE TABLE inventory_holds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reservation_id UUID NOT NULL,  -- One per checkout attempt (Stripe session metadata)
+    checkout_session_id TEXT,  -- Set once Stripe has created the session
+    artwork_id UUID NOT NULL REFERENCES artwork(id) ON DELETE CASCADE,
+    variant_id UUID REFERENCES artwork_variants(id) ON DELETE CASCADE,  -- NULL = artwork's own stock
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,  -- Matches the Stripe session's expires_at
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_inventory_holds_reservation_id ON inventory_holds(reservation_id);
+CREATE INDEX idx_inventory_holds_artwork_id ON inventory_holds(artwork_id, expires_at);
+CREATE INDEX idx_inventory_holds_variant_id ON inventory_holds(variant_id, expires_at)
+    WHERE variant_id IS NOT NULL;
+
+-- ============================================================================
+-- View: held_inventory (active holds per artwork / variant)
+-- ============================================================================
+CREATE VIEW held_inventory AS
+SELECT
+    artwork_id,
+    variant_id,
+    SUM(quantity)::INTEGER AS held_quantity
+FROM inventory_holds
+WHERE expires_at > NOW()
+GROUP BY artwork_id, variant_id;
+
+-- ============================================================================
+-- Function: reserve_inventory
+-- ============================================================================
+-- p_items: [{ "artwork_id": "...", "variant_id": "..." | null, "quantity": 1 }]
+-- Raises 'insufficient_inventory' (and inserts nothing) when any item's stock
+-- minus its active holds can't cover the requested quantity.
+CREATE OR REPLACE FUNCTION reserve_inventory(
+    p_reservation_id UUID,
+    p_items JSONB,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+DECLARE
+    item JSONB;
+    v_artwork_id UUID;
+    v_variant_id UUID;
+    v_quantity INTEGER;
+    v_stock INTEGER;
+    v_held INTEGER;
+BEGIN
+    -- Clean up holds that timed out without a webhook
+    DELETE FROM inventory_holds WHERE expires_at <= NOW();
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_artwork_id := (item->>'artwork_id')::UUID;
+        v_variant_id := NULLIF(item->>'variant_id', '')::UUID;
+        v_quantity := (item->>'quantity')::INTEGER;
+
+        -- Lock the stock row so concurrent reservations queue behind this one
+        IF v_variant_id IS NOT NULL THEN
+            SELECT inventory_count INTO v_stock
+            FROM artwork_variants
+            WHERE id = v_variant_id
+            FOR UPDATE;
+        ELSE
+            SELECT inventory_count INTO v_stock
+            FROM artwork
+            WHERE id = v_artwork_id
+            FOR UPDATE;
+        END IF;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_held
+        FROM inventory_holds
+        WHERE artwork_id = v_artwork_id
+          AND variant_id IS NOT DISTINCT FROM v_variant_id
+          AND expires_at > NOW();
+
+        IF v_stock IS NULL OR v_stock - v_held < v_quantity THEN
+            RAISE EXCEPTION 'insufficient_inventory'
+                USING DETAIL = format('artwork %s, variant %s', v_artwork_id, v_variant_id);
+        END IF;
+
+        INSERT INTO inventory_holds (reservation_id, artwork_id, variant_id, quantity, expires_at)
+        VALUES (p_reservation_id, v_artwork_id, v_variant_id, v_quantity, p_expires_at);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Checkout reserves with the service role; don't expose the function over the public API
+REVOKE EXECUTE ON FUNCTION reserve_inventory(UUID, JSONB, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- RLS Policies: inventory_holds (service role only; public reads held_inventory)
+-- ============================================================================
+ALTER TABLE inventory_holds ENABLE ROW LEVEL SECURITY;
+
+-- The view runs as its owner, so it can aggregate holds without exposing
+-- reservation or session IDs
+GRANT SELECT ON held_inventory TO anon, authenticated;
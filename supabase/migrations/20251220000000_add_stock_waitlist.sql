@@ -0,0 +1,38 @@
+-- Migration: Add back-in-stock waitlist
+--
+-- Problem: Sold-out prints disappear from the shoppe and the detail page only
+-- says "Out of Stock", so interested buyers have no way to hear about a
+-- restock.
+--
+-- Solution:
+-- 1. Add a stock_waitlist table of "notify me" sign-ups per artwork
+-- 2. One row per artwork and address (emails stored lowercase), so repeat
+--    sign-ups don't send duplicate emails
+-- 3. Each row carries an unsubscribe token used by the link in the email;
+--    unsubscribing stops back-in-stock emails to that address
+--
+-- Sign-ups are written by /api/waitlist and read when an admin restocks an
+-- artwork, both with the service role.
+
+-- ============================================================================
+-- Table: stock_waitlist
+-- ============================================================================
+CREATE TABLE stock_waitlist (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    artwork_id UUID NOT NULL REFERENCES artwork(id) ON DELETE CASCADE,
+    email TEXT NOT NULL CHECK (email = LOWER(email)),  -- Normalized for per-address dedupe
+    unsubscribe_token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+    notified_at TIMESTAMP WITH TIME ZONE,  -- Set once the back-in-stock email is sent
+    unsubscribed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (artwork_id, email)
+);
+
+CREATE INDEX idx_stock_waitlist_pending ON stock_waitlist(artwork_id)
+    WHERE notified_at IS NULL AND unsubscribed_at IS NULL;
+CREATE INDEX idx_stock_waitlist_email ON stock_waitlist(email);
+
+-- ============================================================================
+-- RLS Policies: stock_waitlist (service role only; holds customer emails)
+-- ============================================================================
+ALTER TABLE stock_waitlist ENABLE ROW LEVEL SECURITY;
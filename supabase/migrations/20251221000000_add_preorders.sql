@@ -0,0 +1,41 @@
+-- Migration: Add pre-orders for In The Works projects
+--
+-- Problem: Fans can follow an upcoming book or print run on In The Works but
+-- can't put money down on it.
+--
+-- Solution:
+-- 1. Link artwork to a project (artwork.project_id). While the project is
+--    still planning or active, the artwork sells as a pre-order through the
+--    normal cart and Stripe checkout; inventory_count caps the pre-order run
+-- 2. Flag orders containing pre-order items (orders.is_preorder) with the
+--    project's expected completion date as the expected ship date
+-- 3. Record the project on each pre-order line (order_items.preorder_project_id)
+--    so the admin can release or ship a project's pre-orders in one batch
+
+-- ============================================================================
+-- artwork: optional project link
+-- ============================================================================
+ALTER TABLE artwork
+    ADD COLUMN project_id UUID REFERENCES projects(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_artwork_project_id ON artwork(project_id)
+    WHERE project_id IS NOT NULL;
+
+-- ============================================================================
+-- orders: pre-order flag and expected ship date
+-- ============================================================================
+ALTER TABLE orders
+    ADD COLUMN is_preorder BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN expected_ship_date DATE;  -- Latest expected completion of the order's projects
+
+CREATE INDEX idx_orders_is_preorder ON orders(is_preorder)
+    WHERE is_preorder;
+
+-- ============================================================================
+-- order_items: project the line was pre-ordered from
+-- ============================================================================
+ALTER TABLE order_items
+    ADD COLUMN preorder_project_id UUID REFERENCES projects(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_order_items_preorder_project_id ON order_items(preorder_project_id)
+    WHERE preorder_project_id IS NOT NULL;
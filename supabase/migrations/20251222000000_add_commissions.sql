@@ -0,0 +1,94 @@
+-- Migration: Add commission requests, quotes and payments
+--
+-- Problem: Commission inquiries arrive as free-text contact form emails and
+-- get lost in the inbox. There's no record of what was asked for, what was
+-- quoted, or whether the deposit has been paid.
+--
+-- Solution:
+-- 1. Add a commissions table for structured requests (subject, size, style,
+--    budget, deadline, reference images) moving through an admin pipeline:
+--    new -> quoted -> deposit_paid -> in_progress -> delivered (or cancelled)
+-- 2. Quoting a commission creates Stripe Payment Links for the deposit and
+--    the balance; their ids are stored so the webhook can match payments
+-- 3. Add a commission_payments table recording each completed payment
+--    (one row per Checkout session, so webhook retries don't double count)
+-- 4. Add a private commission-references storage bucket for the reference
+--    images; the admin views them through signed URLs
+--
+-- Requests are written by /api/commissions and everything else by the admin
+-- and the Stripe webhook, all with the service role.
+
+-- ============================================================================
+-- Table: commissions
+-- ============================================================================
+CREATE TABLE commissions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_name TEXT NOT NULL,
+    customer_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    size TEXT NOT NULL,
+    style TEXT NOT NULL,
+    budget NUMERIC(10,2) CHECK (budget IS NULL OR budget >= 0),
+    deadline DATE,
+    details TEXT,
+    reference_image_paths TEXT[] NOT NULL DEFAULT '{}',  -- Paths in the commission-references bucket
+    status TEXT NOT NULL DEFAULT 'new'
+        CHECK (status IN ('new', 'quoted', 'deposit_paid', 'in_progress', 'delivered', 'cancelled')),
+    quote_amount NUMERIC(10,2) CHECK (quote_amount IS NULL OR quote_amount > 0),
+    deposit_amount NUMERIC(10,2) CHECK (deposit_amount IS NULL OR deposit_amount > 0),
+    quote_notes TEXT,
+    quoted_at TIMESTAMP WITH TIME ZONE,
+    deposit_payment_link_id TEXT,
+    deposit_payment_link_url TEXT,
+    balance_payment_link_id TEXT,
+    balance_payment_link_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (deposit_amount IS NULL OR deposit_amount < quote_amount)
+);
+
+CREATE INDEX idx_commissions_status ON commissions(status);
+CREATE INDEX idx_commissions_created_at ON commissions(created_at DESC);
+CREATE INDEX idx_commissions_deposit_payment_link_id ON commissions(deposit_payment_link_id)
+    WHERE deposit_payment_link_id IS NOT NULL;
+CREATE INDEX idx_commissions_balance_payment_link_id ON commissions(balance_payment_link_id)
+    WHERE balance_payment_link_id IS NOT NULL;
+
+CREATE TRIGGER update_commissions_updated_at
+    BEFORE UPDATE ON commissions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Table: commission_payments
+-- ============================================================================
+CREATE TABLE commission_payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    commission_id UUID NOT NULL REFERENCES commissions(id) ON DELETE CASCADE,
+    payment_type TEXT NOT NULL CHECK (payment_type IN ('deposit', 'balance')),
+    amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+    stripe_checkout_session_id TEXT NOT NULL UNIQUE,
+    payment_intent_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_commission_payments_commission_id ON commission_payments(commission_id);
+
+-- ============================================================================
+-- RLS Policies (service role only; holds customer details)
+-- ============================================================================
+ALTER TABLE commissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_payments ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Storage: commission-references (private; uploads go through the API route)
+-- ============================================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'commission-references',
+    'commission-references',
+    false,  -- Customer uploads are only shown to the admin via signed URLs
+    5242880,  -- 5MB file size limit
+    ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
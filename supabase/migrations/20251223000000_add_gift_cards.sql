@@ -0,0 +1,195 @@
+-- Migration: Add digital gift cards
+--
+-- Problem: Customers want to give the shoppe as a gift, but there's nothing
+-- to buy except artwork.
+--
+-- Solution:
+-- 1. Add a gift_cards table. Cards are bought in the Shoppe for a fixed
+--    amount (Stripe Checkout); the webhook issues the card and its code is
+--    emailed to the recipient on the buyer's chosen delivery date
+-- 2. Add a gift_card_transactions ledger: the purchase credit is written by
+--    a trigger when the card is issued, and every redemption is a debit
+--    linked to the order it paid for. The card's balance is kept in step
+--    with the ledger
+-- 3. Add gift_card_holds: like inventory_holds, a redemption is held while
+--    the Checkout session is open so the same balance can't be spent twice,
+--    then converted into a debit by the webhook (redeem_gift_card_holds) or
+--    dropped when the session expires
+-- 4. Record the amount paid by gift card on the order
+--
+-- Everything is read and written with the service role.
+
+-- ============================================================================
+-- Table: gift_cards
+-- ============================================================================
+CREATE TABLE gift_cards (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE,  -- Uppercase, e.g. GIFT-7KQ2-M9XA-4HTR
+    initial_amount NUMERIC(10,2) NOT NULL CHECK (initial_amount > 0),
+    balance NUMERIC(10,2) NOT NULL CHECK (balance >= 0 AND balance <= initial_amount),
+    purchaser_name TEXT NOT NULL,
+    purchaser_email TEXT NOT NULL,
+    recipient_name TEXT NOT NULL,
+    recipient_email TEXT NOT NULL,
+    message TEXT,
+    deliver_on DATE NOT NULL,  -- Date the code is emailed to the recipient
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT true,  -- Inactive cards can't be redeemed
+    stripe_checkout_session_id TEXT NOT NULL UNIQUE,  -- Purchase session (webhook retries are no-ops)
+    payment_intent_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_gift_cards_created_at ON gift_cards(created_at DESC);
+CREATE INDEX idx_gift_cards_pending_delivery ON gift_cards(deliver_on)
+    WHERE delivered_at IS NULL;
+
+CREATE TRIGGER update_gift_cards_updated_at
+    BEFORE UPDATE ON gift_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Table: gift_card_transactions (balance ledger)
+-- ============================================================================
+CREATE TABLE gift_card_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    gift_card_id UUID NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+    transaction_type TEXT NOT NULL CHECK (transaction_type IN ('purchase', 'redemption')),
+    amount NUMERIC(10,2) NOT NULL CHECK (amount <> 0),  -- Credits positive, debits negative
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,  -- Order a redemption paid for
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_gift_card_transactions_gift_card_id ON gift_card_transactions(gift_card_id, created_at);
+CREATE INDEX idx_gift_card_transactions_order_id ON gift_card_transactions(order_id)
+    WHERE order_id IS NOT NULL;
+
+-- The purchase credit is written with the card, so the ledger always
+-- accounts for the whole initial amount
+CREATE OR REPLACE FUNCTION record_gift_card_purchase()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO gift_card_transactions (gift_card_id, transaction_type, amount)
+    VALUES (NEW.id, 'purchase', NEW.initial_amount);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_gift_card_purchase
+    AFTER INSERT ON gift_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION record_gift_card_purchase();
+
+-- ============================================================================
+-- Table: gift_card_holds
+-- ============================================================================
+CREATE TABLE gift_card_holds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reservation_id UUID NOT NULL,  -- Same reservation as the session's inventory holds
+    gift_card_id UUID NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+    amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,  -- Matches the Stripe session's expires_at
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_gift_card_holds_reservation_id ON gift_card_holds(reservation_id);
+CREATE INDEX idx_gift_card_holds_gift_card_id ON gift_card_holds(gift_card_id, expires_at);
+
+-- ============================================================================
+-- Function: reserve_gift_cards
+-- ============================================================================
+-- p_redemptions: [{ "gift_card_id": "...", "amount": 25.00 }]
+-- Raises 'insufficient_gift_card_balance' (and holds nothing) when a card is
+-- inactive or its balance minus other active holds can't cover the amount.
+CREATE OR REPLACE FUNCTION reserve_gift_cards(
+    p_reservation_id UUID,
+    p_redemptions JSONB,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+DECLARE
+    redemption JSONB;
+    v_gift_card_id UUID;
+    v_amount NUMERIC(10,2);
+    v_balance NUMERIC(10,2);
+    v_is_active BOOLEAN;
+    v_held NUMERIC(10,2);
+BEGIN
+    -- Clean up holds that timed out without a webhook
+    DELETE FROM gift_card_holds WHERE expires_at <= NOW();
+
+    FOR redemption IN SELECT * FROM jsonb_array_elements(p_redemptions) LOOP
+        v_gift_card_id := (redemption->>'gift_card_id')::UUID;
+        v_amount := (redemption->>'amount')::NUMERIC(10,2);
+
+        -- Lock the card so concurrent checkouts queue behind this one
+        SELECT balance, is_active INTO v_balance, v_is_active
+        FROM gift_cards
+        WHERE id = v_gift_card_id
+        FOR UPDATE;
+
+        SELECT COALESCE(SUM(amount), 0) INTO v_held
+        FROM gift_card_holds
+        WHERE gift_card_id = v_gift_card_id
+          AND expires_at > NOW();
+
+        IF v_balance IS NULL OR NOT v_is_active OR v_balance - v_held < v_amount THEN
+            RAISE EXCEPTION 'insufficient_gift_card_balance'
+                USING DETAIL = format('gift card %s', v_gift_card_id);
+        END IF;
+
+        INSERT INTO gift_card_holds (reservation_id, gift_card_id, amount, expires_at)
+        VALUES (p_reservation_id, v_gift_card_id, v_amount, p_expires_at);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Function: redeem_gift_card_holds
+-- ============================================================================
+-- Turns a paid session's holds into ledger debits against p_order_id (NULL
+-- when the order couldn't be created; the customer still paid with the card).
+-- Holds are redeemed even if they've expired, since the payment went through.
+-- Safe to call more than once: the holds are deleted as they're redeemed.
+CREATE OR REPLACE FUNCTION redeem_gift_card_holds(
+    p_reservation_id UUID,
+    p_order_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    hold RECORD;
+BEGIN
+    FOR hold IN
+        DELETE FROM gift_card_holds
+        WHERE reservation_id = p_reservation_id
+        RETURNING gift_card_id, amount
+    LOOP
+        UPDATE gift_cards
+        SET balance = GREATEST(balance - hold.amount, 0)
+        WHERE id = hold.gift_card_id;
+
+        INSERT INTO gift_card_transactions (gift_card_id, transaction_type, amount, order_id)
+        VALUES (hold.gift_card_id, 'redemption', -hold.amount, p_order_id);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Checkout and the webhook call these with the service role; don't expose
+-- them over the public API
+REVOKE EXECUTE ON FUNCTION reserve_gift_cards(UUID, JSONB, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redeem_gift_card_holds(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- Orders: amount paid by gift card
+-- ============================================================================
+ALTER TABLE orders
+    ADD COLUMN gift_card_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (gift_card_amount >= 0);
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE gift_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gift_card_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gift_card_holds ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,130 @@
+-- Migration: Add site-wide full-text search
+--
+-- Problem: Visitors can only find a piece by scrolling the Gallery, and
+-- there's no way to search projects or events at all.
+--
+-- Solution:
+-- 1. Add an immutable search document function per table (title weighted
+--    highest, then tags / medium / location, then description) and a GIN
+--    expression index on each, so no stored column is needed
+-- 2. Add search_site(): ranks artwork, projects and events against a
+--    websearch-style query and returns typed results with a highlighted
+--    snippet (matches wrapped in <mark>...</mark>)
+--
+-- search_site runs as the caller, so RLS still applies: the anon key only
+-- ever sees published rows. The admin area calls it with the service role
+-- and p_include_unpublished = true.
+
+-- ============================================================================
+-- Search documents
+-- ============================================================================
+CREATE OR REPLACE FUNCTION artwork_search_document(
+    p_title TEXT,
+    p_description TEXT,
+    p_tags TEXT[],
+    p_medium TEXT
+)
+RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+        setweight(to_tsvector('english',
+            COALESCE(array_to_string(p_tags, ' '), '') || ' ' || COALESCE(p_medium, '')
+        ), 'B') ||
+        setweight(to_tsvector('english', COALESCE(p_description, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION project_search_document(
+    p_title TEXT,
+    p_description TEXT
+)
+RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(p_description, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION event_search_document(
+    p_title TEXT,
+    p_description TEXT,
+    p_location TEXT,
+    p_venue_name TEXT
+)
+RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+        setweight(to_tsvector('english',
+            COALESCE(p_location, '') || ' ' || COALESCE(p_venue_name, '')
+        ), 'B') ||
+        setweight(to_tsvector('english', COALESCE(p_description, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX idx_artwork_search ON artwork
+    USING GIN(artwork_search_document(title, description, tags, medium));
+CREATE INDEX idx_projects_search ON projects
+    USING GIN(project_search_document(title, description));
+CREATE INDEX idx_events_search ON events
+    USING GIN(event_search_document(title, description, location, venue_name));
+
+-- ============================================================================
+-- Function: search_site
+-- ============================================================================
+-- p_query uses websearch syntax ("quoted phrases", -exclusions, or).
+-- Snippets are built only for the rows that make the cut.
+CREATE OR REPLACE FUNCTION search_site(
+    p_query TEXT,
+    p_include_unpublished BOOLEAN DEFAULT false,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    result_type TEXT,
+    id UUID,
+    title TEXT,
+    slug TEXT,
+    snippet TEXT,
+    image_url TEXT,
+    is_published BOOLEAN,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', p_query) AS tsq
+    ),
+    matches AS (
+        SELECT 'artwork'::TEXT AS result_type, a.id, a.title, a.slug,
+               COALESCE(a.description, a.title) AS body,
+               a.image_thumbnail_url AS image_url, a.is_published,
+               ts_rank(artwork_search_document(a.title, a.description, a.tags, a.medium), q.tsq) AS rank
+        FROM artwork a, query q
+        WHERE artwork_search_document(a.title, a.description, a.tags, a.medium) @@ q.tsq
+          AND (p_include_unpublished OR a.is_published)
+
+        UNION ALL
+
+        SELECT 'project', p.id, p.title, p.slug, p.description,
+               p.image_url, p.is_published,
+               ts_rank(project_search_document(p.title, p.description), q.tsq)
+        FROM projects p, query q
+        WHERE project_search_document(p.title, p.description) @@ q.tsq
+          AND (p_include_unpublished OR p.is_published)
+
+        UNION ALL
+
+        SELECT 'event', e.id, e.title, e.slug,
+               COALESCE(e.description, e.location),
+               e.image_url, e.is_published,
+               ts_rank(event_search_document(e.title, e.description, e.location, e.venue_name), q.tsq)
+        FROM events e, query q
+        WHERE event_search_document(e.title, e.description, e.location, e.venue_name) @@ q.tsq
+          AND (p_include_unpublished OR e.is_published)
+    ),
+    top_matches AS (
+        SELECT * FROM matches
+        ORDER BY rank DESC, title
+        LIMIT LEAST(GREATEST(p_limit, 1), 50)
+    )
+    SELECT m.result_type, m.id, m.title, m.slug,
+           ts_headline('english', m.body, q.tsq,
+               'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2'),
+           m.image_url, m.is_published, m.rank
+    FROM top_matches m, query q
+    ORDER BY m.rank DESC, m.title;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
@@ -0,0 +1,78 @@
+-- Migration: Add limited edition numbering and certificates of authenticity
+--
+-- Problem: artwork.is_limited_edition is just a flag. There's no edition
+-- size and no record of which numbered print went to which customer.
+--
+-- Solution:
+-- 1. Give limited edition artwork an edition size (artwork.edition_size) and
+--    a counter of numbers handed out so far (artwork.last_edition_number)
+-- 2. Number each order line as it's inserted: a line of quantity N gets N
+--    consecutive numbers starting at order_items.edition_number_start, with
+--    the edition size snapshotted alongside (e.g. 12/50)
+-- 3. Give every numbered line a certificate token. The certificate of
+--    authenticity PDF is served at /api/certificates/<token>, linked from the
+--    confirmation email and the admin order page
+--
+-- Numbers come from a single UPDATE ... RETURNING on the artwork row, so
+-- concurrent webhooks can't hand out the same number twice.
+
+-- ============================================================================
+-- artwork: edition size and numbering counter
+-- ============================================================================
+ALTER TABLE artwork
+    ADD COLUMN edition_size INTEGER CHECK (edition_size > 0),
+    ADD COLUMN last_edition_number INTEGER NOT NULL DEFAULT 0
+        CHECK (last_edition_number >= 0),
+    ADD CONSTRAINT artwork_edition_numbers_within_size
+        CHECK (edition_size IS NULL OR last_edition_number <= edition_size);
+
+-- ============================================================================
+-- order_items: assigned edition numbers
+-- ============================================================================
+ALTER TABLE order_items
+    ADD COLUMN edition_number_start INTEGER,  -- First of `quantity` consecutive numbers
+    ADD COLUMN edition_size INTEGER,          -- Edition size when sold
+    ADD COLUMN certificate_token UUID UNIQUE; -- Set for numbered lines only
+
+-- ============================================================================
+-- Function: assign_edition_numbers
+-- ============================================================================
+-- Lines for an edition that has run out (e.g. stock was raised past the
+-- edition size) stay unnumbered rather than failing a paid order.
+CREATE OR REPLACE FUNCTION assign_edition_numbers()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_edition_size INTEGER;
+    v_last_number INTEGER;
+BEGIN
+    UPDATE artwork
+    SET last_edition_number = last_edition_number + NEW.quantity
+    WHERE id = NEW.artwork_id
+      AND is_limited_edition
+      AND edition_size IS NOT NULL
+      AND last_edition_number + NEW.quantity <= edition_size
+    RETURNING edition_size, last_edition_number
+    INTO v_edition_size, v_last_number;
+
+    IF FOUND THEN
+        NEW.edition_number_start := v_last_number - NEW.quantity + 1;
+        NEW.edition_size := v_edition_size;
+        NEW.certificate_token := gen_random_uuid();
+    ELSIF EXISTS (
+        SELECT 1 FROM artwork
+        WHERE id = NEW.artwork_id
+          AND is_limited_edition
+          AND edition_size IS NOT NULL
+    ) THEN
+        RAISE WARNING 'Edition of artwork % is exhausted; order item left unnumbered',
+            NEW.artwork_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_edition_numbers_on_insert
+    BEFORE INSERT ON order_items
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_edition_numbers();
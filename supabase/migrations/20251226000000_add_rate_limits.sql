@@ -0,0 +1,69 @@
+-- Migration: Add rate limiting for public lookups
+--
+-- Problem: The guest order status page (/shoppe/order-status) finds an order
+-- by order number plus email. Order numbers are short (YOA-YYYYMMDD-NNNN),
+-- so without a limit someone could try every number for a day against an
+-- email address.
+--
+-- Solution: A fixed-window attempt counter per key. consume_rate_limit()
+-- counts an attempt and reports whether the key is still within its limit in
+-- one statement, so concurrent requests on different serverless instances
+-- share the same count. Keys are hashed by the caller (no raw IPs or emails
+-- are stored).
+--
+-- Everything is read and written with the service role.
+
+-- ============================================================================
+-- Table: rate_limits
+-- ============================================================================
+CREATE TABLE rate_limits (
+    key TEXT PRIMARY KEY,  -- <scope>:<sha256 of identifier>, e.g. order-lookup-ip:9f86d0...
+    attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_rate_limits_window_start ON rate_limits(window_start);
+
+-- ============================================================================
+-- Function: consume_rate_limit
+-- ============================================================================
+-- Counts an attempt against p_key, starting a new window when the current
+-- one is over. Returns true while the key has made no more than
+-- p_max_attempts attempts in the window.
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+    p_key TEXT,
+    p_max_attempts INTEGER,
+    p_window_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_window INTERVAL := make_interval(secs => p_window_seconds);
+    v_attempts INTEGER;
+BEGIN
+    INSERT INTO rate_limits (key, attempts, window_start)
+    VALUES (p_key, 1, NOW())
+    ON CONFLICT (key) DO UPDATE
+    SET attempts = CASE
+            WHEN rate_limits.window_start <= NOW() - v_window THEN 1
+            ELSE rate_limits.attempts + 1
+        END,
+        window_start = CASE
+            WHEN rate_limits.window_start <= NOW() - v_window THEN NOW()
+            ELSE rate_limits.window_start
+        END
+    RETURNING attempts INTO v_attempts;
+
+    -- Windows are at most a day; older rows are dead weight
+    DELETE FROM rate_limits WHERE window_start < NOW() - INTERVAL '1 day';
+
+    RETURN v_attempts <= p_max_attempts;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Public API routes call this with the service role; don't expose it
+REVOKE EXECUTE ON FUNCTION consume_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,99 @@
+-- Migration: Add optional customer accounts
+--
+-- Problem: Every buyer checks out as a guest, so repeat collectors have no
+-- way to see what they've bought before or to skip retyping their address.
+--
+-- Solution: A customers row per Supabase Auth user who signs in with an
+-- email magic link (/account/login). Customers are kept apart from the
+-- administrators table: the admin middleware only lets administrators into
+-- /admin, and magic links are never sent to administrator addresses.
+--
+-- Orders aren't copied or re-keyed. An account's order history is every
+-- order placed with its (verified) email address, so orders from before the
+-- account existed show up as soon as the customer signs in.
+--
+-- The app reads and writes customers with the service role after checking
+-- the signed-in user; the policy below only lets a customer read their own
+-- row through the anon key. There is no UPDATE policy: a customer able to
+-- rewrite their own email could read someone else's order history.
+--
+-- Magic-link sign-in makes shoppers `authenticated` too, so the artwork
+-- storage policies, which let any authenticated user write, are narrowed to
+-- active administrators like every other admin policy.
+
+-- ============================================================================
+-- Table: customers
+-- ============================================================================
+CREATE TABLE customers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    auth_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    email TEXT NOT NULL UNIQUE,  -- Stored lowercase
+    -- Saved shipping address, prefilled in Stripe Checkout
+    shipping_name TEXT,
+    shipping_address_line1 TEXT,
+    shipping_address_line2 TEXT,
+    shipping_city TEXT,
+    shipping_state TEXT,
+    shipping_zip TEXT,
+    shipping_country TEXT,  -- ISO 3166-1 alpha-2
+    stripe_customer_id TEXT UNIQUE,  -- Carries the saved address into Checkout
+    -- Email preferences
+    order_update_emails BOOLEAN NOT NULL DEFAULT true,  -- Shipping and delivery updates
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_customers_updated_at
+    BEFORE UPDATE ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- RLS Policies
+-- ============================================================================
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their own account"
+    ON customers FOR SELECT
+    TO authenticated
+    USING (auth_id = auth.uid());
+
+-- ============================================================================
+-- Artwork storage: administrators only
+-- ============================================================================
+DROP POLICY IF EXISTS "Authenticated users can upload artwork images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update artwork images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete artwork images" ON storage.objects;
+
+CREATE POLICY "Admins can upload artwork images"
+    ON storage.objects FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        bucket_id = 'artwork'
+        AND EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    );
+
+CREATE POLICY "Admins can update artwork images"
+    ON storage.objects FOR UPDATE
+    TO authenticated
+    USING (
+        bucket_id = 'artwork'
+        AND EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    );
+
+CREATE POLICY "Admins can delete artwork images"
+    ON storage.objects FOR DELETE
+    TO authenticated
+    USING (
+        bucket_id = 'artwork'
+        AND EXISTS (
+            SELECT 1 FROM administrators
+            WHERE auth_id = auth.uid() AND is_active = true
+        )
+    );
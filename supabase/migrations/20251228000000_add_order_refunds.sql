@@ -0,0 +1,157 @@
+-- Migration: Add order refunds
+--
+-- Problem: Refunds are issued from the Stripe dashboard, so the order in our
+-- database never learns that money went back to the customer.
+--
+-- Solution:
+-- 1. Add an order_refunds table (one row per Stripe refund) and
+--    order_refund_items recording which line items, and how many of each,
+--    a refund covered
+-- 2. Add 'refunded' and 'partially_refunded' payment states
+-- 3. Add record_order_refund(), which records a refund issued through Stripe,
+--    optionally puts the refunded quantities back in stock and moves the
+--    order's payment_status, all under a lock on the order
+--
+-- Refunds are issued from the admin order page with the service role.
+
+-- ============================================================================
+-- orders: refund payment states
+-- ============================================================================
+ALTER TABLE orders
+    DROP CONSTRAINT orders_payment_status_check,
+    ADD CONSTRAINT orders_payment_status_check
+        CHECK (payment_status IN ('pending', 'succeeded', 'failed', 'refunded', 'partially_refunded'));
+
+-- ============================================================================
+-- Table: order_refunds
+-- ============================================================================
+CREATE TABLE order_refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    stripe_refund_id TEXT NOT NULL UNIQUE,  -- re_...
+    amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+    reason TEXT,  -- Internal note, not sent to the customer
+    restocked BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_refunds_order_id ON order_refunds(order_id, created_at);
+
+-- ============================================================================
+-- Table: order_refund_items
+-- ============================================================================
+CREATE TABLE order_refund_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    refund_id UUID NOT NULL REFERENCES order_refunds(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_order_refund_items_refund_id ON order_refund_items(refund_id);
+CREATE INDEX idx_order_refund_items_order_item_id ON order_refund_items(order_item_id);
+
+-- ============================================================================
+-- Function: record_order_refund
+-- ============================================================================
+-- p_items: [{ "order_item_id": "...", "quantity": 1 }] (empty for an
+-- amount-only refund, e.g. shipping)
+-- Raises 'refund_exceeds_order' (and records nothing) when the refunds would
+-- add up to more than the order total, or refund more of an item than was
+-- bought. The order is 'refunded' once its whole total has been refunded.
+CREATE OR REPLACE FUNCTION record_order_refund(
+    p_order_id UUID,
+    p_stripe_refund_id TEXT,
+    p_amount NUMERIC(10,2),
+    p_reason TEXT,
+    p_restock BOOLEAN,
+    p_items JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_refund_id UUID;
+    v_total NUMERIC(10,2);
+    v_refunded NUMERIC(10,2);
+    item JSONB;
+    v_order_item_id UUID;
+    v_quantity INTEGER;
+    v_bought INTEGER;
+    v_already_refunded INTEGER;
+BEGIN
+    -- Lock the order so concurrent refunds queue behind this one
+    SELECT total INTO v_total
+    FROM orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_refunded
+    FROM order_refunds
+    WHERE order_id = p_order_id;
+
+    IF v_total IS NULL OR v_refunded + p_amount > v_total THEN
+        RAISE EXCEPTION 'refund_exceeds_order'
+            USING DETAIL = format('order %s', p_order_id);
+    END IF;
+
+    INSERT INTO order_refunds (order_id, stripe_refund_id, amount, reason, restocked)
+    VALUES (p_order_id, p_stripe_refund_id, p_amount, p_reason, p_restock)
+    RETURNING id INTO v_refund_id;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_order_item_id := (item->>'order_item_id')::UUID;
+        v_quantity := (item->>'quantity')::INTEGER;
+
+        SELECT quantity INTO v_bought
+        FROM order_items
+        WHERE id = v_order_item_id AND order_id = p_order_id;
+
+        SELECT COALESCE(SUM(ori.quantity), 0) INTO v_already_refunded
+        FROM order_refund_items ori
+        WHERE ori.order_item_id = v_order_item_id;
+
+        IF v_bought IS NULL OR v_already_refunded + v_quantity > v_bought THEN
+            RAISE EXCEPTION 'refund_exceeds_order'
+                USING DETAIL = format('order item %s', v_order_item_id);
+        END IF;
+
+        INSERT INTO order_refund_items (refund_id, order_item_id, quantity)
+        VALUES (v_refund_id, v_order_item_id, v_quantity);
+
+        IF p_restock THEN
+            -- Same split as decrement_artwork_inventory(): variant lines go
+            -- back to the variant's stock, everything else to the artwork's
+            UPDATE artwork_variants
+            SET inventory_count = artwork_variants.inventory_count + v_quantity
+            FROM order_items oi
+            WHERE oi.id = v_order_item_id
+              AND oi.variant_id IS NOT NULL
+              AND artwork_variants.id = oi.variant_id;
+
+            UPDATE artwork
+            SET inventory_count = artwork.inventory_count + v_quantity
+            FROM order_items oi
+            WHERE oi.id = v_order_item_id
+              AND oi.variant_id IS NULL
+              AND artwork.id = oi.artwork_id;
+        END IF;
+    END LOOP;
+
+    UPDATE orders
+    SET payment_status = CASE
+        WHEN v_refunded + p_amount >= v_total THEN 'refunded'
+        ELSE 'partially_refunded'
+    END
+    WHERE id = p_order_id;
+
+    RETURN v_refund_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admin order actions call this with the service role; don't expose it over
+-- the public API
+REVOKE EXECUTE ON FUNCTION record_order_refund(UUID, TEXT, NUMERIC, TEXT, BOOLEAN, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE order_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_refund_items ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,225 @@
+-- Migration: Restore inventory when orders are cancelled
+--
+-- Problem: decrement_artwork_inventory() takes stock when an order is paid,
+-- but cancelling the order never gives it back.
+--
+-- Solution:
+-- 1. Add order_item_restocks, recording what happened to each line's stock
+--    when its order was cancelled: returned to sellable stock or written off
+--    as damaged. One row per line (order_item_id is unique), so a line's
+--    stock is only ever released once, however often the order is cancelled
+-- 2. Add a trigger that releases the stock of every line without a row yet
+--    when a paid order moves to 'cancelled'
+-- 3. Add cancel_order(), which records the admin's write-offs and cancels
+--    the order in one transaction, leaving the trigger to restock the rest
+-- 4. Teach record_order_refund() not to restock lines whose stock was
+--    already released by a cancellation
+--
+-- Units covered by a refund were already dealt with by that refund (restocked
+-- or not), so a cancellation only releases the units that weren't refunded.
+
+-- ============================================================================
+-- Table: order_item_restocks
+-- ============================================================================
+CREATE TABLE order_item_restocks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_item_id UUID NOT NULL UNIQUE REFERENCES order_items(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity >= 0),
+    disposition TEXT NOT NULL CHECK (disposition IN ('restocked', 'written_off')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Units of a line not already covered by a refund
+CREATE OR REPLACE FUNCTION unrefunded_quantity(p_order_item_id UUID)
+RETURNS INTEGER AS $$
+    SELECT GREATEST(
+        oi.quantity - COALESCE((
+            SELECT SUM(ori.quantity)
+            FROM order_refund_items ori
+            WHERE ori.order_item_id = oi.id
+        ), 0),
+        0
+    )::INTEGER
+    FROM order_items oi
+    WHERE oi.id = p_order_item_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- Trigger: restore_inventory_on_cancel
+-- ============================================================================
+-- Only orders whose payment went through ever had stock taken (pending
+-- checkouts hold stock in inventory_holds instead).
+CREATE OR REPLACE FUNCTION restore_inventory_on_cancel()
+RETURNS TRIGGER AS $$
+DECLARE
+    released RECORD;
+BEGIN
+    IF NEW.status = 'cancelled'
+       AND OLD.status IS DISTINCT FROM 'cancelled'
+       AND NEW.payment_status IN ('succeeded', 'partially_refunded', 'refunded') THEN
+        FOR released IN
+            INSERT INTO order_item_restocks (order_item_id, quantity, disposition)
+            SELECT oi.id, unrefunded_quantity(oi.id), 'restocked'
+            FROM order_items oi
+            WHERE oi.order_id = NEW.id
+            ON CONFLICT (order_item_id) DO NOTHING
+            RETURNING order_item_id, quantity
+        LOOP
+            -- Same split as decrement_artwork_inventory(): variant lines go
+            -- back to the variant's stock, everything else to the artwork's
+            UPDATE artwork_variants
+            SET inventory_count = artwork_variants.inventory_count + released.quantity
+            FROM order_items oi
+            WHERE oi.id = released.order_item_id
+              AND oi.variant_id IS NOT NULL
+              AND artwork_variants.id = oi.variant_id;
+
+            UPDATE artwork
+            SET inventory_count = artwork.inventory_count + released.quantity
+            FROM order_items oi
+            WHERE oi.id = released.order_item_id
+              AND oi.variant_id IS NULL
+              AND artwork.id = oi.artwork_id;
+        END LOOP;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER restore_inventory_on_cancel
+    AFTER UPDATE ON orders
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION restore_inventory_on_cancel();
+
+-- ============================================================================
+-- Function: cancel_order
+-- ============================================================================
+-- p_written_off_item_ids: lines whose stock is damaged and must not go back
+-- on sale. Every other line is restocked by the trigger.
+CREATE OR REPLACE FUNCTION cancel_order(
+    p_order_id UUID,
+    p_written_off_item_ids UUID[]
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO order_item_restocks (order_item_id, quantity, disposition)
+    SELECT oi.id, unrefunded_quantity(oi.id), 'written_off'
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.order_id = p_order_id
+      AND oi.id = ANY(p_written_off_item_ids)
+      AND o.status <> 'cancelled'
+      AND o.payment_status IN ('succeeded', 'partially_refunded', 'refunded')
+    ON CONFLICT (order_item_id) DO NOTHING;
+
+    UPDATE orders
+    SET status = 'cancelled'
+    WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Function: record_order_refund (skip restocking released lines)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION record_order_refund(
+    p_order_id UUID,
+    p_stripe_refund_id TEXT,
+    p_amount NUMERIC(10,2),
+    p_reason TEXT,
+    p_restock BOOLEAN,
+    p_items JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_refund_id UUID;
+    v_total NUMERIC(10,2);
+    v_refunded NUMERIC(10,2);
+    item JSONB;
+    v_order_item_id UUID;
+    v_quantity INTEGER;
+    v_bought INTEGER;
+    v_already_refunded INTEGER;
+BEGIN
+    -- Lock the order so concurrent refunds queue behind this one
+    SELECT total INTO v_total
+    FROM orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_refunded
+    FROM order_refunds
+    WHERE order_id = p_order_id;
+
+    IF v_total IS NULL OR v_refunded + p_amount > v_total THEN
+        RAISE EXCEPTION 'refund_exceeds_order'
+            USING DETAIL = format('order %s', p_order_id);
+    END IF;
+
+    INSERT INTO order_refunds (order_id, stripe_refund_id, amount, reason, restocked)
+    VALUES (p_order_id, p_stripe_refund_id, p_amount, p_reason, p_restock)
+    RETURNING id INTO v_refund_id;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_order_item_id := (item->>'order_item_id')::UUID;
+        v_quantity := (item->>'quantity')::INTEGER;
+
+        SELECT quantity INTO v_bought
+        FROM order_items
+        WHERE id = v_order_item_id AND order_id = p_order_id;
+
+        SELECT COALESCE(SUM(ori.quantity), 0) INTO v_already_refunded
+        FROM order_refund_items ori
+        WHERE ori.order_item_id = v_order_item_id;
+
+        IF v_bought IS NULL OR v_already_refunded + v_quantity > v_bought THEN
+            RAISE EXCEPTION 'refund_exceeds_order'
+                USING DETAIL = format('order item %s', v_order_item_id);
+        END IF;
+
+        INSERT INTO order_refund_items (refund_id, order_item_id, quantity)
+        VALUES (v_refund_id, v_order_item_id, v_quantity);
+
+        -- A cancelled line's stock was already restocked or written off
+        IF p_restock AND NOT EXISTS (
+            SELECT 1 FROM order_item_restocks
+            WHERE order_item_id = v_order_item_id
+        ) THEN
+            -- Same split as decrement_artwork_inventory(): variant lines go
+            -- back to the variant's stock, everything else to the artwork's
+            UPDATE artwork_variants
+            SET inventory_count = artwork_variants.inventory_count + v_quantity
+            FROM order_items oi
+            WHERE oi.id = v_order_item_id
+              AND oi.variant_id IS NOT NULL
+              AND artwork_variants.id = oi.variant_id;
+
+            UPDATE artwork
+            SET inventory_count = artwork.inventory_count + v_quantity
+            FROM order_items oi
+            WHERE oi.id = v_order_item_id
+              AND oi.variant_id IS NULL
+              AND artwork.id = oi.artwork_id;
+        END IF;
+    END LOOP;
+
+    UPDATE orders
+    SET payment_status = CASE
+        WHEN v_refunded + p_amount >= v_total THEN 'refunded'
+        ELSE 'partially_refunded'
+    END
+    WHERE id = p_order_id;
+
+    RETURN v_refund_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admin order actions call these with the service role; don't expose them
+-- over the public API
+REVOKE EXECUTE ON FUNCTION cancel_order(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION unrefunded_quantity(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE order_item_restocks ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,38 @@
+-- Migration: Add order disputes
+--
+-- Problem: Chargebacks only show up in the Stripe dashboard, so a dispute
+-- can sit unanswered until its evidence deadline passes.
+--
+-- Solution:
+-- 1. Add an order_disputes table (one row per Stripe dispute), kept up to
+--    date by the Stripe webhook as the dispute is opened and closed
+--
+-- Disputes are written by the Stripe webhook with the service role and shown
+-- on the admin order page.
+
+-- ============================================================================
+-- Table: order_disputes
+-- ============================================================================
+CREATE TABLE order_disputes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    stripe_dispute_id TEXT NOT NULL UNIQUE,  -- dp_...
+    amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+    reason TEXT NOT NULL,  -- Stripe's reason, e.g. 'fraudulent'
+    status TEXT NOT NULL,  -- Stripe's status, e.g. 'needs_response', 'won', 'lost'
+    evidence_due_by TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_disputes_order_id ON order_disputes(order_id, created_at);
+
+CREATE TRIGGER update_order_disputes_updated_at
+    BEFORE UPDATE ON order_disputes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE order_disputes ENABLE ROW LEVEL SECURITY;
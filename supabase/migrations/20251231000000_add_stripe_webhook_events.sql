@@ -0,0 +1,82 @@
+-- Migration: Add a Stripe webhook event log
+--
+-- Problem: A webhook event that fails to process only leaves a line in the
+-- logs, and duplicate deliveries are only caught per handler (e.g. by
+-- looking up orders.payment_intent_id).
+--
+-- Solution:
+-- 1. Add stripe_webhook_events, storing every event received with its
+--    payload and whether it was processed, failed (and why) or is in progress
+-- 2. Add claim_stripe_webhook_event(), which records an event and decides,
+--    atomically, whether this delivery should process it. Events are keyed on
+--    Stripe's event ID, so a redelivered event is only processed again if its
+--    last attempt failed
+--
+-- Failed events (and events stuck processing) can be replayed from the admin
+-- once the underlying problem is fixed. Events are written by the Stripe webhook with the service role.
+
+-- ============================================================================
+-- Table: stripe_webhook_events
+-- ============================================================================
+CREATE TABLE stripe_webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    stripe_event_id TEXT NOT NULL UNIQUE,  -- evt_...
+    type TEXT NOT NULL,  -- e.g. 'checkout.session.completed'
+    payload JSONB NOT NULL,  -- The full event, as verified
+    status TEXT NOT NULL DEFAULT 'processing'
+        CHECK (status IN ('processing', 'processed', 'failed')),
+    error TEXT,  -- Why the last attempt failed
+    attempts INTEGER NOT NULL DEFAULT 0,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_stripe_webhook_events_status ON stripe_webhook_events(status, created_at DESC);
+
+CREATE TRIGGER update_stripe_webhook_events_updated_at
+    BEFORE UPDATE ON stripe_webhook_events
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Function: claim_stripe_webhook_event
+-- ============================================================================
+-- Returns true when the caller should process the event: it's new, or its
+-- last attempt failed (a Stripe redelivery or an admin replay). The event is
+-- then 'processing' until the caller records the outcome. Returns false for
+-- events already processed or being processed by another delivery.
+--
+-- An attempt that never recorded its outcome (the function timed out or
+-- crashed mid-event) would leave the event 'processing' forever, so one
+-- that's been processing for over 10 minutes, well past the webhook's
+-- time limit, is treated as failed and can be claimed again.
+CREATE OR REPLACE FUNCTION claim_stripe_webhook_event(
+    p_stripe_event_id TEXT,
+    p_type TEXT,
+    p_payload JSONB
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    INSERT INTO stripe_webhook_events (stripe_event_id, type, payload, status, attempts)
+    VALUES (p_stripe_event_id, p_type, p_payload, 'processing', 1)
+    ON CONFLICT (stripe_event_id) DO UPDATE
+        SET status = 'processing',
+            error = NULL,
+            attempts = stripe_webhook_events.attempts + 1
+        WHERE stripe_webhook_events.status = 'failed'
+           OR (stripe_webhook_events.status = 'processing'
+               AND stripe_webhook_events.updated_at < NOW() - INTERVAL '10 minutes');
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The Stripe webhook calls this with the service role; don't expose it over
+-- the public API
+REVOKE EXECUTE ON FUNCTION claim_stripe_webhook_event(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
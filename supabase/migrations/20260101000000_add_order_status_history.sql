@@ -0,0 +1,185 @@
+-- Migration: Add order status history
+--
+-- Problem: An order's status can be overwritten with any other status (e.g.
+-- from 'delivered' back to 'pending'), and only the current status is kept,
+-- so there's no telling when an order shipped or who cancelled it.
+--
+-- Solution:
+-- 1. Add order_status_history, one row per status an order has been in:
+--    from/to status, when, which admin (if any) and an optional note
+-- 2. Add triggers recording every status change, whichever code path made it
+--    (admin actions, the Stripe webhook, checkout)
+-- 3. Add update_order_status(), which moves an order from the status the
+--    admin saw to the new one, recording who did it and why. It changes
+--    nothing if the order has moved on in the meantime
+-- 4. Replace cancel_order() with a version that does the same for
+--    cancellations
+--
+-- Which transitions are allowed is decided by the app (ORDER_STATUS_TRANSITIONS
+-- in lib/utils/order-status) before calling these functions.
+
+-- ============================================================================
+-- Table: order_status_history
+-- ============================================================================
+CREATE TABLE order_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    from_status TEXT,  -- NULL when the order was created
+    to_status TEXT NOT NULL,
+    admin_id UUID REFERENCES administrators(id) ON DELETE SET NULL,
+    changed_by TEXT,  -- Admin's name at the time; NULL for automatic changes
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_status_history_order_id ON order_status_history(order_id, created_at);
+
+-- ============================================================================
+-- Trigger: record_order_status_change
+-- ============================================================================
+-- Who made the change and why are read from transaction-local settings set by
+-- set_order_status_author(); changes made outside update_order_status() and
+-- cancel_order() (the webhook, checkout) are recorded without them.
+CREATE OR REPLACE FUNCTION record_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO order_status_history (order_id, from_status, to_status, admin_id, changed_by, note)
+    VALUES (
+        NEW.id,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        NEW.status,
+        NULLIF(current_setting('app.order_status_admin_id', true), '')::UUID,
+        NULLIF(current_setting('app.order_status_changed_by', true), ''),
+        NULLIF(current_setting('app.order_status_note', true), '')
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_order_status_on_insert
+    AFTER INSERT ON orders
+    FOR EACH ROW
+    EXECUTE FUNCTION record_order_status_change();
+
+CREATE TRIGGER record_order_status_on_update
+    AFTER UPDATE ON orders
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION record_order_status_change();
+
+-- ============================================================================
+-- Function: set_order_status_author
+-- ============================================================================
+-- Sets who is changing an order's status, for the rest of the transaction
+CREATE OR REPLACE FUNCTION set_order_status_author(
+    p_admin_id UUID,
+    p_changed_by TEXT,
+    p_note TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM set_config('app.order_status_admin_id', COALESCE(p_admin_id::TEXT, ''), true);
+    PERFORM set_config('app.order_status_changed_by', COALESCE(p_changed_by, ''), true);
+    PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Function: update_order_status
+-- ============================================================================
+-- Returns false (changing nothing) when the order isn't in p_from_status any
+-- more, e.g. because another admin changed it first.
+CREATE OR REPLACE FUNCTION update_order_status(
+    p_order_id UUID,
+    p_from_status TEXT,
+    p_to_status TEXT,
+    p_admin_id UUID,
+    p_changed_by TEXT,
+    p_note TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    PERFORM set_order_status_author(p_admin_id, p_changed_by, p_note);
+
+    UPDATE orders
+    SET status = p_to_status
+    WHERE id = p_order_id
+      AND status = p_from_status;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Function: cancel_order (check the status and record the author)
+-- ============================================================================
+DROP FUNCTION cancel_order(UUID, UUID[]);
+
+-- p_written_off_item_ids: lines whose stock is damaged and must not go back
+-- on sale. Every other line is restocked by restore_inventory_on_cancel().
+-- Returns false (changing nothing) when the order isn't in p_from_status any
+-- more.
+CREATE OR REPLACE FUNCTION cancel_order(
+    p_order_id UUID,
+    p_written_off_item_ids UUID[],
+    p_from_status TEXT,
+    p_admin_id UUID,
+    p_changed_by TEXT,
+    p_note TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_status TEXT;
+BEGIN
+    -- Lock the order so the write-offs and the cancellation see one status
+    SELECT status INTO v_status
+    FROM orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF v_status IS DISTINCT FROM p_from_status THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM set_order_status_author(p_admin_id, p_changed_by, p_note);
+
+    INSERT INTO order_item_restocks (order_item_id, quantity, disposition)
+    SELECT oi.id, unrefunded_quantity(oi.id), 'written_off'
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.order_id = p_order_id
+      AND oi.id = ANY(p_written_off_item_ids)
+      AND o.status <> 'cancelled'
+      AND o.payment_status IN ('succeeded', 'partially_refunded', 'refunded')
+    ON CONFLICT (order_item_id) DO NOTHING;
+
+    UPDATE orders
+    SET status = 'cancelled'
+    WHERE id = p_order_id;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admin order actions call these with the service role; don't expose them
+-- over the public API
+REVOKE EXECUTE ON FUNCTION set_order_status_author(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_order_status(UUID, TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_order(UUID, UUID[], TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- Backfill: paid orders left in 'pending'
+-- ============================================================================
+-- createOrder used to leave paid orders 'pending', where ORDER_STATUS_TRANSITIONS
+-- only allows moving to 'paid' or 'cancelled'. It now marks them 'paid' with
+-- the payment; move the ones already placed the same way (recorded above as
+-- automatic changes).
+UPDATE orders
+SET status = 'paid'
+WHERE status = 'pending'
+  AND payment_status IN ('succeeded', 'partially_refunded', 'refunded');
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
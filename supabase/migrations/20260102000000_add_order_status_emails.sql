@@ -0,0 +1,13 @@
+-- Migration: Record shipping and delivery emails on orders
+--
+-- Problem: Customers only ever get the order confirmation email; nothing
+-- tells them when their order ships or arrives.
+--
+-- Solution: Add shipped_email_sent_at and delivered_email_sent_at to orders.
+-- The admin order actions email the customer when an order moves to
+-- 'shipped' or 'delivered', claiming the column first, so each email is sent
+-- at most once per order however often its status is saved.
+
+ALTER TABLE orders
+    ADD COLUMN shipped_email_sent_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN delivered_email_sent_at TIMESTAMP WITH TIME ZONE;
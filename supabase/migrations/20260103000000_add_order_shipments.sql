@@ -0,0 +1,42 @@
+-- Migration: Track orders' packages with their carriers
+--
+-- Problem: orders.shipping_tracking_number is a single bare string: there's
+-- no carrier to build a tracking link from, and an order shipped in several
+-- packages can only record one of them.
+--
+-- Solution:
+-- 1. Add order_shipments, one row per package: its tracking number and
+--    carrier. The carrier is detected from the number's format when the
+--    admin doesn't choose one; NULL means unknown
+-- 2. Copy existing tracking numbers over (carrier left NULL, so it is
+--    detected when the link is shown) and drop orders.shipping_tracking_number
+
+-- ============================================================================
+-- Table: order_shipments
+-- ============================================================================
+CREATE TABLE order_shipments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    tracking_number TEXT NOT NULL,
+    carrier TEXT CHECK (carrier IN ('usps', 'ups', 'fedex', 'dhl')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (order_id, tracking_number)
+);
+
+CREATE INDEX idx_order_shipments_tracking_number ON order_shipments(tracking_number);
+
+-- ============================================================================
+-- Data: existing tracking numbers
+-- ============================================================================
+INSERT INTO order_shipments (order_id, tracking_number, created_at)
+SELECT id, TRIM(shipping_tracking_number), updated_at
+FROM orders
+WHERE shipping_tracking_number IS NOT NULL
+  AND TRIM(shipping_tracking_number) <> '';
+
+ALTER TABLE orders DROP COLUMN shipping_tracking_number;
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE order_shipments ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,41 @@
+-- Migration: Add admin order search
+--
+-- Problem: The admin orders list can only be filtered by status. Finding a
+-- customer's order means paging through everything, and there's no way to
+-- look an order up by the SKU it contained or a package's tracking number.
+--
+-- Solution: Add search_text(orders), a PostgREST computed column holding the
+-- order's number, customer name and email, its items' artwork and variant
+-- SKUs and its tracking numbers. The admin orders API filters on it with
+-- ILIKE, so the usual filters, sorting and exact count still apply.
+--
+-- Fields are joined with newlines so a search (which can't contain one) never
+-- matches across two of them. It isn't indexed: this scans the orders table,
+-- which is fine at the shop's size.
+
+-- ============================================================================
+-- Function: search_text
+-- ============================================================================
+CREATE OR REPLACE FUNCTION search_text(o orders)
+RETURNS TEXT AS $$
+    SELECT concat_ws(E'\n',
+        o.order_number,
+        o.customer_name,
+        o.customer_email,
+        (
+            SELECT string_agg(concat_ws(E'\n', a.sku, v.sku), E'\n')
+            FROM order_items oi
+            LEFT JOIN artwork a ON a.id = oi.artwork_id
+            LEFT JOIN artwork_variants v ON v.id = oi.variant_id
+            WHERE oi.order_id = o.id
+        ),
+        (
+            SELECT string_agg(s.tracking_number, E'\n')
+            FROM order_shipments s
+            WHERE s.order_id = o.id
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Only the admin area (service role) searches orders
+REVOKE EXECUTE ON FUNCTION search_text(orders) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,139 @@
+-- Migration: Record what each checkout redeems from its gift cards
+--
+-- Problem: The webhook debits a paid session's gift cards from its
+-- gift_card_holds, but holds don't outlive their session: reserve_gift_cards
+-- deletes them once they expire, and the cart page releases them when the
+-- customer backs out. A webhook that arrives late (or is replayed) for a
+-- session that was paid anyway finds no holds and redeems nothing, leaving
+-- the balance to be spent again.
+--
+-- Solution: Add checkout_reservations, one row per checkout attempt, written
+-- by reserve_gift_cards together with its holds and kept after the holds are
+-- gone. redeem_gift_card_holds debits the amounts recorded there, once per
+-- reservation, and drops whatever holds are left.
+--
+-- Everything is read and written with the service role.
+
+-- ============================================================================
+-- Table: checkout_reservations
+-- ============================================================================
+CREATE TABLE checkout_reservations (
+    reservation_id UUID PRIMARY KEY,  -- Same reservation as the session's holds
+    gift_card_redemptions JSONB NOT NULL DEFAULT '[]',  -- [{ "gift_card_id": "...", "amount": 25.00 }]
+    gift_cards_redeemed_at TIMESTAMP WITH TIME ZONE,  -- Set once the webhook has debited them
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Sessions open while this is deployed still redeem what they held
+INSERT INTO checkout_reservations (reservation_id, gift_card_redemptions)
+SELECT
+    reservation_id,
+    jsonb_agg(jsonb_build_object('gift_card_id', gift_card_id, 'amount', amount))
+FROM gift_card_holds
+GROUP BY reservation_id;
+
+-- ============================================================================
+-- Function: reserve_gift_cards (now records the redemptions)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION reserve_gift_cards(
+    p_reservation_id UUID,
+    p_redemptions JSONB,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+DECLARE
+    redemption JSONB;
+    v_gift_card_id UUID;
+    v_amount NUMERIC(10,2);
+    v_balance NUMERIC(10,2);
+    v_is_active BOOLEAN;
+    v_held NUMERIC(10,2);
+BEGIN
+    -- Clean up holds that timed out without a webhook (their redemptions
+    -- stay recorded in checkout_reservations)
+    DELETE FROM gift_card_holds WHERE expires_at <= NOW();
+
+    FOR redemption IN SELECT * FROM jsonb_array_elements(p_redemptions) LOOP
+        v_gift_card_id := (redemption->>'gift_card_id')::UUID;
+        v_amount := (redemption->>'amount')::NUMERIC(10,2);
+
+        -- Lock the card so concurrent checkouts queue behind this one
+        SELECT balance, is_active INTO v_balance, v_is_active
+        FROM gift_cards
+        WHERE id = v_gift_card_id
+        FOR UPDATE;
+
+        SELECT COALESCE(SUM(amount), 0) INTO v_held
+        FROM gift_card_holds
+        WHERE gift_card_id = v_gift_card_id
+          AND expires_at > NOW();
+
+        IF v_balance IS NULL OR NOT v_is_active OR v_balance - v_held < v_amount THEN
+            RAISE EXCEPTION 'insufficient_gift_card_balance'
+                USING DETAIL = format('gift card %s', v_gift_card_id);
+        END IF;
+
+        INSERT INTO gift_card_holds (reservation_id, gift_card_id, amount, expires_at)
+        VALUES (p_reservation_id, v_gift_card_id, v_amount, p_expires_at);
+    END LOOP;
+
+    INSERT INTO checkout_reservations (reservation_id, gift_card_redemptions)
+    VALUES (p_reservation_id, p_redemptions)
+    ON CONFLICT (reservation_id) DO UPDATE
+        SET gift_card_redemptions = EXCLUDED.gift_card_redemptions;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Function: redeem_gift_card_holds (now debits the recorded redemptions)
+-- ============================================================================
+-- Turns a paid session's recorded redemptions into ledger debits against
+-- p_order_id (NULL when the order couldn't be created; the customer still
+-- paid with the card), whether or not its holds are still there. Safe to
+-- call more than once: the reservation is marked redeemed under a row lock,
+-- so concurrent webhook deliveries debit the cards once.
+CREATE OR REPLACE FUNCTION redeem_gift_card_holds(
+    p_reservation_id UUID,
+    p_order_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    v_redemptions JSONB;
+    redemption JSONB;
+    v_gift_card_id UUID;
+    v_amount NUMERIC(10,2);
+BEGIN
+    SELECT gift_card_redemptions INTO v_redemptions
+    FROM checkout_reservations
+    WHERE reservation_id = p_reservation_id
+      AND gift_cards_redeemed_at IS NULL
+    FOR UPDATE;
+
+    DELETE FROM gift_card_holds WHERE reservation_id = p_reservation_id;
+
+    IF v_redemptions IS NULL THEN
+        RETURN;  -- Unknown or already redeemed
+    END IF;
+
+    FOR redemption IN SELECT * FROM jsonb_array_elements(v_redemptions) LOOP
+        v_gift_card_id := (redemption->>'gift_card_id')::UUID;
+        v_amount := (redemption->>'amount')::NUMERIC(10,2);
+
+        UPDATE gift_cards
+        SET balance = GREATEST(balance - v_amount, 0)
+        WHERE id = v_gift_card_id;
+
+        INSERT INTO gift_card_transactions (gift_card_id, transaction_type, amount, order_id)
+        VALUES (v_gift_card_id, 'redemption', -v_amount, p_order_id);
+    END LOOP;
+
+    UPDATE checkout_reservations
+    SET gift_cards_redeemed_at = NOW()
+    WHERE reservation_id = p_reservation_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE checkout_reservations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,16 @@
+-- Migration: Keep each checkout's cart lines server-side
+--
+-- Problem: The checkout session carried its cart lines to the webhook as JSON
+-- in the Stripe session metadata, but Stripe caps metadata values at 500
+-- characters. A cart of a handful of lines (each with artwork and variant
+-- UUIDs) goes over, and Stripe rejects the session.
+--
+-- Solution: Record the cart lines on the checkout's checkout_reservations row
+-- when the session is created. The session metadata keeps only the
+-- reservation ID, and the webhook reads the lines from the row.
+--
+-- Sessions created before this migration still carry their lines in the
+-- metadata; the webhook falls back to them when the row has none.
+
+ALTER TABLE checkout_reservations
+    ADD COLUMN items JSONB NOT NULL DEFAULT '[]';  -- [{ "artwork_id": "...", "variant_id": null, "quantity": 1, "price": 50.00 }]
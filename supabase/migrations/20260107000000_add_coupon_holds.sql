@@ -0,0 +1,81 @@
+-- Migration: Hold a coupon use while its checkout is open
+--
+-- Problem: A coupon's usage_limit is only checked against usage_count, and
+-- increment_coupon_usage only counts a use once the order's payment has
+-- succeeded. Nothing counts the checkouts still open, so several customers
+-- can start checkout at once with a single-use (or nearly used up) coupon
+-- and every one of them redeems it.
+--
+-- Solution: Add coupon_holds: like inventory_holds and gift_card_holds, a
+-- use of the coupon is held while the Checkout session is open.
+-- reserve_coupon locks the coupon and turns the checkout away when its paid
+-- uses plus the open holds have reached the limit. The webhook drops the
+-- hold once the order is created (usage_count has counted it by then) or
+-- the session expires, and the cart page drops it when the customer backs
+-- out.
+--
+-- Everything is read and written with the service role.
+
+-- ============================================================================
+-- Table: coupon_holds
+-- ============================================================================
+CREATE TABLE coupon_holds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reservation_id UUID NOT NULL UNIQUE,  -- Same reservation as the session's inventory holds (one coupon per checkout)
+    coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,  -- Matches the inventory holds' expires_at
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_coupon_holds_coupon_id ON coupon_holds(coupon_id, expires_at);
+
+-- ============================================================================
+-- Function: reserve_coupon
+-- ============================================================================
+-- Raises 'coupon_usage_limit_reached' (and holds nothing) when the coupon's
+-- paid uses plus other active holds have reached its usage_limit.
+CREATE OR REPLACE FUNCTION reserve_coupon(
+    p_reservation_id UUID,
+    p_coupon_id UUID,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+DECLARE
+    v_usage_limit INTEGER;
+    v_usage_count INTEGER;
+    v_held INTEGER;
+BEGIN
+    -- Clean up holds that timed out without a webhook
+    DELETE FROM coupon_holds WHERE expires_at <= NOW();
+
+    -- Lock the coupon so concurrent checkouts queue behind this one
+    SELECT usage_limit, usage_count INTO v_usage_limit, v_usage_count
+    FROM coupons
+    WHERE id = p_coupon_id
+    FOR UPDATE;
+
+    IF v_usage_limit IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_held
+        FROM coupon_holds
+        WHERE coupon_id = p_coupon_id
+          AND expires_at > NOW();
+
+        IF v_usage_count + v_held >= v_usage_limit THEN
+            RAISE EXCEPTION 'coupon_usage_limit_reached'
+                USING DETAIL = format('coupon %s', p_coupon_id);
+        END IF;
+    END IF;
+
+    INSERT INTO coupon_holds (reservation_id, coupon_id, expires_at)
+    VALUES (p_reservation_id, p_coupon_id, p_expires_at);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Checkout calls this with the service role; don't expose it over the
+-- public API
+REVOKE EXECUTE ON FUNCTION reserve_coupon(UUID, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- RLS Policies (service role only)
+-- ============================================================================
+ALTER TABLE coupon_holds ENABLE ROW LEVEL SECURITY;